@@ -1,4 +1,5 @@
 import { ObjectHelper } from '../helper/objHelper';
+import { TypedArray } from '../commonTypes';
 
 /**
  * Data type.
@@ -6,9 +7,40 @@ import { ObjectHelper } from '../helper/objHelper';
 export const enum DType {
     LOGIC = 0,
     INT32 = 1,
-    FLOAT64 = 3
+    FLOAT32 = 2,
+    FLOAT64 = 3,
+    INT8 = 4,
+    INT16 = 5,
+    UINT8 = 6,
+    UINT16 = 7,
+    UINT32 = 8
 }
 
+/**
+ * Kinds of data types used when resolving type promotions.
+ */
+const enum DTypeKind {
+    Logic,
+    SignedInteger,
+    UnsignedInteger,
+    Float
+}
+
+/**
+ * Kind and number of bits of each data type, indexed by DType.
+ */
+const DTYPE_TRAITS: Array<[DTypeKind, number]> = [
+    [DTypeKind.Logic, 1],             // LOGIC
+    [DTypeKind.SignedInteger, 32],    // INT32
+    [DTypeKind.Float, 32],            // FLOAT32
+    [DTypeKind.Float, 64],            // FLOAT64
+    [DTypeKind.SignedInteger, 8],     // INT8
+    [DTypeKind.SignedInteger, 16],    // INT16
+    [DTypeKind.UnsignedInteger, 8],   // UINT8
+    [DTypeKind.UnsignedInteger, 16],  // UINT16
+    [DTypeKind.UnsignedInteger, 32]   // UINT32
+];
+
 export class DTypeHelper {
     /**
      * Gets the string representation of the given data type.
@@ -17,29 +49,131 @@ export class DTypeHelper {
     public static dTypeToString(dtype: DType): string {
         switch (dtype) {
             case DType.LOGIC: return 'logic';
+            case DType.INT8: return 'int8';
+            case DType.INT16: return 'int16';
             case DType.INT32: return 'int32';
+            case DType.UINT8: return 'uint8';
+            case DType.UINT16: return 'uint16';
+            case DType.UINT32: return 'uint32';
+            case DType.FLOAT32: return 'float32';
             case DType.FLOAT64: return 'float64';
             default: return 'unknown';
         }
     }
 
     /**
-     * Checks if the new type is wider than the original type.
-     * FLOAT64 > INT32 > LOGIC
+     * Parses the string representation of a data type produced by
+     * dTypeToString(). Throws if the string is not recognized.
+     * @param str String representation.
+     */
+    public static stringToDType(str: string): DType {
+        switch (str) {
+            case 'logic': return DType.LOGIC;
+            case 'int8': return DType.INT8;
+            case 'int16': return DType.INT16;
+            case 'int32': return DType.INT32;
+            case 'uint8': return DType.UINT8;
+            case 'uint16': return DType.UINT16;
+            case 'uint32': return DType.UINT32;
+            case 'float32': return DType.FLOAT32;
+            case 'float64': return DType.FLOAT64;
+            default:
+                throw new Error(`Unknown data type "${str}".`);
+        }
+    }
+
+    /**
+     * Checks if the given data type is an integer type (LOGIC is not
+     * considered as an integer type).
+     * @param dtype Data type.
+     */
+    public static isIntegerType(dtype: DType): boolean {
+        let kind = DTYPE_TRAITS[dtype][0];
+        return kind === DTypeKind.SignedInteger || kind === DTypeKind.UnsignedInteger;
+    }
+
+    /**
+     * Checks if the given data type is a floating point type.
+     * @param dtype Data type.
+     */
+    public static isFloatType(dtype: DType): boolean {
+        return DTYPE_TRAITS[dtype][0] === DTypeKind.Float;
+    }
+
+    /**
+     * Infers the data type from the type of the given typed array.
+     * Uint8ClampedArray is treated as UINT8.
+     * @param arr A typed array.
+     */
+    public static inferDTypeFromTypedArray(arr: TypedArray): DType {
+        if (arr instanceof Float64Array) return DType.FLOAT64;
+        if (arr instanceof Float32Array) return DType.FLOAT32;
+        if (arr instanceof Int32Array) return DType.INT32;
+        if (arr instanceof Int16Array) return DType.INT16;
+        if (arr instanceof Int8Array) return DType.INT8;
+        if (arr instanceof Uint32Array) return DType.UINT32;
+        if (arr instanceof Uint16Array) return DType.UINT16;
+        if (arr instanceof Uint8Array || arr instanceof Uint8ClampedArray) return DType.UINT8;
+        throw new Error('Unknown typed array.');
+    }
+
+    /**
+     * Checks if the new type is wider than the original type, i.e., some
+     * values of the new type cannot be represented by the original type.
+     * For the original three types, FLOAT64 > INT32 > LOGIC.
      * @param original The original data type.
      * @param newType The new data type.
      */
     public static isWiderType(original: DType, newType: DType): boolean {
-        return newType > original;
+        return DTypeHelper.getWiderType(original, newType) !== original;
     }
 
     /**
-     * Returns the wider type between the two.
+     * Returns the narrowest type that can represent all the values of both
+     * types. The promotion rules are similar to those of NumPy:
+     *  1. LOGIC is narrower than any other type.
+     *  2. Integers of the same signedness are promoted to the larger one.
+     *  3. Mixing signed and unsigned integers results in a signed integer
+     *     large enough to hold both, or FLOAT64 if no such integer type
+     *     exists (e.g., INT32 and UINT32).
+     *  4. FLOAT32 can hold 8-bit and 16-bit integers. Mixing FLOAT32 with
+     *     32-bit integers results in FLOAT64.
      * @param t1 DType 1.
      * @param t2 DType 2.
      */
     public static getWiderType(t1: DType, t2: DType): DType {
-        return t1 > t2 ? t1 : t2;
+        if (t1 === t2) {
+            return t1;
+        }
+        let [k1, b1] = DTYPE_TRAITS[t1];
+        let [k2, b2] = DTYPE_TRAITS[t2];
+        if (k1 === DTypeKind.Logic) {
+            return t2;
+        }
+        if (k2 === DTypeKind.Logic) {
+            return t1;
+        }
+        if (k1 === DTypeKind.Float || k2 === DTypeKind.Float) {
+            if (t1 === DType.FLOAT64 || t2 === DType.FLOAT64) {
+                return DType.FLOAT64;
+            }
+            // one of them is FLOAT32 and the other one is an integer type
+            return (k1 === DTypeKind.Float ? b2 : b1) <= 16 ? DType.FLOAT32 : DType.FLOAT64;
+        }
+        if (k1 === k2) {
+            return b1 > b2 ? t1 : t2;
+        }
+        // signed integer mixed with unsigned integer
+        let bSigned = k1 === DTypeKind.SignedInteger ? b1 : b2;
+        let bUnsigned = k1 === DTypeKind.UnsignedInteger ? b1 : b2;
+        if (bSigned > bUnsigned) {
+            return k1 === DTypeKind.SignedInteger ? t1 : t2;
+        }
+        switch (bUnsigned) {
+            case 8: return DType.INT16;
+            case 16: return DType.INT32;
+            default: return DType.FLOAT64;
+        }
     }
 
     public static getDTypeOfIndices(): DType {
@@ -79,6 +213,15 @@ export class OutputDTypeResolver {
         return DType.FLOAT64;
     }
 
+    /**
+     * Returns FLOAT32 if the input data type is FLOAT32. Otherwise returns
+     * FLOAT64.
+     * @param t 
+     */
+    public static uToFloat(t: DType): DType {
+        return t === DType.FLOAT32 ? DType.FLOAT32 : DType.FLOAT64;
+    }
+
     /**
      * Always returns LOGIC if the input is real.
      * Otherwise undefined is returned.
@@ -108,6 +251,29 @@ export class OutputDTypeResolver {
         return t === DType.LOGIC ? DType.INT32 : t;
     }
 
+    /**
+     * Returns INT32 for integer types narrower than 32 bits, and FLOAT64 for
+     * LOGIC and UINT32. Otherwise returns the input's data type.
+     * This is used by accumulating operations (e.g., sum) where narrow
+     * integer types will easily overflow.
+     * @param t 
+     * @param _isComplex 
+     */
+    public static uWidenForAccumulation(t: DType, _isComplex: boolean): DType {
+        switch (t) {
+            case DType.LOGIC:
+            case DType.UINT32:
+                return DType.FLOAT64;
+            case DType.INT8:
+            case DType.INT16:
+            case DType.UINT8:
+            case DType.UINT16:
+                return DType.INT32;
+            default:
+                return t;
+        }
+    }
+
     /**
      * Returns the wider data type between the two inputs.
      * @param t1 
@@ -120,16 +286,17 @@ export class OutputDTypeResolver {
     }
 
     /**
-     * Converts LOGIC to INT32 first, and then returns the wider type. 
+     * Returns INT32 if both inputs are LOGIC. Otherwise returns the wider type.
      * @param t1 
      * @param _isComplex1 
      * @param t2 
      * @param _isComplex2 
      */
     public static bWiderWithLogicToInt(t1: DType, _isComplex1: boolean, t2: DType, _isComplex2: boolean): DType {
-        return DTypeHelper.getWiderType(
-            t1 === DType.LOGIC ? DType.INT32 : t1,
-            t2 === DType.LOGIC ? DType.INT32 : t2);
+        if (t1 === DType.LOGIC && t2 === DType.LOGIC) {
+            return DType.INT32;
+        }
+        return DTypeHelper.getWiderType(t1, t2);
     }
 
     /**
@@ -146,6 +313,18 @@ export class OutputDTypeResolver {
         return DType.FLOAT64;
     }
 
+    /**
+     * Returns FLOAT32 if the wider data type between the two inputs is
+     * FLOAT32. Otherwise returns FLOAT64.
+     * @param t1 
+     * @param _isComplex1 
+     * @param t2 
+     * @param _isComplex2 
+     */
+    public static bToFloat(t1: DType, _isComplex1: boolean, t2: DType, _isComplex2: boolean): DType {
+        return DTypeHelper.getWiderType(t1, t2) === DType.FLOAT32 ? DType.FLOAT32 : DType.FLOAT64;
+    }
+
     /**
      * Always returns LOGIC.
      */
@@ -123,6 +123,20 @@ export class RangedIndexIterator extends IndexIterator {
         this._current = this._start;
     }
 
+    /**
+     * Retrieves the first index.
+     */
+    public get start(): number {
+        return this._start;
+    }
+
+    /**
+     * Retrieves the (signed) difference between two consecutive indices.
+     */
+    public get increment(): number {
+        return this._step;
+    }
+
     public get count(): number {
         if (this._start >= this._stop) {
             return 0;
@@ -153,6 +167,10 @@ export class ReversedRangedIndexIterator extends RangedIndexIterator {
         }
     }
 
+    public get increment(): number {
+        return -this._step;
+    }
+
     public get count(): number {
         if (this._start <= this._stop) {
             return 0;
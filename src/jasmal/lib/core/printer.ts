@@ -0,0 +1,325 @@
+import { DType, DTypeHelper } from './dtype';
+
+/**
+ * Number formats for printing floating point numbers.
+ *  'scientific' - Scientific notation with the specified precision
+ *                 (e.g., 1.2346e+3).
+ *       'fixed' - Fixed-point notation with the specified precision
+ *                 (e.g., 1234.5679).
+ *    'shortest' - The shortest representation that uniquely identifies the
+ *                 number. The precision is ignored.
+ */
+export type PrintFormat = 'scientific' | 'fixed' | 'shortest';
+
+export interface PrintOptions {
+    /**
+     * Number of digits after the decimal point. Default value is 4.
+     */
+    precision?: number;
+    /**
+     * Number format for floating point numbers. Default value is
+     * 'scientific'.
+     */
+    format?: PrintFormat;
+    /**
+     * Total number of elements above which the output is summarized (only
+     * the first and last edgeItems elements along each axis are printed).
+     * Default value is 1000.
+     */
+    threshold?: number;
+    /**
+     * Number of elements printed at the beginning and the end of each axis
+     * when the output is summarized. Default value is 3.
+     */
+    edgeItems?: number;
+    /**
+     * Maximum number of characters per line. Longer rows are wrapped.
+     * Default value is 75.
+     */
+    lineWidth?: number;
+}
+
+interface ResolvedPrintOptions {
+    precision: number;
+    format: PrintFormat;
+    threshold: number;
+    edgeItems: number;
+    lineWidth: number;
+}
+
+/**
+ * Marks the position of the ellipsis in the list of printed indices.
+ */
+const ELLIPSIS = -1;
+
+export class TensorPrinter {
+
+    private static _options: ResolvedPrintOptions = {
+        precision: 4,
+        format: 'scientific',
+        threshold: 1000,
+        edgeItems: 3,
+        lineWidth: 75
+    };
+
+    /**
+     * Sets the global print options. Options not specified remain
+     * unchanged.
+     */
+    public static setOptions(options: PrintOptions): void {
+        TensorPrinter._options = TensorPrinter._resolveOptions(options);
+    }
+
+    /**
+     * Retrieves a copy of the global print options.
+     */
+    public static getOptions(): PrintOptions {
+        let options = TensorPrinter._options;
+        return {
+            precision: options.precision,
+            format: options.format,
+            threshold: options.threshold,
+            edgeItems: options.edgeItems,
+            lineWidth: options.lineWidth
+        };
+    }
+
+    /**
+     * Combines two sets of print options. Options specified in the overrides
+     * take precedence. Options not specified in either of them remain
+     * unspecified so that they fall back to the global print options when
+     * printing.
+     * @param base Base options.
+     * @param overrides Overriding options. Throws if any of them is invalid.
+     */
+    public static mergeOptions(base: PrintOptions, overrides: PrintOptions): PrintOptions {
+        // validates the overrides
+        TensorPrinter._resolveOptions(overrides);
+        let merged: PrintOptions = {};
+        let keys: Array<keyof PrintOptions> = ['precision', 'format', 'threshold', 'edgeItems', 'lineWidth'];
+        for (let i = 0;i < keys.length;i++) {
+            let value = overrides[keys[i]] != undefined ? overrides[keys[i]] : base[keys[i]];
+            if (value != undefined) {
+                merged[keys[i]] = value;
+            }
+        }
+        return merged;
+    }
+
+    /**
+     * Converts the elements of a tensor into a string. Elements are aligned
+     * and N-d tensors are printed slice by slice.
+     * @param re Real part stored in the row-major order.
+     * @param im (Optional) Imaginary part. Set it to undefined if the tensor
+     *           is real.
+     * @param shape Shape of the tensor.
+     * @param dtype Data type of the tensor.
+     * @param options (Optional) Overrides the global print options.
+     */
+    public static print(re: ArrayLike<number>, im: ArrayLike<number> | undefined,
+                        shape: number[], dtype: DType, options?: PrintOptions): string {
+        let opts = options ? TensorPrinter._resolveOptions(options) : TensorPrinter._options;
+        let ndim = shape.length;
+        let size = 1;
+        for (let i = 0;i < ndim;i++) {
+            size *= shape[i];
+        }
+        let strides: number[] = new Array(ndim);
+        strides[ndim - 1] = 1;
+        for (let i = ndim - 2;i >= 0;i--) {
+            strides[i] = strides[i + 1] * shape[i + 1];
+        }
+        // determine the indices to be printed along each axis
+        let summarize = size > opts.threshold;
+        let indices: number[][] = [];
+        for (let i = 0;i < ndim;i++) {
+            indices.push(TensorPrinter._getPrintedIndices(shape[i], summarize, opts.edgeItems));
+        }
+        let formatNumber = TensorPrinter._getNumberFormatter(dtype, opts);
+        // reserve a leading space for the sign of nonnegative real parts
+        const formatReal = dtype === DType.LOGIC
+            ? formatNumber
+            : (x: number) => TensorPrinter._withSign(formatNumber(x));
+        // determine the column widths
+        let reWidth = 0, imWidth = 0;
+        TensorPrinter._forEachPrinted(indices, strides, offset => {
+            reWidth = Math.max(reWidth, formatReal(re[offset]).length);
+            if (im) {
+                imWidth = Math.max(imWidth, formatNumber(Math.abs(im[offset])).length);
+            }
+        });
+        const formatElement = (offset: number): string => {
+            let s = TensorPrinter._padLeft(formatReal(re[offset]), reWidth);
+            if (im) {
+                let x = im[offset];
+                s += (x < 0 ? ' - ' : ' + ')
+                    + TensorPrinter._padLeft(formatNumber(Math.abs(x)), imWidth) + 'j';
+            }
+            return s;
+        };
+        const printBlock = (level: number, offset: number, indent: string): string => {
+            let idx = indices[level];
+            let items: string[] = [];
+            if (level === ndim - 1) {
+                for (let i = 0;i < idx.length;i++) {
+                    items.push(idx[i] === ELLIPSIS ? '...' : formatElement(offset + idx[i]));
+                }
+                return TensorPrinter._wrapRow(items, indent, opts.lineWidth);
+            }
+            for (let i = 0;i < idx.length;i++) {
+                items.push(idx[i] === ELLIPSIS
+                    ? '...'
+                    : printBlock(level + 1, offset + idx[i] * strides[level], indent + ' '));
+            }
+            // separate the blocks with ndim - 1 - level line breaks
+            let sep = ',';
+            for (let i = level;i < ndim - 1;i++) {
+                sep += '\n';
+            }
+            return '[' + items.join(sep + indent + ' ') + ']';
+        };
+        return printBlock(0, 0, '');
+    }
+
+    private static _resolveOptions(options: PrintOptions): ResolvedPrintOptions {
+        let resolved: ResolvedPrintOptions = {
+            precision: TensorPrinter._options.precision,
+            format: TensorPrinter._options.format,
+            threshold: TensorPrinter._options.threshold,
+            edgeItems: TensorPrinter._options.edgeItems,
+            lineWidth: TensorPrinter._options.lineWidth
+        };
+        if (options.precision != undefined) {
+            if (!TensorPrinter._isNonnegativeInteger(options.precision) || options.precision > 20) {
+                throw new Error('Precision must be an integer between 0 and 20.');
+            }
+            resolved.precision = options.precision;
+        }
+        if (options.format != undefined) {
+            if (['scientific', 'fixed', 'shortest'].indexOf(options.format) < 0) {
+                throw new Error(`Unknown print format "${options.format}".`);
+            }
+            resolved.format = options.format;
+        }
+        if (options.threshold != undefined) {
+            if (!(options.threshold >= 0)) {
+                throw new Error('Threshold must be nonnegative.');
+            }
+            resolved.threshold = options.threshold;
+        }
+        if (options.edgeItems != undefined) {
+            if (!TensorPrinter._isNonnegativeInteger(options.edgeItems) || options.edgeItems === 0) {
+                throw new Error('The number of edge items must be a positive integer.');
+            }
+            resolved.edgeItems = options.edgeItems;
+        }
+        if (options.lineWidth != undefined) {
+            if (!TensorPrinter._isNonnegativeInteger(options.lineWidth) || options.lineWidth === 0) {
+                throw new Error('Line width must be a positive integer.');
+            }
+            resolved.lineWidth = options.lineWidth;
+        }
+        return resolved;
+    }
+
+    private static _isNonnegativeInteger(x: number): boolean {
+        return x >= 0 && Math.floor(x) === x;
+    }
+
+    private static _getPrintedIndices(n: number, summarize: boolean, edgeItems: number): number[] {
+        let idx: number[] = [];
+        if (summarize && n > 2 * edgeItems) {
+            for (let i = 0;i < edgeItems;i++) {
+                idx.push(i);
+            }
+            idx.push(ELLIPSIS);
+            for (let i = n - edgeItems;i < n;i++) {
+                idx.push(i);
+            }
+        } else {
+            for (let i = 0;i < n;i++) {
+                idx.push(i);
+            }
+        }
+        return idx;
+    }
+
+    /**
+     * Visits the offsets of all the printed elements.
+     */
+    private static _forEachPrinted(indices: number[][], strides: number[],
+                                   f: (offset: number) => void): void {
+        const visit = (level: number, offset: number): void => {
+            let idx = indices[level];
+            for (let i = 0;i < idx.length;i++) {
+                if (idx[i] === ELLIPSIS) {
+                    continue;
+                }
+                if (level === indices.length - 1) {
+                    f(offset + idx[i]);
+                } else {
+                    visit(level + 1, offset + idx[i] * strides[level]);
+                }
+            }
+        };
+        visit(0, 0);
+    }
+
+    private static _getNumberFormatter(dtype: DType, options: ResolvedPrintOptions): (x: number) => string {
+        if (dtype === DType.LOGIC) {
+            return x => x !== 0 ? 'true' : 'false';
+        }
+        const formatNonFinite = (x: number): string => {
+            return isNaN(x) ? 'NaN' : (x > 0 ? 'Inf' : '-Inf');
+        };
+        if (DTypeHelper.isIntegerType(dtype)) {
+            return x => x.toString();
+        }
+        let precision = options.precision;
+        switch (options.format) {
+            case 'fixed':
+                return x => isFinite(x) ? x.toFixed(precision) : formatNonFinite(x);
+            case 'shortest':
+                return x => isFinite(x) ? x.toString() : formatNonFinite(x);
+            default:
+                return x => isFinite(x) ? x.toExponential(precision) : formatNonFinite(x);
+        }
+    }
+
+    private static _withSign(s: string): string {
+        return s.charAt(0) === '-' ? s : ' ' + s;
+    }
+
+    private static _padLeft(s: string, width: number): string {
+        while (s.length < width) {
+            s = ' ' + s;
+        }
+        return s;
+    }
+
+    /**
+     * Joins the elements of a row and wraps the row if it exceeds the line
+     * width. Wrapped lines are aligned with the first element.
+     */
+    private static _wrapRow(items: string[], indent: string, lineWidth: number): string {
+        let str = '[';
+        let lineLength = indent.length + 1;
+        for (let i = 0;i < items.length;i++) {
+            let isLast = i === items.length - 1;
+            let item = isLast ? items[i] + ']' : items[i] + ',';
+            if (i > 0) {
+                if (lineLength + 1 + item.length > lineWidth) {
+                    str += '\n' + indent + ' ';
+                    lineLength = indent.length + 1;
+                } else {
+                    str += ' ';
+                    lineLength++;
+                }
+            }
+            str += item;
+            lineLength += item.length;
+        }
+        return items.length === 0 ? '[]' : str;
+    }
+
+}
@@ -0,0 +1,293 @@
+import { DType, DTypeHelper } from './dtype';
+import { DataBlock, TypedArray } from '../commonTypes';
+import { ObjectHelper } from '../helper/objHelper';
+import { ShapeHelper } from '../helper/shapeHelper';
+import { TensorStorage } from './storage';
+import { BinaryHelper, BinaryType } from '../helper/binaryHelper';
+
+/**
+ * Payload encodings for JSON serialization.
+ *   'base64' - Little-endian binary data of the elements encoded in base64.
+ *              Compact and exact.
+ *    'array' - Flat JavaScript array in row-major order. Non-finite values
+ *              are stored as the strings "NaN", "Inf" and "-Inf" since JSON
+ *              does not support them.
+ */
+export type TensorJSONEncoding = 'base64' | 'array';
+
+export interface TensorJSONOptions {
+    /**
+     * Encoding of the payload. Default value is 'base64'.
+     */
+    encoding?: TensorJSONEncoding;
+}
+
+/**
+ * Self-describing JSON representation of a tensor.
+ */
+export interface TensorJSON {
+    shape: number[];
+    /**
+     * Name of the data type (e.g., 'float64', 'int32', 'logic').
+     */
+    dtype: string;
+    encoding: TensorJSONEncoding;
+    /**
+     * Real part.
+     */
+    re: string | Array<number | string>;
+    /**
+     * Imaginary part. Omitted for real tensors.
+     */
+    im?: string | Array<number | string>;
+}
+
+/**
+ * Structured-clone-friendly representation of a tensor that can be posted to
+ * web workers.
+ */
+export interface TransferableTensor {
+    shape: number[];
+    /**
+     * Name of the data type (e.g., 'float64', 'int32', 'logic').
+     */
+    dtype: string;
+    /**
+     * Real part in row-major order.
+     */
+    re: DataBlock;
+    /**
+     * Imaginary part in row-major order. Omitted for real tensors.
+     */
+    im?: DataBlock;
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export class TensorSerializer {
+
+    private static _base64Lookup: { [c: string]: number } | undefined;
+
+    /**
+     * Creates the JSON representation from the flat data of a tensor.
+     * @param re Real part in row-major order.
+     * @param im Imaginary part in row-major order, or undefined for real
+     *           tensors.
+     * @param shape Shape of the tensor.
+     * @param dtype Data type.
+     * @param options (Optional) Serialization options.
+     */
+    public static toJSON(re: ArrayLike<number>, im: ArrayLike<number> | undefined, shape: number[],
+                         dtype: DType, options: TensorJSONOptions = {}): TensorJSON {
+        let encoding = options.encoding == undefined ? 'base64' : options.encoding;
+        if (encoding !== 'base64' && encoding !== 'array') {
+            throw new Error(`Unknown encoding "${encoding}".`);
+        }
+        let json: TensorJSON = {
+            shape: shape.slice(),
+            dtype: DTypeHelper.dTypeToString(dtype),
+            encoding: encoding,
+            re: TensorSerializer._encode(re, dtype, encoding)
+        };
+        if (im != undefined) {
+            json.im = TensorSerializer._encode(im, dtype, encoding);
+        }
+        return json;
+    }
+
+    /**
+     * Validates the JSON representation and decodes the payload.
+     * @returns [shape, dtype, real part, imaginary part or undefined]
+     */
+    public static fromJSON(json: TensorJSON): [number[], DType, DataBlock, DataBlock | undefined] {
+        if (json == undefined || typeof json !== 'object') {
+            throw new Error('Invalid JSON representation of a tensor.');
+        }
+        if (!Array.isArray(json.shape)) {
+            throw new Error('Shape must be an array.');
+        }
+        let shape = json.shape.slice();
+        ShapeHelper.validateShape(shape);
+        let dtype = DTypeHelper.stringToDType(json.dtype);
+        if (json.encoding !== 'base64' && json.encoding !== 'array') {
+            throw new Error(`Unknown encoding "${json.encoding}".`);
+        }
+        let size = ShapeHelper.getSizeFromShape(shape);
+        let re = TensorSerializer._decode(json.re, dtype, json.encoding, size);
+        let im: DataBlock | undefined;
+        if (json.im != undefined) {
+            if (dtype === DType.LOGIC) {
+                throw new Error('Logic tensors cannot have an imaginary part.');
+            }
+            im = TensorSerializer._decode(json.im, dtype, json.encoding, size);
+        }
+        return [shape, dtype, re, im];
+    }
+
+    /**
+     * Collects the ArrayBuffers of a transferable tensor. Typed arrays that
+     * do not span their entire buffers are replaced by compact copies so
+     * that no unrelated memory is transferred.
+     */
+    public static collectBuffers(t: TransferableTensor): ArrayBuffer[] {
+        let buffers: ArrayBuffer[] = [];
+        const compact = (data: DataBlock): DataBlock => {
+            if (!ObjectHelper.isTypedArray(data)) {
+                return data;
+            }
+            let arr: TypedArray = data;
+            if (arr.byteOffset !== 0 || arr.byteLength !== arr.buffer.byteLength) {
+                arr = (<Float64Array>arr).slice();
+            }
+            if (buffers.indexOf(arr.buffer) < 0) {
+                buffers.push(arr.buffer);
+            }
+            return arr;
+        };
+        t.re = compact(t.re);
+        if (t.im != undefined) {
+            t.im = compact(t.im);
+        }
+        return buffers;
+    }
+
+    /**
+     * Encodes bytes in base64.
+     */
+    public static encodeBase64(bytes: Uint8Array): string {
+        let chunks: string[] = [];
+        let n = bytes.length;
+        for (let i = 0;i < n;i += 3) {
+            let b0 = bytes[i], b1 = i + 1 < n ? bytes[i + 1] : 0, b2 = i + 2 < n ? bytes[i + 2] : 0;
+            chunks.push(
+                BASE64_CHARS.charAt(b0 >> 2) +
+                BASE64_CHARS.charAt(((b0 & 3) << 4) | (b1 >> 4)) +
+                (i + 1 < n ? BASE64_CHARS.charAt(((b1 & 15) << 2) | (b2 >> 6)) : '=') +
+                (i + 2 < n ? BASE64_CHARS.charAt(b2 & 63) : '='));
+        }
+        return chunks.join('');
+    }
+
+    /**
+     * Decodes a base64 string. Whitespace is ignored.
+     */
+    public static decodeBase64(str: string): Uint8Array {
+        let lookup = TensorSerializer._getBase64Lookup();
+        str = str.replace(/\s+/g, '');
+        if (str.length % 4 !== 0) {
+            throw new Error('Invalid base64 string.');
+        }
+        let nPadding = str.charAt(str.length - 1) !== '=' ? 0 : (str.charAt(str.length - 2) === '=' ? 2 : 1);
+        let bytes = new Uint8Array(str.length / 4 * 3 - nPadding);
+        let p = 0;
+        for (let i = 0;i < str.length;i += 4) {
+            let v = 0;
+            for (let k = 0;k < 4;k++) {
+                let c = str.charAt(i + k);
+                let d = lookup[c];
+                if (d == undefined) {
+                    if (c !== '=' || i + 4 !== str.length || k < 4 - nPadding) {
+                        throw new Error('Invalid base64 string.');
+                    }
+                    d = 0;
+                }
+                v = (v << 6) | d;
+            }
+            if (p < bytes.length) bytes[p++] = (v >> 16) & 0xff;
+            if (p < bytes.length) bytes[p++] = (v >> 8) & 0xff;
+            if (p < bytes.length) bytes[p++] = v & 0xff;
+        }
+        return bytes;
+    }
+
+    private static _encode(data: ArrayLike<number>, dtype: DType,
+                           encoding: TensorJSONEncoding): string | Array<number | string> {
+        if (encoding === 'array') {
+            let arr: Array<number | string> = new Array(data.length);
+            for (let i = 0;i < data.length;i++) {
+                let v = data[i];
+                arr[i] = isNaN(v) ? 'NaN' : (isFinite(v) ? v : (v > 0 ? 'Inf' : '-Inf'));
+            }
+            return arr;
+        }
+        if (!ObjectHelper.hasTypedArraySupport()) {
+            throw new Error('Base64 encoding requires native typed arrays.');
+        }
+        let binaryType = TensorSerializer._getBinaryType(dtype);
+        let bytes = new Uint8Array(data.length * BinaryHelper.getBinaryTypeSize(binaryType));
+        BinaryHelper.writeNumbers(BinaryHelper.getDataView(bytes), 0, data, binaryType, true);
+        return TensorSerializer.encodeBase64(bytes);
+    }
+
+    private static _decode(payload: string | Array<number | string>, dtype: DType,
+                           encoding: TensorJSONEncoding, size: number): DataBlock {
+        let data = TensorStorage.create(size, dtype).data;
+        if (encoding === 'array') {
+            if (!Array.isArray(payload)) {
+                throw new Error('Array payload expected.');
+            }
+            if (payload.length !== size) {
+                throw new Error(`Expecting ${size} elements but got ${payload.length}.`);
+            }
+            for (let i = 0;i < size;i++) {
+                let v = payload[i];
+                if (typeof v === 'string') {
+                    switch (v) {
+                        case 'NaN': v = NaN; break;
+                        case 'Inf': v = Infinity; break;
+                        case '-Inf': v = -Infinity; break;
+                        default:
+                            throw new Error(`Invalid element "${v}".`);
+                    }
+                } else if (typeof v !== 'number') {
+                    throw new Error('Elements must be numbers.');
+                }
+                data[i] = dtype === DType.LOGIC ? (v ? 1 : 0) : v;
+            }
+            return data;
+        }
+        if (typeof payload !== 'string') {
+            throw new Error('Base64 payload expected.');
+        }
+        if (!ObjectHelper.hasTypedArraySupport()) {
+            throw new Error('Base64 encoding requires native typed arrays.');
+        }
+        let bytes = TensorSerializer.decodeBase64(payload);
+        let binaryType = TensorSerializer._getBinaryType(dtype);
+        let nBytes = size * BinaryHelper.getBinaryTypeSize(binaryType);
+        if (bytes.length !== nBytes) {
+            throw new Error(`Expecting ${nBytes} bytes but got ${bytes.length}.`);
+        }
+        BinaryHelper.readNumbers(BinaryHelper.getDataView(bytes), 0, size, binaryType, true, data);
+        if (dtype === DType.LOGIC) {
+            for (let i = 0;i < size;i++) {
+                data[i] = data[i] ? 1 : 0;
+            }
+        }
+        return data;
+    }
+
+    /**
+     * Returns the binary type used to store the elements. Logic values are
+     * stored as bytes.
+     */
+    private static _getBinaryType(dtype: DType): BinaryType {
+        if (dtype === DType.LOGIC) {
+            return 'uint8';
+        }
+        // the names of the other data types are also valid binary types
+        return <BinaryType>DTypeHelper.dTypeToString(dtype);
+    }
+
+    private static _getBase64Lookup(): { [c: string]: number } {
+        if (!TensorSerializer._base64Lookup) {
+            let lookup: { [c: string]: number } = {};
+            for (let i = 0;i < BASE64_CHARS.length;i++) {
+                lookup[BASE64_CHARS.charAt(i)] = i;
+            }
+            TensorSerializer._base64Lookup = lookup;
+        }
+        return TensorSerializer._base64Lookup;
+    }
+
+}
@@ -0,0 +1,451 @@
+import { Tensor } from './tensor';
+import { ComplexNumber } from './complexNumber';
+import { DType } from './dtype';
+import { DataBlock, Scalar } from '../commonTypes';
+import { DataHelper } from '../helper/dataHelper';
+import { TensorPrinter, PrintOptions } from './printer';
+
+/**
+ * Storage format of a sparse matrix.
+ * 'csr': compressed sparse row.
+ * 'csc': compressed sparse column.
+ */
+export type SparseFormat = 'csr' | 'csc';
+
+/**
+ * Represents a sparse matrix stored in the compressed sparse row (CSR) or
+ * compressed sparse column (CSC) format. We call rows (CSR) or columns (CSC)
+ * the "major" lines. Within each major line, the minor indices are sorted in
+ * ascending order and contain no duplicates.
+ * Sparse matrices are immutable: all operations return new sparse matrices,
+ * which may share the underlying index arrays with their inputs.
+ */
+export class SparseMatrix {
+
+    private _format: SparseFormat;
+    private _m: number;
+    private _n: number;
+    private _indptr: DataBlock;
+    private _indices: DataBlock;
+    private _re: DataBlock;
+    private _im: DataBlock | undefined;
+
+    /**
+     * Internal constructor for sparse matrices.
+     * Note: the input arrays are not copied and must be in the canonical form
+     *       (sorted minor indices without duplicates).
+     * @param format Storage format.
+     * @param m Number of rows.
+     * @param n Number of columns.
+     * @param indptr Major line pointers. indptr[k] and indptr[k + 1] delimit
+     *               the k-th major line.
+     * @param indices Minor indices of the nonzero elements.
+     * @param re Real part of the nonzero elements.
+     * @param im (Optional) Imaginary part of the nonzero elements.
+     */
+    constructor(format: SparseFormat, m: number, n: number, indptr: DataBlock,
+                indices: DataBlock, re: DataBlock, im?: DataBlock) {
+        if (format !== 'csr' && format !== 'csc') {
+            throw new Error(`Invalid sparse format '${format}'.`);
+        }
+        if (indptr.length !== (format === 'csr' ? m : n) + 1) {
+            throw new Error('Invalid length of the pointer array.');
+        }
+        if (indices.length !== re.length || (im && im.length !== re.length)) {
+            throw new Error('Index array and data arrays must have the same length.');
+        }
+        this._format = format;
+        this._m = m;
+        this._n = n;
+        this._indptr = indptr;
+        this._indices = indices;
+        this._re = re;
+        this._im = im;
+    }
+
+    /**
+     * Creates a sparse matrix from (row, column, value) triplets. Values with
+     * the same row and column indices are summed together. Resulting zeros
+     * are dropped.
+     * @param m Number of rows.
+     * @param n Number of columns.
+     * @param rows Row indices.
+     * @param cols Column indices.
+     * @param re Real part of the values.
+     * @param im (Optional) Imaginary part of the values.
+     * @param format (Optional) Storage format. Default value is 'csr'.
+     */
+    public static fromTriplets(m: number, n: number, rows: ArrayLike<number>, cols: ArrayLike<number>,
+                               re: ArrayLike<number>, im?: ArrayLike<number>,
+                               format: SparseFormat = 'csr'): SparseMatrix {
+        SparseMatrix._validateDims(m, n);
+        let nnz = rows.length;
+        if (cols.length !== nnz || re.length !== nnz || (im && im.length !== nnz)) {
+            throw new Error('Row indices, column indices, and values must have the same length.');
+        }
+        for (let k = 0;k < nnz;k++) {
+            let i = rows[k], j = cols[k];
+            if (i < 0 || i >= m || Math.floor(i) !== i) {
+                throw new Error(`Invalid row index ${i}.`);
+            }
+            if (j < 0 || j >= n || Math.floor(j) !== j) {
+                throw new Error(`Invalid column index ${j}.`);
+            }
+        }
+        // We first bucket the triplets by their minor indices and then
+        // compress them along the major indices. Scanning the buckets in order
+        // produces sorted minor indices in each major line.
+        let isCSR = format === 'csr';
+        let nMajor = isCSR ? m : n;
+        let nMinor = isCSR ? n : m;
+        let major = isCSR ? rows : cols;
+        let minor = isCSR ? cols : rows;
+        let tPtr = DataHelper.allocateInt32Array(nMinor + 1);
+        let tIdx = DataHelper.allocateInt32Array(nnz);
+        let tRe = DataHelper.allocateFloat64Array(nnz);
+        let tIm = im ? DataHelper.allocateFloat64Array(nnz) : undefined;
+        for (let k = 0;k < nnz;k++) {
+            tPtr[minor[k] + 1]++;
+        }
+        for (let k = 0;k < nMinor;k++) {
+            tPtr[k + 1] += tPtr[k];
+        }
+        let next = DataHelper.allocateInt32Array(nMinor);
+        DataHelper.copy(tPtr, next, 0, 0, nMinor);
+        for (let k = 0;k < nnz;k++) {
+            let dst = next[minor[k]]++;
+            tIdx[dst] = major[k];
+            tRe[dst] = re[k];
+            if (tIm) {
+                tIm[dst] = (<ArrayLike<number>>im)[k];
+            }
+        }
+        let [indptr, indices, vRe, vIm] = SparseMatrix._transposeCompressed(nMinor, nMajor, tPtr, tIdx, tRe, tIm);
+        // sum up duplicates and drop zeros
+        let nz = 0;
+        let start = 0;
+        for (let k = 0;k < nMajor;k++) {
+            let end = indptr[k + 1];
+            let p = start;
+            indptr[k] = nz;
+            while (p < end) {
+                let idx = indices[p];
+                let sRe = vRe[p];
+                let sIm = vIm ? vIm[p] : 0;
+                p++;
+                while (p < end && indices[p] === idx) {
+                    sRe += vRe[p];
+                    if (vIm) {
+                        sIm += vIm[p];
+                    }
+                    p++;
+                }
+                if (sRe !== 0 || sIm !== 0) {
+                    indices[nz] = idx;
+                    vRe[nz] = sRe;
+                    if (vIm) {
+                        vIm[nz] = sIm;
+                    }
+                    nz++;
+                }
+            }
+            start = end;
+        }
+        indptr[nMajor] = nz;
+        return new SparseMatrix(format, m, n, indptr, SparseMatrix._shrink(indices, nz, true),
+            SparseMatrix._shrink(vRe, nz, false), vIm ? SparseMatrix._shrink(vIm, nz, false) : undefined);
+    }
+
+    /**
+     * Creates a sparse matrix from a dense matrix. Zero elements are dropped.
+     * @param x Dense matrix. 1D vectors are treated as row vectors.
+     * @param format (Optional) Storage format. Default value is 'csr'.
+     */
+    public static fromDense(x: Tensor, format: SparseFormat = 'csr'): SparseMatrix {
+        if (x.ndim > 2) {
+            throw new Error('Matrix or vector expected.');
+        }
+        let m = x.ndim === 2 ? x.shape[0] : 1;
+        let n = x.ndim === 2 ? x.shape[1] : x.size;
+        let reX = x.realData;
+        let imX = x.hasNonZeroComplexStorage() ? x.imagData : undefined;
+        let nnz = 0;
+        for (let k = 0;k < reX.length;k++) {
+            if (reX[k] !== 0 || (imX && imX[k] !== 0)) {
+                nnz++;
+            }
+        }
+        let indptr = DataHelper.allocateInt32Array(m + 1);
+        let indices = DataHelper.allocateInt32Array(nnz);
+        let re = DataHelper.allocateFloat64Array(nnz);
+        let im = imX ? DataHelper.allocateFloat64Array(nnz) : undefined;
+        let nz = 0;
+        for (let i = 0;i < m;i++) {
+            for (let j = 0;j < n;j++) {
+                let k = i * n + j;
+                if (reX[k] !== 0 || (imX && imX[k] !== 0)) {
+                    indices[nz] = j;
+                    re[nz] = reX[k];
+                    if (im && imX) {
+                        im[nz] = imX[k];
+                    }
+                    nz++;
+                }
+            }
+            indptr[i + 1] = nz;
+        }
+        return (new SparseMatrix('csr', m, n, indptr, indices, re, im)).asFormat(format);
+    }
+
+    /**
+     * Creates a sparse matrix with ones on the main diagonal.
+     * @param m Number of rows.
+     * @param n (Optional) Number of columns. Default value is m.
+     * @param format (Optional) Storage format. Default value is 'csr'.
+     */
+    public static identity(m: number, n: number = m, format: SparseFormat = 'csr'): SparseMatrix {
+        SparseMatrix._validateDims(m, n);
+        let k = Math.min(m, n);
+        let nMajor = format === 'csr' ? m : n;
+        let indptr = DataHelper.allocateInt32Array(nMajor + 1);
+        let indices = DataHelper.allocateInt32Array(k);
+        let re = DataHelper.allocateFloat64Array(k);
+        for (let i = 0;i < nMajor;i++) {
+            indptr[i + 1] = Math.min(i + 1, k);
+        }
+        for (let i = 0;i < k;i++) {
+            indices[i] = i;
+            re[i] = 1;
+        }
+        return new SparseMatrix(format, m, n, indptr, indices, re);
+    }
+
+    private static _validateDims(m: number, n: number): void {
+        if (m < 0 || n < 0 || Math.floor(m) !== m || Math.floor(n) !== n) {
+            throw new Error('Matrix dimensions must be nonnegative integers.');
+        }
+    }
+
+    private static _shrink(x: DataBlock, n: number, isInt: boolean): DataBlock {
+        if (x.length === n) {
+            return x;
+        }
+        let y = isInt ? DataHelper.allocateInt32Array(n) : DataHelper.allocateFloat64Array(n);
+        DataHelper.copy(x, y, 0, 0, n);
+        return y;
+    }
+
+    /**
+     * Converts a compressed structure with nMajor major lines and nMinor
+     * minor lines into the compressed structure of the other format. The
+     * minor indices in the output are sorted.
+     */
+    private static _transposeCompressed(nMajor: number, nMinor: number, indptr: ArrayLike<number>,
+                                        indices: ArrayLike<number>, re: ArrayLike<number>,
+                                        im: ArrayLike<number> | undefined)
+        : [DataBlock, DataBlock, DataBlock, DataBlock | undefined]
+    {
+        let nnz = indptr[nMajor];
+        let tPtr = DataHelper.allocateInt32Array(nMinor + 1);
+        let tIdx = DataHelper.allocateInt32Array(nnz);
+        let tRe = DataHelper.allocateFloat64Array(nnz);
+        let tIm = im ? DataHelper.allocateFloat64Array(nnz) : undefined;
+        for (let k = 0;k < nnz;k++) {
+            tPtr[indices[k] + 1]++;
+        }
+        for (let k = 0;k < nMinor;k++) {
+            tPtr[k + 1] += tPtr[k];
+        }
+        let next = DataHelper.allocateInt32Array(nMinor);
+        DataHelper.copy(tPtr, next, 0, 0, nMinor);
+        for (let i = 0;i < nMajor;i++) {
+            for (let k = indptr[i];k < indptr[i + 1];k++) {
+                let dst = next[indices[k]]++;
+                tIdx[dst] = i;
+                tRe[dst] = re[k];
+                if (tIm && im) {
+                    tIm[dst] = im[k];
+                }
+            }
+        }
+        return [tPtr, tIdx, tRe, tIm];
+    }
+
+    /**
+     * Storage format.
+     */
+    public get format(): SparseFormat {
+        return this._format;
+    }
+
+    /**
+     * Shape of this matrix as [m, n].
+     */
+    public get shape(): number[] {
+        return [this._m, this._n];
+    }
+
+    /**
+     * Number of stored (nonzero) elements.
+     */
+    public get nnz(): number {
+        return this._indptr[this._indptr.length - 1];
+    }
+
+    /**
+     * Major line pointers. Do not modify.
+     */
+    public get indptr(): DataBlock {
+        return this._indptr;
+    }
+
+    /**
+     * Minor indices of the stored elements. Do not modify.
+     */
+    public get indices(): DataBlock {
+        return this._indices;
+    }
+
+    /**
+     * Real part of the stored elements. Do not modify.
+     */
+    public get realData(): DataBlock {
+        return this._re;
+    }
+
+    /**
+     * Imaginary part of the stored elements. Do not modify.
+     */
+    public get imagData(): DataBlock {
+        if (!this._im) {
+            throw new Error('Attempting to access the imaginary part for a real matrix.');
+        }
+        return this._im;
+    }
+
+    public hasComplexStorage(): boolean {
+        return this._im !== undefined;
+    }
+
+    /**
+     * Retrieves the element at the specified position.
+     * @param i Row index.
+     * @param j Column index.
+     */
+    public get(i: number, j: number): Scalar {
+        if (i < 0 || i >= this._m || j < 0 || j >= this._n) {
+            throw new Error('Index out of bounds.');
+        }
+        let [major, minor] = this._format === 'csr' ? [i, j] : [j, i];
+        // binary search within the major line
+        let lo = this._indptr[major], hi = this._indptr[major + 1] - 1;
+        while (lo <= hi) {
+            let mid = (lo + hi) >> 1;
+            let idx = this._indices[mid];
+            if (idx === minor) {
+                return this._im ? new ComplexNumber(this._re[mid], this._im[mid]) : this._re[mid];
+            }
+            if (idx < minor) {
+                lo = mid + 1;
+            } else {
+                hi = mid - 1;
+            }
+        }
+        return this._im ? new ComplexNumber(0, 0) : 0;
+    }
+
+    /**
+     * Converts this sparse matrix into the specified format. If the format
+     * matches the current one, this sparse matrix itself is returned.
+     * @param format Storage format.
+     */
+    public asFormat(format: SparseFormat): SparseMatrix {
+        if (format === this._format) {
+            return this;
+        }
+        let [nMajor, nMinor] = this._format === 'csr' ? [this._m, this._n] : [this._n, this._m];
+        let [indptr, indices, re, im] = SparseMatrix._transposeCompressed(nMajor, nMinor,
+            this._indptr, this._indices, this._re, this._im);
+        return new SparseMatrix(format, this._m, this._n, indptr, indices, re, im);
+    }
+
+    /**
+     * Returns the transpose of this matrix. The CSR (CSC) representation of
+     * a matrix is the CSC (CSR) representation of its transpose so no data
+     * is copied.
+     */
+    public transpose(): SparseMatrix {
+        return new SparseMatrix(this._format === 'csr' ? 'csc' : 'csr', this._n, this._m,
+            this._indptr, this._indices, this._re, this._im);
+    }
+
+    /**
+     * Returns the Hermitian transpose of this matrix.
+     */
+    public hermitian(): SparseMatrix {
+        if (!this._im) {
+            return this.transpose();
+        }
+        let im = DataHelper.allocateFloat64Array(this._im.length);
+        for (let k = 0;k < im.length;k++) {
+            im[k] = -this._im[k];
+        }
+        return new SparseMatrix(this._format === 'csr' ? 'csc' : 'csr', this._n, this._m,
+            this._indptr, this._indices, this._re, im);
+    }
+
+    /**
+     * Converts this sparse matrix into a dense matrix.
+     */
+    public toDense(): Tensor {
+        let m = this._m, n = this._n;
+        let X = Tensor.zeros([m, n], DType.FLOAT64);
+        let reX = X.realData;
+        let imX: DataBlock = [];
+        if (this._im) {
+            X.ensureComplexStorage();
+            imX = X.imagData;
+        }
+        let isCSR = this._format === 'csr';
+        let nMajor = isCSR ? m : n;
+        for (let i = 0;i < nMajor;i++) {
+            for (let k = this._indptr[i];k < this._indptr[i + 1];k++) {
+                let offset = isCSR ? i * n + this._indices[k] : this._indices[k] * n + i;
+                reX[offset] = this._re[k];
+                if (this._im) {
+                    imX[offset] = this._im[k];
+                }
+            }
+        }
+        return X;
+    }
+
+    /**
+     * Converts this sparse matrix to a string. If the number of elements
+     * does not exceed the print threshold, the matrix is printed as a dense
+     * matrix. Otherwise the row indices, column indices, and values of the
+     * stored elements are printed.
+     * @param options (Optional) Overrides the global print options.
+     */
+    public toString(options?: PrintOptions): string {
+        let m = this._m, n = this._n;
+        let nnz = this.nnz;
+        let header = `${m}x${n} sparse matrix (${this._format}, nnz = ${nnz})`;
+        let threshold = TensorPrinter.mergeOptions(TensorPrinter.getOptions(), options || {}).threshold;
+        if (m * n <= <number>threshold) {
+            return header + '\n' + this.toDense().toString(options);
+        }
+        let isCSR = this._format === 'csr';
+        let major = DataHelper.allocateInt32Array(nnz);
+        for (let i = 0;i < this._indptr.length - 1;i++) {
+            for (let k = this._indptr[i];k < this._indptr[i + 1];k++) {
+                major[k] = i;
+            }
+        }
+        return header +
+            '\nrows: ' + TensorPrinter.print(isCSR ? major : this._indices, undefined, [nnz], DType.INT32, options) +
+            '\ncols: ' + TensorPrinter.print(isCSR ? this._indices : major, undefined, [nnz], DType.INT32, options) +
+            '\nvalues: ' + TensorPrinter.print(this._re, this._im, [nnz], DType.FLOAT64, options);
+    }
+
+}
@@ -1,5 +1,5 @@
 import { ShapeHelper } from '../helper/shapeHelper';
-import { DType } from './dtype';
+import { DType, DTypeHelper } from './dtype';
 import { TypedArray, DataBlock } from '../commonTypes';
 import { ObjectHelper } from '../helper/objHelper';
 import { DataHelper } from '../helper/dataHelper';
@@ -55,19 +55,7 @@ export class TensorStorage {
     public static create(size: number, dtype: DType = DType.FLOAT64): TensorStorage {
         let data: DataBlock;
         if (ObjectHelper.hasTypedArraySupport()) {
-            switch (dtype) {
-                case DType.LOGIC:
-                    data = new Uint8Array(size);
-                    break;
-                case DType.INT32:
-                    data = new Int32Array(size);
-                    break;
-                case DType.FLOAT64:
-                    data = new Float64Array(size);
-                    break;
-                default:
-                    throw new Error(`Unknown dtype "${dtype}".`);
-            }
+            data = TensorStorage._allocateTypedArray(size, dtype);
         } else {
             TensorStorage.ValidateDTypeSupport(dtype);
             data = DataHelper.allocateJsArray(size);
@@ -76,25 +64,79 @@ export class TensorStorage {
     }
 
     /**
-     * Creates a TensorStorage from a typed array.
-     * @param arr 
+     * Allocates a typed array for the specified data type. The typed array is
+     * either filled with zeros or initialized by copying the given source.
+     * Values in the source will be casted by the typed array.
+     * @param sizeOrSource Length of the typed array, or the source to copy
+     *  from.
+     * @param dtype Data type.
      */
-    public static fromTypedArray(arr: TypedArray, dtype: DType): TensorStorage {
+    private static _allocateTypedArray(sizeOrSource: number | ArrayLike<number>, dtype: DType): DataBlock {
+        // Note: TypeScript cannot resolve the overloads of typed array
+        // constructors for a union type.
+        let src: any = sizeOrSource;
         switch (dtype) {
             case DType.LOGIC:
-                let storage = TensorStorage.create(arr.length, dtype);
-                for (let i = 0;i < arr.length;i++) {
-                    storage.setAsLogicAtUnchecked(i, arr[i]);
-                }
+                return new Uint8Array(src);
+            case DType.INT8:
+                return new Int8Array(src);
+            case DType.INT16:
+                return new Int16Array(src);
             case DType.INT32:
-                return new TensorStorage(new Int32Array(arr), DType.INT32);
+                return new Int32Array(src);
+            case DType.UINT8:
+                return new Uint8Array(src);
+            case DType.UINT16:
+                return new Uint16Array(src);
+            case DType.UINT32:
+                return new Uint32Array(src);
+            case DType.FLOAT32:
+                return new Float32Array(src);
             case DType.FLOAT64:
-                return new TensorStorage(new Float64Array(arr), DType.FLOAT64);
+                return new Float64Array(src);
             default:
                 throw new Error(`Unknown dtype "${dtype}".`);
         }
     }
 
+    /**
+     * Creates a TensorStorage from a typed array.
+     * @param arr 
+     */
+    public static fromTypedArray(arr: TypedArray, dtype: DType): TensorStorage {
+        if (dtype === DType.LOGIC) {
+            let storage = TensorStorage.create(arr.length, dtype);
+            for (let i = 0;i < arr.length;i++) {
+                storage.setAsLogicAtUnchecked(i, arr[i]);
+            }
+            return storage;
+        } else {
+            return new TensorStorage(TensorStorage._allocateTypedArray(arr, dtype), dtype);
+        }
+    }
+
+    /**
+     * Creates a TensorStorage that uses the given data directly without
+     * copying. The type of the data must match the specified data type
+     * (Uint8Array for DType.LOGIC).
+     * @param data A typed array, or a JavaScript array when native typed
+     *             arrays are not available.
+     * @param dtype Data type.
+     */
+    public static wrap(data: DataBlock, dtype: DType): TensorStorage {
+        TensorStorage.ValidateDTypeSupport(dtype);
+        if (ObjectHelper.hasTypedArraySupport()) {
+            if (!ObjectHelper.isTypedArray(data)) {
+                throw new Error('Typed array expected.');
+            }
+            let expected = dtype === DType.LOGIC ? DType.UINT8 : dtype;
+            if (DTypeHelper.inferDTypeFromTypedArray(data) !== expected) {
+                throw new Error('The type of the typed array does not match the data type.');
+            }
+        }
+        return new TensorStorage(data, dtype);
+    }
+
     /**
      * Creates a TensorStorage from a multi-dimensional JavaScript array.
      * This function does NOT check if the given shape is valid.
@@ -139,19 +181,7 @@ export class TensorStorage {
     public dataCopy(): TensorStorage {
         let data: DataBlock;
         if (ObjectHelper.hasTypedArraySupport()) {
-            switch (this.dtype) {
-                case DType.LOGIC:
-                    data = new Uint8Array(this.data);
-                    break;
-                case DType.INT32:
-                    data = new Int32Array(this.data);
-                    break;
-                case DType.FLOAT64:
-                    data = new Float64Array(this.data);
-                    break;
-                default:
-                    throw new Error("This should never happen!");
-            }
+            data = TensorStorage._allocateTypedArray(this.data, this.dtype);
         } else {
             // without typed array support, the only possibility of the type of
             // data is Array<number>.
@@ -206,21 +236,13 @@ export class TensorStorage {
     public copyAsType(dtype: DType): TensorStorage {
         let data: DataBlock;
         if (ObjectHelper.hasTypedArraySupport()) {
-            switch (dtype) {
-                case DType.LOGIC:
-                    data = new Uint8Array(this.data.length);
-                    for (let i = 0;i < this.data.length;i++) {
-                        data[i] = this.getAsLogicAtUnchecked(i);
-                    }
-                    break;
-                case DType.INT32:
-                    data = new Int32Array(this.data);
-                    break;
-                case DType.FLOAT64:
-                    data = new Float64Array(this.data);
-                    break;
-                default:
-                    throw new Error("This should never happen!");
+            if (dtype === DType.LOGIC) {
+                data = new Uint8Array(this.data.length);
+                for (let i = 0;i < this.data.length;i++) {
+                    data[i] = this.getAsLogicAtUnchecked(i);
+                }
+            } else {
+                data = TensorStorage._allocateTypedArray(this.data, dtype);
             }
         } else {
             TensorStorage.ValidateDTypeSupport(dtype);
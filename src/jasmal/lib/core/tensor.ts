@@ -1,6 +1,8 @@
 import { TensorStorage } from './storage';
 import { DType, DTypeHelper } from './dtype';
 import { ComplexNumber } from './complexNumber';
+import { TensorPrinter, PrintOptions } from './printer';
+import { TensorSerializer, TensorJSON, TensorJSONOptions, TransferableTensor } from './serializer';
 import { Scalar, OpInputInfo, OpInputType, OpInput, TypedArray, DataBlock } from '../commonTypes';
 import { ShapeHelper } from '../helper/shapeHelper';
 import { DataHelper } from '../helper/dataHelper';
@@ -34,8 +36,20 @@ export class Tensor {
     private _re: TensorStorage;
     private _im: TensorStorage;
     private _shape: number[];
+    private _size: number;
     private _strides: number[];
     private _offsetCalculator: OffsetCalculator;
+    /**
+     * Offset of the first element in the underlying storage. Always zero if
+     * this tensor is not a view.
+     */
+    private _offset: number;
+    /**
+     * Strides used to locate elements in the underlying storage if this tensor
+     * is a view. Undefined if this tensor owns a compact row-major storage, in
+     * which case _strides is used.
+     */
+    private _viewStrides: number[] | undefined;
 
     /**
      * Internal constructor for Tensor objects.
@@ -43,12 +57,17 @@ export class Tensor {
      *       increased.
      *       2. The shape array should NOT come from any external source. The
      *       constructor does not make a copy of the shape array input. If it
-     *       can be modified elsewhere, MAKE A COPY before passing it in.
-     * @param re 
-     * @param im 
-     * @param shape 
+     *       can be modified elsewhere, MAKE A COPY before passing it in. The
+     *       same applies to the strides array.
+     * @param re
+     * @param im
+     * @param shape
+     * @param offset (Optional) Offset of the first element in the storage.
+     * @param viewStrides (Optional) Strides used to locate elements in the
+     *  storage. If specified, the new tensor will be a view of the storage.
      */
-    protected constructor(re: TensorStorage, im: TensorStorage, shape: number[]) {
+    protected constructor(re: TensorStorage, im: TensorStorage, shape: number[],
+                          offset: number = 0, viewStrides?: number[]) {
         this._re = re;
         this._re.refCount++;
         this._im = im;
@@ -60,6 +79,13 @@ export class Tensor {
         }
         this._shape = shape;
         this._updateStridesAndCalculator();
+        this._offset = offset;
+        this._viewStrides = viewStrides;
+        if (viewStrides != undefined && offset === 0 && re.data.length === this._size
+            && this.isContiguous()) {
+            // The view covers the whole storage in row-major order.
+            this._viewStrides = undefined;
+        }
     }
 
     public static ZERO: Tensor = Tensor.zeros([1]);
@@ -80,6 +106,10 @@ export class Tensor {
         if (!ShapeHelper.compareShape(re._shape, im._shape)) {
             throw new Error('Real part and imaginary part must share the same shape.');
         }
+        // Views need to be materialized so that both parts share the same
+        // layout.
+        if (re.isView()) re = re.copy(true);
+        if (im.isView()) im = im.copy(true);
         // Note: the shape array needs to be copied here.
         return new Tensor(re._re, im._re, re.shape);
     }
@@ -88,10 +118,11 @@ export class Tensor {
      * Creates a tensor from JavaScript arrays.
      * @param re Real part.
      * @param im (Optional) Imaginary part.
-     * @param dtype (Optional) Data type. Default value is DType.FLOAT64.
+     * @param dtype (Optional) Data type. If omitted, the data type will be
+     *  inferred from the types of the typed arrays, or set to DType.FLOAT64
+     *  when the inputs are JavaScript arrays.
      */
-    public static fromArray(re: any[] | TypedArray, im?: any[] | TypedArray, dtype: DType = DType.FLOAT64): Tensor {
-        TensorStorage.ValidateDTypeSupport(dtype);
+    public static fromArray(re: any[] | TypedArray, im?: any[] | TypedArray, dtype?: DType): Tensor {
         if (re == undefined) throw new Error('Real part must be specified.');
         let isReTypedArray = ObjectHelper.isTypedArray(re);
         if (!Array.isArray(re) && !isReTypedArray) {
@@ -102,6 +133,10 @@ export class Tensor {
             throw new Error('Array expected.');
         }
         let isComplex = im && im.length > 0;
+        if (dtype == undefined) {
+            dtype = Tensor._inferDTypeFromArrays(re, isComplex ? im : undefined);
+        }
+        TensorStorage.ValidateDTypeSupport(dtype);
         if (isComplex && dtype === DType.LOGIC) {
             throw new Error('Cannot convert a complex array to a logic tensor.');
         }
@@ -124,6 +159,24 @@ export class Tensor {
         return new Tensor(reStorage, imStorage, shape);
     }
 
+    /**
+     * Infers the data type from the types of typed arrays. JavaScript arrays
+     * are treated as FLOAT64 arrays.
+     * @param re Real part.
+     * @param im (Optional) Imaginary part.
+     */
+    private static _inferDTypeFromArrays(re: any[] | TypedArray, im?: any[] | TypedArray): DType {
+        let dtype = ObjectHelper.isTypedArray(re)
+            ? DTypeHelper.inferDTypeFromTypedArray(re)
+            : DType.FLOAT64;
+        if (im != undefined) {
+            dtype = DTypeHelper.getWiderType(dtype, ObjectHelper.isTypedArray(im)
+                ? DTypeHelper.inferDTypeFromTypedArray(im)
+                : DType.FLOAT64);
+        }
+        return dtype;
+    }
+
     /**
      * Creates a new tensor filled with zeros.
      * @param shape Shape of the tensor.
@@ -307,20 +360,22 @@ export class Tensor {
         let originalType = OpInputType.Unknown;
         let originalDType = DType.FLOAT64;
         if (value instanceof Tensor) {
-            reArr = value._re.data;
+            // Note: realData/imagData are used here so that views are
+            // flattened properly.
+            reArr = value.realData;
             hasOnlyOneElement = value.size === 1;
             if (hasOnlyOneElement) {
-                re = value._re.data[0];
+                re = reArr[0];
                 if (value.hasComplexStorage()) {
-                    im = value._im.data[0];
+                    im = value.imagData[0];
                 }
                 isComplex = im !== 0;
                 if (isComplex) {
-                    imArr = value._im.data;
+                    imArr = value.imagData;
                 }
             } else {
                 if (value.hasNonZeroComplexStorage()) {
-                    imArr = value._im.data;
+                    imArr = value.imagData;
                     isComplex = true;
                 }
             }
@@ -395,15 +450,37 @@ export class Tensor {
     }
 
     /**
-     * Returns the strides of this tensor.
+     * Returns the strides of this tensor. These strides describe the row-major
+     * layout of the data returned by realData and imagData, even if this
+     * tensor is a view. Use storageStrides to locate elements in the
+     * underlying storage.
      * Note: this always returns a copy of the actual strides array.
      */
     public get strides(): number[] {
         return this._strides.slice();
     }
 
+    /**
+     * Returns the offset of the first element of this tensor in the
+     * underlying storage. This is always zero if this tensor is not a view.
+     */
+    public get storageOffset(): number {
+        return this._offset;
+    }
+
+    /**
+     * Returns the strides used to locate the elements of this tensor in the
+     * underlying storage. The (i1, ..., iD)-th element is stored at
+     * storageOffset + i1 * storageStrides[0] + ... + iD * storageStrides[D-1].
+     * Note: this always returns a copy of the actual strides array.
+     */
+    public get storageStrides(): number[] {
+        return (this._viewStrides || this._strides).slice();
+    }
+
     private _updateStridesAndCalculator(): void {
         this._strides = ShapeHelper.computeStrides(this._shape);
+        this._size = ShapeHelper.getSizeFromShape(this._shape);
         this._offsetCalculator = OffsetCalculatorFactory.create(this._shape.length);
     }
 
@@ -418,16 +495,20 @@ export class Tensor {
      * Returns the number of elements in this tensor.
      */
     public get size(): number {
-        return this._re.data.length;
+        return this._size;
     }
 
     /**
      * Retrieves the underlying data of the real part.
+     * If this tensor is a view, the returned data only contains the elements
+     * of this view. Contiguous views backed by typed arrays return a subarray
+     * sharing memory with the underlying storage. Other views are materialized
+     * first.
      * WARNING: before writing anything directly into the underlying storage,
      *          remember to call ensureUnsharedLocalStorage().
      */
     public get realData(): DataBlock {
-        return this._re.data;
+        return this._getFlatData(this._re);
     }
 
     /**
@@ -435,28 +516,174 @@ export class Tensor {
      * If this tensor has no imaginary part, an error will be thrown.
      * You should always use hasComplexStorage() to check if the imaginary part
      * is available before accessing it.
+     * Views are handled in the same way as realData.
      * WARNING: before writing anything directly into the underlying storage,
      *          remember to call ensureUnsharedLocalStorage().
      */
     public get imagData(): DataBlock {
+        if (!this.hasComplexStorage()) {
+            throw new Error('Attempting to access the imaginary part for a real matrix.')
+        }
+        return this._getFlatData(this._im);
+    }
+
+    /**
+     * Retrieves the entire underlying storage of the real part without
+     * materializing views. Use storageOffset and storageStrides to locate the
+     * elements of this tensor.
+     * WARNING: never write into the returned data. The storage may be shared
+     *          by other tensors.
+     */
+    public get realStorageData(): DataBlock {
+        return this._re.data;
+    }
+
+    /**
+     * Retrieves the entire underlying storage of the imaginary part without
+     * materializing views. Use storageOffset and storageStrides to locate the
+     * elements of this tensor.
+     * WARNING: never write into the returned data. The storage may be shared
+     *          by other tensors.
+     */
+    public get imagStorageData(): DataBlock {
         if (!this.hasComplexStorage()) {
             throw new Error('Attempting to access the imaginary part for a real matrix.')
         }
         return this._im.data;
     }
 
+    private _getFlatData(storage: TensorStorage): DataBlock {
+        if (this._viewStrides != undefined) {
+            if (this.isContiguous() && ObjectHelper.isTypedArray(storage.data)) {
+                // All typed arrays share the same subarray() semantics.
+                return (<Float64Array>storage.data).subarray(this._offset, this._offset + this._size);
+            }
+            // _materialize() replaces the storage.
+            let isRealPart = storage === this._re;
+            this._materialize();
+            return isRealPart ? this._re.data : this._im.data;
+        }
+        return storage.data;
+    }
+
+    /**
+     * Returns whether this tensor is a view, i.e., whether its elements are
+     * located in the underlying storage using an offset and strides other than
+     * the compact row-major ones. Slicing, transposing, and permuting axes
+     * create views without copying the data. Views share the storage with the
+     * original tensor until either of them is modified.
+     */
+    public isView(): boolean {
+        return this._viewStrides != undefined;
+    }
+
+    /**
+     * Returns whether the elements of this tensor are stored consecutively in
+     * row-major order in the underlying storage. Tensors that are not views
+     * are always contiguous.
+     */
+    public isContiguous(): boolean {
+        if (this._viewStrides == undefined) {
+            return true;
+        }
+        let expected = 1;
+        for (let i = this._shape.length - 1;i >= 0;i--) {
+            // strides of singleton dimensions do not matter
+            if (this._shape[i] === 1) {
+                continue;
+            }
+            if (this._viewStrides[i] !== expected) {
+                return false;
+            }
+            expected *= this._shape[i];
+        }
+        return true;
+    }
+
+    /**
+     * Copies the elements of this view into new compact storages so that this
+     * tensor no longer shares storage with other tensors. Does nothing if this
+     * tensor is not a view.
+     */
+    private _materialize(): void {
+        if (this._viewStrides == undefined) {
+            return;
+        }
+        let re = TensorStorage.create(this._size, this._re.dtype);
+        this._gather(this._re.data, re.data);
+        this._re.refCount--;
+        this._re = re;
+        this._re.refCount++;
+        if (this.hasComplexStorage()) {
+            let im = TensorStorage.create(this._size, this._im.dtype);
+            this._gather(this._im.data, im.data);
+            this._im.refCount--;
+            this._im = im;
+            this._im.refCount++;
+        }
+        this._offset = 0;
+        this._viewStrides = undefined;
+    }
+
+    /**
+     * Copies the elements of this view from the source storage into the
+     * target in row-major order.
+     */
+    private _gather(source: ArrayLike<number>, target: DataBlock): void {
+        if (this.isContiguous()) {
+            DataHelper.copy(source, target, this._offset, 0, this._size);
+            return;
+        }
+        let viewStrides = <number[]>this._viewStrides;
+        let maxLevel = this._shape.length - 1;
+        let doGather = (level: number, offsetSource: number, offsetTarget: number): void => {
+            let n = this._shape[level];
+            let stride = viewStrides[level];
+            if (level === maxLevel) {
+                for (let i = 0;i < n;i++) {
+                    target[offsetTarget + i] = source[offsetSource];
+                    offsetSource += stride;
+                }
+            } else {
+                for (let i = 0;i < n;i++) {
+                    doGather(level + 1, offsetSource, offsetTarget);
+                    offsetSource += stride;
+                    offsetTarget += this._strides[level];
+                }
+            }
+        };
+        doGather(0, this._offset, 0);
+    }
+
+    /**
+     * Converts a flat (row-major) index into the index of the underlying
+     * storage.
+     */
+    private _flatToStorageIndex(index: number): number {
+        if (this._viewStrides == undefined) {
+            return index;
+        }
+        let offset = this._offset;
+        for (let i = 0;i < this._shape.length;i++) {
+            let k = Math.floor(index / this._strides[i]);
+            index -= k * this._strides[i];
+            offset += k * this._viewStrides[i];
+        }
+        return offset;
+    }
+
     /**
      * Returns whether this tensor is a scalar.
      */
     public isScalar(): boolean {
-        return this._re.data.length === 1;
+        return this._size === 1;
     }
 
     /**
      * Returns whether this tensor is empty.
      */
     public isEmpty(): boolean {
-        return this._re.data.length === 0;
+        return this._size === 0;
     }
 
     /**
@@ -472,7 +699,7 @@ export class Tensor {
      * Returns where this tensor has non-zero complex storage.
      */
     public hasNonZeroComplexStorage(): boolean {
-        return this._im !== TensorStorage.Empty && !DataHelper.isArrayAllZeros(this._im.data);
+        return this._im !== TensorStorage.Empty && !DataHelper.isArrayAllZeros(this.imagData);
     }
 
     /**
@@ -561,8 +788,12 @@ export class Tensor {
             return;
         }
         let maxLevel = iters.length - 1;
+        // process values
+        let v = Tensor.analyzeOpInput(value);
+        // Views are materialized here so we can use the row-major strides.
+        this.ensureUnsharedLocalStorage();
         if (iters.length === 1) {
-            strides = [this.size];
+            strides = [1];
         } else {
             strides = this._strides;
             // Determine trailingOffset
@@ -577,15 +808,12 @@ export class Tensor {
             maxLevel = i;
             trailingOffset = 0;
             for (let k = i + 1;k < shapeSub.length;k++) {
-                trailingOffset += strides[k] *= iters[k].peekNext();
-                finalStride *= strides[k - 1];
+                trailingOffset += strides[k] * iters[k].peekNext();
             }
+            finalStride = strides[maxLevel];
         }
-        // process values
-        let v = Tensor.analyzeOpInput(value);
         // update the sub tensor: four cases
         // It is kind of messy down there.
-        this.ensureUnsharedLocalStorage();
         if (v.hasOnlyOneElement) {
             let newRe = v.re, newIm = v.im;
             if (v.isComplex) {
@@ -800,6 +1028,9 @@ export class Tensor {
         let stridesX: number[];
         // determine the shape of the sub tensor
         let [shapeSub, sizeSub] = Tensor._inferShapeFromIters(iters);
+        if (sizeSub > 0 && Tensor._canCreateView(iters) && (iters.length > 1 || this.isContiguous())) {
+            return this._getSubTensorView(iters, keepDims);
+        }
         let result: Tensor;
         if (sizeSub === 0) {
             // special treatment for empty output
@@ -807,16 +1038,19 @@ export class Tensor {
         } else {
             let maxLevel = iters.length - 1;
             if (iters.length === 1) {
-                stridesX = [this.size];
+                // flat indexing requires a contiguous layout
+                if (!this.isContiguous()) {
+                    this._materialize();
+                }
+                stridesX = [1];
             } else {
-                stridesX = this._strides;
+                stridesX = this._viewStrides || this._strides;
             }
             result = Tensor.zeros(shapeSub, this.dtype);
             let newRe = result._re.data;
             // determine trailingOffset
             let i = shapeSub.length - 1;
             let trailingOffset = 0;
-            let finalStride = 1;
             let stridesSub = ShapeHelper.computeStrides(shapeSub);
             while (shapeSub[i] === 1 && i > 0) {
                 i--;
@@ -826,18 +1060,18 @@ export class Tensor {
             for (let k = i + 1;k < shapeSub.length;k++) {
                 // Since the size of the sub tensor is not zero, peekNext()
                 // will never throw here.
-                trailingOffset += iters[k].peekNext();
-                finalStride *= stridesX[k - 1];
+                trailingOffset += iters[k].peekNext() * stridesX[k];
             }
+            let finalStride = stridesX[maxLevel];
             // retrieve the sub tensor
             if (this.hasComplexStorage()) {
                 result.ensureComplexStorage();
                 let newIm = result._im.data;
                 this._getSubTensorC(iters, newRe, newIm, maxLevel, stridesX,
-                    stridesSub, finalStride, trailingOffset, 0, 0, 0);
+                    stridesSub, finalStride, trailingOffset, 0, this._offset, 0);
             } else {
                 this._getSubTensorR(iters, newRe, maxLevel, stridesX,
-                    stridesSub, finalStride, trailingOffset, 0, 0, 0);
+                    stridesSub, finalStride, trailingOffset, 0, this._offset, 0);
             }
         }
         if (keepDims) {
@@ -865,6 +1099,56 @@ export class Tensor {
         }
     }
 
+    /**
+     * Checks if the sub tensor specified by the given index iterators can be
+     * represented by a view.
+     */
+    private static _canCreateView(iters: IIndexIterator[]): boolean {
+        for (let i = 0;i < iters.length;i++) {
+            // Note: ReversedRangedIndexIterator is a RangedIndexIterator.
+            if (!(iters[i] instanceof ConstantIndexIterator) && !(iters[i] instanceof RangedIndexIterator)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Creates a view of the sub tensor specified by the given index iterators
+     * without copying any data. All iterators must be either
+     * ConstantIndexIterator or RangedIndexIterator, and the sub tensor must not
+     * be empty.
+     */
+    private _getSubTensorView(iters: IIndexIterator[], keepDims: boolean): Tensor | Scalar {
+        let stridesX = iters.length === 1 ? [1] : (this._viewStrides || this._strides);
+        let offset = this._offset;
+        let shape: number[] = [];
+        let strides: number[] = [];
+        for (let i = 0;i < iters.length;i++) {
+            let iter = iters[i];
+            if (iter instanceof RangedIndexIterator) {
+                offset += iter.start * stridesX[i];
+                shape.push(iter.count);
+                strides.push(iter.increment * stridesX[i]);
+            } else {
+                offset += iter.peekNext() * stridesX[i];
+                // singleton dimensions are removed unless keepDims is true
+                if (keepDims) {
+                    shape.push(1);
+                    strides.push(stridesX[i]);
+                }
+            }
+        }
+        if (shape.length === 0) {
+            // returns a scalar
+            if (this.hasComplexStorage() && this._im.data[offset] !== 0) {
+                return new ComplexNumber(this._re.data[offset], this._im.data[offset]);
+            }
+            return this._re.data[offset];
+        }
+        return new Tensor(this._re, this._im, shape, offset, strides);
+    }
+
     private _getSubTensorR(iters: IIndexIterator[],
                            newRe: DataBlock, maxLevel: number,
                            stridesX: number[], stridesSub: number[],
@@ -1296,6 +1580,7 @@ export class Tensor {
             throw new Error('Incorrect number of arguments.');
         }
         this._checkIndex(offset);
+        offset = this._flatToStorageIndex(offset);
         return this.hasComplexStorage()
             ? new ComplexNumber(this._re.data[offset], this._im.data[offset])
             : this._re.data[offset];
@@ -1303,8 +1588,13 @@ export class Tensor {
 
     /**
      * Ensures the underlying storage is a local copy.
+     * Views are always materialized into compact storages.
      */
     public ensureUnsharedLocalStorage(): Tensor {
+        if (this._viewStrides != undefined) {
+            this._materialize();
+            return this;
+        }
         if (this._re.refCount > 1) {
             this._re.refCount--;
             this._re = this._re.dataCopy();
@@ -1326,6 +1616,8 @@ export class Tensor {
     public ensureComplexStorage(): Tensor {
         if (!this.hasComplexStorage()) {
             if (this.dtype !== DType.LOGIC) {
+                // The imaginary part must share the layout of the real part.
+                this._materialize();
                 this._im = TensorStorage.create(this._re.data.length, this._re.dtype);
                 this._im.refCount++;
             } else {
@@ -1341,7 +1633,7 @@ export class Tensor {
     public real(): Tensor {
         // Copy the shape array so that the modification of this tensor's shape
         // will not affected the new tensor's shape.
-        return new Tensor(this._re, TensorStorage.Empty, this.shape);
+        return new Tensor(this._re, TensorStorage.Empty, this.shape, this._offset, this._copyViewStrides());
     }
 
     /**
@@ -1351,7 +1643,7 @@ export class Tensor {
         if (this.hasComplexStorage()) {
             // Copy the shape array so that the modification of this tensor's shape
             // will not affected the new tensor's shape.
-            return new Tensor(this._im, TensorStorage.Empty, this.shape);
+            return new Tensor(this._im, TensorStorage.Empty, this.shape, this._offset, this._copyViewStrides());
         } else {
             return Tensor.zeros(this._shape, this.dtype);
         }
@@ -1379,13 +1671,15 @@ export class Tensor {
     public map<T>(f: (re: number, im: number) => T): T[] {
         let n = this.size;
         let result = new Array<T>(n);
+        let re = this.realData;
         if (this.hasComplexStorage()) {
+            let im = this.imagData;
             for (let i = 0;i < n;i++) {
-                result[i] = f(this._re.data[i], this._im.data[i]);
+                result[i] = f(re[i], im[i]);
             }
         } else {
             for (let i = 0;i < n;i++) {
-                result[i] = f(this._re.data[i], 0);
+                result[i] = f(re[i], 0);
             }
         }
         return result;
@@ -1399,13 +1693,15 @@ export class Tensor {
      */
     public reduce<T>(f: (re: number, im: number, result: T) => T, initialValue: T): T {
         let result = initialValue;
+        let re = this.realData;
         if (this.hasComplexStorage()) {
+            let im = this.imagData;
             for (let i = 0, n = this.size;i < n;i++) {
-                result = f(this._re.data[i], this._im.data[i], result);
+                result = f(re[i], im[i], result);
             }
         } else {
             for (let i = 0, n = this.size;i < n;i++) {
-                result = f(this._re.data[i], 0, result);
+                result = f(re[i], 0, result);
             }
         }
         return result;
@@ -1416,6 +1712,9 @@ export class Tensor {
      * This method modifies the shape in-place.
      */
     public prependAxis(): Tensor {
+        if (this._viewStrides != undefined) {
+            this._viewStrides.unshift(this._size);
+        }
         this._shape.unshift(1);
         this._updateStridesAndCalculator();
         return this;
@@ -1426,6 +1725,9 @@ export class Tensor {
      * This method modifies the shape in-place.
      */
     public appendAxis(): Tensor {
+        if (this._viewStrides != undefined) {
+            this._viewStrides.push(1);
+        }
         this._shape.push(1);
         this._updateStridesAndCalculator();
         return this;
@@ -1436,8 +1738,15 @@ export class Tensor {
      * @param newShape New shape.
      */
     public reshape(newShape: number[]): Tensor {
-        this._shape = this._calculateNewShape(newShape);
+        newShape = this._calculateNewShape(newShape);
+        if (!this.isContiguous()) {
+            this._materialize();
+        }
+        this._shape = newShape;
         this._updateStridesAndCalculator();
+        if (this._viewStrides != undefined) {
+            this._viewStrides = this._strides.slice();
+        }
         return this;
     }
 
@@ -1447,7 +1756,36 @@ export class Tensor {
      */
     public getReshapedCopy(newShape: number[]): Tensor {
         newShape = this._calculateNewShape(newShape);
-        return new Tensor(this._re, this._im, newShape);
+        if (!this.isContiguous()) {
+            this._materialize();
+        }
+        return new Tensor(this._re, this._im, newShape, this._offset,
+            this._viewStrides && ShapeHelper.computeStrides(newShape));
+    }
+
+    /**
+     * Retrieves a view of this tensor with its axes permuted. No data is
+     * copied. The i-th dimension of the returned view corresponds to the
+     * order[i]-th dimension of this tensor.
+     * @param order New order of the axes. Must be a permutation of
+     *              [0, 1, ..., ndim - 1].
+     */
+    public getPermutedView(order: number[]): Tensor {
+        if (order.length !== this._shape.length) {
+            throw new Error('New ordering must have the same length of the original shape.');
+        }
+        let stridesX = this._viewStrides || this._strides;
+        let shape = new Array<number>(order.length);
+        let strides = new Array<number>(order.length);
+        for (let i = 0;i < order.length;i++) {
+            shape[i] = this._shape[order[i]];
+            strides[i] = stridesX[order[i]];
+        }
+        return new Tensor(this._re, this._im, shape, this._offset, strides);
+    }
+
+    private _copyViewStrides(): number[] | undefined {
+        return this._viewStrides && this._viewStrides.slice();
     }
 
     /**
@@ -1499,12 +1837,17 @@ export class Tensor {
         // We copy the shape array so that the modification of this tensor's
         // shape will not affected the new tensor's shape.
         if (copyStorageImmediately) {
-            
+            if (this._viewStrides != undefined) {
+                // only copy the elements of this view
+                let T = new Tensor(this._re, this._im, this.shape, this._offset, this._viewStrides);
+                T._materialize();
+                return T;
+            }
             return new Tensor(this._re.dataCopy(), 
                 this._im !== TensorStorage.Empty ? this._im.dataCopy() : TensorStorage.Empty,
                 this.shape);
         } else {
-            return new Tensor(this._re, this._im, this.shape);
+            return new Tensor(this._re, this._im, this.shape, this._offset, this._copyViewStrides());
         }
     }
 
@@ -1521,15 +1864,18 @@ export class Tensor {
         if (dtype === this._re.dtype) {
             // Just make a quick copy here.
             return this.copy(alwaysCopy);
-        } else if (dtype === DType.LOGIC) {
-            if (this.hasComplexStorage()) {
+        }
+        // Views need to be materialized before conversion.
+        let src: Tensor = this._viewStrides == undefined ? this : this.copy(true);
+        if (dtype === DType.LOGIC) {
+            if (src.hasComplexStorage()) {
                 throw new Error('Cannot convert a complex tensor to a logic tensor.');
             }
             // Remember to copy the shape.
-            return new Tensor(this._re.copyAsType(DType.LOGIC), TensorStorage.Empty, this.shape);
+            return new Tensor(src._re.copyAsType(DType.LOGIC), TensorStorage.Empty, this.shape);
         } else {
-            let re = this._re.copyAsType(dtype),
-                im = this._im === TensorStorage.Empty ? TensorStorage.Empty : this._im.copyAsType(dtype);
+            let re = src._re.copyAsType(dtype),
+                im = src._im === TensorStorage.Empty ? TensorStorage.Empty : src._im.copyAsType(dtype);
             // Remember to copy the shape.                
             return new Tensor(re, im, this.shape);
         }
@@ -1550,12 +1896,12 @@ export class Tensor {
      */
     public toArray(realOnly: false): [any[], any[]];
     public toArray(realOnly: boolean = false): any[] | [any[], any[]] {
-        let reArr = Tensor._toArray(this._re.data, this._shape, this._strides, 0, 0);
+        let reArr = Tensor._toArray(this.realData, this._shape, this._strides, 0, 0);
         if (realOnly) {
             return reArr;
         } else {
             let imArr = this.hasComplexStorage()
-                ? Tensor._toArray(this._im.data, this._shape, this._strides, 0, 0)
+                ? Tensor._toArray(this.imagData, this._shape, this._strides, 0, 0)
                 : [];
             return [reArr, imArr];
         }
@@ -1577,85 +1923,104 @@ export class Tensor {
         return arr;
     }
 
-    // TODO: simplify, too messy right now
-    public toString(): string {
-        const MAX_C = 3;
-        const MAX_R = 4;
-        let str: string;
-        switch (this.ndim) {
-            case 1:
-                str = `[${this._elementsToString(0, this.size, 1, MAX_C)}]`;
-                break;
-            case 2:
-                str = '[';
-                if (this._shape[0] <= MAX_R + MAX_R) {
-                    for (let i = 0;i < this._shape[0];i++) {
-                        str += `[${this._elementsToString(i * this._shape[1], this._shape[1], 1, MAX_C)}]`;
-                        if (i !== this._shape[0] - 1) {
-                            str += ',\n ';
-                        }
-                    }
-                } else {
-                    for (let i = 0;i < MAX_R;i++) {
-                        str += `[${this._elementsToString(i * this._shape[1], this._shape[1], 1, MAX_C)}],\n `;
-                    }
-                    str += '...\n ';
-                    for (let i = this._shape[0] - MAX_R;i < this._shape[0];i++) {
-                        str += `[${this._elementsToString(i * this._shape[1], this._shape[1], 1, MAX_C)}]`;
-                        if (i !== this._shape[0] - 1) {
-                            str += ',\n ';
-                        }
-                    }
-                }
-                str += ']';
-                break;
-            default:
-                let strComplex = this.hasComplexStorage() ? 'complex ' : '';
-                str = `[${this._shape.join('x')} ${DTypeHelper.dTypeToString(this.dtype)} ${strComplex} tensor]`;
+    /**
+     * Converts this tensor to a self-describing JSON object that includes the
+     * shape, the data type, and both the real and imaginary parts. This
+     * method is also called by `JSON.stringify()`.
+     * @param options (Optional) Serialization options. By default, the
+     *                elements are stored as little-endian binary data encoded
+     *                in base64.
+     */
+    public toJSON(options?: TensorJSONOptions): TensorJSON {
+        // JSON.stringify() passes the property name as the first argument.
+        if (options == undefined || typeof options !== 'object') {
+            options = {};
         }
-        return str;
+        return TensorSerializer.toJSON(this.realData, this.hasComplexStorage() ? this.imagData : undefined,
+                                       this._shape, this.dtype, options);
     }
 
-    private _elementsToString(offset: number, count: number, stride: number = 1, max: number = 2): string {
-        let parts: string[] = [];
-        if (count <= max + max) {
-            for (let i = 0;i < count;i++) {
-                parts.push(this._elementToString(offset + i * stride));
-            }
-        } else {
-            for (let i = 0;i < max;i++) {
-                parts.push(this._elementToString(offset + i * stride));
-            }
-            parts.push('...');
-            for (let i = count - max;i < count;i++) {
-                parts.push(this._elementToString(offset + i * stride));
-            }
+    /**
+     * Restores a tensor from its JSON representation created by `toJSON()`.
+     * @param json A JSON object or a JSON string.
+     */
+    public static fromJSON(json: TensorJSON | string): Tensor {
+        let obj: TensorJSON = typeof json === 'string' ? JSON.parse(json) : json;
+        let [shape, dtype, re, im] = TensorSerializer.fromJSON(obj);
+        return new Tensor(TensorStorage.wrap(re, dtype),
+                          im == undefined ? TensorStorage.Empty : TensorStorage.wrap(im, dtype),
+                          shape);
+    }
+
+    /**
+     * Prepares this tensor for `postMessage()` without copying the
+     * underlying data. Usage:
+     *  let [msg, transferList] = x.toTransferable();
+     *  worker.postMessage(msg, transferList);
+     * The ArrayBuffers in the transfer list are detached after the message is
+     * posted so this tensor must not be used afterwards. Views and storages
+     * shared with other tensors are copied first so that other tensors are
+     * not affected.
+     * @returns A 2-item tuple where the first item is a structured-clone-
+     *          friendly object and the second item is the list of
+     *          ArrayBuffers to transfer.
+     */
+    public toTransferable(): [TransferableTensor, ArrayBuffer[]] {
+        this.ensureUnsharedLocalStorage();
+        let t: TransferableTensor = {
+            shape: this.shape,
+            dtype: DTypeHelper.dTypeToString(this.dtype),
+            re: this._re.data
+        };
+        if (this.hasComplexStorage()) {
+            t.im = this._im.data;
         }
-        return parts.join(', ');
+        let buffers = TensorSerializer.collectBuffers(t);
+        return [t, buffers];
     }
 
-    private _elementToString(offset: number): string {
-        let re = this._re.data[offset];
-        if (this.dtype === DType.LOGIC) {
-            return re !== 0 ? ' true': 'false';
-        } else {
-            let str = re >= 0 ? ' ' : '';
-            if (this.hasComplexStorage()) {
-                let im = this._im.data[offset];
-                if (this.dtype === DType.INT32) {
-                    str += `${re.toString()} ${im >= 0 ? '+': '-'}${Math.abs(im).toString()}j`;
-                } else {
-                    str += `${re.toExponential(4)} ${im >= 0 ? '+': '-'} ${Math.abs(im).toExponential(4)}j`;
-                }
-            } else {
-                if (this.dtype === DType.INT32) {
-                    str += re.toString();
-                } else {
-                    str += re.toExponential(4);
-                }
-            }
-            return str;
+    /**
+     * Restores a tensor from the object created by `toTransferable()` (e.g.,
+     * after it is received by a web worker). The data are used directly
+     * without copying.
+     */
+    public static fromTransferable(t: TransferableTensor): Tensor {
+        let shape = t.shape.slice();
+        ShapeHelper.validateShape(shape);
+        let dtype = DTypeHelper.stringToDType(t.dtype);
+        let size = ShapeHelper.getSizeFromShape(shape);
+        if (t.re.length !== size || (t.im != undefined && t.im.length !== size)) {
+            throw new Error('The number of elements does not match the shape.');
         }
+        return new Tensor(TensorStorage.wrap(t.re, dtype),
+                          t.im == undefined ? TensorStorage.Empty : TensorStorage.wrap(t.im, dtype),
+                          shape);
+    }
+
+    /**
+     * Converts this tensor to a string. N-d tensors are printed slice by slice
+     * with aligned columns. Large tensors are summarized.
+     * @param options (Optional) Overrides the global print options set by
+     *                `JasmalEngine.setPrintOptions()`.
+     */
+    public toString(options?: PrintOptions): string {
+        return TensorPrinter.print(this.realData, this.hasComplexStorage() ? this.imagData : undefined,
+                                   this._shape, this.dtype, options);
+    }
+
+    /**
+     * Sets the global print options used by `toString()`. Options not
+     * specified remain unchanged.
+     */
+    public static setPrintOptions(options: PrintOptions): void {
+        TensorPrinter.setOptions(options);
+    }
+
+    /**
+     * Retrieves a copy of the global print options.
+     */
+    public static getPrintOptions(): PrintOptions {
+        return TensorPrinter.getOptions();
     }
 
 }
@@ -0,0 +1,133 @@
+import { DataBlock } from '../commonTypes';
+
+/**
+ * Binary representations of numbers.
+ */
+export type BinaryType = 'int8' | 'uint8' | 'int16' | 'uint16' | 'int32' | 'uint32'
+    | 'int64' | 'uint64' | 'float32' | 'float64';
+
+export class BinaryHelper {
+
+    public static getDataView(bytes: Uint8Array): DataView {
+        return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+
+    public static getBinaryTypeSize(type: BinaryType): number {
+        switch (type) {
+            case 'int8':
+            case 'uint8':
+                return 1;
+            case 'int16':
+            case 'uint16':
+                return 2;
+            case 'int32':
+            case 'uint32':
+            case 'float32':
+                return 4;
+            default:
+                return 8;
+        }
+    }
+
+    /**
+     * Reads numbers from binary data. 64-bit integers are converted to
+     * doubles and may lose precision.
+     * @param view Binary data.
+     * @param offset Byte offset of the first number.
+     * @param count Number of numbers to read.
+     * @param type Binary type of the numbers.
+     * @param littleEndian Byte order.
+     * @param out Output array.
+     * @param stride (Optional) Distance between two consecutive numbers,
+     *               measured in the number of elements. Default value is 1.
+     */
+    public static readNumbers(view: DataView, offset: number, count: number, type: BinaryType,
+                              littleEndian: boolean, out: DataBlock, stride: number = 1): void {
+        let size = BinaryHelper.getBinaryTypeSize(type);
+        let step = size * stride;
+        if (count > 0 && offset + (count - 1) * step + size > view.byteLength) {
+            throw new Error('Unexpected end of data.');
+        }
+        let i: number;
+        switch (type) {
+            case 'int8':
+                for (i = 0;i < count;i++) out[i] = view.getInt8(offset + i * step);
+                break;
+            case 'uint8':
+                for (i = 0;i < count;i++) out[i] = view.getUint8(offset + i * step);
+                break;
+            case 'int16':
+                for (i = 0;i < count;i++) out[i] = view.getInt16(offset + i * step, littleEndian);
+                break;
+            case 'uint16':
+                for (i = 0;i < count;i++) out[i] = view.getUint16(offset + i * step, littleEndian);
+                break;
+            case 'int32':
+                for (i = 0;i < count;i++) out[i] = view.getInt32(offset + i * step, littleEndian);
+                break;
+            case 'uint32':
+                for (i = 0;i < count;i++) out[i] = view.getUint32(offset + i * step, littleEndian);
+                break;
+            case 'float32':
+                for (i = 0;i < count;i++) out[i] = view.getFloat32(offset + i * step, littleEndian);
+                break;
+            case 'float64':
+                for (i = 0;i < count;i++) out[i] = view.getFloat64(offset + i * step, littleEndian);
+                break;
+            case 'int64':
+            case 'uint64':
+                let lo: number, hi: number, p: number;
+                let signed = type === 'int64';
+                for (i = 0;i < count;i++) {
+                    p = offset + i * step;
+                    lo = view.getUint32(littleEndian ? p : p + 4, littleEndian);
+                    hi = signed
+                        ? view.getInt32(littleEndian ? p + 4 : p, littleEndian)
+                        : view.getUint32(littleEndian ? p + 4 : p, littleEndian);
+                    out[i] = hi * 4294967296 + lo;
+                }
+                break;
+            default:
+                throw new Error(`Unsupported binary type "${type}".`);
+        }
+    }
+
+    /**
+     * Writes numbers as binary data. See readNumbers() for the definitions of
+     * the arguments. 64-bit integers are not supported.
+     */
+    public static writeNumbers(view: DataView, offset: number, x: ArrayLike<number>, type: BinaryType,
+                               littleEndian: boolean, stride: number = 1): void {
+        let step = BinaryHelper.getBinaryTypeSize(type) * stride;
+        let i: number, n = x.length;
+        switch (type) {
+            case 'int8':
+                for (i = 0;i < n;i++) view.setInt8(offset + i * step, x[i]);
+                break;
+            case 'uint8':
+                for (i = 0;i < n;i++) view.setUint8(offset + i * step, x[i]);
+                break;
+            case 'int16':
+                for (i = 0;i < n;i++) view.setInt16(offset + i * step, x[i], littleEndian);
+                break;
+            case 'uint16':
+                for (i = 0;i < n;i++) view.setUint16(offset + i * step, x[i], littleEndian);
+                break;
+            case 'int32':
+                for (i = 0;i < n;i++) view.setInt32(offset + i * step, x[i], littleEndian);
+                break;
+            case 'uint32':
+                for (i = 0;i < n;i++) view.setUint32(offset + i * step, x[i], littleEndian);
+                break;
+            case 'float32':
+                for (i = 0;i < n;i++) view.setFloat32(offset + i * step, x[i], littleEndian);
+                break;
+            case 'float64':
+                for (i = 0;i < n;i++) view.setFloat64(offset + i * step, x[i], littleEndian);
+                break;
+            default:
+                throw new Error(`Unsupported binary type "${type}".`);
+        }
+    }
+
+}
@@ -1,3 +1,12 @@
+import { CMath } from '../math/cmath';
+
+/**
+ * Compares two complex numbers a = reA + j imA and b = reB + j imB. Returns a
+ * positive number when a > b, zero when a = b, and a negative number when
+ * a < b.
+ */
+export type ComplexComparator = (reA: number, imA: number, reB: number, imB: number) => number;
+
 /**
  * A collection of custom comparators.
  */
@@ -64,4 +73,59 @@ export class ComparisonHelper {
         }
     }
 
+    /**
+     * Compares two complex numbers by their magnitudes first. If the
+     * magnitudes are equal, compares their phase angles in (-pi, pi]. This is
+     * the ordering used by MATLAB for complex numbers. Real numbers can be
+     * compared by setting the imaginary parts to zero, in which case a
+     * negative number is larger than a positive number of the same magnitude.
+     * Complex numbers with NaN real or imaginary parts are treated as the
+     * largest.
+     * @param reA 
+     * @param imA 
+     * @param reB 
+     * @param imB 
+     */
+    public static compareComplexByAbsAsc(reA: number, imA: number, reB: number, imB: number): number {
+        let nanA = isNaN(reA) || isNaN(imA);
+        let nanB = isNaN(reB) || isNaN(imB);
+        if (nanA || nanB) {
+            return nanA ? (nanB ? 0 : 1) : -1;
+        }
+        let result = ComparisonHelper.compareNumberAsc(CMath.length2(reA, imA), CMath.length2(reB, imB));
+        if (result !== 0) {
+            return result;
+        }
+        return ComparisonHelper.compareNumberAsc(ComparisonHelper._angle(reA, imA),
+            ComparisonHelper._angle(reB, imB));
+    }
+
+    /**
+     * Compares two complex numbers by their real parts first. If the real
+     * parts are equal, compares their imaginary parts. Complex numbers with
+     * NaN real or imaginary parts are treated as the largest.
+     * @param reA 
+     * @param imA 
+     * @param reB 
+     * @param imB 
+     */
+    public static compareComplexByRealAsc(reA: number, imA: number, reB: number, imB: number): number {
+        let nanA = isNaN(reA) || isNaN(imA);
+        let nanB = isNaN(reB) || isNaN(imB);
+        if (nanA || nanB) {
+            return nanA ? (nanB ? 0 : 1) : -1;
+        }
+        let result = ComparisonHelper.compareNumberAsc(reA, reB);
+        return result !== 0 ? result : ComparisonHelper.compareNumberAsc(imA, imB);
+    }
+
+    /**
+     * Computes the phase angle in (-pi, pi].
+     */
+    private static _angle(re: number, im: number): number {
+        let angle = Math.atan2(im, re);
+        // atan2(-0, x) returns -pi for negative x
+        return angle === -Math.PI ? Math.PI : angle;
+    }
+
 }
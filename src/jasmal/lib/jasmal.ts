@@ -1,6 +1,9 @@
 import { DType } from './core/dtype';
 import { Tensor } from './core/tensor';
-import { TypedArray } from './commonTypes';
+import { SparseMatrix } from './core/sparseMatrix';
+import { PrintOptions, TensorPrinter } from './core/printer';
+import { TensorJSON, TransferableTensor } from './core/serializer';
+import { TypedArray, OpInput } from './commonTypes';
 import { IRandomEngine } from './ops/random/engine';
 import { ICoreOpProvider } from './ops/core/definition';
 import { IArithmeticOpProvider } from './ops/arithmetic/definition';
@@ -12,6 +15,9 @@ import { IBinaryOpProvider } from './ops/binary/definition';
 import { IDataOpProvider } from './ops/data/definition';
 import { IPolynomialOpProvider } from './ops/poly/definition';
 import { ISetOpProvider } from './ops/set/definition';
+import { ISignalOpProvider } from './ops/signal/definition';
+import { IIOOpProvider } from './ops/io/definition';
+import { IStatsOpProvider } from './ops/stats/definition';
 import { RandomOpProviderFactory } from './ops/random';
 import { ArithmeticOpProviderFactory } from './ops/arithmetic';
 import { MathOpProviderFactory } from './ops/math';
@@ -23,17 +29,26 @@ import { MatrixOpProviderFactory } from './ops/matrix';
 import { DataOpProviderFactory } from './ops/data';
 import { PolynomialOpProviderFactory } from './ops/poly';
 import { SetOpProviderFactory } from './ops/set/index';
+import { SignalOpProviderFactory } from './ops/signal/index';
+import { IOOpProviderFactory } from './ops/io/index';
+import { StatsOpProviderFactory } from './ops/stats/index';
 import { ObjectHelper } from './helper/objHelper';
 import { ElementWiseOpGenerator, ReductionOpGenerator } from './ops/generator';
 import { EPSILON } from './constant';
 import { IBlaoBackend, ISpecialLinearSystemSolverBackend, ILUBackend, IQRBackend,
-         ICholeskyBackend, ISvdBackend, IEigenBackend } from './linalg/backend';
+         ICholeskyBackend, ISvdBackend, IEigenBackend, ISchurBackend,
+         IQZBackend } from './linalg/backend';
 import { MatrixModifier } from './linalg/modifiers';
+import { MatrixType } from './linalg/matrixType';
 
 export interface JasmalOptions {
     rngEngine?: string | IRandomEngine;
     linalg?: LinalgOptions;
     providers?: ProviderOptions;
+    /**
+     * Initial print options of the instance. See `setPrintOptions()`.
+     */
+    printOptions?: PrintOptions;
 }
 
 export interface LinalgOptions {
@@ -43,7 +58,22 @@ export interface LinalgOptions {
     chol?: ICholeskyBackend;
     svd?: ISvdBackend;
     eigen?: IEigenBackend;
+    schur?: ISchurBackend;
+    qz?: IQZBackend;
     linsolve?: ISpecialLinearSystemSolverBackend;
+    /**
+     * Determines what happens when inv(), linsolve() or mldivide() encounters
+     * a square matrix whose estimated reciprocal condition number is less
+     * than eps:
+     *  'warn' - passes a warning message to `onWarning` (default);
+     *  'error' - throws an error;
+     *  'none' - skips the condition estimation.
+     */
+    singularMatrix?: 'warn' | 'error' | 'none';
+    /**
+     * Receives warning messages. Default value is console.warn.
+     */
+    onWarning?: (message: string) => void;
 }
 
 export interface ProviderOptions {
@@ -57,6 +87,9 @@ export interface ProviderOptions {
     data?: IDataOpProvider;
     polynomial?: IPolynomialOpProvider;
     set?: ISetOpProvider;
+    signal?: ISignalOpProvider;
+    io?: IIOOpProvider;
+    stats?: IStatsOpProvider;
 }
 
 export interface IJasmalModuleFactory<M> {
@@ -74,10 +107,34 @@ export interface JasmalBase {
      * Logic data type.
      */
     readonly LOGIC: DType;
+    /**
+     * 8-bit signed integer type.
+     */
+    readonly INT8: DType;
+    /**
+     * 16-bit signed integer type.
+     */
+    readonly INT16: DType;
     /**
      * 32-bit signed integer type.
      */
     readonly INT32: DType;
+    /**
+     * 8-bit unsigned integer type.
+     */
+    readonly UINT8: DType;
+    /**
+     * 16-bit unsigned integer type.
+     */
+    readonly UINT16: DType;
+    /**
+     * 32-bit unsigned integer type.
+     */
+    readonly UINT32: DType;
+    /**
+     * Single type.
+     */
+    readonly FLOAT32: DType;
     /**
      * Double type.
      */
@@ -96,6 +153,35 @@ export interface JasmalBase {
      */
     readonly MM_HERMITIAN: MatrixModifier;
 
+    /**
+     * Matrix has no special structure.
+     */
+    readonly MT_FULL: MatrixType;
+    /**
+     * Matrix is upper triangular.
+     */
+    readonly MT_UPPER_TRIANGULAR: MatrixType;
+    /**
+     * Matrix is lower triangular.
+     */
+    readonly MT_LOWER_TRIANGULAR: MatrixType;
+    /**
+     * Matrix is diagonal.
+     */
+    readonly MT_DIAGONAL: MatrixType;
+    /**
+     * Matrix is tridiagonal.
+     */
+    readonly MT_TRIDIAGONAL: MatrixType;
+    /**
+     * Matrix is banded.
+     */
+    readonly MT_BANDED: MatrixType;
+    /**
+     * Matrix is Hermitian (symmetric if real) positive definite.
+     */
+    readonly MT_HERMITIAN_POSITIVE_DEFINITE: MatrixType;
+
     /**
      * Same as `Math.PI`.
      */
@@ -141,8 +227,10 @@ export interface JasmalBase {
      * @param im (Optional) Imaginary part. Set this to [] if there is no
      *           imaginary part. Otherwise its structure must match that of the
      *           real part. Default value is [].
-     * @param dtype (Optional) Data type. Default value is FLOAT64. If the data
-     *              type is set to LOGIC, `im` must be set to [].
+     * @param dtype (Optional) Data type. If omitted, the data type will be
+     *              inferred from the typed arrays (e.g., UINT8 for Uint8Array),
+     *              or set to FLOAT64 for JavaScript arrays. If the data type is
+     *              set to LOGIC, `im` must be set to [].
      */
     fromArray(re: any[] | TypedArray, im?: any[] | TypedArray, dtype?: DType): Tensor;
     /**
@@ -151,6 +239,52 @@ export interface JasmalBase {
      * @param im Imaginary part.
      */
     complex(re: Tensor, im: Tensor): Tensor;
+    /**
+     * Restores a tensor from its JSON representation created by
+     * `Tensor.toJSON()` (or `JSON.stringify()`).
+     * @param json A JSON object or a JSON string.
+     * @example
+     *  let s = JSON.stringify(T.rand([3, 3]));
+     *  let A = T.fromJSON(s);
+     */
+    fromJSON(json: TensorJSON | string): Tensor;
+    /**
+     * Restores a tensor from the object created by `Tensor.toTransferable()`
+     * without copying the data.
+     * @example
+     *  // main thread
+     *  let [msg, transferList] = A.toTransferable();
+     *  worker.postMessage(msg, transferList);
+     *  // worker
+     *  onmessage = e => { let A = T.fromTransferable(e.data); };
+     */
+    fromTransferable(t: TransferableTensor): Tensor;
+    /**
+     * Sets the print options of this instance, which are used by `format()`.
+     * Options not specified remain unchanged. Options never specified for
+     * this instance fall back to the global print options set by
+     * `JasmalEngine.setPrintOptions()`. Because tensors can be shared among
+     * JASMAL instances, `Tensor.toString()` only uses the global print
+     * options.
+     * @example
+     *  T.setPrintOptions({ format: 'fixed', precision: 2, lineWidth: 120 });
+     *  console.log(T.format(A));
+     *  console.log(T.format(A, { format: 'shortest' }));
+     */
+    setPrintOptions(options: PrintOptions): void;
+    /**
+     * Retrieves a copy of the print options of this instance (with the global
+     * print options filled in).
+     */
+    getPrintOptions(): PrintOptions;
+    /**
+     * Converts the input to a string using the print options of this
+     * instance. Sparse matrices are printed via `SparseMatrix.toString()`.
+     * @param x
+     * @param options (Optional) Overrides the print options of this instance
+     *                for this call.
+     */
+    format(x: OpInput | SparseMatrix, options?: PrintOptions): string;
 }
 
 /**
@@ -160,7 +294,8 @@ export interface JasmalBase {
 export interface Jasmal extends JasmalBase, ICoreOpProvider, IMatrixOpProvider,
     IRandomOpProvider, IArithmeticOpProvider, IMathOpProvider,
     ILogicComparisonOpProvider, IBinaryOpProvider, IDataOpProvider,
-    IPolynomialOpProvider, ISetOpProvider {}
+    IPolynomialOpProvider, ISetOpProvider, ISignalOpProvider, IIOOpProvider,
+    IStatsOpProvider {}
 
 export class JasmalEngine {
 
@@ -170,6 +305,21 @@ export class JasmalEngine {
         };
     }
     
+    /**
+     * Sets the global print options used by `Tensor.toString()`. Options not
+     * specified remain unchanged.
+     */
+    public static setPrintOptions(options: PrintOptions): void {
+        Tensor.setPrintOptions(options);
+    }
+
+    /**
+     * Retrieves a copy of the global print options.
+     */
+    public static getPrintOptions(): PrintOptions {
+        return Tensor.getPrintOptions();
+    }
+
     public static createInstance(options?: JasmalOptions): Jasmal {
 
         let defaultOptions = JasmalEngine.getDefaultOptions();
@@ -192,9 +342,6 @@ export class JasmalEngine {
         const coreOpProvider = customProviders && customProviders.core
             ? customProviders.core
             : (new CoreOpProviderFactory(elementWiseOpGen)).create(options);
-        const randomOpProvider = customProviders && customProviders.random
-            ? customProviders.random
-            : (new RandomOpProviderFactory()).create(options);
         const arithmeticOpProvider = customProviders && customProviders.arithmetic
             ? customProviders.arithmetic
             : (new ArithmeticOpProviderFactory(elementWiseOpGen)).create(options);
@@ -204,6 +351,9 @@ export class JasmalEngine {
         const matrixOpProvider = customProviders && customProviders.matrix
             ? customProviders.matrix
             : (new MatrixOpProviderFactory(arithmeticOpProvider, mathOpProvider)).create(options);
+        const randomOpProvider = customProviders && customProviders.random
+            ? customProviders.random
+            : (new RandomOpProviderFactory(matrixOpProvider)).create(options);
         const logicCompOpProvider = customProviders && customProviders.logic
             ? customProviders.logic
             : (new LogicComparisonOpProviderFactory(elementWiseOpGen)).create(options);
@@ -220,16 +370,43 @@ export class JasmalEngine {
         const setOpProvider = customProviders && customProviders.set
             ? customProviders.set
             : (new SetOpProviderFactory(coreOpProvider, logicCompOpProvider)).create(options);
+        const signalOpProvider = customProviders && customProviders.signal
+            ? customProviders.signal
+            : (new SignalOpProviderFactory()).create(options);
+        const ioOpProvider = customProviders && customProviders.io
+            ? customProviders.io
+            : (new IOOpProviderFactory()).create(options);
+        const statsOpProvider = customProviders && customProviders.stats
+            ? customProviders.stats
+            : (new StatsOpProviderFactory(randomOpProvider)).create(options);
         
+        // Print options of this instance. Options not specified here fall
+        // back to the global ones.
+        let printOptions = TensorPrinter.mergeOptions({}, options.printOptions || {});
+
         let jasmalCore: JasmalBase =  {
             LOGIC: DType.LOGIC,
+            INT8: DType.INT8,
+            INT16: DType.INT16,
             INT32: DType.INT32,
+            UINT8: DType.UINT8,
+            UINT16: DType.UINT16,
+            UINT32: DType.UINT32,
+            FLOAT32: DType.FLOAT32,
             FLOAT64: DType.FLOAT64,
 
             MM_NONE: MatrixModifier.None,
             MM_TRANSPOSED: MatrixModifier.Transposed,
             MM_HERMITIAN: MatrixModifier.Hermitian,
 
+            MT_FULL: MatrixType.Full,
+            MT_UPPER_TRIANGULAR: MatrixType.UpperTriangular,
+            MT_LOWER_TRIANGULAR: MatrixType.LowerTriangular,
+            MT_DIAGONAL: MatrixType.Diagonal,
+            MT_TRIDIAGONAL: MatrixType.Tridiagonal,
+            MT_BANDED: MatrixType.Banded,
+            MT_HERMITIAN_POSITIVE_DEFINITE: MatrixType.HermitianPositiveDefinite,
+
             J: new ComplexNumber(0, 1),
             PI: Math.PI,
             EPSILON: EPSILON,
@@ -240,7 +417,21 @@ export class JasmalEngine {
             zeros: Tensor.zeros,
             ones: Tensor.ones,
             fromArray: (re, im, dtype) => Tensor.fromArray(re, im, dtype),
-            complex: (x, y) => Tensor.complex(x, y)
+            complex: (x, y) => Tensor.complex(x, y),
+            fromJSON: json => Tensor.fromJSON(json),
+            fromTransferable: t => Tensor.fromTransferable(t),
+            setPrintOptions: opts => {
+                printOptions = TensorPrinter.mergeOptions(printOptions, opts);
+            },
+            getPrintOptions: () => TensorPrinter.mergeOptions(Tensor.getPrintOptions(), printOptions),
+            format: (x, opts) => {
+                let merged = opts ? TensorPrinter.mergeOptions(printOptions, opts) : printOptions;
+                if (x instanceof SparseMatrix) {
+                    return x.toString(merged);
+                }
+                let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+                return X.toString(merged);
+            }
         };
 
         return ObjectHelper.createExtendChain(jasmalCore)
@@ -254,6 +445,9 @@ export class JasmalEngine {
             .extend(dataOpProvider)
             .extend(polyOpProvider)
             .extend(setOpProvider)
+            .extend(signalOpProvider)
+            .extend(ioOpProvider)
+            .extend(statsOpProvider)
             .end();
         
     }
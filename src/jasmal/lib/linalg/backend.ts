@@ -209,10 +209,17 @@ export interface IQRBackend {
      * @param m Number of rows.
      * @param n Number of columns.
      * @param a (Input/Output) Matrix A. Will be overwritten with R.
-     * @param q (Output) Matrix Q. Must be initialized with zeros.
+     * @param q (Output) Matrix Q (m x m, or m x min(m, n) if economy is
+     *          true). Must be initialized with zeros. Set it to [] to skip
+     *          computing Q.
      * @param p (Output) Matrix P. Must be initialized with zeros.
+     * @param pivoting (Optional) Whether column pivoting is performed. If set
+     *                 to false, P will be the identity matrix. Default value
+     *                 is true.
+     * @param economy (Optional) Whether only the first min(m, n) columns of Q
+     *                are computed. Default value is false.
      */
-    qr(m: number, n: number, a: DataBlock, q: DataBlock, p: DataBlock): void;
+    qr(m: number, n: number, a: DataBlock, q: DataBlock, p: DataBlock, pivoting?: boolean, economy?: boolean): void;
 
     /**
      * Obtains the least square solution using QR decomposition such that
@@ -259,11 +266,20 @@ export interface IQRBackend {
      *                          real part of R.
      * @param ai (Input/Output) Imaginary part of A. Will be overwritten with
      *                          the imaginary part of R.
-     * @param qr (Output) Real part of Q. Must be initialized with zeros.
+     * @param qr (Output) Real part of Q (m x m, or m x min(m, n) if economy
+     *           is true). Must be initialized with zeros. Set it to [] to skip
+     *           computing Q.
      * @param qi (Output) Imaginary part of Q. Must be initialized with zeros.
+     *           Set it to [] to skip computing Q.
      * @param p (Output) Matrix P. Must be initialized with zeros.
+     * @param pivoting (Optional) Whether column pivoting is performed. If set
+     *                 to false, P will be the identity matrix. Default value
+     *                 is true.
+     * @param economy (Optional) Whether only the first min(m, n) columns of Q
+     *                are computed. Default value is false.
      */
-    cqr(m: number, n: number, ar: DataBlock, ai: DataBlock, qr: DataBlock, qi: DataBlock, p: DataBlock): void;
+    cqr(m: number, n: number, ar: DataBlock, ai: DataBlock, qr: DataBlock, qi: DataBlock, p: DataBlock,
+        pivoting?: boolean, economy?: boolean): void;
 
     /**
      * Obtains the least square solution using QR decomposition such that
@@ -349,6 +365,68 @@ export interface IEigenBackend {
 
 }
 
+/**
+ * Backend for generalized eigendecomposition.
+ */
+export interface IQZBackend {
+
+    /**
+     * Computes the generalized eigenvalues and (optionally) the right
+     * eigenvectors of the complex pencil (A, B) using the QZ algorithm such
+     * that A v = lambda B v, where lambda = alpha / beta. Real inputs should
+     * be passed in with zero imaginary parts. The eigenvectors are
+     * unnormalized.
+     * @param n Dimension of the matrices.
+     * @param ar (Input/Destroyed) Real part of A.
+     * @param ai (Input/Destroyed) Imaginary part of A.
+     * @param br (Input/Destroyed) Real part of B.
+     * @param bi (Input/Destroyed) Imaginary part of B.
+     * @param alphar (Output) Real part of alpha.
+     * @param alphai (Output) Imaginary part of alpha.
+     * @param betar (Output) Real part of beta.
+     * @param betai (Output) Imaginary part of beta.
+     * @param matz Specifies whether the eigenvectors are computed. If set to
+     *             false, zr and zi should be set to [].
+     * @param zr (Output) Real part of the eigenvectors.
+     * @param zi (Output) Imaginary part of the eigenvectors.
+     */
+    cqz(n: number, ar: DataBlock, ai: DataBlock, br: DataBlock, bi: DataBlock,
+        alphar: DataBlock, alphai: DataBlock, betar: DataBlock, betai: DataBlock,
+        matz: boolean, zr: DataBlock, zi: DataBlock): void;
+
+}
+
+/**
+ * Backend for Schur decomposition.
+ */
+export interface ISchurBackend {
+
+    /**
+     * Computes the real Schur decomposition A = U T U^T, where U is orthogonal
+     * and T is upper quasi-triangular. Each 2x2 diagonal block of T
+     * corresponds to a pair of complex conjugate eigenvalues and is
+     * standardized such that its diagonal elements are equal.
+     * @param n Dimension of the matrix.
+     * @param a (Input/Output) Matrix A. Will be overwritten with T.
+     * @param u (Output) Matrix U.
+     */
+    schur(n: number, a: DataBlock, u: DataBlock): void;
+
+    /**
+     * Computes the complex Schur decomposition A = U T U^H, where U is unitary
+     * and T is upper triangular.
+     * @param n Dimension of the matrix.
+     * @param ar (Input/Output) Real part of A. Will be overwritten with the
+     *           real part of T.
+     * @param ai (Input/Output) Imaginary part of A. Will be overwritten with
+     *           the imaginary part of T.
+     * @param ur (Output) Real part of U.
+     * @param ui (Output) Imaginary part of U.
+     */
+    cschur(n: number, ar: DataBlock, ai: DataBlock, ur: DataBlock, ui: DataBlock): void;
+
+}
+
 /**
  * Backend for Cholesky decomposition.
  */
@@ -431,4 +509,97 @@ export interface ISpecialLinearSystemSolverBackend {
       solveGLTComplex(m: number, n: number, p: number, reA: ArrayLike<number>, imA: ArrayLike<number>,
                      reB: ArrayLike<number>, imB: ArrayLike<number>, reX: DataBlock, imX: DataBlock): void;
 
+      /**
+       * Solves a complex upper triangular system AX = B, where A is a square
+       * matrix.
+       * @param m
+       * @param p
+       * @param reA (Input) Real part of the m x m matrix A.
+       * @param imA (Input) Imaginary part of the m x m matrix A.
+       * @param reB (Input/Output) Real part of the m x p matrix B. Will be
+       *            overwritten with the real part of X.
+       * @param imB (Input/Output) Imaginary part of the m x p matrix B. Will
+       *            be overwritten with the imaginary part of X.
+       */
+      solveUTComplex(m: number, p: number, reA: ArrayLike<number>, imA: ArrayLike<number>,
+                     reB: DataBlock, imB: DataBlock): void;
+
+      /**
+       * Solves a real lower triangular system AX = B, where A is a square
+       * matrix.
+       * @param m
+       * @param p
+       * @param a (Input) The m x m matrix A.
+       * @param b (Input/Output) The m x p matrix B. Will be overwritten with X.
+       */
+      solveLTReal(m: number, p: number, a: ArrayLike<number>, b: DataBlock): void;
+
+      /**
+       * Solves a complex lower triangular system AX = B, where A is a square
+       * matrix. See solveUTComplex() for the parameters.
+       */
+      solveLTComplex(m: number, p: number, reA: ArrayLike<number>, imA: ArrayLike<number>,
+                     reB: DataBlock, imB: DataBlock): void;
+
+      /**
+       * Solves a real diagonal system AX = B. Only the diagonal elements of
+       * A are used.
+       * @param m
+       * @param p
+       * @param a (Input) The m x m matrix A.
+       * @param b (Input/Output) The m x p matrix B. Will be overwritten with X.
+       */
+      solveDiagReal(m: number, p: number, a: ArrayLike<number>, b: DataBlock): void;
+
+      /**
+       * Solves a complex diagonal system AX = B. Only the diagonal elements
+       * of A are used. See solveUTComplex() for the parameters.
+       */
+      solveDiagComplex(m: number, p: number, reA: ArrayLike<number>, imA: ArrayLike<number>,
+                       reB: DataBlock, imB: DataBlock): void;
+
+      /**
+       * Solves a real tridiagonal system AX = B using the Thomas algorithm
+       * (Gaussian elimination without pivoting). It is stable if A is
+       * diagonally dominant or symmetric positive definite.
+       * @param n
+       * @param p
+       * @param dl (Input/Destroyed) The n - 1 subdiagonal elements of A.
+       * @param d (Input/Destroyed) The n diagonal elements of A.
+       * @param du (Input/Destroyed) The n - 1 superdiagonal elements of A.
+       * @param b (Input/Output) The n x p matrix B. Will be overwritten with X.
+       * @returns An integer k. If successful, k = 0. If k > 0, a zero pivot
+       *          is encountered at the k-th step and B is destroyed.
+       */
+      solveTridiagReal(n: number, p: number, dl: DataBlock, d: DataBlock, du: DataBlock, b: DataBlock): number;
+
+      /**
+       * Solves a complex tridiagonal system AX = B using the Thomas
+       * algorithm. See solveTridiagReal() for details.
+       */
+      solveTridiagComplex(n: number, p: number, reDl: DataBlock, imDl: DataBlock,
+                          reD: DataBlock, imD: DataBlock, reDu: DataBlock, imDu: DataBlock,
+                          reB: DataBlock, imB: DataBlock): number;
+
+      /**
+       * Solves a real banded system AX = B using Gaussian elimination with
+       * partial pivoting, which only operates within the band.
+       * @param n
+       * @param kl Lower bandwidth of A.
+       * @param ku Upper bandwidth of A.
+       * @param p
+       * @param a (Input/Destroyed) The n x n matrix A.
+       * @param b (Input/Output) The n x p matrix B. Will be overwritten with X.
+       * @returns An integer k. If successful, k = 0. If k > 0, A is singular
+       *          and B is destroyed.
+       */
+      solveBandedReal(n: number, kl: number, ku: number, p: number, a: DataBlock, b: DataBlock): number;
+
+      /**
+       * Solves a complex banded system AX = B using Gaussian elimination with
+       * partial pivoting. See solveBandedReal() for details.
+       */
+      solveBandedComplex(n: number, kl: number, ku: number, p: number, reA: DataBlock, imA: DataBlock,
+                         reB: DataBlock, imB: DataBlock): number;
+
 }
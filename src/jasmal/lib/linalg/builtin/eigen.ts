@@ -8,9 +8,9 @@ import { DataBlock } from '../../commonTypes';
 import { CMath } from '../../math/cmath';
 import { DataHelper } from '../../helper/dataHelper';
 import { EPSILON } from '../../constant';
-import { IEigenBackend } from '../backend';
+import { IEigenBackend, ISchurBackend } from '../backend';
 
-export class BuiltInEigen implements IEigenBackend {
+export class BuiltInEigen implements IEigenBackend, ISchurBackend {
 
     /**
      * See tred1.f in EISPACK.
@@ -476,7 +476,10 @@ export class BuiltInEigen implements IEigenBackend {
             this._tql2(n, lambda, tmpArr, reE);
         } else {
             let tmpArr2 = DataHelper.allocateFloat64Array(n);
-            this._tred1(n, reA, lambda, tmpArr, tmpArr2);
+            // _tred1 overwrites the strict lower triangle
+            let a = DataHelper.allocateFloat64Array(n * n);
+            DataHelper.copy(reA, a);
+            this._tred1(n, a, lambda, tmpArr, tmpArr2);
             this._tqlrat(n, lambda, tmpArr2);
         }
     }
@@ -923,6 +926,120 @@ export class BuiltInEigen implements IEigenBackend {
         }
     }
 
+    /**
+     * Reduces a real general matrix to upper Hessenberg form using orthogonal
+     * similarity transformations.
+     * See orthes.f in EISPACK.
+     * @param n Dimension of the matrix.
+     * @param low Parameter determined by balanc().
+     * @param igh Parameter determined by balanc().
+     * @param a (Input/Output) Matrix data. Will be overwritten with the
+     *          Hessenberg matrix. Information about the transformations is
+     *          stored in the remaining triangle under the Hessenberg matrix.
+     * @param ort (Output) Additional information for the transforms.
+     */
+    private _orthes(n: number, low: number, igh: number, a: DataBlock, ort: DataBlock): void {
+        let i: number, j: number, m: number, la: number, kp1: number;
+        let f: number, g: number, h: number, scale: number;
+        la = igh - 1;
+        kp1 = low + 1;
+        if (la < kp1) {
+            return;
+        }
+        for (m = kp1;m <= la;m++) {
+            h = 0.0;
+            ort[m] = 0.0;
+            scale = 0.0;
+            // scale column (algol tol then not needed)
+            for (i = m;i <= igh;i++) {
+                scale += Math.abs(a[i * n + (m - 1)]);
+            }
+            if (scale === 0.0) {
+                continue;
+            }
+            for (i = igh;i >= m;i--) {
+                ort[i] = a[i * n + (m - 1)] / scale;
+                h += ort[i] * ort[i];
+            }
+            g = ort[m] >= 0 ? -Math.sqrt(h) : Math.sqrt(h);
+            h -= ort[m] * g;
+            ort[m] -= g;
+            // form (i - (u * ut)/h) * a
+            for (j = m;j < n;j++) {
+                f = 0.0;
+                for (i = igh;i >= m;i--) {
+                    f += ort[i] * a[i * n + j];
+                }
+                f /= h;
+                for (i = m;i <= igh;i++) {
+                    a[i * n + j] -= f * ort[i];
+                }
+            }
+            // form (i - (u * ut)/h) * a * (i - (u * ut)/h)
+            for (i = 0;i <= igh;i++) {
+                f = 0.0;
+                for (j = igh;j >= m;j--) {
+                    f += ort[j] * a[i * n + j];
+                }
+                f /= h;
+                for (j = m;j <= igh;j++) {
+                    a[i * n + j] -= f * ort[j];
+                }
+            }
+            ort[m] *= scale;
+            a[m * n + (m - 1)] = scale * g;
+        }
+    }
+
+    /**
+     * Accumulates the orthogonal similarity transformations used in the
+     * reduction of a real general matrix to upper Hessenberg form by
+     * orthes().
+     * See ortran.f in EISPACK.
+     * @param n Dimension of the matrix.
+     * @param low Parameter determined by balanc().
+     * @param igh Parameter determined by balanc().
+     * @param a (Input) Output from orthes().
+     * @param ort (Input/Destroyed) Output from orthes().
+     * @param z (Output) Contains the transformation matrix produced in
+     *          the reduction by orthes().
+     */
+    private _ortran(n: number, low: number, igh: number, a: ArrayLike<number>, ort: DataBlock, z: DataBlock): void {
+        let i: number, j: number, kl: number, mp: number;
+        let g: number;
+        // initialize z to identity matrix
+        for (i = 0;i < n;i++) {
+            for (j = 0;j < n;j++) {
+                z[i * n + j] = 0.0;
+            }
+            z[i * n + i] = 1.0;
+        }
+        kl = igh - low - 1;
+        if (kl < 1) {
+            return;
+        }
+        for (mp = igh - 1;mp >= low + 1;mp--) {
+            if (a[mp * n + (mp - 1)] === 0.0) {
+                continue;
+            }
+            for (i = mp + 1;i <= igh;i++) {
+                ort[i] = a[i * n + (mp - 1)];
+            }
+            for (j = mp;j <= igh;j++) {
+                g = 0.0;
+                for (i = mp;i <= igh;i++) {
+                    g += ort[i] * z[i * n + j];
+                }
+                // divisor below is negative of h formed in orthes. double
+                // division avoids possible underflow
+                g = (g / ort[mp]) / a[mp * n + (mp - 1)];
+                for (i = mp;i <= igh;i++) {
+                    z[i * n + j] += g * ort[i];
+                }
+            }
+        }
+    }
+
     /**
      * Finds eigenvalues of a real upper Hessenberg matrix with QR
      * iterations.
@@ -1145,7 +1262,8 @@ export class BuiltInEigen implements IEigenBackend {
      *           columns of z contain the real and imaginary parts of its
      *           eigenvector. The eigenvectors are unnormalized.
      */
-    private _hqr2(n: number, low: number, igh: number, h: DataBlock, wr: DataBlock, wi: DataBlock, z: DataBlock): void {
+    private _hqr2(n: number, low: number, igh: number, h: DataBlock, wr: DataBlock, wi: DataBlock, z: DataBlock,
+                  backsubstitute: boolean): void {
         let i: number, j: number, k: number, l: number, m: number, en: number;
         let na: number = 0, itn: number, its: number = 0;
         let mp2: number, enm2: number = 0;
@@ -1157,7 +1275,7 @@ export class BuiltInEigen implements IEigenBackend {
         k = 0;
         // store roots isolated by balanc and compute matrix norm
         for (i = 0;i < n;i++) {
-            for (j = k;j <= n;j++) {
+            for (j = k;j < n;j++) {
                 norm += Math.abs(h[i * n + j]);
             }
             k = i;
@@ -1382,6 +1500,10 @@ export class BuiltInEigen implements IEigenBackend {
                 skip = false;
             }
         }
+        if (!backsubstitute) {
+            // h now stores the real Schur form
+            return;
+        }
         // all roots found, backsubstitute to find vectors of upper triangular
         // form
         if (norm === 0) {
@@ -1621,7 +1743,7 @@ export class BuiltInEigen implements IEigenBackend {
         this._elmhes(n, low, igh, a, tmpArr2);
         if (matz) {
             this._eltran(n, low, igh, a, tmpArr2, zr);
-            this._hqr2(n, low, igh, a, wr, wi, zr);
+            this._hqr2(n, low, igh, a, wr, wi, zr, true);
             this._balbak(n, low, igh, tmpArr1, n, zr);
             // fill zi
             for (i = 0;i < n;) {
@@ -2049,7 +2171,8 @@ export class BuiltInEigen implements IEigenBackend {
      * See comqr2.f in EISPACK.
      */
     private _comqr2(n: number, low: number, igh: number, ortr: DataBlock, orti: DataBlock,
-                    hr: DataBlock, hi: DataBlock, wr: DataBlock, wi: DataBlock, zr: DataBlock, zi: DataBlock): void
+                    hr: DataBlock, hi: DataBlock, wr: DataBlock, wi: DataBlock, zr: DataBlock, zi: DataBlock,
+                    backsubstitute: boolean): void
     {
         let i: number, j: number, k: number, l: number, ll: number, m: number, en: number;
         let ip1: number, itn: number, its: number = 0, lp1: number, enm1: number = 0, iend: number;
@@ -2301,6 +2424,10 @@ export class BuiltInEigen implements IEigenBackend {
                 skip = true;
             }
         }
+        if (!backsubstitute) {
+            // (hr, hi) now stores the complex Schur form
+            return;
+        }
         // all roots found. backsubstitute to find vectors of upper triangular
         // form
         norm = 0.0;
@@ -2452,11 +2579,198 @@ export class BuiltInEigen implements IEigenBackend {
         let [low, igh] = this._cbal(n, ar, ai, scale);
         this._corth(n, low, igh, ar, ai, ortr, orti);
         if (matz) {
-            this._comqr2(n, low, igh, ortr, orti, ar, ai, wr, wi, zr, zi);
+            this._comqr2(n, low, igh, ortr, orti, ar, ai, wr, wi, zr, zi, true);
             this._cbabk2(n, low, igh, scale, n, zr, zi);
         } else {
             this._comqr(n, low, igh, ar, ai, wr, wi);
         }
     }
 
+    /**
+     * Computes the Schur factorization of a real 2x2 nonsymmetric matrix
+     * [a b; c d] in the standardized form such that
+     *  [a b; c d] = [cs -sn; sn cs] [aa bb; cc dd] [cs sn; -sn cs],
+     * where either cc = 0 (real eigenvalues) or aa = dd and bb * cc < 0
+     * (complex conjugate eigenvalues).
+     * See dlanv2.f in LAPACK.
+     * @returns [aa, bb, cc, dd, cs, sn].
+     */
+    private _lanv2(a: number, b: number, c: number, d: number): [number, number, number, number, number, number] {
+        let cs: number, sn: number;
+        let p: number, z: number, tau: number, temp: number, scale: number;
+        let bcmax: number, bcmis: number, sigma: number;
+        let aa: number, bb: number, cc: number, dd: number;
+        if (c === 0.0) {
+            cs = 1.0;
+            sn = 0.0;
+        } else if (b === 0.0) {
+            // swap rows and columns
+            cs = 0.0;
+            sn = 1.0;
+            temp = d;
+            d = a;
+            a = temp;
+            b = -c;
+            c = 0.0;
+        } else if (a - d === 0.0 && (b >= 0) !== (c >= 0)) {
+            // already in the standardized form
+            cs = 1.0;
+            sn = 0.0;
+        } else {
+            temp = a - d;
+            p = 0.5 * temp;
+            bcmax = Math.max(Math.abs(b), Math.abs(c));
+            bcmis = Math.min(Math.abs(b), Math.abs(c)) * (b >= 0 ? 1 : -1) * (c >= 0 ? 1 : -1);
+            scale = Math.max(Math.abs(p), bcmax);
+            z = (p / scale) * p + (bcmax / scale) * bcmis;
+            if (z >= 4.0 * EPSILON) {
+                // real eigenvalues
+                z = p + (p >= 0 ? Math.sqrt(scale) * Math.sqrt(z) : -Math.sqrt(scale) * Math.sqrt(z));
+                a = d + z;
+                d -= (bcmax / z) * bcmis;
+                tau = CMath.length2(c, z);
+                cs = z / tau;
+                sn = c / tau;
+                b -= c;
+                c = 0.0;
+            } else {
+                // complex eigenvalues, or real (almost) equal eigenvalues:
+                // make diagonal elements equal
+                sigma = b + c;
+                tau = CMath.length2(sigma, temp);
+                cs = Math.sqrt(0.5 * (1.0 + Math.abs(sigma) / tau));
+                sn = -(p / (tau * cs)) * (sigma >= 0 ? 1 : -1);
+                // [aa bb; cc dd] = [a b; c d] [cs -sn; sn cs]
+                aa = a * cs + b * sn;
+                bb = -a * sn + b * cs;
+                cc = c * cs + d * sn;
+                dd = -c * sn + d * cs;
+                // [a b; c d] = [cs sn; -sn cs] [aa bb; cc dd]
+                a = aa * cs + cc * sn;
+                b = bb * cs + dd * sn;
+                c = -aa * sn + cc * cs;
+                d = -bb * sn + dd * cs;
+                temp = 0.5 * (a + d);
+                a = temp;
+                d = temp;
+                if (c !== 0.0) {
+                    if (b !== 0.0) {
+                        if ((b >= 0) === (c >= 0)) {
+                            // real eigenvalues: reduce to upper triangular
+                            // form
+                            let sab = Math.sqrt(Math.abs(b));
+                            let sac = Math.sqrt(Math.abs(c));
+                            p = c >= 0 ? sab * sac : -sab * sac;
+                            tau = 1.0 / Math.sqrt(Math.abs(b + c));
+                            a = temp + p;
+                            d = temp - p;
+                            b -= c;
+                            c = 0.0;
+                            let cs1 = sab * tau;
+                            let sn1 = sac * tau;
+                            temp = cs * cs1 - sn * sn1;
+                            sn = cs * sn1 + sn * cs1;
+                            cs = temp;
+                        }
+                    } else {
+                        b = -c;
+                        c = 0.0;
+                        temp = cs;
+                        cs = -sn;
+                        sn = temp;
+                    }
+                }
+            }
+        }
+        return [a, b, c, d, cs, sn];
+    }
+
+    /**
+     * Computes the real Schur decomposition A = U T U^T.
+     * @param n Dimension of the matrix.
+     * @param a (Input/Output) Matrix A. Will be overwritten with T.
+     * @param u (Output) Matrix U.
+     */
+    public schur(n: number, a: DataBlock, u: DataBlock): void {
+        let i: number, j: number, k: number;
+        let x: number, y: number;
+        let wr = DataHelper.allocateFloat64Array(n);
+        let wi = DataHelper.allocateFloat64Array(n);
+        let ort = DataHelper.allocateFloat64Array(n);
+        // balancing is not used here because it is not an orthogonal
+        // transformation
+        this._orthes(n, 0, n - 1, a, ort);
+        this._ortran(n, 0, n - 1, a, ort, u);
+        this._hqr2(n, 0, n - 1, a, wr, wi, u, false);
+        // clean up the elements below the diagonal blocks
+        for (i = 1;i < n;i++) {
+            for (j = 0;j < i - 1;j++) {
+                a[i * n + j] = 0.0;
+            }
+            if (!(wi[i - 1] > 0 && wi[i] < 0)) {
+                a[i * n + (i - 1)] = 0.0;
+            }
+        }
+        // standardize the 2x2 diagonal blocks
+        for (k = 0;k < n - 1;k++) {
+            if (a[(k + 1) * n + k] === 0.0) {
+                continue;
+            }
+            let [aa, bb, cc, dd, cs, sn] = this._lanv2(a[k * n + k], a[k * n + (k + 1)],
+                a[(k + 1) * n + k], a[(k + 1) * n + (k + 1)]);
+            a[k * n + k] = aa;
+            a[k * n + (k + 1)] = bb;
+            a[(k + 1) * n + k] = cc;
+            a[(k + 1) * n + (k + 1)] = dd;
+            // apply the rotation to the rest of T and U
+            for (j = k + 2;j < n;j++) {
+                x = a[k * n + j];
+                y = a[(k + 1) * n + j];
+                a[k * n + j] = cs * x + sn * y;
+                a[(k + 1) * n + j] = cs * y - sn * x;
+            }
+            for (i = 0;i < k;i++) {
+                x = a[i * n + k];
+                y = a[i * n + (k + 1)];
+                a[i * n + k] = cs * x + sn * y;
+                a[i * n + (k + 1)] = cs * y - sn * x;
+            }
+            for (i = 0;i < n;i++) {
+                x = u[i * n + k];
+                y = u[i * n + (k + 1)];
+                u[i * n + k] = cs * x + sn * y;
+                u[i * n + (k + 1)] = cs * y - sn * x;
+            }
+            k++;
+        }
+    }
+
+    /**
+     * Computes the complex Schur decomposition A = U T U^H.
+     * @param n Dimension of the matrix.
+     * @param ar (Input/Output) Real part of A. Will be overwritten with the
+     *           real part of T.
+     * @param ai (Input/Output) Imaginary part of A. Will be overwritten with
+     *           the imaginary part of T.
+     * @param ur (Output) Real part of U.
+     * @param ui (Output) Imaginary part of U.
+     */
+    public cschur(n: number, ar: DataBlock, ai: DataBlock, ur: DataBlock, ui: DataBlock): void {
+        let wr = DataHelper.allocateFloat64Array(n);
+        let wi = DataHelper.allocateFloat64Array(n);
+        let ortr = DataHelper.allocateFloat64Array(n);
+        let orti = DataHelper.allocateFloat64Array(n);
+        // balancing is not used here because it is not a unitary
+        // transformation
+        this._corth(n, 0, n - 1, ar, ai, ortr, orti);
+        this._comqr2(n, 0, n - 1, ortr, orti, ar, ai, wr, wi, ur, ui, false);
+        // clean up the elements below the diagonal
+        for (let i = 1;i < n;i++) {
+            for (let j = 0;j < i;j++) {
+                ar[i * n + j] = 0.0;
+                ai[i * n + j] = 0.0;
+            }
+        }
+    }
+
 }
@@ -0,0 +1,433 @@
+import { DataBlock } from '../../commonTypes';
+import { ISpecialLinearSystemSolverBackend } from '../backend';
+
+export class BuiltInSpecialLinearSystemSolver implements ISpecialLinearSystemSolverBackend {
+
+    /**
+     * Solves UX = B in place, where U is the leading r x r upper triangular
+     * block of a matrix with lda columns, and X is r x p.
+     */
+    private _ut(r: number, lda: number, p: number, a: ArrayLike<number>, b: DataBlock): void {
+        let i: number, j: number, k: number;
+        let t: number;
+        for (i = r - 1;i >= 0;i--) {
+            for (j = i + 1;j < r;j++) {
+                t = a[i * lda + j];
+                if (t !== 0) {
+                    for (k = 0;k < p;k++) {
+                        b[i * p + k] -= t * b[j * p + k];
+                    }
+                }
+            }
+            t = a[i * lda + i];
+            for (k = 0;k < p;k++) {
+                b[i * p + k] /= t;
+            }
+        }
+    }
+
+    /**
+     * Solves LX = B in place, where L is the leading r x r lower triangular
+     * block of a matrix with lda columns, and X is r x p.
+     */
+    private _lt(r: number, lda: number, p: number, a: ArrayLike<number>, b: DataBlock): void {
+        let i: number, j: number, k: number;
+        let t: number;
+        for (i = 0;i < r;i++) {
+            for (j = 0;j < i;j++) {
+                t = a[i * lda + j];
+                if (t !== 0) {
+                    for (k = 0;k < p;k++) {
+                        b[i * p + k] -= t * b[j * p + k];
+                    }
+                }
+            }
+            t = a[i * lda + i];
+            for (k = 0;k < p;k++) {
+                b[i * p + k] /= t;
+            }
+        }
+    }
+
+    /**
+     * Complex version of _ut().
+     */
+    private _cut(r: number, lda: number, p: number, reA: ArrayLike<number>, imA: ArrayLike<number>,
+                 reB: DataBlock, imB: DataBlock): void {
+        let i: number, j: number, k: number;
+        let tr: number, ti: number, br: number, bi: number, s: number;
+        for (i = r - 1;i >= 0;i--) {
+            for (j = i + 1;j < r;j++) {
+                tr = reA[i * lda + j];
+                ti = imA[i * lda + j];
+                if (tr !== 0 || ti !== 0) {
+                    for (k = 0;k < p;k++) {
+                        br = reB[j * p + k];
+                        bi = imB[j * p + k];
+                        reB[i * p + k] -= tr * br - ti * bi;
+                        imB[i * p + k] -= tr * bi + ti * br;
+                    }
+                }
+            }
+            // (tr, ti) <- 1 / a_ii
+            tr = reA[i * lda + i];
+            ti = imA[i * lda + i];
+            s = tr * tr + ti * ti;
+            tr = tr / s;
+            ti = -ti / s;
+            for (k = 0;k < p;k++) {
+                br = reB[i * p + k];
+                bi = imB[i * p + k];
+                reB[i * p + k] = br * tr - bi * ti;
+                imB[i * p + k] = br * ti + bi * tr;
+            }
+        }
+    }
+
+    /**
+     * Complex version of _lt().
+     */
+    private _clt(r: number, lda: number, p: number, reA: ArrayLike<number>, imA: ArrayLike<number>,
+                 reB: DataBlock, imB: DataBlock): void {
+        let i: number, j: number, k: number;
+        let tr: number, ti: number, br: number, bi: number, s: number;
+        for (i = 0;i < r;i++) {
+            for (j = 0;j < i;j++) {
+                tr = reA[i * lda + j];
+                ti = imA[i * lda + j];
+                if (tr !== 0 || ti !== 0) {
+                    for (k = 0;k < p;k++) {
+                        br = reB[j * p + k];
+                        bi = imB[j * p + k];
+                        reB[i * p + k] -= tr * br - ti * bi;
+                        imB[i * p + k] -= tr * bi + ti * br;
+                    }
+                }
+            }
+            tr = reA[i * lda + i];
+            ti = imA[i * lda + i];
+            s = tr * tr + ti * ti;
+            tr = tr / s;
+            ti = -ti / s;
+            for (k = 0;k < p;k++) {
+                br = reB[i * p + k];
+                bi = imB[i * p + k];
+                reB[i * p + k] = br * tr - bi * ti;
+                imB[i * p + k] = br * ti + bi * tr;
+            }
+        }
+    }
+
+    /**
+     * Copies the first r rows of B (m x p) to X (n x p) and sets the remaining
+     * rows of X to zeros.
+     */
+    private _initSolution(r: number, n: number, p: number, b: ArrayLike<number>, x: DataBlock): void {
+        let i: number;
+        for (i = 0;i < r * p;i++) {
+            x[i] = b[i];
+        }
+        for (;i < n * p;i++) {
+            x[i] = 0;
+        }
+    }
+
+    public solveGUTReal(m: number, n: number, p: number, a: ArrayLike<number>, b: ArrayLike<number>, x: DataBlock): void {
+        let r = Math.min(m, n);
+        this._initSolution(r, n, p, b, x);
+        this._ut(r, n, p, a, x);
+    }
+
+    public solveUTReal(m: number, p: number, a: ArrayLike<number>, b: DataBlock): void {
+        this._ut(m, m, p, a, b);
+    }
+
+    public solveUTComplex(m: number, p: number, reA: ArrayLike<number>, imA: ArrayLike<number>,
+                          reB: DataBlock, imB: DataBlock): void {
+        this._cut(m, m, p, reA, imA, reB, imB);
+    }
+
+    public solveGUTComplex(m: number, n: number, p: number, reA: ArrayLike<number>, imA: ArrayLike<number>,
+                           reB: ArrayLike<number>, imB: ArrayLike<number>, reX: DataBlock, imX: DataBlock): void {
+        let r = Math.min(m, n);
+        this._initSolution(r, n, p, reB, reX);
+        this._initSolution(r, n, p, imB, imX);
+        this._cut(r, n, p, reA, imA, reX, imX);
+    }
+
+    public solveGLTReal(m: number, n: number, p: number, a: ArrayLike<number>, b: ArrayLike<number>, x: DataBlock): void {
+        let r = Math.min(m, n);
+        this._initSolution(r, n, p, b, x);
+        this._lt(r, n, p, a, x);
+    }
+
+    public solveLTReal(m: number, p: number, a: ArrayLike<number>, b: DataBlock): void {
+        this._lt(m, m, p, a, b);
+    }
+
+    public solveLTComplex(m: number, p: number, reA: ArrayLike<number>, imA: ArrayLike<number>,
+                          reB: DataBlock, imB: DataBlock): void {
+        this._clt(m, m, p, reA, imA, reB, imB);
+    }
+
+    public solveGLTComplex(m: number, n: number, p: number, reA: ArrayLike<number>, imA: ArrayLike<number>,
+                           reB: ArrayLike<number>, imB: ArrayLike<number>, reX: DataBlock, imX: DataBlock): void {
+        let r = Math.min(m, n);
+        this._initSolution(r, n, p, reB, reX);
+        this._initSolution(r, n, p, imB, imX);
+        this._clt(r, n, p, reA, imA, reX, imX);
+    }
+
+    public solveDiagReal(m: number, p: number, a: ArrayLike<number>, b: DataBlock): void {
+        for (let i = 0;i < m;i++) {
+            let t = a[i * m + i];
+            for (let k = 0;k < p;k++) {
+                b[i * p + k] /= t;
+            }
+        }
+    }
+
+    public solveDiagComplex(m: number, p: number, reA: ArrayLike<number>, imA: ArrayLike<number>,
+                            reB: DataBlock, imB: DataBlock): void {
+        let tr: number, ti: number, br: number, bi: number, s: number;
+        for (let i = 0;i < m;i++) {
+            tr = reA[i * m + i];
+            ti = imA[i * m + i];
+            s = tr * tr + ti * ti;
+            tr = tr / s;
+            ti = -ti / s;
+            for (let k = 0;k < p;k++) {
+                br = reB[i * p + k];
+                bi = imB[i * p + k];
+                reB[i * p + k] = br * tr - bi * ti;
+                imB[i * p + k] = br * ti + bi * tr;
+            }
+        }
+    }
+
+    public solveTridiagReal(n: number, p: number, dl: DataBlock, d: DataBlock, du: DataBlock, b: DataBlock): number {
+        let i: number, k: number;
+        let w: number;
+        // forward elimination
+        for (i = 1;i < n;i++) {
+            if (d[i - 1] === 0) {
+                return i;
+            }
+            w = dl[i - 1] / d[i - 1];
+            d[i] -= w * du[i - 1];
+            for (k = 0;k < p;k++) {
+                b[i * p + k] -= w * b[(i - 1) * p + k];
+            }
+        }
+        if (d[n - 1] === 0) {
+            return n;
+        }
+        // back substitution
+        for (k = 0;k < p;k++) {
+            b[(n - 1) * p + k] /= d[n - 1];
+        }
+        for (i = n - 2;i >= 0;i--) {
+            for (k = 0;k < p;k++) {
+                b[i * p + k] = (b[i * p + k] - du[i] * b[(i + 1) * p + k]) / d[i];
+            }
+        }
+        return 0;
+    }
+
+    public solveTridiagComplex(n: number, p: number, reDl: DataBlock, imDl: DataBlock,
+                               reD: DataBlock, imD: DataBlock, reDu: DataBlock, imDu: DataBlock,
+                               reB: DataBlock, imB: DataBlock): number {
+        let i: number, k: number;
+        let wr: number, wi: number, s: number, tr: number, ti: number, br: number, bi: number;
+        // forward elimination
+        for (i = 1;i < n;i++) {
+            s = reD[i - 1] * reD[i - 1] + imD[i - 1] * imD[i - 1];
+            if (s === 0) {
+                return i;
+            }
+            // w = dl_{i-1} / d_{i-1}
+            wr = (reDl[i - 1] * reD[i - 1] + imDl[i - 1] * imD[i - 1]) / s;
+            wi = (imDl[i - 1] * reD[i - 1] - reDl[i - 1] * imD[i - 1]) / s;
+            reD[i] -= wr * reDu[i - 1] - wi * imDu[i - 1];
+            imD[i] -= wr * imDu[i - 1] + wi * reDu[i - 1];
+            for (k = 0;k < p;k++) {
+                br = reB[(i - 1) * p + k];
+                bi = imB[(i - 1) * p + k];
+                reB[i * p + k] -= wr * br - wi * bi;
+                imB[i * p + k] -= wr * bi + wi * br;
+            }
+        }
+        // back substitution
+        for (i = n - 1;i >= 0;i--) {
+            s = reD[i] * reD[i] + imD[i] * imD[i];
+            if (s === 0) {
+                return n;
+            }
+            // (tr, ti) <- 1 / d_i
+            tr = reD[i] / s;
+            ti = -imD[i] / s;
+            for (k = 0;k < p;k++) {
+                br = reB[i * p + k];
+                bi = imB[i * p + k];
+                if (i < n - 1) {
+                    br -= reDu[i] * reB[(i + 1) * p + k] - imDu[i] * imB[(i + 1) * p + k];
+                    bi -= reDu[i] * imB[(i + 1) * p + k] + imDu[i] * reB[(i + 1) * p + k];
+                }
+                reB[i * p + k] = br * tr - bi * ti;
+                imB[i * p + k] = br * ti + bi * tr;
+            }
+        }
+        return 0;
+    }
+
+    public solveBandedReal(n: number, kl: number, ku: number, p: number, a: DataBlock, b: DataBlock): number {
+        let i: number, j: number, k: number, c: number;
+        let t: number, l: number;
+        for (k = 0;k < n;k++) {
+            let lastRow = Math.min(k + kl, n - 1);
+            // Row interchanges increase the upper bandwidth to kl + ku.
+            let lastCol = Math.min(k + kl + ku, n - 1);
+            // find the pivot
+            let piv = k;
+            t = Math.abs(a[k * n + k]);
+            for (i = k + 1;i <= lastRow;i++) {
+                if (Math.abs(a[i * n + k]) > t) {
+                    t = Math.abs(a[i * n + k]);
+                    piv = i;
+                }
+            }
+            if (t === 0) {
+                return k + 1;
+            }
+            if (piv !== k) {
+                for (j = k;j <= lastCol;j++) {
+                    t = a[k * n + j];
+                    a[k * n + j] = a[piv * n + j];
+                    a[piv * n + j] = t;
+                }
+                for (c = 0;c < p;c++) {
+                    t = b[k * p + c];
+                    b[k * p + c] = b[piv * p + c];
+                    b[piv * p + c] = t;
+                }
+            }
+            // eliminate
+            for (i = k + 1;i <= lastRow;i++) {
+                l = a[i * n + k] / a[k * n + k];
+                if (l !== 0) {
+                    for (j = k + 1;j <= lastCol;j++) {
+                        a[i * n + j] -= l * a[k * n + j];
+                    }
+                    for (c = 0;c < p;c++) {
+                        b[i * p + c] -= l * b[k * p + c];
+                    }
+                }
+            }
+        }
+        // back substitution
+        for (i = n - 1;i >= 0;i--) {
+            let lastCol = Math.min(i + kl + ku, n - 1);
+            for (j = i + 1;j <= lastCol;j++) {
+                t = a[i * n + j];
+                if (t !== 0) {
+                    for (c = 0;c < p;c++) {
+                        b[i * p + c] -= t * b[j * p + c];
+                    }
+                }
+            }
+            t = a[i * n + i];
+            for (c = 0;c < p;c++) {
+                b[i * p + c] /= t;
+            }
+        }
+        return 0;
+    }
+
+    public solveBandedComplex(n: number, kl: number, ku: number, p: number, reA: DataBlock, imA: DataBlock,
+                              reB: DataBlock, imB: DataBlock): number {
+        let i: number, j: number, k: number, c: number;
+        let t: number, s: number, lr: number, li: number, tr: number, ti: number;
+        for (k = 0;k < n;k++) {
+            let lastRow = Math.min(k + kl, n - 1);
+            let lastCol = Math.min(k + kl + ku, n - 1);
+            // find the pivot using |re| + |im|
+            let piv = k;
+            t = Math.abs(reA[k * n + k]) + Math.abs(imA[k * n + k]);
+            for (i = k + 1;i <= lastRow;i++) {
+                s = Math.abs(reA[i * n + k]) + Math.abs(imA[i * n + k]);
+                if (s > t) {
+                    t = s;
+                    piv = i;
+                }
+            }
+            if (t === 0) {
+                return k + 1;
+            }
+            if (piv !== k) {
+                for (j = k;j <= lastCol;j++) {
+                    t = reA[k * n + j];
+                    reA[k * n + j] = reA[piv * n + j];
+                    reA[piv * n + j] = t;
+                    t = imA[k * n + j];
+                    imA[k * n + j] = imA[piv * n + j];
+                    imA[piv * n + j] = t;
+                }
+                for (c = 0;c < p;c++) {
+                    t = reB[k * p + c];
+                    reB[k * p + c] = reB[piv * p + c];
+                    reB[piv * p + c] = t;
+                    t = imB[k * p + c];
+                    imB[k * p + c] = imB[piv * p + c];
+                    imB[piv * p + c] = t;
+                }
+            }
+            // (tr, ti) <- 1 / a_kk
+            tr = reA[k * n + k];
+            ti = imA[k * n + k];
+            s = tr * tr + ti * ti;
+            tr = tr / s;
+            ti = -ti / s;
+            for (i = k + 1;i <= lastRow;i++) {
+                lr = reA[i * n + k] * tr - imA[i * n + k] * ti;
+                li = reA[i * n + k] * ti + imA[i * n + k] * tr;
+                if (lr !== 0 || li !== 0) {
+                    for (j = k + 1;j <= lastCol;j++) {
+                        reA[i * n + j] -= lr * reA[k * n + j] - li * imA[k * n + j];
+                        imA[i * n + j] -= lr * imA[k * n + j] + li * reA[k * n + j];
+                    }
+                    for (c = 0;c < p;c++) {
+                        reB[i * p + c] -= lr * reB[k * p + c] - li * imB[k * p + c];
+                        imB[i * p + c] -= lr * imB[k * p + c] + li * reB[k * p + c];
+                    }
+                }
+            }
+        }
+        // back substitution
+        for (i = n - 1;i >= 0;i--) {
+            let lastCol = Math.min(i + kl + ku, n - 1);
+            for (j = i + 1;j <= lastCol;j++) {
+                lr = reA[i * n + j];
+                li = imA[i * n + j];
+                if (lr !== 0 || li !== 0) {
+                    for (c = 0;c < p;c++) {
+                        reB[i * p + c] -= lr * reB[j * p + c] - li * imB[j * p + c];
+                        imB[i * p + c] -= lr * imB[j * p + c] + li * reB[j * p + c];
+                    }
+                }
+            }
+            tr = reA[i * n + i];
+            ti = imA[i * n + i];
+            s = tr * tr + ti * ti;
+            tr = tr / s;
+            ti = -ti / s;
+            for (c = 0;c < p;c++) {
+                lr = reB[i * p + c];
+                li = imB[i * p + c];
+                reB[i * p + c] = lr * tr - li * ti;
+                imB[i * p + c] = lr * ti + li * tr;
+            }
+        }
+        return 0;
+    }
+
+}
@@ -205,18 +205,14 @@ export class BuiltInLU implements ILUBackend {
      */
     public luSolve(m: number, n: number, reLU: ArrayLike<number>,
                           p: ArrayLike<number>, reB: DataBlock): void {
-        if (n === 1) {
-            this._luSolveColumn(n, reLU, reB);
-        } else {
-            let columnCache: DataBlock = DataHelper.allocateFloat64Array(m);
-            for (let j = 0;j < n;j++) {
-                for (let i = 0;i < m;i++) {
-                    columnCache[i] = reB[p[i] * n + j];
-                }
-                this._luSolveColumn(m, reLU, columnCache);
-                for (let i = 0;i < m;i++) {
-                    reB[i * n + j] = columnCache[i];
-                }
+        let columnCache: DataBlock = DataHelper.allocateFloat64Array(m);
+        for (let j = 0;j < n;j++) {
+            for (let i = 0;i < m;i++) {
+                columnCache[i] = reB[p[i] * n + j];
+            }
+            this._luSolveColumn(m, reLU, columnCache);
+            for (let i = 0;i < m;i++) {
+                reB[i * n + j] = columnCache[i];
             }
         }
     }
@@ -237,21 +233,17 @@ export class BuiltInLU implements ILUBackend {
     public cluSolve(m: number, n: number, reLU: ArrayLike<number>,
                            imLU: ArrayLike<number>, p: ArrayLike<number>,
                            reB: DataBlock, imB: DataBlock): void {
-        if (n === 1) {
-            this._cluSolveColumn(n, reLU, imLU, reB, imB);
-        } else {
-            let columnCacheRe: DataBlock = DataHelper.allocateFloat64Array(m);
-            let columnCacheIm: DataBlock = DataHelper.allocateFloat64Array(m);
-            for (let j = 0;j < n;j++) {
-                for (let i = 0;i < m;i++) {
-                    columnCacheRe[i] = reB[p[i] * n + j];
-                    columnCacheIm[i] = imB[p[i] * n + j];
-                }
-                this._cluSolveColumn(m, reLU, imLU, columnCacheRe, columnCacheIm);
-                for (let i = 0;i < m;i++) {
-                    reB[i * n + j] = columnCacheRe[i];
-                    imB[i * n + j] = columnCacheIm[i];
-                }
+        let columnCacheRe: DataBlock = DataHelper.allocateFloat64Array(m);
+        let columnCacheIm: DataBlock = DataHelper.allocateFloat64Array(m);
+        for (let j = 0;j < n;j++) {
+            for (let i = 0;i < m;i++) {
+                columnCacheRe[i] = reB[p[i] * n + j];
+                columnCacheIm[i] = imB[p[i] * n + j];
+            }
+            this._cluSolveColumn(m, reLU, imLU, columnCacheRe, columnCacheIm);
+            for (let i = 0;i < m;i++) {
+                reB[i * n + j] = columnCacheRe[i];
+                imB[i * n + j] = columnCacheIm[i];
             }
         }
     }
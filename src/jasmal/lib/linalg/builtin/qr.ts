@@ -19,8 +19,11 @@ export class BuiltInQR implements IQRBackend {
      * @param ind (Output) Stores permutation information. ind[i] stores the
      *            index of the column being swapped with the column being worked
      *            on at the i-th step.
+     * @param pivoting (Optional) Whether column pivoting is performed. Default
+     *                 value is true.
      */
-    private _qrInPlace(m: number, n: number, a: DataBlock, d: DataBlock, ind: DataBlock): void {
+    private _qrInPlace(m: number, n: number, a: DataBlock, d: DataBlock, ind: DataBlock,
+                       pivoting: boolean = true): void {
         let i: number, j: number, k: number, r: number, l: number;
         let s: number, t: number, f: number, g: number, h: number;
         let tau = 0;
@@ -43,7 +46,10 @@ export class BuiltInQR implements IQRBackend {
         }
         r = 0;
         
-        while (tau > 0 && r < l) {
+        while ((tau > 0 || !pivoting) && r < l) {
+            if (!pivoting) {
+                k = r;
+            }
             if (k !== r) {
                 // swap columns
                 for (let i = 0;i < m;i++) {
@@ -115,31 +121,43 @@ export class BuiltInQR implements IQRBackend {
         }
     }
 
-    private _qrTransform(m: number, n: number, a: DataBlock, d: ArrayLike<number>, q: DataBlock): void {
+    /**
+     * Accumulates Householder transforms and form matrices Q, R.
+     * @param m 
+     * @param n 
+     * @param a (Input/Output)
+     * @param d (Input)
+     * @param q (Output) Matrix Q with qCols columns. Must be initialized with
+     *          zeros. Not referenced if qCols is zero.
+     * @param qCols Number of columns of Q to be computed (m for the full Q
+     *              and min(m, n) for the economy-size Q).
+     */
+    private _qrTransform(m: number, n: number, a: DataBlock, d: ArrayLike<number>, q: DataBlock,
+                         qCols: number): void {
         let i: number, j: number, k: number;
         let g: number, h: number, s: number;
-        // init q: m x m
-        for (i = 0;i < m;i++) {
-            q[i * m + i] = 1.0;
+        // init q: m x qCols
+        for (i = 0;i < qCols;i++) {
+            q[i * qCols + i] = 1.0;
         }
         // accumulate transforms
         for (i = Math.min(m, n) - 1;i >= 0;i--) {
             g = d[i];
-            if (g) {
+            if (g && qCols > 0) {
                 // (I - \beta vv^T) Q = Q - (\beta v)(v^T [q_1 q_2 ...])
                 // h <- \beta
                 // Note that \beta = 2/v^v = 1/(||a||^2 - a_1 ||a||) = -1/g/a[i,i]
                 h = - 1.0 / g / a[i * n + i];
-                for (j = i;j < m;j++) {
+                for (j = i;j < qCols;j++) {
                     // compute v^T q_j
                     s = 0.0;
                     for (k = i;k < m;k++) {
-                        s += a[k * n + i] * q[k * m + j];
+                        s += a[k * n + i] * q[k * qCols + j];
                     }
                     s *= h;
                     // update q_j <- q_j - \beta v v^T q_j
                     for (k = i;k < m;k++) {
-                        q[k * m + j] -= a[k * n + i] * s;
+                        q[k * qCols + j] -= a[k * n + i] * s;
                     }
                 }
             }
@@ -174,14 +192,22 @@ export class BuiltInQR implements IQRBackend {
      * @param m Number of rows.
      * @param n Number of columns.
      * @param a (Input/Output) Matrix A. Will be overwritten with R.
-     * @param q (Output) Matrix Q. Must be initialized with zeros.
+     * @param q (Output) Matrix Q (m x m, or m x min(m, n) if economy is
+     *          true). Must be initialized with zeros. Set it to [] to skip
+     *          computing Q.
      * @param p (Output) Matrix P. Must be initialized with zeros.
+     * @param pivoting (Optional) Whether column pivoting is performed. If set
+     *                 to false, P will be the identity matrix. Default value
+     *                 is true.
+     * @param economy (Optional) Whether only the first min(m, n) columns of Q
+     *                are computed. Default value is false.
      */
-    public qr(m: number, n: number, a: DataBlock, q: DataBlock, p: DataBlock): void {
+    public qr(m: number, n: number, a: DataBlock, q: DataBlock, p: DataBlock,
+              pivoting: boolean = true, economy: boolean = false): void {
         let d = DataHelper.allocateFloat64Array(Math.min(m, n));
         let ind = DataHelper.allocateInt32Array(n);
-        this._qrInPlace(m, n, a, d, ind);
-        this._qrTransform(m, n, a, d, q);
+        this._qrInPlace(m, n, a, d, ind, pivoting);
+        this._qrTransform(m, n, a, d, q, q.length === 0 ? 0 : (economy ? Math.min(m, n) : m));
         this._ind2p(n, ind, p);
     }
 
@@ -315,9 +341,12 @@ export class BuiltInQR implements IQRBackend {
      * @param ind (Output) Stores permutation information. ind[i] stores the
      *            index of the column being swapped with the column being worked
      *            on at the i-th step.
+     * @param pivoting (Optional) Whether column pivoting is performed. Default
+     *                 value is true.
      */
     private _cqrInPlace(m: number, n: number, ar: DataBlock, ai: DataBlock,
-                       d: DataBlock, phr: DataBlock, phi: DataBlock, ind: DataBlock): void {
+                       d: DataBlock, phr: DataBlock, phi: DataBlock, ind: DataBlock,
+                       pivoting: boolean = true): void {
         let i: number, j: number, k: number, r: number, l: number;
         let s: number, si: number, sr: number, t: number, f: number, g: number, h: number;
         let tau = 0;
@@ -342,7 +371,10 @@ export class BuiltInQR implements IQRBackend {
         }
         r = 0;
         
-        while (tau > 0 && r < l) {
+        while ((tau > 0 || !pivoting) && r < l) {
+            if (!pivoting) {
+                k = r;
+            }
             if (k !== r) {
                 // swap columns
                 for (let i = 0;i < m;i++) {
@@ -445,38 +477,41 @@ export class BuiltInQR implements IQRBackend {
      * @param phi (Input)
      * @param qr (Output) Real part of Q. Must be initialized with zeros.
      * @param qi (Output) Imaginary part of Q. Must be initialized with zeros.
+     * @param qCols Number of columns of Q to be computed (m for the full Q
+     *              and min(m, n) for the economy-size Q). Q is not referenced
+     *              if qCols is zero.
      */
     private _cqrTransform(m: number, n: number, ar: DataBlock, ai: DataBlock,
                           d: ArrayLike<number>, phr: ArrayLike<number>,
-                          phi: ArrayLike<number>, qr: DataBlock, qi: DataBlock): void {
+                          phi: ArrayLike<number>, qr: DataBlock, qi: DataBlock, qCols: number): void {
         let i: number, j: number, k: number;
         let g: number, h: number, si: number, sr: number;
-        // init q: m x m
-        for (i = 0;i < m;i++) {
-            qr[i * m + i] = 1.0;
+        // init q: m x qCols
+        for (i = 0;i < qCols;i++) {
+            qr[i * qCols + i] = 1.0;
         }
         // accumulate transforms
         for (i = Math.min(m, n) - 1;i >= 0;i--) {
             g = d[i];
-            if (g) {
+            if (g && qCols > 0) {
                 // (I - \beta vv^H) Q = Q - (\beta v)(v^H [q_1 q_2 ...])
                 // h <- -\beta
                 // Note that \beta = 2/v^Hv = 1/(||a||^2 + |a_1| ||a||) = 1/g/a[i,i]
                 h = - 1.0 / g / CMath.length2(ar[i * n + i], ai[i * n + i]);
-                for (j = i;j < m;j++) {
+                for (j = i;j < qCols;j++) {
                     // compute v^H q_j
                     sr = 0.0;
                     si = 0.0;
                     for (k = i;k < m;k++) {
-                        sr += ar[k * n + i] * qr[k * m + j] + ai[k * n + i] * qi[k * m + j];
-                        si += ar[k * n + i] * qi[k * m + j] - ai[k * n + i] * qr[k * m + j];
+                        sr += ar[k * n + i] * qr[k * qCols + j] + ai[k * n + i] * qi[k * qCols + j];
+                        si += ar[k * n + i] * qi[k * qCols + j] - ai[k * n + i] * qr[k * qCols + j];
                     }
                     sr *= h;
                     si *= h;
                     // update q_j <- q_j - \beta v v^H q_j
                     for (k = i;k < m;k++) {
-                        qr[k * m + j] += sr * ar[k * n + i] - si * ai[k * n + i];
-                        qi[k * m + j] += sr * ai[k * n + i] + si * ar[k * n + i];
+                        qr[k * qCols + j] += sr * ar[k * n + i] - si * ai[k * n + i];
+                        qi[k * qCols + j] += sr * ai[k * n + i] + si * ar[k * n + i];
                     }
                 }
             }
@@ -500,19 +535,28 @@ export class BuiltInQR implements IQRBackend {
      *                          real part of R.
      * @param ai (Input/Output) Imaginary part of A. Will be overwritten with
      *                          the imaginary part of R.
-     * @param qr (Output) Real part of Q. Must be initialized with zeros.
+     * @param qr (Output) Real part of Q (m x m, or m x min(m, n) if economy
+     *           is true). Must be initialized with zeros. Set it to [] to skip
+     *           computing Q.
      * @param qi (Output) Imaginary part of Q. Must be initialized with zeros.
+     *           Set it to [] to skip computing Q.
      * @param p (Output) Matrix P. Must be initialized with zeros.
+     * @param pivoting (Optional) Whether column pivoting is performed. If set
+     *                 to false, P will be the identity matrix. Default value
+     *                 is true.
+     * @param economy (Optional) Whether only the first min(m, n) columns of Q
+     *                are computed. Default value is false.
      */
     public cqr(m: number, n: number, ar: DataBlock, ai: DataBlock,
-               qr: DataBlock, qi: DataBlock, p: DataBlock): void {
+               qr: DataBlock, qi: DataBlock, p: DataBlock,
+               pivoting: boolean = true, economy: boolean = false): void {
         let l = Math.min(m, n);
         let d = DataHelper.allocateFloat64Array(l);
         let phr = DataHelper.allocateFloat64Array(l);
         let phi = DataHelper.allocateFloat64Array(l);
         let ind = DataHelper.allocateInt32Array(n);
-        this._cqrInPlace(m, n, ar, ai, d, phr, phi, ind);
-        this._cqrTransform(m, n, ar, ai, d, phr, phi, qr, qi);
+        this._cqrInPlace(m, n, ar, ai, d, phr, phi, ind, pivoting);
+        this._cqrTransform(m, n, ar, ai, d, phr, phi, qr, qi, qr.length === 0 ? 0 : (economy ? l : m));
         this._ind2p(n, ind, p);
     }
 
@@ -0,0 +1,378 @@
+import { DataBlock } from '../../commonTypes';
+import { CMath } from '../../math/cmath';
+import { DataHelper } from '../../helper/dataHelper';
+import { EPSILON } from '../../constant';
+import { IQZBackend } from '../backend';
+
+/**
+ * Complex QZ algorithm for the generalized eigenvalue problem.
+ * The implementation follows the single-shift QZ iteration described in
+ * G. H. Golub and C. F. Van Loan, Matrix Computations, Section 7.7, using
+ * complex Givens rotations throughout.
+ */
+export class BuiltInQZ implements IQZBackend {
+
+    /**
+     * Computes a complex Givens rotation G = [c s; -conj(s) c] such that
+     * G [x; y] = [r; 0], where c is real.
+     * @returns [c, re(s), im(s)].
+     */
+    private _givens(xr: number, xi: number, yr: number, yi: number): [number, number, number] {
+        let absX = CMath.length2(xr, xi);
+        let absY = CMath.length2(yr, yi);
+        if (absY === 0) {
+            return [1, 0, 0];
+        }
+        if (absX === 0) {
+            return [0, 1, 0];
+        }
+        let norm = CMath.length2(absX, absY);
+        return [
+            absX / norm,
+            (xr * yr + xi * yi) / (absX * norm),
+            (xi * yr - xr * yi) / (absX * norm)
+        ];
+    }
+
+    /**
+     * Applies the Givens rotation to the p-th and q-th rows of M:
+     *  [M_p; M_q] <- [c s; -conj(s) c] [M_p; M_q]
+     * for columns j0, j0 + 1, ..., j1 - 1.
+     */
+    private _rotateRows(n: number, mr: DataBlock, mi: DataBlock, p: number, q: number,
+                        c: number, sr: number, si: number, j0: number, j1: number): void {
+        let ur: number, ui: number, vr: number, vi: number;
+        for (let j = j0;j < j1;j++) {
+            ur = mr[p * n + j];
+            ui = mi[p * n + j];
+            vr = mr[q * n + j];
+            vi = mi[q * n + j];
+            mr[p * n + j] = c * ur + sr * vr - si * vi;
+            mi[p * n + j] = c * ui + sr * vi + si * vr;
+            mr[q * n + j] = c * vr - sr * ur - si * ui;
+            mi[q * n + j] = c * vi - sr * ui + si * ur;
+        }
+    }
+
+    /**
+     * Applies the Givens rotation to the p-th and q-th columns of M:
+     *  [M_p M_q] <- [M_p M_q] [c -conj(s); s c]
+     * for rows i0, i0 + 1, ..., i1 - 1.
+     */
+    private _rotateCols(n: number, mr: DataBlock, mi: DataBlock, p: number, q: number,
+                        c: number, sr: number, si: number, i0: number, i1: number): void {
+        let ur: number, ui: number, vr: number, vi: number;
+        for (let i = i0;i < i1;i++) {
+            ur = mr[i * n + p];
+            ui = mi[i * n + p];
+            vr = mr[i * n + q];
+            vi = mi[i * n + q];
+            mr[i * n + p] = c * ur + sr * vr - si * vi;
+            mi[i * n + p] = c * ui + sr * vi + si * vr;
+            mr[i * n + q] = c * vr - sr * ur - si * ui;
+            mi[i * n + q] = c * vi - sr * ui + si * ur;
+        }
+    }
+
+    /**
+     * Computes the Frobenius norm of a complex matrix.
+     */
+    private _norm(n: number, mr: ArrayLike<number>, mi: ArrayLike<number>): number {
+        let s = 0;
+        for (let i = 0;i < n * n;i++) {
+            s += mr[i] * mr[i] + mi[i] * mi[i];
+        }
+        return Math.sqrt(s);
+    }
+
+    /**
+     * Reduces (A, B) to the Hessenberg-triangular form with unitary
+     * transformations Q^H (A, B) Z. Z is accumulated if matz is true.
+     */
+    private _hessenbergTriangular(n: number, ar: DataBlock, ai: DataBlock, br: DataBlock, bi: DataBlock,
+                                  matz: boolean, zr: DataBlock, zi: DataBlock): void {
+        let i: number, j: number, c: number, sr: number, si: number;
+        // reduce B to upper triangular form
+        for (j = 0;j < n - 1;j++) {
+            for (i = n - 1;i > j;i--) {
+                [c, sr, si] = this._givens(br[(i - 1) * n + j], bi[(i - 1) * n + j], br[i * n + j], bi[i * n + j]);
+                this._rotateRows(n, br, bi, i - 1, i, c, sr, si, j, n);
+                this._rotateRows(n, ar, ai, i - 1, i, c, sr, si, 0, n);
+                br[i * n + j] = 0;
+                bi[i * n + j] = 0;
+            }
+        }
+        // reduce A to upper Hessenberg form while keeping B upper triangular
+        for (j = 0;j < n - 2;j++) {
+            for (i = n - 1;i > j + 1;i--) {
+                // zero A[i, j]
+                [c, sr, si] = this._givens(ar[(i - 1) * n + j], ai[(i - 1) * n + j], ar[i * n + j], ai[i * n + j]);
+                this._rotateRows(n, ar, ai, i - 1, i, c, sr, si, j, n);
+                this._rotateRows(n, br, bi, i - 1, i, c, sr, si, i - 1, n);
+                ar[i * n + j] = 0;
+                ai[i * n + j] = 0;
+                // zero the fill-in B[i, i - 1]
+                [c, sr, si] = this._givens(br[i * n + i], bi[i * n + i], br[i * n + (i - 1)], bi[i * n + (i - 1)]);
+                this._rotateCols(n, br, bi, i, i - 1, c, sr, si, 0, i + 1);
+                this._rotateCols(n, ar, ai, i, i - 1, c, sr, si, 0, n);
+                if (matz) {
+                    this._rotateCols(n, zr, zi, i, i - 1, c, sr, si, 0, n);
+                }
+                br[i * n + (i - 1)] = 0;
+                bi[i * n + (i - 1)] = 0;
+            }
+        }
+    }
+
+    /**
+     * Computes the shift from the trailing 2x2 block of the active pencil. The
+     * eigenvalue of the 2x2 pencil that is closer to A[k, k] / B[k, k] is
+     * selected.
+     */
+    private _computeShift(n: number, k: number, ar: ArrayLike<number>, ai: ArrayLike<number>,
+                          br: ArrayLike<number>, bi: ArrayLike<number>): [number, number] {
+        let l = k - 1;
+        // det([a11 a12; a21 a22] - lambda [b11 b12; 0 b22]) = 0
+        // => p lambda^2 - q lambda + r = 0
+        let [pr, pi] = CMath.cmul(br[l * n + l], bi[l * n + l], br[k * n + k], bi[k * n + k]);
+        let [t1r, t1i] = CMath.cmul(ar[l * n + l], ai[l * n + l], br[k * n + k], bi[k * n + k]);
+        let [t2r, t2i] = CMath.cmul(ar[k * n + k], ai[k * n + k], br[l * n + l], bi[l * n + l]);
+        let [t3r, t3i] = CMath.cmul(ar[k * n + l], ai[k * n + l], br[l * n + k], bi[l * n + k]);
+        let qr = t1r + t2r - t3r;
+        let qi = t1i + t2i - t3i;
+        [t1r, t1i] = CMath.cmul(ar[l * n + l], ai[l * n + l], ar[k * n + k], ai[k * n + k]);
+        [t2r, t2i] = CMath.cmul(ar[l * n + k], ai[l * n + k], ar[k * n + l], ai[k * n + l]);
+        let rr = t1r - t2r;
+        let ri = t1i - t2i;
+        // lambda = (q +/- sqrt(q^2 - 4pr)) / 2p
+        [t1r, t1i] = CMath.cmul(qr, qi, qr, qi);
+        [t2r, t2i] = CMath.cmul(pr, pi, rr, ri);
+        let [dr, di] = CMath.csqrt(t1r - 4 * t2r, t1i - 4 * t2i);
+        let [l1r, l1i] = CMath.cdivCC(qr + dr, qi + di, 2 * pr, 2 * pi);
+        let [l2r, l2i] = CMath.cdivCC(qr - dr, qi - di, 2 * pr, 2 * pi);
+        let [er, ei] = CMath.cdivCC(ar[k * n + k], ai[k * n + k], br[k * n + k], bi[k * n + k]);
+        return CMath.length2(l1r - er, l1i - ei) <= CMath.length2(l2r - er, l2i - ei)
+            ? [l1r, l1i] : [l2r, l2i];
+    }
+
+    /**
+     * Computes the generalized eigenvalues and (optionally) the right
+     * eigenvectors of the pencil (A, B) using the QZ algorithm.
+     * @param n Dimension of the matrices.
+     * @param ar (Input/Destroyed) Real part of A.
+     * @param ai (Input/Destroyed) Imaginary part of A.
+     * @param br (Input/Destroyed) Real part of B.
+     * @param bi (Input/Destroyed) Imaginary part of B.
+     * @param alphar (Output) Real part of alpha.
+     * @param alphai (Output) Imaginary part of alpha.
+     * @param betar (Output) Real part of beta.
+     * @param betai (Output) Imaginary part of beta.
+     * @param matz Specifies whether the eigenvectors are computed. If set to
+     *             false, zr and zi should be set to [].
+     * @param zr (Output) Real part of the eigenvectors.
+     * @param zi (Output) Imaginary part of the eigenvectors.
+     */
+    public cqz(n: number, ar: DataBlock, ai: DataBlock, br: DataBlock, bi: DataBlock,
+               alphar: DataBlock, alphai: DataBlock, betar: DataBlock, betai: DataBlock,
+               matz: boolean, zr: DataBlock, zi: DataBlock): void
+    {
+        let i: number, j: number, k: number, l: number;
+        let c: number, sr: number, si: number;
+        let xr: number, xi: number;
+        if (matz) {
+            for (i = 0;i < n;i++) {
+                for (j = 0;j < n;j++) {
+                    zr[i * n + j] = 0;
+                    zi[i * n + j] = 0;
+                }
+                zr[i * n + i] = 1;
+            }
+        }
+        this._hessenbergTriangular(n, ar, ai, br, bi, matz, zr, zi);
+        let normA = this._norm(n, ar, ai);
+        let normB = this._norm(n, br, bi);
+        let tolA = EPSILON * normA;
+        let tolB = EPSILON * normB;
+        let ihi = n - 1;
+        let ilo: number;
+        let its = 0;
+        let itn = 30 * n;
+        while (ihi > 0) {
+            // look for a single small sub-diagonal element
+            for (l = ihi;l > 0;l--) {
+                let s = CMath.length2(ar[(l - 1) * n + (l - 1)], ai[(l - 1) * n + (l - 1)])
+                    + CMath.length2(ar[l * n + l], ai[l * n + l]);
+                if (s === 0) {
+                    s = normA;
+                }
+                if (CMath.length2(ar[l * n + (l - 1)], ai[l * n + (l - 1)]) <= EPSILON * s ||
+                    CMath.length2(ar[l * n + (l - 1)], ai[l * n + (l - 1)]) <= tolA) {
+                    ar[l * n + (l - 1)] = 0;
+                    ai[l * n + (l - 1)] = 0;
+                    break;
+                }
+            }
+            ilo = l;
+            if (ilo === ihi) {
+                // a root found
+                ihi--;
+                its = 0;
+                continue;
+            }
+            // look for a negligible diagonal element in B, which corresponds
+            // to an infinite eigenvalue
+            for (j = ihi;j >= ilo;j--) {
+                if (CMath.length2(br[j * n + j], bi[j * n + j]) <= tolB) {
+                    break;
+                }
+            }
+            if (j >= ilo) {
+                br[j * n + j] = 0;
+                bi[j * n + j] = 0;
+                // chase the zero down to B[ihi, ihi]
+                for (k = j;k < ihi;k++) {
+                    [c, sr, si] = this._givens(br[k * n + (k + 1)], bi[k * n + (k + 1)],
+                        br[(k + 1) * n + (k + 1)], bi[(k + 1) * n + (k + 1)]);
+                    this._rotateRows(n, br, bi, k, k + 1, c, sr, si, k + 1, n);
+                    this._rotateRows(n, ar, ai, k, k + 1, c, sr, si, 0, n);
+                    br[(k + 1) * n + (k + 1)] = 0;
+                    bi[(k + 1) * n + (k + 1)] = 0;
+                    if (k > ilo) {
+                        // zero the fill-in A[k + 1, k - 1]
+                        [c, sr, si] = this._givens(ar[(k + 1) * n + k], ai[(k + 1) * n + k],
+                            ar[(k + 1) * n + (k - 1)], ai[(k + 1) * n + (k - 1)]);
+                        this._rotateCols(n, ar, ai, k, k - 1, c, sr, si, 0, n);
+                        this._rotateCols(n, br, bi, k, k - 1, c, sr, si, 0, n);
+                        if (matz) {
+                            this._rotateCols(n, zr, zi, k, k - 1, c, sr, si, 0, n);
+                        }
+                        ar[(k + 1) * n + (k - 1)] = 0;
+                        ai[(k + 1) * n + (k - 1)] = 0;
+                    }
+                }
+                // deflate the infinite eigenvalue by zeroing A[ihi, ihi - 1]
+                [c, sr, si] = this._givens(ar[ihi * n + ihi], ai[ihi * n + ihi],
+                    ar[ihi * n + (ihi - 1)], ai[ihi * n + (ihi - 1)]);
+                this._rotateCols(n, ar, ai, ihi, ihi - 1, c, sr, si, 0, n);
+                this._rotateCols(n, br, bi, ihi, ihi - 1, c, sr, si, 0, n);
+                if (matz) {
+                    this._rotateCols(n, zr, zi, ihi, ihi - 1, c, sr, si, 0, n);
+                }
+                ar[ihi * n + (ihi - 1)] = 0;
+                ai[ihi * n + (ihi - 1)] = 0;
+                continue;
+            }
+            if (itn === 0) {
+                throw new Error('Maximum number of iterations reached.');
+            }
+            its++;
+            itn--;
+            // form shift
+            let shiftR: number, shiftI: number;
+            if (its % 10 === 0) {
+                // exceptional shift
+                [shiftR, shiftI] = CMath.cdivCC(ar[ihi * n + ihi], ai[ihi * n + ihi],
+                    br[ihi * n + ihi], bi[ihi * n + ihi]);
+                shiftR += CMath.length2(ar[ihi * n + (ihi - 1)], ai[ihi * n + (ihi - 1)])
+                    / CMath.length2(br[(ihi - 1) * n + (ihi - 1)], bi[(ihi - 1) * n + (ihi - 1)]);
+            } else {
+                [shiftR, shiftI] = this._computeShift(n, ihi, ar, ai, br, bi);
+            }
+            // the first column of (A B^{-1} - shift I) is proportional to
+            // [A[ilo, ilo] - shift * B[ilo, ilo], A[ilo + 1, ilo]]
+            [xr, xi] = CMath.cmul(shiftR, shiftI, br[ilo * n + ilo], bi[ilo * n + ilo]);
+            [c, sr, si] = this._givens(ar[ilo * n + ilo] - xr, ai[ilo * n + ilo] - xi,
+                ar[(ilo + 1) * n + ilo], ai[(ilo + 1) * n + ilo]);
+            this._rotateRows(n, ar, ai, ilo, ilo + 1, c, sr, si, 0, n);
+            this._rotateRows(n, br, bi, ilo, ilo + 1, c, sr, si, 0, n);
+            // chase the bulge
+            for (k = ilo;k < ihi;k++) {
+                // zero B[k + 1, k]
+                [c, sr, si] = this._givens(br[(k + 1) * n + (k + 1)], bi[(k + 1) * n + (k + 1)],
+                    br[(k + 1) * n + k], bi[(k + 1) * n + k]);
+                this._rotateCols(n, br, bi, k + 1, k, c, sr, si, 0, n);
+                this._rotateCols(n, ar, ai, k + 1, k, c, sr, si, 0, n);
+                if (matz) {
+                    this._rotateCols(n, zr, zi, k + 1, k, c, sr, si, 0, n);
+                }
+                br[(k + 1) * n + k] = 0;
+                bi[(k + 1) * n + k] = 0;
+                if (k + 2 <= ihi) {
+                    // zero A[k + 2, k]
+                    [c, sr, si] = this._givens(ar[(k + 1) * n + k], ai[(k + 1) * n + k],
+                        ar[(k + 2) * n + k], ai[(k + 2) * n + k]);
+                    this._rotateRows(n, ar, ai, k + 1, k + 2, c, sr, si, 0, n);
+                    this._rotateRows(n, br, bi, k + 1, k + 2, c, sr, si, 0, n);
+                    ar[(k + 2) * n + k] = 0;
+                    ai[(k + 2) * n + k] = 0;
+                }
+            }
+        }
+        for (i = 0;i < n;i++) {
+            alphar[i] = ar[i * n + i];
+            alphai[i] = ai[i * n + i];
+            betar[i] = br[i * n + i];
+            betai[i] = bi[i * n + i];
+        }
+        if (!matz) {
+            return;
+        }
+        // back substitute to find the eigenvectors of the triangular pencil,
+        // i.e., solve (beta_k A - alpha_k B) y = 0 with y_k = 1
+        let yr = DataHelper.allocateFloat64Array(n);
+        let yi = DataHelper.allocateFloat64Array(n);
+        let vr = DataHelper.allocateFloat64Array(n);
+        let vi = DataHelper.allocateFloat64Array(n);
+        let small = EPSILON * Math.max(normA, normB);
+        if (small === 0) {
+            small = EPSILON;
+        }
+        let mr: number, mi: number, tr: number, ti: number, ur: number, ui: number;
+        for (k = n - 1;k >= 0;k--) {
+            for (i = 0;i < n;i++) {
+                yr[i] = 0;
+                yi[i] = 0;
+            }
+            yr[k] = 1;
+            for (i = k - 1;i >= 0;i--) {
+                // sum_{j = i + 1}^k M[i, j] y[j], where M = beta_k A - alpha_k B
+                xr = 0;
+                xi = 0;
+                for (j = i + 1;j <= k;j++) {
+                    [tr, ti] = CMath.cmul(betar[k], betai[k], ar[i * n + j], ai[i * n + j]);
+                    [ur, ui] = CMath.cmul(alphar[k], alphai[k], br[i * n + j], bi[i * n + j]);
+                    mr = tr - ur;
+                    mi = ti - ui;
+                    xr += mr * yr[j] - mi * yi[j];
+                    xi += mr * yi[j] + mi * yr[j];
+                }
+                [tr, ti] = CMath.cmul(betar[k], betai[k], ar[i * n + i], ai[i * n + i]);
+                [ur, ui] = CMath.cmul(alphar[k], alphai[k], br[i * n + i], bi[i * n + i]);
+                mr = tr - ur;
+                mi = ti - ui;
+                if (CMath.length2(mr, mi) < small) {
+                    // repeated eigenvalues, perturb the diagonal element
+                    mr = small;
+                    mi = 0;
+                }
+                [yr[i], yi[i]] = CMath.cdivCC(-xr, -xi, mr, mi);
+            }
+            // back transform the eigenvector: v <- Z y
+            for (i = 0;i < n;i++) {
+                vr[i] = 0;
+                vi[i] = 0;
+                for (j = 0;j <= k;j++) {
+                    vr[i] += zr[i * n + j] * yr[j] - zi[i * n + j] * yi[j];
+                    vi[i] += zr[i * n + j] * yi[j] + zi[i * n + j] * yr[j];
+                }
+            }
+            // columns j > k of Z have been replaced with eigenvectors and the
+            // k-th column is no longer needed
+            for (i = 0;i < n;i++) {
+                zr[i * n + k] = vr[i];
+                zi[i * n + k] = vi[i];
+            }
+        }
+    }
+
+}
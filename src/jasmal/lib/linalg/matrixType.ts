@@ -13,5 +13,21 @@ export const enum MatrixType {
     /**
      * Represents a lower triangular matrix.
      */
-    LowerTriangular
+    LowerTriangular,
+    /**
+     * Represents a diagonal matrix.
+     */
+    Diagonal,
+    /**
+     * Represents a tridiagonal matrix.
+     */
+    Tridiagonal,
+    /**
+     * Represents a banded matrix.
+     */
+    Banded,
+    /**
+     * Represents a Hermitian (symmetric if real) positive definite matrix.
+     */
+    HermitianPositiveDefinite
 }
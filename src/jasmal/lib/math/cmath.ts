@@ -27,6 +27,17 @@ export class CMath {
         }
     }
 
+    /**
+     * Evaluates complex multiplication x*y.
+     * @param reX Re(x)
+     * @param imX Im(x)
+     * @param reY Re(y)
+     * @param imY Im(y)
+     */
+    public static cmul(reX: number, imX: number, reY: number, imY: number): [number, number] {
+        return [reX * reY - imX * imY, reX * imY + imX * reY];
+    }
+
     /**
      * Evaluates complex division x/y without overflow. This is based on
      * the cdiv function in EISPACK (http://www.netlib.no/netlib/eispack/3090vf/double/cdiv.f)
@@ -1,4 +1,5 @@
-import { LOGE2 } from '../constant';
+import { LOGE2, EPSILON } from '../constant';
+import { CMath } from './cmath';
 
 export class FactorialTable {
 
@@ -439,4 +440,1427 @@ export class SpecialFunction {
         return SpecialFunction.calerf(x, 2);
     }
 
+    /**
+     * Computes log(1 + x) accurately for small x.
+     * @param x
+     */
+    public static log1p(x: number): number {
+        let u = 1 + x;
+        return u === 1 ? x : Math.log(u) * x / (u - 1);
+    }
+
+    /**
+     * Computes exp(x) - 1 accurately for small x.
+     * @param x
+     */
+    public static expm1(x: number): number {
+        let u = Math.exp(x);
+        if (u === 1 || u === Infinity) {
+            return u === 1 ? x : u;
+        }
+        if (u - 1 === -1) {
+            return -1;
+        }
+        return (u - 1) * x / Math.log(u);
+    }
+
+    /**
+     * Computes sin(pi x) with exact zeros at integers.
+     * @param x
+     */
+    private static _sinpi(x: number): number {
+        let r = x % 2;
+        if (r === 0 || r === 1 || r === -1) {
+            return 0;
+        }
+        if (r === 0.5 || r === -1.5) {
+            return 1;
+        }
+        if (r === -0.5 || r === 1.5) {
+            return -1;
+        }
+        return Math.sin(Math.PI * r);
+    }
+
+    /**
+     * Computes cos(pi x) with exact zeros at half integers.
+     * @param x
+     */
+    private static _cospi(x: number): number {
+        let r = Math.abs(x % 2);
+        if (r === 0.5 || r === 1.5) {
+            return 0;
+        }
+        if (r === 0 || r === 1) {
+            return r === 0 ? 1 : -1;
+        }
+        return Math.cos(Math.PI * r);
+    }
+
+    /**
+     * Coefficients of the Stirling series of log(gamma(x)), i.e.,
+     * B_{2k} / (2k (2k - 1)) for k = 1, 2, ..., 8.
+     */
+    private static readonly STIRLING_COEFFS = [
+        1/12, -1/360, 1/1260, -1/1680, 1/1188, -691/360360, 1/156, -3617/122400
+    ];
+
+    /**
+     * Computes log(gamma(x)) - ((x - 0.5) log(x) - x + 0.5 log(2 pi)) using
+     * the Stirling series. Accurate for x >= 10.
+     * @param x
+     */
+    private static _lgammaCorrection(x: number): number {
+        const C = SpecialFunction.STIRLING_COEFFS;
+        let x2 = 1 / (x * x);
+        let s = C[C.length - 1];
+        for (let k = C.length - 2;k >= 0;k--) {
+            s = s * x2 + C[k];
+        }
+        return s / x;
+    }
+
+    /**
+     * Computes the principal branch of log(gamma(z)) for a complex z. The
+     * result is analytic everywhere except the non-positive real axis, where
+     * the limit from above is used.
+     * @param re Re(z)
+     * @param im Im(z)
+     * @returns [Re(log(gamma(z))), Im(log(gamma(z)))]
+     */
+    public static cgammaln(re: number, im: number): [number, number] {
+        if (isNaN(re) || isNaN(im)) {
+            return [NaN, NaN];
+        }
+        if (im === 0 && re <= 0 && Math.floor(re) === re) {
+            return [Infinity, 0];
+        }
+        if (re < -50) {
+            // Reflection formula with branch correction:
+            // log(gamma(z)) = log(pi) - log(sin(pi z)) - log(gamma(1 - z))
+            //                 + 2 pi i floor(Re(z) / 2 + 1 / 4)
+            let r = re % 2;
+            let [sr, si] = CMath.csin(Math.PI * r, Math.PI * im);
+            let [lsr, lsi] = CMath.clog(sr, si);
+            let [lgr, lgi] = SpecialFunction.cgammaln(1 - re, -im);
+            let k = (im > 0 || (im === 0 && 1 / im > 0) ? 2 : -2) * Math.PI * Math.floor(0.5 * re + 0.25);
+            return [Math.log(Math.PI) - lsr - lgr, k - lsi - lgi];
+        }
+        // log(gamma(z)) = log(gamma(z + n)) - sum_{k=0}^{n-1} log(z + k)
+        let sumRe = 0, sumIm = 0;
+        let wr = re, wi = im;
+        while (wr < 0 || CMath.length2(wr, wi) < 15) {
+            let [lr, li] = CMath.clog(wr, wi);
+            sumRe += lr;
+            sumIm += li;
+            wr += 1;
+        }
+        // Stirling series
+        const C = SpecialFunction.STIRLING_COEFFS;
+        let [lr, li] = CMath.clog(wr, wi);
+        let [ar, ai] = CMath.cmul(wr - 0.5, wi, lr, li);
+        let [ir, ii] = CMath.cReciprocal(wr, wi);
+        let [i2r, i2i] = CMath.cmul(ir, ii, ir, ii);
+        let cr = C[C.length - 1], ci = 0;
+        for (let k = C.length - 2;k >= 0;k--) {
+            [cr, ci] = CMath.cmul(cr, ci, i2r, i2i);
+            cr += C[k];
+        }
+        [cr, ci] = CMath.cmul(cr, ci, ir, ii);
+        return [
+            ar - wr + 0.9189385332046727417803297 + cr - sumRe,
+            ai - wi + ci - sumIm
+        ];
+    }
+
+    /**
+     * Gamma function for a complex z.
+     * @param re Re(z)
+     * @param im Im(z)
+     * @returns [Re(gamma(z)), Im(gamma(z))]
+     */
+    public static cgamma(re: number, im: number): [number, number] {
+        if (im === 0) {
+            return [SpecialFunction.gamma(re), 0];
+        }
+        let [lr, li] = SpecialFunction.cgammaln(re, im);
+        return CMath.cexp(lr, li);
+    }
+
+    /**
+     * Digamma function (the logarithmic derivative of the gamma function).
+     * @param x
+     */
+    public static digamma(x: number): number {
+        if (isNaN(x) || x === -Infinity) {
+            return NaN;
+        }
+        if (x === Infinity) {
+            return Infinity;
+        }
+        if (x <= 0 && Math.floor(x) === x) {
+            return x === 0 ? -Infinity : NaN;
+        }
+        let res = 0;
+        if (x < 0) {
+            // psi(x) = psi(1 - x) - pi cot(pi x)
+            res = -Math.PI * SpecialFunction._cospi(x) / SpecialFunction._sinpi(x);
+            x = 1 - x;
+        }
+        while (x < 10) {
+            res -= 1 / x;
+            x += 1;
+        }
+        // psi(x) ~ log(x) - 1/(2x) - sum_k B_{2k} / (2k x^{2k})
+        const C = [1/12, -1/120, 1/252, -1/240, 1/132, -691/32760, 1/12];
+        let x2 = 1 / (x * x);
+        let s = C[C.length - 1];
+        for (let k = C.length - 2;k >= 0;k--) {
+            s = s * x2 + C[k];
+        }
+        return res + Math.log(x) - 0.5 / x - s * x2;
+    }
+
+    /**
+     * Coefficients d_0, ..., d_n used in Borwein's algorithm.
+     */
+    private static _zetaCoeffs: number[] | undefined;
+
+    /**
+     * Riemann zeta function for a real s.
+     *
+     * For s >= 0, Borwein's algorithm (P. Borwein, 'An Efficient Algorithm
+     * for the Riemann Zeta Function', 1991) is used. For s < 0, the
+     * functional equation is used.
+     * @param s
+     */
+    public static zeta(s: number): number {
+        if (isNaN(s) || s === -Infinity) {
+            return NaN;
+        }
+        if (s === 1) {
+            return Infinity;
+        }
+        if (s === Infinity) {
+            return 1;
+        }
+        if (s < 0) {
+            if (s % 2 === 0) {
+                // trivial zeros
+                return 0;
+            }
+            // zeta(s) = 2 (2 pi)^(s-1) sin(pi s / 2) gamma(1 - s) zeta(1 - s)
+            return SpecialFunction._sinpi(0.5 * s) *
+                Math.exp(LOGE2 + (s - 1) * Math.log(2 * Math.PI) + SpecialFunction.gammaln(1 - s)) *
+                SpecialFunction.zeta(1 - s);
+        }
+        let d = SpecialFunction._zetaCoeffs;
+        if (d == undefined) {
+            const N = 24;
+            d = new Array(N + 1);
+            let t = 1 / N, acc = t;
+            d[0] = 1;
+            for (let i = 1;i <= N;i++) {
+                t *= 4 * (N + i - 1) * (N - i + 1) / ((2 * i) * (2 * i - 1));
+                acc += t;
+                d[i] = N * acc;
+            }
+            SpecialFunction._zetaCoeffs = d;
+        }
+        let n = d.length - 1;
+        let sum = 0;
+        for (let k = 0;k < n;k++) {
+            sum += (k % 2 === 0 ? 1 : -1) * (d[k] - d[n]) / Math.pow(k + 1, s);
+        }
+        // zeta(s) = -sum / (d_n (1 - 2^(1-s)))
+        return sum / (d[n] * SpecialFunction.expm1((1 - s) * LOGE2));
+    }
+
+    /**
+     * Exponential integral E1(x) = int_x^Inf exp(-t)/t dt for a nonnegative
+     * x.
+     * @param x
+     */
+    public static expint(x: number): number {
+        if (isNaN(x) || x < 0) {
+            return NaN;
+        }
+        if (x === 0) {
+            return Infinity;
+        }
+        const maxIter = 1000;
+        let i: number;
+        if (x <= 1) {
+            // E1(x) = -gamma - log(x) - sum_{k>=1} (-x)^k / (k k!)
+            let t = 1, s = 0;
+            for (i = 1;i <= maxIter;i++) {
+                t *= -x / i;
+                s += t / i;
+                if (Math.abs(t / i) < Math.abs(s) * EPSILON) {
+                    break;
+                }
+            }
+            return -0.5772156649015328606065121 - Math.log(x) - s;
+        }
+        if (x === Infinity) {
+            return 0;
+        }
+        // continued fraction evaluated with the modified Lentz's method
+        const tiny = 1e-300;
+        let b = x + 1, c = 1 / tiny, d = 1 / b, h = d;
+        for (i = 1;i <= maxIter;i++) {
+            let an = -i * i;
+            b += 2;
+            d = 1 / (an * d + b);
+            c = b + an / c;
+            let del = c * d;
+            h *= del;
+            if (Math.abs(del - 1) < EPSILON) {
+                break;
+            }
+        }
+        return h * Math.exp(-x);
+    }
+
+    /**
+     * Exponential integral Ei(x) = -PV int_{-x}^Inf exp(-t)/t dt for a real
+     * x. For x < 0, Ei(x) = -E1(-x).
+     * @param x
+     */
+    public static expintei(x: number): number {
+        if (isNaN(x)) {
+            return NaN;
+        }
+        if (x <= 0) {
+            return x === 0 ? -Infinity : -SpecialFunction.expint(-x);
+        }
+        let i: number, t: number;
+        if (x <= 40) {
+            // Ei(x) = gamma + log(x) + sum_{k>=1} x^k / (k k!)
+            let s = 0;
+            t = 1;
+            for (i = 1;i <= 1000;i++) {
+                t *= x / i;
+                s += t / i;
+                if (t / i < s * EPSILON) {
+                    break;
+                }
+            }
+            return 0.5772156649015328606065121 + Math.log(x) + s;
+        }
+        // asymptotic expansion: Ei(x) ~ exp(x)/x sum_k k!/x^k
+        let s = 1;
+        t = 1;
+        for (i = 1;i < x;i++) {
+            t *= i / x;
+            s += t;
+            if (t < s * EPSILON) {
+                break;
+            }
+        }
+        return Math.exp(x) / x * s;
+    }
+
+    /**
+     * Rational approximation of the inverse error function from M. Giles,
+     * 'Approximating the erfinv function', GPU Computing Gems, 2011. Only
+     * used as the starting point of Halley's iterations.
+     * @param y
+     * @param w -log((1 - y)(1 + y))
+     */
+    private static _erfinvGuess(y: number, w: number): number {
+        let p: number;
+        if (w < 5) {
+            w -= 2.5;
+            p = 2.81022636e-08;
+            p = 3.43273939e-07 + p * w;
+            p = -3.5233877e-06 + p * w;
+            p = -4.39150654e-06 + p * w;
+            p = 0.00021858087 + p * w;
+            p = -0.00125372503 + p * w;
+            p = -0.00417768164 + p * w;
+            p = 0.246640727 + p * w;
+            p = 1.50140941 + p * w;
+        } else {
+            w = Math.sqrt(w) - 3;
+            p = -0.000200214257;
+            p = 0.000100950558 + p * w;
+            p = 0.00134934322 + p * w;
+            p = -0.00367342844 + p * w;
+            p = 0.00573950773 + p * w;
+            p = -0.0076224613 + p * w;
+            p = 0.00943887047 + p * w;
+            p = 1.00167406 + p * w;
+            p = 2.83297682 + p * w;
+        }
+        return p * y;
+    }
+
+    /**
+     * Inverse error function.
+     * @param y
+     */
+    public static erfinv(y: number): number {
+        if (isNaN(y) || y < -1 || y > 1) {
+            return NaN;
+        }
+        if (y === 1 || y === -1) {
+            return y * Infinity;
+        }
+        if (Math.abs(y) > 0.5) {
+            let x = SpecialFunction.erfcinv(1 - Math.abs(y));
+            return y < 0 ? -x : x;
+        }
+        let x = SpecialFunction._erfinvGuess(y, -Math.log((1 - y) * (1 + y)));
+        // Halley's method
+        for (let i = 0;i < 10;i++) {
+            let u = (SpecialFunction.erf(x) - y) * 0.88622692545275801364 * Math.exp(x * x);
+            let dx = u / (1 + x * u);
+            x -= dx;
+            if (Math.abs(dx) <= Math.abs(x) * EPSILON) {
+                break;
+            }
+        }
+        return x;
+    }
+
+    /**
+     * Inverse complementary error function.
+     * @param y
+     */
+    public static erfcinv(y: number): number {
+        if (isNaN(y) || y < 0 || y > 2) {
+            return NaN;
+        }
+        if (y === 0 || y === 2) {
+            return y === 0 ? Infinity : -Infinity;
+        }
+        if (y > 1) {
+            return -SpecialFunction.erfcinv(2 - y);
+        }
+        if (y >= 0.5) {
+            return SpecialFunction.erfinv(1 - y);
+        }
+        let w = -Math.log(y * (2 - y));
+        let x: number;
+        if (w < 16) {
+            x = SpecialFunction._erfinvGuess(1 - y, w);
+        } else {
+            // The rational approximation is designed for single precision
+            // and should not be used for very small y.
+            // erfc(x) ~ exp(-x^2) / (x sqrt(pi))
+            let l = -Math.log(y * 1.7724538509055160273);
+            x = Math.sqrt(l - 0.5 * Math.log(l));
+        }
+        // Halley's method (exp(x^2) erfc(x) is evaluated with erfcx to avoid
+        // underflow)
+        let ly = Math.log(y);
+        for (let i = 0;i < 20;i++) {
+            let u = -0.88622692545275801364 * (SpecialFunction.erfcx(x) - Math.exp(x * x + ly));
+            let dx = u / (1 + x * u);
+            x -= dx;
+            if (Math.abs(dx) <= Math.abs(x) * EPSILON) {
+                break;
+            }
+        }
+        return x;
+    }
+
+    /**
+     * Regularized incomplete gamma function. The lower one is defined by
+     * P(x, a) = 1/gamma(a) int_0^x t^(a-1) exp(-t) dt, and the upper one is
+     * defined by Q(x, a) = 1 - P(x, a).
+     *
+     * Reference: W. H. Press, et al., Numerical Recipes, 3rd ed., 2007,
+     *            Section 6.2.
+     * @param x
+     * @param a
+     * @param upper (Optional) If true, Q(x, a) will be computed. Default value
+     *              is false.
+     */
+    public static gammainc(x: number, a: number, upper: boolean = false): number {
+        if (isNaN(x) || isNaN(a)) {
+            return NaN;
+        }
+        if (x < 0 || a < 0) {
+            throw new Error('Both x and a must be nonnegative.');
+        }
+        if (a === 0 || x === Infinity) {
+            return upper ? 0 : 1;
+        }
+        if (x === 0) {
+            return upper ? 1 : 0;
+        }
+        if (a === Infinity) {
+            return upper ? 1 : 0;
+        }
+        const maxIter = 100000;
+        let i: number;
+        let pf = Math.exp(a * Math.log(x) - x - SpecialFunction.gammaln(a));
+        if (x < a + 1) {
+            // series representation
+            let ap = a, del = 1 / a, sum = del;
+            for (i = 0;i < maxIter;i++) {
+                ap++;
+                del *= x / ap;
+                sum += del;
+                if (Math.abs(del) < Math.abs(sum) * EPSILON) {
+                    break;
+                }
+            }
+            let p = sum * pf;
+            return upper ? 1 - p : p;
+        } else {
+            // continued fraction
+            const tiny = 1e-300;
+            let b = x + 1 - a, c = 1 / tiny, d = 1 / b, h = d;
+            for (i = 1;i <= maxIter;i++) {
+                let an = -i * (i - a);
+                b += 2;
+                d = an * d + b;
+                if (Math.abs(d) < tiny) {
+                    d = tiny;
+                }
+                c = b + an / c;
+                if (Math.abs(c) < tiny) {
+                    c = tiny;
+                }
+                d = 1 / d;
+                let del = d * c;
+                h *= del;
+                if (Math.abs(del - 1) < EPSILON) {
+                    break;
+                }
+            }
+            let q = h * pf;
+            return upper ? q : 1 - q;
+        }
+    }
+
+    /**
+     * Inverse of the regularized incomplete gamma function with respect to x.
+     *
+     * Reference: W. H. Press, et al., Numerical Recipes, 3rd ed., 2007,
+     *            Section 6.2.1.
+     * @param y
+     * @param a
+     * @param upper (Optional) If true, the inverse of Q(x, a) will be computed.
+     *              Default value is false.
+     */
+    public static gammaincinv(y: number, a: number, upper: boolean = false): number {
+        if (isNaN(y) || isNaN(a)) {
+            return NaN;
+        }
+        if (y < 0 || y > 1) {
+            throw new Error('y must be within [0, 1].');
+        }
+        if (a < 0) {
+            throw new Error('a must be nonnegative.');
+        }
+        // p = P(x, a), q = Q(x, a)
+        let p = upper ? 1 - y : y;
+        let q = upper ? y : 1 - y;
+        if (a === 0 || p === 0) {
+            return 0;
+        }
+        if (q === 0) {
+            return Infinity;
+        }
+        let a1 = a - 1;
+        let gln = SpecialFunction.gammaln(a);
+        let lna1 = 0, afac = 0, x: number, t: number;
+        // initial guess
+        if (a > 1) {
+            lna1 = Math.log(a1);
+            afac = Math.exp(a1 * (lna1 - 1) - gln);
+            t = Math.sqrt(-2 * Math.log(p < 0.5 ? p : q));
+            x = (2.30753 + t * 0.27061) / (1 + t * (0.99229 + t * 0.04481)) - t;
+            if (p < 0.5) {
+                x = -x;
+            }
+            x = Math.max(1e-3, a * Math.pow(1 - 1 / (9 * a) - x / (3 * Math.sqrt(a)), 3));
+        } else {
+            t = 1 - a * (0.253 + a * 0.12);
+            x = p < t ? Math.pow(p / t, 1 / a) : 1 - Math.log(q / (1 - t));
+        }
+        // Improves the initial guess in the tails so that the derivative
+        // below does not underflow, using P(x, a) ~ x^a exp(-x) / gamma(a+1)
+        // for small x and Q(x, a) ~ x^(a-1) exp(-x) / gamma(a) for large x.
+        let xt = 0;
+        if (p < 1e-3) {
+            for (let i = 0;i < 5;i++) {
+                xt = Math.exp((Math.log(p) + SpecialFunction.gammaln(a + 1) + xt) / a);
+            }
+            if (xt < a) {
+                x = xt;
+            }
+        } else if (q < 1e-3) {
+            xt = Math.max(a, 1);
+            for (let i = 0;i < 5;i++) {
+                xt = -Math.log(q) - gln + a1 * Math.log(xt);
+            }
+            if (xt > a + 1) {
+                x = xt;
+            }
+        }
+        // Halley's method
+        for (let i = 0;i < 100;i++) {
+            if (x <= 0) {
+                return 0;
+            }
+            let err = upper ? q - SpecialFunction.gammainc(x, a, true) : SpecialFunction.gammainc(x, a) - p;
+            // derivative of P(x, a)
+            t = a > 1
+                ? afac * Math.exp(-(x - a1) + a1 * (Math.log(x) - lna1))
+                : Math.exp(-x + a1 * Math.log(x) - gln);
+            if (t === 0) {
+                break;
+            }
+            let u = err / t;
+            t = u / (1 - 0.5 * Math.min(1, u * (a1 / x - 1)));
+            x -= t;
+            if (x <= 0) {
+                x = 0.5 * (x + t);
+            }
+            if (Math.abs(t) < 1e-15 * x) {
+                break;
+            }
+        }
+        return x;
+    }
+
+    /**
+     * Evaluates the continued fraction for the regularized incomplete beta
+     * function using the modified Lentz's method.
+     */
+    private static _betacf(x: number, a: number, b: number): number {
+        const maxIter = 100000;
+        const tiny = 1e-300;
+        let qab = a + b, qap = a + 1, qam = a - 1;
+        let c = 1, d = 1 - qab * x / qap;
+        if (Math.abs(d) < tiny) {
+            d = tiny;
+        }
+        d = 1 / d;
+        let h = d;
+        for (let m = 1;m <= maxIter;m++) {
+            let m2 = 2 * m;
+            let aa = m * (b - m) * x / ((qam + m2) * (a + m2));
+            d = 1 + aa * d;
+            if (Math.abs(d) < tiny) {
+                d = tiny;
+            }
+            c = 1 + aa / c;
+            if (Math.abs(c) < tiny) {
+                c = tiny;
+            }
+            d = 1 / d;
+            h *= d * c;
+            aa = -(a + m) * (qab + m) * x / ((a + m2) * (qap + m2));
+            d = 1 + aa * d;
+            if (Math.abs(d) < tiny) {
+                d = tiny;
+            }
+            c = 1 + aa / c;
+            if (Math.abs(c) < tiny) {
+                c = tiny;
+            }
+            d = 1 / d;
+            let del = d * c;
+            h *= del;
+            if (Math.abs(del - 1) < EPSILON) {
+                break;
+            }
+        }
+        return h;
+    }
+
+    /**
+     * Regularized incomplete beta function. The lower one is defined by
+     * I(x, a, b) = 1/beta(a, b) int_0^x t^(a-1) (1-t)^(b-1) dt, and the upper
+     * one is defined by 1 - I(x, a, b).
+     *
+     * Reference: W. H. Press, et al., Numerical Recipes, 3rd ed., 2007,
+     *            Section 6.4.
+     * @param x
+     * @param a
+     * @param b
+     * @param upper (Optional) If true, 1 - I(x, a, b) will be computed.
+     *              Default value is false.
+     */
+    public static betainc(x: number, a: number, b: number, upper: boolean = false): number {
+        if (isNaN(x) || isNaN(a) || isNaN(b)) {
+            return NaN;
+        }
+        if (x < 0 || x > 1) {
+            throw new Error('x must be within [0, 1].');
+        }
+        if (a < 0 || b < 0) {
+            throw new Error('Both a and b must be nonnegative.');
+        }
+        let p: number;
+        if (a === 0 && b === 0) {
+            p = NaN;
+        } else if (a === 0 || x === 1) {
+            p = 1;
+        } else if (b === 0 || x === 0) {
+            p = 0;
+        } else {
+            let bt = Math.exp(SpecialFunction.betaln(a, b) * -1 + a * Math.log(x) + b * SpecialFunction.log1p(-x));
+            if (x < (a + 1) / (a + b + 2)) {
+                p = bt * SpecialFunction._betacf(x, a, b) / a;
+                return upper ? 1 - p : p;
+            } else {
+                // use the symmetry relation I(x, a, b) = 1 - I(1 - x, b, a)
+                let q = bt * SpecialFunction._betacf(1 - x, b, a) / b;
+                return upper ? q : 1 - q;
+            }
+        }
+        return upper ? 1 - p : p;
+    }
+
+    /**
+     * Inverse of the regularized incomplete beta function with respect to x.
+     *
+     * Reference: W. H. Press, et al., Numerical Recipes, 3rd ed., 2007,
+     *            Section 6.4.1.
+     * @param y
+     * @param a
+     * @param b
+     * @param upper (Optional) If true, the inverse of 1 - I(x, a, b) will be
+     *              computed. Default value is false.
+     */
+    public static betaincinv(y: number, a: number, b: number, upper: boolean = false): number {
+        if (isNaN(y) || isNaN(a) || isNaN(b)) {
+            return NaN;
+        }
+        if (y < 0 || y > 1) {
+            throw new Error('y must be within [0, 1].');
+        }
+        if (a < 0 || b < 0) {
+            throw new Error('Both a and b must be nonnegative.');
+        }
+        let p = upper ? 1 - y : y;
+        let q = upper ? y : 1 - y;
+        if (p === 0 || b === 0) {
+            return 0;
+        }
+        if (q === 0 || a === 0) {
+            return 1;
+        }
+        let a1 = a - 1, b1 = b - 1;
+        let x: number, t: number, u: number;
+        // initial guess
+        if (a >= 1 && b >= 1) {
+            t = Math.sqrt(-2 * Math.log(p < 0.5 ? p : q));
+            x = (2.30753 + t * 0.27061) / (1 + t * (0.99229 + t * 0.04481)) - t;
+            if (p < 0.5) {
+                x = -x;
+            }
+            let al = (x * x - 3) / 6;
+            let h = 2 / (1 / (2 * a - 1) + 1 / (2 * b - 1));
+            let w = (x * Math.sqrt(al + h) / h) - (1 / (2 * b - 1) - 1 / (2 * a - 1)) * (al + 5 / 6 - 2 / (3 * h));
+            x = a / (a + b * Math.exp(2 * w));
+        } else {
+            let lna = Math.log(a / (a + b)), lnb = Math.log(b / (a + b));
+            t = Math.exp(a * lna) / a;
+            u = Math.exp(b * lnb) / b;
+            let w = t + u;
+            x = p < t / w ? Math.pow(a * w * p, 1 / a) : 1 - Math.pow(b * w * q, 1 / b);
+        }
+        let afac = -SpecialFunction.betaln(a, b);
+        // Improves the initial guess in the tails using
+        // I(x, a, b) ~ x^a / (a beta(a, b)) for small x.
+        if (p < 1e-3) {
+            t = Math.exp((Math.log(p) + Math.log(a) - afac) / a);
+            if (t < a / (a + b)) {
+                x = t;
+            }
+        } else if (q < 1e-3) {
+            t = Math.exp((Math.log(q) + Math.log(b) - afac) / b);
+            if (t < b / (a + b)) {
+                x = 1 - t;
+            }
+        }
+        // Halley's method
+        for (let i = 0;i < 100;i++) {
+            if (x === 0 || x === 1) {
+                return x;
+            }
+            let err = upper
+                ? q - SpecialFunction.betainc(x, a, b, true)
+                : SpecialFunction.betainc(x, a, b) - p;
+            // derivative of I(x, a, b)
+            t = Math.exp(a1 * Math.log(x) + b1 * SpecialFunction.log1p(-x) + afac);
+            if (t === 0) {
+                break;
+            }
+            u = err / t;
+            t = u / (1 - 0.5 * Math.min(1, u * (a1 / x - b1 / (1 - x))));
+            x -= t;
+            if (x <= 0) {
+                x = 0.5 * (x + t);
+            }
+            if (x >= 1) {
+                x = 0.5 * (x + t + 1);
+            }
+            if (Math.abs(t) < 1e-15 * x && i > 0) {
+                break;
+            }
+        }
+        return x;
+    }
+
+    /**
+     * Beta function for nonnegative a and b.
+     * @param a
+     * @param b
+     */
+    public static beta(a: number, b: number): number {
+        if (isNaN(a) || isNaN(b)) {
+            return NaN;
+        }
+        if (a < 0 || b < 0) {
+            throw new Error('Both a and b must be nonnegative.');
+        }
+        if (a + b < 171) {
+            return SpecialFunction.gamma(a) * (SpecialFunction.gamma(b) / SpecialFunction.gamma(a + b));
+        }
+        return Math.exp(SpecialFunction.betaln(a, b));
+    }
+
+    /**
+     * Logarithm of the beta function for nonnegative a and b.
+     * @param a
+     * @param b
+     */
+    public static betaln(a: number, b: number): number {
+        if (isNaN(a) || isNaN(b)) {
+            return NaN;
+        }
+        if (a < 0 || b < 0) {
+            throw new Error('Both a and b must be nonnegative.');
+        }
+        let p = Math.min(a, b), q = Math.max(a, b);
+        if (p >= 10) {
+            // Avoids the cancellation in log(gamma(a)) + log(gamma(b)) -
+            // log(gamma(a+b)) by working with the corrections of the
+            // Stirling's approximation.
+            let corr = SpecialFunction._lgammaCorrection(p) + SpecialFunction._lgammaCorrection(q) -
+                SpecialFunction._lgammaCorrection(p + q);
+            return -0.5 * Math.log(q) + 0.9189385332046727417803297 + corr +
+                (p - 0.5) * Math.log(p / (p + q)) + q * SpecialFunction.log1p(-p / (p + q));
+        }
+        if (q >= 10) {
+            let corr = SpecialFunction._lgammaCorrection(q) - SpecialFunction._lgammaCorrection(p + q);
+            return SpecialFunction.gammaln(p) + corr + p - p * Math.log(p + q) +
+                (q - 0.5) * SpecialFunction.log1p(-p / (p + q));
+        }
+        return SpecialFunction.gammaln(a) + SpecialFunction.gammaln(b) - SpecialFunction.gammaln(a + b);
+    }
+
+    /**
+     * Taylor series coefficients of 1/gamma(1 + x) at x = 0.
+     */
+    private static readonly RGAMMA_COEFFS = [
+        1.0, 0.57721566490153286, -0.65587807152025388, -0.042002635034095236,
+        0.16653861138229149, -0.042197734555544337, -0.0096219715278769736,
+        0.0072189432466630995, -0.0011651675918590651, -0.00021524167411495097,
+        0.00012805028238811619, -2.0134854780788239e-5, -1.2504934821426707e-6,
+        1.1330272319816959e-6, -2.0563384169776071e-7, 6.1160951044814158e-9,
+        5.0020076444692229e-9, -1.1812745704870201e-9, 1.0434267116911005e-10,
+        7.7822634399050713e-12, -3.6968056186422057e-12, 5.100370287454476e-13
+    ];
+
+    /**
+     * Computes sinh(z)/z for a complex z.
+     */
+    private static _csinhc(re: number, im: number): [number, number] {
+        if (CMath.length2(re, im) >= 0.5) {
+            let [sr, si] = CMath.csinh(re, im);
+            return CMath.cdivCC(sr, si, re, im);
+        }
+        // sum_k z^{2k} / (2k + 1)!
+        let [z2r, z2i] = CMath.cmul(re, im, re, im);
+        let tr = 1, ti = 0, sr = 1, si = 0;
+        for (let k = 1;k < 20;k++) {
+            let f = 1 / ((2 * k) * (2 * k + 1));
+            [tr, ti] = CMath.cmul(tr, ti, z2r * f, z2i * f);
+            sr += tr;
+            si += ti;
+            if (CMath.length2(tr, ti) < EPSILON * CMath.length2(sr, si)) {
+                break;
+            }
+        }
+        return [sr, si];
+    }
+
+    /**
+     * Computes K_mu(z) and K_{mu+1}(z) for |mu| <= 1/2 and 0 < |z| <= 2 using
+     * Temme's series.
+     *
+     * Reference: N. M. Temme, 'On the numerical evaluation of the modified
+     *            Bessel function of the third kind', J. Comput. Phys. 19,
+     *            1975, pp. 324-337.
+     * @returns [Re(K_mu), Im(K_mu), Re(K_{mu+1}), Im(K_{mu+1})]
+     */
+    private static _besselKTemme(mu: number, zr: number, zi: number): [number, number, number, number] {
+        const C = SpecialFunction.RGAMMA_COEFFS;
+        // gam1 = (1/gamma(1-mu) - 1/gamma(1+mu)) / (2 mu)
+        // gam2 = (1/gamma(1-mu) + 1/gamma(1+mu)) / 2
+        let gam1 = 0, gam2 = 0, mu2 = mu * mu, m = 1;
+        for (let k = 0;k < C.length;k += 2) {
+            gam2 += C[k] * m;
+            if (k + 1 < C.length) {
+                gam1 -= C[k + 1] * m;
+            }
+            m *= mu2;
+        }
+        let gampl = gam2 - mu * gam1, gammi = gam2 + mu * gam1;
+        let x2r = 0.5 * zr, x2i = 0.5 * zi;
+        let pimu = Math.PI * mu;
+        let fact = Math.abs(pimu) < EPSILON ? 1 : pimu / Math.sin(pimu);
+        let [dr, di] = CMath.clog(x2r, x2i);
+        dr = -dr;
+        di = -di;
+        let er = mu * dr, ei = mu * di;
+        let [f2r, f2i] = SpecialFunction._csinhc(er, ei);
+        let [chr, chi] = CMath.ccosh(er, ei);
+        let [tr, ti] = CMath.cmul(f2r, f2i, dr, di);
+        let ffr = fact * (gam1 * chr + gam2 * tr),
+            ffi = fact * (gam1 * chi + gam2 * ti);
+        let [eer, eei] = CMath.cexp(er, ei);
+        let pr = 0.5 * eer / gampl, pim = 0.5 * eei / gampl;
+        let [qr, qi] = CMath.cReciprocal(eer, eei);
+        qr *= 0.5 / gammi;
+        qi *= 0.5 / gammi;
+        let sumr = ffr, sumi = ffi, sum1r = pr, sum1i = pim;
+        let cr = 1, ci = 0;
+        let [ddr, ddi] = CMath.cmul(x2r, x2i, x2r, x2i);
+        for (let i = 1;i <= 10000;i++) {
+            let den = i * i - mu2;
+            ffr = (i * ffr + pr + qr) / den;
+            ffi = (i * ffi + pim + qi) / den;
+            [cr, ci] = CMath.cmul(cr, ci, ddr / i, ddi / i);
+            pr /= i - mu;
+            pim /= i - mu;
+            qr /= i + mu;
+            qi /= i + mu;
+            let [delr, deli] = CMath.cmul(cr, ci, ffr, ffi);
+            sumr += delr;
+            sumi += deli;
+            let [del1r, del1i] = CMath.cmul(cr, ci, pr - i * ffr, pim - i * ffi);
+            sum1r += del1r;
+            sum1i += del1i;
+            if (CMath.length2(delr, deli) < CMath.length2(sumr, sumi) * EPSILON) {
+                break;
+            }
+        }
+        let [k1r, k1i] = CMath.cdivCC(2 * sum1r, 2 * sum1i, zr, zi);
+        return [sumr, sumi, k1r, k1i];
+    }
+
+    /**
+     * Computes K_mu(z) and K_{mu+1}(z) for |mu| <= 1/2, Re(z) >= 0 and
+     * |z| > 2 using Steed's method (the continued fraction CF2).
+     *
+     * Reference: I. J. Thompson and A. R. Barnett, 'Modified Bessel functions
+     *            I_nu(z) and K_nu(z) of real order and complex argument, to
+     *            selected accuracy', Comput. Phys. Commun. 47, 1987,
+     *            pp. 245-257.
+     * @returns [Re(K_mu), Im(K_mu), Re(K_{mu+1}), Im(K_{mu+1})]
+     */
+    private static _besselKSteed(mu: number, zr: number, zi: number): [number, number, number, number] {
+        let br = 2 * (1 + zr), bi = 2 * zi;
+        let [dr, di] = CMath.cReciprocal(br, bi);
+        let hr = dr, hi = di, delhr = dr, delhi = di;
+        let q1r = 0, q1i = 0, q2r = 1, q2i = 0;
+        let a1 = 0.25 - mu * mu;
+        let qr = a1, qi = 0, c = a1, a = -a1;
+        let sr = 1 + qr * delhr, si = qr * delhi;
+        for (let i = 2;i <= 10000;i++) {
+            a -= 2 * (i - 1);
+            c = -a * c / i;
+            let [t1r, t1i] = CMath.cmul(br, bi, q2r, q2i);
+            let qnr = (q1r - t1r) / a, qni = (q1i - t1i) / a;
+            q1r = q2r;
+            q1i = q2i;
+            q2r = qnr;
+            q2i = qni;
+            qr += c * qnr;
+            qi += c * qni;
+            br += 2;
+            [dr, di] = CMath.cReciprocal(br + a * dr, bi + a * di);
+            let [t2r, t2i] = CMath.cmul(br, bi, dr, di);
+            [delhr, delhi] = CMath.cmul(t2r - 1, t2i, delhr, delhi);
+            hr += delhr;
+            hi += delhi;
+            let [dsr, dsi] = CMath.cmul(qr, qi, delhr, delhi);
+            sr += dsr;
+            si += dsi;
+            if (CMath.length2(dsr, dsi) < CMath.length2(sr, si) * EPSILON) {
+                break;
+            }
+        }
+        hr *= a1;
+        hi *= a1;
+        // K_mu = sqrt(pi/(2z)) exp(-z) / s
+        let [t3r, t3i] = CMath.cdivRC(Math.PI, 2 * zr, 2 * zi);
+        [t3r, t3i] = CMath.csqrt(t3r, t3i);
+        let [er, ei] = CMath.cexp(-zr, -zi);
+        [t3r, t3i] = CMath.cmul(t3r, t3i, er, ei);
+        let [kr, ki] = CMath.cdivCC(t3r, t3i, sr, si);
+        // K_{mu+1} = K_mu (mu + z + 1/2 - h) / z
+        let [k1r, k1i] = CMath.cmul(kr, ki, mu + zr + 0.5 - hr, zi - hi);
+        [k1r, k1i] = CMath.cdivCC(k1r, k1i, zr, zi);
+        return [kr, ki, k1r, k1i];
+    }
+
+    /**
+     * Computes K_nu(z) and K_{nu+1}(z) for nu >= 0, Re(z) >= 0 and z != 0.
+     * @returns [Re(K_nu), Im(K_nu), Re(K_{nu+1}), Im(K_{nu+1})]
+     */
+    private static _besselK(nu: number, zr: number, zi: number): [number, number, number, number] {
+        let nl = Math.floor(nu + 0.5);
+        let mu = nu - nl;
+        let [k0r, k0i, k1r, k1i] = CMath.length2(zr, zi) <= 2
+            ? SpecialFunction._besselKTemme(mu, zr, zi)
+            : SpecialFunction._besselKSteed(mu, zr, zi);
+        // forward recurrence K_{mu+i+1} = K_{mu+i-1} + 2(mu+i)/z K_{mu+i},
+        // which is stable for K
+        for (let i = 1;i <= nl;i++) {
+            let [tr, ti] = CMath.cdivCC(2 * (mu + i) * k1r, 2 * (mu + i) * k1i, zr, zi);
+            let k2r = k0r + tr, k2i = k0i + ti;
+            k0r = k1r;
+            k0i = k1i;
+            k1r = k2r;
+            k1i = k2i;
+            if (!isFinite(k1r) || !isFinite(k1i)) {
+                if (i < nl) {
+                    return [Infinity, 0, Infinity, 0];
+                }
+                k1r = Infinity;
+                k1i = 0;
+            }
+        }
+        return [k0r, k0i, k1r, k1i];
+    }
+
+    /**
+     * Computes I_nu(z) for nu >= 0, Re(z) >= 0 and z != 0.
+     * @returns [Re(I_nu), Im(I_nu)]
+     */
+    private static _besselI(nu: number, zr: number, zi: number): [number, number] {
+        let absZ = CMath.length2(zr, zi);
+        let k: number, tr: number, ti: number;
+        if (0.25 * absZ * absZ <= nu + 1) {
+            // power series
+            // I_nu(z) = (z/2)^nu sum_k (z^2/4)^k / (k! gamma(nu + k + 1))
+            let [lr, li] = CMath.clog(0.5 * zr, 0.5 * zi);
+            let [pr, pi] = CMath.cexp(nu * lr - SpecialFunction.gammaln(nu + 1), nu * li);
+            let [wr, wi] = CMath.cmul(0.5 * zr, 0.5 * zi, 0.5 * zr, 0.5 * zi);
+            let sr = 1, si = 0;
+            tr = 1;
+            ti = 0;
+            for (k = 1;k <= 1000;k++) {
+                let f = 1 / (k * (nu + k));
+                [tr, ti] = CMath.cmul(tr, ti, wr * f, wi * f);
+                sr += tr;
+                si += ti;
+                if (CMath.length2(tr, ti) < EPSILON * CMath.length2(sr, si)) {
+                    break;
+                }
+            }
+            return CMath.cmul(pr, pi, sr, si);
+        }
+        if (zr > 709.78) {
+            return [Infinity, 0];
+        }
+        if (absZ > Math.max(25, nu * nu)) {
+            // Hankel's asymptotic expansion
+            // I_nu(z) ~ exp(z)/sqrt(2 pi z) sum_k (-1)^k a_k(nu) / z^k
+            //           +/- i exp(+/- i nu pi) exp(-z)/sqrt(2 pi z) sum_k a_k(nu) / z^k
+            let s = zi >= 0 ? 1 : -1;
+            let [ir, ii] = CMath.cReciprocal(zr, zi);
+            let mu4 = 4 * nu * nu;
+            let s1r = 1, s1i = 0, s2r = 1, s2i = 0;
+            let lastAbs = Infinity;
+            tr = 1;
+            ti = 0;
+            for (k = 1;k <= 100;k++) {
+                let f = (mu4 - (2 * k - 1) * (2 * k - 1)) / (8 * k);
+                [tr, ti] = CMath.cmul(tr, ti, ir * f, ii * f);
+                let a = CMath.length2(tr, ti);
+                if (a > lastAbs) {
+                    break;
+                }
+                lastAbs = a;
+                s1r += (k % 2 === 0 ? 1 : -1) * tr;
+                s1i += (k % 2 === 0 ? 1 : -1) * ti;
+                s2r += tr;
+                s2i += ti;
+                if (a < EPSILON * Math.min(CMath.length2(s1r, s1i), CMath.length2(s2r, s2i))) {
+                    break;
+                }
+            }
+            let [qr, qi] = CMath.csqrt(2 * Math.PI * zr, 2 * Math.PI * zi);
+            let [e1r, e1i] = CMath.cexp(zr, zi);
+            let [e2r, e2i] = CMath.cexp(-zr, -zi);
+            [e1r, e1i] = CMath.cmul(e1r, e1i, s1r, s1i);
+            [e2r, e2i] = CMath.cmul(e2r, e2i, s2r, s2i);
+            // s i exp(s i nu pi) = -sin(nu pi) + s i cos(nu pi)
+            [e2r, e2i] = CMath.cmul(e2r, e2i, -SpecialFunction._sinpi(nu), s * SpecialFunction._cospi(nu));
+            return CMath.cdivCC(e1r + e2r, e1i + e2i, qr, qi);
+        }
+        // Evaluates I_{nu+1}/I_nu with the continued fraction CF1 using the
+        // modified Lentz's method. I_nu is then obtained from the Wronskian
+        // I_nu K_{nu+1} + I_{nu+1} K_nu = 1/z.
+        const tiny = 1e-300;
+        let [ir, ii] = CMath.cReciprocal(zr, zi);
+        let fr = tiny, fi = 0, cr = tiny, ci = 0, dr = 0, di = 0;
+        for (k = 1;k <= 100000;k++) {
+            let br = 2 * (nu + k) * ir, bi = 2 * (nu + k) * ii;
+            dr += br;
+            di += bi;
+            if (dr === 0 && di === 0) {
+                dr = tiny;
+            }
+            [dr, di] = CMath.cReciprocal(dr, di);
+            [tr, ti] = CMath.cReciprocal(cr, ci);
+            cr = br + tr;
+            ci = bi + ti;
+            if (cr === 0 && ci === 0) {
+                cr = tiny;
+            }
+            let [delr, deli] = CMath.cmul(cr, ci, dr, di);
+            [fr, fi] = CMath.cmul(fr, fi, delr, deli);
+            if (CMath.length2(delr - 1, deli) < EPSILON) {
+                break;
+            }
+        }
+        let [k0r, k0i, k1r, k1i] = SpecialFunction._besselK(nu, zr, zi);
+        [tr, ti] = CMath.cmul(fr, fi, k0r, k0i);
+        [tr, ti] = CMath.cmul(zr, zi, k1r + tr, k1i + ti);
+        return CMath.cReciprocal(tr, ti);
+    }
+
+    /**
+     * Modified Bessel function of the first kind I_nu(z) of a real order nu
+     * for a complex argument z.
+     * @param nu Order.
+     * @param reZ Re(z)
+     * @param imZ Im(z)
+     * @returns [Re(I_nu(z)), Im(I_nu(z))]
+     */
+    public static besseli(nu: number, reZ: number, imZ: number): [number, number] {
+        if (isNaN(nu) || isNaN(reZ) || isNaN(imZ)) {
+            return [NaN, NaN];
+        }
+        if (nu < 0 && Math.floor(nu) !== nu) {
+            // I_{-nu}(z) = I_nu(z) + 2/pi sin(nu pi) K_nu(z)
+            let [ir, ii] = SpecialFunction.besseli(-nu, reZ, imZ);
+            let [kr, ki] = SpecialFunction.besselk(-nu, reZ, imZ);
+            let s = 2 / Math.PI * SpecialFunction._sinpi(-nu);
+            return [ir + s * kr, ii + s * ki];
+        }
+        nu = Math.abs(nu);
+        if (reZ === 0 && imZ === 0) {
+            return [nu === 0 ? 1 : 0, 0];
+        }
+        if (reZ >= 0) {
+            return SpecialFunction._besselI(nu, reZ, imZ);
+        }
+        // I_nu(w exp(+/- i pi)) = exp(+/- i nu pi) I_nu(w)
+        let [ir, ii] = SpecialFunction._besselI(nu, -reZ, -imZ);
+        if (imZ === 0) {
+            ii = 0;
+        }
+        let c = SpecialFunction._cospi(nu), s = (imZ >= 0 ? 1 : -1) * SpecialFunction._sinpi(nu);
+        return [c * ir - s * ii, c * ii + s * ir];
+    }
+
+    /**
+     * Modified Bessel function of the second kind K_nu(z) of a real order nu
+     * for a complex argument z.
+     * @param nu Order.
+     * @param reZ Re(z)
+     * @param imZ Im(z)
+     * @returns [Re(K_nu(z)), Im(K_nu(z))]
+     */
+    public static besselk(nu: number, reZ: number, imZ: number): [number, number] {
+        if (isNaN(nu) || isNaN(reZ) || isNaN(imZ)) {
+            return [NaN, NaN];
+        }
+        // K_{-nu}(z) = K_nu(z)
+        nu = Math.abs(nu);
+        if (reZ === 0 && imZ === 0) {
+            return [Infinity, 0];
+        }
+        let kr: number, ki: number;
+        if (reZ >= 0) {
+            [kr, ki] = SpecialFunction._besselK(nu, reZ, imZ);
+            return [kr, ki];
+        }
+        // K_nu(w exp(+/- i pi)) = exp(-/+ i nu pi) K_nu(w) -/+ i pi I_nu(w)
+        let m = imZ >= 0 ? 1 : -1;
+        [kr, ki] = SpecialFunction._besselK(nu, -reZ, -imZ);
+        let [ir, ii] = SpecialFunction._besselI(nu, -reZ, -imZ);
+        if (imZ === 0) {
+            ki = 0;
+            ii = 0;
+        }
+        let c = SpecialFunction._cospi(nu), s = -m * SpecialFunction._sinpi(nu);
+        return [c * kr - s * ki + m * Math.PI * ii, c * ki + s * kr - m * Math.PI * ir];
+    }
+
+    /**
+     * Bessel function of the first kind J_nu(z) of a real order nu for a
+     * complex argument z.
+     * @param nu Order.
+     * @param reZ Re(z)
+     * @param imZ Im(z)
+     * @returns [Re(J_nu(z)), Im(J_nu(z))]
+     */
+    public static besselj(nu: number, reZ: number, imZ: number): [number, number] {
+        if (isNaN(nu) || isNaN(reZ) || isNaN(imZ)) {
+            return [NaN, NaN];
+        }
+        let c: number, s: number;
+        if (nu < 0) {
+            let [jr, ji] = SpecialFunction.besselj(-nu, reZ, imZ);
+            c = SpecialFunction._cospi(nu);
+            if (Math.floor(nu) === nu) {
+                // J_{-n}(z) = (-1)^n J_n(z)
+                return [c * jr, c * ji];
+            }
+            // J_{-nu}(z) = cos(nu pi) J_nu(z) - sin(nu pi) Y_nu(z)
+            let [yr, yi] = SpecialFunction.bessely(-nu, reZ, imZ);
+            s = SpecialFunction._sinpi(-nu);
+            return [c * jr - s * yr, c * ji - s * yi];
+        }
+        if (reZ === 0 && imZ === 0) {
+            return [nu === 0 ? 1 : 0, 0];
+        }
+        if (imZ === 0 && reZ < 0) {
+            // J_nu(x exp(i pi)) = exp(i nu pi) J_nu(x)
+            let jr = SpecialFunction.besselj(nu, -reZ, 0)[0];
+            return [SpecialFunction._cospi(nu) * jr, SpecialFunction._sinpi(nu) * jr];
+        }
+        // J_nu(z) = exp(+/- i nu pi / 2) I_nu(-/+ i z)
+        let ir: number, ii: number;
+        c = SpecialFunction._cospi(0.5 * nu);
+        s = SpecialFunction._sinpi(0.5 * nu);
+        if (imZ >= 0) {
+            [ir, ii] = SpecialFunction._besselI(nu, imZ, -reZ);
+        } else {
+            [ir, ii] = SpecialFunction._besselI(nu, -imZ, reZ);
+            s = -s;
+        }
+        return [c * ir - s * ii, imZ === 0 ? 0 : c * ii + s * ir];
+    }
+
+    /**
+     * Bessel function of the second kind Y_nu(z) of a real order nu for a
+     * complex argument z.
+     * @param nu Order.
+     * @param reZ Re(z)
+     * @param imZ Im(z)
+     * @returns [Re(Y_nu(z)), Im(Y_nu(z))]
+     */
+    public static bessely(nu: number, reZ: number, imZ: number): [number, number] {
+        if (isNaN(nu) || isNaN(reZ) || isNaN(imZ)) {
+            return [NaN, NaN];
+        }
+        let c: number, s: number;
+        if (nu < 0) {
+            let [yr, yi] = SpecialFunction.bessely(-nu, reZ, imZ);
+            c = SpecialFunction._cospi(nu);
+            if (Math.floor(nu) === nu) {
+                // Y_{-n}(z) = (-1)^n Y_n(z)
+                return [c * yr, c * yi];
+            }
+            // Y_{-nu}(z) = sin(nu pi) J_nu(z) + cos(nu pi) Y_nu(z)
+            let [jr, ji] = SpecialFunction.besselj(-nu, reZ, imZ);
+            s = SpecialFunction._sinpi(-nu);
+            return [s * jr + c * yr, s * ji + c * yi];
+        }
+        if (reZ === 0 && imZ === 0) {
+            return [-Infinity, 0];
+        }
+        c = SpecialFunction._cospi(nu);
+        s = SpecialFunction._sinpi(nu);
+        if (imZ === 0 && reZ < 0) {
+            // Y_nu(x exp(i pi)) = exp(-i nu pi) Y_nu(x) + 2i cos(nu pi) J_nu(x)
+            let yr = SpecialFunction.bessely(nu, -reZ, 0)[0];
+            let jr = SpecialFunction.besselj(nu, -reZ, 0)[0];
+            return [c * yr, -s * yr + 2 * c * jr];
+        }
+        // Y_nu(z) = i (J_nu(z) - H1_nu(z)) = i (H2_nu(z) - J_nu(z)), where the
+        // Hankel functions are obtained from
+        //   H1_nu(z) = -2i/pi exp(-i nu pi / 2) K_nu(-i z),
+        //   H2_nu(z) = 2i/pi exp(i nu pi / 2) K_nu(i z).
+        let m = imZ >= 0 ? 1 : -1;
+        let wr = m * imZ, wi = -m * reZ;
+        let [ir, ii] = SpecialFunction._besselI(nu, wr, wi);
+        let [kr, ki] = SpecialFunction._besselK(nu, wr, wi);
+        c = SpecialFunction._cospi(0.5 * nu);
+        s = m * SpecialFunction._sinpi(0.5 * nu);
+        // J = exp(m i nu pi / 2) I
+        let jr = c * ir - s * ii, ji = c * ii + s * ir;
+        // H = -m 2i/pi exp(-m i nu pi / 2) K
+        let t = 2 / Math.PI;
+        let hr = c * kr + s * ki, hi = c * ki - s * kr;
+        [hr, hi] = [m * t * hi, -m * t * hr];
+        // Y = m i (J - H)
+        return [-m * (ji - hi), imZ === 0 ? 0 : m * (jr - hr)];
+    }
+
+    /**
+     * Airy functions for a complex argument z.
+     * @param k 0 - Ai(z), 1 - Ai'(z), 2 - Bi(z), 3 - Bi'(z).
+     * @param reZ Re(z)
+     * @param imZ Im(z)
+     * @returns [Re(f(z)), Im(f(z))]
+     */
+    public static airy(k: number, reZ: number, imZ: number): [number, number] {
+        if (k !== 0 && k !== 1 && k !== 2 && k !== 3) {
+            throw new Error('k must be 0, 1, 2, or 3.');
+        }
+        if (isNaN(reZ) || isNaN(imZ)) {
+            return [NaN, NaN];
+        }
+        const SQRT3 = 1.7320508075688772935;
+        let tr: number, ti: number;
+        if (CMath.length2(reZ, imZ) <= 1) {
+            // Maclaurin series:
+            //   Ai(z) = c1 f(z) - c2 g(z), Bi(z) = sqrt(3) (c1 f(z) + c2 g(z)),
+            // where c1 = Ai(0) and c2 = -Ai'(0).
+            const C1 = 0.35502805388781723926, C2 = 0.25881940379280679840;
+            let [z3r, z3i] = CMath.cmul(reZ, imZ, reZ, imZ);
+            [z3r, z3i] = CMath.cmul(z3r, z3i, reZ, imZ);
+            let fr: number, fi: number, gr: number, gi: number, ur: number, ui: number;
+            if (k === 0 || k === 2) {
+                // f(z) = sum_j z^{3j} / (2 3 5 6 ... (3j-1) 3j)
+                // g(z) = sum_j z^{3j+1} / (3 4 6 7 ... 3j (3j+1))
+                fr = 1;
+                fi = 0;
+                gr = reZ;
+                gi = imZ;
+                tr = 1;
+                ti = 0;
+                ur = reZ;
+                ui = imZ;
+                for (let j = 1;j <= 100;j++) {
+                    [tr, ti] = CMath.cmul(tr, ti, z3r / ((3 * j - 1) * 3 * j), z3i / ((3 * j - 1) * 3 * j));
+                    [ur, ui] = CMath.cmul(ur, ui, z3r / (3 * j * (3 * j + 1)), z3i / (3 * j * (3 * j + 1)));
+                    fr += tr;
+                    fi += ti;
+                    gr += ur;
+                    gi += ui;
+                    if (CMath.length2(tr, ti) + CMath.length2(ur, ui) < EPSILON * 1e-2) {
+                        break;
+                    }
+                }
+            } else {
+                // derivatives of f(z) and g(z)
+                let [z2r, z2i] = CMath.cmul(reZ, imZ, reZ, imZ);
+                fr = 0.5 * z2r;
+                fi = 0.5 * z2i;
+                gr = 1;
+                gi = 0;
+                tr = fr;
+                ti = fi;
+                ur = 1;
+                ui = 0;
+                for (let j = 2;j <= 100;j++) {
+                    [tr, ti] = CMath.cmul(tr, ti, z3r / ((3 * j - 3) * (3 * j - 1)), z3i / ((3 * j - 3) * (3 * j - 1)));
+                    [ur, ui] = CMath.cmul(ur, ui, z3r / ((3 * j - 5) * (3 * j - 3)), z3i / ((3 * j - 5) * (3 * j - 3)));
+                    fr += tr;
+                    fi += ti;
+                    gr += ur;
+                    gi += ui;
+                    if (CMath.length2(tr, ti) + CMath.length2(ur, ui) < EPSILON * 1e-2) {
+                        break;
+                    }
+                }
+            }
+            if (k < 2) {
+                return [C1 * fr - C2 * gr, C1 * fi - C2 * gi];
+            } else {
+                return [SQRT3 * (C1 * fr + C2 * gr), SQRT3 * (C1 * fi + C2 * gi)];
+            }
+        }
+        let nu = (k === 0 || k === 2) ? 1 / 3 : 2 / 3;
+        let fr: number, fi: number;
+        if (reZ >= 0) {
+            // zeta = 2/3 z^(3/2)
+            let [sr, si] = CMath.csqrt(reZ, imZ);
+            let [zetar, zetai] = CMath.cmul(reZ, imZ, sr, si);
+            zetar *= 2 / 3;
+            zetai *= 2 / 3;
+            let [kr, ki] = SpecialFunction.besselk(nu, zetar, zetai);
+            if (k === 0 || k === 1) {
+                // Ai(z) = 1/pi sqrt(z/3) K_{1/3}(zeta)
+                // Ai'(z) = -z/(pi sqrt(3)) K_{2/3}(zeta)
+                [tr, ti] = k === 0
+                    ? [sr / (Math.PI * SQRT3), si / (Math.PI * SQRT3)]
+                    : [-reZ / (Math.PI * SQRT3), -imZ / (Math.PI * SQRT3)];
+                [fr, fi] = [kr, ki];
+            } else {
+                // Bi(z) = sqrt(z/3) (I_{-1/3}(zeta) + I_{1/3}(zeta))
+                // Bi'(z) = z/sqrt(3) (I_{-2/3}(zeta) + I_{2/3}(zeta))
+                // where I_{-nu} + I_nu = 2 I_nu + sqrt(3)/pi K_nu for
+                // nu = 1/3, 2/3.
+                [tr, ti] = k === 2 ? [sr / SQRT3, si / SQRT3] : [reZ / SQRT3, imZ / SQRT3];
+                let [ir, ii] = SpecialFunction.besseli(nu, zetar, zetai);
+                fr = 2 * ir + SQRT3 / Math.PI * kr;
+                fi = 2 * ii + SQRT3 / Math.PI * ki;
+            }
+        } else {
+            // Use the connection formulas with w = -z:
+            //   Ai(-w) = sqrt(w)/3 (J_{1/3}(zeta) + J_{-1/3}(zeta))
+            //   Ai'(-w) = w/3 (J_{2/3}(zeta) - J_{-2/3}(zeta))
+            //   Bi(-w) = sqrt(w/3) (J_{-1/3}(zeta) - J_{1/3}(zeta))
+            //   Bi'(-w) = w/sqrt(3) (J_{-2/3}(zeta) + J_{2/3}(zeta))
+            // where J_{-nu} = cos(nu pi) J_nu - sin(nu pi) Y_nu.
+            let [sr, si] = CMath.csqrt(-reZ, -imZ);
+            let [zetar, zetai] = CMath.cmul(-reZ, -imZ, sr, si);
+            zetar *= 2 / 3;
+            zetai *= 2 / 3;
+            let [jr, ji] = SpecialFunction.besselj(nu, zetar, zetai);
+            let [yr, yi] = SpecialFunction.bessely(nu, zetar, zetai);
+            let c = k === 1 ? -1 : 1;
+            let cn = nu === 1 / 3 ? 0.5 : -0.5;
+            let sn = 0.5 * SQRT3;
+            let jnr = cn * jr - sn * yr, jni = cn * ji - sn * yi;
+            if (k === 2) {
+                // J_{-nu} - J_nu
+                fr = jnr - jr;
+                fi = jni - ji;
+            } else {
+                fr = jr + c * jnr;
+                fi = ji + c * jni;
+            }
+            switch (k) {
+                case 0:
+                    [tr, ti] = [sr / 3, si / 3];
+                    break;
+                case 1:
+                    [tr, ti] = [-reZ / 3, -imZ / 3];
+                    break;
+                case 2:
+                    [tr, ti] = [sr / SQRT3, si / SQRT3];
+                    break;
+                default:
+                    [tr, ti] = [-reZ / SQRT3, -imZ / SQRT3];
+                    break;
+            }
+        }
+        let res = CMath.cmul(tr, ti, fr, fi);
+        if (imZ === 0) {
+            res[1] = 0;
+        }
+        return res;
+    }
+
 }
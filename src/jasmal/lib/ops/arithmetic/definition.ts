@@ -1,4 +1,6 @@
 import { OpInput, OpOutput, RealOpInput, RealOpOutput } from '../../commonTypes';
+import { Tensor } from '../../core/tensor';
+import { SparseMatrix } from '../../core/sparseMatrix';
 
 export interface IArithmeticOpProvider {
 
@@ -12,6 +14,21 @@ export interface IArithmeticOpProvider {
      *                shape and DType. Default value is false. 
      */
     add(x: OpInput, y: OpInput, inPlace?: boolean): OpOutput;
+    /**
+     * Adds two sparse matrices. The output is a sparse matrix with the same
+     * format as x. Same as `spadd()`.
+     * @param x Sparse matrix x.
+     * @param y Sparse matrix y.
+     */
+    add(x: SparseMatrix, y: SparseMatrix): SparseMatrix;
+    /**
+     * Adds a sparse matrix and a dense input. The sparse matrix is converted
+     * into a dense matrix first and the output is a dense matrix. Same as
+     * `spadd()`.
+     * @param x Input x.
+     * @param y Input y.
+     */
+    add(x: SparseMatrix | OpInput, y: SparseMatrix | OpInput): Tensor;
     
     /**
      * Performs element-wise subtraction between two compatible inputs.
@@ -23,6 +40,20 @@ export interface IArithmeticOpProvider {
      *                shape and DType. Default value is false. 
      */
     sub(x: OpInput, y: OpInput, inPlace?: boolean): OpOutput;
+    /**
+     * Subtracts sparse matrix y from sparse matrix x. The output is a sparse
+     * matrix with the same format as x. Same as `spsub()`.
+     * @param x Sparse matrix x.
+     * @param y Sparse matrix y.
+     */
+    sub(x: SparseMatrix, y: SparseMatrix): SparseMatrix;
+    /**
+     * Subtracts y from x where one of them is a sparse matrix and the other
+     * is a dense input. The output is a dense matrix. Same as `spsub()`.
+     * @param x Input x.
+     * @param y Input y.
+     */
+    sub(x: SparseMatrix | OpInput, y: SparseMatrix | OpInput): Tensor;
 
     /**
      * Performs element-wise negation.
@@ -44,6 +75,16 @@ export interface IArithmeticOpProvider {
      *                shape and DType. Default value is false. 
      */
     mul(x: OpInput, y: OpInput, inPlace?: boolean): OpOutput;
+    /**
+     * Performs element-wise multiplication where at least one of the inputs
+     * is a sparse matrix. The output is a sparse matrix with the same format
+     * as the (first) sparse input. A dense input can be a scalar, a row
+     * vector, a column vector, or a matrix with the same shape as the sparse
+     * input. Same as `spmul()`.
+     * @param x Input x.
+     * @param y Input y.
+     */
+    mul(x: SparseMatrix | OpInput, y: SparseMatrix | OpInput): SparseMatrix;
 
     /**
      * Performs element-wise division between two compatible inputs.
@@ -2,6 +2,10 @@ import { IArithmeticOpProvider } from './definition';
 import { ElementWiseOpGenerator } from '../generator';
 import { OutputDTypeResolver } from '../../core/dtype';
 import { IJasmalModuleFactory, JasmalOptions } from '../../jasmal';
+import { OpInput, OpOutput } from '../../commonTypes';
+import { Tensor } from '../../core/tensor';
+import { SparseMatrix } from '../../core/sparseMatrix';
+import { SparseMatrixFunction } from '../matrix/sparse';
 
 export class ArithmeticOpProviderFactory implements IJasmalModuleFactory<IArithmeticOpProvider> {
 
@@ -10,7 +14,7 @@ export class ArithmeticOpProviderFactory implements IJasmalModuleFactory<IArithm
 
     public create(_options: JasmalOptions): IArithmeticOpProvider {
 
-        const opAdd = this._generator.makeBinaryOp({
+        const opAddDense = this._generator.makeBinaryOp({
             opRR: '$reZ = $reX + $reY;',
             opRC: '$reZ = $reX + $reY; $imZ = $imY;',
             opCR: '$reZ = $reX + $reY; $imZ = $imX;',
@@ -19,7 +23,7 @@ export class ArithmeticOpProviderFactory implements IJasmalModuleFactory<IArithm
             outputDTypeResolver: OutputDTypeResolver.bWiderWithLogicToInt
         });
 
-        const opSub = this._generator.makeBinaryOp({
+        const opSubDense = this._generator.makeBinaryOp({
             opRR: '$reZ = $reX - $reY;',
             opRC: '$reZ = $reX - $reY; $imZ = -$imY;',
             opCR: '$reZ = $reX - $reY; $imZ = $imX;',
@@ -35,7 +39,7 @@ export class ArithmeticOpProviderFactory implements IJasmalModuleFactory<IArithm
             outputDTypeResolver: OutputDTypeResolver.uOnlyLogicToFloat64
         });
 
-        const opMul = this._generator.makeBinaryOp({
+        const opMulDense = this._generator.makeBinaryOp({
             opRR: '$reZ = $reX * $reY;',
             // For the RC and CR case, x and y cannot be the same.
             // We calculate the imaginary part first so no temporary
@@ -53,7 +57,7 @@ export class ArithmeticOpProviderFactory implements IJasmalModuleFactory<IArithm
             opCR: '$reZ = $reX / $reY; $imZ = $imX / $reY;',
             opCC: '$tmp1 = CMath.cdivCC($reX, $imX, $reY, $imY); $reZ = $tmp1[0]; $imZ = $tmp1[1];'
         }, {
-            outputDTypeResolver: OutputDTypeResolver.bToFloat64
+            outputDTypeResolver: OutputDTypeResolver.bToFloat
         });
 
         const opReciprocal = this._generator.makeUnaryOp({
@@ -69,6 +73,73 @@ export class ArithmeticOpProviderFactory implements IJasmalModuleFactory<IArithm
             outputDTypeResolver: OutputDTypeResolver.bWiderWithLogicToInt
         });
         
+        const toDense = (x: OpInput | SparseMatrix): OpInput => {
+            return x instanceof SparseMatrix ? x.toDense() : x;
+        };
+
+        const checkNotInPlace = (inPlace: boolean): void => {
+            if (inPlace) {
+                throw new Error('In-place operations are not supported for sparse matrices.');
+            }
+        };
+
+        function opAdd(x: OpInput, y: OpInput, inPlace?: boolean): OpOutput;
+        function opAdd(x: SparseMatrix, y: SparseMatrix): SparseMatrix;
+        function opAdd(x: SparseMatrix | OpInput, y: SparseMatrix | OpInput): Tensor;
+        function opAdd(x: SparseMatrix | OpInput, y: SparseMatrix | OpInput,
+                       inPlace: boolean = false): OpOutput | SparseMatrix {
+            if (!(x instanceof SparseMatrix) && !(y instanceof SparseMatrix)) {
+                return opAddDense(x, y, inPlace);
+            }
+            checkNotInPlace(inPlace);
+            if (x instanceof SparseMatrix && y instanceof SparseMatrix) {
+                return SparseMatrixFunction.add(x, y, 1, 1);
+            }
+            return opAddDense(toDense(x), toDense(y));
+        }
+
+        function opSub(x: OpInput, y: OpInput, inPlace?: boolean): OpOutput;
+        function opSub(x: SparseMatrix, y: SparseMatrix): SparseMatrix;
+        function opSub(x: SparseMatrix | OpInput, y: SparseMatrix | OpInput): Tensor;
+        function opSub(x: SparseMatrix | OpInput, y: SparseMatrix | OpInput,
+                       inPlace: boolean = false): OpOutput | SparseMatrix {
+            if (!(x instanceof SparseMatrix) && !(y instanceof SparseMatrix)) {
+                return opSubDense(x, y, inPlace);
+            }
+            checkNotInPlace(inPlace);
+            if (x instanceof SparseMatrix && y instanceof SparseMatrix) {
+                return SparseMatrixFunction.add(x, y, 1, -1);
+            }
+            return opSubDense(toDense(x), toDense(y));
+        }
+
+        function opMul(x: OpInput, y: OpInput, inPlace?: boolean): OpOutput;
+        function opMul(x: SparseMatrix | OpInput, y: SparseMatrix | OpInput): SparseMatrix;
+        function opMul(x: SparseMatrix | OpInput, y: SparseMatrix | OpInput,
+                       inPlace: boolean = false): OpOutput | SparseMatrix {
+            if (!(x instanceof SparseMatrix) && !(y instanceof SparseMatrix)) {
+                return opMulDense(x, y, inPlace);
+            }
+            checkNotInPlace(inPlace);
+            if (x instanceof SparseMatrix && y instanceof SparseMatrix) {
+                return SparseMatrixFunction.mulSparse(x, y);
+            }
+            // element-wise multiplication is commutative
+            if (!(x instanceof SparseMatrix)) {
+                [x, y] = [y, x];
+            }
+            let X = <SparseMatrix>x;
+            let d = <OpInput>y;
+            let Y = d instanceof Tensor ? d : Tensor.toTensor(d);
+            if (Y.ndim === 1) {
+                Y = Y.getReshapedCopy([1, -1]);
+            } else if (Y.ndim !== 2) {
+                throw new Error('Matrix or vector expected.');
+            }
+            return SparseMatrixFunction.mulDense(X, Y.realData, Y.hasNonZeroComplexStorage() ? Y.imagData : undefined,
+                Y.shape[0], Y.shape[1]);
+        }
+        
         return {
             add: opAdd,
             sub: opSub,
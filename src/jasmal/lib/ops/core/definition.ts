@@ -72,6 +72,8 @@ export interface ICoreOpProvider {
      * Permutes a tensor according to the specified order such that
      *  shapeOut[i] = shapeIn[order[i]]
      *  Y(i_{order[0]}, ..., i_{order[n-1]}) = X(i_0, ..., i_{n-1})
+     * If the input is a tensor, the output will be a view sharing the same
+     * storage, and no data will be copied.
      * @example
      *  // shape is [1, 2, 3]
      *  let x = T.ones([1, 2, 3]); 
@@ -2,7 +2,7 @@ import { ICoreOpProvider } from './definition';
 import { Tensor } from '../../core/tensor';
 import { ShapeHelper } from '../../helper/shapeHelper';
 import { DataHelper } from '../../helper/dataHelper';
-import { OutputDTypeResolver, DTypeHelper } from '../../core/dtype';
+import { OutputDTypeResolver, DTypeHelper, DType } from '../../core/dtype';
 import { OpInput, DataBlock, RealOpInput } from '../../commonTypes';
 import { ElementWiseOpGenerator } from '../generator';
 import { ComplexNumber } from '../../core/complexNumber';
@@ -315,50 +315,10 @@ export class CoreOpProviderFactory implements IJasmalModuleFactory<ICoreOpProvid
                 }
                 flags[order[i]] = true;
             }
-            let shapeX = X.shape;
-            let shapeY = new Array<number>(ndim);
-            for (let i = 0;i < ndim;i++) {
-                shapeY[i] = shapeX[order[i]];
-            }
-            let Y = Tensor.zeros(shapeY, X.dtype);
-            if (X.isEmpty()) {
-                // early return for empty tensors
-                return Y;
-            }
-            let stridesX = X.strides;
-            let stridesY = Y.strides;
-            permuteAxis(X.realData, Y.realData, shapeX, order, stridesX,
-                stridesY, 0, 0, 0);
-            if (X.hasComplexStorage()) {
-                Y.ensureComplexStorage();
-                permuteAxis(X.imagData, Y.imagData, shapeX, order, stridesX,
-                    stridesY, 0, 0, 0);
-            }
-            return Y;
+            // permuting axes only changes the strides so a view is returned
+            return X.getPermutedView(order);
         };
 
-        const permuteAxis = (source: ArrayLike<number>, target: DataBlock,
-                             sourceShape: number[], order: number[],
-                             sourceStrides: number[], targetStrides: number[],
-                             level: number, offsetSource: number, offsetTarget: number): void => {
-            // Y(i_{order[0]}, ..., i_{order[n-1]}) = X(i_0, ..., i_{n-1})
-            if (level === sourceShape.length - 1) {
-                for (let i = 0;i < sourceShape[order[level]];i++) {
-                    // last level
-                    // Y(..., i_{order[n-1]}) = X(..., i_{order[n-1]}, ...)
-                    target[offsetTarget + i] = source[offsetSource];
-                    offsetSource += sourceStrides[order[level]]
-                }
-            } else {
-                for (let i = 0;i < sourceShape[order[level]];i++) {
-                    permuteAxis(source, target, sourceShape, order, sourceStrides,
-                                targetStrides, level + 1, offsetSource, offsetTarget);
-                    offsetTarget += targetStrides[level];
-                    offsetSource += sourceStrides[order[level]]
-                }
-            }
-        }
-
         const opReal = (x: OpInput): Tensor => {
             return x instanceof Tensor ? x.real() : Tensor.toTensor(x).real();
         };
@@ -375,8 +335,9 @@ export class CoreOpProviderFactory implements IJasmalModuleFactory<ICoreOpProvid
                 // in Tensor.toTensor().
                 let shape = ShapeHelper.inferShapeFromArray(x);
                 ShapeHelper.validateArrayShape(x, shape);
-                // TODO: DType inference for typed arrays?
-                return Tensor.zeros(shape);
+                return Tensor.zeros(shape, ObjectHelper.isTypedArray(x)
+                    ? DTypeHelper.inferDTypeFromTypedArray(x)
+                    : DType.FLOAT64);
             }
         };
 
@@ -1,4 +1,5 @@
-import { ComparisonHelper } from '../../helper/comparisonHelper';
+import { ComparisonHelper, ComplexComparator } from '../../helper/comparisonHelper';
+import { DataBlock } from '../../commonTypes';
 
 export class DataFunction {
     
@@ -44,6 +45,60 @@ export class DataFunction {
         return [min, idx];
     }
 
+    /**
+     * Finds the minimum complex element and its index using the given
+     * comparator. NaNs are ignored unless all the elements are NaNs. If the
+     * minimum is attained by more than one element, the index of the first
+     * element that attains the minimum is returned.
+     * @param reX Real part.
+     * @param imX Imaginary part. If undefined, the elements are treated as
+     *            real numbers.
+     * @param comparator Comparator for complex numbers.
+     * @returns A 3 element tuple [re, im, index].
+     */
+    public static cmin(reX: ArrayLike<number>, imX: ArrayLike<number> | undefined, offset: number,
+                       stride: number, n: number, comparator: ComplexComparator): [number, number, number] {
+        return DataFunction._cextremum(reX, imX, offset, stride, n, comparator, -1);
+    }
+
+    /**
+     * Finds the maximum complex element and its index using the given
+     * comparator. NaNs are ignored unless all the elements are NaNs. If the
+     * maximum is attained by more than one element, the index of the first
+     * element that attains the maximum is returned.
+     * @param reX Real part.
+     * @param imX Imaginary part. If undefined, the elements are treated as
+     *            real numbers.
+     * @param comparator Comparator for complex numbers.
+     * @returns A 3 element tuple [re, im, index].
+     */
+    public static cmax(reX: ArrayLike<number>, imX: ArrayLike<number> | undefined, offset: number,
+                       stride: number, n: number, comparator: ComplexComparator): [number, number, number] {
+        return DataFunction._cextremum(reX, imX, offset, stride, n, comparator, 1);
+    }
+
+    private static _cextremum(reX: ArrayLike<number>, imX: ArrayLike<number> | undefined, offset: number,
+                              stride: number, n: number, comparator: ComplexComparator,
+                              sign: number): [number, number, number] {
+        let ub: number;
+        [n, ub] = DataFunction._processArgs(reX.length, offset, stride, n);
+        let reBest = reX[offset], imBest = imX ? imX[offset] : 0, idx = 0, j = 1;
+        let isBestNaN = isNaN(reBest) || isNaN(imBest);
+        for (let i = offset + stride;i < ub;i += stride, j++) {
+            let re = reX[i], im = imX ? imX[i] : 0;
+            if (isNaN(re) || isNaN(im)) {
+                continue;
+            }
+            if (isBestNaN || sign * comparator(re, im, reBest, imBest) > 0) {
+                reBest = re;
+                imBest = im;
+                idx = j;
+                isBestNaN = false;
+            }
+        }
+        return [reBest, imBest, idx];
+    }
+
     public static sum(x: ArrayLike<number>): number;
     public static sum(x: ArrayLike<number>, offset: number, stride: number, n: number): number;
     public static sum(x: ArrayLike<number>, offset: number = 0, stride: number = 1, n: number = -1): number {
@@ -216,6 +271,261 @@ export class DataFunction {
         return result;
     }
 
+    /**
+     * Sums the elements while ignoring NaNs. Returns zero if all the elements
+     * are NaNs.
+     */
+    public static nansum(x: ArrayLike<number>): number;
+    public static nansum(x: ArrayLike<number>, offset: number, stride: number, n: number): number;
+    public static nansum(x: ArrayLike<number>, offset: number = 0, stride: number = 1, n: number = -1): number {
+        let ub: number;
+        [n, ub] = DataFunction._processArgs(x.length, offset, stride, n);
+        let acc = 0;
+        for (let i = offset;i < ub;i += stride) {
+            if (!isNaN(x[i])) {
+                acc += x[i];
+            }
+        }
+        return acc;
+    }
+
+    /**
+     * Sums the complex elements while ignoring NaNs. A complex element is
+     * treated as NaN if either its real part or its imaginary part is NaN.
+     */
+    public static cnansum(reX: ArrayLike<number>, imX: ArrayLike<number>): [number, number];
+    public static cnansum(reX: ArrayLike<number>, imX: ArrayLike<number>,
+                          offset: number, stride: number, n: number): [number, number];
+    public static cnansum(reX: ArrayLike<number>, imX: ArrayLike<number>,
+                          offset: number = 0, stride: number = 1, n: number = -1): [number, number] {
+        let ub: number;
+        [n, ub] = DataFunction._processArgs(reX.length, offset, stride, n);
+        let accRe = 0, accIm = 0;
+        for (let i = offset;i < ub;i += stride) {
+            if (!isNaN(reX[i]) && !isNaN(imX[i])) {
+                accRe += reX[i];
+                accIm += imX[i];
+            }
+        }
+        return [accRe, accIm];
+    }
+
+    /**
+     * Computes the mean of the elements while ignoring NaNs. Returns NaN if
+     * all the elements are NaNs.
+     */
+    public static nanmean(x: ArrayLike<number>): number;
+    public static nanmean(x: ArrayLike<number>, offset: number, stride: number, n: number): number;
+    public static nanmean(x: ArrayLike<number>, offset: number = 0, stride: number = 1, n: number = -1): number {
+        let ub: number;
+        [n, ub] = DataFunction._processArgs(x.length, offset, stride, n);
+        let acc = 0, count = 0;
+        for (let i = offset;i < ub;i += stride) {
+            if (!isNaN(x[i])) {
+                acc += x[i];
+                count++;
+            }
+        }
+        return count === 0 ? NaN : acc / count;
+    }
+
+    /**
+     * Computes the mean of the complex elements while ignoring NaNs. Returns
+     * NaN if all the elements are NaNs.
+     */
+    public static cnanmean(reX: ArrayLike<number>, imX: ArrayLike<number>): [number, number];
+    public static cnanmean(reX: ArrayLike<number>, imX: ArrayLike<number>,
+                           offset: number, stride: number, n: number): [number, number];
+    public static cnanmean(reX: ArrayLike<number>, imX: ArrayLike<number>,
+                           offset: number = 0, stride: number = 1, n: number = -1): [number, number] {
+        let ub: number;
+        [n, ub] = DataFunction._processArgs(reX.length, offset, stride, n);
+        let accRe = 0, accIm = 0, count = 0;
+        for (let i = offset;i < ub;i += stride) {
+            if (!isNaN(reX[i]) && !isNaN(imX[i])) {
+                accRe += reX[i];
+                accIm += imX[i];
+                count++;
+            }
+        }
+        return count === 0 ? [NaN, 0] : [accRe / count, accIm / count];
+    }
+
+    /**
+     * Computes the sample variance (divided by N - 1, where N is the number
+     * of non-NaN elements) while ignoring NaNs. Returns NaN if all the
+     * elements are NaNs.
+     */
+    public static nanvar(x: ArrayLike<number>): number;
+    public static nanvar(x: ArrayLike<number>, offset: number, stride: number, n: number): number;
+    public static nanvar(x: ArrayLike<number>, offset: number = 0, stride: number = 1, n: number = -1): number {
+        let v = DataFunction._collectNonNaN(x, undefined, offset, stride, n)[0];
+        return v.length === 0 ? NaN : DataFunction.var(v);
+    }
+
+    /**
+     * Computes the sample variance of the complex elements while ignoring
+     * NaNs. Returns NaN if all the elements are NaNs.
+     */
+    public static cnanvar(reX: ArrayLike<number>, imX: ArrayLike<number>): number;
+    public static cnanvar(reX: ArrayLike<number>, imX: ArrayLike<number>,
+                          offset: number, stride: number, n: number): number;
+    public static cnanvar(reX: ArrayLike<number>, imX: ArrayLike<number>,
+                          offset: number = 0, stride: number = 1, n: number = -1): number {
+        let [re, im] = DataFunction._collectNonNaN(reX, imX, offset, stride, n);
+        return re.length === 0 ? NaN : DataFunction.cvar(re, im);
+    }
+
+    /**
+     * Computes the median while ignoring NaNs. Returns NaN if all the elements
+     * are NaNs.
+     */
+    public static nanmedian(x: ArrayLike<number>): number;
+    public static nanmedian(x: ArrayLike<number>, offset: number, stride: number, n: number): number;
+    public static nanmedian(x: ArrayLike<number>, offset: number = 0, stride: number = 1, n: number = -1): number {
+        let v = DataFunction._collectNonNaN(x, undefined, offset, stride, n)[0];
+        return v.length === 0 ? NaN : DataFunction.median(v);
+    }
+
+    /**
+     * Copies the non-NaN elements to new arrays. If imX is undefined, the
+     * returned imaginary part is empty.
+     */
+    private static _collectNonNaN(reX: ArrayLike<number>, imX: ArrayLike<number> | undefined, offset: number,
+                                  stride: number, n: number): [number[], number[]] {
+        let ub: number;
+        [n, ub] = DataFunction._processArgs(reX.length, offset, stride, n);
+        let re: number[] = [], im: number[] = [];
+        for (let i = offset;i < ub;i += stride) {
+            if (isNaN(reX[i]) || (imX && isNaN(imX[i]))) {
+                continue;
+            }
+            re.push(reX[i]);
+            if (imX) {
+                im.push(imX[i]);
+            }
+        }
+        return [re, im];
+    }
+
+    /**
+     * Computes the gradient using second order accurate central differences
+     * in the interior and first order accurate one-sided differences at the
+     * boundaries.
+     * @param y Function values. Must have at least two elements.
+     * @param x Sample spacing (a number) or the coordinates of the samples.
+     * @param g (Output) The gradient.
+     */
+    public static gradient(y: ArrayLike<number>, x: number | ArrayLike<number>, g: DataBlock): void {
+        let n = y.length;
+        if (typeof x === 'number') {
+            g[0] = (y[1] - y[0]) / x;
+            g[n - 1] = (y[n - 1] - y[n - 2]) / x;
+            for (let i = 1;i < n - 1;i++) {
+                g[i] = (y[i + 1] - y[i - 1]) / (2 * x);
+            }
+        } else {
+            g[0] = (y[1] - y[0]) / (x[1] - x[0]);
+            g[n - 1] = (y[n - 1] - y[n - 2]) / (x[n - 1] - x[n - 2]);
+            for (let i = 1;i < n - 1;i++) {
+                let hs = x[i] - x[i - 1];
+                let hd = x[i + 1] - x[i];
+                g[i] = (hs * hs * y[i + 1] + (hd * hd - hs * hs) * y[i] - hd * hd * y[i - 1])
+                    / (hs * hd * (hd + hs));
+            }
+        }
+    }
+
+    /**
+     * Integrates using the trapezoidal rule.
+     * @param y Function values.
+     * @param x Sample spacing (a number) or the coordinates of the samples.
+     */
+    public static trapz(y: ArrayLike<number>, x: number | ArrayLike<number>): number {
+        let s = 0;
+        for (let i = 1;i < y.length;i++) {
+            s += (typeof x === 'number' ? x : x[i] - x[i - 1]) * (y[i] + y[i - 1]);
+        }
+        return 0.5 * s;
+    }
+
+    /**
+     * Computes the cumulative integral using the trapezoidal rule. The first
+     * element of the output is always zero.
+     * @param y Function values.
+     * @param x Sample spacing (a number) or the coordinates of the samples.
+     * @param z (Output) The cumulative integral.
+     */
+    public static cumtrapz(y: ArrayLike<number>, x: number | ArrayLike<number>, z: DataBlock): void {
+        if (y.length === 0) {
+            return;
+        }
+        z[0] = 0;
+        for (let i = 1;i < y.length;i++) {
+            z[i] = z[i - 1] + 0.5 * (typeof x === 'number' ? x : x[i] - x[i - 1]) * (y[i] + y[i - 1]);
+        }
+    }
+
+    /**
+     * Computes the k-th central moment, i.e., sum((x - mean(x))^k) / n.
+     * @param x
+     * @param k Order of the moment.
+     */
+    public static moment(x: ArrayLike<number>, k: number): number;
+    public static moment(x: ArrayLike<number>, k: number, offset: number, stride: number, n: number): number;
+    public static moment(x: ArrayLike<number>, k: number, offset: number = 0, stride: number = 1, n: number = -1): number {
+        let ub: number;
+        [n, ub] = DataFunction._processArgs(x.length, offset, stride, n);
+        let u = 0;
+        for (let i = offset;i < ub;i += stride) {
+            u += x[i];
+        }
+        u /= n;
+        let m = 0;
+        for (let i = offset;i < ub;i += stride) {
+            m += Math.pow(x[i] - u, k);
+        }
+        return m / n;
+    }
+
+    /**
+     * Computes the p-th quantile of sorted data.
+     * @param sorted Data sorted in ascending order. Must not contain NaNs.
+     * @param p Probability within [0, 1].
+     * @param method Interpolation method. See IDataOpProvider.quantile().
+     */
+    public static quantile(sorted: ArrayLike<number>, p: number, method: string): number {
+        let n = sorted.length;
+        if (n === 0) {
+            return NaN;
+        }
+        let h: number;
+        if (method === 'hazen') {
+            h = Math.max(0, Math.min(n - 1, n * p - 0.5));
+        } else {
+            h = (n - 1) * p;
+        }
+        let lo = Math.floor(h);
+        let hi = Math.min(lo + 1, n - 1);
+        let g = h - lo;
+        switch (method) {
+            case 'linear':
+            case 'hazen':
+                return g === 0 ? sorted[lo] : sorted[lo] + g * (sorted[hi] - sorted[lo]);
+            case 'lower':
+                return sorted[lo];
+            case 'higher':
+                return g === 0 ? sorted[lo] : sorted[hi];
+            case 'nearest':
+                // ties are rounded to the even index
+                return g < 0.5 || (g === 0.5 && lo % 2 === 0) ? sorted[lo] : sorted[hi];
+            case 'midpoint':
+                return g === 0 ? sorted[lo] : 0.5 * (sorted[lo] + sorted[hi]);
+            default:
+                throw new Error(`Invalid interpolation method '${method}'.`);
+        }
+    }
+
     private static _processArgs(arrLength: number, offset: number, stride: number, n: number): [number, number] {
         let ub = n < 0 ? arrLength : offset + n * stride;
         if (ub >= arrLength + stride) {
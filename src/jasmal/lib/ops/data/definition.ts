@@ -1,5 +1,6 @@
-import { OpInput, OpOutput, RealOpInput, RealOpOutputWithIndex, RealOpOutput } from '../../commonTypes';
+import { OpInput, OpOutput, RealOpInput, RealOpOutputWithIndex, RealOpOutput, OpOutputWithIndex } from '../../commonTypes';
 import { Tensor } from '../../core/tensor';
+import { IDistribution } from '../stats/definition';
 
 export interface IDataOpProvider {
 
@@ -10,66 +11,407 @@ export interface IDataOpProvider {
      * @param axis (Optional) Specifies the axis along which the operation is
      *             performed. This value must be either -1 or a nonnegative
      *             integer less than the number of dimensions in `x`.
-     *             Specify -1 if you want to find the minimum among all the
-     *             elements. Default value is -1.
-     * @param keepDims (Optional) Specifies whether the dimension specified by
-     *                 `axis` is kept in the results. Default value is false.
+     *             Specify -1 (or null) if you want to find the minimum among
+     *             all the elements. An array of axes can also be specified to
+     *             perform the operation along all the axes in the array. In
+     *             this case, the indices are computed with respect to the
+     *             elements along the specified axes in row-major order.
+     *             Default value is -1.
+     *             Note: max(), sum(), prod(), mean(), median(), mode(),
+     *             var(), std() and their NaN-ignoring versions accept the same
+     *             kinds of axis arguments.
+     * @param keepDims (Optional) Specifies whether the dimension(s) specified
+     *                 by `axis` are kept in the results. Default value is
+     *                 false.
+     * @param comparisonMethod (Optional) Specifies how elements are compared:
+     *                 'auto' - compares real numbers by their values and
+     *                          complex numbers in the same way as 'abs'.
+     *                 'abs'  - compares the magnitudes first, and then the
+     *                          phase angles in (-pi, pi].
+     *                 'real' - compares the real parts first, and then the
+     *                          imaginary parts.
+     *                 Default value is 'auto'. This is the same as MATLAB.
      * @returns A 2 element tuple [v, i] where v consists of the minimums and
      *          i consists of the indices of the minimums. v and i are scalars
      *          only when `axis` is set to -1 or `x` is a 1D vector, and
      *          `keepDims` is set to false. 
      */
-    min(x: RealOpInput, axis?: number, keepDims?: boolean): RealOpOutputWithIndex;
+    min(x: RealOpInput, axis?: number | number[] | null, keepDims?: boolean,
+        comparisonMethod?: 'auto' | 'real' | 'abs'): RealOpOutputWithIndex;
+    min(x: OpInput, axis?: number | number[] | null, keepDims?: boolean,
+        comparisonMethod?: 'auto' | 'real' | 'abs'): OpOutputWithIndex;
 
     /**
      * Finds the maximum elements and their indices along the specified axis.
+     * See min() for the descriptions of the parameters.
      * Note: NaN is treated as the largest number (larger than Infinity).
      */
-    max(x: RealOpInput, axis?: number, keepDims?: boolean): RealOpOutputWithIndex;
+    max(x: RealOpInput, axis?: number | number[] | null, keepDims?: boolean,
+        comparisonMethod?: 'auto' | 'real' | 'abs'): RealOpOutputWithIndex;
+    max(x: OpInput, axis?: number | number[] | null, keepDims?: boolean,
+        comparisonMethod?: 'auto' | 'real' | 'abs'): OpOutputWithIndex;
 
     /**
      * Sums the elements along the specified axis.
      */
-    sum(x: OpInput, axis?: number, keepDims?: boolean): OpOutput;
+    sum(x: OpInput, axis?: number | number[] | null, keepDims?: boolean): OpOutput;
 
     /**
      * Computes the products the elements along the specified axis.
      */
-    prod(x: OpInput, axis?: number, keepDims?: boolean): OpOutput;
+    prod(x: OpInput, axis?: number | number[] | null, keepDims?: boolean): OpOutput;
 
     /**
      * Computes the cumulative sum of the elements along the specified axis. 
      */
     cumsum(x: OpInput, axis?: number): Tensor;
 
+    /**
+     * Computes the cumulative product of the elements along the specified
+     * axis.
+     */
+    cumprod(x: OpInput, axis?: number): Tensor;
+
+    /**
+     * Computes the cumulative maximum of the elements along the specified
+     * axis. NaNs are ignored. Complex numbers are compared by their magnitudes
+     * first and then by their phases.
+     */
+    cummax(x: OpInput, axis?: number): Tensor;
+
+    /**
+     * Computes the cumulative minimum of the elements along the specified
+     * axis. NaNs are ignored. Complex numbers are compared by their magnitudes
+     * first and then by their phases.
+     */
+    cummin(x: OpInput, axis?: number): Tensor;
+
+    /**
+     * Computes the n-th order differences along the specified axis. The length
+     * of the output along the specified axis is max(m - n, 0), where m is the
+     * length of the input along the specified axis.
+     * @param x
+     * @param n (Optional) Order of the differences. Default value is 1.
+     * @param axis (Optional) If not specified or negative, the input will be
+     *             flattened.
+     */
+    diff(x: OpInput, n?: number, axis?: number): Tensor;
+
+    /**
+     * Computes the numerical gradient along the specified axis using second
+     * order central differences in the interior and first order differences
+     * at the boundaries.
+     * @param y
+     * @param x (Optional) Either the spacing between the samples or the
+     *          coordinates of the samples. Default value is 1.
+     * @param axis (Optional) If not specified or negative, the input will be
+     *             flattened.
+     */
+    gradient(y: OpInput, x?: RealOpInput, axis?: number): Tensor;
+
+    /**
+     * Integrates along the specified axis using the trapezoidal rule.
+     * @param y
+     * @param x (Optional) Either the spacing between the samples or the
+     *          coordinates of the samples. Default value is 1.
+     * @param axis (Optional) If not specified or negative, all the elements
+     *             will be integrated.
+     * @param keepDims (Optional) Default value is false.
+     */
+    trapz(y: OpInput, x?: RealOpInput, axis?: number, keepDims?: boolean): OpOutput;
+
+    /**
+     * Computes the cumulative integral along the specified axis using the
+     * trapezoidal rule. The output has the same shape as the input and its
+     * first element along the specified axis is zero.
+     * @param y
+     * @param x (Optional) Either the spacing between the samples or the
+     *          coordinates of the samples. Default value is 1.
+     * @param axis (Optional) If not specified or negative, the input will be
+     *             flattened.
+     */
+    cumtrapz(y: OpInput, x?: RealOpInput, axis?: number): Tensor;
+
     /**
      * Computes the mean of the elements along the specified axis.
+     * @param x
+     * @param axis (Optional) See min().
+     * @param keepDims (Optional) See min().
+     * @param weights (Optional) Nonnegative weights. Must either have the
+     *                same shape as x or be a 1D vector whose length matches
+     *                the length of the specified axis (if a single axis is
+     *                specified). If specified, the weighted mean
+     *                sum(w x) / sum(w) is computed.
      */
-    mean(x: OpInput, axis?: number, keepDims?: boolean): OpOutput;
+    mean(x: OpInput, axis?: number | number[] | null, keepDims?: boolean, weights?: RealOpInput): OpOutput;
 
     /**
      * Computes the median of the elements along the specified axis.
      */
-    median(x: RealOpInput, axis?: number, keepDims?: boolean): RealOpOutput;
+    median(x: RealOpInput, axis?: number | number[] | null, keepDims?: boolean): RealOpOutput;
 
     /**
      * Computes the mode of the elements along the specified axis.
      * Note: NaNs will be ignored when determining the mode. If there are
      *       multiple modes, the smallest will be returned.
      */
-    mode(x: RealOpInput, axis?: number, keepDims?: boolean): RealOpOutput;
+    mode(x: RealOpInput, axis?: number | number[] | null, keepDims?: boolean): RealOpOutput;
+
+    /**
+     * Computes the variance of the elements along the specified axis.
+     * @param x
+     * @param axis (Optional) See min().
+     * @param keepDims (Optional) See min().
+     * @param ddof (Optional) Delta degrees of freedom. The sum of the squared
+     *             deviations is divided by N - ddof, where N is the number of
+     *             elements. NaN is returned if N - ddof is not positive,
+     *             except that the variance of a single element (N = 1) is 0
+     *             when ddof = 1.
+     *             Default value is 1 (sample variance).
+     * @param weights (Optional) Nonnegative frequency weights. Must either
+     *                have the same shape as x or be a 1D vector whose length
+     *                matches the length of the specified axis. If specified,
+     *                the weighted variance
+     *                  sum(w |x - mean(x, w)|^2) / (sum(w) - ddof)
+     *                is computed. NaN is returned if sum(w) - ddof is not
+     *                positive, with the same exception for N = 1 as above.
+     */
+    var(x: OpInput, axis?: number | number[] | null, keepDims?: boolean, ddof?: number,
+           weights?: RealOpInput): RealOpOutput;
+
+    /**
+     * Computes the standard deviation of the elements along the specified
+     * axis. See var() for the descriptions of the parameters.
+     */
+    std(x: OpInput, axis?: number | number[] | null, keepDims?: boolean, ddof?: number,
+           weights?: RealOpInput): RealOpOutput;
+
+    /**
+     * Sums the elements along the specified axis while ignoring NaNs. A
+     * complex element is treated as NaN if either its real part or its
+     * imaginary part is NaN. The sum is zero if all the elements are NaNs.
+     */
+    nansum(x: OpInput, axis?: number | number[] | null, keepDims?: boolean): OpOutput;
+
+    /**
+     * Computes the mean of the elements along the specified axis while
+     * ignoring NaNs. The mean is NaN if all the elements are NaNs.
+     */
+    nanmean(x: OpInput, axis?: number | number[] | null, keepDims?: boolean): OpOutput;
+
+    /**
+     * Finds the minimum elements and their indices along the specified axis
+     * while ignoring NaNs. See min() for the descriptions of the parameters.
+     * If all the elements are NaNs, the minimum is NaN and the index is 0.
+     */
+    nanmin(x: RealOpInput, axis?: number | number[] | null, keepDims?: boolean,
+           comparisonMethod?: 'auto' | 'real' | 'abs'): RealOpOutputWithIndex;
+    nanmin(x: OpInput, axis?: number | number[] | null, keepDims?: boolean,
+           comparisonMethod?: 'auto' | 'real' | 'abs'): OpOutputWithIndex;
+
+    /**
+     * Finds the maximum elements and their indices along the specified axis
+     * while ignoring NaNs. See min() for the descriptions of the parameters.
+     * If all the elements are NaNs, the maximum is NaN and the index is 0.
+     */
+    nanmax(x: RealOpInput, axis?: number | number[] | null, keepDims?: boolean,
+           comparisonMethod?: 'auto' | 'real' | 'abs'): RealOpOutputWithIndex;
+    nanmax(x: OpInput, axis?: number | number[] | null, keepDims?: boolean,
+           comparisonMethod?: 'auto' | 'real' | 'abs'): OpOutputWithIndex;
+
+    /**
+     * Computes the sample variance (divided by N - 1, where N is the number
+     * of non-NaN elements) along the specified axis while ignoring NaNs.
+     */
+    nanvar(x: OpInput, axis?: number | number[] | null, keepDims?: boolean): RealOpOutput;
+
+    /**
+     * Computes the standard deviation (divided by N - 1, where N is the number
+     * of non-NaN elements) along the specified axis while ignoring NaNs.
+     */
+    nanstd(x: OpInput, axis?: number | number[] | null, keepDims?: boolean): RealOpOutput;
+
+    /**
+     * Computes the median of the elements along the specified axis while
+     * ignoring NaNs.
+     */
+    nanmedian(x: RealOpInput, axis?: number | number[] | null, keepDims?: boolean): RealOpOutput;
+
+    /**
+     * Computes the quantiles of the elements along the specified axis.
+     * Note: if any of the elements is NaN, the corresponding quantile is NaN.
+     * @param x
+     * @param p Probabilities within [0, 1]. If p is a number, the behavior is
+     *          the same as other reductions. Otherwise the specified axis is
+     *          replaced by an axis of length numel(p) (or the output becomes
+     *          a 1D vector if `axis` is -1) and `keepDims` is ignored.
+     * @param axis (Optional) See min().
+     * @param keepDims (Optional) See min().
+     * @param method (Optional) Specifies how to interpolate when the quantile
+     *               lies between two data points x[i] and x[i+1] (sorted).
+     *               Let h = (n - 1)p be the fractional index:
+     *                'linear'   - x[i] + (h - i)(x[i+1] - x[i]).
+     *                'lower'    - x[i].
+     *                'higher'   - x[i+1].
+     *                'nearest'  - x[i] or x[i+1], whichever is closer. Ties
+     *                             are resolved to the even index.
+     *                'midpoint' - (x[i] + x[i+1]) / 2.
+     *                'hazen'    - 'linear' with h = np - 1/2 (clipped to
+     *                             [0, n - 1]). This is used by MATLAB.
+     *               Default value is 'linear' (same as NumPy).
+     * @example
+     *  // quartiles of each column
+     *  let q = T.quantile(x, [0.25, 0.5, 0.75], 0);
+     */
+    quantile(x: RealOpInput, p: RealOpInput, axis?: number, keepDims?: boolean,
+             method?: 'linear' | 'lower' | 'higher' | 'nearest' | 'midpoint' | 'hazen'): RealOpOutput;
+
+    /**
+     * Computes the percentiles of the elements along the specified axis.
+     * Same as quantile() except that p is specified in percentages within
+     * [0, 100].
+     */
+    percentile(x: RealOpInput, p: RealOpInput, axis?: number, keepDims?: boolean,
+               method?: 'linear' | 'lower' | 'higher' | 'nearest' | 'midpoint' | 'hazen'): RealOpOutput;
 
     /**
-     * Computes the sample variance (divided by N - 1) of the elements along the
-     * specified axis.
+     * Computes the interquartile range (the difference between the 75th and
+     * the 25th percentiles) along the specified axis. See quantile() for the
+     * descriptions of the parameters.
      */
-    var(x: OpInput, axis?: number, keepDims?: boolean): RealOpOutput;
+    iqr(x: RealOpInput, axis?: number, keepDims?: boolean,
+        method?: 'linear' | 'lower' | 'higher' | 'nearest' | 'midpoint' | 'hazen'): RealOpOutput;
 
     /**
-     * Computes the standard deviation (divided by N - 1) of the elements along
-     * the specified axis.
+     * Computes the central moment of the specified order along the specified
+     * axis:
+     *  m_k = sum((x - mean(x))^k) / N
+     * @param x
+     * @param order Order of the moment.
+     * @param axis (Optional) See min().
+     * @param keepDims (Optional) See min().
+     */
+    moment(x: RealOpInput, order: number, axis?: number, keepDims?: boolean): RealOpOutput;
+
+    /**
+     * Computes the skewness m_3 / m_2^(3/2) along the specified axis, where
+     * m_k is the k-th central moment.
+     * @param x
+     * @param axis (Optional) See min().
+     * @param keepDims (Optional) See min().
+     * @param bias (Optional) If set to false, the result is corrected for
+     *             the statistical bias by multiplying sqrt(N(N-1))/(N-2).
+     *             Default value is true.
      */
-    std(x: OpInput, axis?: number, keepDims?: boolean): RealOpOutput;
+    skewness(x: RealOpInput, axis?: number, keepDims?: boolean, bias?: boolean): RealOpOutput;
+
+    /**
+     * Computes the kurtosis m_4 / m_2^2 along the specified axis, where m_k is
+     * the k-th central moment. The kurtosis of the normal distribution is 3.
+     * @param x
+     * @param axis (Optional) See min().
+     * @param keepDims (Optional) See min().
+     * @param bias (Optional) If set to false, the result is corrected for
+     *             the statistical bias (same as MATLAB). Default value is
+     *             true.
+     */
+    kurtosis(x: RealOpInput, axis?: number, keepDims?: boolean, bias?: boolean): RealOpOutput;
+
+    /**
+     * Standardizes the elements along the specified axis by subtracting the
+     * mean and dividing by the standard deviation. Elements with zero
+     * standard deviation are only centered.
+     * @param x
+     * @param axis (Optional) If set to -1, all the elements are standardized
+     *             together. Default value is -1.
+     * @param ddof (Optional) Delta degrees of freedom used when computing the
+     *             standard deviation. See var(). Default value is 1.
+     * @returns A tensor with the same shape as x.
+     */
+    zscore(x: RealOpInput, axis?: number, ddof?: number): Tensor;
+
+    /**
+     * One-sample t-test of the null hypothesis that the data along the
+     * specified axis come from a normal distribution with mean mu.
+     * @param x
+     * @param mu (Optional) Mean under the null hypothesis. Default value is 0.
+     * @param axis (Optional) See min().
+     * @param keepDims (Optional) See min().
+     * @param tail (Optional) Alternative hypothesis:
+     *              'both'  - the mean is not mu.
+     *              'right' - the mean is greater than mu.
+     *              'left'  - the mean is less than mu.
+     *             Default value is 'both'.
+     * @returns A 2 element tuple [t, p] where t is the t-statistic and p is
+     *          the p-value.
+     */
+    ttest(x: RealOpInput, mu?: number, axis?: number, keepDims?: boolean,
+          tail?: 'both' | 'left' | 'right'): [number, number] | [Tensor, Tensor];
+
+    /**
+     * Two-sample t-test of the null hypothesis that the data along the
+     * specified axis in x and y come from normal distributions with equal
+     * means. x and y must have the same shape except along the specified
+     * axis.
+     * @param x
+     * @param y
+     * @param axis (Optional) See min().
+     * @param keepDims (Optional) See min().
+     * @param tail (Optional) Alternative hypothesis. 'right' means that the
+     *             mean of x is greater than that of y. See ttest().
+     * @param equalVar (Optional) If set to true, the two distributions are
+     *                 assumed to have the same variance and the pooled
+     *                 variance is used. Otherwise Welch's t-test is performed.
+     *                 Default value is true.
+     * @returns A 2 element tuple [t, p] where t is the t-statistic and p is
+     *          the p-value.
+     */
+    ttest2(x: RealOpInput, y: RealOpInput, axis?: number, keepDims?: boolean,
+           tail?: 'both' | 'left' | 'right', equalVar?: boolean): [number, number] | [Tensor, Tensor];
+
+    /**
+     * One-sample Kolmogorov-Smirnov test of the null hypothesis that the data
+     * along the specified axis come from the specified continuous
+     * distribution. For two-sided tests, exact p-values are computed for
+     * sample sizes up to 2500.
+     * @param x
+     * @param cdf (Optional) The hypothesized distribution (with scalar
+     *            parameters) or its cdf. Default value is the standard
+     *            normal distribution.
+     * @param axis (Optional) See min().
+     * @param keepDims (Optional) See min().
+     * @param tail (Optional) Alternative hypothesis:
+     *              'both'    - the cdf of the data is not cdf.
+     *              'larger'  - the cdf of the data is larger than cdf. The
+     *                          statistic is max(F_n(x) - F(x)).
+     *              'smaller' - the cdf of the data is smaller than cdf. The
+     *                          statistic is max(F(x) - F_n(x)).
+     *             Default value is 'both'.
+     * @returns A 2 element tuple [d, p] where d is the KS statistic and p is
+     *          the p-value.
+     */
+    kstest(x: RealOpInput, cdf?: IDistribution | ((x: number) => number), axis?: number, keepDims?: boolean,
+           tail?: 'both' | 'larger' | 'smaller'): [number, number] | [Tensor, Tensor];
+
+    /**
+     * Pearson's chi-square goodness of fit test of the null hypothesis that
+     * the observed frequencies along the specified axis follow the expected
+     * frequencies. The statistic is sum((o - e)^2 / e) and has k - 1 - ddof
+     * degrees of freedom, where k is the number of categories.
+     * @param observed Observed frequencies.
+     * @param expected (Optional) Expected frequencies. Must be broadcastable
+     *                 to the shape of the observed frequencies. Default
+     *                 values are the means of the observed frequencies along
+     *                 the specified axis (uniform distribution).
+     * @param axis (Optional) See min().
+     * @param keepDims (Optional) See min().
+     * @param ddof (Optional) Adjustment to the degrees of freedom, e.g.,
+     *             the number of estimated parameters. Default value is 0.
+     * @returns A 2 element tuple [chi2, p] where chi2 is the statistic and p
+     *          is the p-value.
+     */
+    chi2test(observed: RealOpInput, expected?: RealOpInput, axis?: number, keepDims?: boolean,
+             ddof?: number): [number, number] | [Tensor, Tensor];
 
     /**
      * Estimates the (cross-)covariance matrix from samples. Assuming samples
@@ -112,29 +454,41 @@ export interface IDataOpProvider {
     /**
      * Sorts the elements in the (flattened) input in the specified order and
      * return the result as a new tensor.
+     * Elements are compared according to `comparisonMethod`, which can be
+     * 'auto' (default), 'abs', or 'real'. See min() for more details.
      * Note: NaN is treated as the largest number (larger than Infinity).
      */
-    sort(x: OpInput, dir: 'asc' | 'desc', outputIndices: false): Tensor;
+    sort(x: OpInput, dir: 'asc' | 'desc', outputIndices: false,
+         comparisonMethod?: 'auto' | 'real' | 'abs'): Tensor;
     /**
      * Sorts the elements in the (flattened) input in the specified order and
      * return the result as a new tensor y as well as the index map i such
      * that x.get(i) = y.
+     * Elements are compared according to `comparisonMethod`, which can be
+     * 'auto' (default), 'abs', or 'real'. See min() for more details.
      * Note: NaN is treated as the largest number (larger than Infinity).
      */
-    sort(x: OpInput, dir: 'asc' | 'desc', outputIndices: true): [Tensor, number[]];
+    sort(x: OpInput, dir: 'asc' | 'desc', outputIndices: true,
+         comparisonMethod?: 'auto' | 'real' | 'abs'): [Tensor, number[]];
 
     /**
      * Sorts the rows in the specified order and return the result as a new
      * tensor.
+     * Elements are compared according to `comparisonMethod`, which can be
+     * 'auto' (default), 'abs', or 'real'. See min() for more details.
      * Note: NaN is treated as the largest number (larger than Infinity).
      */
-    sortRows(x: OpInput, dir: 'asc' | 'desc', outputIndices: false): Tensor;
+    sortRows(x: OpInput, dir: 'asc' | 'desc', outputIndices: false,
+             comparisonMethod?: 'auto' | 'real' | 'abs'): Tensor;
     /**
      * Sorts the rows in the specified order and return the result as a new
      * tensor y as well as the index map i such that x.get(i,':') = y.
+     * Elements are compared according to `comparisonMethod`, which can be
+     * 'auto' (default), 'abs', or 'real'. See min() for more details.
      * Note: NaN is treated as the largest number (larger than Infinity).
      */
-    sortRows(x: OpInput, dir: 'asc' | 'desc', outputIndices: true): [Tensor, number[]];
+    sortRows(x: OpInput, dir: 'asc' | 'desc', outputIndices: true,
+             comparisonMethod?: 'auto' | 'real' | 'abs'): [Tensor, number[]];
 
     /**
      * Used for creating histograms. Bins the elements in the input into
@@ -148,12 +502,113 @@ export interface IDataOpProvider {
 
     /**
      * Fast Fourier transform.
+     * @param x Input tensor.
+     * @param n (Optional) Length of the transform. If n is greater than the
+     *          length of the input along the specified axis, the input will
+     *          be padded with zeros. If n is less than the length of the
+     *          input, the input will be truncated. Default value is the
+     *          length of the input along the specified axis.
+     * @param axis (Optional) Axis along which the transform is computed. If
+     *             not specified, the input will be treated as a flattened
+     *             vector and the output will be a 1D vector if its length
+     *             differs from the number of elements in the input.
+     * @example
+     *  // Pads each column to 8 elements
+     *  T.fft(x, 8, 0);
+     */
+    fft(x: OpInput, n?: number, axis?: number): Tensor;
+
+    /**
+     * Inverse fast Fourier transform. See fft() for the definitions of the
+     * arguments.
+     */
+    ifft(x: OpInput, n?: number, axis?: number): Tensor;
+
+    /**
+     * Fast Fourier transform for real inputs. Returns the first
+     * floor(n/2) + 1 elements of the transform. The remaining elements are
+     * determined by the conjugate symmetry X[n - k] = conj(X[k]).
+     * For even n, this is about two times faster than fft().
+     * See fft() for the definitions of the arguments.
+     */
+    rfft(x: RealOpInput, n?: number, axis?: number): Tensor;
+
+    /**
+     * Inverse of rfft(). Computes the real inverse Fourier transform of
+     * length n from the first floor(n/2) + 1 elements of a conjugate
+     * symmetric spectrum. The imaginary parts of the zero frequency component
+     * and the Nyquist frequency component (for even n) are ignored.
+     * @param x Half spectrum.
+     * @param n (Optional) Length of the output. Default value is 2(m - 1),
+     *          where m is the length of the input along the specified axis.
+     *          The input is padded with zeros or truncated to floor(n/2) + 1
+     *          elements if necessary.
+     * @param axis (Optional) Axis along which the transform is computed. If
+     *             not specified, the input will be treated as a flattened
+     *             vector.
+     */
+    irfft(x: OpInput, n?: number, axis?: number): Tensor;
+
+    /**
+     * 2D fast Fourier transform along the first two axes.
+     * @param x Input tensor with at least two dimensions.
+     * @param shape (Optional) Lengths of the transforms along the first two
+     *              axes. The input will be padded with zeros or truncated
+     *              accordingly.
+     */
+    fft2(x: OpInput, shape?: number[]): Tensor;
+
+    /**
+     * 2D inverse fast Fourier transform along the first two axes. See fft2()
+     * for the definitions of the arguments.
+     */
+    ifft2(x: OpInput, shape?: number[]): Tensor;
+
+    /**
+     * N-dimensional fast Fourier transform along all the axes.
+     * @param x Input tensor.
+     * @param shape (Optional) Lengths of the transforms along each axis. The
+     *              input will be padded with zeros or truncated accordingly.
+     */
+    fftn(x: OpInput, shape?: number[]): Tensor;
+
+    /**
+     * N-dimensional inverse fast Fourier transform along all the axes. See
+     * fftn() for the definitions of the arguments.
+     */
+    ifftn(x: OpInput, shape?: number[]): Tensor;
+
+    /**
+     * Shifts the zero frequency component to the center of the spectrum by
+     * circularly shifting the elements by floor(n/2).
+     * @param x Input tensor.
+     * @param axis (Optional) Axis along which the shift is performed. If not
+     *             specified, all axes will be shifted.
+     */
+    fftshift(x: OpInput, axis?: number): Tensor;
+
+    /**
+     * Inverse of fftshift(). Circularly shifts the elements by ceil(n/2).
+     * @param x Input tensor.
+     * @param axis (Optional) Axis along which the shift is performed. If not
+     *             specified, all axes will be shifted.
+     */
+    ifftshift(x: OpInput, axis?: number): Tensor;
+
+    /**
+     * Returns the frequencies of the elements in the output of fft():
+     *  [0, 1, ..., ceil(n/2) - 1, -floor(n/2), ..., -1] / (d n)
+     * @param n Length of the transform.
+     * @param d (Optional) Sample spacing. Default value is 1.
      */
-    fft(x: OpInput, axis?: number): Tensor;
+    fftfreq(n: number, d?: number): Tensor;
 
     /**
-     * Inverse fast Fouriert transform.
+     * Returns the frequencies of the elements in the output of rfft():
+     *  [0, 1, ..., floor(n/2)] / (d n)
+     * @param n Length of the transform.
+     * @param d (Optional) Sample spacing. Default value is 1.
      */
-    ifft(x: OpInput, axis?: number): Tensor;
+    rfftfreq(n: number, d?: number): Tensor;
 
 }
@@ -222,4 +222,133 @@ export class FFT {
         }
     }
 
+
+    /**
+     * Computes the first floor(n/2) + 1 elements of the Fourier transform of
+     * a real vector of length n. The remaining elements can be recovered from
+     * the conjugate symmetry X_{n-k} = conj(X_k).
+     * When n is even, the real vector is packed into a complex vector of
+     * length n/2 so that only a half-length complex FFT is required.
+     * @param x Real input vector of length n.
+     * @param reO (Output) Real part of the half spectrum. Must have a length
+     *            of at least floor(n/2) + 1.
+     * @param imO (Output) Imaginary part of the half spectrum. Must have a
+     *            length of at least floor(n/2) + 1.
+     */
+    public static RFFT(x: ArrayLike<number>, reO: DataBlock, imO: DataBlock): void {
+        let n = x.length;
+        let i: number;
+        if (n % 2 === 1) {
+            // Fall back to the complex FFT
+            let reX = DataHelper.allocateFloat64Array(n);
+            let imX = DataHelper.allocateFloat64Array(n);
+            for (i = 0;i < n;i++) {
+                reX[i] = x[i];
+            }
+            FFT.FFT(reX, imX, true);
+            for (i = 0;i <= (n >> 1);i++) {
+                reO[i] = reX[i];
+                imO[i] = imX[i];
+            }
+            return;
+        }
+        let h = n >> 1;
+        // z[k] = x[2k] + j x[2k+1]
+        let reZ = DataHelper.allocateFloat64Array(h);
+        let imZ = DataHelper.allocateFloat64Array(h);
+        for (i = 0;i < h;i++) {
+            reZ[i] = x[2 * i];
+            imZ[i] = x[2 * i + 1];
+        }
+        FFT.FFT(reZ, imZ, true);
+        // Untangle the transforms of the even and odd samples:
+        //  E_k = (Z_k + conj(Z_{h-k})) / 2
+        //  O_k = (Z_k - conj(Z_{h-k})) / 2j
+        //  X_k = E_k + exp(-2 pi j k / n) O_k
+        let a: number, b: number, c: number, d: number;
+        let reE: number, imE: number, reOdd: number, imOdd: number;
+        let theta: number, cs: number, sn: number;
+        for (i = 0;i <= h;i++) {
+            a = reZ[i % h];
+            b = imZ[i % h];
+            c = reZ[(h - i) % h];
+            d = imZ[(h - i) % h];
+            reE = 0.5 * (a + c);
+            imE = 0.5 * (b - d);
+            reOdd = 0.5 * (b + d);
+            imOdd = -0.5 * (a - c);
+            theta = -2 * Math.PI * i / n;
+            cs = Math.cos(theta);
+            sn = Math.sin(theta);
+            reO[i] = reE + cs * reOdd - sn * imOdd;
+            imO[i] = imE + cs * imOdd + sn * reOdd;
+        }
+    }
+
+    /**
+     * Computes the inverse Fourier transform of a conjugate symmetric vector
+     * of length n given its first floor(n/2) + 1 elements. The output is
+     * real. The imaginary parts of the zero frequency component and, when n
+     * is even, the Nyquist frequency component are ignored.
+     * @param reX Real part of the half spectrum. Must have a length of at
+     *            least floor(n/2) + 1.
+     * @param imX Imaginary part of the half spectrum. Must have a length of
+     *            at least floor(n/2) + 1.
+     * @param y (Output) Real output vector of length n.
+     */
+    public static IRFFT(reX: ArrayLike<number>, imX: ArrayLike<number>, y: DataBlock): void {
+        let n = y.length;
+        let i: number;
+        if (n % 2 === 1) {
+            // Reconstruct the full spectrum and use the complex FFT
+            let reF = DataHelper.allocateFloat64Array(n);
+            let imF = DataHelper.allocateFloat64Array(n);
+            reF[0] = reX[0];
+            for (i = 1;i <= (n >> 1);i++) {
+                reF[i] = reX[i];
+                imF[i] = imX[i];
+                reF[n - i] = reX[i];
+                imF[n - i] = -imX[i];
+            }
+            FFT.FFT(reF, imF, false);
+            for (i = 0;i < n;i++) {
+                y[i] = reF[i];
+            }
+            return;
+        }
+        let h = n >> 1;
+        let reZ = DataHelper.allocateFloat64Array(h);
+        let imZ = DataHelper.allocateFloat64Array(h);
+        // Recover the transforms of the even and odd samples:
+        //  E_k = (X_k + conj(X_{h-k})) / 2
+        //  O_k = (X_k - conj(X_{h-k})) exp(2 pi j k / n) / 2
+        // and pack them via Z_k = E_k + j O_k.
+        let a: number, b: number, c: number, d: number;
+        let reE: number, imE: number, reD: number, imD: number;
+        let reOdd: number, imOdd: number;
+        let theta: number, cs: number, sn: number;
+        for (i = 0;i < h;i++) {
+            a = reX[i];
+            b = i === 0 ? 0 : imX[i];
+            c = reX[h - i];
+            d = i === 0 ? 0 : imX[h - i];
+            reE = 0.5 * (a + c);
+            imE = 0.5 * (b - d);
+            reD = 0.5 * (a - c);
+            imD = 0.5 * (b + d);
+            theta = 2 * Math.PI * i / n;
+            cs = Math.cos(theta);
+            sn = Math.sin(theta);
+            reOdd = cs * reD - sn * imD;
+            imOdd = cs * imD + sn * reD;
+            reZ[i] = reE - imOdd;
+            imZ[i] = imE + reOdd;
+        }
+        FFT.FFT(reZ, imZ, false);
+        for (i = 0;i < h;i++) {
+            y[2 * i] = reZ[i];
+            y[2 * i + 1] = imZ[i];
+        }
+    }
+
 }
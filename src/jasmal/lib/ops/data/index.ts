@@ -1,17 +1,24 @@
 import { IDataOpProvider } from './definition';
 import { Tensor } from '../../core/tensor';
-import { OpInput, DataBlock, RealOpInput } from '../../commonTypes';
+import { ComplexNumber } from '../../core/complexNumber';
+import { OpInput, OpOutput, DataBlock, RealOpInput, RealOpOutput, RealOpOutputWithIndex,
+         OpOutputWithIndex } from '../../commonTypes';
 import { DataFunction } from './datafun';
 import { OutputDTypeResolver, DType } from '../../core/dtype';
 import { DataHelper } from '../../helper/dataHelper';
+import { ShapeHelper } from '../../helper/shapeHelper';
 import { ICoreOpProvider } from '../core/definition';
 import { ReductionOpGenerator } from '../generator';
+import { RIRIOReducer } from '../generator/reduction/generator';
 import { ComparisonHelper } from '../../helper/comparisonHelper';
 import { FFT } from './fft';
 import { IArithmeticOpProvider } from '../arithmetic/definition';
 import { IMatrixOpProvider } from '../matrix/definition';
 import { IMathOpProvider } from '../math/definition';
 import { MatrixModifier } from '../../linalg/modifiers';
+import { SpecialFunction } from '../../math/special';
+import { DistributionFunction } from '../stats/distfun';
+import { IDistribution } from '../stats/definition';
 import { IJasmalModuleFactory, JasmalOptions } from '../../jasmal';
 
 export class DataOpProviderFactory implements IJasmalModuleFactory<IDataOpProvider> {
@@ -30,23 +37,95 @@ export class DataOpProviderFactory implements IJasmalModuleFactory<IDataOpProvid
         const matOp =  this._matOp;
         const reductionOpGen = this._generator;
 
-        const opMin = reductionOpGen.makeRealOnlyOpWithIndexOutput(
-            DataFunction.min, { outputDTypeResolver: OutputDTypeResolver.uOnlyLogicToFloat64 });
+        const checkComparisonMethod = (comparisonMethod: string): void => {
+            if (comparisonMethod !== 'auto' && comparisonMethod !== 'real' && comparisonMethod !== 'abs') {
+                throw new Error(`Invalid comparison method '${comparisonMethod}'.`);
+            }
+        };
+
+        /**
+         * Creates a comparator that compares the ia-th element and the ib-th
+         * element of the (flattened) input using the specified comparison
+         * method.
+         */
+        const createElementComparator = (X: Tensor, comparisonMethod: string): (ia: number, ib: number) => number => {
+            checkComparisonMethod(comparisonMethod);
+            let isComplex = X.hasNonZeroComplexStorage();
+            let reX = X.realData;
+            if (comparisonMethod === 'abs' || (comparisonMethod === 'auto' && isComplex)) {
+                let comparator = ComparisonHelper.compareComplexByAbsAsc;
+                if (isComplex) {
+                    let imX = X.imagData;
+                    return (ia, ib) => comparator(reX[ia], imX[ia], reX[ib], imX[ib]);
+                }
+                return (ia, ib) => comparator(reX[ia], 0, reX[ib], 0);
+            } else {
+                let comparator = ComparisonHelper.compareComplexByRealAsc;
+                if (isComplex) {
+                    let imX = X.imagData;
+                    return (ia, ib) => comparator(reX[ia], imX[ia], reX[ib], imX[ib]);
+                }
+                return (ia, ib) => ComparisonHelper.compareNumberAsc(reX[ia], reX[ib]);
+            }
+        };
+
+        /**
+         * Creates reduction operations finding the extreme values for each
+         * comparison method.
+         */
+        const makeExtremumOps = (fReal: RIRIOReducer, fComplex: typeof DataFunction.cmin) => {
+            const config = { outputDTypeResolver: OutputDTypeResolver.uOnlyLogicToFloat64 };
+            const byAbs = ComparisonHelper.compareComplexByAbsAsc;
+            const byReal = ComparisonHelper.compareComplexByRealAsc;
+            return {
+                auto: reductionOpGen.makeOpWithIndexOutput(fReal,
+                    (reX, imX, offset, stride, n) => fComplex(reX, imX, offset, stride, n, byAbs), config),
+                real: reductionOpGen.makeOpWithIndexOutput(fReal,
+                    (reX, imX, offset, stride, n) => fComplex(reX, imX, offset, stride, n, byReal), config),
+                abs: reductionOpGen.makeOpWithIndexOutput(
+                    (reX, offset, stride, n) => {
+                        let result = fComplex(reX, undefined, offset, stride, n, byAbs);
+                        return [result[0], result[2]];
+                    },
+                    (reX, imX, offset, stride, n) => fComplex(reX, imX, offset, stride, n, byAbs), config)
+            };
+        };
+
+        const minOps = makeExtremumOps(DataFunction.min, DataFunction.cmin);
 
-        const opMax = reductionOpGen.makeRealOnlyOpWithIndexOutput(
-            DataFunction.max, { outputDTypeResolver: OutputDTypeResolver.uOnlyLogicToFloat64 });
+        const maxOps = makeExtremumOps(DataFunction.max, DataFunction.cmax);
+
+        function opMin(x: RealOpInput, axis?: number | number[] | null, keepDims?: boolean,
+                       comparisonMethod?: 'auto' | 'real' | 'abs'): RealOpOutputWithIndex;
+        function opMin(x: OpInput, axis?: number | number[] | null, keepDims?: boolean,
+                       comparisonMethod?: 'auto' | 'real' | 'abs'): OpOutputWithIndex;
+        function opMin(x: OpInput, axis?: number | number[] | null, keepDims?: boolean,
+                       comparisonMethod: 'auto' | 'real' | 'abs' = 'auto'): OpOutputWithIndex {
+            checkComparisonMethod(comparisonMethod);
+            return minOps[comparisonMethod](x, axis, keepDims);
+        }
+
+        function opMax(x: RealOpInput, axis?: number | number[] | null, keepDims?: boolean,
+                       comparisonMethod?: 'auto' | 'real' | 'abs'): RealOpOutputWithIndex;
+        function opMax(x: OpInput, axis?: number | number[] | null, keepDims?: boolean,
+                       comparisonMethod?: 'auto' | 'real' | 'abs'): OpOutputWithIndex;
+        function opMax(x: OpInput, axis?: number | number[] | null, keepDims?: boolean,
+                       comparisonMethod: 'auto' | 'real' | 'abs' = 'auto'): OpOutputWithIndex {
+            checkComparisonMethod(comparisonMethod);
+            return maxOps[comparisonMethod](x, axis, keepDims);
+        }
 
         const opSum = reductionOpGen.makeOp(
             DataFunction.sum, (reX, imX, offset, stride, n) => {
                 return [DataFunction.sum(reX, offset, stride, n),
                         DataFunction.sum(imX, offset, stride, n)]
-            }, true, { outputDTypeResolver: OutputDTypeResolver.uOnlyLogicToFloat64 });
+            }, true, { outputDTypeResolver: OutputDTypeResolver.uWidenForAccumulation });
 
         const opProd = reductionOpGen.makeOp(
             DataFunction.prod, DataFunction.cprod, true,
-            { outputDTypeResolver: OutputDTypeResolver.uOnlyLogicToFloat64 });
+            { outputDTypeResolver: OutputDTypeResolver.uWidenForAccumulation });
 
-        const opMean = reductionOpGen.makeOp(
+        const opUnweightedMean = reductionOpGen.makeOp(
             (reX, offset, stride, n) => {
                 return DataFunction.sum(reX, offset, stride, n) / n;
             }, (reX, imX, offset, stride, n) => {
@@ -60,72 +139,304 @@ export class DataOpProviderFactory implements IJasmalModuleFactory<IDataOpProvid
         const opMode = reductionOpGen.makeRealOnlyOp(
             DataFunction.mode, { outputDTypeResolver: OutputDTypeResolver.uNoChange });
 
-        const opVar = reductionOpGen.makeOp(
+        const opSampleVar = reductionOpGen.makeOp(
             DataFunction.var, DataFunction.cvar, false,
             { outputDTypeResolver: OutputDTypeResolver.uToFloat64 });
 
-        const opStd = reductionOpGen.makeOp(
+        const opSampleStd = reductionOpGen.makeOp(
             (reX, offset, stride, n) => {
                 return Math.sqrt(DataFunction.var(reX, offset, stride, n));
             }, (reX, imX, offset, stride, n) => {
                 return Math.sqrt(DataFunction.cvar(reX, imX, offset, stride, n));
             }, false, {outputDTypeResolver: OutputDTypeResolver.uToFloat64 });
 
-        const opCumsum = (x: OpInput, axis: number = -1): Tensor => {
-            let X = x instanceof Tensor ? x.copy(true) : Tensor.toTensor(x);
-            // cumsum can be done in place
-            if (axis < 0 || (axis === 0 && X.ndim === 1)) {
-                let re = X.realData;
-                for (let i = 1;i < re.length;i++) {
-                    re[i] += re[i - 1];
+        const toRealTensor = (x: RealOpInput): Tensor => {
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            if (X.hasNonZeroComplexStorage()) {
+                throw new Error('Complex input is not supported.');
+            }
+            return X;
+        };
+
+        /**
+         * Returns the number of elements reduced along the specified axis
+         * (axes).
+         */
+        const getReducedLength = (X: Tensor, axis: number | number[] | null): number => {
+            if (axis === null || (!Array.isArray(axis) && axis < 0)) {
+                return X.size;
+            }
+            let axes = Array.isArray(axis) ? axis : [axis];
+            let n = 1;
+            for (let i = 0;i < axes.length;i++) {
+                n *= X.shape[axes[i]];
+            }
+            return n;
+        };
+
+        /**
+         * Reshapes the weights so that they can be broadcast against x along
+         * the specified axis.
+         */
+        const prepareWeights = (X: Tensor, weights: RealOpInput, axis: number | number[] | null): Tensor => {
+            let W = toRealTensor(weights);
+            let reW = W.realData;
+            for (let i = 0;i < reW.length;i++) {
+                if (!(reW[i] >= 0)) {
+                    throw new Error('Weights must be nonnegative.');
                 }
-                if (X.hasComplexStorage()) {
-                    let im = X.imagData;
-                    for (let i = 1;i < im.length;i++) {
-                        im[i] += im[i - 1];
-                    }
+            }
+            if (axis === null || (!Array.isArray(axis) && axis < 0)) {
+                if (W.size !== X.size) {
+                    throw new Error('The number of weights must match the number of elements.');
                 }
-                X.reshape([-1]);
-            } else {
-                // check axis
+                return coreOp.reshape(W, X.shape);
+            }
+            if (!Array.isArray(axis)) {
                 if (axis >= X.ndim) {
                     throw new Error(`Invalid axis number ${axis}.`);
                 }
-                let shape = X.shape;
-                let n = shape[axis];
-                if (n !== 1) {
-                    // no need to do any thing if n = 1
-                    let strides = X.strides;
-                    let stride = strides[axis];
-                    let maxLevel = X.ndim - 1;
-                    let doCumsum = (data: DataBlock, level: number, offset: number): void => {
-                        if (level === maxLevel) {
-                            for (let i = level === axis ? 1 : 0;i < shape[level];i++) {
-                                data[offset + i] += data[offset + i - stride];
-                            }
-                        } else {
-                            let i;
-                            if (level === axis) {
-                                i = 1;
-                                offset += strides[level];
+                if (W.ndim === 1 && X.ndim > 1) {
+                    if (W.size !== X.shape[axis]) {
+                        throw new Error(`The number of weights must match the length of axis ${axis}.`);
+                    }
+                    let shapeW = X.shape.map(() => 1);
+                    shapeW[axis] = W.size;
+                    return coreOp.reshape(W, shapeW);
+                }
+            }
+            if (!ShapeHelper.compareShape(W.shape, X.shape)) {
+                throw new Error('Weights must have the same shape as the input.');
+            }
+            return W;
+        };
+
+        const weightedMean = (X: Tensor, W: Tensor, axis: number | number[] | null, keepDims: boolean): OpOutput => {
+            return arithOp.div(opSum(arithOp.mul(X, W), axis, keepDims), opSum(W, axis, keepDims));
+        };
+
+        const opMean = (x: OpInput, axis: number | number[] | null = -1, keepDims: boolean = false,
+                        weights?: RealOpInput): OpOutput => {
+            if (weights == undefined) {
+                return opUnweightedMean(x, axis, keepDims);
+            }
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            return weightedMean(X, prepareWeights(X, weights, axis), axis, keepDims);
+        };
+
+        const opVar = (x: OpInput, axis: number | number[] | null = -1, keepDims: boolean = false, ddof: number = 1,
+                       weights?: RealOpInput): RealOpOutput => {
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            if (weights == undefined) {
+                let v = opSampleVar(X, axis, keepDims);
+                if (ddof === 1) {
+                    return v;
+                }
+                // rescales the sample variance
+                let n = getReducedLength(X, axis);
+                let c = n - ddof > 0 ? (n - 1) / (n - ddof) : NaN;
+                return <RealOpOutput>arithOp.mul(v, c, v instanceof Tensor);
+            }
+            let W = prepareWeights(X, weights, axis);
+            if (ddof === 1 && getReducedLength(X, axis) === 1) {
+                // same as the unweighted case
+                return opSampleVar(X, axis, keepDims);
+            }
+            let D = mathOp.abs(arithOp.sub(X, weightedMean(X, W, axis, true)));
+            let s = opSum(arithOp.mul(W, arithOp.mul(D, D)), axis, keepDims);
+            let d = arithOp.sub(opSum(W, axis, keepDims), ddof);
+            // the divisor sum(w) - ddof must be positive
+            if (d instanceof Tensor) {
+                d = d.asType(DType.FLOAT64);
+                let reD = d.realData;
+                for (let i = 0;i < reD.length;i++) {
+                    if (!(reD[i] > 0)) {
+                        reD[i] = NaN;
+                    }
+                }
+            } else if (!(<number>d > 0)) {
+                d = NaN;
+            }
+            return <RealOpOutput>arithOp.div(s, d);
+        };
+
+        const opStd = (x: OpInput, axis: number | number[] | null = -1, keepDims: boolean = false, ddof: number = 1,
+                       weights?: RealOpInput): RealOpOutput => {
+            if (ddof === 1 && weights == undefined) {
+                return opSampleStd(x, axis, keepDims);
+            }
+            let v = opVar(x, axis, keepDims, ddof, weights);
+            return <RealOpOutput>mathOp.sqrt(v, v instanceof Tensor);
+        };
+
+        const opNansum = reductionOpGen.makeOp(
+            DataFunction.nansum, DataFunction.cnansum, true,
+            { outputDTypeResolver: OutputDTypeResolver.uWidenForAccumulation });
+
+        const opNanmean = reductionOpGen.makeOp(
+            DataFunction.nanmean, DataFunction.cnanmean, true,
+            { outputDTypeResolver: OutputDTypeResolver.uToFloat64 });
+
+        /**
+         * Converts a complex extremum finder into a real reducer. Because the
+         * complex extremum finders skip NaNs, so does the resulting reducer.
+         */
+        const toNaNIgnoringReducer = (fComplex: typeof DataFunction.cmin): RIRIOReducer => {
+            return (reX, offset, stride, n) => {
+                let result = fComplex(reX, undefined, offset, stride, n, ComparisonHelper.compareComplexByRealAsc);
+                return [result[0], result[2]];
+            };
+        };
+
+        const nanMinOps = makeExtremumOps(toNaNIgnoringReducer(DataFunction.cmin), DataFunction.cmin);
+
+        const nanMaxOps = makeExtremumOps(toNaNIgnoringReducer(DataFunction.cmax), DataFunction.cmax);
+
+        function opNanmin(x: RealOpInput, axis?: number | number[] | null, keepDims?: boolean,
+                          comparisonMethod?: 'auto' | 'real' | 'abs'): RealOpOutputWithIndex;
+        function opNanmin(x: OpInput, axis?: number | number[] | null, keepDims?: boolean,
+                          comparisonMethod?: 'auto' | 'real' | 'abs'): OpOutputWithIndex;
+        function opNanmin(x: OpInput, axis?: number | number[] | null, keepDims?: boolean,
+                          comparisonMethod: 'auto' | 'real' | 'abs' = 'auto'): OpOutputWithIndex {
+            checkComparisonMethod(comparisonMethod);
+            return nanMinOps[comparisonMethod](x, axis, keepDims);
+        }
+
+        function opNanmax(x: RealOpInput, axis?: number | number[] | null, keepDims?: boolean,
+                          comparisonMethod?: 'auto' | 'real' | 'abs'): RealOpOutputWithIndex;
+        function opNanmax(x: OpInput, axis?: number | number[] | null, keepDims?: boolean,
+                          comparisonMethod?: 'auto' | 'real' | 'abs'): OpOutputWithIndex;
+        function opNanmax(x: OpInput, axis?: number | number[] | null, keepDims?: boolean,
+                          comparisonMethod: 'auto' | 'real' | 'abs' = 'auto'): OpOutputWithIndex {
+            checkComparisonMethod(comparisonMethod);
+            return nanMaxOps[comparisonMethod](x, axis, keepDims);
+        }
+
+        const opNanvar = reductionOpGen.makeOp(
+            DataFunction.nanvar, DataFunction.cnanvar, false,
+            { outputDTypeResolver: OutputDTypeResolver.uToFloat64 });
+
+        const opNanstd = reductionOpGen.makeOp(
+            (reX, offset, stride, n) => {
+                return Math.sqrt(DataFunction.nanvar(reX, offset, stride, n));
+            }, (reX, imX, offset, stride, n) => {
+                return Math.sqrt(DataFunction.cnanvar(reX, imX, offset, stride, n));
+            }, false, { outputDTypeResolver: OutputDTypeResolver.uToFloat64 });
+
+        const opNanmedian = reductionOpGen.makeRealOnlyOp(
+            DataFunction.nanmedian, { outputDTypeResolver: OutputDTypeResolver.uToFloat64 });
+
+        /**
+         * Creates a cumulative operation. The operation makes a copy of the
+         * input with the output data type and accumulates the elements along
+         * the specified axis in place.
+         * @param outputDTypeResolver Determines the output data type.
+         * @param fReal Updates the i-th element of a real vector using the
+         *              j-th element, which is the previous element along the
+         *              axis and has already been updated.
+         * @param fComplex Updates the i-th element of a complex vector using
+         *                 the j-th element.
+         */
+        const makeCumulativeOp = (outputDTypeResolver: (t: DType, isComplex: boolean) => DType | undefined,
+                                  fReal: (re: DataBlock, i: number, j: number) => void,
+                                  fComplex: (re: DataBlock, im: DataBlock, i: number, j: number) => void) => {
+            return (x: OpInput, axis: number = -1): Tensor => {
+                let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+                let isComplex = X.hasNonZeroComplexStorage();
+                let outputDType = outputDTypeResolver(X.dtype, isComplex);
+                if (outputDType == undefined) {
+                    throw new Error('Failed to determine the output dtype.');
+                }
+                // Narrow integer types may be widened to avoid overflows.
+                // Because the accumulation is done in place, we always make a
+                // copy here.
+                X = X.asType(outputDType, true);
+                let n: number, nInner = 1;
+                if (axis < 0 || (axis === 0 && X.ndim === 1)) {
+                    X.reshape([-1]);
+                    n = X.size;
+                } else {
+                    // check axis
+                    if (axis >= X.ndim) {
+                        throw new Error(`Invalid axis number ${axis}.`);
+                    }
+                    let shape = X.shape;
+                    n = shape[axis];
+                    for (let i = axis + 1;i < shape.length;i++) {
+                        nInner *= shape[i];
+                    }
+                }
+                if (X.size === 0) {
+                    return X;
+                }
+                let nOuter = X.size / (n * nInner);
+                let re = X.realData;
+                let im = isComplex ? X.imagData : undefined;
+                for (let i = 0;i < nOuter;i++) {
+                    for (let j = 0;j < nInner;j++) {
+                        let offset = i * n * nInner + j;
+                        for (let k = 1;k < n;k++) {
+                            let cur = offset + k * nInner;
+                            if (im) {
+                                fComplex(re, im, cur, cur - nInner);
                             } else {
-                                i = 0;
-                            }
-                            for (;i < shape[level];i++) {
-                                doCumsum(data, level + 1, offset);
-                                offset += strides[level];
+                                fReal(re, cur, cur - nInner);
                             }
                         }
-                    };
-                    doCumsum(X.realData, 0, 0);
-                    if (X.hasComplexStorage()) {
-                        doCumsum(X.imagData, 0, 0);
                     }
                 }
-            }
-            return X;
+                return X;
+            };
         };
 
+        const opCumsum = makeCumulativeOp(OutputDTypeResolver.uWidenForAccumulation,
+            (re, i, j) => {
+                re[i] += re[j];
+            },
+            (re, im, i, j) => {
+                re[i] += re[j];
+                im[i] += im[j];
+            });
+
+        const opCumprod = makeCumulativeOp(OutputDTypeResolver.uWidenForAccumulation,
+            (re, i, j) => {
+                re[i] *= re[j];
+            },
+            (re, im, i, j) => {
+                let a = re[i], b = im[i];
+                re[i] = a * re[j] - b * im[j];
+                im[i] = a * im[j] + b * re[j];
+            });
+
+        /**
+         * Creates a cumulative operation that finds the running extrema while
+         * ignoring NaNs. Complex numbers are compared by their magnitudes and
+         * then their phase angles.
+         * @param sign 1 for maximum and -1 for minimum.
+         */
+        const makeCumulativeExtremumOp = (sign: number) => {
+            const comparator = ComparisonHelper.compareComplexByAbsAsc;
+            return makeCumulativeOp(OutputDTypeResolver.uOnlyLogicToFloat64,
+                (re, i, j) => {
+                    if (isNaN(re[i]) || sign * (re[j] - re[i]) > 0) {
+                        re[i] = re[j];
+                    }
+                },
+                (re, im, i, j) => {
+                    if (isNaN(re[j]) || isNaN(im[j])) {
+                        return;
+                    }
+                    if (isNaN(re[i]) || isNaN(im[i]) || sign * comparator(re[j], im[j], re[i], im[i]) > 0) {
+                        re[i] = re[j];
+                        im[i] = im[j];
+                    }
+                });
+        };
+
+        const opCummax = makeCumulativeExtremumOp(1);
+
+        const opCummin = makeCumulativeExtremumOp(-1);
+
         const opCov = (x: OpInput, y: OpInput = x, samplesInColumns: boolean = true): Tensor => {
             let X = x instanceof Tensor ? x : Tensor.toTensor(x);
             if (X.ndim === 1) {
@@ -188,105 +499,344 @@ export class DataOpProviderFactory implements IJasmalModuleFactory<IDataOpProvid
             return C;
         };
 
-        const opInPlaceComplexTransform = (x: OpInput, f: (re: DataBlock, im: DataBlock) => void, axis: number): Tensor => {
-            let X = x instanceof Tensor ? x.asType(DType.FLOAT64, true) : Tensor.toTensor(x);
-            X.ensureComplexStorage();
-            if (axis < 0 || (axis === 0 && X.ndim === 1)) {
-                f(X.realData, X.imagData);
+        /**
+         * Applies a 1D transform to every vector along the specified axis and
+         * stores the results in a new FLOAT64 tensor.
+         * @param x Input.
+         * @param axis Axis along which the transform is applied. If negative,
+         *             the input is treated as a flattened vector. In this case
+         *             the output keeps the shape of the input if the length is
+         *             unchanged and becomes a 1D vector otherwise.
+         * @param outputLength Computes the length of the output vectors from
+         *                     the length of the input vectors.
+         * @param complexOutput Whether the output is complex.
+         * @param f Transform function which reads the input vector from
+         *          (reIn, imIn) and writes the output vector to (reOut, imOut).
+         *          imIn is filled with zeros if the input is real. imOut is
+         *          ignored if the output is real.
+         */
+        const transformAlongAxis = (x: OpInput, axis: number, outputLength: (n: number) => number,
+                                    complexOutput: boolean,
+                                    f: (reIn: DataBlock, imIn: DataBlock, reOut: DataBlock, imOut: DataBlock) => void): Tensor => {
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            let shapeX = X.shape;
+            let shapeY: number[];
+            let n: number, nOut: number;
+            let nOuter: number, nInner: number;
+            if (axis < 0) {
+                n = X.size;
+                nOut = outputLength(n);
+                shapeY = nOut === n ? shapeX : [nOut];
+                nOuter = 1;
+                nInner = 1;
             } else {
                 if (axis >= X.ndim) {
                     throw new Error(`Invalid axis number ${axis}.`);
                 }
-                let shapeX = X.shape;
-                let n = shapeX[axis];
-                let tmpReArr = DataHelper.allocateFloat64Array(n);
-                let tmpImArr = DataHelper.allocateFloat64Array(n);
-                let strides = X.strides;
-                let strideAtAxis = strides[axis];
-                let maxLevel = X.ndim - 1;
-                let doTransform = (re: DataBlock, im: DataBlock, level: number, offset: number): void => {
-                    let i: number;
-                    let maxI = level === axis ? 1 : shapeX[level];
-                    if (level === maxLevel) {
-                        for (i = 0;i < maxI;i++) {
-                            // Copy data to tmp array
-                            for (let k = 0;k < n;k++) {
-                                tmpReArr[k] = re[strideAtAxis * k + offset];
-                                tmpImArr[k] = im[strideAtAxis * k + offset];
-                            }
-                            // Do tranform
-                            f(tmpReArr, tmpImArr);
-                            // Copy back
-                            for (let k = 0;k < n;k++) {
-                                re[strideAtAxis * k + offset] = tmpReArr[k];
-                                im[strideAtAxis * k + offset] = tmpImArr[k];
-                            }
-                            offset++;
+                n = shapeX[axis];
+                nOut = outputLength(n);
+                shapeY = shapeX.slice();
+                shapeY[axis] = nOut;
+                nOuter = 1;
+                for (let i = 0;i < axis;i++) {
+                    nOuter *= shapeX[i];
+                }
+                nInner = 1;
+                for (let i = axis + 1;i < X.ndim;i++) {
+                    nInner *= shapeX[i];
+                }
+            }
+            let Y = Tensor.zeros(shapeY);
+            if (complexOutput) {
+                Y.ensureComplexStorage();
+            }
+            let reX = X.realData;
+            let imX = X.hasComplexStorage() ? X.imagData : undefined;
+            let reY = Y.realData;
+            let imY = complexOutput ? Y.imagData : undefined;
+            let tmpReIn = DataHelper.allocateFloat64Array(n);
+            let tmpImIn = DataHelper.allocateFloat64Array(n);
+            let tmpReOut = DataHelper.allocateFloat64Array(nOut);
+            let tmpImOut = DataHelper.allocateFloat64Array(nOut);
+            for (let i = 0;i < nOuter;i++) {
+                for (let j = 0;j < nInner;j++) {
+                    let offsetX = i * n * nInner + j;
+                    let offsetY = i * nOut * nInner + j;
+                    // Copy data to tmp array
+                    for (let k = 0;k < n;k++) {
+                        tmpReIn[k] = reX[offsetX + k * nInner];
+                        tmpImIn[k] = imX ? imX[offsetX + k * nInner] : 0;
+                    }
+                    // Do transform
+                    f(tmpReIn, tmpImIn, tmpReOut, tmpImOut);
+                    // Copy to the output
+                    for (let k = 0;k < nOut;k++) {
+                        reY[offsetY + k * nInner] = tmpReOut[k];
+                    }
+                    if (imY) {
+                        for (let k = 0;k < nOut;k++) {
+                            imY[offsetY + k * nInner] = tmpImOut[k];
+                        }
+                    }
+                }
+            }
+            return Y;
+        };
+
+        const checkTransformLength = (n: number): void => {
+            if (n <= 0 || Math.floor(n) !== n) {
+                throw new Error('Transform length must be a positive integer.');
+            }
+        };
+
+        /**
+         * Copies the first min(n, m) elements from x (length n) to y (length m)
+         * and fills the remaining elements of y with zeros.
+         */
+        const copyWithPadding = (x: ArrayLike<number>, y: DataBlock): void => {
+            let nCopy = Math.min(x.length, y.length);
+            for (let k = 0;k < nCopy;k++) {
+                y[k] = x[k];
+            }
+            for (let k = nCopy;k < y.length;k++) {
+                y[k] = 0;
+            }
+        };
+
+        const complexFFT = (x: OpInput, n: number | undefined, axis: number, forward: boolean): Tensor => {
+            if (n !== undefined) {
+                checkTransformLength(n);
+            }
+            return transformAlongAxis(x, axis, (nIn) => n === undefined ? nIn : n, true,
+                (reIn, imIn, reOut, imOut) => {
+                    copyWithPadding(reIn, reOut);
+                    copyWithPadding(imIn, imOut);
+                    FFT.FFT(reOut, imOut, forward);
+                });
+        };
+
+        const opFFT = (x: OpInput, n?: number, axis: number = -1): Tensor => {
+            return complexFFT(x, n, axis, true);
+        };
+
+        const opIFFT = (x: OpInput, n?: number, axis: number = -1): Tensor => {
+            return complexFFT(x, n, axis, false);
+        };
+
+        const opRFFT = (x: RealOpInput, n?: number, axis: number = -1): Tensor => {
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            if (X.hasNonZeroComplexStorage()) {
+                throw new Error('Input must be real.');
+            }
+            if (n !== undefined) {
+                checkTransformLength(n);
+            }
+            let work: DataBlock;
+            return transformAlongAxis(X, axis, (nIn) => ((n === undefined ? nIn : n) >> 1) + 1, true,
+                (reIn, _imIn, reOut, imOut) => {
+                    let nt = n === undefined ? reIn.length : n;
+                    if (nt === reIn.length) {
+                        FFT.RFFT(reIn, reOut, imOut);
+                    } else {
+                        if (!work) {
+                            work = DataHelper.allocateFloat64Array(nt);
                         }
+                        copyWithPadding(reIn, work);
+                        FFT.RFFT(work, reOut, imOut);
+                    }
+                });
+        };
+
+        const opIRFFT = (x: OpInput, n?: number, axis: number = -1): Tensor => {
+            if (n !== undefined) {
+                checkTransformLength(n);
+            }
+            let reWork: DataBlock, imWork: DataBlock;
+            return transformAlongAxis(x, axis, (nIn) => {
+                    let nt = n === undefined ? 2 * (nIn - 1) : n;
+                    if (nt <= 0) {
+                        throw new Error('Cannot determine the output length from a single element. Please specify n.');
+                    }
+                    return nt;
+                }, false,
+                (reIn, imIn, reOut, _imOut) => {
+                    let m = (reOut.length >> 1) + 1;
+                    if (reIn.length >= m) {
+                        FFT.IRFFT(reIn, imIn, reOut);
                     } else {
-                        // Recursive calling
-                        for (i = 0;i < maxI;i++) {
-                            doTransform(re, im, level + 1, offset);
-                            offset += strides[level];
+                        if (!reWork) {
+                            reWork = DataHelper.allocateFloat64Array(m);
+                            imWork = DataHelper.allocateFloat64Array(m);
                         }
+                        copyWithPadding(reIn, reWork);
+                        copyWithPadding(imIn, imWork);
+                        FFT.IRFFT(reWork, imWork, reOut);
                     }
-                }
-                doTransform(X.realData, X.imagData, 0, 0);
+                });
+        };
+
+        const multiAxisFFT = (x: OpInput, axes: number[], shape: number[] | undefined, forward: boolean): Tensor => {
+            if (shape !== undefined && shape.length !== axes.length) {
+                throw new Error(`Expecting a shape of length ${axes.length}. Got ${shape.length}.`);
+            }
+            let Y = x instanceof Tensor ? x : Tensor.toTensor(x);
+            for (let i = 0;i < axes.length;i++) {
+                Y = complexFFT(Y, shape === undefined ? undefined : shape[i], axes[i], forward);
+            }
+            return Y;
+        };
+
+        const checkFFT2Input = (x: OpInput): Tensor => {
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            if (X.ndim < 2) {
+                throw new Error('Input must be at least two dimensional.');
             }
             return X;
         };
 
-        const opFFT = (x: OpInput, axis: number = -1): Tensor => {
-            return opInPlaceComplexTransform(x, (re, im) => FFT.FFT(re, im, true), axis);
+        const opFFT2 = (x: OpInput, shape?: number[]): Tensor => {
+            return multiAxisFFT(checkFFT2Input(x), [0, 1], shape, true);
         };
 
-        const opIFFT = (x: OpInput, axis: number = -1): Tensor => {
-            return opInPlaceComplexTransform(x, (re, im) => FFT.FFT(re, im, false), axis);
+        const opIFFT2 = (x: OpInput, shape?: number[]): Tensor => {
+            return multiAxisFFT(checkFFT2Input(x), [0, 1], shape, false);
         };
 
-        function opSort(x: OpInput, dir: 'asc' | 'desc', outputIndices: false): Tensor;
-        function opSort(x: OpInput, dir: 'asc' | 'desc', outputIndices: true): [Tensor, number[]];
-        function opSort(x: OpInput, dir: 'asc' | 'desc', outputIndices: boolean): Tensor | [Tensor, number[]] {
+        const allAxes = (x: OpInput): [Tensor, number[]] => {
             let X = x instanceof Tensor ? x : Tensor.toTensor(x);
-            if (X.hasNonZeroComplexStorage()) {
-                throw new Error('Sorting complex elements is not supported.');
+            let axes: number[] = [];
+            for (let i = 0;i < X.ndim;i++) {
+                axes.push(i);
+            }
+            return [X, axes];
+        };
+
+        const opFFTN = (x: OpInput, shape?: number[]): Tensor => {
+            let [X, axes] = allAxes(x);
+            return multiAxisFFT(X, axes, shape, true);
+        };
+
+        const opIFFTN = (x: OpInput, shape?: number[]): Tensor => {
+            let [X, axes] = allAxes(x);
+            return multiAxisFFT(X, axes, shape, false);
+        };
+
+        /**
+         * Circularly shifts the elements along the specified axis (or all axes
+         * if axis is negative) such that the element at index k is moved to
+         * index (k + shift(n)) % n, where n is the length of the axis.
+         */
+        const circularShift = (x: OpInput, axis: number, shift: (n: number) => number): Tensor => {
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            if (axis >= X.ndim) {
+                throw new Error(`Invalid axis number ${axis}.`);
+            }
+            let shapeX = X.shape;
+            let Y = X;
+            for (let d = 0;d < X.ndim;d++) {
+                if (axis >= 0 && d !== axis) {
+                    continue;
+                }
+                let n = shapeX[d];
+                let s = shift(n);
+                let indices: number[] = new Array(n);
+                for (let k = 0;k < n;k++) {
+                    indices[(k + s) % n] = k;
+                }
+                let args: any[] = [];
+                for (let i = 0;i < X.ndim;i++) {
+                    args.push(i === d ? indices : ':');
+                }
+                Y = <Tensor>Y.get.apply(Y, args);
+            }
+            return Y === X ? X.copy() : Y;
+        };
+
+        const opFFTShift = (x: OpInput, axis: number = -1): Tensor => {
+            return circularShift(x, axis, (n) => n >> 1);
+        };
+
+        const opIFFTShift = (x: OpInput, axis: number = -1): Tensor => {
+            return circularShift(x, axis, (n) => n - (n >> 1));
+        };
+
+        const opFFTFreq = (n: number, d: number = 1): Tensor => {
+            checkTransformLength(n);
+            let Y = Tensor.zeros([n]);
+            let y = Y.realData;
+            let scale = 1 / (n * d);
+            let nPos = n - (n >> 1);
+            for (let i = 0;i < nPos;i++) {
+                y[i] = i * scale;
+            }
+            for (let i = nPos;i < n;i++) {
+                y[i] = (i - n) * scale;
+            }
+            return Y;
+        };
+
+        const opRFFTFreq = (n: number, d: number = 1): Tensor => {
+            checkTransformLength(n);
+            let m = (n >> 1) + 1;
+            let Y = Tensor.zeros([m]);
+            let y = Y.realData;
+            let scale = 1 / (n * d);
+            for (let i = 0;i < m;i++) {
+                y[i] = i * scale;
             }
+            return Y;
+        };
+
+        function opSort(x: OpInput, dir: 'asc' | 'desc', outputIndices: false,
+                        comparisonMethod?: 'auto' | 'real' | 'abs'): Tensor;
+        function opSort(x: OpInput, dir: 'asc' | 'desc', outputIndices: true,
+                        comparisonMethod?: 'auto' | 'real' | 'abs'): [Tensor, number[]];
+        function opSort(x: OpInput, dir: 'asc' | 'desc', outputIndices: boolean,
+                        comparisonMethod: 'auto' | 'real' | 'abs' = 'auto'): Tensor | [Tensor, number[]] {
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            let comparator = createElementComparator(X, comparisonMethod);
             let n = X.size;
             let Y = Tensor.zeros([n]);
-            let dataX = X.realData, dataY = Y.realData;
             let indices = DataHelper.naturalNumbers(n);
             // JavaScript's builtin sort is not stable. Since we want the
             // indices, we can obtain a stable sort by comparing their indices
             // when two elements are equal.
-            let comparator = ComparisonHelper.compareNumberWithIndexAsc;
-            if (dir === 'asc') {
-                indices.sort((ia, ib) => comparator(dataX[ia], dataX[ib], ia, ib));
-            } else {
-                indices.sort((ia, ib) => comparator(dataX[ib], dataX[ia], ia, ib));
-            }
+            let sign = dir === 'asc' ? 1 : -1;
+            indices.sort((ia, ib) => {
+                let cur = sign * comparator(ia, ib);
+                return cur !== 0 ? cur : (ia > ib ? 1 : -1);
+            });
+            let reX = X.realData, reY = Y.realData;
             for (let i = 0;i < n;i++) {
-                dataY[i] = dataX[indices[i]];
+                reY[i] = reX[indices[i]];
+            }
+            if (X.hasNonZeroComplexStorage()) {
+                Y.ensureComplexStorage();
+                let imX = X.imagData, imY = Y.imagData;
+                for (let i = 0;i < n;i++) {
+                    imY[i] = imX[indices[i]];
+                }
             }
             return outputIndices ? [Y, indices] : Y;
         }
 
-        function opSortRows(x: OpInput, dir: 'asc' | 'desc', outputIndices: false): Tensor;
-        function opSortRows(x: OpInput, dir: 'asc' | 'desc', outputIndices: true): [Tensor, number[]];
-        function opSortRows(x: OpInput, dir: 'asc' | 'desc', outputIndices: boolean): Tensor | [Tensor, number[]] {
+        function opSortRows(x: OpInput, dir: 'asc' | 'desc', outputIndices: false,
+                            comparisonMethod?: 'auto' | 'real' | 'abs'): Tensor;
+        function opSortRows(x: OpInput, dir: 'asc' | 'desc', outputIndices: true,
+                            comparisonMethod?: 'auto' | 'real' | 'abs'): [Tensor, number[]];
+        function opSortRows(x: OpInput, dir: 'asc' | 'desc', outputIndices: boolean,
+                            comparisonMethod: 'auto' | 'real' | 'abs' = 'auto'): Tensor | [Tensor, number[]] {
             let X = x instanceof Tensor ? x : Tensor.toTensor(x);
             if (X.ndim !== 2) {
                 throw new Error('Matrix expected.');
             }
-            if (X.hasNonZeroComplexStorage()) {
-                throw new Error('Sorting complex elements is not supported.');
-            }
-            let dataX = X.realData;
+            let comparator = createElementComparator(X, comparisonMethod);
             let [m, n] = X.shape;
             let indices = DataHelper.naturalNumbers(m);
-            let comparator = dir === 'asc' ? ComparisonHelper.compareNumberAsc : ComparisonHelper.compareNumberDesc;
+            let sign = dir === 'asc' ? 1 : -1;
             indices.sort((ia, ib) => {
                 for (let j = 0;j < n;j++) {
-                    let cur = comparator(dataX[ia * n + j], dataX[ib * n + j]);
+                    let cur = sign * comparator(ia * n + j, ib * n + j);
                     if (cur !== 0) {
                         return cur;
                     }
@@ -394,24 +944,444 @@ export class DataOpProviderFactory implements IJasmalModuleFactory<IDataOpProvid
             return [H, E];
         };
 
+        /**
+         * Extracts the k-th output from the output of transformAlongAxis() so
+         * that it has the same shape as the outputs of the reductions
+         * generated by ReductionOpGenerator.
+         * @param Y Output of transformAlongAxis().
+         * @param shapeX Shape of the input of transformAlongAxis().
+         * @param axis
+         * @param keepDims
+         * @param k
+         */
+        const takeReduced = (Y: Tensor, shapeX: number[], axis: number, keepDims: boolean, k: number): OpOutput => {
+            let reY = Y.realData;
+            let imY = Y.hasComplexStorage() ? Y.imagData : undefined;
+            if (axis < 0 || (axis === 0 && shapeX.length === 1)) {
+                let im = imY ? imY[k] : 0;
+                if (keepDims) {
+                    return Tensor.scalar(reY[k], im, DType.FLOAT64, shapeX.length);
+                }
+                return im === 0 ? reY[k] : new ComplexNumber(reY[k], im);
+            }
+            let nOut = Y.shape[axis];
+            let shapeZ = shapeX.slice();
+            if (keepDims) {
+                shapeZ[axis] = 1;
+            } else {
+                shapeZ.splice(axis, 1);
+            }
+            let Z = Tensor.zeros(shapeZ);
+            let reZ = Z.realData;
+            let imZ = imY ? Z.ensureComplexStorage().imagData : undefined;
+            let nInner = 1;
+            for (let i = axis + 1;i < shapeX.length;i++) {
+                nInner *= shapeX[i];
+            }
+            let nOuter = reZ.length / nInner;
+            for (let i = 0;i < nOuter;i++) {
+                for (let j = 0;j < nInner;j++) {
+                    reZ[i * nInner + j] = reY[(i * nOut + k) * nInner + j];
+                    if (imY && imZ) {
+                        imZ[i * nInner + j] = imY[(i * nOut + k) * nInner + j];
+                    }
+                }
+            }
+            return Z;
+        };
+
+        /**
+         * Reduces every real vector along the specified axis to nOut numbers.
+         * Returns nOut outputs with the same shapes as the outputs of the
+         * reductions generated by ReductionOpGenerator.
+         * @param X Real input.
+         * @param axis
+         * @param keepDims
+         * @param nOut Number of outputs.
+         * @param f Reads the input vector from x and writes the outputs to y.
+         */
+        const reduceAlongAxis = (X: Tensor, axis: number, keepDims: boolean, nOut: number,
+                                 f: (x: DataBlock, y: DataBlock) => void): RealOpOutput[] => {
+            let Y = transformAlongAxis(X, axis, () => nOut, false, (reIn, _imIn, reOut) => f(reIn, reOut));
+            let outputs: RealOpOutput[] = [];
+            for (let k = 0;k < nOut;k++) {
+                outputs.push(<RealOpOutput>takeReduced(Y, X.shape, axis, keepDims, k));
+            }
+            return outputs;
+        };
+
+        const QUANTILE_METHODS = ['linear', 'lower', 'higher', 'nearest', 'midpoint', 'hazen'];
+
+        /**
+         * Computes the quantiles of x for each probability in p and stores
+         * them in y.
+         */
+        const computeQuantiles = (x: DataBlock, p: ArrayLike<number>, method: string, y: DataBlock): void => {
+            let sorted = new Array(x.length);
+            for (let i = 0;i < x.length;i++) {
+                sorted[i] = x[i];
+            }
+            sorted.sort(ComparisonHelper.compareNumberAsc);
+            let hasNaN = sorted.length > 0 && isNaN(sorted[sorted.length - 1]);
+            for (let i = 0;i < p.length;i++) {
+                y[i] = hasNaN ? NaN : DataFunction.quantile(sorted, p[i], method);
+            }
+        };
+
+        const opQuantile = (x: RealOpInput, p: RealOpInput, axis: number = -1, keepDims: boolean = false,
+                            method: 'linear' | 'lower' | 'higher' | 'nearest' | 'midpoint' | 'hazen' = 'linear'): RealOpOutput => {
+            if (QUANTILE_METHODS.indexOf(method) < 0) {
+                throw new Error(`Invalid interpolation method '${method}'.`);
+            }
+            let X = toRealTensor(x);
+            let P = typeof p === 'number' ? [p] : toRealTensor(p).realData;
+            for (let i = 0;i < P.length;i++) {
+                if (!(P[i] >= 0 && P[i] <= 1)) {
+                    throw new Error('Probabilities must be within [0, 1].');
+                }
+            }
+            if (typeof p === 'number') {
+                return reduceAlongAxis(X, axis, keepDims, 1, (v, y) => computeQuantiles(v, P, method, y))[0];
+            }
+            return transformAlongAxis(X, axis, () => P.length, false,
+                (reIn, _imIn, reOut) => computeQuantiles(reIn, P, method, reOut));
+        };
+
+        const opPercentile = (x: RealOpInput, p: RealOpInput, axis: number = -1, keepDims: boolean = false,
+                              method: 'linear' | 'lower' | 'higher' | 'nearest' | 'midpoint' | 'hazen' = 'linear'): RealOpOutput => {
+            return opQuantile(x, <RealOpOutput>arithOp.div(p, 100), axis, keepDims, method);
+        };
+
+        const opIqr = (x: RealOpInput, axis: number = -1, keepDims: boolean = false,
+                       method: 'linear' | 'lower' | 'higher' | 'nearest' | 'midpoint' | 'hazen' = 'linear'): RealOpOutput => {
+            if (QUANTILE_METHODS.indexOf(method) < 0) {
+                throw new Error(`Invalid interpolation method '${method}'.`);
+            }
+            let q = [0, 0];
+            return reduceAlongAxis(toRealTensor(x), axis, keepDims, 1, (v, y) => {
+                computeQuantiles(v, [0.25, 0.75], method, q);
+                y[0] = q[1] - q[0];
+            })[0];
+        };
+
+        const opMoment = (x: RealOpInput, order: number, axis: number = -1, keepDims: boolean = false): RealOpOutput => {
+            return reduceAlongAxis(toRealTensor(x), axis, keepDims, 1, (v, y) => {
+                y[0] = DataFunction.moment(v, order);
+            })[0];
+        };
+
+        const opSkewness = (x: RealOpInput, axis: number = -1, keepDims: boolean = false,
+                            bias: boolean = true): RealOpOutput => {
+            return reduceAlongAxis(toRealTensor(x), axis, keepDims, 1, (v, y) => {
+                let n = v.length;
+                let g = DataFunction.moment(v, 3) / Math.pow(DataFunction.moment(v, 2), 1.5);
+                if (!bias) {
+                    g = n > 2 ? g * Math.sqrt(n * (n - 1)) / (n - 2) : NaN;
+                }
+                y[0] = g;
+            })[0];
+        };
+
+        const opKurtosis = (x: RealOpInput, axis: number = -1, keepDims: boolean = false,
+                            bias: boolean = true): RealOpOutput => {
+            return reduceAlongAxis(toRealTensor(x), axis, keepDims, 1, (v, y) => {
+                let n = v.length;
+                let m2 = DataFunction.moment(v, 2);
+                let k = DataFunction.moment(v, 4) / (m2 * m2);
+                if (!bias) {
+                    k = n > 3 ? 3 + (n - 1) / ((n - 2) * (n - 3)) * ((n + 1) * k - 3 * (n - 1)) : NaN;
+                }
+                y[0] = k;
+            })[0];
+        };
+
+        const opZscore = (x: RealOpInput, axis: number = -1, ddof: number = 1): Tensor => {
+            let X = toRealTensor(x);
+            let M = opMean(X, axis, true);
+            let S = <Tensor>opStd(X, axis, true, ddof);
+            let reS = S.realData;
+            for (let i = 0;i < reS.length;i++) {
+                if (reS[i] === 0) {
+                    reS[i] = 1;
+                }
+            }
+            return <Tensor>arithOp.div(arithOp.sub(X, M), S);
+        };
+
+        const checkTail = (tail: string, validTails: string[]): void => {
+            if (validTails.indexOf(tail) < 0) {
+                throw new Error(`Invalid tail option '${tail}'.`);
+            }
+        };
+
+        const tTestPValue = (t: number, df: number, tail: string): number => {
+            switch (tail) {
+                case 'both':
+                    return 2 * DistributionFunction.tCdf(-Math.abs(t), df);
+                case 'right':
+                    return DistributionFunction.tCdf(-t, df);
+                default:
+                    return DistributionFunction.tCdf(t, df);
+            }
+        };
+
+        const opTtest = (x: RealOpInput, mu: number = 0, axis: number = -1, keepDims: boolean = false,
+                         tail: 'both' | 'left' | 'right' = 'both'): [number, number] | [Tensor, Tensor] => {
+            checkTail(tail, ['both', 'left', 'right']);
+            return <[number, number] | [Tensor, Tensor]>reduceAlongAxis(toRealTensor(x), axis, keepDims, 2, (v, y) => {
+                let n = v.length;
+                let t = (DataFunction.sum(v) / n - mu) / Math.sqrt(DataFunction.var(v) / n);
+                y[0] = t;
+                y[1] = tTestPValue(t, n - 1, tail);
+            });
+        };
+
+        const opTtest2 = (x: RealOpInput, y: RealOpInput, axis: number = -1, keepDims: boolean = false,
+                          tail: 'both' | 'left' | 'right' = 'both',
+                          equalVar: boolean = true): [number, number] | [Tensor, Tensor] => {
+            checkTail(tail, ['both', 'left', 'right']);
+            let X = toRealTensor(x);
+            let Y = toRealTensor(y);
+            let nx: number, ny: number;
+            if (axis < 0) {
+                nx = X.size;
+                ny = Y.size;
+            } else {
+                let shapeX = X.shape;
+                let shapeY = Y.shape;
+                if (axis < shapeY.length) {
+                    shapeY[axis] = shapeX[axis];
+                }
+                if (!ShapeHelper.compareShape(shapeX, shapeY)) {
+                    throw new Error('x and y must have the same shape except along the specified axis.');
+                }
+                nx = X.shape[axis];
+                ny = Y.shape[axis];
+            }
+            // computes the means and variances
+            const f = (reIn: DataBlock, _imIn: DataBlock, reOut: DataBlock) => {
+                reOut[0] = DataFunction.sum(reIn) / reIn.length;
+                reOut[1] = DataFunction.var(reIn);
+            };
+            let Z = transformAlongAxis(X, axis, () => 2, false, f);
+            let reZ = Z.realData;
+            let reS = transformAlongAxis(Y, axis, () => 2, false, f).realData;
+            let nInner = 1;
+            if (axis >= 0) {
+                for (let i = axis + 1;i < X.ndim;i++) {
+                    nInner *= X.shape[i];
+                }
+            }
+            let nOuter = reZ.length / (2 * nInner);
+            for (let i = 0;i < nOuter;i++) {
+                for (let j = 0;j < nInner;j++) {
+                    let k = 2 * i * nInner + j;
+                    let vx = reZ[k + nInner], vy = reS[k + nInner];
+                    let se: number, df: number;
+                    if (equalVar) {
+                        df = nx + ny - 2;
+                        se = Math.sqrt(((nx - 1) * vx + (ny - 1) * vy) / df * (1 / nx + 1 / ny));
+                    } else {
+                        let a = vx / nx, b = vy / ny;
+                        df = (a + b) * (a + b) / (a * a / (nx - 1) + b * b / (ny - 1));
+                        se = Math.sqrt(a + b);
+                    }
+                    let t = (reZ[k] - reS[k]) / se;
+                    reZ[k] = t;
+                    reZ[k + nInner] = tTestPValue(t, df, tail);
+                }
+            }
+            return <[number, number] | [Tensor, Tensor]>[0, 1].map(k => takeReduced(Z, X.shape, axis, keepDims, k));
+        };
+
+        const opKstest = (x: RealOpInput, cdf?: IDistribution | ((x: number) => number), axis: number = -1,
+                          keepDims: boolean = false,
+                          tail: 'both' | 'larger' | 'smaller' = 'both'): [number, number] | [Tensor, Tensor] => {
+            checkTail(tail, ['both', 'larger', 'smaller']);
+            let F: (x: number) => number;
+            if (cdf == undefined) {
+                F = v => DistributionFunction.normCdf(v, 0, 1);
+            } else if (typeof cdf === 'function') {
+                F = cdf;
+            } else {
+                const dist = cdf;
+                if (typeof dist.cdf(0) !== 'number') {
+                    throw new Error('The distribution must have scalar parameters.');
+                }
+                F = v => <number>dist.cdf(v);
+            }
+            return <[number, number] | [Tensor, Tensor]>reduceAlongAxis(toRealTensor(x), axis, keepDims, 2, (v, y) => {
+                let n = v.length;
+                let sorted = new Array(n);
+                for (let i = 0;i < n;i++) {
+                    sorted[i] = v[i];
+                }
+                sorted.sort(ComparisonHelper.compareNumberAsc);
+                let dPlus = 0, dMinus = 0;
+                for (let i = 0;i < n;i++) {
+                    let c = F(sorted[i]);
+                    dPlus = Math.max(dPlus, (i + 1) / n - c);
+                    dMinus = Math.max(dMinus, c - i / n);
+                }
+                if (tail === 'both') {
+                    y[0] = Math.max(dPlus, dMinus);
+                    y[1] = DistributionFunction.ksPValue(n, y[0]);
+                } else {
+                    y[0] = tail === 'larger' ? dPlus : dMinus;
+                    y[1] = DistributionFunction.ksOneSidedPValue(n, y[0]);
+                }
+            });
+        };
+
+        const opChi2test = (observed: RealOpInput, expected?: RealOpInput, axis: number = -1,
+                            keepDims: boolean = false, ddof: number = 0): [number, number] | [Tensor, Tensor] => {
+            let O = toRealTensor(observed);
+            let E = expected == undefined ? opUnweightedMean(O, axis, true) : toRealTensor(expected);
+            let D = arithOp.sub(O, E);
+            let C = <Tensor>arithOp.div(arithOp.mul(D, D), E);
+            if (!ShapeHelper.compareShape(C.shape, O.shape)) {
+                throw new Error('The shape of the expected frequencies is not compatible with the shape of the observed frequencies.');
+            }
+            return <[number, number] | [Tensor, Tensor]>reduceAlongAxis(C, axis, keepDims, 2, (v, y) => {
+                let df = v.length - 1 - ddof;
+                y[0] = DataFunction.sum(v);
+                y[1] = df > 0 ? SpecialFunction.gammainc(0.5 * y[0], 0.5 * df, true) : NaN;
+            });
+        };
+
+        const opDiff = (x: OpInput, n: number = 1, axis: number = -1): Tensor => {
+            if (n < 0 || Math.floor(n) !== n) {
+                throw new Error('The order of the difference must be a nonnegative integer.');
+            }
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            let isComplex = X.hasNonZeroComplexStorage();
+            return transformAlongAxis(X, axis, (m) => Math.max(m - n, 0), isComplex,
+                (reIn, imIn, reOut, imOut) => {
+                    let m = reIn.length;
+                    // computes the differences repeatedly in place
+                    for (let k = 1;k <= n && k < m;k++) {
+                        for (let i = 0;i < m - k;i++) {
+                            reIn[i] = reIn[i + 1] - reIn[i];
+                            imIn[i] = imIn[i + 1] - imIn[i];
+                        }
+                    }
+                    for (let i = 0;i < reOut.length;i++) {
+                        reOut[i] = reIn[i];
+                        imOut[i] = imIn[i];
+                    }
+                });
+        };
+
+        /**
+         * Converts the spacing argument into either a number or an array of
+         * coordinates.
+         */
+        const parseSpacing = (x: RealOpInput): number | ArrayLike<number> => {
+            return typeof x === 'number' ? x : toRealTensor(x).realData;
+        };
+
+        const checkCoordinates = (x: number | ArrayLike<number>, n: number): void => {
+            if (typeof x !== 'number' && x.length !== n) {
+                throw new Error('The number of coordinates must match the length of the specified axis.');
+            }
+        };
+
+        const opGradient = (y: OpInput, x: RealOpInput = 1, axis: number = -1): Tensor => {
+            let Y = y instanceof Tensor ? y : Tensor.toTensor(y);
+            let isComplex = Y.hasNonZeroComplexStorage();
+            let spacing = parseSpacing(x);
+            return transformAlongAxis(Y, axis, (n) => n, isComplex, (reIn, imIn, reOut, imOut) => {
+                if (reIn.length < 2) {
+                    throw new Error('At least two elements are required along the specified axis.');
+                }
+                checkCoordinates(spacing, reIn.length);
+                DataFunction.gradient(reIn, spacing, reOut);
+                if (isComplex) {
+                    DataFunction.gradient(imIn, spacing, imOut);
+                }
+            });
+        };
+
+        const opTrapz = (y: OpInput, x: RealOpInput = 1, axis: number = -1, keepDims: boolean = false): OpOutput => {
+            let Y = y instanceof Tensor ? y : Tensor.toTensor(y);
+            let isComplex = Y.hasNonZeroComplexStorage();
+            let spacing = parseSpacing(x);
+            let Z = transformAlongAxis(Y, axis, () => 1, isComplex, (reIn, imIn, reOut, imOut) => {
+                checkCoordinates(spacing, reIn.length);
+                reOut[0] = DataFunction.trapz(reIn, spacing);
+                if (isComplex) {
+                    imOut[0] = DataFunction.trapz(imIn, spacing);
+                }
+            });
+            return takeReduced(Z, Y.shape, axis, keepDims, 0);
+        };
+
+        const opCumtrapz = (y: OpInput, x: RealOpInput = 1, axis: number = -1): Tensor => {
+            let Y = y instanceof Tensor ? y : Tensor.toTensor(y);
+            let isComplex = Y.hasNonZeroComplexStorage();
+            let spacing = parseSpacing(x);
+            return transformAlongAxis(Y, axis, (n) => n, isComplex, (reIn, imIn, reOut, imOut) => {
+                checkCoordinates(spacing, reIn.length);
+                DataFunction.cumtrapz(reIn, spacing, reOut);
+                if (isComplex) {
+                    DataFunction.cumtrapz(imIn, spacing, imOut);
+                }
+            });
+        };
+
         return {
             min: opMin,
             max: opMax,
             sum: opSum,
             prod: opProd,
             cumsum: opCumsum,
+            cumprod: opCumprod,
+            cummax: opCummax,
+            cummin: opCummin,
+            diff: opDiff,
+            gradient: opGradient,
+            trapz: opTrapz,
+            cumtrapz: opCumtrapz,
             mean: opMean,
             median: opMedian,
             mode: opMode,
             std: opStd,
             var: opVar,
+            nansum: opNansum,
+            nanmean: opNanmean,
+            nanmin: opNanmin,
+            nanmax: opNanmax,
+            nanvar: opNanvar,
+            nanstd: opNanstd,
+            nanmedian: opNanmedian,
             cov: opCov,
             corrcoef: opCorrcoef,
+            quantile: opQuantile,
+            percentile: opPercentile,
+            iqr: opIqr,
+            moment: opMoment,
+            skewness: opSkewness,
+            kurtosis: opKurtosis,
+            zscore: opZscore,
+            ttest: opTtest,
+            ttest2: opTtest2,
+            kstest: opKstest,
+            chi2test: opChi2test,
             sort: opSort,
             sortRows: opSortRows,
             hist: opHist,
             fft: opFFT,
-            ifft: opIFFT
+            ifft: opIFFT,
+            rfft: opRFFT,
+            irfft: opIRFFT,
+            fft2: opFFT2,
+            ifft2: opIFFT2,
+            fftn: opFFTN,
+            ifftn: opIFFTN,
+            fftshift: opFFTShift,
+            ifftshift: opIFFTShift,
+            fftfreq: opFFTFreq,
+            rfftfreq: opRFFTFreq
         };
 
     }
@@ -0,0 +1,138 @@
+import { Tensor } from '../../core/tensor';
+import { OpInput } from '../../commonTypes';
+import { ShapeHelper } from '../../helper/shapeHelper';
+
+/**
+ * Evaluates real functions with an arbitrary number of inputs element-wise.
+ * The element-wise op generator only supports unary and binary operations.
+ */
+export class BroadcastEvaluator {
+
+    /**
+     * Evaluates a real function element-wise with the inputs broadcast
+     * against each other (and against the specified shape).
+     * @param inputs Real inputs.
+     * @param shape (Optional) Shape of the output. If specified, the shape of
+     *              the broadcast inputs must be compatible with it, and f is
+     *              called once for each output element even if all inputs are
+     *              numbers.
+     * @param f Computes the output element from the input values.
+     * @param complexErrorMessage Error message used when any of the inputs is
+     *                            complex.
+     * @returns A number if all inputs are numbers and the shape is not
+     *          specified. Otherwise a tensor.
+     */
+    public static evaluate(inputs: OpInput[], shape: ArrayLike<number> | undefined,
+                           f: (v: number[]) => number,
+                           complexErrorMessage: string = 'Complex inputs are not supported.'): number | Tensor {
+        let nInputs = inputs.length;
+        let values: number[] = new Array(nInputs);
+        let tensors: Array<Tensor | undefined> = new Array(nInputs);
+        let allScalars = true;
+        let i: number, j: number, k: number;
+        for (i = 0;i < nInputs;i++) {
+            let x = inputs[i];
+            if (typeof x === 'number') {
+                values[i] = x;
+                continue;
+            }
+            let t = x instanceof Tensor ? x : Tensor.toTensor(x);
+            if (t.hasNonZeroComplexStorage()) {
+                throw new Error(complexErrorMessage);
+            }
+            tensors[i] = t;
+            allScalars = false;
+        }
+        if (allScalars) {
+            if (shape == undefined) {
+                return f(values);
+            }
+            let t = Tensor.zeros(shape),
+                re = t.realData;
+            for (i = 0;i < re.length;i++) {
+                re[i] = f(values);
+            }
+            return t;
+        }
+        // determine the output shape
+        let shapeY: ArrayLike<number> = [1];
+        for (i = 0;i < nInputs;i++) {
+            let t = tensors[i];
+            if (t) {
+                shapeY = ShapeHelper.checkBroadcastingCompatibility(shapeY, t.shape).shapeZ;
+            }
+        }
+        if (shape != undefined) {
+            ShapeHelper.validateShape(shape);
+            let result = ShapeHelper.checkBroadcastingCompatibility(shapeY, shape);
+            if (!ShapeHelper.compareShape(result.shapeZ, shape)) {
+                throw new Error(`The shape of the inputs ${ShapeHelper.shapeToString(shapeY)} is not compatible with the output shape ${ShapeHelper.shapeToString(shape)}.`);
+            }
+            shapeY = shape;
+        }
+        let Y = Tensor.zeros(shapeY);
+        let reY = Y.realData;
+        if (Y.size === 0) {
+            return Y;
+        }
+        // compute the strides of the inputs with respect to the output
+        // indices (zero strides for the broadcast dimensions)
+        let nDims = shapeY.length;
+        let data: Array<ArrayLike<number> | undefined> = new Array(nInputs);
+        let strides: number[][] = new Array(nInputs);
+        for (i = 0;i < nInputs;i++) {
+            let t = tensors[i];
+            if (!t) {
+                continue;
+            }
+            let shapeX = t.shape.slice();
+            while (shapeX.length < nDims) {
+                shapeX.unshift(1);
+            }
+            let s = ShapeHelper.computeStrides(shapeX);
+            for (j = 0;j < nDims;j++) {
+                if (shapeX[j] === 1) {
+                    s[j] = 0;
+                }
+            }
+            strides[i] = s;
+            data[i] = t.realData;
+        }
+        let index: number[] = new Array(nDims);
+        let offsets: number[] = new Array(nInputs);
+        for (j = 0;j < nDims;j++) {
+            index[j] = 0;
+        }
+        for (i = 0;i < nInputs;i++) {
+            offsets[i] = 0;
+        }
+        for (k = 0;k < reY.length;k++) {
+            for (i = 0;i < nInputs;i++) {
+                let d = data[i];
+                if (d) {
+                    values[i] = d[offsets[i]];
+                }
+            }
+            reY[k] = f(values);
+            // increment the multi-dimensional index
+            for (j = nDims - 1;j >= 0;j--) {
+                index[j]++;
+                for (i = 0;i < nInputs;i++) {
+                    if (data[i]) {
+                        offsets[i] += strides[i][j];
+                    }
+                }
+                if (index[j] < shapeY[j]) {
+                    break;
+                }
+                for (i = 0;i < nInputs;i++) {
+                    if (data[i]) {
+                        offsets[i] -= strides[i][j] * shapeY[j];
+                    }
+                }
+                index[j] = 0;
+            }
+        }
+        return Y;
+    }
+}
@@ -95,7 +95,7 @@ return function (x, y, inPlace) {
     } else {
 #ifnot NO_IN_PLACE
         if (inPlace && DTypeHelper.isWiderType(dtypeX, dtypeZ)) {
-            throw new Error('Cannot downcast from ' + DTypeHelper.dTypeToString(dtypeY) + ' to ' +
+            throw new Error('Cannot downcast from ' + DTypeHelper.dTypeToString(dtypeZ) + ' to ' +
                 DTypeHelper.dTypeToString(dtypeX) + ' when performing in-place operation.');
         }
 #endif
@@ -1,5 +1,5 @@
 import { OpGeneratorBase } from '../generatorBase';
-import { OpInput, OpOutput, RealOpOutput, RealOpOutputWithIndex } from '../../../commonTypes';
+import { OpInput, OpOutput, RealOpOutput, RealOpOutputWithIndex, OpOutputWithIndex } from '../../../commonTypes';
 import { DType, OutputDTypeResolver, DTypeHelper } from '../../../core/dtype';
 import { Tensor } from '../../../core/tensor';
 import { ComplexNumber } from '../../../core/complexNumber';
@@ -9,9 +9,9 @@ import { T_R_BLOCK_TEMPLATE, T_C_BLOCK_TEMPLATE, REDUCTION_OP_TEMPLATE,
          S_BLOCK_TEMPLATE, T_BLOCK_TEMPLATE } from './templates';
 import { ObjectHelper } from '../../../helper/objHelper';
 
-export type ReductionOp<TOut> = (x: OpInput, axis?: number, keepDims?: boolean) => TOut;
+export type ReductionOp<TOut> = (x: OpInput, axis?: number | number[] | null, keepDims?: boolean) => TOut;
 
-export type ReductionOpWithIndexOutput<TOut> = (x: OpInput, axis?: number, keepDims?: boolean) => TOut;
+export type ReductionOpWithIndexOutput<TOut> = (x: OpInput, axis?: number | number[] | null, keepDims?: boolean) => TOut;
 
 export interface ReductionOpDependencies {
     Tensor: Function;
@@ -55,7 +55,7 @@ export class ReductionOpGenerator extends OpGeneratorBase {
             OUTPUT_C_COMPLEX: false
         }, ObjectHelper.properties(deps));
         let fn = new Function(this.DEP_OBJ_NAME, 'fReal', funcBody);
-        return fn(deps, fReal);
+        return ReductionOpGenerator._supportMultipleAxes(fn(deps, fReal));
     }
 
     public makeRealOnlyOpWithIndexOutput(fReal: RIRIOReducer,
@@ -69,7 +69,21 @@ export class ReductionOpGenerator extends OpGeneratorBase {
             OUTPUT_C_COMPLEX: false
         }, ObjectHelper.properties(deps));
         let fn = new Function(this.DEP_OBJ_NAME, 'fReal', funcBody);
-        return fn(deps, fReal);
+        return ReductionOpGenerator._supportMultipleAxes(fn(deps, fReal));
+    }
+
+    public makeOpWithIndexOutput(fReal: RIRIOReducer, fComplex: CICIOReducer,
+                                 config?: ReductionOpConfig): ReductionOpWithIndexOutput<OpOutputWithIndex>
+    {
+        let deps = this._getDependencies(config);
+        let funcBody = this.generateOpFuncBody({
+            NO_COMPLEX_INPUT: false,
+            OUTPUT_INDICES: true,
+            OUTPUT_R_COMPLEX: false,
+            OUTPUT_C_COMPLEX: true
+        }, ObjectHelper.properties(deps));
+        let fn = new Function(this.DEP_OBJ_NAME, 'fReal', 'fComplex', funcBody);
+        return ReductionOpGenerator._supportMultipleAxes(fn(deps, fReal, fComplex));
     }
 
     public makeOp(fReal: RIROReducer, fComplex: CICOReducer,
@@ -89,7 +103,7 @@ export class ReductionOpGenerator extends OpGeneratorBase {
             OUTPUT_C_COMPLEX: outputComplexWhenInputIsComplex
         }, ObjectHelper.properties(deps));
         let fn = new Function(this.DEP_OBJ_NAME, 'fReal', 'fComplex', funcBody);
-        return fn(deps, fReal, fComplex);
+        return ReductionOpGenerator._supportMultipleAxes(fn(deps, fReal, fComplex));
     }
 
     public generateOpFuncBody(config: {[key: string]: boolean}, depNames: string[]): string {
@@ -105,6 +119,78 @@ export class ReductionOpGenerator extends OpGeneratorBase {
         return this._engine.generate(REDUCTION_OP_TEMPLATE, mainBlockMap, config);
     }
 
+    /**
+     * Extends a generated reduction operation, which reduces along a single
+     * axis, so that it also accepts an array of axes. The reduced axes are
+     * moved to the end and merged into a single axis before the reduction.
+     * Indices (if any) are therefore computed with respect to the elements
+     * along the reduced axes in row-major order.
+     * Note: null is handled by the generated operation the same way as -1.
+     */
+    private static _supportMultipleAxes<TOut extends OpOutput | OpOutputWithIndex>(
+        op: (x: OpInput, axis: number, keepDims?: boolean) => TOut): ReductionOp<TOut> {
+        return (x: OpInput, axis?: number | number[] | null, keepDims?: boolean): TOut => {
+            if (!Array.isArray(axis)) {
+                return op(x, <number>axis, keepDims);
+            }
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            let axes = ReductionOpGenerator._normalizeAxes(axis, X.ndim);
+            if (axes.length === 1) {
+                return op(X, axes[0], keepDims);
+            }
+            if (axes.length === X.ndim) {
+                return op(X, -1, keepDims);
+            }
+            let shapeX = X.shape;
+            let order: number[] = [];
+            let shapeKept: number[] = [];
+            for (let i = 0;i < X.ndim;i++) {
+                if (axes.indexOf(i) < 0) {
+                    order.push(i);
+                    shapeKept.push(shapeX[i]);
+                }
+            }
+            let nReduced = 1;
+            for (let i = 0;i < axes.length;i++) {
+                nReduced *= shapeX[axes[i]];
+            }
+            let Xp = X.getPermutedView(order.concat(axes)).reshape(shapeKept.concat([nReduced]));
+            let result = op(Xp, shapeKept.length, keepDims);
+            if (keepDims) {
+                // the kept axes are in the original order so we only need to
+                // reshape the outputs
+                let shapeY = shapeX.slice();
+                for (let i = 0;i < axes.length;i++) {
+                    shapeY[axes[i]] = 1;
+                }
+                let outputs = Array.isArray(result) ? <Tensor[]>result : [<Tensor>result];
+                for (let i = 0;i < outputs.length;i++) {
+                    outputs[i].reshape(shapeY);
+                }
+            }
+            return result;
+        };
+    }
+
+    /**
+     * Validates the axes and sorts them in ascending order.
+     */
+    private static _normalizeAxes(axes: number[], ndim: number): number[] {
+        if (axes.length === 0) {
+            throw new Error('At least one axis must be specified.');
+        }
+        let sorted = axes.slice().sort((a, b) => a - b);
+        for (let i = 0;i < sorted.length;i++) {
+            if ((sorted[i] | 0) !== sorted[i] || sorted[i] < 0 || sorted[i] >= ndim) {
+                throw new Error(`Invalid axis number ${sorted[i]}.`);
+            }
+            if (i > 0 && sorted[i] === sorted[i - 1]) {
+                throw new Error(`Duplicate axis number ${sorted[i]}.`);
+            }
+        }
+        return sorted;
+    }
+
     private _getDependencies(config?: ReductionOpConfig): ReductionOpDependencies {
         return {
             Tensor: Tensor,
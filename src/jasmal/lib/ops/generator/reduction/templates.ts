@@ -42,9 +42,23 @@ return function(x, axis, keepDims) {
  * keepDims = true).
  */
 export const S_BLOCK_TEMPLATE =
-`#ifnot NO_COMPLEX_INPUT
+`var reS, imS, offsetS, strideS;
+if (X.ndim === 1 && X.storageStrides[0] > 0) {
+    // 1D tensors (including strided views) can be reduced directly from the
+    // underlying storage. Reducers require positive strides.
+    reS = X.realStorageData;
+    imS = isInputComplex ? X.imagStorageData : undefined;
+    offsetS = X.storageOffset;
+    strideS = X.storageStrides[0];
+} else {
+    reS = X.realData;
+    imS = isInputComplex ? X.imagData : undefined;
+    offsetS = 0;
+    strideS = 1;
+}
+#ifnot NO_COMPLEX_INPUT
 if (isInputComplex) {
-    tmp = fComplex(X.realData, X.imagData, 0, 1, X.size);
+    tmp = fComplex(reS, imS, offsetS, strideS, X.size);
 #if OUTPUT_C_COMPLEX
 #if OUTPUT_INDICES
     if (keepDims) {
@@ -72,7 +86,7 @@ if (isInputComplex) {
 #endif
 }
 #endif
-tmp = fReal(X.realData, 0, 1, X.size);
+tmp = fReal(reS, offsetS, strideS, X.size);
 #if OUTPUT_R_COMPLEX
 #if OUTPUT_INDICES
     if (keepDims) {
@@ -101,15 +115,23 @@ tmp = fReal(X.realData, 0, 1, X.size);
 
 /**
  * Code block that reduces the input into a tensor.
+ * Elements are read directly from the underlying storage of the input so that
+ * views do not need to be materialized.
  */
 export const T_BLOCK_TEMPLATE =
-`var shapeX = X.shape;
+`if (X.storageStrides[axis] < 0) {
+    // Reducers require positive strides. Views with negative strides along
+    // the reduction axis are materialized first.
+    X.ensureUnsharedLocalStorage();
+}
+var shapeX = X.shape;
 var shapeY = shapeX.slice();
 shapeY[axis] = 1;
 var Y = Tensor.zeros(shapeY, outputDType);
-var stridesX = X.strides;
+var stridesX = X.storageStrides;
 var stridesY = Y.strides;
 var maxLevel = X.ndim - 1;
+var lastStrideX = stridesX[maxLevel];
 var stride = stridesX[axis];
 var n = shapeX[axis];
 var reX, reY, imX, imY;
@@ -140,7 +162,7 @@ return Y;
 #endif`;
 
 export const T_R_BLOCK_TEMPLATE =
-`reX = X.realData;
+`reX = X.realStorageData;
 reY = Y.realData;
 #if OUTPUT_R_COMPLEX
 Y.ensureComplexStorage();
@@ -155,7 +177,7 @@ var doReductionRICO = function (level, offsetX, offsetY) {
 #if OUTPUT_INDICES
             reZ[offsetY] = tmp[2];
 #endif
-            offsetX++;
+            offsetX += lastStrideX;
             offsetY++;
         }
     } else {
@@ -166,7 +188,7 @@ var doReductionRICO = function (level, offsetX, offsetY) {
         }
     }
 };
-doReductionRICO(0, 0, 0);
+doReductionRICO(0, X.storageOffset, 0);
 #else
 var doReductionRIRO = function (level, offsetX, offsetY) {
     var tmp;
@@ -179,7 +201,7 @@ var doReductionRIRO = function (level, offsetX, offsetY) {
 #else
             reY[offsetY] = tmp;
 #endif
-            offsetX++;
+            offsetX += lastStrideX;
             offsetY++;
         }
     } else {
@@ -190,14 +212,14 @@ var doReductionRIRO = function (level, offsetX, offsetY) {
         }
     }
 };
-doReductionRIRO(0, 0, 0);
+doReductionRIRO(0, X.storageOffset, 0);
 #endif
 `;
 
 export const T_C_BLOCK_TEMPLATE =
-`reX = X.realData;
+`reX = X.realStorageData;
 reY = Y.realData;
-imX = X.imagData;
+imX = X.imagStorageData;
 #if OUTPUT_C_COMPLEX
 Y.ensureComplexStorage();
 imY = Y.imagData;
@@ -211,7 +233,7 @@ var doReductionCICO = function (level, offsetX, offsetY) {
 #if OUTPUT_INDICES
             reZ[offsetY] = tmp[2];
 #endif
-            offsetX++;
+            offsetX += lastStrideX;
             offsetY++;
         }
     } else {
@@ -222,7 +244,7 @@ var doReductionCICO = function (level, offsetX, offsetY) {
         }
     }
 };
-doReductionCICO(0, 0, 0);
+doReductionCICO(0, X.storageOffset, 0);
 #else
 var doReductionCIRO = function (level, offsetX, offsetY) {
     var tmp;
@@ -235,7 +257,7 @@ var doReductionCIRO = function (level, offsetX, offsetY) {
 #else
             reY[offsetY] = tmp;
 #endif
-            offsetX++;
+            offsetX += lastStrideX;
             offsetY++;
         }
     } else {
@@ -246,6 +268,6 @@ var doReductionCIRO = function (level, offsetX, offsetY) {
         }
     }
 };
-doReductionCIRO(0, 0, 0);
+doReductionCIRO(0, X.storageOffset, 0);
 #endif
 `;
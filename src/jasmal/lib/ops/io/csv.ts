@@ -0,0 +1,175 @@
+import { Tensor } from '../../core/tensor';
+import { DType, DTypeHelper } from '../../core/dtype';
+import { CSVReadOptions, CSVWriteOptions, CSVContent } from './definition';
+
+export class CsvFormat {
+
+    /**
+     * Parses delimiter-separated numeric values. Fields may be quoted with
+     * double quotes. Empty lines are ignored. 'Inf' and '-Inf' are parsed as
+     * infinities.
+     */
+    public static parse(text: string, options: CSVReadOptions = {}): CSVContent {
+        let delimiter = options.delimiter == undefined ? ',' : options.delimiter;
+        if (delimiter.length !== 1 || delimiter === '"' || delimiter === '\n' || delimiter === '\r') {
+            throw new Error('Delimiter must be a single character other than quotes and line breaks.');
+        }
+        let nanTokens = options.nanTokens == undefined ? ['', 'NaN', 'nan', 'NA', 'N/A'] : options.nanTokens;
+        let rows = CsvFormat._splitRecords(text, delimiter);
+        let header: string[] = [];
+        if (options.header && rows.length > 0) {
+            header = rows.shift()!;
+        }
+        let nRows = rows.length;
+        let nCols = nRows > 0 ? rows[0].length : header.length;
+        let data = Tensor.zeros([nRows, nCols]);
+        let re = data.realData;
+        for (let i = 0;i < nRows;i++) {
+            let row = rows[i];
+            if (row.length !== nCols) {
+                throw new Error(`Expecting ${nCols} fields in line ${i + 1 + (options.header ? 1 : 0)} but got ${row.length}.`);
+            }
+            for (let j = 0;j < nCols;j++) {
+                let s = row[j].trim();
+                let v: number;
+                if (nanTokens.indexOf(s) >= 0) {
+                    v = NaN;
+                } else if (/^[+]?inf(inity)?$/i.test(s)) {
+                    v = Infinity;
+                } else if (/^-inf(inity)?$/i.test(s)) {
+                    v = -Infinity;
+                } else {
+                    v = s.length > 0 ? Number(s) : NaN;
+                    if (isNaN(v)) {
+                        throw new Error(`Cannot parse "${s}" in line ${i + 1 + (options.header ? 1 : 0)}, column ${j + 1}.`);
+                    }
+                }
+                re[i * nCols + j] = v;
+            }
+        }
+        return { header: header, data: data };
+    }
+
+    /**
+     * Converts a real vector or matrix into delimiter-separated values. A 1D
+     * vector is written as a single column.
+     */
+    public static stringify(x: Tensor, options: CSVWriteOptions = {}): string {
+        if (x.hasNonZeroComplexStorage()) {
+            throw new Error('Complex tensors cannot be saved as CSV.');
+        }
+        let shape = x.shape;
+        if (shape.length > 2) {
+            throw new Error('Vector or matrix expected.');
+        }
+        let nRows = shape[0];
+        let nCols = shape.length === 2 ? shape[1] : 1;
+        let delimiter = options.delimiter == undefined ? ',' : options.delimiter;
+        let nanToken = options.nanToken == undefined ? 'NaN' : options.nanToken;
+        let precision = options.precision;
+        if (precision != undefined && (!(precision >= 1 && precision <= 21) || Math.floor(precision) !== precision)) {
+            throw new Error('Precision must be an integer between 1 and 21.');
+        }
+        let isFloat = DTypeHelper.isFloatType(x.dtype);
+        const format = (v: number): string => {
+            if (isNaN(v)) {
+                return nanToken;
+            }
+            if (!isFinite(v)) {
+                return v > 0 ? 'Inf' : '-Inf';
+            }
+            if (precision == undefined || !isFloat) {
+                return v.toString();
+            }
+            // removes trailing zeros
+            return parseFloat(v.toPrecision(precision)).toString();
+        };
+        let lines: string[] = [];
+        if (options.header) {
+            if (options.header.length !== nCols) {
+                throw new Error(`Expecting ${nCols} column names but got ${options.header.length}.`);
+            }
+            let names: string[] = [];
+            for (let j = 0;j < nCols;j++) {
+                names.push(CsvFormat._quote(options.header[j], delimiter));
+            }
+            lines.push(names.join(delimiter));
+        }
+        let re = x.realData;
+        let isLogic = x.dtype === DType.LOGIC;
+        for (let i = 0;i < nRows;i++) {
+            let fields: string[] = [];
+            for (let j = 0;j < nCols;j++) {
+                let v = re[i * nCols + j];
+                fields.push(isLogic ? (v ? '1' : '0') : format(v));
+            }
+            lines.push(fields.join(delimiter));
+        }
+        return lines.length > 0 ? lines.join('\n') + '\n' : '';
+    }
+
+    /**
+     * Splits the text into records and fields.
+     */
+    private static _splitRecords(text: string, delimiter: string): string[][] {
+        let rows: string[][] = [];
+        let row: string[] = [];
+        let field = '';
+        let inQuotes = false;
+        let isEmptyLine = true;
+        let n = text.length;
+        for (let i = 0;i < n;i++) {
+            let c = text.charAt(i);
+            if (inQuotes) {
+                if (c === '"') {
+                    if (i + 1 < n && text.charAt(i + 1) === '"') {
+                        field += '"';
+                        i++;
+                    } else {
+                        inQuotes = false;
+                    }
+                } else {
+                    field += c;
+                }
+                continue;
+            }
+            if (c === '"') {
+                inQuotes = true;
+                isEmptyLine = false;
+            } else if (c === delimiter) {
+                row.push(field);
+                field = '';
+                isEmptyLine = false;
+            } else if (c === '\n' || c === '\r') {
+                if (c === '\r' && i + 1 < n && text.charAt(i + 1) === '\n') {
+                    i++;
+                }
+                if (!isEmptyLine || field.trim().length > 0) {
+                    row.push(field);
+                    rows.push(row);
+                }
+                row = [];
+                field = '';
+                isEmptyLine = true;
+            } else {
+                field += c;
+            }
+        }
+        if (inQuotes) {
+            throw new Error('Unterminated quoted field.');
+        }
+        if (!isEmptyLine || field.trim().length > 0) {
+            row.push(field);
+            rows.push(row);
+        }
+        return rows;
+    }
+
+    private static _quote(s: string, delimiter: string): string {
+        if (s.indexOf(delimiter) >= 0 || s.indexOf('"') >= 0 || s.indexOf('\n') >= 0 || s.indexOf('\r') >= 0) {
+            return '"' + s.replace(/"/g, '""') + '"';
+        }
+        return s;
+    }
+
+}
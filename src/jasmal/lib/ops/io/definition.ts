@@ -0,0 +1,129 @@
+import { OpInput } from '../../commonTypes';
+import { Tensor } from '../../core/tensor';
+
+export interface CSVReadOptions {
+    /**
+     * Field delimiter. Use '\t' for TSV files. Default value is ','.
+     */
+    delimiter?: string;
+    /**
+     * Set to true if the first line is a header. Default value is false.
+     */
+    header?: boolean;
+    /**
+     * Tokens that are parsed as NaN. Default value is
+     * ['', 'NaN', 'nan', 'NA', 'N/A'].
+     */
+    nanTokens?: string[];
+}
+
+export interface CSVWriteOptions {
+    /**
+     * Field delimiter. Use '\t' for TSV files. Default value is ','.
+     */
+    delimiter?: string;
+    /**
+     * (Optional) Column names written as the first line.
+     */
+    header?: string[];
+    /**
+     * Token written for NaN. Default value is 'NaN'.
+     */
+    nanToken?: string;
+    /**
+     * Number of significant digits. If not specified, the shortest
+     * representation that uniquely identifies the number is used.
+     */
+    precision?: number;
+}
+
+export interface CSVContent {
+    /**
+     * Column names. Empty if the header is not read.
+     */
+    header: string[];
+    /**
+     * A matrix whose rows correspond to the lines of the file.
+     */
+    data: Tensor;
+}
+
+export interface IIOOpProvider {
+
+    /**
+     * Serializes a tensor in the NumPy .npy format. The data types are mapped
+     * as follows: LOGIC -> bool, INT8/16/32 -> int8/16/32, UINT8/16/32 ->
+     * uint8/16/32, FLOAT32 -> float32/complex64, FLOAT64 ->
+     * float64/complex128. Complex tensors of integer types are saved as
+     * complex128.
+     * @example
+     *  // Node.js
+     *  fs.writeFileSync('x.npy', T.saveNpy(x));
+     *  // Browsers
+     *  let blob = new Blob([T.saveNpy(x)]);
+     */
+    saveNpy(x: OpInput): Uint8Array;
+
+    /**
+     * Loads a tensor from a NumPy .npy file. Both C and Fortran orders are
+     * supported. int64/uint64 arrays are converted to FLOAT64 (precision is
+     * lost for integers greater than 2^53), and 0-d arrays are converted to
+     * tensors of shape [1].
+     * @param data Content of the file.
+     */
+    loadNpy(data: ArrayBuffer | Uint8Array): Tensor;
+
+    /**
+     * Saves multiple tensors in the NumPy .npz format (uncompressed).
+     * @param arrays An object whose keys are array names.
+     */
+    saveNpz(arrays: { [name: string]: OpInput }): Uint8Array;
+
+    /**
+     * Loads tensors from a NumPy .npz file (created by either np.savez or
+     * np.savez_compressed).
+     * @param data Content of the file.
+     * @returns An object whose keys are array names.
+     */
+    loadNpz(data: ArrayBuffer | Uint8Array): { [name: string]: Tensor };
+
+    /**
+     * Saves tensors as variables in a MATLAB Level 5 MAT-file (uncompressed),
+     * which can be loaded by MATLAB and scipy.io.loadmat. 1D tensors are saved
+     * as row vectors. Logic tensors are saved as logical arrays.
+     * @param variables An object whose keys are variable names. Variable
+     *                  names must be valid MATLAB identifiers.
+     */
+    saveMat(variables: { [name: string]: OpInput }): Uint8Array;
+
+    /**
+     * Loads numeric and logical arrays from a MATLAB Level 5 MAT-file,
+     * including version 7 MAT-files with compressed variables (the default
+     * format of MATLAB). Variables of other classes (e.g., cell arrays,
+     * structures, character arrays and sparse matrices) are skipped.
+     * Dimensions are kept as is, so vectors are loaded as 1 x n or n x 1
+     * matrices. int64/uint64 arrays are converted to FLOAT64.
+     * @param data Content of the file.
+     * @returns An object whose keys are variable names.
+     */
+    loadMat(data: ArrayBuffer | Uint8Array): { [name: string]: Tensor };
+
+    /**
+     * Converts a real vector or matrix into delimiter-separated values (e.g.,
+     * CSV or TSV). A 1D vector is written as a single column. Infinities are
+     * written as 'Inf' and '-Inf'.
+     * @example
+     *  let text = T.saveCSV(A, { delimiter: '\t', header: ['x', 'y'] });
+     */
+    saveCSV(x: OpInput, options?: CSVWriteOptions): string;
+
+    /**
+     * Loads delimiter-separated numeric values (e.g., CSV or TSV) as a
+     * matrix. Fields may be quoted with double quotes, and empty lines are
+     * ignored.
+     * @param data Text or UTF-8 encoded content of the file.
+     * @param options (Optional) Options.
+     */
+    loadCSV(data: string | ArrayBuffer | Uint8Array, options?: CSVReadOptions): CSVContent;
+
+}
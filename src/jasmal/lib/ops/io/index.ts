@@ -0,0 +1,90 @@
+import { IIOOpProvider, CSVReadOptions, CSVWriteOptions, CSVContent } from './definition';
+import { Tensor } from '../../core/tensor';
+import { OpInput } from '../../commonTypes';
+import { IOHelper } from './ioHelper';
+import { NpyFormat } from './npy';
+import { ZipArchive } from './zip';
+import { MatFormat } from './mat';
+import { CsvFormat } from './csv';
+import { IJasmalModuleFactory, JasmalOptions } from '../../jasmal';
+
+export class IOOpProviderFactory implements IJasmalModuleFactory<IIOOpProvider> {
+
+    public create(_options: JasmalOptions): IIOOpProvider {
+
+        const toTensor = (x: OpInput): Tensor => {
+            return x instanceof Tensor ? x : Tensor.toTensor(x);
+        };
+
+        const opSaveNpy = (x: OpInput): Uint8Array => {
+            return NpyFormat.write(toTensor(x));
+        };
+
+        const opLoadNpy = (data: ArrayBuffer | Uint8Array): Tensor => {
+            return NpyFormat.read(IOHelper.toUint8Array(data));
+        };
+
+        const opSaveNpz = (arrays: { [name: string]: OpInput }): Uint8Array => {
+            let files: Array<[string, Uint8Array]> = [];
+            for (let name in arrays) {
+                if (arrays.hasOwnProperty(name)) {
+                    files.push([name + '.npy', NpyFormat.write(toTensor(arrays[name]))]);
+                }
+            }
+            return ZipArchive.write(files);
+        };
+
+        const opLoadNpz = (data: ArrayBuffer | Uint8Array): { [name: string]: Tensor } => {
+            let files = ZipArchive.read(IOHelper.toUint8Array(data));
+            let arrays: { [name: string]: Tensor } = {};
+            for (let i = 0;i < files.length;i++) {
+                let name = files[i][0];
+                if (name.length > 4 && name.substring(name.length - 4) === '.npy') {
+                    name = name.substring(0, name.length - 4);
+                }
+                arrays[name] = NpyFormat.read(files[i][1]);
+            }
+            return arrays;
+        };
+
+        const opSaveMat = (variables: { [name: string]: OpInput }): Uint8Array => {
+            let items: Array<[string, Tensor]> = [];
+            for (let name in variables) {
+                if (variables.hasOwnProperty(name)) {
+                    items.push([name, toTensor(variables[name])]);
+                }
+            }
+            return MatFormat.write(items);
+        };
+
+        const opLoadMat = (data: ArrayBuffer | Uint8Array): { [name: string]: Tensor } => {
+            let items = MatFormat.read(IOHelper.toUint8Array(data));
+            let variables: { [name: string]: Tensor } = {};
+            for (let i = 0;i < items.length;i++) {
+                variables[items[i][0]] = items[i][1];
+            }
+            return variables;
+        };
+
+        const opSaveCSV = (x: OpInput, options?: CSVWriteOptions): string => {
+            return CsvFormat.stringify(toTensor(x), options);
+        };
+
+        const opLoadCSV = (data: string | ArrayBuffer | Uint8Array, options?: CSVReadOptions): CSVContent => {
+            let text = typeof data === 'string' ? data : IOHelper.decodeUtf8(IOHelper.toUint8Array(data));
+            return CsvFormat.parse(text, options);
+        };
+
+        return {
+            saveNpy: opSaveNpy,
+            loadNpy: opLoadNpy,
+            saveNpz: opSaveNpz,
+            loadNpz: opLoadNpz,
+            saveMat: opSaveMat,
+            loadMat: opLoadMat,
+            saveCSV: opSaveCSV,
+            loadCSV: opLoadCSV
+        };
+    }
+
+}
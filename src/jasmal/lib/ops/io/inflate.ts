@@ -0,0 +1,312 @@
+/**
+ * Canonical Huffman code described by the number of codes of each length and
+ * the symbols ordered by their codes.
+ */
+interface HuffmanCode {
+    counts: Int16Array;
+    symbols: Int16Array;
+}
+
+const MAX_BITS = 15;
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31,
+    35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2,
+    3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+    257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6,
+    7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/**
+ * Decoder of the DEFLATE format (RFC 1951) and the zlib format (RFC 1950).
+ * Based on the reference decoder puff.c by Mark Adler.
+ */
+export class Inflate {
+
+    private _input: Uint8Array;
+    private _pos: number;
+    private _end: number;
+    private _bitBuf: number = 0;
+    private _bitCount: number = 0;
+    private _output: Uint8Array;
+    private _outLength: number = 0;
+
+    private static _fixedCodes: [HuffmanCode, HuffmanCode] | undefined;
+
+    private constructor(input: Uint8Array, start: number, end: number, sizeHint: number) {
+        this._input = input;
+        this._pos = start;
+        this._end = end;
+        this._output = new Uint8Array(Math.max(sizeHint, 1024));
+    }
+
+    /**
+     * Decompresses raw DEFLATE data.
+     * @param data Compressed data.
+     * @param start (Optional) Start of the compressed data.
+     * @param end (Optional) End of the compressed data (exclusive).
+     * @param sizeHint (Optional) Expected size of the decompressed data.
+     */
+    public static inflateRaw(data: Uint8Array, start: number = 0, end: number = data.length,
+                             sizeHint: number = 0): Uint8Array {
+        let inflater = new Inflate(data, start, end, sizeHint > 0 ? sizeHint : 4 * (end - start));
+        inflater._run();
+        return inflater._output.subarray(0, inflater._outLength);
+    }
+
+    /**
+     * Decompresses data in the zlib format and verifies the checksum.
+     * @param data Compressed data.
+     * @param start (Optional) Start of the compressed data.
+     * @param end (Optional) End of the compressed data (exclusive).
+     */
+    public static inflateZlib(data: Uint8Array, start: number = 0, end: number = data.length): Uint8Array {
+        if (end - start < 6) {
+            throw new Error('Invalid zlib data.');
+        }
+        let cmf = data[start], flg = data[start + 1];
+        if ((cmf & 0x0f) !== 8 || ((cmf << 8) | flg) % 31 !== 0) {
+            throw new Error('Invalid zlib header.');
+        }
+        if (flg & 0x20) {
+            throw new Error('Preset dictionaries are not supported.');
+        }
+        let inflater = new Inflate(data, start + 2, end, 4 * (end - start));
+        inflater._run();
+        let output = inflater._output.subarray(0, inflater._outLength);
+        // the Adler-32 checksum is stored in the big-endian order after the
+        // compressed data (which ends at a byte boundary)
+        let p = inflater._pos;
+        if (p + 4 > end) {
+            throw new Error('Missing zlib checksum.');
+        }
+        let expected = ((data[p] << 24) | (data[p + 1] << 16) | (data[p + 2] << 8) | data[p + 3]) >>> 0;
+        if (Inflate.adler32(output) !== expected) {
+            throw new Error('zlib checksum mismatch.');
+        }
+        return output;
+    }
+
+    /**
+     * Computes the Adler-32 checksum.
+     */
+    public static adler32(data: Uint8Array): number {
+        let a = 1, b = 0;
+        let i = 0, n = data.length;
+        while (i < n) {
+            // 5552 is the largest block size such that b does not overflow
+            let m = Math.min(i + 5552, n);
+            for (;i < m;i++) {
+                a += data[i];
+                b += a;
+            }
+            a %= 65521;
+            b %= 65521;
+        }
+        return ((b << 16) | a) >>> 0;
+    }
+
+    private _run(): void {
+        let last: number, type: number;
+        do {
+            last = this._bits(1);
+            type = this._bits(2);
+            switch (type) {
+                case 0:
+                    this._stored();
+                    break;
+                case 1:
+                    let fixed = Inflate._getFixedCodes();
+                    this._codes(fixed[0], fixed[1]);
+                    break;
+                case 2:
+                    this._dynamic();
+                    break;
+                default:
+                    throw new Error('Invalid block type in compressed data.');
+            }
+        } while (!last);
+        // discard the remaining bits so that _pos points to the next byte
+        this._bitBuf = 0;
+        this._bitCount = 0;
+    }
+
+    private _bits(n: number): number {
+        let buf = this._bitBuf;
+        while (this._bitCount < n) {
+            if (this._pos >= this._end) {
+                throw new Error('Unexpected end of compressed data.');
+            }
+            buf |= this._input[this._pos++] << this._bitCount;
+            this._bitCount += 8;
+        }
+        this._bitBuf = buf >>> n;
+        this._bitCount -= n;
+        return buf & ((1 << n) - 1);
+    }
+
+    private _ensureOutput(n: number): void {
+        let required = this._outLength + n;
+        if (required > this._output.length) {
+            let newOutput = new Uint8Array(Math.max(required, 2 * this._output.length));
+            newOutput.set(this._output.subarray(0, this._outLength));
+            this._output = newOutput;
+        }
+    }
+
+    private _stored(): void {
+        this._bitBuf = 0;
+        this._bitCount = 0;
+        if (this._pos + 4 > this._end) {
+            throw new Error('Unexpected end of compressed data.');
+        }
+        let input = this._input, p = this._pos;
+        let len = input[p] | (input[p + 1] << 8);
+        let nlen = input[p + 2] | (input[p + 3] << 8);
+        if (len !== (~nlen & 0xffff)) {
+            throw new Error('Invalid stored block length in compressed data.');
+        }
+        p += 4;
+        if (p + len > this._end) {
+            throw new Error('Unexpected end of compressed data.');
+        }
+        this._ensureOutput(len);
+        this._output.set(input.subarray(p, p + len), this._outLength);
+        this._outLength += len;
+        this._pos = p + len;
+    }
+
+    private _decode(h: HuffmanCode): number {
+        let code = 0, first = 0, index = 0, count: number;
+        for (let len = 1;len <= MAX_BITS;len++) {
+            code |= this._bits(1);
+            count = h.counts[len];
+            if (code - count < first) {
+                return h.symbols[index + (code - first)];
+            }
+            index += count;
+            first += count;
+            first <<= 1;
+            code <<= 1;
+        }
+        throw new Error('Invalid Huffman code in compressed data.');
+    }
+
+    private _codes(lenCode: HuffmanCode, distCode: HuffmanCode): void {
+        let symbol: number, len: number, dist: number;
+        for (;;) {
+            symbol = this._decode(lenCode);
+            if (symbol < 256) {
+                this._ensureOutput(1);
+                this._output[this._outLength++] = symbol;
+            } else if (symbol === 256) {
+                return;
+            } else {
+                symbol -= 257;
+                if (symbol >= 29) {
+                    throw new Error('Invalid length code in compressed data.');
+                }
+                len = LENGTH_BASE[symbol] + this._bits(LENGTH_EXTRA[symbol]);
+                symbol = this._decode(distCode);
+                if (symbol >= 30) {
+                    throw new Error('Invalid distance code in compressed data.');
+                }
+                dist = DIST_BASE[symbol] + this._bits(DIST_EXTRA[symbol]);
+                if (dist > this._outLength) {
+                    throw new Error('Invalid distance in compressed data.');
+                }
+                this._ensureOutput(len);
+                let output = this._output;
+                let p = this._outLength;
+                // byte by byte since the source may overlap the destination
+                for (let i = 0;i < len;i++) {
+                    output[p + i] = output[p + i - dist];
+                }
+                this._outLength += len;
+            }
+        }
+    }
+
+    private _dynamic(): void {
+        let nLen = this._bits(5) + 257;
+        let nDist = this._bits(5) + 1;
+        let nCode = this._bits(4) + 4;
+        if (nLen > 286 || nDist > 30) {
+            throw new Error('Invalid code lengths in compressed data.');
+        }
+        let lengths = new Int16Array(320);
+        let index: number;
+        for (index = 0;index < nCode;index++) {
+            lengths[CODE_LENGTH_ORDER[index]] = this._bits(3);
+        }
+        let lenCode = Inflate._construct(lengths, 0, 19);
+        index = 0;
+        while (index < nLen + nDist) {
+            let symbol = this._decode(lenCode);
+            if (symbol < 16) {
+                lengths[index++] = symbol;
+            } else {
+                let len = 0;
+                if (symbol === 16) {
+                    if (index === 0) {
+                        throw new Error('Invalid repeat code in compressed data.');
+                    }
+                    len = lengths[index - 1];
+                    symbol = 3 + this._bits(2);
+                } else if (symbol === 17) {
+                    symbol = 3 + this._bits(3);
+                } else {
+                    symbol = 11 + this._bits(7);
+                }
+                if (index + symbol > nLen + nDist) {
+                    throw new Error('Too many code lengths in compressed data.');
+                }
+                while (symbol--) {
+                    lengths[index++] = len;
+                }
+            }
+        }
+        if (lengths[256] === 0) {
+            throw new Error('Missing end-of-block code in compressed data.');
+        }
+        this._codes(Inflate._construct(lengths, 0, nLen), Inflate._construct(lengths, nLen, nDist));
+    }
+
+    private static _construct(lengths: ArrayLike<number>, offset: number, n: number): HuffmanCode {
+        let counts = new Int16Array(MAX_BITS + 1);
+        let symbols = new Int16Array(n);
+        for (let i = 0;i < n;i++) {
+            counts[lengths[offset + i]]++;
+        }
+        counts[0] = 0;
+        let offsets = new Int16Array(MAX_BITS + 1);
+        for (let len = 1;len < MAX_BITS;len++) {
+            offsets[len + 1] = offsets[len] + counts[len];
+        }
+        for (let i = 0;i < n;i++) {
+            let len = lengths[offset + i];
+            if (len !== 0) {
+                symbols[offsets[len]++] = i;
+            }
+        }
+        return { counts: counts, symbols: symbols };
+    }
+
+    private static _getFixedCodes(): [HuffmanCode, HuffmanCode] {
+        if (!Inflate._fixedCodes) {
+            let lengths = new Int16Array(288);
+            let i: number;
+            for (i = 0;i < 144;i++) lengths[i] = 8;
+            for (;i < 256;i++) lengths[i] = 9;
+            for (;i < 280;i++) lengths[i] = 7;
+            for (;i < 288;i++) lengths[i] = 8;
+            let distLengths = new Int16Array(30);
+            for (i = 0;i < 30;i++) distLengths[i] = 5;
+            Inflate._fixedCodes = [Inflate._construct(lengths, 0, 288), Inflate._construct(distLengths, 0, 30)];
+        }
+        return Inflate._fixedCodes;
+    }
+
+}
@@ -0,0 +1,158 @@
+import { DataBlock } from '../../commonTypes';
+
+export class IOHelper {
+
+    public static toUint8Array(data: ArrayBuffer | Uint8Array): Uint8Array {
+        if (data instanceof Uint8Array) {
+            return data;
+        }
+        if (data instanceof ArrayBuffer) {
+            return new Uint8Array(data);
+        }
+        throw new Error('ArrayBuffer or Uint8Array expected.');
+    }
+
+    /**
+     * Concatenates byte arrays.
+     */
+    public static concat(chunks: Uint8Array[]): Uint8Array {
+        let n = 0;
+        for (let i = 0;i < chunks.length;i++) {
+            n += chunks[i].length;
+        }
+        let result = new Uint8Array(n);
+        let offset = 0;
+        for (let i = 0;i < chunks.length;i++) {
+            result.set(chunks[i], offset);
+            offset += chunks[i].length;
+        }
+        return result;
+    }
+
+    /**
+     * Decodes single-byte characters (ASCII/Latin-1).
+     */
+    public static decodeLatin1(bytes: Uint8Array, start: number = 0, end: number = bytes.length): string {
+        let s = '';
+        for (let i = start;i < end;i++) {
+            s += String.fromCharCode(bytes[i]);
+        }
+        return s;
+    }
+
+    /**
+     * Encodes single-byte characters (ASCII/Latin-1). Characters outside the
+     * range are not allowed.
+     */
+    public static encodeLatin1(s: string): Uint8Array {
+        let bytes = new Uint8Array(s.length);
+        for (let i = 0;i < s.length;i++) {
+            let c = s.charCodeAt(i);
+            if (c > 255) {
+                throw new Error('Only ASCII characters are allowed.');
+            }
+            bytes[i] = c;
+        }
+        return bytes;
+    }
+
+    /**
+     * Decodes UTF-8 encoded text. Invalid sequences are replaced with U+FFFD.
+     * A leading byte order mark is skipped.
+     */
+    public static decodeUtf8(bytes: Uint8Array): string {
+        let parts: string[] = [];
+        let codes: number[] = [];
+        let i = 0, n = bytes.length;
+        if (n >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+            i = 3;
+        }
+        while (i < n) {
+            let b = bytes[i++];
+            let c: number, extra: number;
+            if (b < 0x80) {
+                c = b;
+                extra = 0;
+            } else if (b >= 0xc2 && b < 0xe0) {
+                c = b & 0x1f;
+                extra = 1;
+            } else if (b >= 0xe0 && b < 0xf0) {
+                c = b & 0x0f;
+                extra = 2;
+            } else if (b >= 0xf0 && b < 0xf5) {
+                c = b & 0x07;
+                extra = 3;
+            } else {
+                c = 0xfffd;
+                extra = 0;
+            }
+            while (extra > 0) {
+                if (i >= n || (bytes[i] & 0xc0) !== 0x80) {
+                    c = 0xfffd;
+                    break;
+                }
+                c = (c << 6) | (bytes[i++] & 0x3f);
+                extra--;
+            }
+            if (c >= 0x10000) {
+                c -= 0x10000;
+                codes.push(0xd800 + (c >> 10), 0xdc00 + (c & 0x3ff));
+            } else {
+                codes.push(c);
+            }
+            if (codes.length >= 4096) {
+                parts.push(String.fromCharCode.apply(null, codes));
+                codes = [];
+            }
+        }
+        parts.push(String.fromCharCode.apply(null, codes));
+        return parts.join('');
+    }
+
+    /**
+     * Converts between the column-major (Fortran) order and the row-major
+     * (C) order.
+     * @param src Source data.
+     * @param dst Destination data.
+     * @param shape Shape of the array.
+     * @param toRowMajor If true, src is column-major and dst is row-major.
+     *                   Otherwise src is row-major and dst is column-major.
+     */
+    public static convertOrder(src: ArrayLike<number>, dst: DataBlock, shape: ArrayLike<number>,
+                               toRowMajor: boolean): void {
+        let ndim = shape.length;
+        let n = 1;
+        let stridesCol: number[] = new Array(ndim);
+        for (let i = 0;i < ndim;i++) {
+            stridesCol[i] = n;
+            n *= shape[i];
+        }
+        if (n === 0) {
+            return;
+        }
+        let index: number[] = new Array(ndim);
+        for (let i = 0;i < ndim;i++) {
+            index[i] = 0;
+        }
+        // iterate in the row-major order while tracking the column-major
+        // offset
+        let offsetCol = 0;
+        for (let k = 0;k < n;k++) {
+            if (toRowMajor) {
+                dst[k] = src[offsetCol];
+            } else {
+                dst[offsetCol] = src[k];
+            }
+            for (let j = ndim - 1;j >= 0;j--) {
+                index[j]++;
+                offsetCol += stridesCol[j];
+                if (index[j] < shape[j]) {
+                    break;
+                }
+                offsetCol -= stridesCol[j] * shape[j];
+                index[j] = 0;
+            }
+        }
+    }
+
+}
@@ -0,0 +1,315 @@
+import { Tensor } from '../../core/tensor';
+import { DType } from '../../core/dtype';
+import { DataBlock } from '../../commonTypes';
+import { IOHelper } from './ioHelper';
+import { BinaryHelper, BinaryType } from '../../helper/binaryHelper';
+import { Inflate } from './inflate';
+
+/**
+ * MAT-file data types.
+ */
+const enum MatDataType {
+    INT8 = 1,
+    UINT8 = 2,
+    INT16 = 3,
+    UINT16 = 4,
+    INT32 = 5,
+    UINT32 = 6,
+    SINGLE = 7,
+    DOUBLE = 9,
+    INT64 = 12,
+    UINT64 = 13,
+    MATRIX = 14,
+    COMPRESSED = 15
+}
+
+/**
+ * MATLAB array classes.
+ */
+const enum MatClass {
+    DOUBLE = 6,
+    SINGLE = 7,
+    INT8 = 8,
+    UINT8 = 9,
+    INT16 = 10,
+    UINT16 = 11,
+    INT32 = 12,
+    UINT32 = 13,
+    INT64 = 14,
+    UINT64 = 15
+}
+
+const FLAG_COMPLEX = 0x08;
+const FLAG_LOGICAL = 0x02;
+
+/**
+ * Tag of a data element.
+ */
+interface DataElement {
+    type: number;
+    /**
+     * Offset of the data.
+     */
+    offset: number;
+    /**
+     * Number of bytes of the data.
+     */
+    length: number;
+    /**
+     * Offset of the next data element.
+     */
+    next: number;
+}
+
+/**
+ * Reader/writer of the MATLAB Level 5 MAT-file format.
+ * See "MATLAB MAT-File Format" published by MathWorks.
+ */
+export class MatFormat {
+
+    /**
+     * Parses a Level 5 MAT-file (including compressed variables in version 7
+     * MAT-files). Only numeric and logical arrays are loaded. Variables of
+     * other classes (e.g., cell arrays, structures, character arrays and
+     * sparse matrices) are skipped.
+     * MATLAB classes are mapped to the data types of the same names, except
+     * that int64/uint64 arrays are converted to FLOAT64 and logical arrays
+     * are converted to LOGIC.
+     * @returns An array of [variable name, tensor].
+     */
+    public static read(bytes: Uint8Array): Array<[string, Tensor]> {
+        if (bytes.length < 128) {
+            throw new Error('Invalid MAT-file.');
+        }
+        let endian = IOHelper.decodeLatin1(bytes, 126, 128);
+        if (endian !== 'IM' && endian !== 'MI') {
+            throw new Error('Invalid MAT-file or unsupported MAT-file version.');
+        }
+        let littleEndian = endian === 'IM';
+        let variables: Array<[string, Tensor]> = [];
+        let p = 128;
+        while (p + 8 <= bytes.length) {
+            let el = MatFormat._readTag(bytes, p, littleEndian);
+            if (el.type === MatDataType.COMPRESSED) {
+                let content = Inflate.inflateZlib(bytes, el.offset, el.offset + el.length);
+                let inner = MatFormat._readTag(content, 0, littleEndian);
+                if (inner.type === MatDataType.MATRIX) {
+                    MatFormat._readMatrix(content, inner, littleEndian, variables);
+                }
+            } else if (el.type === MatDataType.MATRIX) {
+                MatFormat._readMatrix(bytes, el, littleEndian, variables);
+            }
+            p = el.next;
+        }
+        return variables;
+    }
+
+    /**
+     * Creates a Level 5 MAT-file (uncompressed, little-endian). 1D tensors are
+     * saved as row vectors. Complex logic tensors are not supported.
+     * @param variables An array of [variable name, tensor]. Variable names
+     *                  must be valid MATLAB identifiers.
+     */
+    public static write(variables: Array<[string, Tensor]>): Uint8Array {
+        let chunks: Uint8Array[] = [];
+        let header = new Uint8Array(128);
+        let text = 'MATLAB 5.0 MAT-file, Platform: JASMAL';
+        while (text.length < 116) {
+            text += ' ';
+        }
+        header.set(IOHelper.encodeLatin1(text), 0);
+        BinaryHelper.getDataView(header).setUint16(124, 0x0100, true);
+        header.set(IOHelper.encodeLatin1('IM'), 126);
+        chunks.push(header);
+        for (let i = 0;i < variables.length;i++) {
+            chunks.push(MatFormat._writeMatrix(variables[i][0], variables[i][1]));
+        }
+        return IOHelper.concat(chunks);
+    }
+
+    private static _readTag(bytes: Uint8Array, p: number, littleEndian: boolean): DataElement {
+        if (p + 8 > bytes.length) {
+            throw new Error('Unexpected end of MAT-file.');
+        }
+        let view = BinaryHelper.getDataView(bytes);
+        let word = view.getUint32(p, littleEndian);
+        let el: DataElement;
+        if ((word >>> 16) !== 0) {
+            // small data element format
+            el = { type: word & 0xffff, offset: p + 4, length: word >>> 16, next: p + 8 };
+        } else {
+            let length = view.getUint32(p + 4, littleEndian);
+            // compressed data elements are not padded
+            let next = word === MatDataType.COMPRESSED
+                ? p + 8 + length
+                : p + 8 + Math.ceil(length / 8) * 8;
+            el = { type: word, offset: p + 8, length: length, next: next };
+        }
+        if (el.offset + el.length > bytes.length) {
+            throw new Error('Unexpected end of MAT-file.');
+        }
+        return el;
+    }
+
+    private static _readMatrix(bytes: Uint8Array, el: DataElement, littleEndian: boolean,
+                               variables: Array<[string, Tensor]>): void {
+        if (el.length === 0) {
+            return;
+        }
+        let view = BinaryHelper.getDataView(bytes);
+        // array flags
+        let flagsEl = MatFormat._readTag(bytes, el.offset, littleEndian);
+        let flags = view.getUint32(flagsEl.offset, littleEndian);
+        let mxClass = flags & 0xff;
+        let isComplex = ((flags >>> 8) & FLAG_COMPLEX) !== 0;
+        let isLogical = ((flags >>> 8) & FLAG_LOGICAL) !== 0;
+        let dtype = MatFormat._classToDType(mxClass, isLogical);
+        if (dtype == undefined) {
+            return;
+        }
+        // dimensions
+        let dimsEl = MatFormat._readTag(bytes, flagsEl.next, littleEndian);
+        let shape: number[] = new Array(dimsEl.length / 4);
+        BinaryHelper.readNumbers(view, dimsEl.offset, shape.length, 'int32', littleEndian, shape);
+        // name
+        let nameEl = MatFormat._readTag(bytes, dimsEl.next, littleEndian);
+        let name = IOHelper.decodeLatin1(bytes, nameEl.offset, nameEl.offset + nameEl.length);
+        let x = Tensor.zeros(shape, dtype);
+        if (isComplex) {
+            x.ensureComplexStorage();
+        }
+        let n = x.size;
+        const readPart = (partEl: DataElement, out: DataBlock): void => {
+            let binaryType = MatFormat._dataTypeToBinaryType(partEl.type);
+            if (partEl.length !== n * BinaryHelper.getBinaryTypeSize(binaryType)) {
+                throw new Error(`The number of elements of variable "${name}" does not match its dimensions.`);
+            }
+            let buffer = new Float64Array(n);
+            BinaryHelper.readNumbers(view, partEl.offset, n, binaryType, littleEndian, buffer);
+            IOHelper.convertOrder(buffer, out, shape, true);
+        };
+        let reEl = MatFormat._readTag(bytes, nameEl.next, littleEndian);
+        readPart(reEl, x.realData);
+        if (isComplex) {
+            readPart(MatFormat._readTag(bytes, reEl.next, littleEndian), x.imagData);
+        }
+        variables.push([name, x]);
+    }
+
+    private static _writeMatrix(name: string, x: Tensor): Uint8Array {
+        if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(name) || name.length > 63) {
+            throw new Error(`"${name}" is not a valid MATLAB variable name.`);
+        }
+        let isComplex = x.hasComplexStorage();
+        let [mxClass, dataType, binaryType] = MatFormat._dTypeToClass(x.dtype);
+        let shape = x.shape;
+        if (shape.length === 1) {
+            shape = [1, shape[0]];
+        }
+        let n = x.size;
+        let elementSize = BinaryHelper.getBinaryTypeSize(binaryType);
+        let dataLength = MatFormat._padded(n * elementSize);
+        let nameLength = MatFormat._padded(name.length);
+        // flags + dimensions + name + real part (+ imaginary part)
+        let length = 16 + (8 + MatFormat._padded(4 * shape.length)) + (8 + nameLength)
+            + (8 + dataLength) * (isComplex ? 2 : 1);
+        let bytes = new Uint8Array(8 + length);
+        let view = BinaryHelper.getDataView(bytes);
+        view.setUint32(0, MatDataType.MATRIX, true);
+        view.setUint32(4, length, true);
+        let p = 8;
+        // array flags
+        view.setUint32(p, MatDataType.UINT32, true);
+        view.setUint32(p + 4, 8, true);
+        let flags = mxClass;
+        if (isComplex) {
+            flags |= FLAG_COMPLEX << 8;
+        }
+        if (x.dtype === DType.LOGIC) {
+            flags |= FLAG_LOGICAL << 8;
+        }
+        view.setUint32(p + 8, flags, true);
+        p += 16;
+        // dimensions
+        view.setUint32(p, MatDataType.INT32, true);
+        view.setUint32(p + 4, 4 * shape.length, true);
+        BinaryHelper.writeNumbers(view, p + 8, shape, 'int32', true);
+        p += 8 + MatFormat._padded(4 * shape.length);
+        // name
+        view.setUint32(p, MatDataType.INT8, true);
+        view.setUint32(p + 4, name.length, true);
+        bytes.set(IOHelper.encodeLatin1(name), p + 8);
+        p += 8 + nameLength;
+        // data in the column-major order
+        const writePart = (data: ArrayLike<number>): void => {
+            let buffer = new Float64Array(n);
+            IOHelper.convertOrder(data, buffer, shape, false);
+            view.setUint32(p, dataType, true);
+            view.setUint32(p + 4, n * elementSize, true);
+            BinaryHelper.writeNumbers(view, p + 8, buffer, binaryType, true);
+            p += 8 + dataLength;
+        };
+        writePart(x.realData);
+        if (isComplex) {
+            writePart(x.imagData);
+        }
+        return bytes;
+    }
+
+    private static _padded(n: number): number {
+        return Math.ceil(n / 8) * 8;
+    }
+
+    private static _classToDType(mxClass: number, isLogical: boolean): DType | undefined {
+        switch (mxClass) {
+            case MatClass.DOUBLE: return DType.FLOAT64;
+            case MatClass.SINGLE: return DType.FLOAT32;
+            case MatClass.INT8: return DType.INT8;
+            case MatClass.UINT8: return isLogical ? DType.LOGIC : DType.UINT8;
+            case MatClass.INT16: return DType.INT16;
+            case MatClass.UINT16: return DType.UINT16;
+            case MatClass.INT32: return DType.INT32;
+            case MatClass.UINT32: return DType.UINT32;
+            case MatClass.INT64:
+            case MatClass.UINT64:
+                return DType.FLOAT64;
+            default:
+                return undefined;
+        }
+    }
+
+    private static _dTypeToClass(dtype: DType): [MatClass, MatDataType, BinaryType] {
+        switch (dtype) {
+            case DType.FLOAT64: return [MatClass.DOUBLE, MatDataType.DOUBLE, 'float64'];
+            case DType.FLOAT32: return [MatClass.SINGLE, MatDataType.SINGLE, 'float32'];
+            case DType.INT8: return [MatClass.INT8, MatDataType.INT8, 'int8'];
+            case DType.UINT8:
+            case DType.LOGIC:
+                return [MatClass.UINT8, MatDataType.UINT8, 'uint8'];
+            case DType.INT16: return [MatClass.INT16, MatDataType.INT16, 'int16'];
+            case DType.UINT16: return [MatClass.UINT16, MatDataType.UINT16, 'uint16'];
+            case DType.INT32: return [MatClass.INT32, MatDataType.INT32, 'int32'];
+            case DType.UINT32: return [MatClass.UINT32, MatDataType.UINT32, 'uint32'];
+            default:
+                throw new Error('Unsupported data type.');
+        }
+    }
+
+    private static _dataTypeToBinaryType(type: number): BinaryType {
+        switch (type) {
+            case MatDataType.INT8: return 'int8';
+            case MatDataType.UINT8: return 'uint8';
+            case MatDataType.INT16: return 'int16';
+            case MatDataType.UINT16: return 'uint16';
+            case MatDataType.INT32: return 'int32';
+            case MatDataType.UINT32: return 'uint32';
+            case MatDataType.SINGLE: return 'float32';
+            case MatDataType.DOUBLE: return 'float64';
+            case MatDataType.INT64: return 'int64';
+            case MatDataType.UINT64: return 'uint64';
+            default:
+                throw new Error(`Unsupported MAT-file data type ${type}.`);
+        }
+    }
+
+}
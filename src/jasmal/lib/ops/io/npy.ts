@@ -0,0 +1,182 @@
+import { Tensor } from '../../core/tensor';
+import { DType } from '../../core/dtype';
+import { DataBlock } from '../../commonTypes';
+import { IOHelper } from './ioHelper';
+import { BinaryHelper, BinaryType } from '../../helper/binaryHelper';
+
+/**
+ * Reader/writer of the NumPy .npy format.
+ * See https://numpy.org/doc/stable/reference/generated/numpy.lib.format.html
+ */
+export class NpyFormat {
+
+    /**
+     * Parses a .npy file.
+     * The NumPy data types are mapped as follows:
+     *  bool -> LOGIC, int8/16/32 -> INT8/16/32, uint8/16/32 -> UINT8/16/32,
+     *  float32 -> FLOAT32, float64 -> FLOAT64, complex64 -> complex FLOAT32,
+     *  complex128 -> complex FLOAT64, int64/uint64 -> FLOAT64 (precision is
+     *  lost for integers greater than 2^53).
+     * A 0-d array is converted to a tensor of shape [1].
+     */
+    public static read(bytes: Uint8Array): Tensor {
+        if (bytes.length < 10 || bytes[0] !== 0x93 || IOHelper.decodeLatin1(bytes, 1, 6) !== 'NUMPY') {
+            throw new Error('Invalid .npy file.');
+        }
+        let view = BinaryHelper.getDataView(bytes);
+        let major = bytes[6];
+        let headerStart: number, headerLength: number;
+        if (major === 1) {
+            headerLength = view.getUint16(8, true);
+            headerStart = 10;
+        } else if (major === 2 || major === 3) {
+            headerLength = view.getUint32(8, true);
+            headerStart = 12;
+        } else {
+            throw new Error(`Unsupported .npy version ${major}.`);
+        }
+        if (headerStart + headerLength > bytes.length) {
+            throw new Error('Invalid .npy file.');
+        }
+        let header = major === 3
+            ? IOHelper.decodeUtf8(bytes.subarray(headerStart, headerStart + headerLength))
+            : IOHelper.decodeLatin1(bytes, headerStart, headerStart + headerLength);
+        let descrMatch = /['"]descr['"]\s*:\s*['"]([^'"]*)['"]/.exec(header);
+        let fortranMatch = /['"]fortran_order['"]\s*:\s*(True|False)/.exec(header);
+        let shapeMatch = /['"]shape['"]\s*:\s*\(([^)]*)\)/.exec(header);
+        if (!descrMatch || !fortranMatch || !shapeMatch) {
+            throw new Error('Invalid or unsupported .npy header.');
+        }
+        let [dtype, binaryType, isComplex] = NpyFormat._parseDescr(descrMatch[1]);
+        let littleEndian = descrMatch[1].charAt(0) !== '>';
+        let isFortranOrder = fortranMatch[1] === 'True';
+        let shape: number[] = [];
+        let dims = shapeMatch[1].split(',');
+        for (let i = 0;i < dims.length;i++) {
+            let s = dims[i].replace(/L/g, '').trim();
+            if (s.length > 0) {
+                let d = parseInt(s, 10);
+                if (!(d >= 0)) {
+                    throw new Error('Invalid shape in .npy header.');
+                }
+                shape.push(d);
+            }
+        }
+        if (shape.length === 0) {
+            shape.push(1);
+        }
+        let x = Tensor.zeros(shape, dtype);
+        let n = x.size;
+        let offset = headerStart + headerLength;
+        let elementSize = BinaryHelper.getBinaryTypeSize(binaryType);
+        if (offset + n * elementSize * (isComplex ? 2 : 1) > bytes.length) {
+            throw new Error('Unexpected end of .npy file.');
+        }
+        let needReorder = isFortranOrder && shape.length > 1;
+        let stride = isComplex ? 2 : 1;
+        const readPart = (partOffset: number, out: DataBlock): void => {
+            if (needReorder) {
+                let buffer = new Float64Array(n);
+                BinaryHelper.readNumbers(view, partOffset, n, binaryType, littleEndian, buffer, stride);
+                IOHelper.convertOrder(buffer, out, shape, true);
+            } else {
+                BinaryHelper.readNumbers(view, partOffset, n, binaryType, littleEndian, out, stride);
+            }
+        };
+        readPart(offset, x.realData);
+        if (isComplex) {
+            x.ensureComplexStorage();
+            readPart(offset + elementSize, x.imagData);
+        }
+        return x;
+    }
+
+    /**
+     * Serializes a tensor in the .npy format (C order, little-endian).
+     * Complex tensors of integer types are saved as complex128 since NumPy
+     * does not support complex integers.
+     */
+    public static write(x: Tensor): Uint8Array {
+        let isComplex = x.hasComplexStorage();
+        let dtype = x.dtype;
+        if (isComplex && dtype !== DType.FLOAT32) {
+            dtype = DType.FLOAT64;
+        }
+        let [descr, binaryType] = NpyFormat._getDescr(dtype, isComplex);
+        let shape = x.shape;
+        let shapeStr = shape.length === 1 ? `(${shape[0]},)` : `(${shape.join(', ')})`;
+        let header = `{'descr': '${descr}', 'fortran_order': False, 'shape': ${shapeStr}, }`;
+        // the total length of the preamble must be divisible by 64
+        let major = header.length + 11 > 65535 ? 2 : 1;
+        let preambleLength = major === 1 ? 10 : 12;
+        let padding = 63 - (preambleLength + header.length) % 64;
+        for (let i = 0;i < padding;i++) {
+            header += ' ';
+        }
+        header += '\n';
+        let headerBytes = IOHelper.encodeLatin1(header);
+        let n = x.size;
+        let elementSize = BinaryHelper.getBinaryTypeSize(binaryType);
+        let dataOffset = preambleLength + headerBytes.length;
+        let bytes = new Uint8Array(dataOffset + n * elementSize * (isComplex ? 2 : 1));
+        let view = BinaryHelper.getDataView(bytes);
+        bytes[0] = 0x93;
+        bytes.set(IOHelper.encodeLatin1('NUMPY'), 1);
+        bytes[6] = major;
+        bytes[7] = 0;
+        if (major === 1) {
+            view.setUint16(8, headerBytes.length, true);
+        } else {
+            view.setUint32(8, headerBytes.length, true);
+        }
+        bytes.set(headerBytes, preambleLength);
+        BinaryHelper.writeNumbers(view, dataOffset, x.realData, binaryType, true, isComplex ? 2 : 1);
+        if (isComplex) {
+            BinaryHelper.writeNumbers(view, dataOffset + elementSize, x.imagData, binaryType, true, 2);
+        }
+        return bytes;
+    }
+
+    /**
+     * Parses the type descriptor.
+     * @returns [dtype, binary type, isComplex]
+     */
+    private static _parseDescr(descr: string): [DType, BinaryType, boolean] {
+        let order = descr.charAt(0);
+        let t = (order === '<' || order === '>' || order === '|' || order === '=') ? descr.substring(1) : descr;
+        switch (t) {
+            case 'b1': return [DType.LOGIC, 'uint8', false];
+            case 'i1': return [DType.INT8, 'int8', false];
+            case 'u1': return [DType.UINT8, 'uint8', false];
+            case 'i2': return [DType.INT16, 'int16', false];
+            case 'u2': return [DType.UINT16, 'uint16', false];
+            case 'i4': return [DType.INT32, 'int32', false];
+            case 'u4': return [DType.UINT32, 'uint32', false];
+            case 'i8': return [DType.FLOAT64, 'int64', false];
+            case 'u8': return [DType.FLOAT64, 'uint64', false];
+            case 'f4': return [DType.FLOAT32, 'float32', false];
+            case 'f8': return [DType.FLOAT64, 'float64', false];
+            case 'c8': return [DType.FLOAT32, 'float32', true];
+            case 'c16': return [DType.FLOAT64, 'float64', true];
+            default:
+                throw new Error(`Unsupported NumPy data type "${descr}".`);
+        }
+    }
+
+    private static _getDescr(dtype: DType, isComplex: boolean): [string, BinaryType] {
+        switch (dtype) {
+            case DType.LOGIC: return ['|b1', 'uint8'];
+            case DType.INT8: return ['|i1', 'int8'];
+            case DType.UINT8: return ['|u1', 'uint8'];
+            case DType.INT16: return ['<i2', 'int16'];
+            case DType.UINT16: return ['<u2', 'uint16'];
+            case DType.INT32: return ['<i4', 'int32'];
+            case DType.UINT32: return ['<u4', 'uint32'];
+            case DType.FLOAT32: return [isComplex ? '<c8' : '<f4', 'float32'];
+            case DType.FLOAT64: return [isComplex ? '<c16' : '<f8', 'float64'];
+            default:
+                throw new Error('Unsupported data type.');
+        }
+    }
+
+}
@@ -0,0 +1,213 @@
+import { IOHelper } from './ioHelper';
+import { BinaryHelper } from '../../helper/binaryHelper';
+import { Inflate } from './inflate';
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIR_SIGNATURE = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIR_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+
+/**
+ * Minimal reader/writer of ZIP archives (used by the .npz format). Only the
+ * stored (no compression) and deflate methods are supported when reading.
+ * Files are always stored without compression when writing.
+ */
+export class ZipArchive {
+
+    private static _crcTable: Uint32Array | undefined;
+
+    /**
+     * Computes the CRC-32 checksum.
+     */
+    public static crc32(data: Uint8Array): number {
+        let table = ZipArchive._getCrcTable();
+        let crc = 0xffffffff;
+        for (let i = 0;i < data.length;i++) {
+            crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+        }
+        return (crc ^ 0xffffffff) >>> 0;
+    }
+
+    /**
+     * Reads all the files in a ZIP archive.
+     * @returns An array of [file name, file content].
+     */
+    public static read(data: Uint8Array): Array<[string, Uint8Array]> {
+        let view = BinaryHelper.getDataView(data);
+        // locate the end of central directory record
+        let eocd = -1;
+        for (let p = data.length - 22;p >= Math.max(0, data.length - 22 - 65535);p--) {
+            if (view.getUint32(p, true) === END_OF_CENTRAL_DIR_SIGNATURE) {
+                eocd = p;
+                break;
+            }
+        }
+        if (eocd < 0) {
+            throw new Error('Invalid ZIP archive.');
+        }
+        let nEntries = view.getUint16(eocd + 10, true);
+        let cdOffset = view.getUint32(eocd + 16, true);
+        if (nEntries === 0xffff || cdOffset === 0xffffffff) {
+            // ZIP64 archive
+            let locator = eocd - 20;
+            if (locator < 0 || view.getUint32(locator, true) !== ZIP64_LOCATOR_SIGNATURE) {
+                throw new Error('Invalid ZIP64 archive.');
+            }
+            let eocd64 = ZipArchive._readUint64(view, locator + 8);
+            if (view.getUint32(eocd64, true) !== ZIP64_END_OF_CENTRAL_DIR_SIGNATURE) {
+                throw new Error('Invalid ZIP64 archive.');
+            }
+            nEntries = ZipArchive._readUint64(view, eocd64 + 32);
+            cdOffset = ZipArchive._readUint64(view, eocd64 + 48);
+        }
+        let files: Array<[string, Uint8Array]> = [];
+        let p = cdOffset;
+        for (let i = 0;i < nEntries;i++) {
+            if (view.getUint32(p, true) !== CENTRAL_HEADER_SIGNATURE) {
+                throw new Error('Invalid central directory in ZIP archive.');
+            }
+            let flags = view.getUint16(p + 8, true);
+            let method = view.getUint16(p + 10, true);
+            let crc = view.getUint32(p + 16, true);
+            let compressedSize = view.getUint32(p + 20, true);
+            let size = view.getUint32(p + 24, true);
+            let nameLength = view.getUint16(p + 28, true);
+            let extraLength = view.getUint16(p + 30, true);
+            let commentLength = view.getUint16(p + 32, true);
+            let localOffset = view.getUint32(p + 42, true);
+            let name = (flags & 0x0800)
+                ? IOHelper.decodeUtf8(data.subarray(p + 46, p + 46 + nameLength))
+                : IOHelper.decodeLatin1(data, p + 46, p + 46 + nameLength);
+            // ZIP64 extended information: the fields are present only if the
+            // corresponding fields in the header are set to 0xffffffff
+            let q = p + 46 + nameLength, extraEnd = q + extraLength;
+            while (q + 4 <= extraEnd) {
+                let id = view.getUint16(q, true);
+                let len = view.getUint16(q + 2, true);
+                if (id === 0x0001) {
+                    let r = q + 4;
+                    if (size === 0xffffffff) {
+                        size = ZipArchive._readUint64(view, r);
+                        r += 8;
+                    }
+                    if (compressedSize === 0xffffffff) {
+                        compressedSize = ZipArchive._readUint64(view, r);
+                        r += 8;
+                    }
+                    if (localOffset === 0xffffffff) {
+                        localOffset = ZipArchive._readUint64(view, r);
+                    }
+                }
+                q += 4 + len;
+            }
+            if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+                throw new Error('Invalid local file header in ZIP archive.');
+            }
+            let dataOffset = localOffset + 30 + view.getUint16(localOffset + 26, true)
+                + view.getUint16(localOffset + 28, true);
+            if (dataOffset + compressedSize > data.length) {
+                throw new Error('Unexpected end of ZIP archive.');
+            }
+            let content: Uint8Array;
+            switch (method) {
+                case 0:
+                    content = data.subarray(dataOffset, dataOffset + compressedSize);
+                    break;
+                case 8:
+                    content = Inflate.inflateRaw(data, dataOffset, dataOffset + compressedSize, size);
+                    break;
+                default:
+                    throw new Error(`Unsupported compression method ${method} in ZIP archive.`);
+            }
+            if (content.length !== size || ZipArchive.crc32(content) !== crc) {
+                throw new Error(`Corrupted file "${name}" in ZIP archive.`);
+            }
+            files.push([name, content]);
+            p += 46 + nameLength + extraLength + commentLength;
+        }
+        return files;
+    }
+
+    /**
+     * Creates a ZIP archive where the files are stored without compression.
+     * @param files An array of [file name, file content]. File names must be
+     *              ASCII strings.
+     */
+    public static write(files: Array<[string, Uint8Array]>): Uint8Array {
+        let chunks: Uint8Array[] = [];
+        let centralChunks: Uint8Array[] = [];
+        let offset = 0;
+        for (let i = 0;i < files.length;i++) {
+            let name = IOHelper.encodeLatin1(files[i][0]);
+            let content = files[i][1];
+            let crc = ZipArchive.crc32(content);
+            if (content.length >= 0xffffffff || offset >= 0xffffffff) {
+                throw new Error('ZIP archives larger than 4GB are not supported.');
+            }
+            let local = new Uint8Array(30 + name.length);
+            let lv = BinaryHelper.getDataView(local);
+            lv.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+            ZipArchive._writeCommonHeader(lv, 4, crc, content.length);
+            lv.setUint16(26, name.length, true);
+            lv.setUint16(28, 0, true);
+            local.set(name, 30);
+            let central = new Uint8Array(46 + name.length);
+            let cv = BinaryHelper.getDataView(central);
+            cv.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+            cv.setUint16(4, 20, true); // version made by
+            ZipArchive._writeCommonHeader(cv, 6, crc, content.length);
+            cv.setUint16(28, name.length, true);
+            cv.setUint32(42, offset, true);
+            central.set(name, 46);
+            chunks.push(local, content);
+            centralChunks.push(central);
+            offset += local.length + content.length;
+        }
+        let centralDir = IOHelper.concat(centralChunks);
+        let eocd = new Uint8Array(22);
+        let ev = BinaryHelper.getDataView(eocd);
+        ev.setUint32(0, END_OF_CENTRAL_DIR_SIGNATURE, true);
+        ev.setUint16(8, files.length, true);
+        ev.setUint16(10, files.length, true);
+        ev.setUint32(12, centralDir.length, true);
+        ev.setUint32(16, offset, true);
+        chunks.push(centralDir, eocd);
+        return IOHelper.concat(chunks);
+    }
+
+    /**
+     * Writes the fields shared by the local file header and the central
+     * directory header, starting from the "version needed to extract" field.
+     */
+    private static _writeCommonHeader(view: DataView, offset: number, crc: number, size: number): void {
+        view.setUint16(offset, 20, true); // version needed to extract
+        view.setUint16(offset + 2, 0, true); // flags
+        view.setUint16(offset + 4, 0, true); // stored
+        view.setUint16(offset + 6, 0, true); // time
+        view.setUint16(offset + 8, 0x21, true); // date (1980-01-01)
+        view.setUint32(offset + 10, crc, true);
+        view.setUint32(offset + 14, size, true);
+        view.setUint32(offset + 18, size, true);
+    }
+
+    private static _readUint64(view: DataView, offset: number): number {
+        return view.getUint32(offset + 4, true) * 4294967296 + view.getUint32(offset, true);
+    }
+
+    private static _getCrcTable(): Uint32Array {
+        if (!ZipArchive._crcTable) {
+            let table = new Uint32Array(256);
+            for (let i = 0;i < 256;i++) {
+                let c = i;
+                for (let k = 0;k < 8;k++) {
+                    c = (c & 1) ? (0xedb88320 ^ (c >>> 1)) : (c >>> 1);
+                }
+                table[i] = c >>> 0;
+            }
+            ZipArchive._crcTable = table;
+        }
+        return ZipArchive._crcTable;
+    }
+
+}
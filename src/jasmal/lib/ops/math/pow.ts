@@ -1,6 +1,6 @@
 import { ElementWiseOpGenerator } from '../generator';
 import { OpOutput, OpInput, RealOpInput, RealOpOutput } from '../../commonTypes';
-import { OutputDTypeResolver, DType } from '../../core/dtype';
+import { OutputDTypeResolver, DTypeHelper } from '../../core/dtype';
 import { Tensor } from '../../core/tensor';
 import { DataHelper } from '../../helper/dataHelper';
 
@@ -39,14 +39,14 @@ export class PowerMathOpSetFactory {
         const opSqrtP = generator.makeUnaryOp({
             opR: '$reY = Math.sqrt($reX);'
         }, {
-            outputDTypeResolver: OutputDTypeResolver.uToFloat64
+            outputDTypeResolver: OutputDTypeResolver.uToFloat
         });
 
         const opSqrtA = generator.makeUnaryOp({
             opR: 'if ($reX >= 0) { $reY = Math.sqrt($reX); } else { $imY = Math.sqrt(-$reX); $reY = 0; }',
             opC: '$tmp1 = CMath.csqrt($reX, $imX); $reY = $tmp1[0]; $imY = $tmp1[1];'
         }, {
-            outputDTypeResolver: OutputDTypeResolver.uToFloat64            
+            outputDTypeResolver: OutputDTypeResolver.uToFloat            
         });
 
         const opSqrt = (x: OpInput, inPlace: boolean = false): OpOutput => {
@@ -68,7 +68,7 @@ export class PowerMathOpSetFactory {
         const opPowR = generator.makeRealOutputBinaryOp({
             opRR: '$reZ = Math.pow($reX, $reY);'
         }, {
-            outputDTypeResolver: OutputDTypeResolver.bToFloat64
+            outputDTypeResolver: OutputDTypeResolver.bToFloat
         });
 
         const opPowCC = generator.makeBinaryOp({
@@ -77,7 +77,7 @@ export class PowerMathOpSetFactory {
             opCR: '$tmp1 = CMath.cpow($reX, $imX, $reY, 0); $reZ = $tmp1[0]; $imZ = $tmp1[1];',
             opCC: '$tmp1 = CMath.cpow($reX, $imX, $reY, $imY); $reZ = $tmp1[0]; $imZ = $tmp1[1];'
         }, {
-            outputDTypeResolver: OutputDTypeResolver.bToFloat64
+            outputDTypeResolver: OutputDTypeResolver.bToFloat
         });
 
         const opPow = (x: OpInput, y: OpInput, inPlace: boolean = false): OpOutput => {
@@ -87,7 +87,7 @@ export class PowerMathOpSetFactory {
             if (infoX.isComplex || infoY.isComplex) {
                 Z = opPowCC(infoX, infoY, inPlace);
             } else {
-                if ((infoX.re < 0 || DataHelper.anyNegative(infoX.reArr)) && infoY.originalDType === DType.FLOAT64) {
+                if ((infoX.re < 0 || DataHelper.anyNegative(infoX.reArr)) && DTypeHelper.isFloatType(infoY.originalDType)) {
                     // When x has negative elements, it is possible to produce
                     // complex results when y is not an integer.
                     Z = opPowCC(infoX, infoY, inPlace);
@@ -1,9 +1,11 @@
 import { ElementWiseOpGenerator } from '../generator';
-import { RealOpInput, RealOpOutput } from '../../commonTypes';
+import { RealOpInput, RealOpOutput, OpInput, OpOutput } from '../../commonTypes';
 import { OutputDTypeResolver } from '../../core/dtype';
 import { SpecialFunction } from '../../math/special';
 import { Tensor } from '../../core/tensor';
 import { Factorization } from '../../math/factor';
+import { DataHelper } from '../../helper/dataHelper';
+import { BroadcastEvaluator } from '../generator/broadcast';
 
 /**
  * A collection of special functions.
@@ -11,14 +13,15 @@ import { Factorization } from '../../math/factor';
 export interface ISpecialFunctionOpSet {
 
     /**
-     * Logarithm of gamma function.
+     * Logarithm of gamma function. For complex inputs, the principal branch
+     * of log(gamma(z)) is returned.
      */
-    gammaln(x: RealOpInput, inPlace?: boolean): RealOpOutput;
+    gammaln(x: OpInput, inPlace?: boolean): OpOutput;
 
     /**
-     * Gamma function.
+     * Gamma function. Accepts complex inputs.
      */
-    gamma(x: RealOpInput, inPlace?: boolean): RealOpOutput;
+    gamma(x: OpInput, inPlace?: boolean): OpOutput;
 
     /**
      * Factorial function.
@@ -40,6 +43,126 @@ export interface ISpecialFunctionOpSet {
      */
     erfcx(x: RealOpInput, inPlace?: boolean): RealOpOutput;
 
+    /**
+     * Inverse error function.
+     */
+    erfinv(x: RealOpInput, inPlace?: boolean): RealOpOutput;
+
+    /**
+     * Inverse complementary error function.
+     */
+    erfcinv(x: RealOpInput, inPlace?: boolean): RealOpOutput;
+
+    /**
+     * Regularized incomplete gamma function. The lower one is defined by
+     * P(x, a) = 1/gamma(a) int_0^x t^(a-1) exp(-t) dt, and the upper one is
+     * defined by Q(x, a) = 1 - P(x, a).
+     * @param x Nonnegative real numbers.
+     * @param a Nonnegative real numbers.
+     * @param tail (Optional) 'lower' or 'upper'. Default value is 'lower'.
+     */
+    gammainc(x: RealOpInput, a: RealOpInput, tail?: 'lower' | 'upper'): RealOpOutput;
+
+    /**
+     * Inverse of the regularized incomplete gamma function with respect to x,
+     * i.e., finds x such that gammainc(x, a, tail) = y.
+     * @param y Real numbers in [0, 1].
+     * @param a Nonnegative real numbers.
+     * @param tail (Optional) 'lower' or 'upper'. Default value is 'lower'.
+     */
+    gammaincinv(y: RealOpInput, a: RealOpInput, tail?: 'lower' | 'upper'): RealOpOutput;
+
+    /**
+     * Beta function.
+     */
+    beta(a: RealOpInput, b: RealOpInput): RealOpOutput;
+
+    /**
+     * Logarithm of beta function.
+     */
+    betaln(a: RealOpInput, b: RealOpInput): RealOpOutput;
+
+    /**
+     * Regularized incomplete beta function. The lower one is defined by
+     * I(x, a, b) = 1/beta(a, b) int_0^x t^(a-1) (1-t)^(b-1) dt, and the upper
+     * one is defined by 1 - I(x, a, b).
+     * Note: x, a, and b are broadcast against each other.
+     * @param x Real numbers in [0, 1].
+     * @param a Nonnegative real numbers.
+     * @param b Nonnegative real numbers.
+     * @param tail (Optional) 'lower' or 'upper'. Default value is 'lower'.
+     */
+    betainc(x: RealOpInput, a: RealOpInput, b: RealOpInput, tail?: 'lower' | 'upper'): RealOpOutput;
+
+    /**
+     * Inverse of the regularized incomplete beta function with respect to x,
+     * i.e., finds x such that betainc(x, a, b, tail) = y.
+     * Note: y, a, and b are broadcast against each other.
+     * @param y Real numbers in [0, 1].
+     * @param a Nonnegative real numbers.
+     * @param b Nonnegative real numbers.
+     * @param tail (Optional) 'lower' or 'upper'. Default value is 'lower'.
+     */
+    betaincinv(y: RealOpInput, a: RealOpInput, b: RealOpInput, tail?: 'lower' | 'upper'): RealOpOutput;
+
+    /**
+     * Digamma function, the logarithmic derivative of the gamma function.
+     */
+    psi(x: RealOpInput, inPlace?: boolean): RealOpOutput;
+
+    /**
+     * Digamma function. Same as psi().
+     */
+    digamma(x: RealOpInput, inPlace?: boolean): RealOpOutput;
+
+    /**
+     * Riemann zeta function.
+     */
+    zeta(x: RealOpInput, inPlace?: boolean): RealOpOutput;
+
+    /**
+     * Exponential integral E1(x) = int_x^Inf exp(-t)/t dt.
+     * Note: This operation produces complex outputs for negative inputs,
+     *       where E1(x) = -Ei(-x) - i pi.
+     */
+    expint(x: RealOpInput, inPlace?: boolean): OpOutput;
+
+    /**
+     * Airy functions.
+     * @param x Input. Can be complex.
+     * @param k (Optional) 0 - Ai(x), 1 - Ai'(x), 2 - Bi(x), 3 - Bi'(x).
+     *          Default value is 0.
+     */
+    airy(x: OpInput, k?: number): OpOutput;
+
+    /**
+     * Bessel function of the first kind J_nu(z).
+     * @param nu Real orders.
+     * @param z Arguments. Can be complex.
+     */
+    besselj(nu: RealOpInput, z: OpInput): OpOutput;
+
+    /**
+     * Bessel function of the second kind Y_nu(z).
+     * @param nu Real orders.
+     * @param z Arguments. Can be complex.
+     */
+    bessely(nu: RealOpInput, z: OpInput): OpOutput;
+
+    /**
+     * Modified Bessel function of the first kind I_nu(z).
+     * @param nu Real orders.
+     * @param z Arguments. Can be complex.
+     */
+    besseli(nu: RealOpInput, z: OpInput): OpOutput;
+
+    /**
+     * Modified Bessel function of the second kind K_nu(z).
+     * @param nu Real orders.
+     * @param z Arguments. Can be complex.
+     */
+    besselk(nu: RealOpInput, z: OpInput): OpOutput;
+
     /**
      * Checks if the given number is a prime number.
      */
@@ -57,17 +180,19 @@ export class SpecialFunctionOpSetFactory {
 
     public static create(generator: ElementWiseOpGenerator): ISpecialFunctionOpSet {
 
-        const opGammaLn = generator.makeRealOutputUnaryOp({
-            opR: '$reY = SpecialFunction.gammaln($reX);'
+        const opGammaLn = generator.makeUnaryOp({
+            opR: '$reY = SpecialFunction.gammaln($reX);',
+            opC: '$tmp1 = SpecialFunction.cgammaln($reX, $imX); $reY = $tmp1[0]; $imY = $tmp1[1];'
         }, {
-            outputDTypeResolver: OutputDTypeResolver.uToFloat64,
+            outputDTypeResolver: OutputDTypeResolver.uToFloat,
             extraDependencies: { 'SpecialFunction': SpecialFunction }
         });
 
-        const opGamma = generator.makeRealOutputUnaryOp({
-            opR: '$reY = SpecialFunction.gamma($reX);'
+        const opGamma = generator.makeUnaryOp({
+            opR: '$reY = SpecialFunction.gamma($reX);',
+            opC: '$tmp1 = SpecialFunction.cgamma($reX, $imX); $reY = $tmp1[0]; $imY = $tmp1[1];'
         }, {
-            outputDTypeResolver: OutputDTypeResolver.uToFloat64,
+            outputDTypeResolver: OutputDTypeResolver.uToFloat,
             extraDependencies: { 'SpecialFunction': SpecialFunction }
         });
 
@@ -81,24 +206,198 @@ export class SpecialFunctionOpSetFactory {
         const opErf = generator.makeRealOutputUnaryOp({
             opR: '$reY = SpecialFunction.erf($reX);'
         }, {
-            outputDTypeResolver: OutputDTypeResolver.uToFloat64,
+            outputDTypeResolver: OutputDTypeResolver.uToFloat,
             extraDependencies: { 'SpecialFunction': SpecialFunction }
         });
 
         const opErfc = generator.makeRealOutputUnaryOp({
             opR: '$reY = SpecialFunction.erfc($reX);'
         }, {
-            outputDTypeResolver: OutputDTypeResolver.uToFloat64,
+            outputDTypeResolver: OutputDTypeResolver.uToFloat,
             extraDependencies: { 'SpecialFunction': SpecialFunction }
         });
 
         const opErfcx = generator.makeRealOutputUnaryOp({
             opR: '$reY = SpecialFunction.erfcx($reX);'
         }, {
-            outputDTypeResolver: OutputDTypeResolver.uToFloat64,
+            outputDTypeResolver: OutputDTypeResolver.uToFloat,
             extraDependencies: { 'SpecialFunction': SpecialFunction }
         });
 
+        const opErfInv = generator.makeRealOutputUnaryOp({
+            opR: '$reY = SpecialFunction.erfinv($reX);'
+        }, {
+            outputDTypeResolver: OutputDTypeResolver.uToFloat,
+            extraDependencies: { 'SpecialFunction': SpecialFunction }
+        });
+
+        const opErfcInv = generator.makeRealOutputUnaryOp({
+            opR: '$reY = SpecialFunction.erfcinv($reX);'
+        }, {
+            outputDTypeResolver: OutputDTypeResolver.uToFloat,
+            extraDependencies: { 'SpecialFunction': SpecialFunction }
+        });
+
+        const isUpperTail = (tail: string): boolean => {
+            if (tail !== 'lower' && tail !== 'upper') {
+                throw new Error(`Invalid tail option '${tail}'.`);
+            }
+            return tail === 'upper';
+        };
+
+        const opGammaIncL = generator.makeRealOutputBinaryOp({
+            opRR: '$reZ = SpecialFunction.gammainc($reX, $reY, false);'
+        }, {
+            outputDTypeResolver: OutputDTypeResolver.bToFloat,
+            extraDependencies: { 'SpecialFunction': SpecialFunction }
+        });
+
+        const opGammaIncU = generator.makeRealOutputBinaryOp({
+            opRR: '$reZ = SpecialFunction.gammainc($reX, $reY, true);'
+        }, {
+            outputDTypeResolver: OutputDTypeResolver.bToFloat,
+            extraDependencies: { 'SpecialFunction': SpecialFunction }
+        });
+
+        const opGammaInc = (x: RealOpInput, a: RealOpInput, tail: 'lower' | 'upper' = 'lower'): RealOpOutput => {
+            return isUpperTail(tail) ? opGammaIncU(x, a) : opGammaIncL(x, a);
+        };
+
+        const opGammaIncInvL = generator.makeRealOutputBinaryOp({
+            opRR: '$reZ = SpecialFunction.gammaincinv($reX, $reY, false);'
+        }, {
+            outputDTypeResolver: OutputDTypeResolver.bToFloat,
+            extraDependencies: { 'SpecialFunction': SpecialFunction }
+        });
+
+        const opGammaIncInvU = generator.makeRealOutputBinaryOp({
+            opRR: '$reZ = SpecialFunction.gammaincinv($reX, $reY, true);'
+        }, {
+            outputDTypeResolver: OutputDTypeResolver.bToFloat,
+            extraDependencies: { 'SpecialFunction': SpecialFunction }
+        });
+
+        const opGammaIncInv = (y: RealOpInput, a: RealOpInput, tail: 'lower' | 'upper' = 'lower'): RealOpOutput => {
+            return isUpperTail(tail) ? opGammaIncInvU(y, a) : opGammaIncInvL(y, a);
+        };
+
+        const opBeta = generator.makeRealOutputBinaryOp({
+            opRR: '$reZ = SpecialFunction.beta($reX, $reY);'
+        }, {
+            outputDTypeResolver: OutputDTypeResolver.bToFloat,
+            extraDependencies: { 'SpecialFunction': SpecialFunction }
+        });
+
+        const opBetaLn = generator.makeRealOutputBinaryOp({
+            opRR: '$reZ = SpecialFunction.betaln($reX, $reY);'
+        }, {
+            outputDTypeResolver: OutputDTypeResolver.bToFloat,
+            extraDependencies: { 'SpecialFunction': SpecialFunction }
+        });
+
+        const opBetaInc = (x: RealOpInput, a: RealOpInput, b: RealOpInput, tail: 'lower' | 'upper' = 'lower'): RealOpOutput => {
+            let upper = isUpperTail(tail);
+            return <RealOpOutput>BroadcastEvaluator.evaluate([x, a, b], undefined, v => SpecialFunction.betainc(v[0], v[1], v[2], upper));
+        };
+
+        const opBetaIncInv = (y: RealOpInput, a: RealOpInput, b: RealOpInput, tail: 'lower' | 'upper' = 'lower'): RealOpOutput => {
+            let upper = isUpperTail(tail);
+            return <RealOpOutput>BroadcastEvaluator.evaluate([y, a, b], undefined, v => SpecialFunction.betaincinv(v[0], v[1], v[2], upper));
+        };
+
+        const opPsi = generator.makeRealOutputUnaryOp({
+            opR: '$reY = SpecialFunction.digamma($reX);'
+        }, {
+            outputDTypeResolver: OutputDTypeResolver.uToFloat,
+            extraDependencies: { 'SpecialFunction': SpecialFunction }
+        });
+
+        const opZeta = generator.makeRealOutputUnaryOp({
+            opR: '$reY = SpecialFunction.zeta($reX);'
+        }, {
+            outputDTypeResolver: OutputDTypeResolver.uToFloat,
+            extraDependencies: { 'SpecialFunction': SpecialFunction }
+        });
+
+        const opExpIntP = generator.makeRealOutputUnaryOp({
+            opR: '$reY = SpecialFunction.expint($reX);'
+        }, {
+            outputDTypeResolver: OutputDTypeResolver.uToFloat,
+            extraDependencies: { 'SpecialFunction': SpecialFunction }
+        });
+
+        const opExpIntA = generator.makeUnaryOp({
+            opR: 'if ($reX >= 0) { $reY = SpecialFunction.expint($reX); $imY = 0; } else { $reY = -SpecialFunction.expintei(-$reX); $imY = -Math.PI; }'
+        }, {
+            outputDTypeResolver: OutputDTypeResolver.uToFloat,
+            extraDependencies: { 'SpecialFunction': SpecialFunction }
+        });
+
+        const opExpInt = (x: RealOpInput, inPlace: boolean = false): OpOutput => {
+            let infoX = Tensor.analyzeOpInput(x);
+            if (infoX.re < 0 || DataHelper.anyNegative(infoX.reArr)) {
+                return opExpIntA(infoX, inPlace);
+            } else {
+                return opExpIntP(infoX, inPlace);
+            }
+        };
+
+        const opAiryCore = generator.makeOneParamUnaryOp({
+            opR: '$reY = SpecialFunction.airy($param, $reX, 0)[0];',
+            opC: '$tmp1 = SpecialFunction.airy($param, $reX, $imX); $reY = $tmp1[0]; $imY = $tmp1[1];'
+        }, {
+            outputDTypeResolver: OutputDTypeResolver.uToFloat,
+            extraDependencies: { 'SpecialFunction': SpecialFunction }
+        });
+
+        const opAiry = (x: OpInput, k: number = 0): OpOutput => {
+            if (k !== 0 && k !== 1 && k !== 2 && k !== 3) {
+                throw new Error('k must be 0, 1, 2, or 3.');
+            }
+            return opAiryCore(x, k);
+        };
+
+        /**
+         * Creates the operation for the Bessel function with the given name.
+         * Complex outputs are produced only if the arguments are complex or
+         * have negative elements.
+         */
+        const makeBesselOp = (name: string): (nu: RealOpInput, z: OpInput) => OpOutput => {
+            const opR = generator.makeRealOutputBinaryOp({
+                opRR: `$reZ = SpecialFunction.${name}($reX, $reY, 0)[0];`
+            }, {
+                outputDTypeResolver: OutputDTypeResolver.bToFloat,
+                extraDependencies: { 'SpecialFunction': SpecialFunction }
+            });
+            const opC = generator.makeBinaryOp({
+                opRR: `$tmp1 = SpecialFunction.${name}($reX, $reY, 0); $reZ = $tmp1[0]; $imZ = $tmp1[1];`,
+                opRC: `$tmp1 = SpecialFunction.${name}($reX, $reY, $imY); $reZ = $tmp1[0]; $imZ = $tmp1[1];`,
+                opCR: `throw new Error('The order must be real.');`,
+                opCC: `throw new Error('The order must be real.');`
+            }, {
+                outputDTypeResolver: OutputDTypeResolver.bToFloat,
+                extraDependencies: { 'SpecialFunction': SpecialFunction }
+            });
+            return (nu: RealOpInput, z: OpInput): OpOutput => {
+                let infoNu = Tensor.analyzeOpInput(nu);
+                let infoZ = Tensor.analyzeOpInput(z);
+                if (infoNu.isComplex) {
+                    throw new Error('The order must be real.');
+                }
+                if (infoZ.isComplex || infoZ.re < 0 || DataHelper.anyNegative(infoZ.reArr)) {
+                    let Y = opC(infoNu, infoZ);
+                    if (Y instanceof Tensor && Y.hasComplexStorage()) {
+                        if (DataHelper.isArrayAllZeros(Y.imagData)) {
+                            Y.trimImaginaryPart();
+                        }
+                    }
+                    return Y;
+                } else {
+                    return opR(infoNu, infoZ);
+                }
+            };
+        };
+
         const opIsPrime = generator.makeRealOutputUnaryOp({
             opR: '$reY = Factorization.isPrime($reX) ? 1 : 0;'
         }, {
@@ -117,6 +416,23 @@ export class SpecialFunctionOpSetFactory {
             erf: opErf,
             erfc: opErfc,
             erfcx: opErfcx,
+            erfinv: opErfInv,
+            erfcinv: opErfcInv,
+            gammainc: opGammaInc,
+            gammaincinv: opGammaIncInv,
+            beta: opBeta,
+            betaln: opBetaLn,
+            betainc: opBetaInc,
+            betaincinv: opBetaIncInv,
+            psi: opPsi,
+            digamma: opPsi,
+            zeta: opZeta,
+            expint: opExpInt,
+            airy: opAiry,
+            besselj: makeBesselOp('besselj'),
+            bessely: makeBesselOp('bessely'),
+            besseli: makeBesselOp('besseli'),
+            besselk: makeBesselOp('besselk'),
             isPrime: opIsPrime,
             factor: opFactor
         };
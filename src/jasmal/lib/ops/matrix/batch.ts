@@ -0,0 +1,84 @@
+import { DataBlock } from '../../commonTypes';
+
+/**
+ * Helper functions for operating on batches of matrices stored in the last
+ * two dimensions of N-d tensors (row-major).
+ */
+export class MatrixBatchHelper {
+
+    /**
+     * Splits the shape into the batch shape and the matrix dimensions.
+     * @returns [batch shape, number of rows, number of columns]
+     */
+    public static splitShape(shape: number[]): [number[], number, number] {
+        if (shape.length < 2) {
+            throw new Error('Matrix expected.');
+        }
+        let n = shape.length;
+        return [shape.slice(0, n - 2), shape[n - 2], shape[n - 1]];
+    }
+
+    /**
+     * Gets the number of matrices in a batch.
+     */
+    public static getBatchSize(batchShape: number[]): number {
+        let n = 1;
+        for (let i = 0;i < batchShape.length;i++) {
+            n *= batchShape[i];
+        }
+        return n;
+    }
+
+    /**
+     * Broadcasts two batch shapes (NumPy-style, aligned to the right).
+     * @returns [broadcast batch shape, index of the matrix in the first batch
+     *          for each output matrix, index of the matrix in the second
+     *          batch for each output matrix]
+     */
+    public static broadcast(batchShapeX: number[], batchShapeY: number[]): [number[], Int32Array, Int32Array] {
+        let ndim = Math.max(batchShapeX.length, batchShapeY.length);
+        let shapeX: number[] = [], shapeY: number[] = [], shapeZ: number[] = [];
+        for (let i = 0;i < ndim;i++) {
+            let dx = i < ndim - batchShapeX.length ? 1 : batchShapeX[i - ndim + batchShapeX.length];
+            let dy = i < ndim - batchShapeY.length ? 1 : batchShapeY[i - ndim + batchShapeY.length];
+            if (dx !== dy && dx !== 1 && dy !== 1) {
+                throw new Error(`Batch dimensions [${batchShapeX.join(', ')}] and [${batchShapeY.join(', ')}] cannot be broadcast together.`);
+            }
+            shapeX.push(dx);
+            shapeY.push(dy);
+            shapeZ.push(dx === 1 ? dy : dx);
+        }
+        let n = MatrixBatchHelper.getBatchSize(shapeZ);
+        let indicesX = new Int32Array(n);
+        let indicesY = new Int32Array(n);
+        let index = new Array(ndim);
+        for (let i = 0;i < ndim;i++) {
+            index[i] = 0;
+        }
+        for (let k = 0;k < n;k++) {
+            let ix = 0, iy = 0;
+            for (let i = 0;i < ndim;i++) {
+                ix = ix * shapeX[i] + (shapeX[i] === 1 ? 0 : index[i]);
+                iy = iy * shapeY[i] + (shapeY[i] === 1 ? 0 : index[i]);
+            }
+            indicesX[k] = ix;
+            indicesY[k] = iy;
+            for (let i = ndim - 1;i >= 0;i--) {
+                if (++index[i] < shapeZ[i]) {
+                    break;
+                }
+                index[i] = 0;
+            }
+        }
+        return [shapeZ, indicesX, indicesY];
+    }
+
+    /**
+     * Retrieves the k-th block of the given size. The returned block shares
+     * memory with the original data.
+     */
+    public static getBlock(data: DataBlock, k: number, blockSize: number): DataBlock {
+        return (<Float64Array>data).subarray(k * blockSize, (k + 1) * blockSize);
+    }
+
+}
@@ -0,0 +1,236 @@
+import { DataBlock } from '../../commonTypes';
+import { DataHelper } from '../../helper/dataHelper';
+import { CMath } from '../../math/cmath';
+import { ILUBackend } from '../../linalg/backend';
+
+/**
+ * Overwrites x with A^{-1} x, or A^{-H} x if hermitian is true. For real
+ * matrices, imX is an empty array.
+ */
+export type InverseSolveFunction = (reX: DataBlock, imX: DataBlock, hermitian: boolean) => void;
+
+/**
+ * Condition number estimation.
+ */
+export class ConditionEstimator {
+
+    /**
+     * Estimates the 1-norm of the inverse of an n x n matrix A using Higham's
+     * modification of Hager's method (LAPACK's xLACN2). Only a few solves with
+     * A and A^H are required. The estimate is a lower bound of ||A^{-1}||_1
+     * and is usually accurate within a factor of 3.
+     * @param n Dimension of A.
+     * @param isComplex Whether A is complex.
+     * @param solve Function solving the linear systems with A and A^H.
+     */
+    public static estimateInverse1Norm(n: number, isComplex: boolean, solve: InverseSolveFunction): number {
+        const maxIter = 5;
+        let i: number;
+        let reX = DataHelper.allocateFloat64Array(n);
+        let imX = DataHelper.allocateFloat64Array(isComplex ? n : 0);
+        let sgn = DataHelper.allocateFloat64Array(n);
+        const norm1 = (): number => {
+            let s = 0;
+            for (let k = 0;k < n;k++) {
+                s += isComplex ? CMath.length2(reX[k], imX[k]) : Math.abs(reX[k]);
+            }
+            return s;
+        };
+        const unitVector = (j: number): void => {
+            for (let k = 0;k < n;k++) {
+                reX[k] = k === j ? 1 : 0;
+                if (isComplex) {
+                    imX[k] = 0;
+                }
+            }
+        };
+        // Replaces x with sign(x). For real x, returns whether the signs are
+        // the same as those from the previous iteration.
+        const applySign = (): boolean => {
+            let repeated = true;
+            for (let k = 0;k < n;k++) {
+                if (isComplex) {
+                    let a = CMath.length2(reX[k], imX[k]);
+                    if (a > 0) {
+                        reX[k] /= a;
+                        imX[k] /= a;
+                    } else {
+                        reX[k] = 1;
+                        imX[k] = 0;
+                    }
+                    repeated = false;
+                } else {
+                    let s = reX[k] >= 0 ? 1 : -1;
+                    if (s !== sgn[k]) {
+                        repeated = false;
+                    }
+                    sgn[k] = s;
+                    reX[k] = s;
+                }
+            }
+            return repeated;
+        };
+        const argMaxAbs = (): number => {
+            let j = 0, vMax = -1;
+            for (let k = 0;k < n;k++) {
+                let v = isComplex ? CMath.length2(reX[k], imX[k]) : Math.abs(reX[k]);
+                if (v > vMax) {
+                    vMax = v;
+                    j = k;
+                }
+            }
+            return j;
+        };
+        // starts with x = [1/n, ..., 1/n]
+        for (i = 0;i < n;i++) {
+            reX[i] = 1 / n;
+        }
+        solve(reX, imX, false);
+        let est = norm1();
+        if (n === 1 || !isFinite(est)) {
+            return est;
+        }
+        applySign();
+        solve(reX, imX, true);
+        let j = argMaxAbs();
+        let iter = 2;
+        while (true) {
+            unitVector(j);
+            solve(reX, imX, false);
+            let estOld = est;
+            est = norm1();
+            if (est <= estOld) {
+                est = estOld;
+                break;
+            }
+            if (applySign()) {
+                break;
+            }
+            solve(reX, imX, true);
+            let jLast = j;
+            j = argMaxAbs();
+            let zLast = isComplex ? CMath.length2(reX[jLast], imX[jLast]) : Math.abs(reX[jLast]);
+            let zMax = isComplex ? CMath.length2(reX[j], imX[j]) : Math.abs(reX[j]);
+            if (zLast === zMax || iter >= maxIter) {
+                break;
+            }
+            iter++;
+        }
+        // An alternative estimate that guards against the failure of the above
+        // iterations for some special matrices.
+        for (i = 0;i < n;i++) {
+            reX[i] = (i % 2 === 0 ? 1 : -1) * (1 + i / (n - 1));
+            if (isComplex) {
+                imX[i] = 0;
+            }
+        }
+        solve(reX, imX, false);
+        let alt = 2 * norm1() / (3 * n);
+        return alt > est ? alt : est;
+    }
+
+    /**
+     * Solves A^H x = b in-place using the compact LUP decomposition of A
+     * (P A = L U) produced by ILUBackend.lu() or ILUBackend.clu().
+     * @param n Dimension of A.
+     * @param reLU (Input) Real part of the compact LU storage.
+     * @param imLU (Input) Imaginary part of the compact LU storage. Set it to
+     *             an empty array if A is real.
+     * @param p (Input) Permutation vector.
+     * @param reX (Input/Output) Real part of b. Will be overwritten with the
+     *            real part of x.
+     * @param imX (Input/Output) Imaginary part of b. Will be overwritten with
+     *            the imaginary part of x. Ignored if A is real.
+     */
+    public static luSolveHermitian(n: number, reLU: ArrayLike<number>, imLU: ArrayLike<number>,
+                                   p: ArrayLike<number>, reX: DataBlock, imX: DataBlock): void {
+        let isComplex = imLU.length > 0;
+        let reW = DataHelper.allocateFloat64Array(n);
+        let imW = DataHelper.allocateFloat64Array(isComplex ? n : 0);
+        let i: number, k: number, accRe: number, accIm: number;
+        // U^H z = b (forward substitution)
+        for (i = 0;i < n;i++) {
+            accRe = reX[i];
+            accIm = isComplex ? imX[i] : 0;
+            for (k = 0;k < i;k++) {
+                // conj(U(k, i)) z(k)
+                accRe -= reLU[k * n + i] * reW[k];
+                if (isComplex) {
+                    accRe -= imLU[k * n + i] * imW[k];
+                    accIm -= reLU[k * n + i] * imW[k] - imLU[k * n + i] * reW[k];
+                }
+            }
+            if (isComplex) {
+                [reW[i], imW[i]] = CMath.cdivCC(accRe, accIm, reLU[i * n + i], -imLU[i * n + i]);
+            } else {
+                reW[i] = accRe / reLU[i * n + i];
+            }
+        }
+        // L^H w = z (back substitution, L has a unit diagonal)
+        for (i = n - 1;i >= 0;i--) {
+            accRe = reW[i];
+            accIm = isComplex ? imW[i] : 0;
+            for (k = i + 1;k < n;k++) {
+                // conj(L(k, i)) w(k)
+                accRe -= reLU[k * n + i] * reW[k];
+                if (isComplex) {
+                    accRe -= imLU[k * n + i] * imW[k];
+                    accIm -= reLU[k * n + i] * imW[k] - imLU[k * n + i] * reW[k];
+                }
+            }
+            reW[i] = accRe;
+            if (isComplex) {
+                imW[i] = accIm;
+            }
+        }
+        // x = P^T w
+        for (i = 0;i < n;i++) {
+            reX[p[i]] = reW[i];
+            if (isComplex) {
+                imX[p[i]] = imW[i];
+            }
+        }
+    }
+
+    /**
+     * Estimates the reciprocal 1-norm condition number of an n x n matrix A
+     * from its compact LUP decomposition.
+     * @param lu Backend used to solve the linear systems with A.
+     * @param n Dimension of A.
+     * @param aNorm 1-norm of the original matrix A.
+     * @param reLU (Input) Real part of the compact LU storage.
+     * @param imLU (Input) Imaginary part of the compact LU storage. Set it to
+     *             an empty array if A is real.
+     * @param p (Input) Permutation vector.
+     * @returns Estimated 1 / (||A||_1 ||A^{-1}||_1), which is zero if A is
+     *          exactly singular.
+     */
+    public static rcondLU(lu: ILUBackend, n: number, aNorm: number, reLU: ArrayLike<number>,
+                          imLU: ArrayLike<number>, p: ArrayLike<number>): number {
+        let isComplex = imLU.length > 0;
+        if (n === 0) {
+            return Infinity;
+        }
+        if (isNaN(aNorm)) {
+            return NaN;
+        }
+        if (aNorm === 0) {
+            return 0;
+        }
+        for (let i = 0;i < n;i++) {
+            if (reLU[i * n + i] === 0 && (!isComplex || imLU[i * n + i] === 0)) {
+                return 0;
+            }
+        }
+        let est = ConditionEstimator.estimateInverse1Norm(n, isComplex, (reX, imX, hermitian) => {
+            if (hermitian) {
+                ConditionEstimator.luSolveHermitian(n, reLU, imLU, p, reX, imX);
+            } else if (isComplex) {
+                lu.cluSolve(n, 1, reLU, imLU, p, reX, imX);
+            } else {
+                lu.luSolve(n, 1, reLU, p, reX);
+            }
+        });
+        return 1 / (aNorm * est);
+    }
+}
@@ -1,7 +1,182 @@
-import { OpInput, Scalar } from '../../commonTypes';
+import { OpInput, OpOutput, Scalar } from '../../commonTypes';
 import { DType } from '../../core/dtype';
 import { Tensor } from '../../core/tensor';
 import { MatrixModifier } from '../../linalg/modifiers';
+import { MatrixType } from '../../linalg/matrixType';
+import { SparseMatrix, SparseFormat } from '../../core/sparseMatrix';
+
+/**
+ * A real linear operator given implicitly by a function. The function
+ * receives a vector x and returns A x, or A^T x if transpose is true. The
+ * transpose is only requested by methods that need it (lsqr() and svds()).
+ */
+export type LinearOperatorFunction = (x: Tensor, transpose: boolean) => OpInput;
+
+/**
+ * Options for iterative linear solvers.
+ */
+export interface IterativeSolverOptions {
+    /**
+     * Tolerance of the relative residual ||b - Ax|| / ||b||. Default value is
+     * 1e-6.
+     */
+    tol?: number;
+    /**
+     * Maximum number of iterations. For GMRES, this is the maximum total
+     * number of inner iterations. Default value is the dimension of the
+     * system.
+     */
+    maxIter?: number;
+    /**
+     * Number of inner iterations between restarts. Only used by GMRES.
+     * Default value is min(n, 20).
+     */
+    restart?: number;
+    /**
+     * Initial guess. Default value is a zero vector.
+     */
+    x0?: OpInput;
+    /**
+     * Preconditioner M, which can be one of the following:
+     *  a dense or sparse matrix, which will be LU factorized once;
+     *  a function computing M\x (or M^T\x if transpose is true);
+     *  'jacobi', which uses the diagonal of A (requires an explicit matrix).
+     * CG requires M to be symmetric positive definite. GMRES, BiCGSTAB and
+     * LSQR apply M as a right preconditioner so the reported residual is
+     * always the residual of the original system. Default value is no
+     * preconditioning.
+     */
+    M?: SparseMatrix | OpInput | LinearOperatorFunction | 'jacobi';
+}
+
+/**
+ * Options for qr().
+ */
+export interface QROptions {
+    /**
+     * If set to true, computes the economy-size decomposition where Q is
+     * m x min(m, n) and R is min(m, n) x n. Default value is false.
+     */
+    economy?: boolean;
+    /**
+     * Whether column pivoting is performed. If set to false, the permutation
+     * matrix is not returned. Default value is true.
+     */
+    pivoting?: boolean;
+    /**
+     * If set to true, Q is not computed and not returned. Default value is
+     * false.
+     */
+    rOnly?: boolean;
+}
+
+/**
+ * Options for lstsq() and ridge().
+ */
+export interface LstsqOptions {
+    /**
+     * Singular values not greater than rcond * s_max are treated as zero,
+     * where s_max is the largest singular value. Default value is
+     * eps * max(m, n).
+     */
+    rcond?: number;
+    /**
+     * Nonnegative weights of the equations. If specified, the weighted
+     * residual sum_i w_i |(b - A x)_i|^2 is minimized. Default value is
+     * uniform weighting.
+     */
+    weights?: OpInput;
+}
+
+/**
+ * Options for lsqnonneg().
+ */
+export interface LsqnonnegOptions {
+    /**
+     * Tolerance for determining whether a variable is zero and whether a
+     * Lagrange multiplier is positive. Default value is
+     * 10 * eps * norm(C, 1) * max(m, n).
+     */
+    tol?: number;
+    /**
+     * Maximum number of iterations. Default value is 3n.
+     */
+    maxIter?: number;
+}
+
+/**
+ * Options for eigs().
+ */
+export interface EigsOptions {
+    /**
+     * Specifies the wanted eigenvalues:
+     *  'largestabs' - largest magnitude (default);
+     *  'smallestabs' - smallest magnitude;
+     *  'largestreal' - largest real part;
+     *  'smallestreal' - smallest real part;
+     *  a number - closest to the given shift.
+     * 'smallestabs' and shifts use the shift-invert mode. If A is given as a
+     * function, it must then compute (A - sigma I)\x instead of A x, where
+     * sigma is zero for 'smallestabs'.
+     */
+    sigma?: number | 'largestabs' | 'smallestabs' | 'largestreal' | 'smallestreal';
+    /**
+     * Convergence tolerance. Default value is 1e-10.
+     */
+    tol?: number;
+    /**
+     * Maximum number of restarts. Default value is 300.
+     */
+    maxIter?: number;
+    /**
+     * Dimension of the search subspace. Default value is
+     * min(n, max(2k + 1, 20)).
+     */
+    subspaceDimension?: number;
+    /**
+     * Starting vector. Default value is a fixed pseudo-random vector so that
+     * the results are reproducible.
+     */
+    v0?: OpInput;
+    /**
+     * Whether A is symmetric. Only used when A is a function. Explicit
+     * matrices are checked automatically.
+     */
+    isSymmetric?: boolean;
+    /**
+     * Dimension of A. Required when A is a function.
+     */
+    n?: number;
+}
+
+/**
+ * Options for svds().
+ */
+export interface SvdsOptions {
+    /**
+     * Specifies the wanted singular values: 'largest' (default) or
+     * 'smallest'. The smallest singular values are computed by shift-invert
+     * on the normal equations and require an explicit matrix.
+     */
+    sigma?: 'largest' | 'smallest';
+    /**
+     * Convergence tolerance. Default value is 1e-10.
+     */
+    tol?: number;
+    /**
+     * Maximum number of restarts. Default value is 300.
+     */
+    maxIter?: number;
+    /**
+     * Dimension of the search subspace. Default value is
+     * min(min(m, n), max(2k + 1, 20)).
+     */
+    subspaceDimension?: number;
+    /**
+     * Shape [m, n] of A. Required when A is a function.
+     */
+    shape?: [number, number];
+}
 
 export interface IMatrixOpProvider {
 
@@ -84,6 +259,10 @@ export interface IMatrixOpProvider {
      * Performs matrix multiplication.
      * Scalars will be treated as 1x1 matrices and 1D vectors will be treated
      * as 1xN matrices.
+     * N-d inputs are treated as batches of matrices stored in the last two
+     * dimensions. The batch dimensions are broadcast (NumPy-style). For
+     * instance, multiplying a 10 x 3 x 4 tensor with a 4 x 5 matrix gives a
+     * 10 x 3 x 5 tensor.
      * @param x Input matrix x.
      * @param y Input matrix y.
      * @param yModifier Specifies whether whether transpose or Hermitian
@@ -93,6 +272,24 @@ export interface IMatrixOpProvider {
      *                  x y^T.
      */
     matmul(x: OpInput, y: OpInput, yModifier?: MatrixModifier): Tensor;
+    /**
+     * Performs matrix multiplication between two sparse matrices. The output
+     * is a sparse matrix with the same format as x.
+     * @param x Sparse matrix x.
+     * @param y Sparse matrix y.
+     * @param yModifier Specifies whether whether transpose or Hermitian
+     *                  operation needs to be applied to y.
+     */
+    matmul(x: SparseMatrix, y: SparseMatrix, yModifier?: MatrixModifier): SparseMatrix;
+    /**
+     * Performs matrix multiplication between a sparse matrix and a dense
+     * matrix. The output is a dense matrix.
+     * @param x Input matrix x.
+     * @param y Input matrix y.
+     * @param yModifier Specifies whether whether transpose or Hermitian
+     *                  operation needs to be applied to y.
+     */
+    matmul(x: OpInput | SparseMatrix, y: OpInput | SparseMatrix, yModifier?: MatrixModifier): Tensor;
 
     /**
      * Computes the Kronecker product between two matrices.
@@ -101,17 +298,57 @@ export interface IMatrixOpProvider {
      */
     kron(x: OpInput, y: OpInput): Tensor;
 
+    /**
+     * Evaluates the Einstein summation convention on the operands.
+     * Subscripts are letters (case-sensitive) separated by commas for each
+     * operand. Labels repeated within an operand take the diagonal, and
+     * labels not in the output are summed over. The output is specified
+     * after '->'. If omitted, the output consists of the labels appearing
+     * exactly once, in alphabetical order. An ellipsis ('...') stands for the
+     * remaining dimensions, which are broadcast among the operands.
+     * The order of pairwise contractions is optimized automatically and each
+     * contraction is computed as a (batched) matrix product.
+     * If the output has no dimensions, a tensor of shape [1] is returned.
+     * @param subscripts Subscripts.
+     * @param operands Operands.
+     * @example
+     *  // matrix multiplication
+     *  let C = T.einsum('ij,jk->ik', A, B);
+     *  // batched matrix multiplication
+     *  let Z = T.einsum('bij,bjk->bik', X, Y);
+     *  // diagonal and trace
+     *  let d = T.einsum('ii->i', A);
+     *  let t = T.einsum('ii', A);
+     *  // outer product
+     *  let P = T.einsum('i,j', x, y);
+     */
+    einsum(subscripts: string, ...operands: OpInput[]): Tensor;
+
     /**
      * Gets the transpose of the input matrix.
+     * If the input is a tensor, the output will be a view sharing the same
+     * storage, and no data will be copied.
      * @param x Input matrix.
      */
     transpose(x: OpInput): Tensor;
+    /**
+     * Gets the transpose of a sparse matrix. The CSR (CSC) representation of
+     * the input is reused as the CSC (CSR) representation of the output so no
+     * data is copied.
+     * @param x Sparse matrix.
+     */
+    transpose(x: SparseMatrix): SparseMatrix;
 
     /**
      * Gets the Hermitian of the input matrix.
      * @param x Input matrix.
      */
     hermitian(x: OpInput): Tensor;
+    /**
+     * Gets the Hermitian of a sparse matrix.
+     * @param x Sparse matrix.
+     */
+    hermitian(x: SparseMatrix): SparseMatrix;
 
     /**
      * Computes the trace of the input matrix (must be square).
@@ -121,17 +358,28 @@ export interface IMatrixOpProvider {
 
     /**
      * Computes the inverse of the input matrix (must be square).
+     * N-d inputs are treated as batches of matrices stored in the last two
+     * dimensions, and the inverse of each matrix is computed.
      * Note: this function uses PLU decomposition to compute the inverse.
-     * @param x Input matrix.
+     * If the estimated reciprocal condition number (see rcond()) of any
+     * matrix is less than eps, a warning is issued or an error is thrown
+     * depending on the `singularMatrix` option of the linear algebra
+     * backends.
+     * @param x Input matrix or batch of matrices.
      */
     inv(x: OpInput): Tensor;
 
     /**
      * Computes the determinant of the input matrix (must be square).
+     * N-d inputs are treated as batches of matrices stored in the last two
+     * dimensions. For instance, an N x 4 x 4 input gives a vector of N
+     * determinants.
      * Note: this function uses LUP decomposition to compute the inverse.
-     * @param x Input matrix.
+     * @param x Input matrix or batch of matrices.
+     * @returns A scalar for a matrix, or a tensor whose shape is the batch
+     *          shape for a batch of matrices.
      */
-    det(x: OpInput): Scalar;
+    det(x: OpInput): OpOutput;
 
     /**
      * Computes matrix/vector norms.
@@ -150,11 +398,14 @@ export interface IMatrixOpProvider {
 
     /**
      * Performs LUP decomposition and return the results in the full form.
-     * @param x Input matrix.
+     * N-d inputs are treated as batches of matrices stored in the last two
+     * dimensions, and the factors are stacked along the batch dimensions.
+     * @param x Input matrix or batch of matrices.
      */
     lu(x: OpInput, compact?: false): [Tensor, Tensor, Tensor];
     /**
      * Performs LUP decomposition and return the results in the compact form.
+     * Batches of matrices are not supported.
      * @param x Input matrix.
      */
     lu(x: OpInput, compact: true): [Tensor, number[]];
@@ -164,13 +415,17 @@ export interface IMatrixOpProvider {
      * Returns a 3-item tuple [U, S, V] such that x = USV^H.
      * Let the shape of x be m x n, then the shapes of U, S, V, are
      * m x min(m,n), min(m,n) x n, n x n, respectively.
-     * @param x Input matrix x.
+     * N-d inputs are treated as batches of matrices stored in the last two
+     * dimensions, and U, S, V are stacked along the batch dimensions.
+     * @param x Input matrix x or batch of matrices.
      * @returns A 3-item tuple [U, S, V] such that x = USV^H.
      */
     svd(x: OpInput, svOnly?: false): [Tensor, Tensor, Tensor];
     /**
      * Computes only the singular values of the input matrix.
-     * @param x Input matrix x.
+     * For a batch of matrices stored in the last two dimensions, the output
+     * has the shape [...batch shape, min(m, n)].
+     * @param x Input matrix x or batch of matrices.
      * @returns A 1D tensor object storing the singular values in descending
      * order. Let the shape of x be m x n, then the size of the returned tensor
      * object will be min(m, n).
@@ -186,11 +441,63 @@ export interface IMatrixOpProvider {
     rank(x: OpInput, tol?: number): number;
 
     /**
-     * Estimates the condition number of the input matrix from its singular
-     * values.
+     * Computes the condition number of the input matrix with respect to the
+     * specified norm.
+     * If p = 2, the condition number is computed from the singular values
+     * and x can be non-square.
+     * If p = 1, Infinity or 'fro', x must be square and the condition number
+     * is computed as norm(x, p) * norm(inv(x), p), which is Infinity if x is
+     * exactly singular.
+     * Use rcond() or condest() if only an estimate is needed.
      * @param x Input matrix.
+     * @param p (Optional) Norm type. Can be 1, 2, Infinity or 'fro'. Default
+     *          value is 2.
+     */
+    cond(x: OpInput, p?: number | 'fro'): number;
+
+    /**
+     * Estimates the reciprocal of the 1-norm condition number of a square
+     * matrix from its LUP decomposition using Hager's method with Higham's
+     * modifications. This is much cheaper than cond() and is suitable for
+     * detecting nearly singular matrices. Returns zero if the input matrix
+     * is exactly singular.
+     * @param x Input square matrix.
      */
-    cond(x: OpInput): number;
+    rcond(x: OpInput): number;
+
+    /**
+     * Estimates the 1-norm condition number of a square matrix. The estimate
+     * is a lower bound of cond(x, 1) and is usually accurate within a factor
+     * of 3. Real sparse matrices are factorized with splu(), which throws an
+     * error if the matrix is singular. Complex sparse matrices are converted
+     * to dense ones.
+     * @param x Input square matrix.
+     */
+    condest(x: OpInput | SparseMatrix): number;
+
+    /**
+     * Computes an orthonormal basis of the null space of the input matrix
+     * from its singular value decomposition.
+     * Let the shape of x be m x n, then the shape of the returned basis will
+     * be n x (n - r), where r is the numerical rank of x.
+     * @param x Input matrix.
+     * @param tol (Optional) Singular values not greater than tol are treated
+     *            as zero. Default value is max(m, n) * eps * s_max, where
+     *            s_max is the largest singular value.
+     */
+    null(x: OpInput, tol?: number): Tensor;
+
+    /**
+     * Computes an orthonormal basis of the range of the input matrix from its
+     * singular value decomposition.
+     * Let the shape of x be m x n, then the shape of the returned basis will
+     * be m x r, where r is the numerical rank of x.
+     * @param x Input matrix.
+     * @param tol (Optional) Singular values not greater than tol are treated
+     *            as zero. Default value is max(m, n) * eps * s_max, where
+     *            s_max is the largest singular value.
+     */
+    orth(x: OpInput, tol?: number): Tensor;
 
     /**
      * Obtains the pseudo inverse of the input matrix from its singular value
@@ -205,14 +512,37 @@ export interface IMatrixOpProvider {
      * Returns a 2-item tuple [E, L] such that x E = E L.
      * If the input matrix is symmetric/Hermitian, E will be unitary. For
      * general matrices E is unnormalized.
-     * @param x Input matrix.
+     * N-d inputs are treated as batches of matrices stored in the last two
+     * dimensions, and E, L are stacked along the batch dimensions.
+     * @param x Input matrix or batch of matrices.
      */
     eig(x: OpInput, evOnly?: false): [Tensor, Tensor];
     /**
-     * Computes the eigenvalues. Returns a vector of eigenvalues.
-     * @param x Input matrix.
+     * Computes the eigenvalues. Returns a vector of eigenvalues, or a tensor
+     * of the shape [...batch shape, n] for a batch of matrices.
+     * @param x Input matrix or batch of matrices.
      */
     eig(x: OpInput, evOnly: true): Tensor;
+    /**
+     * Solves the generalized eigenvalue problem.
+     * Returns a 2-item tuple [E, L] such that a E = b E L.
+     * If a is symmetric/Hermitian and b is positive definite, the problem is
+     * reduced to a standard one via the Cholesky decomposition of b and E
+     * is normalized such that E^H b E = I. Otherwise the QZ algorithm is
+     * used and each column of E has unit 2-norm. Eigenvalues associated with
+     * a singular b may be Infinity (or NaN if both a and b are singular).
+     * The batch dimensions of a and b (if any) are broadcast.
+     * @param a Input matrix or batch of matrices.
+     * @param b Input matrix with the same shape as a, or batch of matrices.
+     */
+    eig(a: OpInput, b: OpInput, evOnly?: false): [Tensor, Tensor];
+    /**
+     * Computes the generalized eigenvalues of the pencil (a, b). Returns a
+     * vector of eigenvalues.
+     * @param a Input matrix.
+     * @param b Input matrix with the same shape as a.
+     */
+    eig(a: OpInput, b: OpInput, evOnly: true): Tensor;
 
 
     /**
@@ -221,7 +551,9 @@ export interface IMatrixOpProvider {
      *       uses the lower triangular part of the input matrix. You are
      *       responsible for ensuring that the input matrix is symmetric or
      *       Hermitian.
-     * @param x Input matrix.
+     * N-d inputs are treated as batches of matrices stored in the last two
+     * dimensions.
+     * @param x Input matrix or batch of matrices.
      * @returns A lower triangular matrix L such that L*L' produces the original
      *          matrix.
      * @throws Throws an error when the input matrix is not positive definite.
@@ -229,29 +561,170 @@ export interface IMatrixOpProvider {
     chol(x: OpInput): Tensor;
 
     /**
-     * Computes the QR decomposition of the input matrix X.
-     * Returns a tuple [Q, R, P] such that XP = QR.
+     * Computes the QR decomposition of the input matrix X with column
+     * pivoting. Returns a tuple [Q, R, P] such that XP = QR.
+     * N-d inputs are treated as batches of matrices stored in the last two
+     * dimensions (for all forms of qr()), and the factors are stacked along
+     * the batch dimensions.
+     * @param x Input matrix or batch of matrices.
+     * @param options (Optional) Options. See QROptions.
+     */
+    qr(x: OpInput, options?: QROptions & { pivoting?: true, rOnly?: false }): [Tensor, Tensor, Tensor];
+    /**
+     * Computes the QR decomposition of the input matrix X without column
+     * pivoting. Returns a tuple [Q, R] such that X = QR.
      * @param x Input matrix.
+     * @param options Options. See QROptions.
      */
-    qr(x: OpInput): [Tensor, Tensor, Tensor];
+    qr(x: OpInput, options: QROptions & { pivoting: false, rOnly?: false }): [Tensor, Tensor];
+    /**
+     * Computes the R factor of the QR decomposition of the input matrix X
+     * with column pivoting. Returns a tuple [R, P].
+     * @param x Input matrix.
+     * @param options Options. See QROptions.
+     */
+    qr(x: OpInput, options: QROptions & { pivoting?: true, rOnly: true }): [Tensor, Tensor];
+    /**
+     * Computes the R factor of the QR decomposition of the input matrix X
+     * without column pivoting. Since R^H R = X^H X, this is useful for
+     * computing the Cholesky factor of X^H X for tall matrices.
+     * @param x Input matrix.
+     * @param options Options. See QROptions.
+     */
+    qr(x: OpInput, options: QROptions & { pivoting: false, rOnly: true }): Tensor;
+
+    /**
+     * Given the full QR decomposition A = QR (Q: m x m, R: m x n), computes
+     * the QR decomposition of the rank-one update A + uv^H with O(m^2 + mn)
+     * operations. Returns a tuple [Q1, R1] such that Q1 R1 = QR + uv^H.
+     * If the decomposition was computed with column pivoting, the update
+     * applies to AP instead of A.
+     * @param q Matrix Q (m x m).
+     * @param r Matrix R (m x n).
+     * @param u Vector u of length m.
+     * @param v Vector v of length n.
+     */
+    qrupdate(q: OpInput, r: OpInput, u: OpInput, v: OpInput): [Tensor, Tensor];
+
+    /**
+     * Given the full QR decomposition A = QR (Q: m x m, R: m x n), computes
+     * the QR decomposition of the matrix formed by inserting x into A.
+     * Returns a tuple [Q1, R1].
+     * @param q Matrix Q (m x m).
+     * @param r Matrix R (m x n).
+     * @param j The new column/row will become the j-th column/row.
+     * @param x Vector of length m if orient is 'col', or length n if orient
+     *          is 'row'.
+     * @param orient (Optional) 'col' (default) inserts a column and 'row'
+     *               inserts a row.
+     */
+    qrinsert(q: OpInput, r: OpInput, j: number, x: OpInput, orient?: 'col' | 'row'): [Tensor, Tensor];
+
+    /**
+     * Given the full QR decomposition A = QR (Q: m x m, R: m x n), computes
+     * the QR decomposition of the matrix formed by removing the j-th column
+     * or row of A. Returns a tuple [Q1, R1].
+     * @param q Matrix Q (m x m).
+     * @param r Matrix R (m x n).
+     * @param j Index of the column/row to be removed.
+     * @param orient (Optional) 'col' (default) removes a column and 'row'
+     *               removes a row.
+     */
+    qrdelete(q: OpInput, r: OpInput, j: number, orient?: 'col' | 'row'): [Tensor, Tensor];
 
     /**
      * Solves the linear system AX = B, where A: m x n, X: n x p, B: m x p.
-     * If m = n, LUP decomposition is used to obtain X.
+     * If m = n, the structure of A is detected and the solver is chosen
+     * accordingly (similar to MATLAB's backslash operator):
+     *  diagonal - diagonal scaling;
+     *  upper/lower triangular - back/forward substitution;
+     *  tridiagonal - the Thomas algorithm if A is diagonally dominant, or
+     *      banded Gaussian elimination with partial pivoting otherwise;
+     *  Hermitian with a positive real diagonal - Cholesky decomposition,
+     *      falling back to LUP decomposition if A is not positive definite;
+     *  banded with kl + ku < n / 2 - banded Gaussian elimination with partial
+     *      pivoting, where kl and ku are the lower and upper bandwidths;
+     *  otherwise - LUP decomposition.
+     * Like inv(), the reciprocal condition number of each square matrix is
+     * estimated after solving and nearly singular matrices are reported
+     * according to the `singularMatrix` option.
      * If m > n, column pivoted QR decomposition is used to obtain a least
      * square solution.
      * If m < n or A is rank deficient, the solution cannot be trusted.
+     * N-d inputs are treated as batches of matrices stored in the last two
+     * dimensions. The batch dimensions of A and B are broadcast
+     * (NumPy-style). A 1D vector B is treated as a column vector shared by
+     * all systems, in which case the solutions are stored in the last
+     * dimension of the output. To solve a batch of systems with different
+     * right-hand side vectors, use a B of shape [..., m, 1].
+     * If A is a real square sparse matrix, the system is solved via
+     * `spsolve()` and matrixType is ignored. Other sparse matrices are
+     * converted into dense matrices first.
+     * @param a Matrix A or batch of matrices.
+     * @param b Matrix B, vector b, or batch of matrices.
+     * @param matrixType (Optional) If specified, skips the structure
+     *                   detection and assumes that A has the specified
+     *                   structure. Only the elements within the structure
+     *                   are used. If A is not square, only MT_FULL,
+     *                   MT_UPPER_TRIANGULAR and MT_LOWER_TRIANGULAR are
+     *                   allowed, where the triangular solvers ignore the
+     *                   extra rows of A if m > n and set the free variables
+     *                   to zeros if m < n.
+     */
+    linsolve(a: OpInput | SparseMatrix, b: OpInput | SparseMatrix, matrixType?: MatrixType): Tensor;
+
+    /**
+     * Computes the minimum norm least squares solution of AX = B using the
+     * singular value decomposition of A, where A: m x n, X: n x p, B: m x p.
+     * Returns a 4-item tuple [X, residuals, rank, s], where residuals stores
+     * the squared 2-norm of each column of B - AX (weighted if weights are
+     * specified), rank is the effective rank of A, and s stores the
+     * min(m, n) singular values of A (of the weighted A if weights are
+     * specified) in descending order.
      * @param a Matrix A.
-     * @param b Matrix B.
+     * @param b Matrix B or vector b. If b is a vector, X will also be a
+     *          vector.
+     * @param options (Optional) Options. See LstsqOptions.
+     */
+    lstsq(a: OpInput, b: OpInput, options?: LstsqOptions): [Tensor, Tensor, number, Tensor];
+
+    /**
+     * Solves the non-negative least squares problem
+     *  min ||C x - d||_2 subject to x >= 0
+     * using the active set method of Lawson and Hanson.
+     * Returns a 4-item tuple [x, resnorm, residual, exitFlag], where resnorm
+     * is the squared 2-norm of the residual d - C x, and exitFlag is 1 if the
+     * method converged and 0 if the maximum number of iterations was reached.
+     * Only real inputs are supported.
+     * @param c Matrix C.
+     * @param d Vector d.
+     * @param options (Optional) Options. See LsqnonnegOptions.
+     */
+    lsqnonneg(c: OpInput, d: OpInput, options?: LsqnonnegOptions): [Tensor, number, Tensor, number];
+
+    /**
+     * Solves the Tikhonov regularized (ridge) least squares problem
+     *  min ||A X - B||_F^2 + lambda ||X||_F^2
+     * via the singular value decomposition of A, which is computed only once
+     * for all lambdas.
+     * If lambda is a number, returns the solution X. If lambda is an array
+     * of length l, the solutions are stacked along a new first dimension so
+     * that the returned tensor has the shape l x n x p (or l x n if b is a
+     * vector).
+     * @param a Matrix A.
+     * @param b Matrix B or vector b.
+     * @param lambda Nonnegative regularization parameter(s).
+     * @param options (Optional) Options. See LstsqOptions.
      */
-    linsolve(a: OpInput, b: OpInput): Tensor;
+    ridge(a: OpInput, b: OpInput, lambda: number | number[], options?: LstsqOptions): Tensor;
 
     /**
      * Solves AX = B. Uses linsolve() internally.
      * @param a Matrix A.
      * @param b Matrix B.
+     * @param matrixType (Optional) Structure of A. See linsolve().
      */
-    mldivide(a: OpInput, b: OpInput): Tensor;
+    mldivide(a: OpInput | SparseMatrix, b: OpInput | SparseMatrix, matrixType?: MatrixType): Tensor;
 
     /**
      * Solves XB = A. Uses linsolve() internally.
@@ -261,10 +734,255 @@ export interface IMatrixOpProvider {
     mrdivide(a: OpInput, b: OpInput): Tensor;
 
     /**
-     * Computes the square root of the input matrix.
-     * Currently only Hermitian matrices are supported.
+     * Computes the Schur decomposition of the input matrix.
+     * Returns a 2-item tuple [U, T] such that x = U T U^H, where U is unitary.
+     * If mode is 'real' and the input matrix is real, T is upper
+     * quasi-triangular, where each 2x2 diagonal block corresponds to a pair of
+     * complex conjugate eigenvalues. Otherwise T is upper triangular.
+     * N-d inputs are treated as batches of matrices stored in the last two
+     * dimensions.
+     * @param x Input matrix or batch of matrices.
+     * @param mode (Optional) 'real' or 'complex'. Default value is 'real'.
+     */
+    schur(x: OpInput, mode?: 'real' | 'complex'): [Tensor, Tensor];
+
+    /**
+     * Computes the principal square root of the input matrix.
+     * For Hermitian matrices, eigendecomposition is used. Otherwise the
+     * square root is computed from the Schur decomposition.
      * @param x Matrix input.
      */
     sqrtm(x: OpInput): Tensor;
 
+    /**
+     * Computes the matrix exponential using the scaling and squaring method
+     * with Padé approximants.
+     * @param x Matrix input.
+     */
+    expm(x: OpInput): Tensor;
+
+    /**
+     * Computes the principal matrix logarithm using the inverse scaling and
+     * squaring method on the Schur form.
+     * @param x Matrix input.
+     */
+    logm(x: OpInput): Tensor;
+
+    /**
+     * Evaluates a general matrix function f(x).
+     * For Hermitian matrices, f is applied to the eigenvalues directly.
+     * Otherwise the Schur-Parlett recurrence is used, which requires the
+     * eigenvalues to be distinct.
+     * @param x Matrix input.
+     * @param f A function that evaluates f element-wise for a vector of
+     *          (possibly complex) eigenvalues (e.g., T.exp, T.cos).
+     */
+    funm(x: OpInput, f: (x: Tensor) => OpInput): Tensor;
+
+    /**
+     * Checks if the input is a sparse matrix.
+     * @param x Input.
+     */
+    isSparse(x: any): boolean;
+
+    /**
+     * Converts a dense matrix into a sparse matrix, or converts a sparse
+     * matrix into the specified format.
+     * @param x Dense matrix or sparse matrix. 1D vectors are treated as row
+     *          vectors.
+     * @param format (Optional) 'csr' or 'csc'. Default value is 'csr'.
+     */
+    sparse(x: OpInput | SparseMatrix, format?: SparseFormat): SparseMatrix;
+    /**
+     * Creates a sparse matrix from (row, column, value) triplets such that
+     * S[rows[k], cols[k]] = values[k]. Values with the same row and column
+     * indices are summed together.
+     * @param rows Row indices.
+     * @param cols Column indices.
+     * @param values Values. Can be a scalar.
+     * @param shape (Optional) Shape [m, n] of the matrix. If omitted, it will
+     *              be inferred from the largest row and column indices.
+     * @param format (Optional) 'csr' or 'csc'. Default value is 'csr'.
+     */
+    sparse(rows: OpInput, cols: OpInput, values: OpInput, shape?: ArrayLike<number>,
+           format?: SparseFormat): SparseMatrix;
+
+    /**
+     * Converts a sparse matrix into a dense matrix. Dense inputs are
+     * returned as tensors.
+     * @param x Input matrix.
+     */
+    full(x: OpInput | SparseMatrix): Tensor;
+
+    /**
+     * Creates a sparse matrix with ones on the main diagonal.
+     * @param m Number of rows.
+     * @param n (Optional) Number of columns. Default value is m.
+     * @param format (Optional) 'csr' or 'csc'. Default value is 'csr'.
+     */
+    speye(m: number, n?: number, format?: SparseFormat): SparseMatrix;
+
+    /**
+     * Adds two sparse matrices. The output is a sparse matrix with the same
+     * format as x.
+     * @param x Sparse matrix x.
+     * @param y Sparse matrix y.
+     */
+    spadd(x: SparseMatrix, y: SparseMatrix): SparseMatrix;
+    /**
+     * Adds a sparse matrix and a dense input. The output is a dense matrix.
+     * @param x Input x.
+     * @param y Input y.
+     */
+    spadd(x: SparseMatrix | OpInput, y: SparseMatrix | OpInput): Tensor;
+
+    /**
+     * Subtracts sparse matrix y from sparse matrix x. The output is a sparse
+     * matrix with the same format as x.
+     * @param x Sparse matrix x.
+     * @param y Sparse matrix y.
+     */
+    spsub(x: SparseMatrix, y: SparseMatrix): SparseMatrix;
+    /**
+     * Subtracts y from x where one of them is a sparse matrix and the other
+     * is a dense input. The output is a dense matrix.
+     * @param x Input x.
+     * @param y Input y.
+     */
+    spsub(x: SparseMatrix | OpInput, y: SparseMatrix | OpInput): Tensor;
+
+    /**
+     * Performs element-wise multiplication where at least one of the inputs
+     * is a sparse matrix. The output is a sparse matrix with the same format
+     * as the (first) sparse input. A dense input can be a scalar, a row
+     * vector, a column vector, or a matrix with the same shape as the sparse
+     * input.
+     * @param x Input x.
+     * @param y Input y.
+     */
+    spmul(x: SparseMatrix | OpInput, y: SparseMatrix | OpInput): SparseMatrix;
+
+    /**
+     * Computes the sparse LU decomposition with partial pivoting. Returns a
+     * 4-item tuple [L, U, p, q] such that a(p, q) = L U, where L is unit
+     * lower triangular and U is upper triangular, both stored in the CSC
+     * format, and p, q are the row and column permutation vectors.
+     * Only real matrices are supported.
+     * @param a Square sparse matrix.
+     * @param ordering (Optional) Column ordering used to reduce fill-in.
+     *                 'rcm': reverse Cuthill-McKee ordering of a + a^T.
+     *                 'natural': no reordering.
+     *                 Default value is 'rcm'.
+     */
+    splu(a: SparseMatrix, ordering?: 'rcm' | 'natural'): [SparseMatrix, SparseMatrix, Tensor, Tensor];
+
+    /**
+     * Solves the sparse linear system AX = B using the sparse LU
+     * decomposition. Only real sparse matrices are supported.
+     * @param a Square sparse matrix A.
+     * @param b Dense vector or matrix B.
+     */
+    spsolve(a: SparseMatrix, b: OpInput): Tensor;
+
+    /**
+     * Solves the linear system Ax = b using the preconditioned conjugate
+     * gradient method, where A is real symmetric positive definite.
+     * Returns a 5-item tuple [x, flag, relres, iter, resvec], where
+     *  flag = 0 if the method converged to the desired tolerance, 1 if the
+     *  maximum number of iterations was reached without convergence, and 2 if
+     *  the method broke down;
+     *  relres is the relative residual ||b - Ax|| / ||b||;
+     *  iter is the number of iterations performed;
+     *  resvec is the history of the relative residual, starting with the
+     *  initial guess.
+     * @param a Sparse or dense matrix A, or a function computing A x.
+     * @param b Vector b.
+     * @param options (Optional) Solver options.
+     */
+    pcg(a: SparseMatrix | OpInput | LinearOperatorFunction, b: OpInput,
+        options?: IterativeSolverOptions): [Tensor, number, number, number, Tensor];
+
+    /**
+     * Same as pcg().
+     * @param a Sparse or dense matrix A, or a function computing A x.
+     * @param b Vector b.
+     * @param options (Optional) Solver options.
+     */
+    cg(a: SparseMatrix | OpInput | LinearOperatorFunction, b: OpInput,
+       options?: IterativeSolverOptions): [Tensor, number, number, number, Tensor];
+
+    /**
+     * Solves the linear system Ax = b using the restarted generalized minimal
+     * residual method, where A is a real square matrix.
+     * Returns a 5-item tuple [x, flag, relres, iter, resvec] as described in
+     * pcg(). iter counts the total number of inner iterations.
+     * @param a Sparse or dense matrix A, or a function computing A x.
+     * @param b Vector b.
+     * @param options (Optional) Solver options.
+     */
+    gmres(a: SparseMatrix | OpInput | LinearOperatorFunction, b: OpInput,
+          options?: IterativeSolverOptions): [Tensor, number, number, number, Tensor];
+
+    /**
+     * Solves the linear system Ax = b using the stabilized biconjugate
+     * gradient method, where A is a real square matrix.
+     * Returns a 5-item tuple [x, flag, relres, iter, resvec] as described in
+     * pcg().
+     * @param a Sparse or dense matrix A, or a function computing A x.
+     * @param b Vector b.
+     * @param options (Optional) Solver options.
+     */
+    bicgstab(a: SparseMatrix | OpInput | LinearOperatorFunction, b: OpInput,
+             options?: IterativeSolverOptions): [Tensor, number, number, number, Tensor];
+
+    /**
+     * Solves the linear system Ax = b, or the least squares problem
+     * min ||b - Ax|| if A is rectangular or the system is inconsistent, using
+     * the LSQR method. A is a real m x n matrix.
+     * Returns a 5-item tuple [x, flag, relres, iter, resvec] as described in
+     * pcg(). The method is also considered converged if the normal equation
+     * residual ||A^T r|| / (||A|| ||r||) falls below the tolerance.
+     * @param a Sparse or dense matrix A, or a function computing A x and
+     *          A^T x.
+     * @param b Vector b.
+     * @param options (Optional) Solver options. The default maximum number
+     *                of iterations is min(m, n). The preconditioner, if
+     *                given, is an n x n matrix.
+     */
+    lsqr(a: SparseMatrix | OpInput | LinearOperatorFunction, b: OpInput,
+         options?: IterativeSolverOptions): [Tensor, number, number, number, Tensor];
+
+    /**
+     * Computes a few eigenvalues and eigenvectors of a real square matrix
+     * using the restarted Arnoldi method (Lanczos method if A is symmetric).
+     * Returns a 3-item tuple [V, D, flag], where the columns of V are the
+     * unit eigenvectors, D is a k x k diagonal matrix of the eigenvalues
+     * sorted according to options.sigma, and flag = 0 if all k eigenpairs
+     * converged or 1 otherwise.
+     * @param a Sparse or dense matrix A, or a function computing A x.
+     * @param k (Optional) Number of eigenvalues. Default value is
+     *          min(6, n).
+     * @param options (Optional) Options.
+     */
+    eigs(a: SparseMatrix | OpInput | LinearOperatorFunction, k?: number,
+         options?: EigsOptions): [Tensor, Tensor, number];
+
+    /**
+     * Computes a few singular values and vectors of a real matrix by applying
+     * the Lanczos method to A^T A (or A A^T if A has more columns than
+     * rows).
+     * Returns a 4-item tuple [U, S, V, flag], where S is a k x k diagonal
+     * matrix of the singular values sorted according to options.sigma, the
+     * columns of U and V are the corresponding left and right singular
+     * vectors, and flag = 0 if all k singular triplets converged or 1
+     * otherwise.
+     * @param a Sparse or dense matrix A, or a function computing A x and
+     *          A^T x.
+     * @param k (Optional) Number of singular values. Default value is
+     *          min(6, m, n).
+     * @param options (Optional) Options.
+     */
+    svds(a: SparseMatrix | OpInput | LinearOperatorFunction, k?: number,
+         options?: SvdsOptions): [Tensor, Tensor, Tensor, number];
+
 }
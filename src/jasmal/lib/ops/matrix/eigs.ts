@@ -0,0 +1,352 @@
+import { DataBlock } from '../../commonTypes';
+import { DataHelper } from '../../helper/dataHelper';
+import { IEigenBackend } from '../../linalg/backend';
+import { EPSILON } from '../../constant';
+import { MatVecFunction } from './iterative';
+
+/**
+ * Specifies which eigenvalues of the operator are wanted:
+ *  'lm' - largest magnitude;
+ *  'lr' - largest real part;
+ *  'sr' - smallest real part.
+ */
+export type KrylovEigenTarget = 'lm' | 'lr' | 'sr';
+
+function dot(n: number, x: ArrayLike<number>, y: ArrayLike<number>): number {
+    let s = 0;
+    for (let i = 0;i < n;i++) {
+        s += x[i] * y[i];
+    }
+    return s;
+}
+
+/**
+ * Orthogonalizes x against the first k vectors of the orthonormal basis V
+ * using classical Gram-Schmidt with one step of reorthogonalization. If h is
+ * given, the projection coefficients are accumulated in h[i * stride + col].
+ * @returns The norm of x after orthogonalization.
+ */
+function orthogonalize(n: number, V: DataBlock[], k: number, x: DataBlock,
+                       h?: DataBlock, stride?: number, col?: number): number {
+    for (let pass = 0;pass < 2;pass++) {
+        for (let i = 0;i < k;i++) {
+            let c = dot(n, x, V[i]);
+            let vi = V[i];
+            for (let l = 0;l < n;l++) {
+                x[l] -= c * vi[l];
+            }
+            if (h) {
+                h[i * <number>stride + <number>col] += c;
+            }
+        }
+    }
+    return Math.sqrt(dot(n, x, x));
+}
+
+/**
+ * Krylov subspace methods for computing a few eigenpairs of large real
+ * operators that are only accessed through matrix-vector products.
+ */
+export class KrylovEigenSolver {
+
+    /**
+     * Computes k eigenpairs of a real n x n operator using the Arnoldi process
+     * (which reduces to the Lanczos process for symmetric operators) with
+     * full reorthogonalization. The search subspace is restarted by keeping
+     * an orthonormal basis of the wanted Ritz vectors, similar to the
+     * Krylov-Schur method, so that the Krylov decomposition
+     *  A V = V G + f e^T
+     * is preserved across restarts.
+     * A Ritz pair (theta, x) is considered converged if its residual
+     * ||A x - theta x|| <= tol * max(eps^(2/3), |theta|).
+     * @param eigen Backend used to solve the projected eigenproblems.
+     * @param n Dimension of the operator.
+     * @param matvec Computes A x.
+     * @param symmetric Whether the operator is symmetric.
+     * @param k Number of wanted eigenpairs.
+     * @param target Specifies the wanted eigenvalues.
+     * @param p Dimension of the search subspace. Must satisfy k < p <= n, or
+     *          p = n.
+     * @param tol Convergence tolerance.
+     * @param maxRestarts Maximum number of restarts.
+     * @param v0 Starting vector of length n. Must be nonzero.
+     * @returns [reLambda, imLambda, reX, imX, nConverged], where the k
+     *          eigenvalues are sorted according to the target and X is a
+     *          n x k matrix whose columns are the unit eigenvectors.
+     */
+    public static eigs(eigen: IEigenBackend, n: number, matvec: MatVecFunction, symmetric: boolean,
+                       k: number, target: KrylovEigenTarget, p: number, tol: number, maxRestarts: number,
+                       v0: ArrayLike<number>): [DataBlock, DataBlock, DataBlock, DataBlock, number] {
+        // Krylov basis with one extra vector for the residual direction
+        let V: DataBlock[] = [];
+        for (let j = 0;j <= p;j++) {
+            V.push(DataHelper.allocateFloat64Array(n));
+        }
+        // projected matrix (row major)
+        let G = DataHelper.allocateFloat64Array(p * p);
+        let Gc = DataHelper.allocateFloat64Array(p * p);
+        let wr = DataHelper.allocateFloat64Array(p);
+        let wi = DataHelper.allocateFloat64Array(p);
+        let zr = DataHelper.allocateFloat64Array(p * p);
+        let zi = DataHelper.allocateFloat64Array(p * p);
+        let w = DataHelper.allocateFloat64Array(n);
+        let seed = 1;
+
+        DataHelper.copy(v0, V[0]);
+        let nv = Math.sqrt(dot(n, V[0], V[0]));
+        for (let i = 0;i < n;i++) {
+            V[0][i] /= nv;
+        }
+        // number of basis vectors kept from the previous restart
+        let l = 0;
+        // norm of the residual direction
+        let fNorm = 0;
+        let order: number[] = [];
+        let nConverged = 0;
+        const score = (i: number): number => {
+            switch (target) {
+                case 'lm':
+                    return Math.sqrt(wr[i] * wr[i] + wi[i] * wi[i]);
+                case 'lr':
+                    return wr[i];
+                default:
+                    return -wr[i];
+            }
+        };
+        for (let restart = 0;;restart++) {
+            // extends the Krylov decomposition to p vectors
+            for (let j = l;j < p;j++) {
+                matvec(V[j], w);
+                let nw = Math.sqrt(dot(n, w, w));
+                let beta = orthogonalize(n, V, j + 1, w, G, p, j);
+                if (j + 1 >= n || beta <= 10 * EPSILON * nw) {
+                    // An invariant subspace is found. Continues with an
+                    // arbitrary vector orthogonal to the current basis.
+                    beta = 0;
+                    if (j + 1 < n) {
+                        KrylovEigenSolver._randomOrthogonalVector(n, V, j + 1, seed++);
+                    }
+                } else {
+                    let v = V[j + 1];
+                    for (let i = 0;i < n;i++) {
+                        v[i] = w[i] / beta;
+                    }
+                }
+                if (j + 1 < p) {
+                    G[(j + 1) * p + j] = beta;
+                } else {
+                    fNorm = beta;
+                }
+            }
+            // solves the projected eigenproblem
+            if (symmetric) {
+                for (let i = 0;i < p;i++) {
+                    for (let j = 0;j < p;j++) {
+                        Gc[i * p + j] = 0.5 * (G[i * p + j] + G[j * p + i]);
+                    }
+                }
+                eigen.rs(p, Gc, wr, true, zr);
+                for (let i = 0;i < p;i++) {
+                    wi[i] = 0;
+                }
+                for (let i = 0;i < p * p;i++) {
+                    zi[i] = 0;
+                }
+            } else {
+                DataHelper.copy(G, Gc);
+                eigen.rg(p, Gc, wr, wi, true, zr, zi);
+                // normalizes the eigenvectors
+                for (let j = 0;j < p;j++) {
+                    let s = 0;
+                    for (let i = 0;i < p;i++) {
+                        s += zr[i * p + j] * zr[i * p + j] + zi[i * p + j] * zi[i * p + j];
+                    }
+                    s = Math.sqrt(s);
+                    for (let i = 0;i < p;i++) {
+                        zr[i * p + j] /= s;
+                        zi[i * p + j] /= s;
+                    }
+                }
+            }
+            // sorts the Ritz values with the conjugate pairs kept together
+            order = [];
+            for (let i = 0;i < p;i++) {
+                order.push(i);
+            }
+            order.sort((a, b) => (score(b) - score(a)) || (wi[b] - wi[a]));
+            // checks convergence
+            nConverged = 0;
+            let tolMin = Math.pow(EPSILON, 2 / 3);
+            for (let i = 0;i < k;i++) {
+                let idx = order[i];
+                let res = fNorm * Math.sqrt(zr[(p - 1) * p + idx] * zr[(p - 1) * p + idx] +
+                    zi[(p - 1) * p + idx] * zi[(p - 1) * p + idx]);
+                let theta = Math.sqrt(wr[idx] * wr[idx] + wi[idx] * wi[idx]);
+                if (res <= tol * Math.max(tolMin, theta)) {
+                    nConverged++;
+                }
+            }
+            if (nConverged === k || restart >= maxRestarts) {
+                break;
+            }
+            l = KrylovEigenSolver._restart(n, p, k, V, G, wi, zr, zi, order, fNorm);
+        }
+        // computes the Ritz vectors
+        let reLambda = DataHelper.allocateFloat64Array(k);
+        let imLambda = DataHelper.allocateFloat64Array(k);
+        let reX = DataHelper.allocateFloat64Array(n * k);
+        let imX = DataHelper.allocateFloat64Array(n * k);
+        for (let c = 0;c < k;c++) {
+            let idx = order[c];
+            reLambda[c] = wr[idx];
+            imLambda[c] = wi[idx];
+            let s = 0;
+            for (let i = 0;i < n;i++) {
+                let re = 0, im = 0;
+                for (let j = 0;j < p;j++) {
+                    re += V[j][i] * zr[j * p + idx];
+                    im += V[j][i] * zi[j * p + idx];
+                }
+                reX[i * k + c] = re;
+                imX[i * k + c] = im;
+                s += re * re + im * im;
+            }
+            s = Math.sqrt(s);
+            for (let i = 0;i < n;i++) {
+                reX[i * k + c] /= s;
+                imX[i * k + c] /= s;
+            }
+        }
+        return [reLambda, imLambda, reX, imX, nConverged];
+    }
+
+    /**
+     * Restarts the Krylov decomposition by keeping an orthonormal basis Q of
+     * the invariant subspace of G spanned by the wanted Ritz vectors:
+     *  A (V Q) = (V Q) (Q^T G Q) + f (e^T Q).
+     * @returns The number of kept basis vectors.
+     */
+    private static _restart(n: number, p: number, k: number, V: DataBlock[], G: DataBlock,
+                            wi: ArrayLike<number>, zr: ArrayLike<number>, zi: ArrayLike<number>,
+                            order: number[], fNorm: number): number {
+        let nKeep = Math.min(k + Math.floor((p - k) / 2), p - 1);
+        // avoids splitting a complex conjugate pair
+        if (nKeep > 0 && wi[order[nKeep - 1]] > 0) {
+            nKeep = nKeep + 1 < p ? nKeep + 1 : nKeep - 1;
+        }
+        // collects the real bases of the wanted Ritz vectors
+        let Q: DataBlock[] = [];
+        for (let c = 0;c < nKeep;c++) {
+            let idx = order[c];
+            let q = DataHelper.allocateFloat64Array(p);
+            for (let i = 0;i < p;i++) {
+                q[i] = zr[i * p + idx];
+            }
+            Q.push(q);
+            if (wi[idx] !== 0 && c + 1 < nKeep) {
+                q = DataHelper.allocateFloat64Array(p);
+                for (let i = 0;i < p;i++) {
+                    q[i] = zi[i * p + idx];
+                }
+                Q.push(q);
+                c++;
+            }
+        }
+        // orthonormalizes Q and drops linearly dependent columns
+        let nQ = 0;
+        for (let c = 0;c < Q.length;c++) {
+            let q = Q[c];
+            let nq0 = Math.sqrt(dot(p, q, q));
+            let nq = orthogonalize(p, Q, nQ, q);
+            if (nq <= 1e-8 * nq0) {
+                continue;
+            }
+            for (let i = 0;i < p;i++) {
+                q[i] /= nq;
+            }
+            Q[nQ++] = q;
+        }
+        // R = Q^T G Q
+        let R = DataHelper.allocateFloat64Array(nQ * nQ);
+        let gq = DataHelper.allocateFloat64Array(p);
+        for (let j = 0;j < nQ;j++) {
+            for (let i = 0;i < p;i++) {
+                let s = 0;
+                for (let l = 0;l < p;l++) {
+                    s += G[i * p + l] * Q[j][l];
+                }
+                gq[i] = s;
+            }
+            for (let i = 0;i < nQ;i++) {
+                R[i * nQ + j] = dot(p, Q[i], gq);
+            }
+        }
+        // U = V Q
+        let U: DataBlock[] = [];
+        for (let c = 0;c < nQ;c++) {
+            let u = DataHelper.allocateFloat64Array(n);
+            for (let j = 0;j < p;j++) {
+                let qj = Q[c][j];
+                if (qj === 0) {
+                    continue;
+                }
+                let vj = V[j];
+                for (let i = 0;i < n;i++) {
+                    u[i] += qj * vj[i];
+                }
+            }
+            U.push(u);
+        }
+        for (let c = 0;c < nQ;c++) {
+            DataHelper.copy(U[c], V[c]);
+        }
+        DataHelper.copy(V[p], V[nQ]);
+        // new projected matrix
+        for (let i = 0;i < p * p;i++) {
+            G[i] = 0;
+        }
+        for (let i = 0;i < nQ;i++) {
+            for (let j = 0;j < nQ;j++) {
+                G[i * p + j] = R[i * nQ + j];
+            }
+            G[nQ * p + i] = fNorm * Q[i][p - 1];
+        }
+        return nQ;
+    }
+
+    /**
+     * Fills V[k] with a deterministic pseudo-random unit vector orthogonal to
+     * V[0], ..., V[k-1].
+     */
+    private static _randomOrthogonalVector(n: number, V: DataBlock[], k: number, seed: number): void {
+        let v = V[k];
+        for (let attempt = 0;attempt < 3;attempt++) {
+            KrylovEigenSolver.fillPseudoRandom(v, seed + attempt * 7919);
+            let nv0 = Math.sqrt(dot(n, v, v));
+            let nv = orthogonalize(n, V, k, v);
+            if (nv > 1e-8 * nv0) {
+                for (let i = 0;i < n;i++) {
+                    v[i] /= nv;
+                }
+                return;
+            }
+        }
+        for (let i = 0;i < n;i++) {
+            v[i] = 0;
+        }
+    }
+
+    /**
+     * Fills x with deterministic pseudo-random numbers uniformly distributed
+     * in [-0.5, 0.5). Used to generate reproducible starting vectors.
+     */
+    public static fillPseudoRandom(x: DataBlock, seed: number): void {
+        // linear congruential generator from Numerical Recipes
+        let s = seed >>> 0;
+        for (let i = 0;i < x.length;i++) {
+            s = (s * 1664525 + 1013904223) % 4294967296;
+            x[i] = s / 4294967296 - 0.5;
+        }
+    }
+
+}
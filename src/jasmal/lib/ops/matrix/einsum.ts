@@ -0,0 +1,554 @@
+import { Tensor } from '../../core/tensor';
+import { DType, OutputDTypeResolver } from '../../core/dtype';
+import { DataBlock } from '../../commonTypes';
+import { IBlaoBackend } from '../../linalg/backend';
+import { MatrixModifier } from '../../linalg/modifiers';
+
+/**
+ * An operand during the evaluation. Data are stored in row-major order and
+ * each axis is associated with a label. Letters are labeled with their
+ * character codes and the dimensions covered by the ellipsis are labeled with
+ * negative numbers (-1 for the last one).
+ */
+interface EinsumOperand {
+    re: ArrayLike<number>;
+    im: ArrayLike<number> | undefined;
+    shape: number[];
+    labels: number[];
+}
+
+/**
+ * Parsed subscripts.
+ */
+interface EinsumSubscripts {
+    inputs: number[][];
+    output: number[];
+}
+
+/**
+ * Maximum number of operands for which the optimal contraction order is
+ * searched exhaustively. The greedy strategy is used for more operands.
+ */
+const MAX_OPERANDS_FOR_OPTIMAL_ORDER = 5;
+
+export class EinsumFunction {
+
+    /**
+     * Evaluates the Einstein summation convention on the operands.
+     * Pairwise contractions are reshaped into (batched) matrix products and
+     * computed with the gemm kernels of the given backend.
+     */
+    public static einsum(blao: IBlaoBackend, subscripts: string, operands: Tensor[]): Tensor {
+        if (operands.length === 0) {
+            throw new Error('At least one operand is required.');
+        }
+        let parsed = EinsumFunction._parseSubscripts(subscripts, operands.map(x => x.ndim));
+        // determines the size of each label
+        let sizes: { [label: number]: number } = {};
+        for (let i = 0;i < operands.length;i++) {
+            let shape = operands[i].shape;
+            let labels = parsed.inputs[i];
+            for (let j = 0;j < labels.length;j++) {
+                let s = sizes[labels[j]];
+                if (s == undefined || s === 1 && labels[j] < 0) {
+                    sizes[labels[j]] = shape[j];
+                } else if (s !== shape[j] && !(labels[j] < 0 && shape[j] === 1)) {
+                    throw new Error(`Size mismatch for subscript "${EinsumFunction._labelToString(labels[j])}": ` +
+                        `${s} vs ${shape[j]}.`);
+                }
+            }
+        }
+        // determines the output data type
+        let dtype = operands[0].dtype;
+        let isComplex = false;
+        for (let i = 0;i < operands.length;i++) {
+            dtype = OutputDTypeResolver.bWiderWithLogicToInt(dtype, false, operands[i].dtype, false);
+            isComplex = isComplex || operands[i].hasNonZeroComplexStorage();
+        }
+        // preprocesses each operand
+        let ops: EinsumOperand[] = [];
+        for (let i = 0;i < operands.length;i++) {
+            let op: EinsumOperand = {
+                re: operands[i].realData,
+                im: operands[i].hasNonZeroComplexStorage() ? operands[i].imagData : undefined,
+                shape: operands[i].shape,
+                labels: parsed.inputs[i].slice()
+            };
+            // Dimensions of size one covered by the ellipsis are broadcast.
+            for (let j = op.labels.length - 1;j >= 0;j--) {
+                if (op.labels[j] < 0 && op.shape[j] === 1 && sizes[op.labels[j]] !== 1) {
+                    op.shape.splice(j, 1);
+                    op.labels.splice(j, 1);
+                }
+            }
+            // repeated labels -> diagonals
+            let j = EinsumFunction._findRepeatedLabel(op.labels);
+            while (j[0] >= 0) {
+                op = EinsumFunction._takeDiagonal(op, j[0], j[1]);
+                j = EinsumFunction._findRepeatedLabel(op.labels);
+            }
+            ops.push(op);
+        }
+        // sums over labels that appear in only one operand and not in the
+        // output
+        for (let i = 0;i < ops.length;i++) {
+            for (let j = ops[i].labels.length - 1;j >= 0;j--) {
+                let label = ops[i].labels[j];
+                if (!EinsumFunction._isLabelNeeded(label, ops, [i], parsed.output)) {
+                    ops[i] = EinsumFunction._sumAxis(ops[i], j);
+                }
+            }
+        }
+        // pairwise contractions
+        let path = EinsumFunction.optimizeOrder(ops.map(op => op.labels), parsed.output, sizes);
+        for (let k = 0;k < path.length;k++) {
+            let [i, j] = path[k];
+            let a = ops[i], b = ops[j];
+            ops.splice(j, 1);
+            ops.splice(i, 1);
+            let keep: number[] = parsed.output.slice();
+            for (let l = 0;l < ops.length;l++) {
+                keep = keep.concat(ops[l].labels);
+            }
+            ops.push(EinsumFunction._contract(blao, a, b, keep));
+        }
+        // final permutation
+        let result = ops[0];
+        let perm: number[] = [];
+        for (let i = 0;i < parsed.output.length;i++) {
+            perm.push(result.labels.indexOf(parsed.output[i]));
+        }
+        result = EinsumFunction._permute(result, perm);
+        let outShape = result.shape.length === 0 ? [1] : result.shape;
+        let Y = Tensor.zeros(outShape);
+        let reY = Y.realData;
+        for (let i = 0;i < reY.length;i++) {
+            reY[i] = result.re[i];
+        }
+        if (isComplex) {
+            Y.ensureComplexStorage();
+            let imY = Y.imagData;
+            if (result.im != undefined) {
+                for (let i = 0;i < imY.length;i++) {
+                    imY[i] = result.im[i];
+                }
+            }
+        }
+        return dtype === DType.FLOAT64 ? Y : Y.asType(dtype);
+    }
+
+    /**
+     * Finds the order of pairwise contractions minimizing the total number of
+     * multiplications. An exhaustive search is performed when the number of
+     * operands is small. Otherwise, the pair with the lowest cost is
+     * contracted first.
+     * @param inputs Labels of each operand.
+     * @param output Labels of the output.
+     * @param sizes Size of each label.
+     * @returns A list of pairs [i, j] (i < j). Operand i and j are removed
+     *          from the list and the result is appended to the end of the
+     *          list.
+     */
+    public static optimizeOrder(inputs: number[][], output: number[],
+                                sizes: { [label: number]: number }): Array<[number, number]> {
+        const contractLabels = (list: number[][], i: number, j: number): [number[], number] => {
+            let keep = output.slice();
+            for (let l = 0;l < list.length;l++) {
+                if (l !== i && l !== j) {
+                    keep = keep.concat(list[l]);
+                }
+            }
+            let union = list[i].slice();
+            for (let l = 0;l < list[j].length;l++) {
+                if (union.indexOf(list[j][l]) < 0) {
+                    union.push(list[j][l]);
+                }
+            }
+            let cost = 1;
+            let result: number[] = [];
+            for (let l = 0;l < union.length;l++) {
+                cost *= sizes[union[l]];
+                if (keep.indexOf(union[l]) >= 0) {
+                    result.push(union[l]);
+                }
+            }
+            return [result, cost];
+        };
+        const nextList = (list: number[][], i: number, j: number, labels: number[]): number[][] => {
+            let next = list.filter((_v, l) => l !== i && l !== j);
+            next.push(labels);
+            return next;
+        };
+        if (inputs.length <= MAX_OPERANDS_FOR_OPTIMAL_ORDER) {
+            const search = (list: number[][]): [number, Array<[number, number]>] => {
+                if (list.length <= 1) {
+                    return [0, []];
+                }
+                let best: [number, Array<[number, number]>] = [Infinity, []];
+                for (let i = 0;i < list.length;i++) {
+                    for (let j = i + 1;j < list.length;j++) {
+                        let [labels, cost] = contractLabels(list, i, j);
+                        let [restCost, restPath] = search(nextList(list, i, j, labels));
+                        if (cost + restCost < best[0] || best[1].length === 0) {
+                            best = [cost + restCost, [<[number, number]>[i, j]].concat(restPath)];
+                        }
+                    }
+                }
+                return best;
+            };
+            return search(inputs)[1];
+        }
+        let path: Array<[number, number]> = [];
+        let list = inputs;
+        while (list.length > 1) {
+            let bestPair: [number, number] = [0, 1];
+            let bestLabels: number[] = [];
+            let bestCost = Infinity;
+            for (let i = 0;i < list.length;i++) {
+                for (let j = i + 1;j < list.length;j++) {
+                    let [labels, cost] = contractLabels(list, i, j);
+                    if (cost < bestCost) {
+                        bestCost = cost;
+                        bestPair = [i, j];
+                        bestLabels = labels;
+                    }
+                }
+            }
+            if (bestCost === Infinity) {
+                bestLabels = contractLabels(list, 0, 1)[0];
+            }
+            path.push(bestPair);
+            list = nextList(list, bestPair[0], bestPair[1], bestLabels);
+        }
+        return path;
+    }
+
+    /**
+     * Parses the subscripts. If the output is not specified, labels
+     * appearing exactly once are placed in the output in alphabetical order,
+     * after the dimensions covered by the ellipsis.
+     */
+    private static _parseSubscripts(subscripts: string, ndims: number[]): EinsumSubscripts {
+        let s = subscripts.replace(/\s+/g, '');
+        let parts = s.split('->');
+        if (parts.length > 2) {
+            throw new Error('Subscripts can only contain one "->".');
+        }
+        let terms = parts[0].split(',');
+        if (terms.length !== ndims.length) {
+            throw new Error(`Expecting ${terms.length} operand(s) but got ${ndims.length}.`);
+        }
+        let inputs: number[][] = [];
+        let maxEllipsisDims = 0;
+        let hasEllipsis = false;
+        for (let i = 0;i < terms.length;i++) {
+            let [letters, ellipsisPos] = EinsumFunction._parseTerm(terms[i]);
+            let labels: number[];
+            if (ellipsisPos < 0) {
+                if (letters.length !== ndims[i]) {
+                    throw new Error(`Operand ${i} has ${ndims[i]} dimension(s) but ${letters.length} subscript(s) are given.`);
+                }
+                labels = letters;
+            } else {
+                let nEllipsisDims = ndims[i] - letters.length;
+                if (nEllipsisDims < 0) {
+                    throw new Error(`Operand ${i} has ${ndims[i]} dimension(s) but ${letters.length} subscript(s) are given.`);
+                }
+                hasEllipsis = true;
+                maxEllipsisDims = Math.max(maxEllipsisDims, nEllipsisDims);
+                labels = letters.slice(0, ellipsisPos)
+                    .concat(EinsumFunction._ellipsisLabels(nEllipsisDims))
+                    .concat(letters.slice(ellipsisPos));
+            }
+            inputs.push(labels);
+        }
+        let output: number[];
+        if (parts.length === 2) {
+            let [letters, ellipsisPos] = EinsumFunction._parseTerm(parts[1]);
+            for (let i = 0;i < letters.length;i++) {
+                if (letters.indexOf(letters[i]) !== i) {
+                    throw new Error(`Subscript "${String.fromCharCode(letters[i])}" appears more than once in the output.`);
+                }
+                if (!inputs.some(labels => labels.indexOf(letters[i]) >= 0)) {
+                    throw new Error(`Output subscript "${String.fromCharCode(letters[i])}" does not appear in the inputs.`);
+                }
+            }
+            if (ellipsisPos >= 0) {
+                if (!hasEllipsis) {
+                    throw new Error('Ellipsis in the output does not appear in the inputs.');
+                }
+                output = letters.slice(0, ellipsisPos)
+                    .concat(EinsumFunction._ellipsisLabels(maxEllipsisDims))
+                    .concat(letters.slice(ellipsisPos));
+            } else {
+                output = letters;
+            }
+        } else {
+            let counts: { [label: number]: number } = {};
+            for (let i = 0;i < inputs.length;i++) {
+                for (let j = 0;j < inputs[i].length;j++) {
+                    if (inputs[i][j] >= 0) {
+                        counts[inputs[i][j]] = (counts[inputs[i][j]] || 0) + 1;
+                    }
+                }
+            }
+            let letters: number[] = [];
+            for (let key in counts) {
+                if (counts[key] === 1) {
+                    letters.push(parseInt(key, 10));
+                }
+            }
+            letters.sort((a, b) => a - b);
+            output = EinsumFunction._ellipsisLabels(maxEllipsisDims).concat(letters);
+        }
+        return { inputs: inputs, output: output };
+    }
+
+    /**
+     * Parses a term of the subscripts.
+     * @returns [character codes of the letters, position of the ellipsis
+     *          among the letters or -1 if there is no ellipsis]
+     */
+    private static _parseTerm(term: string): [number[], number] {
+        let letters: number[] = [];
+        let ellipsisPos = -1;
+        for (let i = 0;i < term.length;i++) {
+            let c = term.charAt(i);
+            if (c === '.') {
+                if (ellipsisPos >= 0 || term.substr(i, 3) !== '...') {
+                    throw new Error(`Invalid subscripts "${term}".`);
+                }
+                ellipsisPos = letters.length;
+                i += 2;
+            } else if (/[a-zA-Z]/.test(c)) {
+                letters.push(c.charCodeAt(0));
+            } else {
+                throw new Error(`Invalid character "${c}" in subscripts.`);
+            }
+        }
+        return [letters, ellipsisPos];
+    }
+
+    private static _ellipsisLabels(n: number): number[] {
+        let labels: number[] = [];
+        for (let i = n;i >= 1;i--) {
+            labels.push(-i);
+        }
+        return labels;
+    }
+
+    private static _labelToString(label: number): string {
+        return label >= 0 ? String.fromCharCode(label) : '...';
+    }
+
+    private static _findRepeatedLabel(labels: number[]): [number, number] {
+        for (let i = 0;i < labels.length;i++) {
+            let j = labels.indexOf(labels[i], i + 1);
+            if (j >= 0) {
+                return [i, j];
+            }
+        }
+        return [-1, -1];
+    }
+
+    /**
+     * Checks if the label is used by the output or any operand not in the
+     * excluded list.
+     */
+    private static _isLabelNeeded(label: number, ops: EinsumOperand[], excluded: number[],
+                                  output: number[]): boolean {
+        if (output.indexOf(label) >= 0) {
+            return true;
+        }
+        for (let i = 0;i < ops.length;i++) {
+            if (excluded.indexOf(i) < 0 && ops[i].labels.indexOf(label) >= 0) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private static _getStrides(shape: number[]): number[] {
+        let strides = new Array(shape.length);
+        let s = 1;
+        for (let i = shape.length - 1;i >= 0;i--) {
+            strides[i] = s;
+            s *= shape[i];
+        }
+        return strides;
+    }
+
+    private static _getSize(shape: number[]): number {
+        let n = 1;
+        for (let i = 0;i < shape.length;i++) {
+            n *= shape[i];
+        }
+        return n;
+    }
+
+    /**
+     * Gathers elements into a new operand. The i-th axis of the new operand
+     * advances the source offset by srcStrides[i].
+     */
+    private static _gather(op: EinsumOperand, shape: number[], srcStrides: number[],
+                           labels: number[]): EinsumOperand {
+        let n = EinsumFunction._getSize(shape);
+        let re = new Float64Array(n);
+        let im = op.im == undefined ? undefined : new Float64Array(n);
+        let ndim = shape.length;
+        let index = new Array(ndim);
+        for (let i = 0;i < ndim;i++) {
+            index[i] = 0;
+        }
+        let offset = 0;
+        for (let k = 0;k < n;k++) {
+            re[k] = op.re[offset];
+            if (im) {
+                im[k] = (<ArrayLike<number>>op.im)[offset];
+            }
+            // advances the index
+            for (let d = ndim - 1;d >= 0;d--) {
+                index[d]++;
+                offset += srcStrides[d];
+                if (index[d] < shape[d]) {
+                    break;
+                }
+                offset -= srcStrides[d] * shape[d];
+                index[d] = 0;
+            }
+        }
+        return { re: re, im: im, shape: shape, labels: labels };
+    }
+
+    /**
+     * Extracts the diagonal along axes i and j (i < j). Axis j is removed.
+     */
+    private static _takeDiagonal(op: EinsumOperand, i: number, j: number): EinsumOperand {
+        let strides = EinsumFunction._getStrides(op.shape);
+        let shape = op.shape.slice();
+        let labels = op.labels.slice();
+        let srcStrides = strides.slice();
+        srcStrides[i] += strides[j];
+        shape.splice(j, 1);
+        labels.splice(j, 1);
+        srcStrides.splice(j, 1);
+        return EinsumFunction._gather(op, shape, srcStrides, labels);
+    }
+
+    /**
+     * Permutes the axes such that the i-th axis of the new operand is the
+     * perm[i]-th axis of the original operand.
+     */
+    private static _permute(op: EinsumOperand, perm: number[]): EinsumOperand {
+        let isIdentity = true;
+        for (let i = 0;i < perm.length;i++) {
+            if (perm[i] !== i) {
+                isIdentity = false;
+                break;
+            }
+        }
+        if (isIdentity) {
+            return op;
+        }
+        let strides = EinsumFunction._getStrides(op.shape);
+        return EinsumFunction._gather(op, perm.map(p => op.shape[p]), perm.map(p => strides[p]),
+                                      perm.map(p => op.labels[p]));
+    }
+
+    /**
+     * Sums over the specified axis.
+     */
+    private static _sumAxis(op: EinsumOperand, axis: number): EinsumOperand {
+        let nOuter = EinsumFunction._getSize(op.shape.slice(0, axis));
+        let nAxis = op.shape[axis];
+        let nInner = EinsumFunction._getSize(op.shape.slice(axis + 1));
+        let re = new Float64Array(nOuter * nInner);
+        let im = op.im == undefined ? undefined : new Float64Array(nOuter * nInner);
+        for (let i = 0;i < nOuter;i++) {
+            for (let k = 0;k < nAxis;k++) {
+                let offset = (i * nAxis + k) * nInner;
+                for (let j = 0;j < nInner;j++) {
+                    re[i * nInner + j] += op.re[offset + j];
+                }
+                if (im) {
+                    for (let j = 0;j < nInner;j++) {
+                        im[i * nInner + j] += (<ArrayLike<number>>op.im)[offset + j];
+                    }
+                }
+            }
+        }
+        let shape = op.shape.slice();
+        let labels = op.labels.slice();
+        shape.splice(axis, 1);
+        labels.splice(axis, 1);
+        return { re: re, im: im, shape: shape, labels: labels };
+    }
+
+    /**
+     * Contracts two operands as a batched matrix product.
+     * @param keep Labels still needed by the output or other operands.
+     */
+    private static _contract(blao: IBlaoBackend, a: EinsumOperand, b: EinsumOperand,
+                             keep: number[]): EinsumOperand {
+        let batch: number[] = [], contracted: number[] = [], freeA: number[] = [], freeB: number[] = [];
+        for (let i = 0;i < a.labels.length;i++) {
+            let label = a.labels[i];
+            if (b.labels.indexOf(label) >= 0) {
+                (keep.indexOf(label) >= 0 ? batch : contracted).push(label);
+            } else {
+                freeA.push(label);
+            }
+        }
+        for (let i = 0;i < b.labels.length;i++) {
+            if (a.labels.indexOf(b.labels[i]) < 0) {
+                freeB.push(b.labels[i]);
+            }
+        }
+        // A -> [batch, freeA, contracted], B -> [batch, contracted, freeB]
+        let labelsA = batch.concat(freeA).concat(contracted);
+        let labelsB = batch.concat(contracted).concat(freeB);
+        let pa = EinsumFunction._permute(a, labelsA.map(l => a.labels.indexOf(l)));
+        let pb = EinsumFunction._permute(b, labelsB.map(l => b.labels.indexOf(l)));
+        let sizeOf = (labels: number[], op: EinsumOperand) =>
+            EinsumFunction._getSize(labels.map(l => op.shape[op.labels.indexOf(l)]));
+        let nb = sizeOf(batch, pa);
+        let m = sizeOf(freeA, pa);
+        let k = sizeOf(contracted, pa);
+        let n = sizeOf(freeB, pb);
+        let shape = pa.shape.slice(0, batch.length + freeA.length)
+            .concat(pb.shape.slice(batch.length + contracted.length));
+        let labels = batch.concat(freeA).concat(freeB);
+        let isComplex = pa.im != undefined || pb.im != undefined;
+        let re = new Float64Array(nb * m * n);
+        let im = isComplex ? new Float64Array(nb * m * n) : undefined;
+        if (nb * m * n * k === 0) {
+            return { re: re, im: im, shape: shape, labels: labels };
+        }
+        const sub = (data: ArrayLike<number>, offset: number, length: number): ArrayLike<number> => {
+            if (nb === 1) {
+                return data;
+            }
+            return (<Float64Array>data).subarray(offset, offset + length);
+        };
+        for (let t = 0;t < nb;t++) {
+            let reA = sub(pa.re, t * m * k, m * k);
+            let reB = sub(pb.re, t * k * n, k * n);
+            let reC = <DataBlock>sub(re, t * m * n, m * n);
+            if (pa.im != undefined && pb.im != undefined) {
+                blao.cgemm(m, n, k, 1, 0, reA, sub(pa.im, t * m * k, m * k), reB, sub(pb.im, t * k * n, k * n),
+                           MatrixModifier.None, 1, 0, reC, <DataBlock>sub(<Float64Array>im, t * m * n, m * n));
+            } else {
+                blao.gemm(m, n, k, 1, reA, reB, MatrixModifier.None, 1, reC);
+                if (pa.im != undefined) {
+                    blao.gemm(m, n, k, 1, sub(pa.im, t * m * k, m * k), reB, MatrixModifier.None, 1,
+                              <DataBlock>sub(<Float64Array>im, t * m * n, m * n));
+                } else if (pb.im != undefined) {
+                    blao.gemm(m, n, k, 1, reA, sub(pb.im, t * k * n, k * n), MatrixModifier.None, 1,
+                              <DataBlock>sub(<Float64Array>im, t * m * n, m * n));
+                }
+            }
+        }
+        return { re: re, im: im, shape: shape, labels: labels };
+    }
+
+}
@@ -1,6 +1,7 @@
-import { IMatrixOpProvider } from './definition';
+import { IMatrixOpProvider, IterativeSolverOptions, LinearOperatorFunction, EigsOptions,
+    SvdsOptions, QROptions, LstsqOptions, LsqnonnegOptions } from './definition';
 import { IArithmeticOpProvider } from '../arithmetic/definition';
-import { OpInput, Scalar, DataBlock } from '../../commonTypes';
+import { OpInput, OpOutput, Scalar, DataBlock } from '../../commonTypes';
 import { Tensor } from '../../core/tensor';
 import { ComplexNumber } from '../../core/complexNumber';
 import { DType, OutputDTypeResolver } from '../../core/dtype';
@@ -16,7 +17,20 @@ import { BuiltInQR } from '../../linalg/builtin/qr';
 import { BuiltInSvd } from '../../linalg/builtin/svd';
 import { BuiltInEigen } from '../../linalg/builtin/eigen';
 import { BuiltInCholesky } from '../../linalg/builtin/chol';
+import { BuiltInQZ } from '../../linalg/builtin/qz';
 import { MatrixModifier } from '../../linalg/modifiers';
+import { MatrixType } from '../../linalg/matrixType';
+import { BuiltInSpecialLinearSystemSolver } from '../../linalg/builtin/linsolve';
+import { SparseMatrix, SparseFormat } from '../../core/sparseMatrix';
+import { SparseMatrixFunction } from './sparse';
+import { IterativeSolver, MatVecFunction } from './iterative';
+import { EinsumFunction } from './einsum';
+import { KrylovEigenSolver, KrylovEigenTarget } from './eigs';
+import { MatrixBatchHelper } from './batch';
+import { QRUpdateFunction } from './qrUpdate';
+import { ConstrainedLeastSquares } from './leastSquares';
+import { MatrixStructure } from './structure';
+import { ConditionEstimator } from './condition';
 
 export class MatrixOpProviderFactory implements IJasmalModuleFactory<IMatrixOpProvider> {
 
@@ -38,6 +52,17 @@ export class MatrixOpProviderFactory implements IJasmalModuleFactory<IMatrixOpPr
         const Svd = linalgOptions && linalgOptions.svd ? linalgOptions.svd : new BuiltInSvd();
         const Eigen = linalgOptions && linalgOptions.eigen ? linalgOptions.eigen : new BuiltInEigen();
         const Chol = linalgOptions && linalgOptions.chol ? linalgOptions.chol : new BuiltInCholesky();
+        const Schur = linalgOptions && linalgOptions.schur ? linalgOptions.schur : new BuiltInEigen();
+        const QZ = linalgOptions && linalgOptions.qz ? linalgOptions.qz : new BuiltInQZ();
+        const Linsolve = linalgOptions && linalgOptions.linsolve
+            ? linalgOptions.linsolve
+            : new BuiltInSpecialLinearSystemSolver();
+        const singularMatrixAction = linalgOptions && linalgOptions.singularMatrix
+            ? linalgOptions.singularMatrix
+            : 'warn';
+        const onWarning = linalgOptions && linalgOptions.onWarning
+            ? linalgOptions.onWarning
+            : (message: string): void => { console.warn(message); };
         
         const arithmOp = this.arithmOp;
         const mathOp = this.mathOp;
@@ -293,12 +318,65 @@ export class MatrixOpProviderFactory implements IJasmalModuleFactory<IMatrixOpPr
             }
         };
 
-        const opMatMul = (x: OpInput, y: OpInput, yModifier: MatrixModifier = MatrixModifier.None): Tensor => {
-            let vx = Tensor.analyzeOpInput(x);
-            let vy = Tensor.analyzeOpInput(y);
-            if (vx.originalShape.length > 2 || vy.originalShape.length > 2) {
+        /**
+         * Converts a dense input into a matrix. Scalars are treated as 1x1
+         * matrices and 1D vectors are treated as row vectors.
+         */
+        const toDenseMatrix = (x: OpInput): Tensor => {
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            if (X.ndim === 1) {
+                return X.getReshapedCopy([1, -1]);
+            }
+            if (X.ndim !== 2) {
                 throw new Error('Matrix or vector expected.');
             }
+            return X;
+        };
+
+        const sparseMatMul = (x: OpInput | SparseMatrix, y: OpInput | SparseMatrix,
+                              yModifier: MatrixModifier): Tensor | SparseMatrix => {
+            if (y instanceof SparseMatrix) {
+                if (yModifier === MatrixModifier.Transposed) {
+                    y = y.transpose();
+                } else if (yModifier === MatrixModifier.Hermitian) {
+                    y = y.hermitian();
+                }
+            } else if (yModifier !== MatrixModifier.None) {
+                y = yModifier === MatrixModifier.Transposed ? opTranspose(y) : opHermitian(y);
+            }
+            if (x instanceof SparseMatrix) {
+                if (y instanceof SparseMatrix) {
+                    return SparseMatrixFunction.matmulSS(x, y);
+                }
+                let Y = toDenseMatrix(y);
+                return SparseMatrixFunction.matmulSD(x, Y.realData,
+                    Y.hasNonZeroComplexStorage() ? Y.imagData : undefined, Y.shape[0], Y.shape[1]);
+            } else {
+                let X = toDenseMatrix(x);
+                return SparseMatrixFunction.matmulDS(X.realData, X.hasNonZeroComplexStorage() ? X.imagData : undefined,
+                    X.shape[0], X.shape[1], <SparseMatrix>y);
+            }
+        };
+
+        function opMatMul(x: SparseMatrix, y: SparseMatrix, yModifier?: MatrixModifier): SparseMatrix;
+        function opMatMul(x: OpInput | SparseMatrix, y: OpInput | SparseMatrix, yModifier?: MatrixModifier): Tensor;
+        function opMatMul(x: OpInput | SparseMatrix, y: OpInput | SparseMatrix,
+                          yModifier: MatrixModifier = MatrixModifier.None): Tensor | SparseMatrix {
+            if (x instanceof SparseMatrix || y instanceof SparseMatrix) {
+                return sparseMatMul(x, y, yModifier);
+            }
+            if (yModifier === MatrixModifier.None && y instanceof Tensor && y.ndim === 2 && !y.isContiguous()) {
+                // If y is a transposed view of a contiguous matrix, we can
+                // pass the original matrix to the backend directly without
+                // materializing the view.
+                let yt = y.getPermutedView([1, 0]);
+                if (yt.isContiguous()) {
+                    y = yt;
+                    yModifier = MatrixModifier.Transposed;
+                }
+            }
+            let vx = Tensor.analyzeOpInput(x);
+            let vy = Tensor.analyzeOpInput(y);
             // convert scalar
             if (vx.isInputScalar) {
                 vx.reArr = [vx.re];
@@ -312,10 +390,13 @@ export class MatrixOpProviderFactory implements IJasmalModuleFactory<IMatrixOpPr
                     vy.imArr = [vy.im];
                 }
             }
-            let m = vx.originalShape.length === 1 ? 1 : vx.originalShape[0];
-            let n1 = vx.originalShape.length === 1 ? vx.originalShape[0] : vx.originalShape[1];
-            let n2 = vy.originalShape.length === 1 ? 1 : vy.originalShape[0];
-            let p = vy.originalShape.length === 1 ? vy.originalShape[0] : vy.originalShape[1];
+            // 1D vectors are treated as row vectors
+            let shapeX: number[] = vx.originalShape.length === 1
+                ? [1, vx.originalShape[0]] : Array.prototype.slice.call(vx.originalShape);
+            let shapeY: number[] = vy.originalShape.length === 1
+                ? [1, vy.originalShape[0]] : Array.prototype.slice.call(vy.originalShape);
+            let [batchShapeX, m, n1] = MatrixBatchHelper.splitShape(shapeX);
+            let [batchShapeY, n2, p] = MatrixBatchHelper.splitShape(shapeY);
             if (yModifier > 0) {
                 let tmp = n2;
                 n2 = p;
@@ -324,40 +405,72 @@ export class MatrixOpProviderFactory implements IJasmalModuleFactory<IMatrixOpPr
             if (n1 !== n2) {
                 throw new Error(`Matrix dimensions (${m}, ${n1}) and (${n2}, ${p}) are not compatible.`);
             }
-            let Z = Tensor.zeros([m, p],
+            let [batchShapeZ, indicesX, indicesY] = MatrixBatchHelper.broadcast(batchShapeX, batchShapeY);
+            let Z = Tensor.zeros(batchShapeZ.concat([m, p]),
                 OutputDTypeResolver.bWiderWithLogicToInt(vx.originalDType, vx.isComplex, vy.originalDType, vy.isComplex));
             if (vx.reArr.length === 0 || vy.reArr.length === 0) {
                 // empty input handling
                 return Z;
             }
-            if (vx.isComplex) {
+            if (vx.isComplex || vy.isComplex) {
                 Z.ensureComplexStorage();
-                if (vy.isComplex) {
-                    Blao.cgemm(m, p, n1, 1, 0, vx.reArr, vx.imArr, vy.reArr, vy.imArr, yModifier, 1, 0, Z.realData, Z.imagData);
+            }
+            if (batchShapeZ.length === 0) {
+                matMulBlock(m, p, n1, vx.reArr, vx.isComplex ? vx.imArr : [], vy.reArr, vy.isComplex ? vy.imArr : [],
+                            yModifier, Z.realData, Z.hasComplexStorage() ? Z.imagData : []);
+                return Z;
+            }
+            // Batch inputs are stored in typed arrays since they are not
+            // scalars.
+            const block = (data: ArrayLike<number>, k: number, size: number): DataBlock => {
+                return MatrixBatchHelper.getBlock(<DataBlock>data, k, size);
+            };
+            let reZ = Z.realData;
+            let imZ = Z.hasComplexStorage() ? Z.imagData : [];
+            for (let k = 0;k < indicesX.length;k++) {
+                let ix = indicesX[k], iy = indicesY[k];
+                matMulBlock(m, p, n1,
+                    block(vx.reArr, ix, m * n1), vx.isComplex ? block(vx.imArr, ix, m * n1) : [],
+                    block(vy.reArr, iy, n1 * p), vy.isComplex ? block(vy.imArr, iy, n1 * p) : [],
+                    yModifier, block(reZ, k, m * p), Z.hasComplexStorage() ? block(imZ, k, m * p) : []);
+            }
+            return Z;
+        }
+
+        /**
+         * Computes Z = X M(Y), where X is m x n, M(Y) is n x p, and Z is
+         * initialized with zeros. Empty imaginary parts indicate real
+         * matrices.
+         */
+        function matMulBlock(m: number, p: number, n: number, reX: ArrayLike<number>, imX: ArrayLike<number>,
+                             reY: ArrayLike<number>, imY: ArrayLike<number>, yModifier: MatrixModifier,
+                             reZ: DataBlock, imZ: DataBlock): void {
+            let isXComplex = imX.length > 0;
+            let isYComplex = imY.length > 0;
+            if (isXComplex) {
+                if (isYComplex) {
+                    Blao.cgemm(m, p, n, 1, 0, reX, imX, reY, imY, yModifier, 1, 0, reZ, imZ);
                 } else {
-                    Blao.gemm(m, p, n1, 1, vx.reArr, vy.reArr, yModifier, 1, Z.realData);
-                    Blao.gemm(m, p, n1, 1, vx.imArr, vy.reArr, yModifier, 1, Z.imagData);
+                    Blao.gemm(m, p, n, 1, reX, reY, yModifier, 1, reZ);
+                    Blao.gemm(m, p, n, 1, imX, reY, yModifier, 1, imZ);
                 }
             } else {
-                if (vy.isComplex) {
-                    Z.ensureComplexStorage();
+                if (isYComplex) {
                     if (yModifier === MatrixModifier.Hermitian) {
-                        Blao.gemm(m, p, n1, 1, vx.reArr, vy.reArr, MatrixModifier.Transposed, 1, Z.realData);
-                        Blao.gemm(m, p, n1, 1, vx.reArr, vy.imArr, MatrixModifier.Transposed, 1, Z.imagData);
-                        let reZ = Z.imagData;
-                        for (let i = 0;i < reZ.length;i++) {
-                            reZ[i] = -reZ[i];
+                        Blao.gemm(m, p, n, 1, reX, reY, MatrixModifier.Transposed, 1, reZ);
+                        Blao.gemm(m, p, n, 1, reX, imY, MatrixModifier.Transposed, 1, imZ);
+                        for (let i = 0;i < imZ.length;i++) {
+                            imZ[i] = -imZ[i];
                         }
                     } else {
-                        Blao.gemm(m, p, n1, 1, vx.reArr, vy.reArr, yModifier, 1, Z.realData);
-                        Blao.gemm(m, p, n1, 1, vx.reArr, vy.imArr, yModifier, 1, Z.imagData);  
-                    }  
+                        Blao.gemm(m, p, n, 1, reX, reY, yModifier, 1, reZ);
+                        Blao.gemm(m, p, n, 1, reX, imY, yModifier, 1, imZ);
+                    }
                 } else {
-                    Blao.gemm(m, p, n1, 1, vx.reArr, vy.reArr, yModifier, 1, Z.realData);   
+                    Blao.gemm(m, p, n, 1, reX, reY, yModifier, 1, reZ);
                 }
             }
-            return Z;
-        };
+        }
 
         const opKron = (x: OpInput, y: OpInput): Tensor => {
             let X = x instanceof Tensor ? x : Tensor.toTensor(x);
@@ -376,26 +489,35 @@ export class MatrixOpProviderFactory implements IJasmalModuleFactory<IMatrixOpPr
             return (<Tensor>arithmOp.mul(A, B)).reshape([shapeX[0] * shapeY[0], shapeX[1] * shapeY[1]]);
         };
 
-        const opTranspose = (x: OpInput): Tensor => {
+        const opEinsum = (subscripts: string, ...operands: OpInput[]): Tensor => {
+            return EinsumFunction.einsum(Blao, subscripts,
+                operands.map(x => x instanceof Tensor ? x : Tensor.toTensor(x)));
+        };
+
+        function opTranspose(x: SparseMatrix): SparseMatrix;
+        function opTranspose(x: OpInput): Tensor;
+        function opTranspose(x: OpInput | SparseMatrix): Tensor | SparseMatrix {
+            if (x instanceof SparseMatrix) {
+                return x.transpose();
+            }
             let X = x instanceof Tensor ? x : Tensor.toTensor(x);
             let shapeX = X.shape;
             if (shapeX.length === 1) {
                 // we treat 1D vector as a row vector
                 return X.getReshapedCopy([-1, 1]);
             } else if (shapeX.length === 2) {
-                let Y = Tensor.zeros([shapeX[1], shapeX[0]], X.dtype);
-                Blao.transpose(shapeX[0], shapeX[1], X.realData, Y.realData);
-                if (X.hasComplexStorage()) {
-                    Y.ensureComplexStorage();
-                    Blao.transpose(shapeX[0], shapeX[1], X.imagData, Y.imagData);
-                }
-                return Y;
+                return X.getPermutedView([1, 0]);
             } else {
                 throw new Error('Matrix expected.');
             }
-        };
+        }
 
-        const opHermitian = (x: OpInput): Tensor => {
+        function opHermitian(x: SparseMatrix): SparseMatrix;
+        function opHermitian(x: OpInput): Tensor;
+        function opHermitian(x: OpInput | SparseMatrix): Tensor | SparseMatrix {
+            if (x instanceof SparseMatrix) {
+                return x.hermitian();
+            }
             let X = x instanceof Tensor ? x : Tensor.toTensor(x);
             let shapeX = X.shape;
             let Y: Tensor;
@@ -422,7 +544,7 @@ export class MatrixOpProviderFactory implements IJasmalModuleFactory<IMatrixOpPr
             } else {
                 throw new Error('Matrix expected.');
             }
-        };
+        }
 
         const opTrace = (x: OpInput): Scalar => {
             let infoX = Tensor.analyzeOpInput(x);
@@ -541,9 +663,117 @@ export class MatrixOpProviderFactory implements IJasmalModuleFactory<IMatrixOpPr
             return [X, p, sign];
         }
 
+        /**
+         * Returns the input as a tensor if it is a batch of matrices (i.e., it
+         * has more than two dimensions). Otherwise returns undefined.
+         */
+        const toMatrixBatch = (x: OpInput): Tensor | undefined => {
+            if (x instanceof Tensor) {
+                return x.ndim > 2 ? x : undefined;
+            }
+            // nested JavaScript arrays with more than two levels
+            if (Array.isArray(x) && Array.isArray(x[0]) && Array.isArray(x[0][0])) {
+                return Tensor.toTensor(x);
+            }
+            return undefined;
+        };
+
+        /**
+         * Applies a matrix function to each matrix (or each pair of matrices)
+         * in a batch stored in the last two dimensions of the inputs, and
+         * stacks the outputs along the (broadcast) batch dimensions. The
+         * number and the shapes of the outputs of f must only depend on the
+         * shapes of its inputs.
+         * @param inputs One or two tensors with at least two dimensions.
+         * @param f Matrix function.
+         */
+        const mapMatrixBatch = (inputs: Tensor[], f: (matrices: Tensor[]) => Tensor | Tensor[]): Tensor | Tensor[] => {
+            let splits = inputs.map(X => MatrixBatchHelper.splitShape(X.shape));
+            let batchShape: number[];
+            let indices: ArrayLike<number>[];
+            if (inputs.length === 1) {
+                batchShape = splits[0][0];
+                let idx = DataHelper.allocateInt32Array(MatrixBatchHelper.getBatchSize(batchShape));
+                for (let k = 0;k < idx.length;k++) {
+                    idx[k] = k;
+                }
+                indices = [idx];
+            } else {
+                let [shape, indices0, indices1] = MatrixBatchHelper.broadcast(splits[0][0], splits[1][0]);
+                batchShape = shape;
+                indices = [indices0, indices1];
+            }
+            let nb = MatrixBatchHelper.getBatchSize(batchShape);
+            const getMatrix = (j: number, k: number): Tensor => {
+                let [, m, n] = splits[j];
+                let X = inputs[j];
+                let Y = Tensor.zeros([m, n]);
+                let reY = Y.realData;
+                if (nb === 0) {
+                    // For empty batches, f is evaluated once with a
+                    // placeholder to determine the shapes of the outputs.
+                    for (let i = 0;i < Math.min(m, n);i++) {
+                        reY[i * n + i] = 1;
+                    }
+                    return Y;
+                }
+                let reBlock = MatrixBatchHelper.getBlock(X.realData, indices[j][k], m * n);
+                for (let i = 0;i < m * n;i++) {
+                    reY[i] = reBlock[i];
+                }
+                if (X.hasNonZeroComplexStorage()) {
+                    Y.ensureComplexStorage();
+                    let imY = Y.imagData;
+                    let imBlock = MatrixBatchHelper.getBlock(X.imagData, indices[j][k], m * n);
+                    for (let i = 0;i < m * n;i++) {
+                        imY[i] = imBlock[i];
+                    }
+                }
+                return Y;
+            };
+            let outputs: Tensor[] = [];
+            let isTuple = false;
+            for (let k = 0;k < Math.max(nb, 1);k++) {
+                let result = f(inputs.map((_X, j) => getMatrix(j, k)));
+                isTuple = Array.isArray(result);
+                let results = Array.isArray(result) ? result : [result];
+                if (k === 0) {
+                    outputs = results.map(Y => Tensor.zeros(batchShape.concat(Y.shape)));
+                }
+                if (nb === 0) {
+                    break;
+                }
+                for (let i = 0;i < results.length;i++) {
+                    let Y = results[i];
+                    let size = Y.size;
+                    let reY = Y.realData;
+                    let reBlock = MatrixBatchHelper.getBlock(outputs[i].realData, k, size);
+                    for (let l = 0;l < size;l++) {
+                        reBlock[l] = reY[l];
+                    }
+                    if (Y.hasComplexStorage()) {
+                        outputs[i].ensureComplexStorage();
+                        let imY = Y.imagData;
+                        let imBlock = MatrixBatchHelper.getBlock(outputs[i].imagData, k, size);
+                        for (let l = 0;l < size;l++) {
+                            imBlock[l] = imY[l];
+                        }
+                    }
+                }
+            }
+            return isTuple ? outputs : outputs[0];
+        };
+
         function opLu(x: OpInput, compact?: false): [Tensor, Tensor, Tensor];
         function opLu(x: OpInput, compact: true): [Tensor, number[]];
         function opLu(x: OpInput, compact: boolean = false): [Tensor, number[]] | [Tensor, Tensor, Tensor] {
+            let batch = toMatrixBatch(x);
+            if (batch) {
+                if (compact) {
+                    throw new Error('Batched input is not supported by the compact form.');
+                }
+                return <[Tensor, Tensor, Tensor]>mapMatrixBatch([batch], ([Xk]) => opLu(Xk));
+            }
             let [X, p, ] = doCompactLU(x);            
             if (compact) {
                 return [X, p];
@@ -567,65 +797,360 @@ export class MatrixOpProviderFactory implements IJasmalModuleFactory<IMatrixOpPr
             }
         }
 
-        function opInv(x: OpInput): Tensor {
-            let [X, p, ] = doCompactLU(x);
-            let m = X.shape[0];
-            let B = opEye(m);
-            if (X.hasComplexStorage()) {
+        /**
+         * Performs in-place LUP decompositions of a batch of square matrices
+         * stored in the last two dimensions.
+         * @param norms (Optional) If specified, the 1-norms of the matrices
+         *              will be stored in this array before the decompositions.
+         * @returns [compact LU decompositions, permutation vectors, signs of
+         *          the permutations, batch shape, dimension of the matrices]
+         */
+        function doBatchedCompactLU(x: OpInput, norms?: number[]): [Tensor, DataBlock[], number[], number[], number] {
+            // make a copy here as X will be overwritten
+            let X = x instanceof Tensor ? x.asType(DType.FLOAT64, true) : Tensor.toTensor(x);
+            let [batchShape, m, n] = MatrixBatchHelper.splitShape(X.shape);
+            if (m !== n) {
+                throw new Error('Square matrix expected.');
+            }
+            X.ensureUnsharedLocalStorage();
+            let isComplex = X.hasNonZeroComplexStorage();
+            if (!isComplex) {
+                X.trimImaginaryPart();
+            }
+            let nb = MatrixBatchHelper.getBatchSize(batchShape);
+            let reX = X.realData;
+            let imX = isComplex ? X.imagData : [];
+            let ps: DataBlock[] = [];
+            let signs: number[] = [];
+            for (let k = 0;k < nb;k++) {
+                let p = DataHelper.allocateInt32Array(m);
+                let reBlock = MatrixBatchHelper.getBlock(reX, k, m * m);
+                if (norms) {
+                    norms.push(isComplex
+                        ? NormFunction.cmat1Norm(m, m, reBlock, MatrixBatchHelper.getBlock(imX, k, m * m))
+                        : NormFunction.mat1Norm(m, m, reBlock));
+                }
+                signs.push(isComplex
+                    ? LU.clu(m, reBlock, MatrixBatchHelper.getBlock(imX, k, m * m), p)
+                    : LU.lu(m, reBlock, p));
+                ps.push(p);
+            }
+            return [X, ps, signs, batchShape, m];
+        }
+
+        /**
+         * Reports a singular or nearly singular matrix according to the
+         * singularMatrix option.
+         * @param rcond Estimated reciprocal condition number.
+         * @param m Size of the matrices. Empty matrices are never reported.
+         */
+        const checkSingular = (rcond: number, m: number): void => {
+            if (m === 0 || !(rcond < EPSILON)) {
+                return;
+            }
+            let message = rcond === 0
+                ? 'Matrix is singular to working precision.'
+                : 'Matrix is close to singular or badly scaled. Results may be inaccurate. RCOND = '
+                    + rcond.toExponential(6) + '.';
+            if (singularMatrixAction === 'error') {
+                throw new Error(message);
+            }
+            onWarning(message);
+        };
+
+        /**
+         * Estimates the reciprocal 1-norm condition number of the k-th matrix
+         * in a batch of compact LU decompositions.
+         */
+        const rcondBatchedLU = (X: Tensor, ps: DataBlock[], norms: number[], m: number, k: number): number => {
+            return ConditionEstimator.rcondLU(LU, m, norms[k],
+                MatrixBatchHelper.getBlock(X.realData, k, m * m),
+                X.hasComplexStorage() ? MatrixBatchHelper.getBlock(X.imagData, k, m * m) : [],
+                ps[k]);
+        };
+
+        /**
+         * Computes the inverses from a batch of compact LU decompositions.
+         */
+        const invertBatchedLU = (X: Tensor, ps: DataBlock[], batchShape: number[], m: number): Tensor => {
+            let B = Tensor.zeros(batchShape.concat([m, m]));
+            let isComplex = X.hasComplexStorage();
+            if (isComplex) {
                 B.ensureComplexStorage();
-                LU.cluSolve(m, m, X.realData, X.imagData, p, B.realData, B.imagData);
-            } else {
-                LU.luSolve(m, m, X.realData, p, B.realData);
+            }
+            let reB = B.realData;
+            for (let k = 0;k < ps.length;k++) {
+                let reBlock = MatrixBatchHelper.getBlock(reB, k, m * m);
+                for (let i = 0;i < m;i++) {
+                    reBlock[i * m + i] = 1;
+                }
+                if (isComplex) {
+                    LU.cluSolve(m, m, MatrixBatchHelper.getBlock(X.realData, k, m * m),
+                        MatrixBatchHelper.getBlock(X.imagData, k, m * m), ps[k],
+                        reBlock, MatrixBatchHelper.getBlock(B.imagData, k, m * m));
+                } else {
+                    LU.luSolve(m, m, MatrixBatchHelper.getBlock(X.realData, k, m * m), ps[k], reBlock);
+                }
             }
             return B;
+        };
+
+        function opInv(x: OpInput): Tensor {
+            if (singularMatrixAction === 'none') {
+                let [X, ps, , batchShape, m] = doBatchedCompactLU(x);
+                return invertBatchedLU(X, ps, batchShape, m);
+            }
+            let norms: number[] = [];
+            let [X, ps, , batchShape, m] = doBatchedCompactLU(x, norms);
+            let rcond = Infinity;
+            for (let k = 0;k < ps.length;k++) {
+                rcond = Math.min(rcond, rcondBatchedLU(X, ps, norms, m, k));
+            }
+            checkSingular(rcond, m);
+            return invertBatchedLU(X, ps, batchShape, m);
         }
 
-        function opDet(x: OpInput): Scalar {
-            let [X, , sign] = doCompactLU(x);
-            let m = X.shape[0];
+        function opDet(x: OpInput): OpOutput {
+            let [X, , signs, batchShape, m] = doBatchedCompactLU(x);
+            let isComplex = X.hasComplexStorage();
             let reX = X.realData;
-            let accRe = 1;
+            let imX = isComplex ? X.imagData : [];
+            let nb = signs.length;
+            let reD = DataHelper.allocateFloat64Array(nb);
+            let imD = DataHelper.allocateFloat64Array(nb);
             let tmp: number;
-            if (X.hasComplexStorage()) {
-                let imX = X.imagData;
-                let accIm = 0;
-                for (let i = 0;i < m;i++) {
-                    tmp = accRe;
-                    accRe = accRe * reX[i * m + i] - accIm * imX[i * m + i];
-                    accIm = tmp * imX[i * m + i] + accIm * reX[i * m + i];
+            for (let k = 0;k < nb;k++) {
+                let offset = k * m * m;
+                let accRe = 1, accIm = 0;
+                if (isComplex) {
+                    for (let i = 0;i < m;i++) {
+                        let d = offset + i * m + i;
+                        tmp = accRe;
+                        accRe = accRe * reX[d] - accIm * imX[d];
+                        accIm = tmp * imX[d] + accIm * reX[d];
+                    }
+                } else {
+                    for (let i = 0;i < m;i++) {
+                        accRe *= reX[offset + i * m + i];
+                    }
                 }
-                accRe *= sign;
-                accIm *= sign;
-                return accIm === 0 ? accRe : new ComplexNumber(accRe, accIm);
-            } else {
-                for (let i = 0;i < m;i++) {
-                    accRe *= reX[i * m + i];
+                reD[k] = accRe * signs[k];
+                imD[k] = accIm * signs[k];
+            }
+            if (batchShape.length === 0) {
+                return imD[0] === 0 ? reD[0] : new ComplexNumber(reD[0], imD[0]);
+            }
+            let D = Tensor.zeros(batchShape);
+            let reOut = D.realData;
+            for (let k = 0;k < nb;k++) {
+                reOut[k] = reD[k];
+            }
+            if (isComplex) {
+                D.ensureComplexStorage();
+                let imOut = D.imagData;
+                for (let k = 0;k < nb;k++) {
+                    imOut[k] = imD[k];
                 }
-                accRe *= sign;
-                return accRe;
             }
+            return D;
         }
 
-        const opQr = (x: OpInput): [Tensor, Tensor, Tensor] => {
+        function opQr(x: OpInput, options?: QROptions & { pivoting?: true, rOnly?: false }): [Tensor, Tensor, Tensor];
+        function opQr(x: OpInput, options: QROptions & { pivoting: false, rOnly?: false }): [Tensor, Tensor];
+        function opQr(x: OpInput, options: QROptions & { pivoting?: true, rOnly: true }): [Tensor, Tensor];
+        function opQr(x: OpInput, options: QROptions & { pivoting: false, rOnly: true }): Tensor;
+        function opQr(x: OpInput, options: QROptions = {}): Tensor | [Tensor, Tensor] | [Tensor, Tensor, Tensor] {
+            let batch = toMatrixBatch(x);
+            if (batch) {
+                return <Tensor | [Tensor, Tensor] | [Tensor, Tensor, Tensor]>mapMatrixBatch([batch],
+                    // the outputs are determined by the options at runtime
+                    // so any of the overloads can be used here
+                    ([Xk]) => opQr(Xk, <QROptions & { pivoting: false, rOnly: true }>options));
+            }
+            let economy = options.economy === true;
+            let pivoting = options.pivoting !== false;
+            let rOnly = options.rOnly === true;
             let X = x instanceof Tensor ? x.asType(DType.FLOAT64, true) : Tensor.toTensor(x);
             let shapeX = X.shape;
             if (shapeX.length !== 2) {
                 throw new Error('Matrix expected.');
             }
-            let Q = Tensor.zeros([shapeX[0], shapeX[0]]);
-            let P = Tensor.zeros([shapeX[1], shapeX[1]]);
+            let [m, n] = shapeX;
+            let l = Math.min(m, n);
+            let Q = Tensor.zeros([m, economy ? l : m]);
+            let P = Tensor.zeros([n, n]);
             if (X.hasNonZeroComplexStorage()) {
+                if (rOnly) {
+                    QR.cqr(m, n, X.realData, X.imagData, [], [], P.realData, pivoting, economy);
+                } else {
+                    Q.ensureComplexStorage();
+                    QR.cqr(m, n, X.realData, X.imagData, Q.realData, Q.imagData, P.realData, pivoting, economy);
+                }
+            } else {
+                QR.qr(m, n, X.realData, rOnly ? [] : Q.realData, P.realData, pivoting, economy);
+            }
+            let R = X;
+            if (economy && m > n) {
+                // keep the first n rows
+                R = Tensor.zeros([l, n]);
+                let reX = X.realData;
+                let reR = R.realData;
+                for (let i = 0;i < l * n;i++) {
+                    reR[i] = reX[i];
+                }
+                if (X.hasComplexStorage()) {
+                    R.ensureComplexStorage();
+                    let imX = X.imagData;
+                    let imR = R.imagData;
+                    for (let i = 0;i < l * n;i++) {
+                        imR[i] = imX[i];
+                    }
+                }
+            }
+            if (rOnly) {
+                return pivoting ? [R, P] : R;
+            } else {
+                return pivoting ? [Q, R, P] : [Q, R];
+            }
+        }
+
+        /**
+         * Makes copies of the factors of a full QR decomposition and
+         * validates their shapes.
+         * @returns [Q, R, number of rows, number of columns]
+         */
+        const copyQRFactors = (q: OpInput, r: OpInput): [Tensor, Tensor, number, number] => {
+            let Q = q instanceof Tensor ? q.asType(DType.FLOAT64, true) : Tensor.toTensor(q);
+            let R = r instanceof Tensor ? r.asType(DType.FLOAT64, true) : Tensor.toTensor(r);
+            if (Q.ndim !== 2 || R.ndim !== 2) {
+                throw new Error('Matrix expected.');
+            }
+            let [m, n] = R.shape;
+            if (Q.shape[0] !== m || Q.shape[1] !== m) {
+                throw new Error('Q must be a square matrix whose size matches the number of rows of R.');
+            }
+            return [Q, R, m, n];
+        };
+
+        /**
+         * Converts the input to a vector of the specified length.
+         */
+        const toQRUpdateVector = (x: OpInput, length: number, name: string): Tensor => {
+            let X = x instanceof Tensor ? x.asType(DType.FLOAT64) : Tensor.toTensor(x);
+            if (X.size !== length) {
+                throw new Error(`The length of ${name} must be ${length}.`);
+            }
+            return X;
+        };
+
+        const opQrUpdate = (q: OpInput, r: OpInput, u: OpInput, v: OpInput): [Tensor, Tensor] => {
+            let [Q, R, m, n] = copyQRFactors(q, r);
+            let U = toQRUpdateVector(u, m, 'u');
+            let V = toQRUpdateVector(v, n, 'v');
+            if (Q.hasNonZeroComplexStorage() || R.hasNonZeroComplexStorage() ||
+                U.hasNonZeroComplexStorage() || V.hasNonZeroComplexStorage()) {
+                Q.ensureComplexStorage();
+                R.ensureComplexStorage();
+                QRUpdateFunction.update(m, n, Q.realData, Q.imagData, R.realData, R.imagData,
+                    U.realData, U.hasComplexStorage() ? U.imagData : DataHelper.allocateFloat64Array(m),
+                    V.realData, V.hasComplexStorage() ? V.imagData : DataHelper.allocateFloat64Array(n));
+            } else {
+                Q.trimImaginaryPart();
+                R.trimImaginaryPart();
+                QRUpdateFunction.update(m, n, Q.realData, undefined, R.realData, undefined,
+                    U.realData, undefined, V.realData, undefined);
+            }
+            return [Q, R];
+        };
+
+        const opQrInsert = (q: OpInput, r: OpInput, j: number, x: OpInput, orient: 'col' | 'row' = 'col'): [Tensor, Tensor] => {
+            let [Q, R, m, n] = copyQRFactors(q, r);
+            let isRow = orient === 'row';
+            if (!isRow && orient !== 'col') {
+                throw new Error(`Invalid orientation "${orient}".`);
+            }
+            if (j < 0 || j > (isRow ? m : n) || Math.floor(j) !== j) {
+                throw new Error(`Invalid insertion index ${j}.`);
+            }
+            let X = toQRUpdateVector(x, isRow ? n : m, 'x');
+            let isComplex = Q.hasNonZeroComplexStorage() || R.hasNonZeroComplexStorage() ||
+                X.hasNonZeroComplexStorage();
+            if (isComplex) {
+                Q.ensureComplexStorage();
+                R.ensureComplexStorage();
+            } else {
+                Q.trimImaginaryPart();
+                R.trimImaginaryPart();
+            }
+            let imX = isComplex
+                ? (X.hasComplexStorage() ? X.imagData : DataHelper.allocateFloat64Array(X.size))
+                : undefined;
+            let Q1 = isRow ? Tensor.zeros([m + 1, m + 1]) : Q;
+            let R1 = Tensor.zeros(isRow ? [m + 1, n] : [m, n + 1]);
+            if (isComplex) {
+                Q1.ensureComplexStorage();
+                R1.ensureComplexStorage();
+            }
+            if (isRow) {
+                QRUpdateFunction.insertRow(m, n, Q.realData, isComplex ? Q.imagData : undefined,
+                    R.realData, isComplex ? R.imagData : undefined, j, X.realData, imX,
+                    Q1.realData, isComplex ? Q1.imagData : undefined,
+                    R1.realData, isComplex ? R1.imagData : undefined);
+            } else {
+                QRUpdateFunction.insertColumn(m, n, Q.realData, isComplex ? Q.imagData : undefined,
+                    R.realData, isComplex ? R.imagData : undefined, j, X.realData, imX,
+                    R1.realData, isComplex ? R1.imagData : undefined);
+            }
+            return [Q1, R1];
+        };
+
+        const opQrDelete = (q: OpInput, r: OpInput, j: number, orient: 'col' | 'row' = 'col'): [Tensor, Tensor] => {
+            let [Q, R, m, n] = copyQRFactors(q, r);
+            let isRow = orient === 'row';
+            if (!isRow && orient !== 'col') {
+                throw new Error(`Invalid orientation "${orient}".`);
+            }
+            if (j < 0 || j >= (isRow ? m : n) || Math.floor(j) !== j) {
+                throw new Error(`Invalid deletion index ${j}.`);
+            }
+            if ((isRow ? m : n) === 1) {
+                throw new Error(`Cannot delete the only ${isRow ? 'row' : 'column'}.`);
+            }
+            let isComplex = Q.hasNonZeroComplexStorage() || R.hasNonZeroComplexStorage();
+            if (isComplex) {
                 Q.ensureComplexStorage();
-                QR.cqr(shapeX[0], shapeX[1], X.realData, X.imagData, Q.realData, Q.imagData, P.realData);
+                R.ensureComplexStorage();
+            } else {
+                Q.trimImaginaryPart();
+                R.trimImaginaryPart();
+            }
+            let Q1 = isRow ? Tensor.zeros([m - 1, m - 1]) : Q;
+            let R1 = Tensor.zeros(isRow ? [m - 1, n] : [m, n - 1]);
+            if (isComplex) {
+                Q1.ensureComplexStorage();
+                R1.ensureComplexStorage();
+            }
+            if (isRow) {
+                QRUpdateFunction.deleteRow(m, n, Q.realData, isComplex ? Q.imagData : undefined,
+                    R.realData, isComplex ? R.imagData : undefined, j,
+                    Q1.realData, isComplex ? Q1.imagData : undefined,
+                    R1.realData, isComplex ? R1.imagData : undefined);
             } else {
-                QR.qr(shapeX[0], shapeX[1], X.realData, Q.realData, P.realData);
+                QRUpdateFunction.deleteColumn(m, n, Q.realData, isComplex ? Q.imagData : undefined,
+                    R.realData, isComplex ? R.imagData : undefined, j,
+                    R1.realData, isComplex ? R1.imagData : undefined);
             }
-            return [Q, X, P];
+            return [Q1, R1];
         };
 
         function opSvd(x: OpInput, svOnly?: false): [Tensor, Tensor, Tensor];
         function opSvd(x: OpInput, svOnly: true): Tensor;
         function opSvd(x: OpInput, svOnly: boolean = false): Tensor | [Tensor, Tensor, Tensor] {
+            let batch = toMatrixBatch(x);
+            if (batch) {
+                return <Tensor | [Tensor, Tensor, Tensor]>mapMatrixBatch([batch],
+                    ([Xk]) => svOnly ? opSvd(Xk, true) : opSvd(Xk));
+            }
             // We need to make a copy here because svd procedure will override
             // the original matrix.
             let X = x instanceof Tensor ? x.asType(DType.FLOAT64, true) : Tensor.toTensor(x);
@@ -695,19 +1220,133 @@ export class MatrixOpProviderFactory implements IJasmalModuleFactory<IMatrixOpPr
             return r;
         }
 
-        const opCond = (x: OpInput): number => {
-            // We need to make a copy here because svd procedure will override
-            // the original matrix.
+        const opCond = (x: OpInput, p: number | 'fro' = 2): number => {
+            if (p === 2) {
+                // We need to make a copy here because svd procedure will
+                // override the original matrix.
+                let X = x instanceof Tensor ? x.asType(DType.FLOAT64, true) : Tensor.toTensor(x);
+                let shape = X.shape;
+                if (shape.length !== 2) {
+                    throw new Error('Matrix expected.');
+                }
+                let s = DataHelper.allocateFloat64Array(shape[1]);
+                if (X.hasNonZeroComplexStorage()) {
+                    Svd.csvd(shape[0], shape[1], false, X.realData, X.imagData, s, [], []);
+                } else {
+                    Svd.svd(shape[0], shape[1], false, X.realData, s, []);
+                }
+                return s[0] / s[Math.min(shape[0], shape[1]) - 1];
+            }
+            if (p !== 1 && p !== Infinity && p !== 'fro') {
+                throw new Error('p must be 1, 2, Infinity or "fro".');
+            }
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            if (X.ndim !== 2) {
+                throw new Error('Matrix expected.');
+            }
+            let [LUX, ps, , , m] = doBatchedCompactLU(X);
+            let reLU = LUX.realData;
+            let imLU = LUX.hasComplexStorage() ? LUX.imagData : undefined;
+            for (let i = 0;i < m;i++) {
+                if (reLU[i * m + i] === 0 && (!imLU || imLU[i * m + i] === 0)) {
+                    return Infinity;
+                }
+            }
+            return opNorm(X, p) * opNorm(invertBatchedLU(LUX, ps, [], m), p);
+        };
+
+        const opRcond = (x: OpInput): number => {
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            if (X.ndim !== 2) {
+                throw new Error('Matrix expected.');
+            }
+            let norms: number[] = [];
+            let [LUX, ps, , , m] = doBatchedCompactLU(X, norms);
+            return rcondBatchedLU(LUX, ps, norms, m, 0);
+        };
+
+        const opCondest = (x: OpInput | SparseMatrix): number => {
+            if (!(x instanceof SparseMatrix)) {
+                return 1 / opRcond(x);
+            }
+            if (x.hasComplexStorage()) {
+                return 1 / opRcond(x.toDense());
+            }
+            let n = toRealSparseSquareMatrix(x);
+            if (n === 0) {
+                return 0;
+            }
+            // 1-norm from the column sums
+            let a = x.asFormat('csc');
+            let indptr = a.indptr, re = a.realData;
+            let aNorm = 0;
+            for (let j = 0;j < n;j++) {
+                let s = 0;
+                for (let k = indptr[j];k < indptr[j + 1];k++) {
+                    s += Math.abs(re[k]);
+                }
+                aNorm = Math.max(aNorm, s);
+            }
+            if (aNorm === 0) {
+                return Infinity;
+            }
+            let solve = createInverseOperator(x, false);
+            let solveT: MatVecFunction | undefined;
+            let y = DataHelper.allocateFloat64Array(n);
+            let est = ConditionEstimator.estimateInverse1Norm(n, false, (reX, _imX, hermitian) => {
+                if (hermitian) {
+                    solveT = solveT || createInverseOperator(x, true);
+                    solveT(reX, y);
+                } else {
+                    solve(reX, y);
+                }
+                DataHelper.copy(y, reX);
+            });
+            return aNorm * est;
+        };
+
+        /**
+         * Computes the SVD of a matrix and determines its numerical rank.
+         * @param tol (Optional) Singular values not greater than tol are
+         *            treated as zero. Default value is
+         *            max(m, n) * eps * s_max.
+         * @returns [U, V, r] where U is m x min(m, n), V is n x n, and r is
+         *          the numerical rank.
+         */
+        const svdWithRank = (x: OpInput, tol?: number): [Tensor, Tensor, number] => {
             let X = x instanceof Tensor ? x.asType(DType.FLOAT64, true) : Tensor.toTensor(x);
-            let shape = X.shape;
-            let s = DataHelper.allocateFloat64Array(shape[1]);
+            if (X.ndim !== 2) {
+                throw new Error('Matrix expected.');
+            }
+            let [m, n] = X.shape;
+            let s = DataHelper.allocateFloat64Array(n);
+            let V = Tensor.zeros([n, n]);
             if (X.hasNonZeroComplexStorage()) {
-                Svd.csvd(shape[0], shape[1], false, X.realData, X.imagData, s, [], []);
+                V.ensureComplexStorage();
+                Svd.csvd(m, n, true, X.realData, X.imagData, s, V.realData, V.imagData);
             } else {
-                Svd.svd(shape[0], shape[1], false, X.realData, s, []);
+                X.trimImaginaryPart();
+                Svd.svd(m, n, true, X.realData, s, V.realData);
             }
-            return s[0] / s[s.length - 1];
-        }
+            let ns = Math.min(m, n);
+            tol = tol == undefined ? Math.max(m, n) * EPSILON * s[0] : tol;
+            let r = 0;
+            while (r < ns && s[r] > tol) {
+                r++;
+            }
+            return [ns < n ? <Tensor>X.get(':', ':' + ns, true) : X, V, r];
+        };
+
+        const opNull = (x: OpInput, tol?: number): Tensor => {
+            let [, V, r] = svdWithRank(x, tol);
+            let n = V.shape[0];
+            return r === n ? Tensor.zeros([n, 0]) : <Tensor>V.get(':', r + ':', true);
+        };
+
+        const opOrth = (x: OpInput, tol?: number): Tensor => {
+            let [U, , r] = svdWithRank(x, tol);
+            return r === 0 ? Tensor.zeros([U.shape[0], 0]) : <Tensor>U.get(':', ':' + r, true);
+        };
 
         const opPinv = (x: OpInput, tol?: number): Tensor => {
             // We need to make a copy here because svd procedure will override
@@ -745,33 +1384,221 @@ export class MatrixOpProviderFactory implements IJasmalModuleFactory<IMatrixOpPr
             return opMatMul(Z, X.get(':',':' + r, true), MatrixModifier.Hermitian);
         };
 
-        function opEig(x: OpInput, evOnly?: false): [Tensor, Tensor];
-        function opEig(x: OpInput, evOnly: true): Tensor;
-        function opEig(x: OpInput, evOnly: boolean = false): Tensor | [Tensor, Tensor] {
-            let X: Tensor;
-            // We need to keep track of this because the eigendecomposition
-            // subroutine for real symmetric matrices does not override the
-            // input matrix.
-            let needExtraCopy = false;
-            if (x instanceof Tensor) {
-                X = x;
-                if (X.dtype !== DType.FLOAT64) {
-                    // make sure the dtype is correct
-                    X = X.asType(DType.FLOAT64);
-                } else {
-                    needExtraCopy = true;
+        /**
+         * Converts the inputs of least squares solvers to matrices and applies
+         * the weights by scaling the rows of A and B with sqrt(w).
+         * @returns [A, B, whether b is a vector] where A and B are copies.
+         */
+        const prepareLeastSquares = (a: OpInput, b: OpInput, weights?: OpInput): [Tensor, Tensor, boolean] => {
+            let A = a instanceof Tensor ? a.asType(DType.FLOAT64, true) : Tensor.toTensor(a);
+            let B = b instanceof Tensor ? b.asType(DType.FLOAT64, true) : Tensor.toTensor(b);
+            if (A.ndim !== 2) {
+                throw new Error('Matrix expected.');
+            }
+            let isBVector = B.ndim === 1;
+            if (isBVector) {
+                B.reshape([-1, 1]);
+            } else if (B.ndim !== 2) {
+                throw new Error('b should be a vector or a matrix.');
+            }
+            let m = A.shape[0];
+            if (B.shape[0] !== m) {
+                throw new Error('The number of rows in A must match that in B.');
+            }
+            if (weights != undefined) {
+                let W = weights instanceof Tensor ? weights.asType(DType.FLOAT64) : Tensor.toTensor(weights);
+                if (W.hasNonZeroComplexStorage() || W.size !== m) {
+                    throw new Error(`Weights must be a real vector of length ${m}.`);
+                }
+                let reW = W.realData;
+                let sqrtW = DataHelper.allocateFloat64Array(m);
+                for (let i = 0;i < m;i++) {
+                    if (!(reW[i] >= 0)) {
+                        throw new Error('Weights must be nonnegative.');
+                    }
+                    sqrtW[i] = Math.sqrt(reW[i]);
+                }
+                for (let X of [A, B]) {
+                    let n = X.shape[1];
+                    let reX = X.realData;
+                    let imX = X.hasComplexStorage() ? X.imagData : undefined;
+                    for (let i = 0;i < m;i++) {
+                        for (let j = 0;j < n;j++) {
+                            reX[i * n + j] *= sqrtW[i];
+                            if (imX) {
+                                imX[i * n + j] *= sqrtW[i];
+                            }
+                        }
+                    }
                 }
+            }
+            return [A, B, isBVector];
+        };
+
+        /**
+         * Computes the truncated SVD A = U_r S_r V_r^H for least squares
+         * solvers, where singular values not greater than rcond * s_max are
+         * discarded. A will be overwritten.
+         * @returns [U_r, all min(m, n) singular values, V_r, r]. U_r and V_r
+         *          are undefined if r = 0.
+         */
+        const truncatedSvd = (A: Tensor, rcond: number): [Tensor | undefined, number[], Tensor | undefined, number] => {
+            let [m, n] = A.shape;
+            let s: number[] = new Array(n);
+            let V = Tensor.zeros([n, n]);
+            if (A.hasNonZeroComplexStorage()) {
+                V.ensureComplexStorage();
+                Svd.csvd(m, n, true, A.realData, A.imagData, s, V.realData, V.imagData);
             } else {
-                X = Tensor.toTensor(x);
+                Svd.svd(m, n, true, A.realData, s, V.realData);
+                A.trimImaginaryPart();
             }
-            let shapeX = X.shape;
-            if (X.ndim !== 2 || shapeX[0] !== shapeX[1]) {
-                throw new Error('Square matrix expected.');
+            s = s.slice(0, Math.min(m, n));
+            let tol = rcond * s[0];
+            let r = 0;
+            while (r < s.length && s[r] > tol) {
+                r++;
             }
-            let E: Tensor | undefined;
-            let v = Tensor.zeros([shapeX[0]]);
-            if (X.hasNonZeroComplexStorage()) {
-                X = needExtraCopy ? X.copy(true) : X;
+            if (r === 0) {
+                return [undefined, s, undefined, 0];
+            }
+            return [<Tensor>A.get(':', ':' + r, true), s, <Tensor>V.get(':', ':' + r, true), r];
+        };
+
+        const opLstsq = (a: OpInput, b: OpInput, options: LstsqOptions = {}): [Tensor, Tensor, number, Tensor] => {
+            let [A, B, isBVector] = prepareLeastSquares(a, b, options.weights);
+            let [m, n] = A.shape;
+            let p = B.shape[1];
+            let rcond = options.rcond == undefined ? EPSILON * Math.max(m, n) : options.rcond;
+            // The SVD overwrites A so we keep a copy for the residuals.
+            let A0 = A.asType(DType.FLOAT64, true);
+            let [U, s, V, r] = truncatedSvd(A, rcond);
+            let X: Tensor;
+            if (U == undefined || V == undefined) {
+                X = Tensor.zeros([n, p]);
+            } else {
+                // X = V_r S_r^{-1} U_r^H B
+                let sInv = s.slice(0, r).map(v => 1.0 / v);
+                X = opMatMul(arithmOp.mul(V, sInv), opMatMul(opHermitian(U), B));
+            }
+            // squared 2-norms of the columns of B - AX
+            let R = <Tensor>arithmOp.sub(B, opMatMul(A0, X));
+            let residuals = Tensor.zeros([p]);
+            let reR = R.realData;
+            let imR = R.hasComplexStorage() ? R.imagData : undefined;
+            let reRes = residuals.realData;
+            for (let i = 0;i < m;i++) {
+                for (let j = 0;j < p;j++) {
+                    reRes[j] += reR[i * p + j] * reR[i * p + j];
+                    if (imR) {
+                        reRes[j] += imR[i * p + j] * imR[i * p + j];
+                    }
+                }
+            }
+            if (isBVector) {
+                X.reshape([n]);
+            }
+            return [X, residuals, r, Tensor.fromArray(s)];
+        };
+
+        const opLsqnonneg = (c: OpInput, d: OpInput, options: LsqnonnegOptions = {}): [Tensor, number, Tensor, number] => {
+            let C = c instanceof Tensor ? c.asType(DType.FLOAT64) : Tensor.toTensor(c);
+            let D = d instanceof Tensor ? d.asType(DType.FLOAT64) : Tensor.toTensor(d);
+            if (C.ndim !== 2) {
+                throw new Error('Matrix expected.');
+            }
+            if (C.hasNonZeroComplexStorage() || D.hasNonZeroComplexStorage()) {
+                throw new Error('Complex inputs are not supported.');
+            }
+            let [m, n] = C.shape;
+            if (D.size !== m) {
+                throw new Error('The length of d must match the number of rows in C.');
+            }
+            let tol = options.tol == undefined
+                ? 10 * EPSILON * NormFunction.mat1Norm(m, n, C.realData) * Math.max(m, n)
+                : options.tol;
+            let maxIter = options.maxIter == undefined ? 3 * n : options.maxIter;
+            let X = Tensor.zeros([n]);
+            let R = Tensor.zeros([m]);
+            let [flag, ] = ConstrainedLeastSquares.lsqnonneg(QR, m, n, C.realData, D.realData,
+                X.realData, R.realData, tol, maxIter);
+            let reR = R.realData;
+            let resnorm = 0;
+            for (let i = 0;i < m;i++) {
+                resnorm += reR[i] * reR[i];
+            }
+            return [X, resnorm, R, flag];
+        };
+
+        const opRidge = (a: OpInput, b: OpInput, lambda: number | number[], options: LstsqOptions = {}): Tensor => {
+            let [A, B, isBVector] = prepareLeastSquares(a, b, options.weights);
+            let [m, n] = A.shape;
+            let p = B.shape[1];
+            let lambdas = typeof lambda === 'number' ? [lambda] : lambda;
+            for (let i = 0;i < lambdas.length;i++) {
+                if (!(lambdas[i] >= 0)) {
+                    throw new Error('Regularization parameters must be nonnegative.');
+                }
+            }
+            let rcond = options.rcond == undefined ? EPSILON * Math.max(m, n) : options.rcond;
+            let shapeX = isBVector ? [n] : [n, p];
+            let Y = Tensor.zeros(typeof lambda === 'number' ? shapeX : [lambdas.length].concat(shapeX));
+            let [U, s, V, r] = truncatedSvd(A, rcond);
+            if (U == undefined || V == undefined) {
+                return Y;
+            }
+            // The SVD is shared by all lambdas:
+            //  X = V_r diag(s_i / (s_i^2 + lambda)) U_r^H B
+            let C = opMatMul(opHermitian(U), B);
+            let isComplex = C.hasNonZeroComplexStorage() || V.hasNonZeroComplexStorage();
+            if (isComplex) {
+                Y.ensureComplexStorage();
+            }
+            let reY = Y.realData;
+            let imY = isComplex ? Y.imagData : undefined;
+            let size = n * p;
+            for (let k = 0;k < lambdas.length;k++) {
+                let f = s.slice(0, r).map(v => v / (v * v + lambdas[k]));
+                let X = opMatMul(arithmOp.mul(V, f), C);
+                let reX = X.realData;
+                for (let i = 0;i < size;i++) {
+                    reY[k * size + i] = reX[i];
+                }
+                if (imY && X.hasComplexStorage()) {
+                    let imX = X.imagData;
+                    for (let i = 0;i < size;i++) {
+                        imY[k * size + i] = imX[i];
+                    }
+                }
+            }
+            return Y;
+        };
+
+        const eigStandard = (x: OpInput, evOnly: boolean): Tensor | [Tensor, Tensor] => {
+            let X: Tensor;
+            // We need to keep track of this because the eigendecomposition
+            // subroutine for real symmetric matrices does not override the
+            // input matrix.
+            let needExtraCopy = false;
+            if (x instanceof Tensor) {
+                X = x;
+                if (X.dtype !== DType.FLOAT64) {
+                    // make sure the dtype is correct
+                    X = X.asType(DType.FLOAT64);
+                } else {
+                    needExtraCopy = true;
+                }
+            } else {
+                X = Tensor.toTensor(x);
+            }
+            let shapeX = X.shape;
+            if (X.ndim !== 2 || shapeX[0] !== shapeX[1]) {
+                throw new Error('Square matrix expected.');
+            }
+            let E: Tensor | undefined;
+            let v = Tensor.zeros([shapeX[0]]);
+            if (X.hasNonZeroComplexStorage()) {
+                X = needExtraCopy ? X.copy(true) : X;
                 // Hermitian check
                 if (opIsHermitian(X)) {
                     if (evOnly) {
@@ -819,7 +1646,148 @@ export class MatrixOpProviderFactory implements IJasmalModuleFactory<IMatrixOpPr
             return evOnly ? v : [<Tensor>E, opDiag(v)];
         };
 
-        const opChol = (x: OpInput): Tensor => {
+        const eigGeneralized = (a: OpInput, b: OpInput, evOnly: boolean): Tensor | [Tensor, Tensor] => {
+            let A = toSquareMatrix(a);
+            let B = toSquareMatrix(b);
+            if (A.shape[0] !== B.shape[0]) {
+                throw new Error('a and b must have the same shape.');
+            }
+            let n = A.shape[0];
+            // Symmetric-definite pencil: reduce to a standard Hermitian
+            // problem using the Cholesky decomposition B = L L^H.
+            let L = opIsHermitian(A) && opIsHermitian(B) ? cholOrUndefined(B) : undefined;
+            if (L) {
+                // C = L^{-1} A L^{-H}
+                let C = opHermitian(opLinsolve(L, opHermitian(opLinsolve(L, A))));
+                // Removes the asymmetry introduced by round-off errors so
+                // that the Hermitian solver is picked up.
+                C = <Tensor>arithmOp.mul(arithmOp.add(C, opHermitian(C)), 0.5);
+                if (evOnly) {
+                    return eigStandard(C, true);
+                }
+                let [Y, D] = <[Tensor, Tensor]>eigStandard(C, false);
+                // E = L^{-H} Y so that E^H B E = I
+                return [opLinsolve(opHermitian(L), Y), D];
+            }
+            // General case: QZ algorithm.
+            let isInputComplex = A.hasNonZeroComplexStorage() || B.hasNonZeroComplexStorage();
+            A = A.asType(DType.FLOAT64, true);
+            A.ensureComplexStorage();
+            B = B.asType(DType.FLOAT64, true);
+            B.ensureComplexStorage();
+            let normA = NormFunction.cvec2Norm(A.realData, A.imagData);
+            let normB = NormFunction.cvec2Norm(B.realData, B.imagData);
+            let alpha = Tensor.zeros([n]);
+            alpha.ensureComplexStorage();
+            let beta = Tensor.zeros([n]);
+            beta.ensureComplexStorage();
+            let E: Tensor | undefined;
+            if (evOnly) {
+                QZ.cqz(n, A.realData, A.imagData, B.realData, B.imagData, alpha.realData, alpha.imagData,
+                    beta.realData, beta.imagData, false, [], []);
+            } else {
+                E = Tensor.zeros([n, n]);
+                E.ensureComplexStorage();
+                QZ.cqz(n, A.realData, A.imagData, B.realData, B.imagData, alpha.realData, alpha.imagData,
+                    beta.realData, beta.imagData, true, E.realData, E.imagData);
+            }
+            let v = Tensor.zeros([n]);
+            v.ensureComplexStorage();
+            let reV = v.realData, imV = v.imagData;
+            let reAlpha = alpha.realData, imAlpha = alpha.imagData;
+            let reBeta = beta.realData, imBeta = beta.imagData;
+            let tol = 10 * n * EPSILON * normA * normB;
+            let isReal = DataHelper.allocateInt32Array(n);
+            for (let k = 0;k < n;k++) {
+                if (reBeta[k] === 0 && imBeta[k] === 0) {
+                    // infinite eigenvalue
+                    reV[k] = (reAlpha[k] === 0 && imAlpha[k] === 0) ? NaN : Infinity;
+                    imV[k] = 0;
+                    isReal[k] = 1;
+                } else {
+                    [reV[k], imV[k]] = CMath.cdivCC(reAlpha[k], imAlpha[k], reBeta[k], imBeta[k]);
+                    // For real pencils, an eigenvalue is real if Im(alpha conj(beta))
+                    // is negligible.
+                    if (!isInputComplex &&
+                        Math.abs(imAlpha[k] * reBeta[k] - reAlpha[k] * imBeta[k]) <= tol) {
+                        imV[k] = 0;
+                        isReal[k] = 1;
+                    }
+                }
+            }
+            if (E) {
+                // Normalizes each eigenvector to unit 2-norm with its largest
+                // component being real and positive.
+                let reE = E.realData, imE = E.imagData;
+                for (let k = 0;k < n;k++) {
+                    let maxAbs = 0, s = 0, l = 0;
+                    for (let i = 0;i < n;i++) {
+                        let a = CMath.length2(reE[i * n + k], imE[i * n + k]);
+                        s += a * a;
+                        if (a > maxAbs) {
+                            maxAbs = a;
+                            l = i;
+                        }
+                    }
+                    if (maxAbs === 0) {
+                        continue;
+                    }
+                    s = Math.sqrt(s);
+                    // (cr - i ci) / s
+                    let cr = reE[l * n + k] / maxAbs / s;
+                    let ci = -imE[l * n + k] / maxAbs / s;
+                    for (let i = 0;i < n;i++) {
+                        [reE[i * n + k], imE[i * n + k]] = CMath.cmul(reE[i * n + k], imE[i * n + k], cr, ci);
+                    }
+                    if (isReal[k] === 1) {
+                        // The eigenvector associated with a real eigenvalue of
+                        // a real pencil can be chosen to be real.
+                        s = 0;
+                        for (let i = 0;i < n;i++) {
+                            imE[i * n + k] = 0;
+                            s += reE[i * n + k] * reE[i * n + k];
+                        }
+                        s = Math.sqrt(s);
+                        for (let i = 0;i < n;i++) {
+                            reE[i * n + k] /= s;
+                        }
+                    }
+                }
+            }
+            if (!v.hasNonZeroComplexStorage()) {
+                v.trimImaginaryPart();
+            }
+            return evOnly ? v : [<Tensor>E, opDiag(v)];
+        };
+
+        function opEig(x: OpInput, evOnly?: false): [Tensor, Tensor];
+        function opEig(x: OpInput, evOnly: true): Tensor;
+        function opEig(a: OpInput, b: OpInput, evOnly?: false): [Tensor, Tensor];
+        function opEig(a: OpInput, b: OpInput, evOnly: true): Tensor;
+        function opEig(x: OpInput, y?: OpInput | boolean, evOnly: boolean = false): Tensor | [Tensor, Tensor] {
+            if (y === undefined || typeof y === 'boolean') {
+                let batch = toMatrixBatch(x);
+                if (batch) {
+                    return <Tensor | [Tensor, Tensor]>mapMatrixBatch([batch], ([Xk]) => eigStandard(Xk, y === true));
+                }
+                return eigStandard(x, y === true);
+            }
+            let batchA = toMatrixBatch(x);
+            let batchB = toMatrixBatch(y);
+            if (batchA || batchB) {
+                let A = batchA || (x instanceof Tensor ? x : Tensor.toTensor(x));
+                let B = batchB || (y instanceof Tensor ? y : Tensor.toTensor(y));
+                return <Tensor | [Tensor, Tensor]>mapMatrixBatch([A, B],
+                    ([Ak, Bk]) => eigGeneralized(Ak, Bk, evOnly));
+            }
+            return eigGeneralized(x, y, evOnly);
+        }
+
+        /**
+         * Computes the Cholesky decomposition. Returns undefined if the input
+         * matrix is not positive definite.
+         */
+        const cholOrUndefined = (x: OpInput): Tensor | undefined => {
             let X = opTril(x);
             if (X.dtype !== DType.FLOAT64) {
                 // make sure data type is correct
@@ -836,73 +1804,1152 @@ export class MatrixOpProviderFactory implements IJasmalModuleFactory<IMatrixOpPr
             } else {
                 p = Chol.chol(shapeX[0], X.realData);
             }
-            if (p !== 0) {
+            return p === 0 ? X : undefined;
+        };
+
+        const opChol = (x: OpInput): Tensor => {
+            let batch = toMatrixBatch(x);
+            if (batch) {
+                return <Tensor>mapMatrixBatch([batch], ([Xk]) => opChol(Xk));
+            }
+            let L = cholOrUndefined(x);
+            if (!L) {
                 throw new Error('Matrix is not positive definite.');
             }
-            return X;
+            return L;
+        };
+
+        /**
+         * Solves AX = B in place for a square matrix A with the specified
+         * structure, where X is initialized with B.
+         * @returns False if the structure specific solver fails, in which
+         *          case X is destroyed.
+         */
+        const solveStructured = (type: MatrixType, n: number, p: number, kl: number, ku: number,
+                                 reA: DataBlock, imA: DataBlock | undefined,
+                                 reX: DataBlock, imX: DataBlock | undefined): boolean => {
+            switch (type) {
+                case MatrixType.Diagonal:
+                    if (imA && imX) {
+                        Linsolve.solveDiagComplex(n, p, reA, imA, reX, imX);
+                    } else {
+                        Linsolve.solveDiagReal(n, p, reA, reX);
+                        if (imX) {
+                            Linsolve.solveDiagReal(n, p, reA, imX);
+                        }
+                    }
+                    return true;
+                case MatrixType.UpperTriangular:
+                case MatrixType.HermitianPositiveDefinite:
+                    // For Cholesky decompositions, the lower triangular part
+                    // of A stores L and the upper triangular part stores L^H.
+                    if (imA && imX) {
+                        if (type === MatrixType.HermitianPositiveDefinite) {
+                            Linsolve.solveLTComplex(n, p, reA, imA, reX, imX);
+                        }
+                        Linsolve.solveUTComplex(n, p, reA, imA, reX, imX);
+                    } else {
+                        for (let reXi of imX ? [reX, imX] : [reX]) {
+                            if (type === MatrixType.HermitianPositiveDefinite) {
+                                Linsolve.solveLTReal(n, p, reA, reXi);
+                            }
+                            Linsolve.solveUTReal(n, p, reA, reXi);
+                        }
+                    }
+                    return true;
+                case MatrixType.LowerTriangular:
+                    if (imA && imX) {
+                        Linsolve.solveLTComplex(n, p, reA, imA, reX, imX);
+                    } else {
+                        Linsolve.solveLTReal(n, p, reA, reX);
+                        if (imX) {
+                            Linsolve.solveLTReal(n, p, reA, imX);
+                        }
+                    }
+                    return true;
+                case MatrixType.Tridiagonal:
+                case MatrixType.Banded:
+                    // Both solvers destroy A so we work on copies.
+                    let useThomas = type === MatrixType.Tridiagonal &&
+                        MatrixStructure.isDiagonallyDominantTridiagonal(n, reA, imA);
+                    const copyA = (data: DataBlock): DataBlock => {
+                        let copy = DataHelper.allocateFloat64Array(n * n);
+                        for (let i = 0;i < n * n;i++) {
+                            copy[i] = data[i];
+                        }
+                        return copy;
+                    };
+                    const diagonal = (data: DataBlock, offset: number): DataBlock => {
+                        let d = DataHelper.allocateFloat64Array(n - Math.abs(offset));
+                        for (let i = 0;i < d.length;i++) {
+                            d[i] = offset >= 0 ? data[i * n + i + offset] : data[(i - offset) * n + i];
+                        }
+                        return d;
+                    };
+                    if (imA && imX) {
+                        return (useThomas
+                            ? Linsolve.solveTridiagComplex(n, p, diagonal(reA, -1), diagonal(imA, -1),
+                                diagonal(reA, 0), diagonal(imA, 0), diagonal(reA, 1), diagonal(imA, 1), reX, imX)
+                            : Linsolve.solveBandedComplex(n, kl, ku, p, copyA(reA), copyA(imA), reX, imX)) === 0;
+                    }
+                    for (let reXi of imX ? [reX, imX] : [reX]) {
+                        let info = useThomas
+                            ? Linsolve.solveTridiagReal(n, p, diagonal(reA, -1), diagonal(reA, 0), diagonal(reA, 1), reXi)
+                            : Linsolve.solveBandedReal(n, kl, ku, p, copyA(reA), reXi);
+                        if (info !== 0) {
+                            return false;
+                        }
+                    }
+                    return true;
+                default:
+                    return false;
+            }
         };
 
-        // TODO: Add support special structured matrices (e.g., diagonal, triangular)
-        const opLinsolve = (a: OpInput, b: OpInput): Tensor => {
+        /**
+         * Estimates the reciprocal 1-norm condition number of a square matrix
+         * A using the solver for its structure.
+         * @param aNorm 1-norm of A.
+         * @param reA Real part of A, or of its Cholesky factors if A is
+         *            Hermitian positive definite.
+         * @param imA Imaginary part of A (or of its Cholesky factors). Set it
+         *            to undefined if A is real.
+         * @returns The estimate, or NaN if the structure specific solver
+         *          fails.
+         */
+        const rcondStructured = (type: MatrixType, n: number, kl: number, ku: number, aNorm: number,
+                                 reA: DataBlock, imA: DataBlock | undefined): number => {
+            if (aNorm === 0) {
+                return 0;
+            }
+            if (type === MatrixType.Diagonal || type === MatrixType.UpperTriangular ||
+                type === MatrixType.LowerTriangular) {
+                for (let i = 0;i < n;i++) {
+                    if (reA[i * n + i] === 0 && (!imA || imA[i * n + i] === 0)) {
+                        return 0;
+                    }
+                }
+            }
+            // A^H is required unless A is Hermitian
+            let reAh: DataBlock | undefined;
+            let imAh: DataBlock | undefined;
+            let typeH = type === MatrixType.UpperTriangular
+                ? MatrixType.LowerTriangular
+                : (type === MatrixType.LowerTriangular ? MatrixType.UpperTriangular : type);
+            let success = true;
+            let est = ConditionEstimator.estimateInverse1Norm(n, imA != undefined, (reX, imX, hermitian) => {
+                if (hermitian && type !== MatrixType.HermitianPositiveDefinite) {
+                    if (!reAh) {
+                        reAh = DataHelper.allocateFloat64Array(n * n);
+                        imAh = imA ? DataHelper.allocateFloat64Array(n * n) : undefined;
+                        for (let i = 0;i < n;i++) {
+                            for (let j = 0;j < n;j++) {
+                                reAh[j * n + i] = reA[i * n + j];
+                                if (imA && imAh) {
+                                    imAh[j * n + i] = -imA[i * n + j];
+                                }
+                            }
+                        }
+                    }
+                    success = solveStructured(typeH, n, 1, ku, kl, reAh, imAh, reX, imA ? imX : undefined) && success;
+                } else {
+                    success = solveStructured(type, n, 1, kl, ku, reA, imA, reX, imA ? imX : undefined) && success;
+                }
+            });
+            return success ? 1 / (aNorm * est) : NaN;
+        };
+
+        const opLinsolve = (a: OpInput | SparseMatrix, b: OpInput | SparseMatrix, matrixType?: MatrixType): Tensor => {
+            if (b instanceof SparseMatrix) {
+                b = b.toDense();
+            }
+            if (a instanceof SparseMatrix) {
+                let [m, n] = a.shape;
+                if (m === n && !a.hasComplexStorage()) {
+                    return opSpsolve(a, b);
+                }
+                a = a.toDense();
+            }
             let A = a instanceof Tensor ? a.asType(DType.FLOAT64, true) : Tensor.toTensor(a);
             let B = b instanceof Tensor ? b.asType(DType.FLOAT64, true) : Tensor.toTensor(b);
-            if (A.ndim !== 2) {
+            if (A.ndim < 2) {
                 throw new Error('a should be a matrix.');
             }
-            if (B.ndim > 2) {
-                throw new Error('b should be a vector or a matrix.')
-            }
-            let shapeA = A.shape;
-            let shapeB = B.ndim === 1 ? [B.size, 1] : B.shape;
-            if (shapeA[0] !== shapeB[0]) {
+            let isBVector = B.ndim === 1;
+            let [batchShapeA, m, n] = MatrixBatchHelper.splitShape(A.shape);
+            let [batchShapeB, mB, p] = MatrixBatchHelper.splitShape(isBVector ? [B.size, 1] : B.shape);
+            if (m !== mB) {
                 throw new Error('The number of rows in A must match that in B.');
             }
+            if (m !== n && matrixType != undefined && matrixType !== MatrixType.Full &&
+                matrixType !== MatrixType.UpperTriangular && matrixType !== MatrixType.LowerTriangular) {
+                throw new Error('Only triangular matrix types are supported for non-square matrices.');
+            }
+            let [batchShapeX, indicesA, indicesB] = MatrixBatchHelper.broadcast(batchShapeA, batchShapeB);
             let isAComplex = A.hasNonZeroComplexStorage();
             let isBComplex = B.hasNonZeroComplexStorage();
-            if (shapeA[0] === shapeA[1]) {
-                // use LUP for square A
-                let p = DataHelper.allocateInt32Array(shapeA[0]);
-                if (isAComplex) {
-                    B.ensureComplexStorage();
-                    LU.clu(shapeA[0], A.realData, A.imagData, p);
-                    LU.cluSolve(shapeA[0], shapeB[1], A.realData, A.imagData, p, B.realData, B.imagData);
-                } else {
-                    LU.lu(shapeA[0], A.realData, p);
-                    LU.luSolve(shapeA[0], shapeB[1], A.realData, p, B.realData);
+            let X = Tensor.zeros(batchShapeX.concat(isBVector ? [n] : [n, p]));
+            if (isAComplex || isBComplex) {
+                X.ensureComplexStorage();
+            }
+            let nb = indicesA.length;
+            let reA = A.realData, imA = isAComplex ? A.imagData : [];
+            let reB = B.realData, imB = isBComplex ? B.imagData : [];
+            let reX = X.realData, imX = X.hasComplexStorage() ? X.imagData : [];
+            const block = (data: DataBlock, k: number, size: number): DataBlock => {
+                return MatrixBatchHelper.getBlock(data, k, size);
+            };
+            const copyBlock = (src: DataBlock, k: number, dst: DataBlock, l: number, size: number): void => {
+                let offsetSrc = k * size, offsetDst = l * size;
+                for (let i = 0;i < size;i++) {
+                    dst[offsetDst + i] = src[offsetSrc + i];
+                }
+            };
+            if (m !== n && (matrixType === MatrixType.UpperTriangular || matrixType === MatrixType.LowerTriangular)) {
+                // general triangular systems
+                let upper = matrixType === MatrixType.UpperTriangular;
+                let zeros = DataHelper.allocateFloat64Array(m * p);
+                for (let k = 0;k < nb;k++) {
+                    let ia = indicesA[k], ib = indicesB[k];
+                    let reAk = block(reA, ia, m * n);
+                    let reBk = block(reB, ib, m * p);
+                    if (isAComplex || isBComplex) {
+                        let imAk = isAComplex ? block(imA, ia, m * n) : DataHelper.allocateFloat64Array(m * n);
+                        let imBk = isBComplex ? block(imB, ib, m * p) : zeros;
+                        if (upper) {
+                            Linsolve.solveGUTComplex(m, n, p, reAk, imAk, reBk, imBk,
+                                block(reX, k, n * p), block(imX, k, n * p));
+                        } else {
+                            Linsolve.solveGLTComplex(m, n, p, reAk, imAk, reBk, imBk,
+                                block(reX, k, n * p), block(imX, k, n * p));
+                        }
+                    } else if (upper) {
+                        Linsolve.solveGUTReal(m, n, p, reAk, reBk, block(reX, k, n * p));
+                    } else {
+                        Linsolve.solveGLTReal(m, n, p, reAk, reBk, block(reX, k, n * p));
+                    }
+                }
+            } else if (m === n) {
+                // Detect the structure of each matrix in A and prepare the
+                // factorizations. Each matrix in A is decomposed at most once
+                // even if it is shared by multiple right-hand sides.
+                let nA = MatrixBatchHelper.getBatchSize(batchShapeA);
+                let types: MatrixType[] = new Array(nA);
+                let bands: [number, number][] = new Array(nA);
+                let ps: DataBlock[] = new Array(nA);
+                let reFactors: DataBlock[] = new Array(nA);
+                let imFactors: DataBlock[] = new Array(nA);
+                const luFactorize = (k: number): void => {
+                    let pk = DataHelper.allocateInt32Array(m);
+                    if (isAComplex) {
+                        LU.clu(m, block(reA, k, m * m), block(imA, k, m * m), pk);
+                    } else {
+                        LU.lu(m, block(reA, k, m * m), pk);
+                    }
+                    ps[k] = pk;
+                };
+                let norms: number[] = new Array(nA);
+                for (let k = 0;k < nA;k++) {
+                    let reAk = block(reA, k, m * m);
+                    let imAk = isAComplex ? block(imA, k, m * m) : undefined;
+                    if (singularMatrixAction !== 'none') {
+                        norms[k] = imAk ? NormFunction.cmat1Norm(m, m, reAk, imAk) : NormFunction.mat1Norm(m, m, reAk);
+                    }
+                    if (matrixType == undefined) {
+                        let [detected, kl, ku] = MatrixStructure.detect(m, reAk, imAk);
+                        types[k] = detected;
+                        bands[k] = [kl, ku];
+                    } else {
+                        types[k] = matrixType;
+                        bands[k] = matrixType === MatrixType.Banded
+                            ? MatrixStructure.bandwidth(m, reAk, imAk)
+                            : [0, 0];
+                    }
+                    if (types[k] === MatrixType.HermitianPositiveDefinite) {
+                        // Cholesky decomposition on a copy of the lower
+                        // triangular part so that A is intact if it fails.
+                        let reL = DataHelper.allocateFloat64Array(m * m);
+                        let imL = DataHelper.allocateFloat64Array(isAComplex ? m * m : 0);
+                        for (let i = 0;i < m;i++) {
+                            for (let j = 0;j <= i;j++) {
+                                reL[i * m + j] = reAk[i * m + j];
+                                if (imAk) {
+                                    imL[i * m + j] = imAk[i * m + j];
+                                }
+                            }
+                        }
+                        let info = imAk ? Chol.cchol(m, reL, imL) : Chol.chol(m, reL);
+                        if (info === 0) {
+                            // store L^H in the upper triangular part
+                            for (let i = 0;i < m;i++) {
+                                for (let j = i + 1;j < m;j++) {
+                                    reL[i * m + j] = reL[j * m + i];
+                                    if (imAk) {
+                                        imL[i * m + j] = -imL[j * m + i];
+                                    }
+                                }
+                            }
+                            reFactors[k] = reL;
+                            imFactors[k] = imL;
+                        } else {
+                            // not positive definite
+                            types[k] = MatrixType.Full;
+                        }
+                    }
+                    if (types[k] === MatrixType.Full) {
+                        luFactorize(k);
+                    }
+                }
+                for (let k = 0;k < nb;k++) {
+                    let ia = indicesA[k];
+                    copyBlock(reB, indicesB[k], reX, k, m * p);
                     if (isBComplex) {
-                        LU.luSolve(shapeA[0], shapeB[1], A.realData, p, B.imagData);
+                        copyBlock(imB, indicesB[k], imX, k, m * p);
                     }
+                    let reXk = block(reX, k, m * p);
+                    let imXk = X.hasComplexStorage() ? block(imX, k, m * p) : undefined;
+                    if (types[ia] !== MatrixType.Full) {
+                        let isCholesky = types[ia] === MatrixType.HermitianPositiveDefinite;
+                        let [kl, ku] = types[ia] === MatrixType.Tridiagonal ? [1, 1] : bands[ia];
+                        let success = solveStructured(types[ia], m, p, kl, ku,
+                            isCholesky ? reFactors[ia] : block(reA, ia, m * m),
+                            isAComplex ? (isCholesky ? imFactors[ia] : block(imA, ia, m * m)) : undefined,
+                            reXk, imXk);
+                        if (success) {
+                            continue;
+                        }
+                        // fall back to LUP
+                        copyBlock(reB, indicesB[k], reX, k, m * p);
+                        if (isBComplex) {
+                            copyBlock(imB, indicesB[k], imX, k, m * p);
+                        }
+                        if (ps[ia] == undefined) {
+                            luFactorize(ia);
+                        }
+                    }
+                    if (isAComplex) {
+                        LU.cluSolve(m, p, block(reA, ia, m * m), block(imA, ia, m * m), ps[ia],
+                            reXk, block(imX, k, m * p));
+                    } else {
+                        LU.luSolve(m, p, block(reA, ia, m * m), ps[ia], reXk);
+                        if (isBComplex) {
+                            LU.luSolve(m, p, block(reA, ia, m * m), ps[ia], block(imX, k, m * p));
+                        }
+                    }
+                }
+                if (singularMatrixAction !== 'none') {
+                    let rcond = Infinity;
+                    for (let k = 0;k < nA;k++) {
+                        let rcondK = NaN;
+                        if (ps[k] == undefined) {
+                            let isCholesky = types[k] === MatrixType.HermitianPositiveDefinite;
+                            let [kl, ku] = types[k] === MatrixType.Tridiagonal ? [1, 1] : bands[k];
+                            rcondK = rcondStructured(types[k], m, kl, ku, norms[k],
+                                isCholesky ? reFactors[k] : block(reA, k, m * m),
+                                isAComplex ? (isCholesky ? imFactors[k] : block(imA, k, m * m)) : undefined);
+                            if (isNaN(rcondK)) {
+                                luFactorize(k);
+                            }
+                        }
+                        if (ps[k] != undefined) {
+                            rcondK = ConditionEstimator.rcondLU(LU, m, norms[k], block(reA, k, m * m),
+                                isAComplex ? block(imA, k, m * m) : [], ps[k]);
+                        }
+                        rcond = Math.min(rcond, rcondK);
+                    }
+                    checkSingular(rcond, m);
                 }
-                return B;
             } else {
                 // use QR with pivoting
-                let X = Tensor.zeros([shapeA[1], shapeB[1]]);
-                if (isAComplex) {
-                    X.ensureComplexStorage();
-                    B.ensureComplexStorage();
-                    QR.cqrSolve(shapeA[0], shapeA[1], shapeB[1], A.realData, A.imagData, 
-                        B.realData, B.imagData, X.realData, X.imagData);
-                } else {
+                // A and B are destroyed by the solvers so each system works on
+                // its own copies.
+                let reAk = DataHelper.allocateFloat64Array(m * n);
+                let imAk = DataHelper.allocateFloat64Array(isAComplex ? m * n : 0);
+                let reBk = DataHelper.allocateFloat64Array(m * p);
+                let imBk = DataHelper.allocateFloat64Array(m * p);
+                for (let k = 0;k < nb;k++) {
+                    copyBlock(reA, indicesA[k], reAk, 0, m * n);
+                    copyBlock(reB, indicesB[k], reBk, 0, m * p);
+                    if (isAComplex) {
+                        copyBlock(imA, indicesA[k], imAk, 0, m * n);
+                    }
                     if (isBComplex) {
+                        copyBlock(imB, indicesB[k], imBk, 0, m * p);
+                    } else {
+                        for (let i = 0;i < m * p;i++) {
+                            imBk[i] = 0;
+                        }
+                    }
+                    if (isAComplex) {
+                        QR.cqrSolve(m, n, p, reAk, imAk, reBk, imBk, block(reX, k, n * p), block(imX, k, n * p));
+                    } else if (isBComplex) {
                         // solve for the complex part
-                        X.ensureComplexStorage();
-                        QR.qrSolve2(shapeA[0], shapeA[1], shapeB[1], A.realData, B.realData, B.imagData, X.realData, X.imagData);
+                        QR.qrSolve2(m, n, p, reAk, reBk, imBk, block(reX, k, n * p), block(imX, k, n * p));
                     } else {
-                        QR.qrSolve(shapeA[0], shapeA[1], shapeB[1], A.realData, B.realData, X.realData);
+                        QR.qrSolve(m, n, p, reAk, reBk, block(reX, k, n * p));
                     }
                 }
-                return X;
             }
+            return X;
         };
 
-        const opMLDivide = (a: OpInput, b: OpInput): Tensor => {
-            return opLinsolve(a, b);
+        const opMLDivide = (a: OpInput | SparseMatrix, b: OpInput | SparseMatrix, matrixType?: MatrixType): Tensor => {
+            return opLinsolve(a, b, matrixType);
         };
 
         const opMRDivide = (a: OpInput, b: OpInput): Tensor => {
             return opTranspose(opLinsolve(opTranspose(b), opTranspose(a)));
         };
 
+        const opIsSparse = (x: any): boolean => {
+            return x instanceof SparseMatrix;
+        };
+
+        function opSparse(x: OpInput | SparseMatrix, format?: SparseFormat): SparseMatrix;
+        function opSparse(rows: OpInput, cols: OpInput, values: OpInput, shape?: ArrayLike<number>,
+                          format?: SparseFormat): SparseMatrix;
+        function opSparse(x: OpInput | SparseMatrix, y?: OpInput | SparseFormat, values?: OpInput,
+                          shape?: ArrayLike<number>, format: SparseFormat = 'csr'): SparseMatrix {
+            if (y === undefined || typeof y === 'string') {
+                // conversion
+                if (x instanceof SparseMatrix) {
+                    return x.asFormat(y || 'csr');
+                }
+                return SparseMatrix.fromDense(x instanceof Tensor ? x : Tensor.toTensor(x), y || 'csr');
+            }
+            if (x instanceof SparseMatrix || values === undefined) {
+                throw new Error('Row indices, column indices, and values expected.');
+            }
+            let reRows = (x instanceof Tensor ? x : Tensor.toTensor(x)).realData;
+            let reCols = (y instanceof Tensor ? y : Tensor.toTensor(y)).realData;
+            let V = values instanceof Tensor ? values : Tensor.toTensor(values);
+            let reV = V.realData;
+            let imV = V.hasNonZeroComplexStorage() ? V.imagData : undefined;
+            if (V.size === 1 && reRows.length !== 1) {
+                // expand scalar values
+                let re = DataHelper.allocateFloat64Array(reRows.length);
+                let im = imV ? DataHelper.allocateFloat64Array(reRows.length) : undefined;
+                for (let i = 0;i < re.length;i++) {
+                    re[i] = reV[0];
+                    if (im && imV) {
+                        im[i] = imV[0];
+                    }
+                }
+                reV = re;
+                imV = im;
+            }
+            let m: number, n: number;
+            if (shape) {
+                if (shape.length !== 2) {
+                    throw new Error('Shape must be a 2-element array.');
+                }
+                [m, n] = [shape[0], shape[1]];
+            } else {
+                // infer the shape from the indices
+                m = 0;
+                n = 0;
+                for (let i = 0;i < reRows.length;i++) {
+                    m = Math.max(m, reRows[i] + 1);
+                }
+                for (let i = 0;i < reCols.length;i++) {
+                    n = Math.max(n, reCols[i] + 1);
+                }
+            }
+            return SparseMatrix.fromTriplets(m, n, reRows, reCols, reV, imV, format);
+        }
+
+        const opFull = (x: OpInput | SparseMatrix): Tensor => {
+            if (x instanceof SparseMatrix) {
+                return x.toDense();
+            }
+            return x instanceof Tensor ? x : Tensor.toTensor(x);
+        };
+
+        const opSpeye = (m: number, n?: number, format: SparseFormat = 'csr'): SparseMatrix => {
+            return SparseMatrix.identity(m, n === undefined ? m : n, format);
+        };
+
+        const checkSparseInputs = (x: SparseMatrix | OpInput, y: SparseMatrix | OpInput): void => {
+            if (!(x instanceof SparseMatrix) && !(y instanceof SparseMatrix)) {
+                throw new Error('At least one of the inputs must be a sparse matrix.');
+            }
+        };
+
+        function opSpAdd(x: SparseMatrix, y: SparseMatrix): SparseMatrix;
+        function opSpAdd(x: SparseMatrix | OpInput, y: SparseMatrix | OpInput): Tensor;
+        function opSpAdd(x: SparseMatrix | OpInput, y: SparseMatrix | OpInput): Tensor | SparseMatrix {
+            checkSparseInputs(x, y);
+            return arithmOp.add(x, y);
+        }
+
+        function opSpSub(x: SparseMatrix, y: SparseMatrix): SparseMatrix;
+        function opSpSub(x: SparseMatrix | OpInput, y: SparseMatrix | OpInput): Tensor;
+        function opSpSub(x: SparseMatrix | OpInput, y: SparseMatrix | OpInput): Tensor | SparseMatrix {
+            checkSparseInputs(x, y);
+            return arithmOp.sub(x, y);
+        }
+
+        const opSpMul = (x: SparseMatrix | OpInput, y: SparseMatrix | OpInput): SparseMatrix => {
+            checkSparseInputs(x, y);
+            return arithmOp.mul(x, y);
+        };
+
+        const toRealSparseSquareMatrix = (a: SparseMatrix): number => {
+            let [m, n] = a.shape;
+            if (m !== n) {
+                throw new Error('Square matrix expected.');
+            }
+            if (a.hasComplexStorage()) {
+                throw new Error('Complex sparse matrices are not supported.');
+            }
+            return n;
+        };
+
+        const opSplu = (a: SparseMatrix, ordering: 'rcm' | 'natural' = 'rcm'): [SparseMatrix, SparseMatrix, Tensor, Tensor] => {
+            let n = toRealSparseSquareMatrix(a);
+            let q: DataBlock;
+            switch (ordering) {
+                case 'rcm':
+                    q = SparseMatrixFunction.rcm(a);
+                    break;
+                case 'natural':
+                    q = DataHelper.naturalNumbersAsInt32(n);
+                    break;
+                default:
+                    throw new Error(`Invalid ordering '${ordering}'.`);
+            }
+            let [L, U, p] = SparseMatrixFunction.lu(a, q);
+            let P = Tensor.zeros([n], DType.INT32);
+            let Q = Tensor.zeros([n], DType.INT32);
+            DataHelper.copy(p, P.realData);
+            DataHelper.copy(q, Q.realData);
+            return [L, U, P, Q];
+        };
+
+        const opSpsolve = (a: SparseMatrix, b: OpInput): Tensor => {
+            let n = toRealSparseSquareMatrix(a);
+            let B = b instanceof Tensor ? b.asType(DType.FLOAT64, true) : Tensor.toTensor(b);
+            if (B.ndim > 2) {
+                throw new Error('b should be a vector or a matrix.');
+            }
+            let shapeB = B.ndim === 1 ? [B.size, 1] : B.shape;
+            if (shapeB[0] !== n) {
+                throw new Error('The number of rows in A must match that in B.');
+            }
+            let [L, U, P, Q] = opSplu(a);
+            let p = P.realData, q = Q.realData;
+            let col = DataHelper.allocateFloat64Array(n);
+            let w = DataHelper.allocateFloat64Array(n);
+            let nCols = shapeB[1];
+            const solve = (data: DataBlock): void => {
+                for (let j = 0;j < nCols;j++) {
+                    for (let i = 0;i < n;i++) {
+                        col[i] = data[i * nCols + j];
+                    }
+                    SparseMatrixFunction.luSolve(L, U, p, q, col, w);
+                    for (let i = 0;i < n;i++) {
+                        data[i * nCols + j] = col[i];
+                    }
+                }
+            };
+            solve(B.realData);
+            if (B.hasNonZeroComplexStorage()) {
+                solve(B.imagData);
+            }
+            return B;
+        };
+
+        /**
+         * Wraps a linear operator function so that it can be used by the
+         * iterative methods.
+         * @param f Linear operator function.
+         * @param n Length of the input vector.
+         * @param m Expected length of the output vector.
+         * @param transpose Whether A^T x is computed.
+         */
+        const wrapLinearOperatorFunction = (f: LinearOperatorFunction, n: number, m: number,
+                                            transpose: boolean): MatVecFunction => {
+            return (x, y) => {
+                let X = Tensor.zeros([n]);
+                DataHelper.copy(x, X.realData);
+                let y0 = f(X, transpose);
+                let Y = y0 instanceof Tensor ? y0 : Tensor.toTensor(y0);
+                if (Y.size !== m) {
+                    throw new Error(`The linear operator function must return a vector of length ${m}.`);
+                }
+                if (Y.hasNonZeroComplexStorage()) {
+                    throw new Error('The linear operator function must return a real vector.');
+                }
+                DataHelper.copy(Y.realData, y);
+            };
+        };
+
+        /**
+         * Converts the input into a real linear operator. If a is a function,
+         * its shape must be specified.
+         * @returns [m, n, A x, A^T x]
+         */
+        const toRealLinearOperator = (a: SparseMatrix | OpInput | LinearOperatorFunction,
+                                      shape?: [number, number]): [number, number, MatVecFunction, MatVecFunction] =>
+        {
+            if (typeof a === 'function') {
+                let [m, n] = <[number, number]>shape;
+                return [m, n, wrapLinearOperatorFunction(a, n, m, false), wrapLinearOperatorFunction(a, m, n, true)];
+            }
+            if (a instanceof SparseMatrix) {
+                if (a.hasComplexStorage()) {
+                    throw new Error('Complex sparse matrices are not supported.');
+                }
+                let A = a;
+                let At = a.transpose();
+                return [A.shape[0], A.shape[1],
+                    (x, y) => SparseMatrixFunction.matvec(A, x, y),
+                    (x, y) => SparseMatrixFunction.matvec(At, x, y)];
+            }
+            let A = toMatrix(a);
+            if (A.hasNonZeroComplexStorage()) {
+                throw new Error('Complex matrices are not supported.');
+            }
+            let [m, n] = A.shape;
+            let reA = A.asType(DType.FLOAT64).realData;
+            return [m, n,
+                (x, y) => Blao.gemv(m, n, 1, reA, MatrixModifier.None, x, 0, y),
+                (x, y) => Blao.gemv(n, m, 1, reA, MatrixModifier.Transposed, x, 0, y)];
+        };
+
+        /**
+         * Factorizes the real square matrix A (or A^T) and returns a function
+         * computing A\x (or A^T\x).
+         */
+        const createInverseOperator = (a: SparseMatrix | Tensor, transpose: boolean): MatVecFunction => {
+            let n = a.shape[0];
+            if (a instanceof SparseMatrix) {
+                let [L, U, P, Q] = opSplu(transpose ? a.transpose() : a);
+                let p = P.realData, q = Q.realData;
+                let w = DataHelper.allocateFloat64Array(n);
+                return (x, y) => {
+                    DataHelper.copy(x, y);
+                    SparseMatrixFunction.luSolve(L, U, p, q, y, w);
+                };
+            }
+            if (a.hasNonZeroComplexStorage()) {
+                throw new Error('Complex matrices are not supported.');
+            }
+            let reLU = DataHelper.allocateFloat64Array(n * n);
+            if (transpose) {
+                Blao.transpose(n, n, a.realData, reLU);
+            } else {
+                DataHelper.copy(a.realData, reLU);
+            }
+            let p = DataHelper.allocateInt32Array(n);
+            LU.lu(n, reLU, p);
+            return (x, y) => {
+                DataHelper.copy(x, y);
+                LU.luSolve(n, 1, reLU, p, y);
+            };
+        };
+
+        /**
+         * Creates the functions computing M\x and M^T\x for the given
+         * preconditioner. The latter is created on demand.
+         */
+        const createPreconditioner = (m: SparseMatrix | OpInput | LinearOperatorFunction | 'jacobi' | undefined,
+                                      a: SparseMatrix | OpInput | LinearOperatorFunction, n: number)
+            : [MatVecFunction | undefined, MatVecFunction | undefined] =>
+        {
+            if (m === undefined) {
+                return [undefined, undefined];
+            }
+            if (typeof m === 'function') {
+                return [wrapLinearOperatorFunction(m, n, n, false), wrapLinearOperatorFunction(m, n, n, true)];
+            }
+            if (m === 'jacobi') {
+                if (typeof a === 'function') {
+                    throw new Error('The Jacobi preconditioner requires an explicit matrix.');
+                }
+                let d = a instanceof SparseMatrix
+                    ? SparseMatrixFunction.diag(a)
+                    : opDiag(toMatrix(a).asType(DType.FLOAT64)).realData;
+                for (let i = 0;i < n;i++) {
+                    if (d[i] === 0) {
+                        throw new Error('The Jacobi preconditioner requires nonzero diagonal entries.');
+                    }
+                }
+                const solveDiag = (x: ArrayLike<number>, y: DataBlock): void => {
+                    for (let i = 0;i < n;i++) {
+                        y[i] = x[i] / d[i];
+                    }
+                };
+                return [solveDiag, solveDiag];
+            }
+            let M = m instanceof SparseMatrix ? m : toMatrix(m).asType(DType.FLOAT64);
+            if (M.shape[0] !== n || M.shape[1] !== n) {
+                throw new Error(`The preconditioner must be a ${n}x${n} matrix.`);
+            }
+            let solveT: MatVecFunction | undefined;
+            return [createInverseOperator(M, false), (x, y) => {
+                solveT = solveT || createInverseOperator(M, true);
+                solveT(x, y);
+            }];
+        };
+
+        /**
+         * Prepares the inputs for iterative solvers.
+         * @returns [m, n, A x, A^T x, b, x0]
+         */
+        const prepareIterativeSolver = (a: SparseMatrix | OpInput | LinearOperatorFunction, b: OpInput,
+                                        options: IterativeSolverOptions | undefined, square: boolean)
+            : [number, number, MatVecFunction, MatVecFunction, Tensor, Tensor] =>
+        {
+            let B = b instanceof Tensor ? b : Tensor.toTensor(b);
+            if (B.ndim > 2 || (B.ndim === 2 && B.shape[1] !== 1)) {
+                throw new Error('b must be a vector.');
+            }
+            if (B.hasNonZeroComplexStorage()) {
+                throw new Error('Complex right-hand sides are not supported.');
+            }
+            B = B.asType(DType.FLOAT64);
+            let m: number, n: number;
+            let matvec: MatVecFunction, rmatvec: MatVecFunction;
+            if (typeof a === 'function') {
+                m = B.size;
+                if (square) {
+                    n = m;
+                } else {
+                    // determines the number of columns from A^T b
+                    let y0 = a(B.getReshapedCopy([m]), true);
+                    n = (y0 instanceof Tensor ? y0 : Tensor.toTensor(y0)).size;
+                }
+                [, , matvec, rmatvec] = toRealLinearOperator(a, [m, n]);
+            } else {
+                [m, n, matvec, rmatvec] = toRealLinearOperator(a);
+                if (square && m !== n) {
+                    throw new Error('Square matrix expected.');
+                }
+                if (B.size !== m) {
+                    throw new Error(`b must be a vector of length ${m}.`);
+                }
+            }
+            let X: Tensor;
+            if (options && options.x0 !== undefined) {
+                let x0 = options.x0;
+                X = x0 instanceof Tensor ? x0.asType(DType.FLOAT64, true) : Tensor.toTensor(x0);
+                if (X.size !== n) {
+                    throw new Error(`x0 must be a vector of length ${n}.`);
+                }
+                if (X.hasComplexStorage()) {
+                    throw new Error('Complex initial guesses are not supported.');
+                }
+                X = X.reshape(m === n ? B.shape : [n]);
+            } else {
+                X = Tensor.zeros(m === n ? B.shape : [n]);
+            }
+            return [m, n, matvec, rmatvec, B, X];
+        };
+
+        /**
+         * Parses the common options of iterative solvers.
+         * @returns [tol, maxIter]
+         */
+        const getIterativeSolverOptions = (options: IterativeSolverOptions | undefined,
+                                           defaultMaxIter: number): [number, number] => {
+            let tol = options && options.tol !== undefined ? options.tol : 1e-6;
+            let maxIter = options && options.maxIter !== undefined ? options.maxIter : defaultMaxIter;
+            return [tol, maxIter];
+        };
+
+        const opPcg = (a: SparseMatrix | OpInput | LinearOperatorFunction, b: OpInput, options?: IterativeSolverOptions)
+            : [Tensor, number, number, number, Tensor] =>
+        {
+            let [, n, matvec, , B, X] = prepareIterativeSolver(a, b, options, true);
+            let [tol, maxIter] = getIterativeSolverOptions(options, n);
+            let [precond] = createPreconditioner(options && options.M, a, n);
+            let history: number[] = [];
+            let [flag, relres, iter] = IterativeSolver.pcg(n, matvec, precond, B.realData, X.realData, tol,
+                maxIter, history);
+            return [X, flag, relres, iter, Tensor.fromArray(history)];
+        };
+
+        const opGmres = (a: SparseMatrix | OpInput | LinearOperatorFunction, b: OpInput, options?: IterativeSolverOptions)
+            : [Tensor, number, number, number, Tensor] =>
+        {
+            let [, n, matvec, , B, X] = prepareIterativeSolver(a, b, options, true);
+            let [tol, maxIter] = getIterativeSolverOptions(options, n);
+            let restart = options && options.restart !== undefined ? options.restart : Math.min(n, 20);
+            if (restart < 1 || Math.floor(restart) !== restart) {
+                throw new Error('restart must be a positive integer.');
+            }
+            let [precond] = createPreconditioner(options && options.M, a, n);
+            let history: number[] = [];
+            let [flag, relres, iter] = IterativeSolver.gmres(n, matvec, precond, B.realData, X.realData, tol,
+                Math.min(restart, n), maxIter, history);
+            return [X, flag, relres, iter, Tensor.fromArray(history)];
+        };
+
+        const opBicgstab = (a: SparseMatrix | OpInput | LinearOperatorFunction, b: OpInput,
+                            options?: IterativeSolverOptions): [Tensor, number, number, number, Tensor] =>
+        {
+            let [, n, matvec, , B, X] = prepareIterativeSolver(a, b, options, true);
+            let [tol, maxIter] = getIterativeSolverOptions(options, n);
+            let [precond] = createPreconditioner(options && options.M, a, n);
+            let history: number[] = [];
+            let [flag, relres, iter] = IterativeSolver.bicgstab(n, matvec, precond, B.realData, X.realData, tol,
+                maxIter, history);
+            return [X, flag, relres, iter, Tensor.fromArray(history)];
+        };
+
+        const opLsqr = (a: SparseMatrix | OpInput | LinearOperatorFunction, b: OpInput, options?: IterativeSolverOptions)
+            : [Tensor, number, number, number, Tensor] =>
+        {
+            let [m, n, matvec, rmatvec, B, X] = prepareIterativeSolver(a, b, options, false);
+            let [tol, maxIter] = getIterativeSolverOptions(options, Math.min(m, n));
+            let [precond, rprecond] = createPreconditioner(options && options.M, a, n);
+            let history: number[] = [];
+            let [flag, relres, iter] = IterativeSolver.lsqr(m, n, matvec, rmatvec, precond, rprecond,
+                B.realData, X.realData, tol, maxIter, history);
+            return [X, flag, relres, iter, Tensor.fromArray(history)];
+        };
+
+        /**
+         * Checks whether a real sparse matrix is symmetric.
+         */
+        const isSparseSymmetric = (a: SparseMatrix): boolean => {
+            let D = SparseMatrixFunction.add(a, a.transpose(), 1, -1);
+            let reD = D.realData;
+            for (let i = 0;i < reD.length;i++) {
+                if (reD[i] !== 0) {
+                    return false;
+                }
+            }
+            return true;
+        };
+
+        /**
+         * Parses the common options of eigs() and svds().
+         * @returns [p, tol, maxRestarts]
+         */
+        const getKrylovEigenOptions = (options: EigsOptions | SvdsOptions | undefined, n: number, k: number)
+            : [number, number, number] => {
+            if (k < 1 || k > n || Math.floor(k) !== k) {
+                throw new Error(`k must be an integer between 1 and ${n}.`);
+            }
+            let p = options && options.subspaceDimension !== undefined
+                ? options.subspaceDimension
+                : Math.min(n, Math.max(2 * k + 1, 20));
+            if (Math.floor(p) !== p || p > n || (p <= k && p !== n)) {
+                throw new Error('subspaceDimension must be an integer greater than k and no greater than n.');
+            }
+            let tol = options && options.tol !== undefined ? options.tol : 1e-10;
+            let maxRestarts = options && options.maxIter !== undefined ? options.maxIter : 300;
+            return [p, tol, maxRestarts];
+        };
+
+        const opEigs = (a: SparseMatrix | OpInput | LinearOperatorFunction, k?: number,
+                        options?: EigsOptions): [Tensor, Tensor, number] => {
+            let n: number;
+            if (typeof a === 'function') {
+                if (!options || options.n === undefined) {
+                    throw new Error('The dimension n must be specified when A is a function.');
+                }
+                n = options.n;
+            } else {
+                if (!(a instanceof SparseMatrix)) {
+                    a = toMatrix(a).asType(DType.FLOAT64);
+                }
+                let shape = a.shape;
+                if (shape[0] !== shape[1]) {
+                    throw new Error('Square matrix expected.');
+                }
+                n = shape[0];
+            }
+            k = k === undefined ? Math.min(6, n) : k;
+            let [p, tol, maxRestarts] = getKrylovEigenOptions(options, n, k);
+            let sigma = options && options.sigma !== undefined ? options.sigma : 'largestabs';
+            let symmetric: boolean;
+            if (typeof a === 'function') {
+                symmetric = options !== undefined && options.isSymmetric === true;
+            } else if (a instanceof SparseMatrix) {
+                if (a.hasComplexStorage()) {
+                    throw new Error('Complex sparse matrices are not supported.');
+                }
+                symmetric = isSparseSymmetric(a);
+            } else {
+                if ((<Tensor>a).hasNonZeroComplexStorage()) {
+                    throw new Error('Complex matrices are not supported.');
+                }
+                symmetric = opIsSymmetric(a);
+            }
+            let matvec: MatVecFunction;
+            let target: KrylovEigenTarget;
+            // shift for the shift-invert mode
+            let shift: number | undefined;
+            switch (sigma) {
+                case 'largestabs':
+                    target = 'lm';
+                    break;
+                case 'largestreal':
+                    target = 'lr';
+                    break;
+                case 'smallestreal':
+                    target = 'sr';
+                    break;
+                case 'smallestabs':
+                    target = 'lm';
+                    shift = 0;
+                    break;
+                default:
+                    if (typeof sigma !== 'number') {
+                        throw new Error(`Invalid sigma '${sigma}'.`);
+                    }
+                    target = 'lm';
+                    shift = sigma;
+            }
+            if (typeof a === 'function') {
+                matvec = wrapLinearOperatorFunction(a, n, n, false);
+            } else if (shift === undefined) {
+                [, , matvec] = toRealLinearOperator(a);
+            } else if (a instanceof SparseMatrix) {
+                matvec = createInverseOperator(shift === 0 ? a
+                    : SparseMatrixFunction.add(a, SparseMatrix.identity(n, n, a.format), 1, -shift), false);
+            } else {
+                let S = (<Tensor>a).asType(DType.FLOAT64, true);
+                let reS = S.realData;
+                for (let i = 0;i < n;i++) {
+                    reS[i * n + i] -= shift;
+                }
+                matvec = createInverseOperator(S, false);
+            }
+            let v0 = DataHelper.allocateFloat64Array(n);
+            if (options && options.v0 !== undefined) {
+                let V0 = options.v0 instanceof Tensor ? options.v0 : Tensor.toTensor(options.v0);
+                if (V0.size !== n || V0.hasNonZeroComplexStorage()) {
+                    throw new Error(`v0 must be a real vector of length ${n}.`);
+                }
+                DataHelper.copy(V0.asType(DType.FLOAT64).realData, v0);
+            } else {
+                KrylovEigenSolver.fillPseudoRandom(v0, 42);
+            }
+            let [reL, imL, reX, imX, nConverged] = KrylovEigenSolver.eigs(Eigen, n, matvec, symmetric, k, target, p,
+                tol, maxRestarts, v0);
+            if (shift !== undefined) {
+                // lambda = sigma + 1 / mu
+                for (let i = 0;i < k;i++) {
+                    let [re, im] = CMath.cdivCC(1, 0, reL[i], imL[i]);
+                    reL[i] = shift + re;
+                    imL[i] = im;
+                }
+            }
+            let L = Tensor.zeros([k]);
+            let V = Tensor.zeros([n, k]);
+            DataHelper.copy(reL, L.realData);
+            DataHelper.copy(reX, V.realData);
+            if (!symmetric) {
+                L.ensureComplexStorage();
+                DataHelper.copy(imL, L.imagData);
+                V.ensureComplexStorage();
+                DataHelper.copy(imX, V.imagData);
+                if (!L.hasNonZeroComplexStorage()) {
+                    L.trimImaginaryPart();
+                }
+                if (!V.hasNonZeroComplexStorage()) {
+                    V.trimImaginaryPart();
+                }
+            }
+            return [V, opDiag(L), nConverged === k ? 0 : 1];
+        };
+
+        const opSvds = (a: SparseMatrix | OpInput | LinearOperatorFunction, k?: number,
+                        options?: SvdsOptions): [Tensor, Tensor, Tensor, number] => {
+            let sigma = options && options.sigma !== undefined ? options.sigma : 'largest';
+            if (sigma !== 'largest' && sigma !== 'smallest') {
+                throw new Error(`Invalid sigma '${sigma}'.`);
+            }
+            if (typeof a === 'function') {
+                if (!options || options.shape === undefined) {
+                    throw new Error('The shape of A must be specified when A is a function.');
+                }
+                if (sigma === 'smallest') {
+                    throw new Error('The smallest singular values require an explicit matrix.');
+                }
+            } else if (!(a instanceof SparseMatrix)) {
+                a = toMatrix(a).asType(DType.FLOAT64);
+            }
+            let [m, n, matvec, rmatvec] = toRealLinearOperator(a, options && options.shape);
+            // Works with the smaller one of A^T A and A A^T, whose dimension
+            // is l.
+            let tall = m >= n;
+            let l = tall ? n : m;
+            k = k === undefined ? Math.min(6, l) : k;
+            let [p, tol, maxRestarts] = getKrylovEigenOptions(options, l, k);
+            let op: MatVecFunction;
+            let target: KrylovEigenTarget;
+            if (sigma === 'largest') {
+                let w = DataHelper.allocateFloat64Array(tall ? m : n);
+                op = tall
+                    ? (x, y) => { matvec(x, w); rmatvec(w, y); }
+                    : (x, y) => { rmatvec(x, w); matvec(w, y); };
+                target = 'lr';
+            } else {
+                // shift-invert with zero shift
+                let gram: SparseMatrix | Tensor;
+                if (a instanceof SparseMatrix) {
+                    gram = tall ? opMatMul(a.transpose(), a) : opMatMul(a, a.transpose());
+                } else {
+                    let A = <Tensor>a;
+                    gram = tall ? opMatMul(opTranspose(A), A) : opMatMul(A, A, MatrixModifier.Transposed);
+                }
+                op = createInverseOperator(gram, false);
+                target = 'lm';
+            }
+            let v0 = DataHelper.allocateFloat64Array(l);
+            KrylovEigenSolver.fillPseudoRandom(v0, 42);
+            let [reL, , reX, , nConverged] = KrylovEigenSolver.eigs(Eigen, l, op, true, k, target, p,
+                tol, maxRestarts, v0);
+            let S = Tensor.zeros([k]);
+            let reS = S.realData;
+            for (let i = 0;i < k;i++) {
+                let lambda = sigma === 'largest' ? reL[i] : 1 / reL[i];
+                reS[i] = Math.sqrt(Math.max(lambda, 0));
+            }
+            // X stores the singular vectors on the side of the Gram matrix.
+            // The other side is given by A V / s or A^T U / s.
+            let X = Tensor.zeros([l, k]);
+            DataHelper.copy(reX, X.realData);
+            let Y = Tensor.zeros([tall ? m : n, k]);
+            let reY = Y.realData;
+            let x = DataHelper.allocateFloat64Array(l);
+            let y = DataHelper.allocateFloat64Array(tall ? m : n);
+            for (let j = 0;j < k;j++) {
+                for (let i = 0;i < l;i++) {
+                    x[i] = reX[i * k + j];
+                }
+                if (tall) {
+                    matvec(x, y);
+                } else {
+                    rmatvec(x, y);
+                }
+                for (let i = 0;i < y.length;i++) {
+                    reY[i * k + j] = reS[j] > 0 ? y[i] / reS[j] : 0;
+                }
+            }
+            let flag = nConverged === k ? 0 : 1;
+            return tall ? [Y, opDiag(S), X, flag] : [X, opDiag(S), Y, flag];
+        };
+
+        const toMatrix = (x: OpInput): Tensor => {
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            if (X.ndim === 1 && X.size === 1) {
+                // treat scalars as 1x1 matrices
+                X = X.getReshapedCopy([1, 1]);
+            }
+            if (X.ndim !== 2) {
+                throw new Error('Matrix expected.');
+            }
+            return X;
+        };
+
+        const toSquareMatrix = (x: OpInput): Tensor => {
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            if (X.ndim === 1 && X.size === 1) {
+                // treat scalars as 1x1 matrices
+                X = X.getReshapedCopy([1, 1]);
+            }
+            let shapeX = X.shape;
+            if (shapeX.length !== 2 || (shapeX[0] !== shapeX[1])) {
+                throw new Error('Square matrix expected.');
+            }
+            return X;
+        };
+
+        function opSchur(x: OpInput, mode: 'real' | 'complex' = 'real'): [Tensor, Tensor] {
+            if (mode !== 'real' && mode !== 'complex') {
+                throw new Error(`Invalid mode '${mode}'.`);
+            }
+            let batch = toMatrixBatch(x);
+            if (batch) {
+                return <[Tensor, Tensor]>mapMatrixBatch([batch], ([Xk]) => opSchur(Xk, mode));
+            }
+            // T is a copy so it can be safely overwritten
+            let T = toSquareMatrix(x).asType(DType.FLOAT64, true);
+            let n = T.shape[0];
+            let U = Tensor.zeros([n, n]);
+            if (mode === 'complex' || T.hasNonZeroComplexStorage()) {
+                T.ensureComplexStorage();
+                U.ensureComplexStorage();
+                Schur.cschur(n, T.realData, T.imagData, U.realData, U.imagData);
+            } else {
+                Schur.schur(n, T.realData, U.realData);
+            }
+            return [U, T];
+        }
+
+        /**
+         * Removes the imaginary part of the result of a matrix function if
+         * the input is real and the imaginary part is negligible (which is
+         * introduced by the complex Schur decomposition).
+         */
+        const trimNegligibleImaginaryPart = (Y: Tensor, isInputComplex: boolean): Tensor => {
+            if (isInputComplex || !Y.hasComplexStorage()) {
+                return Y;
+            }
+            let reY = Y.realData;
+            let imY = Y.imagData;
+            let maxRe = 0, maxIm = 0;
+            for (let i = 0;i < reY.length;i++) {
+                maxRe = Math.max(maxRe, Math.abs(reY[i]));
+                maxIm = Math.max(maxIm, Math.abs(imY[i]));
+            }
+            if (maxIm <= 10 * Math.sqrt(reY.length) * EPSILON * maxRe) {
+                Y.trimImaginaryPart();
+            }
+            return Y;
+        };
+
+        /**
+         * Evaluates a matrix function using the complex Schur decomposition
+         * X = U T U^H such that f(X) = U f(T) U^H.
+         * @param fTri Function that evaluates f(T) for upper triangular T.
+         */
+        const evalViaSchur = (X: Tensor, fTri: (T: Tensor) => Tensor): Tensor => {
+            let [U, T] = opSchur(X, 'complex');
+            let F = fTri(T);
+            let Y = opMatMul(opMatMul(U, F), U, MatrixModifier.Hermitian);
+            return trimNegligibleImaginaryPart(Y, X.hasNonZeroComplexStorage());
+        };
+
+        /**
+         * Computes the principal square root of a complex upper triangular
+         * matrix using the Björck-Hammarling recurrence.
+         */
+        const sqrtmTriangular = (T: Tensor): Tensor => {
+            let n = T.shape[0];
+            let reT = T.realData, imT = T.imagData;
+            let R = Tensor.zeros([n, n]);
+            R.ensureComplexStorage();
+            let reR = R.realData, imR = R.imagData;
+            for (let j = 0;j < n;j++) {
+                [reR[j * n + j], imR[j * n + j]] = CMath.csqrt(reT[j * n + j], imT[j * n + j]);
+                for (let i = j - 1;i >= 0;i--) {
+                    let sr = reT[i * n + j];
+                    let si = imT[i * n + j];
+                    for (let k = i + 1;k < j;k++) {
+                        sr -= reR[i * n + k] * reR[k * n + j] - imR[i * n + k] * imR[k * n + j];
+                        si -= reR[i * n + k] * imR[k * n + j] + imR[i * n + k] * reR[k * n + j];
+                    }
+                    let dr = reR[i * n + i] + reR[j * n + j];
+                    let di = imR[i * n + i] + imR[j * n + j];
+                    if (dr === 0 && di === 0) {
+                        if (sr !== 0 || si !== 0) {
+                            throw new Error('Matrix is singular and may not have a square root.');
+                        }
+                        continue;
+                    }
+                    [reR[i * n + j], imR[i * n + j]] = CMath.cdivCC(sr, si, dr, di);
+                }
+            }
+            return R;
+        };
+
         const opSqrtm = (x: OpInput): Tensor => {
             let X: Tensor = x instanceof Tensor ? x : Tensor.toTensor(x);
             let shapeX = X.shape;
@@ -916,9 +2963,7 @@ export class MatrixOpProviderFactory implements IJasmalModuleFactory<IMatrixOpPr
                     return re >= 0 ? Tensor.scalar(Math.sqrt(re)) : Tensor.scalar(0, Math.sqrt(-re));
                 }
             }
-            if (shapeX.length !== 2 || (shapeX[0] !== shapeX[1])) {
-                throw new Error('Square matrix expected.');
-            }
+            X = toSquareMatrix(X);
             if (opIsHermitian(X)) {
                 // use eig to compute the square root
                 let E = Tensor.zeros(shapeX);
@@ -933,9 +2978,208 @@ export class MatrixOpProviderFactory implements IJasmalModuleFactory<IMatrixOpPr
                 mathOp.sqrt(v, true);
                 return opMatMul(arithmOp.mul(E, v), E, MatrixModifier.Hermitian);
             } else {
-                // TODO: use Schur decomposition
-                throw new Error('Matrix square root for non-Hermitian matrices is not supported yet.');
+                return evalViaSchur(X, sqrtmTriangular);
+            }
+        };
+
+        // Coefficients of the Padé approximants and the corresponding
+        // thresholds of the 1-norm used by expm(). See N. J. Higham, "The
+        // scaling and squaring method for the matrix exponential revisited,"
+        // SIAM J. Matrix Anal. Appl., 26(4), 2005.
+        const PADE_COEFFS: { [m: number]: number[] } = {
+            3: [120, 60, 12, 1],
+            5: [30240, 15120, 3360, 420, 30, 1],
+            7: [17297280, 8648640, 1995840, 277200, 25200, 1512, 56, 1],
+            9: [17643225600, 8821612800, 2075673600, 302702400, 30270240, 2162160, 110880, 3960, 90, 1],
+            13: [64764752532480000, 32382376266240000, 7771770303897600, 1187353796428800, 129060195264000,
+                 10559470521600, 670442572800, 33522128640, 1323241920, 40840800, 960960, 16380, 182, 1]
+        };
+        const PADE_THETAS: Array<[number, number]> = [
+            [3, 1.495585217958292e-2],
+            [5, 2.539398330063230e-1],
+            [7, 9.504178996162932e-1],
+            [9, 2.097847961257068e0]
+        ];
+        const PADE_THETA_13 = 5.371920351148152e0;
+
+        /**
+         * Computes c[0] * X[0] + c[1] * X[1] + ...
+         */
+        const linearCombination = (c: number[], X: Tensor[]): Tensor => {
+            let Y = <Tensor>arithmOp.mul(X[0], c[0]);
+            for (let i = 1;i < c.length;i++) {
+                arithmOp.add(Y, arithmOp.mul(X[i], c[i]), true);
+            }
+            return Y;
+        };
+
+        /**
+         * Evaluates the [m/m] Padé approximant of exp(A) given U and V such
+         * that the approximant is given by (V - U)^{-1} (V + U).
+         */
+        const evalPade = (U: Tensor, V: Tensor): Tensor => {
+            return opLinsolve(arithmOp.sub(V, U), arithmOp.add(V, U));
+        };
+
+        const opExpm = (x: OpInput): Tensor => {
+            let A = toSquareMatrix(x).asType(DType.FLOAT64);
+            let n = A.shape[0];
+            let I = opEye(n);
+            let A2 = opMatMul(A, A);
+            let normA = opNorm(A, 1);
+            // use low degree approximants when possible
+            for (let k = 0;k < PADE_THETAS.length;k++) {
+                let [m, theta] = PADE_THETAS[k];
+                if (normA <= theta) {
+                    let b = PADE_COEFFS[m];
+                    let powers = [I, A2];
+                    for (let j = 2;j <= (m - 1) / 2;j++) {
+                        powers.push(opMatMul(powers[j - 1], A2));
+                    }
+                    let oddCoeffs: number[] = [], evenCoeffs: number[] = [];
+                    for (let j = 0;j < powers.length;j++) {
+                        evenCoeffs.push(b[2 * j]);
+                        oddCoeffs.push(b[2 * j + 1]);
+                    }
+                    let U = opMatMul(A, linearCombination(oddCoeffs, powers));
+                    let V = linearCombination(evenCoeffs, powers);
+                    return evalPade(U, V);
+                }
+            }
+            // scaling and squaring with the [13/13] Padé approximant
+            let s = Math.max(0, Math.ceil(Math.log(normA / PADE_THETA_13) / Math.LN2));
+            if (s > 0) {
+                let c = Math.pow(2, -s);
+                A = <Tensor>arithmOp.mul(A, c);
+                A2 = <Tensor>arithmOp.mul(A2, c * c);
             }
+            let b = PADE_COEFFS[13];
+            let A4 = opMatMul(A2, A2);
+            let A6 = opMatMul(A4, A2);
+            let U = opMatMul(A, arithmOp.add(
+                opMatMul(A6, linearCombination([b[13], b[11], b[9]], [A6, A4, A2])),
+                linearCombination([b[7], b[5], b[3], b[1]], [A6, A4, A2, I])));
+            let V = <Tensor>arithmOp.add(
+                opMatMul(A6, linearCombination([b[12], b[10], b[8]], [A6, A4, A2])),
+                linearCombination([b[6], b[4], b[2], b[0]], [A6, A4, A2, I]));
+            let Y = evalPade(U, V);
+            for (let i = 0;i < s;i++) {
+                Y = opMatMul(Y, Y);
+            }
+            return Y;
+        };
+
+        // Nodes and weights of the 7-point Gauss-Legendre quadrature on [0, 1]
+        // used by logm().
+        const GAUSS_LEGENDRE_NODES = [
+            0.02544604382862074, 0.12923440720030278, 0.29707742431130141, 0.5,
+            0.70292257568869859, 0.87076559279969722, 0.97455395617137926
+        ];
+        const GAUSS_LEGENDRE_WEIGHTS = [
+            0.06474248308443485, 0.13985269574463833, 0.19091502525255947, 0.20897959183673469,
+            0.19091502525255947, 0.13985269574463833, 0.06474248308443485
+        ];
+
+        /**
+         * Computes the principal logarithm of a complex upper triangular
+         * matrix using the inverse scaling and squaring method.
+         */
+        const logmTriangular = (T: Tensor): Tensor => {
+            let n = T.shape[0];
+            let reT = T.realData, imT = T.imagData;
+            for (let i = 0;i < n;i++) {
+                if (reT[i * n + i] === 0 && imT[i * n + i] === 0) {
+                    throw new Error('Matrix is singular.');
+                }
+            }
+            let I = opEye(n);
+            // take square roots until T is sufficiently close to I
+            let k = 0;
+            let X = <Tensor>arithmOp.sub(T, I);
+            while (opNorm(X, 1) > 0.25) {
+                if (k >= 64) {
+                    throw new Error('Maximum number of square roots reached.');
+                }
+                T = sqrtmTriangular(T);
+                X = <Tensor>arithmOp.sub(T, I);
+                k++;
+            }
+            // log(I + X) = \int_0^1 X (I + tX)^{-1} dt, whose Gauss-Legendre
+            // quadrature gives the diagonal Padé approximant.
+            let L = Tensor.zeros([n, n]);
+            for (let j = 0;j < GAUSS_LEGENDRE_NODES.length;j++) {
+                let M = arithmOp.add(I, arithmOp.mul(X, GAUSS_LEGENDRE_NODES[j]));
+                arithmOp.add(L, arithmOp.mul(opLinsolve(M, X), GAUSS_LEGENDRE_WEIGHTS[j]), true);
+            }
+            return <Tensor>arithmOp.mul(L, Math.pow(2, k));
+        };
+
+        const opLogm = (x: OpInput): Tensor => {
+            return evalViaSchur(toSquareMatrix(x), logmTriangular);
+        };
+
+        const opFunm = (x: OpInput, f: (x: Tensor) => OpInput): Tensor => {
+            let X = toSquareMatrix(x);
+            let n = X.shape[0];
+            let evalF = (v: Tensor): Tensor => {
+                let y = f(v);
+                let Y = y instanceof Tensor ? y : Tensor.toTensor(y);
+                if (Y.size !== n) {
+                    throw new Error(`The function should return ${n} elements instead of ${Y.size}.`);
+                }
+                return Y;
+            };
+            if (opIsHermitian(X)) {
+                // use eig and apply f to the eigenvalues directly
+                let [E, L] = opEig(X);
+                let fv = evalF(opDiag(L));
+                let Y = opMatMul(arithmOp.mul(E, fv), E, MatrixModifier.Hermitian);
+                return trimNegligibleImaginaryPart(Y, X.hasNonZeroComplexStorage());
+            }
+            return evalViaSchur(X, (T) => {
+                // Schur-Parlett recurrence
+                let reT = T.realData, imT = T.imagData;
+                let normT = opNorm(T, 1);
+                let v = opDiag(T);
+                v.ensureComplexStorage();
+                let fv = evalF(v);
+                let F = Tensor.zeros([n, n]);
+                F.ensureComplexStorage();
+                let reF = F.realData, imF = F.imagData;
+                let reFv = fv.realData;
+                let imFv = fv.hasComplexStorage() ? fv.imagData : undefined;
+                for (let i = 0;i < n;i++) {
+                    reF[i * n + i] = reFv[i];
+                    imF[i * n + i] = imFv ? imFv[i] : 0;
+                }
+                let tol = n * EPSILON * normT;
+                for (let p = 1;p < n;p++) {
+                    for (let i = 0;i < n - p;i++) {
+                        let j = i + p;
+                        // F_ij = (T_ij (F_jj - F_ii) + sum_k (T_ik F_kj - F_ik T_kj)) / (T_jj - T_ii)
+                        let dfr = reF[j * n + j] - reF[i * n + i];
+                        let dfi = imF[j * n + j] - imF[i * n + i];
+                        let sr = reT[i * n + j] * dfr - imT[i * n + j] * dfi;
+                        let si = reT[i * n + j] * dfi + imT[i * n + j] * dfr;
+                        for (let k = i + 1;k < j;k++) {
+                            sr += reT[i * n + k] * reF[k * n + j] - imT[i * n + k] * imF[k * n + j]
+                                - reF[i * n + k] * reT[k * n + j] + imF[i * n + k] * imT[k * n + j];
+                            si += reT[i * n + k] * imF[k * n + j] + imT[i * n + k] * reF[k * n + j]
+                                - reF[i * n + k] * imT[k * n + j] - imF[i * n + k] * reT[k * n + j];
+                        }
+                        let dr = reT[j * n + j] - reT[i * n + i];
+                        let di = imT[j * n + j] - imT[i * n + i];
+                        if (CMath.length2(dr, di) <= tol) {
+                            if (CMath.length2(reT[i * n + j], imT[i * n + j]) > tol || CMath.length2(sr, si) > tol) {
+                                throw new Error('Non-Hermitian matrices with repeated eigenvalues are not supported.');
+                            }
+                            continue;
+                        }
+                        [reF[i * n + j], imF[i * n + j]] = CMath.cdivCC(sr, si, dr, di);
+                    }
+                }
+                return F;
+            });
         };
 
         return {
@@ -949,6 +3193,7 @@ export class MatrixOpProviderFactory implements IJasmalModuleFactory<IMatrixOpPr
             triu: opTriu,
             matmul: opMatMul,
             kron: opKron,
+            einsum: opEinsum,
             transpose: opTranspose,
             hermitian: opHermitian,
             trace: opTrace,
@@ -959,14 +3204,44 @@ export class MatrixOpProviderFactory implements IJasmalModuleFactory<IMatrixOpPr
             svd: opSvd,
             rank: opRank,
             cond: opCond,
+            rcond: opRcond,
+            condest: opCondest,
+            null: opNull,
+            orth: opOrth,
             pinv: opPinv,
             eig: opEig,
             chol: opChol,
             qr: opQr,
+            qrupdate: opQrUpdate,
+            qrinsert: opQrInsert,
+            qrdelete: opQrDelete,
+            lstsq: opLstsq,
+            lsqnonneg: opLsqnonneg,
+            ridge: opRidge,
             linsolve: opLinsolve,
             mldivide: opMLDivide,
             mrdivide: opMRDivide,
-            sqrtm: opSqrtm
+            schur: opSchur,
+            sqrtm: opSqrtm,
+            expm: opExpm,
+            logm: opLogm,
+            funm: opFunm,
+            isSparse: opIsSparse,
+            sparse: opSparse,
+            full: opFull,
+            speye: opSpeye,
+            spadd: opSpAdd,
+            spsub: opSpSub,
+            spmul: opSpMul,
+            splu: opSplu,
+            spsolve: opSpsolve,
+            pcg: opPcg,
+            cg: opPcg,
+            gmres: opGmres,
+            bicgstab: opBicgstab,
+            lsqr: opLsqr,
+            eigs: opEigs,
+            svds: opSvds
         };
     }
 }
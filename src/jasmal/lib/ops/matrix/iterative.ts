@@ -0,0 +1,541 @@
+import { DataBlock } from '../../commonTypes';
+import { DataHelper } from '../../helper/dataHelper';
+
+/**
+ * Computes y = A x.
+ */
+export type MatVecFunction = (x: ArrayLike<number>, y: DataBlock) => void;
+
+/**
+ * Sets x to zero and reports convergence for a zero right-hand side.
+ */
+function zeroSolution(n: number, x: DataBlock, history: number[]): [number, number, number] {
+    for (let i = 0;i < n;i++) {
+        x[i] = 0;
+    }
+    history.push(0);
+    return [0, 0, 0];
+}
+
+function dot(n: number, x: ArrayLike<number>, y: ArrayLike<number>): number {
+    let s = 0;
+    for (let i = 0;i < n;i++) {
+        s += x[i] * y[i];
+    }
+    return s;
+}
+
+function norm2(n: number, x: ArrayLike<number>): number {
+    let scale = 0, ssq = 1;
+    for (let i = 0;i < n;i++) {
+        if (x[i] !== 0) {
+            let a = Math.abs(x[i]);
+            if (scale < a) {
+                ssq = 1 + ssq * (scale / a) * (scale / a);
+                scale = a;
+            } else {
+                ssq += (a / scale) * (a / scale);
+            }
+        }
+    }
+    return scale * Math.sqrt(ssq);
+}
+
+/**
+ * Computes the relative residual ||b - A x|| / ||b|| and stores the residual
+ * in r.
+ */
+function residual(n: number, matvec: MatVecFunction, b: ArrayLike<number>, x: ArrayLike<number>,
+                  r: DataBlock, nb: number): number {
+    matvec(x, r);
+    for (let i = 0;i < n;i++) {
+        r[i] = b[i] - r[i];
+    }
+    return norm2(n, r) / nb;
+}
+
+/**
+ * Iterative solvers for real linear systems A x = b, where A is only accessed
+ * through matrix-vector products. Preconditioners are also given as functions
+ * computing z = M^{-1} r.
+ * Each solver returns [flag, relres, iter], where
+ *  flag = 0: converged to the desired tolerance within maxIter iterations;
+ *  flag = 1: maxIter iterations were performed without convergence;
+ *  flag = 2: the method broke down.
+ *  relres: the relative residual ||b - A x|| / ||b||;
+ *  iter: the number of iterations performed.
+ * The relative residual after each iteration (starting with the initial
+ * guess) is appended to history.
+ */
+export class IterativeSolver {
+
+    /**
+     * Solves A x = b using the preconditioned conjugate gradient method,
+     * where both A and M are symmetric positive definite.
+     * @param n Dimension of the system.
+     * @param matvec Computes A x.
+     * @param precond Computes M^{-1} r. Set it to undefined if no
+     *                preconditioner is used.
+     * @param b Right-hand side.
+     * @param x (Input/Output) Initial guess. Will be overwritten by the
+     *          solution.
+     * @param tol Tolerance of the relative residual.
+     * @param maxIter Maximum number of iterations.
+     * @param history (Output) Relative residual history.
+     */
+    public static pcg(n: number, matvec: MatVecFunction, precond: MatVecFunction | undefined,
+                      b: ArrayLike<number>, x: DataBlock, tol: number, maxIter: number,
+                      history: number[]): [number, number, number] {
+        let nb = norm2(n, b);
+        if (nb === 0) {
+            return zeroSolution(n, x, history);
+        }
+        let r = DataHelper.allocateFloat64Array(n);
+        let z = precond ? DataHelper.allocateFloat64Array(n) : r;
+        let p = DataHelper.allocateFloat64Array(n);
+        let q = DataHelper.allocateFloat64Array(n);
+        let relres = residual(n, matvec, b, x, r, nb);
+        history.push(relres);
+        if (relres <= tol) {
+            return [0, relres, 0];
+        }
+        if (precond) {
+            precond(r, z);
+        }
+        DataHelper.copy(z, p);
+        let rz = dot(n, r, z);
+        for (let iter = 1;iter <= maxIter;iter++) {
+            if (!(rz > 0) || !isFinite(rz)) {
+                // M is not positive definite
+                return [2, relres, iter - 1];
+            }
+            matvec(p, q);
+            let pq = dot(n, p, q);
+            if (!(pq > 0) || !isFinite(pq)) {
+                // A is not positive definite
+                return [2, residual(n, matvec, b, x, r, nb), iter - 1];
+            }
+            let alpha = rz / pq;
+            for (let i = 0;i < n;i++) {
+                x[i] += alpha * p[i];
+                r[i] -= alpha * q[i];
+            }
+            relres = norm2(n, r) / nb;
+            if (relres <= tol) {
+                // confirm with the true residual
+                relres = residual(n, matvec, b, x, r, nb);
+                if (relres <= tol) {
+                    history.push(relres);
+                    return [0, relres, iter];
+                }
+            }
+            history.push(relres);
+            if (precond) {
+                precond(r, z);
+            }
+            let rzNew = dot(n, r, z);
+            let beta = rzNew / rz;
+            for (let i = 0;i < n;i++) {
+                p[i] = z[i] + beta * p[i];
+            }
+            rz = rzNew;
+        }
+        return [1, residual(n, matvec, b, x, r, nb), maxIter];
+    }
+
+    /**
+     * Solves A x = b using the restarted generalized minimal residual method
+     * with right preconditioning, i.e., A M^{-1} u = b, x = M^{-1} u, so that
+     * the minimized residual is the true residual.
+     * @param n Dimension of the system.
+     * @param matvec Computes A x.
+     * @param precond Computes M^{-1} r. Set it to undefined if no
+     *                preconditioner is used.
+     * @param b Right-hand side.
+     * @param x (Input/Output) Initial guess. Will be overwritten by the
+     *          solution.
+     * @param tol Tolerance of the relative residual.
+     * @param restart Number of inner iterations between restarts.
+     * @param maxIter Maximum number of total inner iterations.
+     * @param history (Output) Relative residual history.
+     */
+    public static gmres(n: number, matvec: MatVecFunction, precond: MatVecFunction | undefined,
+                        b: ArrayLike<number>, x: DataBlock, tol: number, restart: number, maxIter: number,
+                        history: number[]): [number, number, number] {
+        let nb = norm2(n, b);
+        if (nb === 0) {
+            return zeroSolution(n, x, history);
+        }
+        let r = DataHelper.allocateFloat64Array(n);
+        let w = DataHelper.allocateFloat64Array(n);
+        let z = precond ? DataHelper.allocateFloat64Array(n) : w;
+        // Krylov basis
+        let V: DataBlock[] = [];
+        for (let j = 0;j <= restart;j++) {
+            V.push(DataHelper.allocateFloat64Array(n));
+        }
+        // Hessenberg matrix stored column by column
+        let H: DataBlock[] = [];
+        for (let j = 0;j < restart;j++) {
+            H.push(DataHelper.allocateFloat64Array(restart + 1));
+        }
+        let cs = DataHelper.allocateFloat64Array(restart);
+        let sn = DataHelper.allocateFloat64Array(restart);
+        let g = DataHelper.allocateFloat64Array(restart + 1);
+        let y = DataHelper.allocateFloat64Array(restart);
+        let iter = 0;
+        let relres = residual(n, matvec, b, x, r, nb);
+        history.push(relres);
+        while (relres > tol && iter < maxIter) {
+            let beta = norm2(n, r);
+            let v0 = V[0];
+            for (let i = 0;i < n;i++) {
+                v0[i] = r[i] / beta;
+            }
+            for (let j = 0;j <= restart;j++) {
+                g[j] = 0;
+            }
+            g[0] = beta;
+            let k = 0;
+            let breakdown = false;
+            while (k < restart && iter < maxIter) {
+                // Arnoldi process with modified Gram-Schmidt
+                if (precond) {
+                    precond(V[k], z);
+                    matvec(z, w);
+                } else {
+                    matvec(V[k], w);
+                }
+                iter++;
+                let h = H[k];
+                for (let j = 0;j <= k;j++) {
+                    h[j] = dot(n, w, V[j]);
+                    let vj = V[j];
+                    for (let i = 0;i < n;i++) {
+                        w[i] -= h[j] * vj[i];
+                    }
+                }
+                h[k + 1] = norm2(n, w);
+                if (h[k + 1] !== 0) {
+                    let vk = V[k + 1];
+                    for (let i = 0;i < n;i++) {
+                        vk[i] = w[i] / h[k + 1];
+                    }
+                }
+                // apply previous Givens rotations
+                for (let j = 0;j < k;j++) {
+                    let t = cs[j] * h[j] + sn[j] * h[j + 1];
+                    h[j + 1] = -sn[j] * h[j] + cs[j] * h[j + 1];
+                    h[j] = t;
+                }
+                // compute a new rotation to eliminate h[k + 1]
+                let rho = Math.sqrt(h[k] * h[k] + h[k + 1] * h[k + 1]);
+                if (rho === 0) {
+                    breakdown = true;
+                    break;
+                }
+                breakdown = h[k + 1] === 0;
+                cs[k] = h[k] / rho;
+                sn[k] = h[k + 1] / rho;
+                h[k] = rho;
+                h[k + 1] = 0;
+                g[k + 1] = -sn[k] * g[k];
+                g[k] = cs[k] * g[k];
+                k++;
+                history.push(Math.abs(g[k]) / nb);
+                if (Math.abs(g[k]) / nb <= tol || breakdown) {
+                    break;
+                }
+            }
+            // solve the upper triangular system H y = g and update x
+            for (let i = k - 1;i >= 0;i--) {
+                let s = g[i];
+                for (let j = i + 1;j < k;j++) {
+                    s -= H[j][i] * y[j];
+                }
+                y[i] = s / H[i][i];
+            }
+            for (let i = 0;i < n;i++) {
+                w[i] = 0;
+            }
+            for (let j = 0;j < k;j++) {
+                let vj = V[j];
+                for (let i = 0;i < n;i++) {
+                    w[i] += y[j] * vj[i];
+                }
+            }
+            if (precond) {
+                precond(w, z);
+            }
+            for (let i = 0;i < n;i++) {
+                x[i] += z[i];
+            }
+            let prevRelres = relres;
+            relres = residual(n, matvec, b, x, r, nb);
+            if (k > 0) {
+                // replaces the estimate with the true residual
+                history[history.length - 1] = relres;
+            }
+            if (breakdown && relres > tol) {
+                // No further progress can be made if the Krylov subspace is
+                // invariant or the projected system is singular.
+                if (k === 0 || relres >= prevRelres) {
+                    return [2, relres, iter];
+                }
+            }
+        }
+        return [relres <= tol ? 0 : 1, relres, iter];
+    }
+
+    /**
+     * Solves A x = b using the stabilized biconjugate gradient method with
+     * right preconditioning.
+     * @param n Dimension of the system.
+     * @param matvec Computes A x.
+     * @param precond Computes M^{-1} r. Set it to undefined if no
+     *                preconditioner is used.
+     * @param b Right-hand side.
+     * @param x (Input/Output) Initial guess. Will be overwritten by the
+     *          solution.
+     * @param tol Tolerance of the relative residual.
+     * @param maxIter Maximum number of iterations.
+     * @param history (Output) Relative residual history.
+     */
+    public static bicgstab(n: number, matvec: MatVecFunction, precond: MatVecFunction | undefined,
+                           b: ArrayLike<number>, x: DataBlock, tol: number, maxIter: number,
+                           history: number[]): [number, number, number] {
+        let nb = norm2(n, b);
+        if (nb === 0) {
+            return zeroSolution(n, x, history);
+        }
+        let r = DataHelper.allocateFloat64Array(n);
+        let rHat = DataHelper.allocateFloat64Array(n);
+        let p = DataHelper.allocateFloat64Array(n);
+        let v = DataHelper.allocateFloat64Array(n);
+        let t = DataHelper.allocateFloat64Array(n);
+        let pHat = precond ? DataHelper.allocateFloat64Array(n) : p;
+        let sHat = precond ? DataHelper.allocateFloat64Array(n) : r;
+        let relres = residual(n, matvec, b, x, r, nb);
+        history.push(relres);
+        if (relres <= tol) {
+            return [0, relres, 0];
+        }
+        DataHelper.copy(r, rHat);
+        let rho = 1, alpha = 1, omega = 1;
+        for (let iter = 1;iter <= maxIter;iter++) {
+            let rhoNew = dot(n, rHat, r);
+            if (rhoNew === 0 || !isFinite(rhoNew)) {
+                return [2, residual(n, matvec, b, x, r, nb), iter - 1];
+            }
+            let beta = (rhoNew / rho) * (alpha / omega);
+            for (let i = 0;i < n;i++) {
+                p[i] = r[i] + beta * (p[i] - omega * v[i]);
+            }
+            if (precond) {
+                precond(p, pHat);
+            }
+            matvec(pHat, v);
+            let rv = dot(n, rHat, v);
+            if (rv === 0 || !isFinite(rv)) {
+                return [2, residual(n, matvec, b, x, r, nb), iter - 1];
+            }
+            alpha = rhoNew / rv;
+            // r now stores s = r - alpha v
+            for (let i = 0;i < n;i++) {
+                r[i] -= alpha * v[i];
+            }
+            if (norm2(n, r) / nb <= tol) {
+                for (let i = 0;i < n;i++) {
+                    x[i] += alpha * pHat[i];
+                }
+                relres = residual(n, matvec, b, x, r, nb);
+                if (relres <= tol) {
+                    history.push(relres);
+                    return [0, relres, iter];
+                }
+                // The recursively updated residual drifted away from the
+                // true residual. Restarts with the true residual.
+                history.push(relres);
+                DataHelper.copy(r, rHat);
+                rho = 1;
+                alpha = 1;
+                omega = 1;
+                for (let i = 0;i < n;i++) {
+                    p[i] = 0;
+                    v[i] = 0;
+                }
+                continue;
+            }
+            if (precond) {
+                precond(r, sHat);
+            }
+            matvec(sHat, t);
+            let tt = dot(n, t, t);
+            omega = tt === 0 ? 0 : dot(n, t, r) / tt;
+            for (let i = 0;i < n;i++) {
+                x[i] += alpha * pHat[i] + omega * sHat[i];
+            }
+            for (let i = 0;i < n;i++) {
+                r[i] -= omega * t[i];
+            }
+            relres = norm2(n, r) / nb;
+            if (relres <= tol) {
+                relres = residual(n, matvec, b, x, r, nb);
+                if (relres <= tol) {
+                    history.push(relres);
+                    return [0, relres, iter];
+                }
+            }
+            history.push(relres);
+            if (omega === 0 || !isFinite(omega)) {
+                return [2, residual(n, matvec, b, x, r, nb), iter];
+            }
+            rho = rhoNew;
+        }
+        return [1, residual(n, matvec, b, x, r, nb), maxIter];
+    }
+
+    /**
+     * Solves the least squares problem min ||b - A x|| using the LSQR method
+     * of Paige and Saunders with right preconditioning, where A is m x n.
+     * The method is considered converged if either ||b - A x|| / ||b|| or
+     * the estimated ||A^T r|| / (||A|| ||r||) falls below tol.
+     * @param m Number of rows of A.
+     * @param n Number of columns of A.
+     * @param matvec Computes A x.
+     * @param rmatvec Computes A^T y.
+     * @param precond Computes M^{-1} r. Set it to undefined if no
+     *                preconditioner is used.
+     * @param rprecond Computes M^{-T} r.
+     * @param b Right-hand side of length m.
+     * @param x (Input/Output) Initial guess of length n. Will be overwritten
+     *          by the solution.
+     * @param tol Tolerance.
+     * @param maxIter Maximum number of iterations.
+     * @param history (Output) Relative residual history.
+     */
+    public static lsqr(m: number, n: number, matvec: MatVecFunction, rmatvec: MatVecFunction,
+                       precond: MatVecFunction | undefined, rprecond: MatVecFunction | undefined,
+                       b: ArrayLike<number>, x: DataBlock, tol: number, maxIter: number,
+                       history: number[]): [number, number, number] {
+        let nb = norm2(m, b);
+        if (nb === 0) {
+            return zeroSolution(n, x, history);
+        }
+        let u = DataHelper.allocateFloat64Array(m);
+        let tu = DataHelper.allocateFloat64Array(m);
+        let v = DataHelper.allocateFloat64Array(n);
+        let tv = DataHelper.allocateFloat64Array(n);
+        let w = DataHelper.allocateFloat64Array(n);
+        // correction in the preconditioned space
+        let y = DataHelper.allocateFloat64Array(n);
+        let x0 = DataHelper.allocateFloat64Array(n);
+        DataHelper.copy(x, x0);
+        // A M^{-1} v and M^{-T} A^T u
+        const op = (src: DataBlock, dst: DataBlock): void => {
+            if (precond) {
+                precond(src, tv);
+                matvec(tv, dst);
+            } else {
+                matvec(src, dst);
+            }
+        };
+        const rop = (src: DataBlock, dst: DataBlock): void => {
+            if (rprecond) {
+                rmatvec(src, tv);
+                rprecond(tv, dst);
+            } else {
+                rmatvec(src, dst);
+            }
+        };
+        const updateSolution = (): void => {
+            if (precond) {
+                precond(y, tv);
+            } else {
+                DataHelper.copy(y, tv);
+            }
+            for (let i = 0;i < n;i++) {
+                x[i] = x0[i] + tv[i];
+            }
+        };
+        let relres = residual(m, matvec, b, x, u, nb);
+        history.push(relres);
+        if (relres <= tol) {
+            return [0, relres, 0];
+        }
+        let beta = norm2(m, u);
+        for (let i = 0;i < m;i++) {
+            u[i] /= beta;
+        }
+        rop(u, v);
+        let alpha = norm2(n, v);
+        if (alpha === 0) {
+            // A^T r = 0 so x is already a least squares solution
+            return [0, relres, 0];
+        }
+        for (let i = 0;i < n;i++) {
+            v[i] /= alpha;
+        }
+        DataHelper.copy(v, w);
+        let phiBar = beta, rhoBar = alpha;
+        let normA2 = alpha * alpha;
+        for (let iter = 1;iter <= maxIter;iter++) {
+            // bidiagonalization
+            op(v, tu);
+            for (let i = 0;i < m;i++) {
+                u[i] = tu[i] - alpha * u[i];
+            }
+            beta = norm2(m, u);
+            if (beta > 0) {
+                for (let i = 0;i < m;i++) {
+                    u[i] /= beta;
+                }
+                rop(u, tv);
+                for (let i = 0;i < n;i++) {
+                    v[i] = tv[i] - beta * v[i];
+                }
+                alpha = norm2(n, v);
+                if (alpha > 0) {
+                    for (let i = 0;i < n;i++) {
+                        v[i] /= alpha;
+                    }
+                }
+            } else {
+                alpha = 0;
+            }
+            normA2 += alpha * alpha + beta * beta;
+            // plane rotation
+            let rho = Math.sqrt(rhoBar * rhoBar + beta * beta);
+            if (rho === 0 || !isFinite(rho)) {
+                updateSolution();
+                return [2, residual(m, matvec, b, x, tu, nb), iter - 1];
+            }
+            let c = rhoBar / rho;
+            let s = beta / rho;
+            let theta = s * alpha;
+            rhoBar = -c * alpha;
+            let phi = c * phiBar;
+            phiBar = s * phiBar;
+            for (let i = 0;i < n;i++) {
+                y[i] += (phi / rho) * w[i];
+                w[i] = v[i] - (theta / rho) * w[i];
+            }
+            relres = phiBar / nb;
+            // estimate of ||A^T r|| / (||A|| ||r||)
+            let normalRes = alpha * Math.abs(c) / Math.sqrt(normA2);
+            if (relres <= tol || phiBar === 0 || normalRes <= tol || alpha === 0) {
+                updateSolution();
+                relres = residual(m, matvec, b, x, tu, nb);
+                history.push(relres);
+                if (relres <= tol || normalRes <= tol || alpha === 0 || phiBar === 0) {
+                    return [0, relres, iter];
+                }
+                continue;
+            }
+            history.push(relres);
+        }
+        updateSolution();
+        return [1, residual(m, matvec, b, x, tu, nb), maxIter];
+    }
+
+}
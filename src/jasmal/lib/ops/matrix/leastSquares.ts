@@ -0,0 +1,152 @@
+import { DataBlock } from '../../commonTypes';
+import { DataHelper } from '../../helper/dataHelper';
+import { IQRBackend } from '../../linalg/backend';
+
+/**
+ * Solvers for constrained real linear least squares problems.
+ */
+export class ConstrainedLeastSquares {
+
+    /**
+     * Computes the residual r = d - C x and the negative gradient w = C^T r.
+     */
+    private static _gradient(m: number, n: number, c: ArrayLike<number>, d: ArrayLike<number>,
+                             x: ArrayLike<number>, r: DataBlock, w: DataBlock): void {
+        let i: number, j: number, s: number;
+        for (i = 0;i < m;i++) {
+            s = d[i];
+            for (j = 0;j < n;j++) {
+                s -= c[i * n + j] * x[j];
+            }
+            r[i] = s;
+        }
+        for (j = 0;j < n;j++) {
+            s = 0;
+            for (i = 0;i < m;i++) {
+                s += c[i * n + j] * r[i];
+            }
+            w[j] = s;
+        }
+    }
+
+    /**
+     * Solves the unconstrained least squares problem restricted to the
+     * passive set: min ||C(:, P) z(P) - d||_2 with z(j) = 0 for j not in P.
+     */
+    private static _solvePassive(qr: IQRBackend, m: number, n: number, c: ArrayLike<number>,
+                                 d: ArrayLike<number>, passive: boolean[], z: DataBlock): void {
+        let indices: number[] = [];
+        for (let j = 0;j < n;j++) {
+            z[j] = 0;
+            if (passive[j]) {
+                indices.push(j);
+            }
+        }
+        let k = indices.length;
+        if (k === 0) {
+            return;
+        }
+        // qrSolve() destroys its inputs
+        let a = DataHelper.allocateFloat64Array(m * k);
+        let b = DataHelper.allocateFloat64Array(m);
+        let zp = DataHelper.allocateFloat64Array(k);
+        for (let i = 0;i < m;i++) {
+            for (let j = 0;j < k;j++) {
+                a[i * k + j] = c[i * n + indices[j]];
+            }
+            b[i] = d[i];
+        }
+        qr.qrSolve(m, k, 1, a, b, zp);
+        for (let j = 0;j < k;j++) {
+            z[indices[j]] = zp[j];
+        }
+    }
+
+    /**
+     * Solves min ||C x - d||_2 subject to x >= 0 using the active set method
+     * of Lawson and Hanson.
+     * @param qr Backend used to solve the unconstrained subproblems.
+     * @param m Number of rows of C.
+     * @param n Number of columns of C.
+     * @param c m x n matrix C.
+     * @param d Vector d of length m.
+     * @param x (Output) Solution of length n.
+     * @param r (Output) Residual d - C x of length m.
+     * @param tol Tolerance used to determine whether a variable is zero and
+     *            whether the Lagrange multipliers are positive.
+     * @param maxIter Maximum number of iterations.
+     * @returns [exitFlag, iterations] where exitFlag is 1 if the method
+     *          converged and 0 if the maximum number of iterations was
+     *          reached.
+     */
+    public static lsqnonneg(qr: IQRBackend, m: number, n: number, c: ArrayLike<number>,
+                            d: ArrayLike<number>, x: DataBlock, r: DataBlock, tol: number,
+                            maxIter: number): [number, number] {
+        let j: number;
+        let passive: boolean[] = new Array(n);
+        let z = DataHelper.allocateFloat64Array(n);
+        let w = DataHelper.allocateFloat64Array(n);
+        for (j = 0;j < n;j++) {
+            passive[j] = false;
+            x[j] = 0;
+        }
+        let iter = 0;
+        ConstrainedLeastSquares._gradient(m, n, c, d, x, r, w);
+        while (true) {
+            // Select the active variable with the largest Lagrange multiplier.
+            // The current x is optimal if there is none.
+            let t = -1;
+            let wMax = tol;
+            for (j = 0;j < n;j++) {
+                if (!passive[j] && w[j] > wMax) {
+                    wMax = w[j];
+                    t = j;
+                }
+            }
+            if (t < 0) {
+                break;
+            }
+            if (iter >= maxIter) {
+                return [0, iter];
+            }
+            iter++;
+            passive[t] = true;
+            ConstrainedLeastSquares._solvePassive(qr, m, n, c, d, passive, z);
+            // Move back towards x until all passive variables are positive.
+            while (true) {
+                let alpha = Infinity;
+                let q = -1;
+                for (j = 0;j < n;j++) {
+                    if (passive[j] && z[j] <= 0) {
+                        let a = x[j] / (x[j] - z[j]);
+                        if (a < alpha) {
+                            alpha = a;
+                            q = j;
+                        }
+                    }
+                }
+                if (q < 0) {
+                    break;
+                }
+                if (iter >= maxIter) {
+                    ConstrainedLeastSquares._gradient(m, n, c, d, x, r, w);
+                    return [0, iter];
+                }
+                iter++;
+                for (j = 0;j < n;j++) {
+                    x[j] += alpha * (z[j] - x[j]);
+                    if (passive[j] && (j === q || Math.abs(x[j]) < tol)) {
+                        passive[j] = false;
+                        x[j] = 0;
+                    }
+                }
+                ConstrainedLeastSquares._solvePassive(qr, m, n, c, d, passive, z);
+            }
+            for (j = 0;j < n;j++) {
+                x[j] = z[j];
+            }
+            ConstrainedLeastSquares._gradient(m, n, c, d, x, r, w);
+        }
+        return [1, iter];
+    }
+}
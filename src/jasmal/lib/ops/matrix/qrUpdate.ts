@@ -0,0 +1,374 @@
+import { DataBlock } from '../../commonTypes';
+import { CMath } from '../../math/cmath';
+import { DataHelper } from '../../helper/dataHelper';
+
+/**
+ * Helper functions for updating a full QR decomposition A = QR, where Q is
+ * m x m and R is m x n, without recomputing it from scratch. The updates are
+ * carried out with Givens rotations so each one costs O(m^2 + mn) instead of
+ * O(m^2 n). All matrices are stored in row-major order. The imaginary parts
+ * should be set to undefined if all inputs are real, in which case no
+ * imaginary parts will be produced.
+ */
+export class QRUpdateFunction {
+
+    /**
+     * Computes a Givens rotation G = [c s; -conj(s) c] with a real c such
+     * that G [a; b] = [r; 0].
+     * @param g (Output) Stores [c, re(s), im(s)].
+     */
+    private static _givens(reA: number, imA: number, reB: number, imB: number, g: DataBlock): void {
+        let absA = CMath.length2(reA, imA);
+        let absB = CMath.length2(reB, imB);
+        if (absB === 0) {
+            g[0] = 1;
+            g[1] = 0;
+            g[2] = 0;
+        } else if (absA === 0) {
+            g[0] = 0;
+            g[1] = reB / absB;
+            g[2] = -imB / absB;
+        } else {
+            let rho = CMath.length2(absA, absB);
+            g[0] = absA / rho;
+            // s = (a / |a|) conj(b) / rho
+            g[1] = (reA * reB + imA * imB) / absA / rho;
+            g[2] = (imA * reB - reA * imB) / absA / rho;
+        }
+    }
+
+    /**
+     * Applies G to the k-th and (k+1)-th rows of a matrix with n columns,
+     * starting from the j0-th column.
+     */
+    private static _rotateRows(n: number, re: DataBlock, im: DataBlock | undefined,
+                               k: number, j0: number, g: DataBlock): void {
+        let c = g[0], sr = g[1], si = g[2];
+        let o1 = k * n, o2 = (k + 1) * n;
+        let xr: number, xi: number, yr: number, yi: number;
+        if (im) {
+            for (let j = j0;j < n;j++) {
+                xr = re[o1 + j];
+                xi = im[o1 + j];
+                yr = re[o2 + j];
+                yi = im[o2 + j];
+                // x <- c x + s y, y <- c y - conj(s) x
+                re[o1 + j] = c * xr + sr * yr - si * yi;
+                im[o1 + j] = c * xi + sr * yi + si * yr;
+                re[o2 + j] = c * yr - sr * xr - si * xi;
+                im[o2 + j] = c * yi - sr * xi + si * xr;
+            }
+        } else {
+            for (let j = j0;j < n;j++) {
+                xr = re[o1 + j];
+                yr = re[o2 + j];
+                re[o1 + j] = c * xr + sr * yr;
+                re[o2 + j] = c * yr - sr * xr;
+            }
+        }
+    }
+
+    /**
+     * Applies G^H from the right to the k-th and (k+1)-th columns of an
+     * m x n matrix.
+     */
+    private static _rotateColumns(m: number, n: number, re: DataBlock, im: DataBlock | undefined,
+                                  k: number, g: DataBlock): void {
+        let c = g[0], sr = g[1], si = g[2];
+        let xr: number, xi: number, yr: number, yi: number;
+        if (im) {
+            for (let i = 0;i < m;i++) {
+                xr = re[i * n + k];
+                xi = im[i * n + k];
+                yr = re[i * n + k + 1];
+                yi = im[i * n + k + 1];
+                // x <- c x + conj(s) y, y <- c y - s x
+                re[i * n + k] = c * xr + sr * yr + si * yi;
+                im[i * n + k] = c * xi + sr * yi - si * yr;
+                re[i * n + k + 1] = c * yr - sr * xr + si * xi;
+                im[i * n + k + 1] = c * yi - sr * xi - si * xr;
+            }
+        } else {
+            for (let i = 0;i < m;i++) {
+                xr = re[i * n + k];
+                yr = re[i * n + k + 1];
+                re[i * n + k] = c * xr + sr * yr;
+                re[i * n + k + 1] = c * yr - sr * xr;
+            }
+        }
+    }
+
+    /**
+     * Reduces the upper Hessenberg part of R (m x n) back to the upper
+     * triangular form by zeroing the subdiagonal elements in columns
+     * k0, k0 + 1, ..., and applies the rotations to Q (m x m).
+     */
+    private static _zeroSubdiagonal(m: number, n: number, qRe: DataBlock, qIm: DataBlock | undefined,
+                                    rRe: DataBlock, rIm: DataBlock | undefined, k0: number,
+                                    g: DataBlock): void {
+        let l = Math.min(m - 1, n);
+        for (let k = k0;k < l;k++) {
+            QRUpdateFunction._givens(rRe[k * n + k], rIm ? rIm[k * n + k] : 0,
+                rRe[(k + 1) * n + k], rIm ? rIm[(k + 1) * n + k] : 0, g);
+            QRUpdateFunction._rotateRows(n, rRe, rIm, k, k, g);
+            rRe[(k + 1) * n + k] = 0;
+            if (rIm) {
+                rIm[(k + 1) * n + k] = 0;
+            }
+            QRUpdateFunction._rotateColumns(m, m, qRe, qIm, k, g);
+        }
+    }
+
+    /**
+     * Computes w = Q^H x, where Q is m x m.
+     */
+    private static _applyQH(m: number, qRe: DataBlock, qIm: DataBlock | undefined,
+                            xRe: ArrayLike<number>, xIm: ArrayLike<number> | undefined,
+                            wRe: DataBlock, wIm: DataBlock | undefined): void {
+        let i: number, k: number;
+        for (k = 0;k < m;k++) {
+            wRe[k] = 0;
+            if (wIm) {
+                wIm[k] = 0;
+            }
+        }
+        if (qIm && xIm && wIm) {
+            for (i = 0;i < m;i++) {
+                for (k = 0;k < m;k++) {
+                    wRe[k] += qRe[i * m + k] * xRe[i] + qIm[i * m + k] * xIm[i];
+                    wIm[k] += qRe[i * m + k] * xIm[i] - qIm[i * m + k] * xRe[i];
+                }
+            }
+        } else {
+            for (i = 0;i < m;i++) {
+                for (k = 0;k < m;k++) {
+                    wRe[k] += qRe[i * m + k] * xRe[i];
+                }
+            }
+        }
+    }
+
+    /**
+     * Computes the QR decomposition of A + uv^H given A = QR.
+     * @param m Number of rows of R.
+     * @param n Number of columns of R.
+     * @param qRe (Input/Output) Real part of Q (m x m).
+     * @param qIm (Input/Output) Imaginary part of Q.
+     * @param rRe (Input/Output) Real part of R (m x n).
+     * @param rIm (Input/Output) Imaginary part of R.
+     * @param uRe Real part of u (m).
+     * @param uIm Imaginary part of u.
+     * @param vRe Real part of v (n).
+     * @param vIm Imaginary part of v.
+     */
+    public static update(m: number, n: number, qRe: DataBlock, qIm: DataBlock | undefined,
+                         rRe: DataBlock, rIm: DataBlock | undefined,
+                         uRe: ArrayLike<number>, uIm: ArrayLike<number> | undefined,
+                         vRe: ArrayLike<number>, vIm: ArrayLike<number> | undefined): void {
+        let g = DataHelper.allocateFloat64Array(3);
+        let wRe = DataHelper.allocateFloat64Array(m);
+        let wIm = qIm ? DataHelper.allocateFloat64Array(m) : undefined;
+        // A + uv^H = Q(R + wv^H) where w = Q^H u
+        QRUpdateFunction._applyQH(m, qRe, qIm, uRe, uIm, wRe, wIm);
+        // reduce w to a multiple of e_1 from the bottom up, which turns R
+        // into an upper Hessenberg matrix
+        for (let k = m - 2;k >= 0;k--) {
+            QRUpdateFunction._givens(wRe[k], wIm ? wIm[k] : 0, wRe[k + 1], wIm ? wIm[k + 1] : 0, g);
+            QRUpdateFunction._rotateRows(1, wRe, wIm, k, 0, g);
+            QRUpdateFunction._rotateRows(n, rRe, rIm, k, Math.min(k, n), g);
+            QRUpdateFunction._rotateColumns(m, m, qRe, qIm, k, g);
+        }
+        // R <- R + w_1 e_1 v^H
+        for (let j = 0;j < n;j++) {
+            if (rIm && wIm && vIm) {
+                rRe[j] += wRe[0] * vRe[j] + wIm[0] * vIm[j];
+                rIm[j] += wIm[0] * vRe[j] - wRe[0] * vIm[j];
+            } else {
+                rRe[j] += wRe[0] * vRe[j];
+            }
+        }
+        QRUpdateFunction._zeroSubdiagonal(m, n, qRe, qIm, rRe, rIm, 0, g);
+    }
+
+    /**
+     * Computes the QR decomposition of the matrix formed by inserting x
+     * before the j-th column of A, given A = QR.
+     * @param m Number of rows of R.
+     * @param n Number of columns of R.
+     * @param qRe (Input/Output) Real part of Q (m x m).
+     * @param qIm (Input/Output) Imaginary part of Q.
+     * @param rRe (Input) Real part of R (m x n).
+     * @param rIm (Input) Imaginary part of R.
+     * @param j Index of the inserted column (0 <= j <= n).
+     * @param xRe Real part of x (m).
+     * @param xIm Imaginary part of x.
+     * @param r1Re (Output) Real part of the new R (m x (n + 1)).
+     * @param r1Im (Output) Imaginary part of the new R.
+     */
+    public static insertColumn(m: number, n: number, qRe: DataBlock, qIm: DataBlock | undefined,
+                               rRe: ArrayLike<number>, rIm: ArrayLike<number> | undefined, j: number,
+                               xRe: ArrayLike<number>, xIm: ArrayLike<number> | undefined,
+                               r1Re: DataBlock, r1Im: DataBlock | undefined): void {
+        let g = DataHelper.allocateFloat64Array(3);
+        let wRe = DataHelper.allocateFloat64Array(m);
+        let wIm = qIm ? DataHelper.allocateFloat64Array(m) : undefined;
+        let n1 = n + 1;
+        QRUpdateFunction._applyQH(m, qRe, qIm, xRe, xIm, wRe, wIm);
+        // R1 = [R(:, 0:j-1), Q^H x, R(:, j:n-1)]
+        for (let i = 0;i < m;i++) {
+            for (let k = 0;k < n1;k++) {
+                if (k === j) {
+                    r1Re[i * n1 + k] = wRe[i];
+                } else {
+                    r1Re[i * n1 + k] = rRe[i * n + (k < j ? k : k - 1)];
+                }
+                if (r1Im && rIm && wIm) {
+                    r1Im[i * n1 + k] = k === j ? wIm[i] : rIm[i * n + (k < j ? k : k - 1)];
+                }
+            }
+        }
+        // zero the j-th column below the diagonal from the bottom up
+        for (let k = m - 2;k >= j;k--) {
+            QRUpdateFunction._givens(r1Re[k * n1 + j], r1Im ? r1Im[k * n1 + j] : 0,
+                r1Re[(k + 1) * n1 + j], r1Im ? r1Im[(k + 1) * n1 + j] : 0, g);
+            QRUpdateFunction._rotateRows(n1, r1Re, r1Im, k, j, g);
+            r1Re[(k + 1) * n1 + j] = 0;
+            if (r1Im) {
+                r1Im[(k + 1) * n1 + j] = 0;
+            }
+            QRUpdateFunction._rotateColumns(m, m, qRe, qIm, k, g);
+        }
+    }
+
+    /**
+     * Computes the QR decomposition of the matrix formed by inserting x
+     * before the j-th row of A, given A = QR.
+     * @param m Number of rows of R.
+     * @param n Number of columns of R.
+     * @param qRe (Input) Real part of Q (m x m).
+     * @param qIm (Input) Imaginary part of Q.
+     * @param rRe (Input) Real part of R (m x n).
+     * @param rIm (Input) Imaginary part of R.
+     * @param j Index of the inserted row (0 <= j <= m).
+     * @param xRe Real part of x (n).
+     * @param xIm Imaginary part of x.
+     * @param q1Re (Output) Real part of the new Q ((m + 1) x (m + 1)). Must
+     *             be initialized with zeros.
+     * @param q1Im (Output) Imaginary part of the new Q. Must be initialized
+     *             with zeros.
+     * @param r1Re (Output) Real part of the new R ((m + 1) x n).
+     * @param r1Im (Output) Imaginary part of the new R.
+     */
+    public static insertRow(m: number, n: number, qRe: ArrayLike<number>, qIm: ArrayLike<number> | undefined,
+                            rRe: ArrayLike<number>, rIm: ArrayLike<number> | undefined, j: number,
+                            xRe: ArrayLike<number>, xIm: ArrayLike<number> | undefined,
+                            q1Re: DataBlock, q1Im: DataBlock | undefined,
+                            r1Re: DataBlock, r1Im: DataBlock | undefined): void {
+        let g = DataHelper.allocateFloat64Array(3);
+        let m1 = m + 1;
+        // A1 = P [x^T; A] = (P [1 0; 0 Q]) [x^T; R] where P moves the first
+        // row to the j-th row
+        q1Re[j * m1] = 1;
+        for (let i = 0;i < m;i++) {
+            let i1 = i < j ? i : i + 1;
+            for (let k = 0;k < m;k++) {
+                q1Re[i1 * m1 + k + 1] = qRe[i * m + k];
+                if (q1Im && qIm) {
+                    q1Im[i1 * m1 + k + 1] = qIm[i * m + k];
+                }
+            }
+        }
+        for (let k = 0;k < n;k++) {
+            r1Re[k] = xRe[k];
+            if (r1Im && xIm) {
+                r1Im[k] = xIm[k];
+            }
+        }
+        for (let i = 0;i < m * n;i++) {
+            r1Re[n + i] = rRe[i];
+            if (r1Im && rIm) {
+                r1Im[n + i] = rIm[i];
+            }
+        }
+        // [x^T; R] is upper Hessenberg
+        QRUpdateFunction._zeroSubdiagonal(m1, n, q1Re, q1Im, r1Re, r1Im, 0, g);
+    }
+
+    /**
+     * Computes the QR decomposition of the matrix formed by removing the j-th
+     * column of A, given A = QR.
+     * @param m Number of rows of R.
+     * @param n Number of columns of R.
+     * @param qRe (Input/Output) Real part of Q (m x m).
+     * @param qIm (Input/Output) Imaginary part of Q.
+     * @param rRe (Input) Real part of R (m x n).
+     * @param rIm (Input) Imaginary part of R.
+     * @param j Index of the column to be removed.
+     * @param r1Re (Output) Real part of the new R (m x (n - 1)).
+     * @param r1Im (Output) Imaginary part of the new R.
+     */
+    public static deleteColumn(m: number, n: number, qRe: DataBlock, qIm: DataBlock | undefined,
+                               rRe: ArrayLike<number>, rIm: ArrayLike<number> | undefined, j: number,
+                               r1Re: DataBlock, r1Im: DataBlock | undefined): void {
+        let g = DataHelper.allocateFloat64Array(3);
+        let n1 = n - 1;
+        for (let i = 0;i < m;i++) {
+            for (let k = 0;k < n1;k++) {
+                r1Re[i * n1 + k] = rRe[i * n + (k < j ? k : k + 1)];
+                if (r1Im && rIm) {
+                    r1Im[i * n1 + k] = rIm[i * n + (k < j ? k : k + 1)];
+                }
+            }
+        }
+        // columns j, j + 1, ... of R1 are upper Hessenberg
+        QRUpdateFunction._zeroSubdiagonal(m, n1, qRe, qIm, r1Re, r1Im, j, g);
+    }
+
+    /**
+     * Computes the QR decomposition of the matrix formed by removing the j-th
+     * row of A, given A = QR.
+     * @param m Number of rows of R.
+     * @param n Number of columns of R.
+     * @param qRe (Input/Destroyed) Real part of Q (m x m).
+     * @param qIm (Input/Destroyed) Imaginary part of Q.
+     * @param rRe (Input/Destroyed) Real part of R (m x n).
+     * @param rIm (Input/Destroyed) Imaginary part of R.
+     * @param j Index of the row to be removed.
+     * @param q1Re (Output) Real part of the new Q ((m - 1) x (m - 1)).
+     * @param q1Im (Output) Imaginary part of the new Q.
+     * @param r1Re (Output) Real part of the new R ((m - 1) x n).
+     * @param r1Im (Output) Imaginary part of the new R.
+     */
+    public static deleteRow(m: number, n: number, qRe: DataBlock, qIm: DataBlock | undefined,
+                            rRe: DataBlock, rIm: DataBlock | undefined, j: number,
+                            q1Re: DataBlock, q1Im: DataBlock | undefined,
+                            r1Re: DataBlock, r1Im: DataBlock | undefined): void {
+        let g = DataHelper.allocateFloat64Array(3);
+        let m1 = m - 1;
+        // reduce the j-th row of Q to a multiple of e_1^T from the right so
+        // that the first column of Q becomes a multiple of e_j
+        for (let k = m - 2;k >= 0;k--) {
+            // we need c q_{j,k+1} = s q_{j,k}
+            QRUpdateFunction._givens(qRe[j * m + k], qIm ? -qIm[j * m + k] : 0,
+                qRe[j * m + k + 1], qIm ? -qIm[j * m + k + 1] : 0, g);
+            QRUpdateFunction._rotateRows(n, rRe, rIm, k, Math.min(k, n), g);
+            QRUpdateFunction._rotateColumns(m, m, qRe, qIm, k, g);
+        }
+        // drop the j-th row and the first column of Q, and the first row of R
+        for (let i = 0;i < m1;i++) {
+            let i0 = i < j ? i : i + 1;
+            for (let k = 0;k < m1;k++) {
+                q1Re[i * m1 + k] = qRe[i0 * m + k + 1];
+                if (q1Im && qIm) {
+                    q1Im[i * m1 + k] = qIm[i0 * m + k + 1];
+                }
+            }
+        }
+        for (let i = 0;i < m1 * n;i++) {
+            r1Re[i] = rRe[n + i];
+            if (r1Im && rIm) {
+                r1Im[i] = rIm[n + i];
+            }
+        }
+    }
+}
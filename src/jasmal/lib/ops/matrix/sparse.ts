@@ -0,0 +1,716 @@
+import { SparseMatrix } from '../../core/sparseMatrix';
+import { Tensor } from '../../core/tensor';
+import { DataBlock } from '../../commonTypes';
+import { DataHelper } from '../../helper/dataHelper';
+
+/**
+ * Dynamically growing storage for the columns of sparse factors.
+ */
+class SparseColumnBuilder {
+
+    public indptr: DataBlock;
+    public indices: DataBlock;
+    public values: DataBlock;
+    public nnz: number = 0;
+
+    constructor(n: number, capacity: number) {
+        this.indptr = DataHelper.allocateInt32Array(n + 1);
+        this.indices = DataHelper.allocateInt32Array(Math.max(capacity, 1));
+        this.values = DataHelper.allocateFloat64Array(Math.max(capacity, 1));
+    }
+
+    public push(index: number, value: number): void {
+        if (this.nnz === this.indices.length) {
+            let indices = DataHelper.allocateInt32Array(2 * this.nnz);
+            let values = DataHelper.allocateFloat64Array(2 * this.nnz);
+            DataHelper.copy(this.indices, indices);
+            DataHelper.copy(this.values, values);
+            this.indices = indices;
+            this.values = values;
+        }
+        this.indices[this.nnz] = index;
+        this.values[this.nnz] = value;
+        this.nnz++;
+    }
+
+    public build(n: number): SparseMatrix {
+        let indices = DataHelper.allocateInt32Array(this.nnz);
+        let values = DataHelper.allocateFloat64Array(this.nnz);
+        DataHelper.copy(this.indices, indices, 0, 0, this.nnz);
+        DataHelper.copy(this.values, values, 0, 0, this.nnz);
+        // Rows within each column are in topological order. Converting back
+        // and forth sorts them.
+        return new SparseMatrix('csc', n, n, this.indptr, indices, values).asFormat('csr').asFormat('csc');
+    }
+}
+
+export class SparseMatrixFunction {
+
+    /**
+     * Computes alpha x + beta y. The output has the same format as x.
+     */
+    public static add(x: SparseMatrix, y: SparseMatrix, alpha: number, beta: number): SparseMatrix {
+        let [m, n] = x.shape;
+        let shapeY = y.shape;
+        if (m !== shapeY[0] || n !== shapeY[1]) {
+            throw new Error(`Matrix dimensions (${m}, ${n}) and (${shapeY[0]}, ${shapeY[1]}) are not compatible.`);
+        }
+        y = y.asFormat(x.format);
+        let nMajor = x.format === 'csr' ? m : n;
+        let isComplex = x.hasComplexStorage() || y.hasComplexStorage();
+        let pX = x.indptr, iX = x.indices, reX = x.realData, imX = x.hasComplexStorage() ? x.imagData : undefined;
+        let pY = y.indptr, iY = y.indices, reY = y.realData, imY = y.hasComplexStorage() ? y.imagData : undefined;
+        let capacity = x.nnz + y.nnz;
+        let indptr = DataHelper.allocateInt32Array(nMajor + 1);
+        let indices = DataHelper.allocateInt32Array(capacity);
+        let re = DataHelper.allocateFloat64Array(capacity);
+        let im = isComplex ? DataHelper.allocateFloat64Array(capacity) : undefined;
+        let nz = 0;
+        for (let i = 0;i < nMajor;i++) {
+            let kx = pX[i], ky = pY[i];
+            let endX = pX[i + 1], endY = pY[i + 1];
+            while (kx < endX || ky < endY) {
+                let jx = kx < endX ? iX[kx] : Infinity;
+                let jy = ky < endY ? iY[ky] : Infinity;
+                let j = Math.min(jx, jy);
+                let vRe = 0, vIm = 0;
+                if (jx === j) {
+                    vRe += alpha * reX[kx];
+                    vIm += imX ? alpha * imX[kx] : 0;
+                    kx++;
+                }
+                if (jy === j) {
+                    vRe += beta * reY[ky];
+                    vIm += imY ? beta * imY[ky] : 0;
+                    ky++;
+                }
+                if (vRe !== 0 || vIm !== 0) {
+                    indices[nz] = j;
+                    re[nz] = vRe;
+                    if (im) {
+                        im[nz] = vIm;
+                    }
+                    nz++;
+                }
+            }
+            indptr[i + 1] = nz;
+        }
+        return SparseMatrixFunction._create(x.format, m, n, indptr, indices, re, im, nz);
+    }
+
+    /**
+     * Computes the element-wise product between two sparse matrices. The
+     * output has the same format as x.
+     */
+    public static mulSparse(x: SparseMatrix, y: SparseMatrix): SparseMatrix {
+        let [m, n] = x.shape;
+        let shapeY = y.shape;
+        if (m !== shapeY[0] || n !== shapeY[1]) {
+            throw new Error(`Matrix dimensions (${m}, ${n}) and (${shapeY[0]}, ${shapeY[1]}) are not compatible.`);
+        }
+        y = y.asFormat(x.format);
+        let nMajor = x.format === 'csr' ? m : n;
+        let isComplex = x.hasComplexStorage() || y.hasComplexStorage();
+        let pX = x.indptr, iX = x.indices, reX = x.realData, imX = x.hasComplexStorage() ? x.imagData : undefined;
+        let pY = y.indptr, iY = y.indices, reY = y.realData, imY = y.hasComplexStorage() ? y.imagData : undefined;
+        let capacity = Math.min(x.nnz, y.nnz);
+        let indptr = DataHelper.allocateInt32Array(nMajor + 1);
+        let indices = DataHelper.allocateInt32Array(capacity);
+        let re = DataHelper.allocateFloat64Array(capacity);
+        let im = isComplex ? DataHelper.allocateFloat64Array(capacity) : undefined;
+        let nz = 0;
+        for (let i = 0;i < nMajor;i++) {
+            let kx = pX[i], ky = pY[i];
+            let endX = pX[i + 1], endY = pY[i + 1];
+            while (kx < endX && ky < endY) {
+                if (iX[kx] < iY[ky]) {
+                    kx++;
+                } else if (iX[kx] > iY[ky]) {
+                    ky++;
+                } else {
+                    let aRe = reX[kx], aIm = imX ? imX[kx] : 0;
+                    let bRe = reY[ky], bIm = imY ? imY[ky] : 0;
+                    let vRe = aRe * bRe - aIm * bIm;
+                    let vIm = aRe * bIm + aIm * bRe;
+                    if (vRe !== 0 || vIm !== 0) {
+                        indices[nz] = iX[kx];
+                        re[nz] = vRe;
+                        if (im) {
+                            im[nz] = vIm;
+                        }
+                        nz++;
+                    }
+                    kx++;
+                    ky++;
+                }
+            }
+            indptr[i + 1] = nz;
+        }
+        return SparseMatrixFunction._create(x.format, m, n, indptr, indices, re, im, nz);
+    }
+
+    /**
+     * Computes the element-wise product between a sparse matrix and a dense
+     * matrix of shape [mY, nY], where mY is either 1 or the number of rows of
+     * x and nY is either 1 or the number of columns of x. The output has the
+     * same format as x.
+     */
+    public static mulDense(x: SparseMatrix, reY: ArrayLike<number>, imY: ArrayLike<number> | undefined,
+                           mY: number, nY: number): SparseMatrix {
+        let [m, n] = x.shape;
+        if ((mY !== 1 && mY !== m) || (nY !== 1 && nY !== n)) {
+            throw new Error(`Matrix dimensions (${m}, ${n}) and (${mY}, ${nY}) are not compatible.`);
+        }
+        let isCSR = x.format === 'csr';
+        let nMajor = isCSR ? m : n;
+        let isComplex = x.hasComplexStorage() || imY !== undefined;
+        let pX = x.indptr, iX = x.indices, reX = x.realData, imX = x.hasComplexStorage() ? x.imagData : undefined;
+        let indptr = DataHelper.allocateInt32Array(nMajor + 1);
+        let indices = DataHelper.allocateInt32Array(x.nnz);
+        let re = DataHelper.allocateFloat64Array(x.nnz);
+        let im = isComplex ? DataHelper.allocateFloat64Array(x.nnz) : undefined;
+        let nz = 0;
+        for (let k = 0;k < nMajor;k++) {
+            for (let p = pX[k];p < pX[k + 1];p++) {
+                let i = isCSR ? k : iX[p];
+                let j = isCSR ? iX[p] : k;
+                let offset = (mY === 1 ? 0 : i) * nY + (nY === 1 ? 0 : j);
+                let aRe = reX[p], aIm = imX ? imX[p] : 0;
+                let bRe = reY[offset], bIm = imY ? imY[offset] : 0;
+                let vRe = aRe * bRe - aIm * bIm;
+                let vIm = aRe * bIm + aIm * bRe;
+                if (vRe !== 0 || vIm !== 0) {
+                    indices[nz] = iX[p];
+                    re[nz] = vRe;
+                    if (im) {
+                        im[nz] = vIm;
+                    }
+                    nz++;
+                }
+            }
+            indptr[k + 1] = nz;
+        }
+        return SparseMatrixFunction._create(x.format, m, n, indptr, indices, re, im, nz);
+    }
+
+    /**
+     * Computes the product between two sparse matrices. The output has the
+     * same format as x.
+     */
+    public static matmulSS(x: SparseMatrix, y: SparseMatrix): SparseMatrix {
+        let [m, n1] = x.shape;
+        let [n2, p] = y.shape;
+        if (n1 !== n2) {
+            throw new Error(`Matrix dimensions (${m}, ${n1}) and (${n2}, ${p}) are not compatible.`);
+        }
+        if (x.format === 'csr') {
+            return SparseMatrixFunction._gustavson(x, y.asFormat('csr'));
+        } else {
+            // The CSC representation of xy is the CSR representation of
+            // y^T x^T.
+            return SparseMatrixFunction._gustavson(y.asFormat('csc').transpose(), x.transpose()).transpose();
+        }
+    }
+
+    /**
+     * Multiplies two sparse matrices in the CSR format using Gustavson's
+     * algorithm.
+     */
+    private static _gustavson(x: SparseMatrix, y: SparseMatrix): SparseMatrix {
+        let m = x.shape[0];
+        let p = y.shape[1];
+        let isComplex = x.hasComplexStorage() || y.hasComplexStorage();
+        let pX = x.indptr, iX = x.indices, reX = x.realData, imX = x.hasComplexStorage() ? x.imagData : undefined;
+        let pY = y.indptr, iY = y.indices, reY = y.realData, imY = y.hasComplexStorage() ? y.imagData : undefined;
+        let wRe = DataHelper.allocateFloat64Array(p);
+        let wIm = DataHelper.allocateFloat64Array(p);
+        let marker = DataHelper.allocateInt32Array(p);
+        for (let j = 0;j < p;j++) {
+            marker[j] = -1;
+        }
+        let indptr = DataHelper.allocateInt32Array(m + 1);
+        let indices: number[] = [];
+        let re: number[] = [];
+        let im: number[] = [];
+        let cols: number[] = [];
+        for (let i = 0;i < m;i++) {
+            cols.length = 0;
+            for (let kx = pX[i];kx < pX[i + 1];kx++) {
+                let k = iX[kx];
+                let aRe = reX[kx], aIm = imX ? imX[kx] : 0;
+                for (let ky = pY[k];ky < pY[k + 1];ky++) {
+                    let j = iY[ky];
+                    if (marker[j] !== i) {
+                        marker[j] = i;
+                        cols.push(j);
+                        wRe[j] = 0;
+                        wIm[j] = 0;
+                    }
+                    let bRe = reY[ky], bIm = imY ? imY[ky] : 0;
+                    wRe[j] += aRe * bRe - aIm * bIm;
+                    wIm[j] += aRe * bIm + aIm * bRe;
+                }
+            }
+            cols.sort((a, b) => a - b);
+            for (let t = 0;t < cols.length;t++) {
+                let j = cols[t];
+                if (wRe[j] !== 0 || wIm[j] !== 0) {
+                    indices.push(j);
+                    re.push(wRe[j]);
+                    if (isComplex) {
+                        im.push(wIm[j]);
+                    }
+                }
+            }
+            indptr[i + 1] = indices.length;
+        }
+        let nnz = indices.length;
+        let dIndices = DataHelper.allocateInt32Array(nnz);
+        let dRe = DataHelper.allocateFloat64Array(nnz);
+        DataHelper.copy(indices, dIndices);
+        DataHelper.copy(re, dRe);
+        let dIm: DataBlock | undefined;
+        if (isComplex) {
+            dIm = DataHelper.allocateFloat64Array(nnz);
+            DataHelper.copy(im, dIm);
+        }
+        return new SparseMatrix('csr', m, p, indptr, dIndices, dRe, dIm);
+    }
+
+    /**
+     * Computes the product between a sparse matrix x and a dense matrix y of
+     * shape [k, p] stored in the row-major order.
+     */
+    public static matmulSD(x: SparseMatrix, reY: ArrayLike<number>, imY: ArrayLike<number> | undefined,
+                           k: number, p: number): Tensor {
+        let [m, n] = x.shape;
+        if (n !== k) {
+            throw new Error(`Matrix dimensions (${m}, ${n}) and (${k}, ${p}) are not compatible.`);
+        }
+        let Z = Tensor.zeros([m, p]);
+        let reZ = Z.realData;
+        let isCSR = x.format === 'csr';
+        let nMajor = isCSR ? m : n;
+        let pX = x.indptr, iX = x.indices, reX = x.realData;
+        let imX = x.hasComplexStorage() ? x.imagData : undefined;
+        if (imX || imY) {
+            Z.ensureComplexStorage();
+            let imZ = Z.imagData;
+            for (let t = 0;t < nMajor;t++) {
+                for (let q = pX[t];q < pX[t + 1];q++) {
+                    let i = isCSR ? t : iX[q];
+                    let j = isCSR ? iX[q] : t;
+                    let aRe = reX[q], aIm = imX ? imX[q] : 0;
+                    for (let c = 0;c < p;c++) {
+                        let bRe = reY[j * p + c], bIm = imY ? imY[j * p + c] : 0;
+                        reZ[i * p + c] += aRe * bRe - aIm * bIm;
+                        imZ[i * p + c] += aRe * bIm + aIm * bRe;
+                    }
+                }
+            }
+        } else {
+            for (let t = 0;t < nMajor;t++) {
+                for (let q = pX[t];q < pX[t + 1];q++) {
+                    let i = isCSR ? t : iX[q];
+                    let j = isCSR ? iX[q] : t;
+                    let a = reX[q];
+                    for (let c = 0;c < p;c++) {
+                        reZ[i * p + c] += a * reY[j * p + c];
+                    }
+                }
+            }
+        }
+        return Z;
+    }
+
+    /**
+     * Computes the product between a dense matrix x of shape [m, k] stored in
+     * the row-major order and a sparse matrix y.
+     */
+    public static matmulDS(reX: ArrayLike<number>, imX: ArrayLike<number> | undefined, m: number, k: number,
+                           y: SparseMatrix): Tensor {
+        let [n, p] = y.shape;
+        if (n !== k) {
+            throw new Error(`Matrix dimensions (${m}, ${k}) and (${n}, ${p}) are not compatible.`);
+        }
+        let Z = Tensor.zeros([m, p]);
+        let reZ = Z.realData;
+        let isCSR = y.format === 'csr';
+        let nMajor = isCSR ? n : p;
+        let pY = y.indptr, iY = y.indices, reY = y.realData;
+        let imY = y.hasComplexStorage() ? y.imagData : undefined;
+        if (imX || imY) {
+            Z.ensureComplexStorage();
+            let imZ = Z.imagData;
+            for (let t = 0;t < nMajor;t++) {
+                for (let q = pY[t];q < pY[t + 1];q++) {
+                    let i = isCSR ? t : iY[q];
+                    let j = isCSR ? iY[q] : t;
+                    let bRe = reY[q], bIm = imY ? imY[q] : 0;
+                    for (let r = 0;r < m;r++) {
+                        let aRe = reX[r * k + i], aIm = imX ? imX[r * k + i] : 0;
+                        reZ[r * p + j] += aRe * bRe - aIm * bIm;
+                        imZ[r * p + j] += aRe * bIm + aIm * bRe;
+                    }
+                }
+            }
+        } else {
+            for (let t = 0;t < nMajor;t++) {
+                for (let q = pY[t];q < pY[t + 1];q++) {
+                    let i = isCSR ? t : iY[q];
+                    let j = isCSR ? iY[q] : t;
+                    let b = reY[q];
+                    for (let r = 0;r < m;r++) {
+                        reZ[r * p + j] += reX[r * k + i] * b;
+                    }
+                }
+            }
+        }
+        return Z;
+    }
+
+    /**
+     * Computes y = A x for a real sparse matrix A.
+     * @param a Real sparse matrix.
+     * @param x (Input) Vector x.
+     * @param y (Output) Vector y.
+     */
+    public static matvec(a: SparseMatrix, x: ArrayLike<number>, y: DataBlock): void {
+        let [m, n] = a.shape;
+        let pA = a.indptr, iA = a.indices, reA = a.realData;
+        if (a.format === 'csr') {
+            for (let i = 0;i < m;i++) {
+                let s = 0;
+                for (let k = pA[i];k < pA[i + 1];k++) {
+                    s += reA[k] * x[iA[k]];
+                }
+                y[i] = s;
+            }
+        } else {
+            for (let i = 0;i < m;i++) {
+                y[i] = 0;
+            }
+            for (let j = 0;j < n;j++) {
+                let xj = x[j];
+                if (xj === 0) {
+                    continue;
+                }
+                for (let k = pA[j];k < pA[j + 1];k++) {
+                    y[iA[k]] += reA[k] * xj;
+                }
+            }
+        }
+    }
+
+    /**
+     * Extracts the main diagonal of a real sparse matrix.
+     * @param a Real sparse matrix.
+     */
+    public static diag(a: SparseMatrix): DataBlock {
+        let [m, n] = a.shape;
+        let nMajor = a.format === 'csr' ? m : n;
+        let d = DataHelper.allocateFloat64Array(Math.min(m, n));
+        let pA = a.indptr, iA = a.indices, reA = a.realData;
+        for (let i = 0;i < Math.min(nMajor, d.length);i++) {
+            for (let k = pA[i];k < pA[i + 1];k++) {
+                if (iA[k] === i) {
+                    d[i] += reA[k];
+                }
+            }
+        }
+        return d;
+    }
+
+    /**
+     * Computes the reverse Cuthill-McKee ordering of the symmetric sparsity
+     * pattern of A + A^T.
+     * @param a Square sparse matrix.
+     */
+    public static rcm(a: SparseMatrix): DataBlock {
+        let n = a.shape[0];
+        // Adjacency structure of A + A^T. Values are replaced with ones so
+        // that no entries can be cancelled out.
+        let pattern = a.asFormat('csr');
+        let ones = DataHelper.allocateFloat64Array(pattern.nnz);
+        for (let k = 0;k < ones.length;k++) {
+            ones[k] = 1;
+        }
+        pattern = new SparseMatrix('csr', n, n, pattern.indptr, pattern.indices, ones);
+        let s = SparseMatrixFunction.add(pattern, pattern.asFormat('csc').transpose(), 1, 1);
+        let adjPtr = s.indptr, adj = s.indices;
+        let degree = DataHelper.allocateInt32Array(n);
+        for (let i = 0;i < n;i++) {
+            degree[i] = adjPtr[i + 1] - adjPtr[i];
+        }
+        let perm = DataHelper.allocateInt32Array(n);
+        let visited = DataHelper.allocateInt32Array(n);
+        let levels = DataHelper.allocateInt32Array(n);
+        let queue = DataHelper.allocateInt32Array(n);
+        // Breadth-first search from root. Returns the number of visited
+        // nodes. Nodes are stored in queue and their levels are stored in
+        // levels.
+        let stamp = 0;
+        const bfs = (root: number, sortByDegree: boolean): number => {
+            stamp++;
+            let head = 0, tail = 0;
+            queue[tail++] = root;
+            visited[root] = stamp;
+            levels[root] = 0;
+            let neighbors: number[] = [];
+            while (head < tail) {
+                let i = queue[head++];
+                neighbors.length = 0;
+                for (let k = adjPtr[i];k < adjPtr[i + 1];k++) {
+                    let j = adj[k];
+                    if (j !== i && visited[j] !== stamp && visited[j] >= 0) {
+                        visited[j] = stamp;
+                        levels[j] = levels[i] + 1;
+                        neighbors.push(j);
+                    }
+                }
+                if (sortByDegree) {
+                    neighbors.sort((u, v) => degree[u] - degree[v]);
+                }
+                for (let t = 0;t < neighbors.length;t++) {
+                    queue[tail++] = neighbors[t];
+                }
+            }
+            return tail;
+        };
+        let nOrdered = 0;
+        while (nOrdered < n) {
+            // start from an unordered node with the minimum degree
+            let root = -1;
+            for (let i = 0;i < n;i++) {
+                if (visited[i] >= 0 && (root < 0 || degree[i] < degree[root])) {
+                    root = i;
+                }
+            }
+            // find a pseudo-peripheral node
+            let count = bfs(root, false);
+            let ecc = levels[queue[count - 1]];
+            for (let iter = 0;iter < n;iter++) {
+                let candidate = queue[count - 1];
+                for (let t = count - 1;t >= 0 && levels[queue[t]] === ecc;t--) {
+                    if (degree[queue[t]] < degree[candidate]) {
+                        candidate = queue[t];
+                    }
+                }
+                count = bfs(candidate, false);
+                let newEcc = levels[queue[count - 1]];
+                if (newEcc <= ecc) {
+                    root = candidate;
+                    break;
+                }
+                ecc = newEcc;
+                root = candidate;
+            }
+            count = bfs(root, true);
+            for (let t = 0;t < count;t++) {
+                perm[nOrdered++] = queue[t];
+                // mark as ordered
+                visited[queue[t]] = -1;
+            }
+        }
+        // reverse
+        for (let i = 0, j = n - 1;i < j;i++, j--) {
+            let tmp = perm[i];
+            perm[i] = perm[j];
+            perm[j] = tmp;
+        }
+        return perm;
+    }
+
+    /**
+     * Computes the sparse LU decomposition with partial pivoting
+     * A(p, q) = L U using the left-looking algorithm by Gilbert and Peierls.
+     * @param a Real square sparse matrix.
+     * @param q Column permutation.
+     * @returns [L, U, p], where L is unit lower triangular and U is upper
+     *          triangular, both stored in the CSC format.
+     */
+    public static lu(a: SparseMatrix, q: ArrayLike<number>): [SparseMatrix, SparseMatrix, DataBlock] {
+        let n = a.shape[0];
+        a = a.asFormat('csc');
+        let pA = a.indptr, iA = a.indices, reA = a.realData;
+        let L = new SparseColumnBuilder(n, 4 * a.nnz + n);
+        let U = new SparseColumnBuilder(n, 4 * a.nnz + n);
+        let pinv = DataHelper.allocateInt32Array(n);
+        for (let i = 0;i < n;i++) {
+            pinv[i] = -1;
+        }
+        let x = DataHelper.allocateFloat64Array(n);
+        let xi = DataHelper.allocateInt32Array(n);
+        let stack = DataHelper.allocateInt32Array(n);
+        let pstack = DataHelper.allocateInt32Array(n);
+        let marked = DataHelper.allocateInt32Array(n);
+        let stamp = 0;
+        for (let k = 0;k < n;k++) {
+            L.indptr[k] = L.nnz;
+            U.indptr[k] = U.nnz;
+            let col = q[k];
+            // Computes the nonzero pattern of x = L \ A(:, col) in the
+            // topological order via depth-first search.
+            stamp++;
+            let top = n;
+            for (let p = pA[col];p < pA[col + 1];p++) {
+                let r = iA[p];
+                if (marked[r] === stamp) {
+                    continue;
+                }
+                let head = 0;
+                stack[0] = r;
+                while (head >= 0) {
+                    let j = stack[head];
+                    let jj = pinv[j];
+                    if (marked[j] !== stamp) {
+                        marked[j] = stamp;
+                        pstack[head] = jj < 0 ? 0 : L.indptr[jj] + 1;
+                    }
+                    let done = true;
+                    let end = jj < 0 ? 0 : L.indptr[jj + 1];
+                    for (let t = pstack[head];t < end;t++) {
+                        let i = L.indices[t];
+                        if (marked[i] === stamp) {
+                            continue;
+                        }
+                        pstack[head] = t;
+                        stack[++head] = i;
+                        done = false;
+                        break;
+                    }
+                    if (done) {
+                        head--;
+                        xi[--top] = j;
+                    }
+                }
+            }
+            // numerical solve
+            for (let p = top;p < n;p++) {
+                x[xi[p]] = 0;
+            }
+            for (let p = pA[col];p < pA[col + 1];p++) {
+                x[iA[p]] = reA[p];
+            }
+            for (let p = top;p < n;p++) {
+                let j = xi[p];
+                let jj = pinv[j];
+                if (jj < 0) {
+                    continue;
+                }
+                // L has unit diagonal elements, which are stored first
+                let xj = x[j];
+                for (let t = L.indptr[jj] + 1;t < L.indptr[jj + 1];t++) {
+                    x[L.indices[t]] -= L.values[t] * xj;
+                }
+            }
+            // partial pivoting
+            let ipiv = -1;
+            let maxAbs = -1;
+            for (let p = top;p < n;p++) {
+                let i = xi[p];
+                if (pinv[i] < 0) {
+                    if (Math.abs(x[i]) > maxAbs) {
+                        maxAbs = Math.abs(x[i]);
+                        ipiv = i;
+                    }
+                } else {
+                    U.push(pinv[i], x[i]);
+                }
+            }
+            if (ipiv === -1 || maxAbs <= 0) {
+                throw new Error('Matrix is singular.');
+            }
+            // prefer the diagonal element to preserve the ordering
+            if (pinv[col] < 0 && Math.abs(x[col]) >= maxAbs) {
+                ipiv = col;
+            }
+            let pivot = x[ipiv];
+            U.push(k, pivot);
+            pinv[ipiv] = k;
+            L.push(ipiv, 1);
+            for (let p = top;p < n;p++) {
+                let i = xi[p];
+                if (pinv[i] < 0) {
+                    L.push(i, x[i] / pivot);
+                }
+                x[i] = 0;
+            }
+        }
+        L.indptr[n] = L.nnz;
+        U.indptr[n] = U.nnz;
+        // renumber the rows of L
+        for (let t = 0;t < L.nnz;t++) {
+            L.indices[t] = pinv[L.indices[t]];
+        }
+        let perm = DataHelper.allocateInt32Array(n);
+        for (let i = 0;i < n;i++) {
+            perm[pinv[i]] = i;
+        }
+        return [L.build(n), U.build(n), perm];
+    }
+
+    /**
+     * Solves A x = b in place using the sparse LU decomposition
+     * A(p, q) = L U.
+     * @param l Unit lower triangular matrix in the CSC format.
+     * @param u Upper triangular matrix in the CSC format.
+     * @param p Row permutation.
+     * @param q Column permutation.
+     * @param b (Input/Output) Right-hand side. Will be overwritten by the
+     *          solution.
+     * @param w Workspace of length n.
+     */
+    public static luSolve(l: SparseMatrix, u: SparseMatrix, p: ArrayLike<number>, q: ArrayLike<number>,
+                          b: DataBlock, w: DataBlock): void {
+        let n = l.shape[0];
+        let pL = l.indptr, iL = l.indices, reL = l.realData;
+        let pU = u.indptr, iU = u.indices, reU = u.realData;
+        for (let i = 0;i < n;i++) {
+            w[i] = b[p[i]];
+        }
+        // forward substitution (unit diagonal stored first)
+        for (let j = 0;j < n;j++) {
+            let wj = w[j];
+            if (wj === 0) {
+                continue;
+            }
+            for (let k = pL[j] + 1;k < pL[j + 1];k++) {
+                w[iL[k]] -= reL[k] * wj;
+            }
+        }
+        // backward substitution (diagonal stored last)
+        for (let j = n - 1;j >= 0;j--) {
+            w[j] /= reU[pU[j + 1] - 1];
+            let wj = w[j];
+            if (wj === 0) {
+                continue;
+            }
+            for (let k = pU[j];k < pU[j + 1] - 1;k++) {
+                w[iU[k]] -= reU[k] * wj;
+            }
+        }
+        for (let i = 0;i < n;i++) {
+            b[q[i]] = w[i];
+        }
+    }
+
+    private static _create(format: 'csr' | 'csc', m: number, n: number, indptr: DataBlock, indices: DataBlock,
+                           re: DataBlock, im: DataBlock | undefined, nnz: number): SparseMatrix {
+        if (nnz < indices.length) {
+            let tIndices = DataHelper.allocateInt32Array(nnz);
+            let tRe = DataHelper.allocateFloat64Array(nnz);
+            DataHelper.copy(indices, tIndices, 0, 0, nnz);
+            DataHelper.copy(re, tRe, 0, 0, nnz);
+            indices = tIndices;
+            re = tRe;
+            if (im) {
+                let tIm = DataHelper.allocateFloat64Array(nnz);
+                DataHelper.copy(im, tIm, 0, 0, nnz);
+                im = tIm;
+            }
+        }
+        return new SparseMatrix(format, m, n, indptr, indices, re, im);
+    }
+
+}
@@ -0,0 +1,107 @@
+import { MatrixType } from '../../linalg/matrixType';
+
+/**
+ * Helper functions for detecting the structure of square matrices stored in
+ * row-major order.
+ */
+export class MatrixStructure {
+
+    /**
+     * Computes the lower and upper bandwidths of an n x n matrix, i.e., the
+     * largest i - j and j - i such that A(i, j) is nonzero.
+     * @returns [kl, ku]
+     */
+    public static bandwidth(n: number, re: ArrayLike<number>, im?: ArrayLike<number>): [number, number] {
+        let kl = 0, ku = 0;
+        for (let i = 0;i < n;i++) {
+            // only elements outside the current band need to be checked
+            for (let j = 0;j < i - kl;j++) {
+                if (re[i * n + j] !== 0 || (im && im[i * n + j] !== 0)) {
+                    kl = i - j;
+                    break;
+                }
+            }
+            for (let j = n - 1;j > i + ku;j--) {
+                if (re[i * n + j] !== 0 || (im && im[i * n + j] !== 0)) {
+                    ku = j - i;
+                    break;
+                }
+            }
+        }
+        return [kl, ku];
+    }
+
+    /**
+     * Checks if an n x n matrix is Hermitian and has positive real diagonal
+     * elements, which is necessary for it to be positive definite.
+     */
+    public static isHermitianWithPositiveDiagonal(n: number, re: ArrayLike<number>, im?: ArrayLike<number>): boolean {
+        for (let i = 0;i < n;i++) {
+            if (!(re[i * n + i] > 0) || (im && im[i * n + i] !== 0)) {
+                return false;
+            }
+        }
+        for (let i = 0;i < n;i++) {
+            for (let j = i + 1;j < n;j++) {
+                if (re[i * n + j] !== re[j * n + i]) {
+                    return false;
+                }
+                if (im && im[i * n + j] !== -im[j * n + i]) {
+                    return false;
+                }
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Checks if an n x n tridiagonal matrix is row diagonally dominant, in
+     * which case the Thomas algorithm is stable.
+     */
+    public static isDiagonallyDominantTridiagonal(n: number, re: ArrayLike<number>, im?: ArrayLike<number>): boolean {
+        const abs = (k: number): number => {
+            return im ? Math.sqrt(re[k] * re[k] + im[k] * im[k]) : Math.abs(re[k]);
+        };
+        for (let i = 0;i < n;i++) {
+            let s = 0;
+            if (i > 0) {
+                s += abs(i * n + i - 1);
+            }
+            if (i < n - 1) {
+                s += abs(i * n + i + 1);
+            }
+            if (abs(i * n + i) < s) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Detects the structure of an n x n matrix. The checks are performed in
+     * the following order: diagonal, upper/lower triangular, tridiagonal,
+     * Hermitian with positive diagonal elements (a candidate for the
+     * Cholesky decomposition), and banded with kl + ku < n / 2.
+     * @returns [matrix type, kl, ku]
+     */
+    public static detect(n: number, re: ArrayLike<number>, im?: ArrayLike<number>): [MatrixType, number, number] {
+        let [kl, ku] = MatrixStructure.bandwidth(n, re, im);
+        let type: MatrixType;
+        if (kl === 0 && ku === 0) {
+            type = MatrixType.Diagonal;
+        } else if (kl === 0) {
+            type = MatrixType.UpperTriangular;
+        } else if (ku === 0) {
+            type = MatrixType.LowerTriangular;
+        } else if (kl === 1 && ku === 1) {
+            type = MatrixType.Tridiagonal;
+        } else if (MatrixStructure.isHermitianWithPositiveDiagonal(n, re, im)) {
+            type = MatrixType.HermitianPositiveDefinite;
+        } else if (kl + ku < n / 2) {
+            type = MatrixType.Banded;
+        } else {
+            type = MatrixType.Full;
+        }
+        return [type, kl, ku];
+    }
+}
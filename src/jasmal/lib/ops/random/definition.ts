@@ -1,4 +1,7 @@
 import { Tensor } from '../../core/tensor';
+import { ComplexNumber } from '../../core/complexNumber';
+import { OpInput } from '../../commonTypes';
+import { IRandomEngine, RandomEngineState } from './engine';
 
 export interface IRandomOpProvider {
 
@@ -11,6 +14,29 @@ export interface IRandomOpProvider {
      */
     seed(): number;
 
+    /**
+     * Restores the full state of the RNG engine. The state can be obtained
+     * from another JASMAL instance configured with the same RNG engine.
+     * @example
+     *  // In the main thread
+     *  const T = JasmalEngine.createInstance({ rngEngine: 'pcg32' });
+     *  let state = T.rngEngine().split().getState();
+     *  // In a web worker (state is passed via postMessage)
+     *  const T = JasmalEngine.createInstance({ rngEngine: state.name });
+     *  T.rngState(state);
+     */
+    rngState(state: RandomEngineState): void;
+    /**
+     * Retrieves the full state of the RNG engine as a serializable object.
+     */
+    rngState(): RandomEngineState;
+
+    /**
+     * Retrieves the underlying RNG engine, which can be used to jump ahead or
+     * create non-overlapping substreams via jump() and split().
+     */
+    rngEngine(): IRandomEngine;
+
     /**
      * Obtains a pseudo random number between 0 and 1 (both exclusive).
      */
@@ -57,4 +83,163 @@ export interface IRandomOpProvider {
      */
     unifrnd(low: number, high: number, shape: ArrayLike<number>): Tensor;
 
+    /**
+     * Samples a complex number from the circularly-symmetric complex normal
+     * distribution with zero mean and unit variance, i.e., the real and
+     * imaginary parts are independent normal random variables with variance
+     * 1/2.
+     */
+    crandn(): ComplexNumber;
+    /**
+     * Obtains a complex tensor of the specified shape filled with pseudo
+     * random numbers sampled from the circularly-symmetric complex normal
+     * distribution with zero mean and unit variance.
+     */
+    crandn(shape: ArrayLike<number>): Tensor;
+
+    /*
+     * Note for the following distributions:
+     *  1. The parameters can be scalars or real tensors, which are broadcast
+     *     against each other. If all parameters are numbers and the shape is
+     *     not specified, a number is returned. Otherwise a tensor is returned.
+     *  2. If the shape is specified, the shape of the (broadcast) parameters
+     *     must be compatible with the specified shape.
+     *  3. Samples corresponding to invalid parameters are set to NaN.
+     */
+
+    /**
+     * Samples from the exponential distribution with mean mu > 0.
+     */
+    exprnd(mu: number): number;
+    /**
+     * Obtains a tensor filled with pseudo random numbers sampled from the
+     * exponential distribution with mean mu > 0.
+     * @param mu Mean.
+     * @param shape (Optional) Shape of the output.
+     */
+    exprnd(mu: OpInput, shape?: ArrayLike<number>): Tensor;
+
+    /**
+     * Samples from the gamma distribution with shape a > 0 and scale b > 0,
+     * whose pdf is given by
+     *  f(x) = x^(a-1) exp(-x/b) / (Gamma(a) b^a).
+     */
+    gamrnd(a: number, b: number): number;
+    /**
+     * Obtains a tensor filled with pseudo random numbers sampled from the
+     * gamma distribution with shape a > 0 and scale b > 0.
+     * @param a Shape parameter.
+     * @param b Scale parameter.
+     * @param shape (Optional) Shape of the output.
+     */
+    gamrnd(a: OpInput, b: OpInput, shape?: ArrayLike<number>): Tensor;
+
+    /**
+     * Samples from the beta distribution with parameters a > 0 and b > 0.
+     */
+    betarnd(a: number, b: number): number;
+    /**
+     * Obtains a tensor filled with pseudo random numbers sampled from the beta
+     * distribution with parameters a > 0 and b > 0.
+     * @param shape (Optional) Shape of the output.
+     */
+    betarnd(a: OpInput, b: OpInput, shape?: ArrayLike<number>): Tensor;
+
+    /**
+     * Samples from the chi-square distribution with nu > 0 degrees of
+     * freedom.
+     */
+    chi2rnd(nu: number): number;
+    /**
+     * Obtains a tensor filled with pseudo random numbers sampled from the
+     * chi-square distribution with nu > 0 degrees of freedom.
+     * @param shape (Optional) Shape of the output.
+     */
+    chi2rnd(nu: OpInput, shape?: ArrayLike<number>): Tensor;
+
+    /**
+     * Samples from Student's t distribution with nu > 0 degrees of freedom.
+     */
+    trnd(nu: number): number;
+    /**
+     * Obtains a tensor filled with pseudo random numbers sampled from
+     * Student's t distribution with nu > 0 degrees of freedom.
+     * @param shape (Optional) Shape of the output.
+     */
+    trnd(nu: OpInput, shape?: ArrayLike<number>): Tensor;
+
+    /**
+     * Samples from the lognormal distribution, i.e., exp(X) where X follows
+     * the normal distribution with mean mu and standard deviation sigma >= 0.
+     */
+    lognrnd(mu: number, sigma: number): number;
+    /**
+     * Obtains a tensor filled with pseudo random numbers sampled from the
+     * lognormal distribution with parameters mu and sigma >= 0.
+     * @param shape (Optional) Shape of the output.
+     */
+    lognrnd(mu: OpInput, sigma: OpInput, shape?: ArrayLike<number>): Tensor;
+
+    /**
+     * Samples from the Poisson distribution with mean lambda >= 0.
+     */
+    poissrnd(lambda: number): number;
+    /**
+     * Obtains a tensor filled with pseudo random integers sampled from the
+     * Poisson distribution with mean lambda >= 0.
+     * @param shape (Optional) Shape of the output.
+     */
+    poissrnd(lambda: OpInput, shape?: ArrayLike<number>): Tensor;
+
+    /**
+     * Samples from the binomial distribution, i.e., the number of successes
+     * in n independent trials with success probability p.
+     */
+    binornd(n: number, p: number): number;
+    /**
+     * Obtains a tensor filled with pseudo random integers sampled from the
+     * binomial distribution.
+     * @param n Number of trials. Must be a nonnegative integer.
+     * @param p Success probability within [0, 1].
+     * @param shape (Optional) Shape of the output.
+     */
+    binornd(n: OpInput, p: OpInput, shape?: ArrayLike<number>): Tensor;
+
+    /**
+     * Samples from the geometric distribution, i.e., the number of failures
+     * before the first success with success probability 0 < p <= 1.
+     */
+    geornd(p: number): number;
+    /**
+     * Obtains a tensor filled with pseudo random integers sampled from the
+     * geometric distribution with success probability 0 < p <= 1.
+     * @param shape (Optional) Shape of the output.
+     */
+    geornd(p: OpInput, shape?: ArrayLike<number>): Tensor;
+
+    /**
+     * Samples from the multivariate normal distribution.
+     * @param mu Mean. Can be a vector of length d or an n x d matrix whose
+     *           rows specify the means of individual samples.
+     * @param sigma A d x d symmetric positive definite covariance matrix. Only
+     *              the lower triangular part is used.
+     * @param n (Optional) Number of samples. If mu is a matrix, n must be
+     *          equal to the number of rows of mu. Default value is 1 if mu is
+     *          a vector.
+     * @returns An n x d matrix whose rows are the samples.
+     * @example
+     *  // 100 samples from a 2D normal distribution
+     *  let X = T.mvnrnd([1, 2], [[1, 0.5], [0.5, 2]], 100);
+     */
+    mvnrnd(mu: OpInput, sigma: OpInput, n?: number): Tensor;
+
+    /**
+     * Samples from the Dirichlet distribution.
+     * @param alpha A vector of k positive concentration parameters.
+     * @param n (Optional) Number of samples. Default value is 1.
+     * @returns An n x k matrix whose rows are the samples. Each row sums to
+     *          one.
+     */
+    dirichletrnd(alpha: OpInput, n?: number): Tensor;
+
 }
@@ -25,6 +25,67 @@ export interface IRandomEngine {
      * @returns
      */
     nextDouble(): number;
+
+    /**
+     * Retrieves the full internal state of the RNG engine. The returned
+     * object only consists of plain data and can be serialized with
+     * JSON.stringify() (e.g., to be passed to a web worker).
+     */
+    getState(): RandomEngineState;
+
+    /**
+     * Restores the internal state of the RNG engine from a state object
+     * obtained from getState().
+     * @param state
+     */
+    setState(state: RandomEngineState): IRandomEngine;
+
+    /**
+     * Advances the RNG engine by a large, engine specific number of steps
+     * such that the numbers generated after the jump do not overlap with the
+     * numbers that could be generated before the jump in practice.
+     */
+    jump(): IRandomEngine;
+
+    /**
+     * Creates a new RNG engine that generates the substream starting from the
+     * current state, and then jumps this RNG engine past that substream.
+     * Calling split() repeatedly creates non-overlapping substreams.
+     */
+    split(): IRandomEngine;
+}
+
+/**
+ * Serializable state of an RNG engine.
+ */
+export interface RandomEngineState {
+    /**
+     * Name of the RNG engine, which can be passed as the `rngEngine` option
+     * when creating a JASMAL instance.
+     */
+    name: string;
+    /**
+     * Engine specific state data consisting of unsigned 32-bit integers.
+     */
+    data: number[];
+}
+
+function checkState(state: RandomEngineState, name: string, length: number): void {
+    if (state.name !== name) {
+        throw new Error(`Expecting the state of a ${name} engine. Got ${state.name}.`);
+    }
+    if (state.data.length !== length) {
+        throw new Error(`Expecting ${length} state values. Got ${state.data.length}.`);
+    }
+}
+
+/**
+ * Converts two unsigned 32-bit integers into a double within (0,1) with
+ * 53-bit precision. Returns zero if both inputs are too small.
+ */
+function toDouble(a: number, b: number): number {
+    // 2^26 = 67108864, 2^53 = 9007199254740992
+    return ((a >>> 5) * 67108864.0 + (b >>> 6)) * (1.0 / 9007199254740992);
 }
 
 const mulUint32: (x: number, y: number) => number = (<any>Math).imul instanceof Function
@@ -38,6 +99,46 @@ const mulUint32: (x: number, y: number) => number = (<any>Math).imul instanceof
         return (((high << 16) >>> 0) + (al * bl)) >>> 0;
     };
 
+/**
+ * Computes the full 64-bit product of two unsigned 32-bit integers.
+ * @returns [hi, lo]
+ */
+function mulUint32Full(x: number, y: number): [number, number] {
+    let xh = x >>> 16, xl = x & 0xffff, yh = y >>> 16, yl = y & 0xffff;
+    let ll = xl * yl, lh = xl * yh, hl = xh * yl;
+    let mid = (ll >>> 16) + (lh & 0xffff) + (hl & 0xffff);
+    let lo = (((mid & 0xffff) << 16) | (ll & 0xffff)) >>> 0;
+    let hi = (xh * yh + (lh >>> 16) + (hl >>> 16) + (mid >>> 16)) >>> 0;
+    return [hi, lo];
+}
+
+/**
+ * Computes the lower 64 bits of the product of two unsigned 64-bit integers
+ * represented by their high and low 32-bit parts.
+ * @returns [hi, lo]
+ */
+function mulUint64(xHi: number, xLo: number, yHi: number, yLo: number): [number, number] {
+    let [hi, lo] = mulUint32Full(xLo, yLo);
+    return [(hi + mulUint32(xHi, yLo) + mulUint32(xLo, yHi)) >>> 0, lo];
+}
+
+/**
+ * Computes the sum of two unsigned 64-bit integers modulo 2^64.
+ * @returns [hi, lo]
+ */
+function addUint64(xHi: number, xLo: number, yHi: number, yLo: number): [number, number] {
+    let lo = xLo + yLo;
+    return [(xHi + yHi + (lo > 0xffffffff ? 1 : 0)) >>> 0, lo >>> 0];
+}
+
+/**
+ * Computes x ^ (x >> k) for an unsigned 64-bit integer x, where 0 < k < 32.
+ * @returns [hi, lo]
+ */
+function xorShiftRightUint64(xHi: number, xLo: number, k: number): [number, number] {
+    return [(xHi ^ (xHi >>> k)) >>> 0, (xLo ^ ((xLo >>> k) | (xHi << (32 - k)))) >>> 0];
+}
+
 /**
  * MT19937 random number generator.
  * Adapted from http://www.math.sci.hiroshima-u.ac.jp/~m-mat/MT/MT2002/CODES/mt19937ar.c
@@ -103,6 +204,29 @@ export class MT19937Engine implements IRandomEngine {
         return (a * 67108864.0 + b) * (1.0 / 9007199254740992);
     }
 
+    public getState(): RandomEngineState {
+        if (this._mti === 625) {
+            this.setSeed(5489);
+        }
+        return { name: 'twister', data: this._mt.concat([this._mti, this._seed]) };
+    }
+
+    public setState(state: RandomEngineState): IRandomEngine {
+        checkState(state, 'twister', 626);
+        this._mt = state.data.slice(0, 624);
+        this._mti = state.data[624];
+        this._seed = state.data[625];
+        return this;
+    }
+
+    public jump(): IRandomEngine {
+        throw new Error('Jumping is not supported with the Mersenne twister engine.');
+    }
+
+    public split(): IRandomEngine {
+        throw new Error('Splitting is not supported with the Mersenne twister engine.');
+    }
+
 }
 
 /* 
@@ -168,4 +292,391 @@ export class NativeEngine implements IRandomEngine {
         return Math.floor(this.nextDouble() * 4294967296);
     }
 
+    public getState(): RandomEngineState {
+        throw new Error('Accessing the state is not supported with the native random engine.');
+    }
+
+    public setState(_state: RandomEngineState): IRandomEngine {
+        throw new Error('Accessing the state is not supported with the native random engine.');
+    }
+
+    public jump(): IRandomEngine {
+        throw new Error('Jumping is not supported with the native random engine.');
+    }
+
+    public split(): IRandomEngine {
+        throw new Error('Splitting is not supported with the native random engine.');
+    }
+
+}
+
+/**
+ * PCG32 random number generator (PCG-XSH-RR with 64-bit state and 32-bit
+ * output). Different streams can be selected by the stream number.
+ * Period: 2^64. Each jump advances the generator by 2^48 steps.
+ * Reference: M. E. O'Neill, "PCG: A family of simple fast space-efficient
+ * statistically good algorithms for random number generation," 2014.
+ */
+export class PCG32Engine implements IRandomEngine {
+
+    private static readonly MULT_HI = 0x5851f42d;
+    private static readonly MULT_LO = 0x4c957f2d;
+    private static readonly JUMP_LOG2 = 48;
+
+    private _stateHi = 0;
+    private _stateLo = 0;
+    private _incHi = 0;
+    private _incLo = 0;
+    private _seed: number;
+
+    /**
+     * @param seed (Optional) Initial seed. Default value is 42.
+     * @param stream (Optional) Stream number. Default value is 54.
+     */
+    constructor(seed: number = 42, stream: number = 54) {
+        this._incHi = stream >>> 31;
+        this._incLo = ((stream << 1) | 1) >>> 0;
+        this.setSeed(seed);
+    }
+
+    public setSeed(x: number): IRandomEngine {
+        this._seed = x >>> 0;
+        this._stateHi = 0;
+        this._stateLo = 0;
+        this._step();
+        [this._stateHi, this._stateLo] = addUint64(this._stateHi, this._stateLo, 0, this._seed);
+        this._step();
+        return this;
+    }
+
+    public getSeed(): number {
+        return this._seed;
+    }
+
+    public nextUint32(): number {
+        let hi = this._stateHi, lo = this._stateLo;
+        this._step();
+        // xorshifted = ((state >> 18) ^ state) >> 27
+        let [xHi, xLo] = xorShiftRightUint64(hi, lo, 18);
+        let xorshifted = ((xLo >>> 27) | (xHi << 5)) >>> 0;
+        // rot = state >> 59
+        let rot = hi >>> 27;
+        return ((xorshifted >>> rot) | (xorshifted << ((32 - rot) & 31))) >>> 0;
+    }
+
+    public nextDouble(): number {
+        let x: number;
+        do {
+            x = toDouble(this.nextUint32(), this.nextUint32());
+        } while (x === 0);
+        return x;
+    }
+
+    public getState(): RandomEngineState {
+        return {
+            name: 'pcg32',
+            data: [this._stateHi, this._stateLo, this._incHi, this._incLo, this._seed]
+        };
+    }
+
+    public setState(state: RandomEngineState): IRandomEngine {
+        checkState(state, 'pcg32', 5);
+        [this._stateHi, this._stateLo, this._incHi, this._incLo, this._seed] = state.data;
+        return this;
+    }
+
+    public jump(): IRandomEngine {
+        // Advances the LCG by 2^k steps via repeated squaring:
+        //  s_{n+1} = a s_n + c  =>  s_{n+2} = a^2 s_n + (a + 1) c
+        let aHi = PCG32Engine.MULT_HI, aLo = PCG32Engine.MULT_LO;
+        let cHi = this._incHi, cLo = this._incLo;
+        for (let i = 0;i < PCG32Engine.JUMP_LOG2;i++) {
+            let [tHi, tLo] = addUint64(aHi, aLo, 0, 1);
+            [cHi, cLo] = mulUint64(tHi, tLo, cHi, cLo);
+            [aHi, aLo] = mulUint64(aHi, aLo, aHi, aLo);
+        }
+        let [sHi, sLo] = mulUint64(aHi, aLo, this._stateHi, this._stateLo);
+        [this._stateHi, this._stateLo] = addUint64(sHi, sLo, cHi, cLo);
+        return this;
+    }
+
+    public split(): IRandomEngine {
+        let engine = new PCG32Engine();
+        engine.setState(this.getState());
+        this.jump();
+        return engine;
+    }
+
+    private _step(): void {
+        let [hi, lo] = mulUint64(this._stateHi, this._stateLo, PCG32Engine.MULT_HI, PCG32Engine.MULT_LO);
+        [this._stateHi, this._stateLo] = addUint64(hi, lo, this._incHi, this._incLo);
+    }
+
+}
+
+/**
+ * xoshiro256** random number generator. The state is initialized from the
+ * seed using the SplitMix64 generator.
+ * Period: 2^256 - 1. Each jump advances the generator by 2^128 steps.
+ * Reference: D. Blackman and S. Vigna, "Scrambled linear pseudorandom number
+ * generators," 2018. http://prng.di.unimi.it/
+ */
+export class Xoshiro256StarStarEngine implements IRandomEngine {
+
+    // 64-bit jump polynomial stored as [hi, lo] pairs
+    private static readonly JUMP = [
+        0x180ec6d3, 0x3cfd0aba, 0xd5a61266, 0xf0c9392c,
+        0xa9582618, 0xe03fc9aa, 0x39abdc45, 0x29b1661c
+    ];
+
+    // s[0].hi, s[0].lo, s[1].hi, ..., s[3].lo
+    private _s: number[] = [0, 0, 0, 0, 0, 0, 0, 0];
+    private _seed: number;
+
+    /**
+     * @param seed (Optional) Initial seed. Default value is 5489.
+     */
+    constructor(seed: number = 5489) {
+        this.setSeed(seed);
+    }
+
+    public setSeed(x: number): IRandomEngine {
+        this._seed = x >>> 0;
+        // SplitMix64
+        let xHi = 0, xLo = this._seed;
+        for (let i = 0;i < 4;i++) {
+            [xHi, xLo] = addUint64(xHi, xLo, 0x9e3779b9, 0x7f4a7c15);
+            let [zHi, zLo] = xorShiftRightUint64(xHi, xLo, 30);
+            [zHi, zLo] = mulUint64(zHi, zLo, 0xbf58476d, 0x1ce4e5b9);
+            [zHi, zLo] = xorShiftRightUint64(zHi, zLo, 27);
+            [zHi, zLo] = mulUint64(zHi, zLo, 0x94d049bb, 0x133111eb);
+            [zHi, zLo] = xorShiftRightUint64(zHi, zLo, 31);
+            this._s[2 * i] = zHi;
+            this._s[2 * i + 1] = zLo;
+        }
+        return this;
+    }
+
+    public getSeed(): number {
+        return this._seed;
+    }
+
+    public nextUint32(): number {
+        return this._next()[0];
+    }
+
+    public nextDouble(): number {
+        let x: number;
+        do {
+            let [hi, lo] = this._next();
+            // upper 53 bits
+            x = (hi * 2097152.0 + (lo >>> 11)) * (1.0 / 9007199254740992);
+        } while (x === 0);
+        return x;
+    }
+
+    public getState(): RandomEngineState {
+        return { name: 'xoshiro256**', data: this._s.concat([this._seed]) };
+    }
+
+    public setState(state: RandomEngineState): IRandomEngine {
+        checkState(state, 'xoshiro256**', 9);
+        this._s = state.data.slice(0, 8);
+        this._seed = state.data[8];
+        return this;
+    }
+
+    public jump(): IRandomEngine {
+        let t = [0, 0, 0, 0, 0, 0, 0, 0];
+        let jump = Xoshiro256StarStarEngine.JUMP;
+        for (let i = 0;i < 4;i++) {
+            // low word first
+            for (let w = 1;w >= 0;w--) {
+                let word = jump[2 * i + w];
+                for (let b = 0;b < 32;b++) {
+                    if (word & (1 << b)) {
+                        for (let k = 0;k < 8;k++) {
+                            t[k] = (t[k] ^ this._s[k]) >>> 0;
+                        }
+                    }
+                    this._next();
+                }
+            }
+        }
+        this._s = t;
+        return this;
+    }
+
+    public split(): IRandomEngine {
+        let engine = new Xoshiro256StarStarEngine();
+        engine.setState(this.getState());
+        this.jump();
+        return engine;
+    }
+
+    /**
+     * Generates the next 64-bit output.
+     * @returns [hi, lo]
+     */
+    private _next(): [number, number] {
+        let s = this._s;
+        // result = rotl(s[1] * 5, 7) * 9
+        let [pHi, pLo] = mulUint64(s[2], s[3], 0, 5);
+        let rHi = ((pHi << 7) | (pLo >>> 25)) >>> 0;
+        let rLo = ((pLo << 7) | (pHi >>> 25)) >>> 0;
+        let result = mulUint64(rHi, rLo, 0, 9);
+        // t = s[1] << 17
+        let tHi = ((s[2] << 17) | (s[3] >>> 15)) >>> 0;
+        let tLo = (s[3] << 17) >>> 0;
+        // s[2] ^= s[0]; s[3] ^= s[1]; s[1] ^= s[2]; s[0] ^= s[3];
+        s[4] = (s[4] ^ s[0]) >>> 0;
+        s[5] = (s[5] ^ s[1]) >>> 0;
+        s[6] = (s[6] ^ s[2]) >>> 0;
+        s[7] = (s[7] ^ s[3]) >>> 0;
+        s[2] = (s[2] ^ s[4]) >>> 0;
+        s[3] = (s[3] ^ s[5]) >>> 0;
+        s[0] = (s[0] ^ s[6]) >>> 0;
+        s[1] = (s[1] ^ s[7]) >>> 0;
+        // s[2] ^= t
+        s[4] = (s[4] ^ tHi) >>> 0;
+        s[5] = (s[5] ^ tLo) >>> 0;
+        // s[3] = rotl(s[3], 45) = rotl(swap(s[3]), 13)
+        let hi = s[7], lo = s[6];
+        s[6] = ((hi << 13) | (lo >>> 19)) >>> 0;
+        s[7] = ((lo << 13) | (hi >>> 19)) >>> 0;
+        return result;
+    }
+
+}
+
+/**
+ * Philox4x32-10 counter-based random number generator. Each 128-bit counter
+ * value is mapped to four 32-bit outputs with a 64-bit key derived from the
+ * seed. Each jump increments the highest 32 bits of the counter, which skips
+ * 2^96 blocks of outputs.
+ * Reference: J. K. Salmon, M. A. Moraes, R. O. Dror, and D. E. Shaw,
+ * "Parallel random numbers: as easy as 1, 2, 3," SC11, 2011.
+ */
+export class PhiloxEngine implements IRandomEngine {
+
+    private _key = [0, 0];
+    // counter of the next block
+    private _ctr = [0, 0, 0, 0];
+    private _buffer = [0, 0, 0, 0];
+    // index of the next output in the buffer
+    private _idx = 4;
+    private _seed: number;
+
+    /**
+     * Computes the Philox4x32-10 bijection of a counter under a key.
+     * @param ctr 128-bit counter stored as four 32-bit words (low word first).
+     * @param key 64-bit key stored as two 32-bit words (low word first).
+     */
+    public static philox4x32(ctr: ArrayLike<number>, key: ArrayLike<number>): number[] {
+        let c0 = ctr[0], c1 = ctr[1], c2 = ctr[2], c3 = ctr[3];
+        let k0 = key[0], k1 = key[1];
+        for (let r = 0;r < 10;r++) {
+            if (r > 0) {
+                k0 = (k0 + 0x9e3779b9) >>> 0;
+                k1 = (k1 + 0xbb67ae85) >>> 0;
+            }
+            let [hi0, lo0] = mulUint32Full(0xd2511f53, c0);
+            let [hi1, lo1] = mulUint32Full(0xcd9e8d57, c2);
+            c0 = (hi1 ^ c1 ^ k0) >>> 0;
+            c1 = lo1;
+            c2 = (hi0 ^ c3 ^ k1) >>> 0;
+            c3 = lo0;
+        }
+        return [c0, c1, c2, c3];
+    }
+
+    /**
+     * @param seed (Optional) Initial seed. Default value is 5489.
+     */
+    constructor(seed: number = 5489) {
+        this.setSeed(seed);
+    }
+
+    public setSeed(x: number): IRandomEngine {
+        this._seed = x >>> 0;
+        this._key = [this._seed, 0];
+        this._ctr = [0, 0, 0, 0];
+        this._idx = 4;
+        return this;
+    }
+
+    public getSeed(): number {
+        return this._seed;
+    }
+
+    public nextUint32(): number {
+        if (this._idx === 4) {
+            this._buffer = PhiloxEngine.philox4x32(this._ctr, this._key);
+            this._incrementCounter();
+            this._idx = 0;
+        }
+        return this._buffer[this._idx++];
+    }
+
+    public nextDouble(): number {
+        let x: number;
+        do {
+            x = toDouble(this.nextUint32(), this.nextUint32());
+        } while (x === 0);
+        return x;
+    }
+
+    public getState(): RandomEngineState {
+        return {
+            name: 'philox',
+            data: this._key.concat(this._ctr, [this._idx, this._seed])
+        };
+    }
+
+    public setState(state: RandomEngineState): IRandomEngine {
+        checkState(state, 'philox', 8);
+        let d = state.data;
+        this._key = [d[0], d[1]];
+        this._ctr = [d[2], d[3], d[4], d[5]];
+        this._idx = d[6];
+        this._seed = d[7];
+        if (this._idx < 4) {
+            // regenerate the buffer from the previous counter
+            let prev = this._ctr.slice();
+            for (let i = 0;i < 4;i++) {
+                prev[i] = (prev[i] - 1) >>> 0;
+                if (prev[i] !== 0xffffffff) {
+                    break;
+                }
+            }
+            this._buffer = PhiloxEngine.philox4x32(prev, this._key);
+        }
+        return this;
+    }
+
+    public jump(): IRandomEngine {
+        this._ctr[3] = (this._ctr[3] + 1) >>> 0;
+        this._ctr[0] = 0;
+        this._ctr[1] = 0;
+        this._ctr[2] = 0;
+        this._idx = 4;
+        return this;
+    }
+
+    public split(): IRandomEngine {
+        let engine = new PhiloxEngine();
+        engine.setState(this.getState());
+        this.jump();
+        return engine;
+    }
+
+    private _incrementCounter(): void {
+        for (let i = 0;i < 4;i++) {
+            this._ctr[i] = (this._ctr[i] + 1) >>> 0;
+            if (this._ctr[i] !== 0) {
+                break;
+            }
+        }
+    }
+
 }
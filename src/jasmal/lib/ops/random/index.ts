@@ -1,13 +1,24 @@
 import { IRandomOpProvider } from './definition';
 import { Tensor } from '../../core/tensor';
-import { IRandomEngine, MT19937Engine, NativeEngine } from './engine';
+import { IRandomEngine, MT19937Engine, NativeEngine, PCG32Engine, Xoshiro256StarStarEngine,
+         PhiloxEngine, RandomEngineState } from './engine';
+import { ComplexNumber } from '../../core/complexNumber';
+import { OpInput } from '../../commonTypes';
 import { MAX_SAFE_INTEGER } from '../../constant';
+import { ShapeHelper } from '../../helper/shapeHelper';
+import { SpecialFunction } from '../../math/special';
+import { IMatrixOpProvider } from '../matrix/definition';
 import { IJasmalModuleFactory, JasmalOptions } from '../../jasmal';
+import { BroadcastEvaluator } from '../generator/broadcast';
 
 export class RandomOpProviderFactory implements IJasmalModuleFactory<IRandomOpProvider> {
+
+    constructor(private _matOp: IMatrixOpProvider) {
+    }
     
     public create(options: JasmalOptions): IRandomOpProvider {
         
+        const matOp = this._matOp;
         const rngEngine = options.rngEngine ? options.rngEngine : 'twister';
 
         // init engine
@@ -21,6 +32,15 @@ export class RandomOpProviderFactory implements IJasmalModuleFactory<IRandomOpPr
                 case 'MT19937Engine':
                     engine = new MT19937Engine();
                     break;
+                case 'pcg32':
+                    engine = new PCG32Engine();
+                    break;
+                case 'xoshiro256**':
+                    engine = new Xoshiro256StarStarEngine();
+                    break;
+                case 'philox':
+                    engine = new PhiloxEngine();
+                    break;
                 default:
                     throw new Error(`Unknown random engine name "${rngEngine}".`);
             }
@@ -39,10 +59,31 @@ export class RandomOpProviderFactory implements IJasmalModuleFactory<IRandomOpPr
                 return engine.getSeed();
             } else {
                 engine.setSeed(s);
+                // discard the cached normal sample so that the outputs of
+                // randn() only depend on the seed
+                randnNeedNewPair = true;
+                return;
+            }
+        }
+
+        function opRngState(state: RandomEngineState): void;
+        function opRngState(): RandomEngineState;
+        function opRngState(state?: RandomEngineState): RandomEngineState | void {
+            if (state == undefined) {
+                return engine.getState();
+            } else {
+                engine.setState(state);
+                // discard the cached normal sample so that the outputs of
+                // randn() only depend on the restored state
+                randnNeedNewPair = true;
                 return;
             }
         }
 
+        const opRngEngine = (): IRandomEngine => {
+            return engine;
+        };
+
         function opRand(): number;
         function opRand(shape: ArrayLike<number>): Tensor;
         function opRand(shape?: ArrayLike<number>): number | Tensor {
@@ -166,12 +207,361 @@ export class RandomOpProviderFactory implements IJasmalModuleFactory<IRandomOpPr
             }
         }
 
+        function opCrandn(): ComplexNumber;
+        function opCrandn(shape: ArrayLike<number>): Tensor;
+        function opCrandn(shape?: ArrayLike<number>): ComplexNumber | Tensor {
+            if (shape) {
+                let t = Tensor.zeros(shape);
+                t.ensureComplexStorage();
+                let re = t.realData,
+                    im = t.imagData,
+                    i: number,
+                    n = t.size;
+                for (i = 0;i < n;i++) {
+                    re[i] = Math.SQRT1_2 * _nextRandn();
+                    im[i] = Math.SQRT1_2 * _nextRandn();
+                }
+                return t;
+            } else {
+                let re = Math.SQRT1_2 * _nextRandn();
+                return new ComplexNumber(re, Math.SQRT1_2 * _nextRandn());
+            }
+        }
+
+        /**
+         * Generates samples element-wise with the parameters broadcast against
+         * each other (and against the specified shape).
+         * @param params Distribution parameters. Must be real.
+         * @param shape (Optional) Shape of the output.
+         * @param sampler Generates a sample from the given parameter values.
+         */
+        const sampleWithParams = (params: OpInput[], shape: ArrayLike<number> | undefined,
+                                  sampler: (p: number[]) => number): number | Tensor => {
+            return BroadcastEvaluator.evaluate(params, shape, sampler, 'Distribution parameters must be real.');
+        };
+
+        /**
+         * Samples from the gamma distribution with shape a and unit scale
+         * using the method by Marsaglia and Tsang. For a < 1, the sample is
+         * boosted using Gamma(a) = Gamma(a + 1) U^(1/a).
+         * Reference: G. Marsaglia and W. W. Tsang, "A simple method for
+         * generating gamma variables," ACM Trans. Math. Softw., 2000.
+         */
+        const nextGamma = (a: number): number => {
+            if (!(a > 0)) {
+                return NaN;
+            }
+            if (a === Infinity) {
+                return Infinity;
+            }
+            if (a < 1) {
+                let u = engine.nextDouble();
+                return nextGamma(a + 1) * Math.pow(u, 1 / a);
+            }
+            let d = a - 1 / 3;
+            let c = 1 / Math.sqrt(9 * d);
+            let x: number, v: number, u: number;
+            for (;;) {
+                do {
+                    x = _nextRandn();
+                    v = 1 + c * x;
+                } while (v <= 0);
+                v = v * v * v;
+                u = engine.nextDouble();
+                if (u < 1 - 0.0331 * x * x * x * x) {
+                    return d * v;
+                }
+                if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+                    return d * v;
+                }
+            }
+        };
+
+        const nextBeta = (a: number, b: number): number => {
+            if (!(a > 0) || !(b > 0)) {
+                return NaN;
+            }
+            let x = nextGamma(a);
+            let y = nextGamma(b);
+            return x / (x + y);
+        };
+
+        /**
+         * Samples from the Poisson distribution. For small lambda, the
+         * multiplication method is used. Otherwise the transformed rejection
+         * method (PTRS) is used.
+         * Reference: W. Hormann, "The transformed rejection method for
+         * generating Poisson random variables," Insurance: Mathematics and
+         * Economics, 1993.
+         */
+        const nextPoisson = (lambda: number): number => {
+            if (!(lambda >= 0) || lambda === Infinity) {
+                return NaN;
+            }
+            let k: number;
+            if (lambda < 10) {
+                let l = Math.exp(-lambda);
+                let p = 1;
+                k = -1;
+                do {
+                    k++;
+                    p *= engine.nextDouble();
+                } while (p > l);
+                return k;
+            }
+            let sLambda = Math.sqrt(lambda);
+            let logLambda = Math.log(lambda);
+            let b = 0.931 + 2.53 * sLambda;
+            let a = -0.059 + 0.02483 * b;
+            let invAlpha = 1.1239 + 1.1328 / (b - 3.4);
+            let vr = 0.9277 - 3.6224 / (b - 2);
+            let u: number, v: number, us: number;
+            for (;;) {
+                u = engine.nextDouble() - 0.5;
+                v = engine.nextDouble();
+                us = 0.5 - Math.abs(u);
+                k = Math.floor((2 * a / us + b) * u + lambda + 0.43);
+                if (us >= 0.07 && v <= vr) {
+                    return k;
+                }
+                if (k < 0 || (us < 0.013 && v > us)) {
+                    continue;
+                }
+                if (Math.log(v) + Math.log(invAlpha) - Math.log(a / (us * us) + b)
+                    <= -lambda + k * logLambda - SpecialFunction.gammaln(k + 1)) {
+                    return k;
+                }
+            }
+        };
+
+        /**
+         * Samples from the binomial distribution. Large n is reduced using the
+         * order statistics of uniform random variables (which follow beta
+         * distributions) until n is small enough for the inversion method.
+         * Reference: D. E. Knuth, The Art of Computer Programming, Vol. 2,
+         * Section 3.4.1.
+         */
+        const nextBinomial = (n: number, p: number): number => {
+            if (!(n >= 0) || Math.floor(n) !== n || !(p >= 0 && p <= 1)) {
+                return NaN;
+            }
+            let k = 0;
+            let a: number, b: number, x: number;
+            while (n > 40) {
+                a = 1 + Math.floor(n / 2);
+                b = n + 1 - a;
+                x = nextBeta(a, b);
+                if (x >= p) {
+                    n = a - 1;
+                    p = p / x;
+                } else {
+                    k += a;
+                    n = b - 1;
+                    p = (p - x) / (1 - x);
+                }
+            }
+            return k + nextBinomialInversion(n, p);
+        };
+
+        const nextBinomialInversion = (n: number, p: number): number => {
+            if (p > 0.5) {
+                return n - nextBinomialInversion(n, 1 - p);
+            }
+            let q = 1 - p;
+            let s = p / q;
+            let f = Math.pow(q, n);
+            let u = engine.nextDouble();
+            let k = 0;
+            while (u > f && k < n) {
+                u -= f;
+                k++;
+                f *= s * (n - k + 1) / k;
+            }
+            return k;
+        };
+
+        const nextGeometric = (p: number): number => {
+            if (!(p > 0 && p <= 1)) {
+                return NaN;
+            }
+            if (p === 1) {
+                return 0;
+            }
+            return Math.floor(Math.log(engine.nextDouble()) / Math.log(1 - p));
+        };
+
+        function opExprnd(mu: number): number;
+        function opExprnd(mu: OpInput, shape?: ArrayLike<number>): Tensor;
+        function opExprnd(mu: OpInput, shape?: ArrayLike<number>): number | Tensor {
+            return sampleWithParams([mu], shape, p => {
+                return p[0] > 0 ? -p[0] * Math.log(engine.nextDouble()) : NaN;
+            });
+        }
+
+        function opGamrnd(a: number, b: number): number;
+        function opGamrnd(a: OpInput, b: OpInput, shape?: ArrayLike<number>): Tensor;
+        function opGamrnd(a: OpInput, b: OpInput, shape?: ArrayLike<number>): number | Tensor {
+            return sampleWithParams([a, b], shape, p => {
+                return p[1] > 0 ? p[1] * nextGamma(p[0]) : NaN;
+            });
+        }
+
+        function opBetarnd(a: number, b: number): number;
+        function opBetarnd(a: OpInput, b: OpInput, shape?: ArrayLike<number>): Tensor;
+        function opBetarnd(a: OpInput, b: OpInput, shape?: ArrayLike<number>): number | Tensor {
+            return sampleWithParams([a, b], shape, p => nextBeta(p[0], p[1]));
+        }
+
+        function opChi2rnd(nu: number): number;
+        function opChi2rnd(nu: OpInput, shape?: ArrayLike<number>): Tensor;
+        function opChi2rnd(nu: OpInput, shape?: ArrayLike<number>): number | Tensor {
+            return sampleWithParams([nu], shape, p => 2 * nextGamma(0.5 * p[0]));
+        }
+
+        function opTrnd(nu: number): number;
+        function opTrnd(nu: OpInput, shape?: ArrayLike<number>): Tensor;
+        function opTrnd(nu: OpInput, shape?: ArrayLike<number>): number | Tensor {
+            return sampleWithParams([nu], shape, p => {
+                if (!(p[0] > 0)) {
+                    return NaN;
+                }
+                let z = _nextRandn();
+                return p[0] === Infinity ? z : z / Math.sqrt(2 * nextGamma(0.5 * p[0]) / p[0]);
+            });
+        }
+
+        function opLognrnd(mu: number, sigma: number): number;
+        function opLognrnd(mu: OpInput, sigma: OpInput, shape?: ArrayLike<number>): Tensor;
+        function opLognrnd(mu: OpInput, sigma: OpInput, shape?: ArrayLike<number>): number | Tensor {
+            return sampleWithParams([mu, sigma], shape, p => {
+                return p[1] >= 0 ? Math.exp(p[0] + p[1] * _nextRandn()) : NaN;
+            });
+        }
+
+        function opPoissrnd(lambda: number): number;
+        function opPoissrnd(lambda: OpInput, shape?: ArrayLike<number>): Tensor;
+        function opPoissrnd(lambda: OpInput, shape?: ArrayLike<number>): number | Tensor {
+            return sampleWithParams([lambda], shape, p => nextPoisson(p[0]));
+        }
+
+        function opBinornd(n: number, p: number): number;
+        function opBinornd(n: OpInput, p: OpInput, shape?: ArrayLike<number>): Tensor;
+        function opBinornd(n: OpInput, p: OpInput, shape?: ArrayLike<number>): number | Tensor {
+            return sampleWithParams([n, p], shape, q => nextBinomial(q[0], q[1]));
+        }
+
+        function opGeornd(p: number): number;
+        function opGeornd(p: OpInput, shape?: ArrayLike<number>): Tensor;
+        function opGeornd(p: OpInput, shape?: ArrayLike<number>): number | Tensor {
+            return sampleWithParams([p], shape, q => nextGeometric(q[0]));
+        }
+
+        const opMvnrnd = (mu: OpInput, sigma: OpInput, n?: number): Tensor => {
+            let M = mu instanceof Tensor ? mu : Tensor.toTensor(mu);
+            let S = sigma instanceof Tensor ? sigma : Tensor.toTensor(sigma);
+            if (M.hasNonZeroComplexStorage() || S.hasNonZeroComplexStorage()) {
+                throw new Error('Complex inputs are not supported.');
+            }
+            if (M.shape.length > 2) {
+                throw new Error('mu must be a vector or a matrix.');
+            }
+            if (S.shape.length !== 2 || S.shape[0] !== S.shape[1]) {
+                throw new Error('sigma must be a square matrix.');
+            }
+            let d = S.shape[0];
+            let isMuMatrix = M.shape.length === 2 && M.shape[0] !== 1;
+            if (isMuMatrix) {
+                if (M.shape[1] !== d) {
+                    throw new Error(`mu must have ${d} columns.`);
+                }
+                if (n != undefined && n !== M.shape[0]) {
+                    throw new Error('n must be equal to the number of rows of mu.');
+                }
+                n = M.shape[0];
+            } else {
+                if (M.size !== d) {
+                    throw new Error(`mu must be a vector of length ${d}.`);
+                }
+                n = n == undefined ? 1 : n;
+            }
+            if (n < 0 || Math.floor(n) !== n) {
+                throw new Error('n must be a nonnegative integer.');
+            }
+            // sigma = L L^T and each sample is given by mu + L z
+            let reL = matOp.chol(S).realData;
+            let reM = M.realData;
+            let X = Tensor.zeros([n, d]);
+            let reX = X.realData;
+            let z = new Array(d);
+            let i: number, j: number, k: number, acc: number;
+            for (i = 0;i < n;i++) {
+                for (k = 0;k < d;k++) {
+                    z[k] = _nextRandn();
+                }
+                for (j = 0;j < d;j++) {
+                    acc = 0;
+                    for (k = 0;k <= j;k++) {
+                        acc += reL[j * d + k] * z[k];
+                    }
+                    reX[i * d + j] = (isMuMatrix ? reM[i * d + j] : reM[j]) + acc;
+                }
+            }
+            return X;
+        };
+
+        const opDirichletrnd = (alpha: OpInput, n: number = 1): Tensor => {
+            let A = alpha instanceof Tensor ? alpha : Tensor.toTensor(alpha);
+            if (A.hasNonZeroComplexStorage()) {
+                throw new Error('alpha must be real.');
+            }
+            if (ShapeHelper.getSqueezedShape(A.shape).length !== 1) {
+                throw new Error('alpha must be a vector.');
+            }
+            if (n < 0 || Math.floor(n) !== n) {
+                throw new Error('n must be a nonnegative integer.');
+            }
+            let reA = A.realData;
+            let k = A.size;
+            for (let j = 0;j < k;j++) {
+                if (!(reA[j] > 0) || reA[j] === Infinity) {
+                    throw new Error('Elements of alpha must be positive and finite.');
+                }
+            }
+            let X = Tensor.zeros([n, k]);
+            let reX = X.realData;
+            for (let i = 0;i < n;i++) {
+                let s = 0;
+                for (let j = 0;j < k;j++) {
+                    reX[i * k + j] = nextGamma(reA[j]);
+                    s += reX[i * k + j];
+                }
+                for (let j = 0;j < k;j++) {
+                    reX[i * k + j] /= s;
+                }
+            }
+            return X;
+        };
+
         return {
             seed: opSeed,
+            rngState: opRngState,
+            rngEngine: opRngEngine,
             rand: opRand,
             randi: opRandi,
             randn: opRandn,
-            unifrnd: opUnifrnd
+            unifrnd: opUnifrnd,
+            crandn: opCrandn,
+            exprnd: opExprnd,
+            gamrnd: opGamrnd,
+            betarnd: opBetarnd,
+            chi2rnd: opChi2rnd,
+            trnd: opTrnd,
+            lognrnd: opLognrnd,
+            poissrnd: opPoissrnd,
+            binornd: opBinornd,
+            geornd: opGeornd,
+            mvnrnd: opMvnrnd,
+            dirichletrnd: opDirichletrnd
         };
     }
 }
@@ -0,0 +1,147 @@
+import { OpInput } from '../../commonTypes';
+import { Tensor } from '../../core/tensor';
+
+export interface ISignalOpProvider {
+
+    /**
+     * Filters the input with the rational transfer function
+     *  H(z) = (b[0] + b[1] z^{-1} + ... + b[nb-1] z^{-(nb-1)})
+     *       / (a[0] + a[1] z^{-1} + ... + a[na-1] z^{-(na-1)})
+     * using the direct form II transposed structure. The coefficients are
+     * normalized by a[0], which must be nonzero.
+     * @param b Numerator coefficients.
+     * @param a Denominator coefficients.
+     * @param x Input tensor.
+     * @param axis (Optional) Axis along which the filter is applied. If not
+     *             specified, the input will be treated as a flattened vector.
+     *             The output always has the same shape as x.
+     * @example
+     *  // Moving average along each column
+     *  let y = T.filter([0.25, 0.25, 0.25, 0.25], [1], x, 0);
+     */
+    filter(b: OpInput, a: OpInput, x: OpInput, axis?: number): Tensor;
+    /**
+     * Filters the input with the rational transfer function using the
+     * initial conditions zi and returns the output. See the other overload
+     * for the definitions of the other arguments.
+     * @param zi Initial conditions. Let nz = max(na, nb) - 1. If axis is not
+     *           specified, zi should be a vector of length nz. Otherwise zi
+     *           should have the same shape as x except for the specified axis,
+     *           whose length should be nz. Set it to undefined to use zero
+     *           initial conditions.
+     * @param outputFinalConditions Set to true to output the final conditions,
+     *                              which have the same shape as zi.
+     */
+    filter(b: OpInput, a: OpInput, x: OpInput, axis: number, zi: OpInput | undefined,
+           outputFinalConditions: false): Tensor;
+    filter(b: OpInput, a: OpInput, x: OpInput, axis: number, zi: OpInput | undefined,
+           outputFinalConditions: true): [Tensor, Tensor];
+
+    /**
+     * Performs zero-phase digital filtering by processing the input in both
+     * the forward and reverse directions. The input is extended at both ends
+     * by odd reflections of length 3(max(na, nb) - 1), and the initial
+     * conditions are chosen to match the steady state of the step response
+     * to reduce transients.
+     * @param b Numerator coefficients.
+     * @param a Denominator coefficients.
+     * @param x Input tensor. Its length along the specified axis must be
+     *          greater than 3(max(na, nb) - 1).
+     * @param axis (Optional) Axis along which the filter is applied. If not
+     *             specified, the input will be treated as a flattened vector.
+     */
+    filtfilt(b: OpInput, a: OpInput, x: OpInput, axis?: number): Tensor;
+
+    /**
+     * Computes the convolution of two vectors. For long inputs, the
+     * convolution is computed via FFT, which may introduce small rounding
+     * errors.
+     * @param u A vector.
+     * @param v A vector.
+     * @param shape (Optional) Specifies the part of the convolution to return.
+     *                'full' - (Default) The full convolution of length m + n - 1.
+     *                'same' - The central part of length m, where m is the
+     *                         length of u.
+     *               'valid' - The part computed without zero-padded edges, of
+     *                         length max(m - n + 1, 0).
+     * @returns A 1D vector.
+     */
+    conv(u: OpInput, v: OpInput, shape?: 'full' | 'same' | 'valid'): Tensor;
+
+    /**
+     * Computes the 2D convolution of two matrices. For large inputs, the
+     * convolution is computed via 2D FFT.
+     * @param a A matrix.
+     * @param b A matrix.
+     * @param shape (Optional) Specifies the part of the convolution to return.
+     *              See conv() for details. 'same' returns the central part
+     *              with the same size as a.
+     */
+    conv2(a: OpInput, b: OpInput, shape?: 'full' | 'same' | 'valid'): Tensor;
+
+    /**
+     * Deconvolution and polynomial division. Finds q and r such that
+     * y = conv(b, q) + r.
+     * @param y A vector.
+     * @param b A vector whose first element is nonzero.
+     * @returns [q, r], where q has a length of max(m - n + 1, 1) and r has
+     *          the same length as y.
+     */
+    deconv(y: OpInput, b: OpInput): [Tensor, Tensor];
+
+    /**
+     * Computes the cross-correlation of two vectors
+     *  r[m] = \sum_n x[n + m] conj(y[n]),  m = -maxLag, ..., maxLag.
+     * The shorter vector is padded with zeros.
+     * @param x A vector.
+     * @param y (Optional) A vector. If omitted, the auto-correlation of x is
+     *          computed.
+     * @param maxLag (Optional) Maximum lag. Default value is N - 1, where N
+     *               is the length of the longer vector.
+     * @param scale (Optional) Normalization option.
+     *                  'none' - (Default) No normalization.
+     *                'biased' - Divides by N.
+     *              'unbiased' - Divides by N - |m|.
+     *                 'coeff' - Normalizes such that the auto-correlations at
+     *                           zero lag are equal to one. x and y must have
+     *                           the same length.
+     * @returns A 1D vector of length 2 maxLag + 1 whose elements correspond
+     *          to the lags -maxLag, ..., maxLag.
+     */
+    xcorr(x: OpInput, y?: OpInput, maxLag?: number, scale?: 'none' | 'biased' | 'unbiased' | 'coeff'): Tensor;
+
+    /**
+     * Generates a Hamming window of length n.
+     *  w[k] = 0.54 - 0.46 cos(2 pi k / (N - 1))
+     * @param n Length of the window.
+     * @param sflag (Optional) 'symmetric' (default) or 'periodic'. The
+     *              periodic window is computed with N = n + 1 and is suitable
+     *              for spectral analysis.
+     */
+    hamming(n: number, sflag?: 'symmetric' | 'periodic'): Tensor;
+
+    /**
+     * Generates a Hann window of length n.
+     *  w[k] = 0.5 - 0.5 cos(2 pi k / (N - 1))
+     * See hamming() for the definitions of the arguments.
+     */
+    hann(n: number, sflag?: 'symmetric' | 'periodic'): Tensor;
+
+    /**
+     * Generates a Blackman window of length n.
+     *  w[k] = 0.42 - 0.5 cos(2 pi k / (N - 1)) + 0.08 cos(4 pi k / (N - 1))
+     * See hamming() for the definitions of the arguments.
+     */
+    blackman(n: number, sflag?: 'symmetric' | 'periodic'): Tensor;
+
+    /**
+     * Generates a Kaiser window of length n.
+     *  w[k] = I_0(beta sqrt(1 - (2k/(n-1) - 1)^2)) / I_0(beta)
+     * where I_0 is the zeroth-order modified Bessel function of the first
+     * kind.
+     * @param n Length of the window.
+     * @param beta (Optional) Shape parameter. Default value is 0.5.
+     */
+    kaiser(n: number, beta?: number): Tensor;
+
+}
@@ -0,0 +1,601 @@
+import { ISignalOpProvider } from './definition';
+import { Tensor } from '../../core/tensor';
+import { OpInput, DataBlock } from '../../commonTypes';
+import { DataHelper } from '../../helper/dataHelper';
+import { ShapeHelper } from '../../helper/shapeHelper';
+import { CMath } from '../../math/cmath';
+import { SignalFunction } from './signalfun';
+import { IJasmalModuleFactory, JasmalOptions } from '../../jasmal';
+
+/**
+ * Normalized filter coefficients of the same length with a[0] = 1.
+ */
+interface FilterCoefficients {
+    reB: DataBlock;
+    imB: DataBlock;
+    reA: DataBlock;
+    imA: DataBlock;
+    isComplex: boolean;
+}
+
+export class SignalOpProviderFactory implements IJasmalModuleFactory<ISignalOpProvider> {
+
+    public create(_options: JasmalOptions): ISignalOpProvider {
+
+        const isVectorShape = (shape: number[]): boolean => {
+            let nNonSingleton = 0;
+            for (let i = 0;i < shape.length;i++) {
+                if (shape[i] !== 1) {
+                    nNonSingleton++;
+                }
+            }
+            return nNonSingleton <= 1;
+        };
+
+        /**
+         * Copies the elements of a vector into new arrays. The imaginary part
+         * is filled with zeros if the input is real.
+         * @returns [re, im, isComplex]
+         */
+        const getVectorData = (x: OpInput): [DataBlock, DataBlock, boolean] => {
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            if (!isVectorShape(X.shape)) {
+                throw new Error('Vector expected.');
+            }
+            let n = X.size;
+            let re = DataHelper.allocateFloat64Array(n);
+            let im = DataHelper.allocateFloat64Array(n);
+            DataHelper.copy(X.realData, re);
+            let isComplex = X.hasNonZeroComplexStorage();
+            if (isComplex) {
+                DataHelper.copy(X.imagData, im);
+            }
+            return [re, im, isComplex];
+        };
+
+        const createTensor = (shape: number[], re: ArrayLike<number>, im: ArrayLike<number>,
+                              isComplex: boolean, offset: number = 0): Tensor => {
+            let Y = Tensor.zeros(shape);
+            DataHelper.copy(re, Y.realData, offset, 0, Y.size);
+            if (isComplex) {
+                Y.ensureComplexStorage();
+                DataHelper.copy(im, Y.imagData, offset, 0, Y.size);
+            }
+            return Y;
+        };
+
+        /**
+         * Determines the layout of the vectors along the specified axis.
+         * @returns [n, nOuter, nInner] such that the k-th element of the
+         *          (i, j)-th vector is stored at (i * n + k) * nInner + j. If
+         *          axis is negative, the whole tensor is treated as a single
+         *          vector.
+         */
+        const getAxisLayout = (shape: number[], axis: number): [number, number, number] => {
+            if (axis < 0) {
+                return [ShapeHelper.getSizeFromShape(shape), 1, 1];
+            }
+            if (axis >= shape.length) {
+                throw new Error(`Invalid axis number ${axis}.`);
+            }
+            let nOuter = 1, nInner = 1;
+            for (let i = 0;i < axis;i++) {
+                nOuter *= shape[i];
+            }
+            for (let i = axis + 1;i < shape.length;i++) {
+                nInner *= shape[i];
+            }
+            return [shape[axis], nOuter, nInner];
+        };
+
+        const normalizeFilterCoefficients = (b: OpInput, a: OpInput): FilterCoefficients => {
+            let [reB0, imB0, isBComplex] = getVectorData(b);
+            let [reA0, imA0, isAComplex] = getVectorData(a);
+            if (reB0.length === 0 || reA0.length === 0) {
+                throw new Error('Filter coefficients cannot be empty.');
+            }
+            if (reA0[0] === 0 && imA0[0] === 0) {
+                throw new Error('The first denominator coefficient cannot be zero.');
+            }
+            let n = Math.max(reB0.length, reA0.length);
+            let reB = DataHelper.allocateFloat64Array(n);
+            let imB = DataHelper.allocateFloat64Array(n);
+            let reA = DataHelper.allocateFloat64Array(n);
+            let imA = DataHelper.allocateFloat64Array(n);
+            let isComplex = isBComplex || isAComplex;
+            let i: number;
+            if (isComplex) {
+                for (i = 0;i < reB0.length;i++) {
+                    [reB[i], imB[i]] = CMath.cdivCC(reB0[i], imB0[i], reA0[0], imA0[0]);
+                }
+                for (i = 0;i < reA0.length;i++) {
+                    [reA[i], imA[i]] = CMath.cdivCC(reA0[i], imA0[i], reA0[0], imA0[0]);
+                }
+            } else {
+                for (i = 0;i < reB0.length;i++) {
+                    reB[i] = reB0[i] / reA0[0];
+                }
+                for (i = 0;i < reA0.length;i++) {
+                    reA[i] = reA0[i] / reA0[0];
+                }
+            }
+            reA[0] = 1;
+            imA[0] = 0;
+            return { reB: reB, imB: imB, reA: reA, imA: imA, isComplex: isComplex };
+        };
+
+        /**
+         * Filters (reX, imX) using the states (reZ, imZ) and stores the
+         * results in (reY, imY). Imaginary parts are not accessed if
+         * isComplex is false.
+         */
+        const runFilter = (c: FilterCoefficients, isComplex: boolean,
+                           reX: ArrayLike<number>, imX: ArrayLike<number>,
+                           reZ: DataBlock, imZ: DataBlock, reY: DataBlock, imY: DataBlock): void => {
+            if (isComplex) {
+                SignalFunction.filterComplex(c.reB, c.imB, c.reA, c.imA, reX, imX, reZ, imZ, reY, imY);
+            } else {
+                SignalFunction.filterReal(c.reB, c.reA, reX, reZ, reY);
+            }
+        };
+
+        function opFilter(b: OpInput, a: OpInput, x: OpInput, axis?: number): Tensor;
+        function opFilter(b: OpInput, a: OpInput, x: OpInput, axis: number, zi: OpInput | undefined,
+                          outputFinalConditions: false): Tensor;
+        function opFilter(b: OpInput, a: OpInput, x: OpInput, axis: number, zi: OpInput | undefined,
+                          outputFinalConditions: true): [Tensor, Tensor];
+        function opFilter(b: OpInput, a: OpInput, x: OpInput, axis: number = -1, zi?: OpInput,
+                          outputFinalConditions: boolean = false): Tensor | [Tensor, Tensor] {
+            let coeffs = normalizeFilterCoefficients(b, a);
+            let nz = coeffs.reB.length - 1;
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            let shapeX = X.shape;
+            let [n, nOuter, nInner] = getAxisLayout(shapeX, axis);
+            let shapeZ: number[];
+            if (axis < 0) {
+                shapeZ = [nz];
+            } else {
+                shapeZ = shapeX.slice();
+                shapeZ[axis] = nz;
+            }
+            let ZI: Tensor | undefined;
+            if (zi !== undefined) {
+                ZI = zi instanceof Tensor ? zi : Tensor.toTensor(zi);
+                if (axis < 0 ? ZI.size !== nz : !ShapeHelper.compareShape(ZI.shape, shapeZ)) {
+                    throw new Error(`Expecting initial conditions of shape ${ShapeHelper.shapeToString(shapeZ)}.`);
+                }
+            }
+            let isComplex = coeffs.isComplex || X.hasNonZeroComplexStorage() ||
+                (ZI !== undefined && ZI.hasNonZeroComplexStorage());
+            let Y = Tensor.zeros(shapeX);
+            let ZF = Tensor.zeros(shapeZ);
+            if (isComplex) {
+                Y.ensureComplexStorage();
+                ZF.ensureComplexStorage();
+            }
+            let reX = X.realData;
+            let imX = X.hasComplexStorage() ? X.imagData : undefined;
+            let reZI = ZI === undefined ? undefined : ZI.realData;
+            let imZI = ZI !== undefined && ZI.hasComplexStorage() ? ZI.imagData : undefined;
+            let reY = Y.realData;
+            let imY = isComplex ? Y.imagData : reY;
+            let reZF = ZF.realData;
+            let imZF = isComplex ? ZF.imagData : reZF;
+            let tmpReX = DataHelper.allocateFloat64Array(n);
+            let tmpImX = DataHelper.allocateFloat64Array(n);
+            let tmpReY = DataHelper.allocateFloat64Array(n);
+            let tmpImY = DataHelper.allocateFloat64Array(n);
+            let reZ = DataHelper.allocateFloat64Array(nz);
+            let imZ = DataHelper.allocateFloat64Array(nz);
+            let i: number, j: number, k: number;
+            let offsetX: number, offsetZ: number;
+            for (i = 0;i < nOuter;i++) {
+                for (j = 0;j < nInner;j++) {
+                    offsetX = i * n * nInner + j;
+                    offsetZ = i * nz * nInner + j;
+                    for (k = 0;k < n;k++) {
+                        tmpReX[k] = reX[offsetX + k * nInner];
+                        tmpImX[k] = imX ? imX[offsetX + k * nInner] : 0;
+                    }
+                    for (k = 0;k < nz;k++) {
+                        reZ[k] = reZI ? reZI[offsetZ + k * nInner] : 0;
+                        imZ[k] = imZI ? imZI[offsetZ + k * nInner] : 0;
+                    }
+                    runFilter(coeffs, isComplex, tmpReX, tmpImX, reZ, imZ, tmpReY, tmpImY);
+                    for (k = 0;k < n;k++) {
+                        reY[offsetX + k * nInner] = tmpReY[k];
+                    }
+                    for (k = 0;k < nz;k++) {
+                        reZF[offsetZ + k * nInner] = reZ[k];
+                    }
+                    if (isComplex) {
+                        for (k = 0;k < n;k++) {
+                            imY[offsetX + k * nInner] = tmpImY[k];
+                        }
+                        for (k = 0;k < nz;k++) {
+                            imZF[offsetZ + k * nInner] = imZ[k];
+                        }
+                    }
+                }
+            }
+            return outputFinalConditions ? [Y, ZF] : Y;
+        }
+
+        /**
+         * Computes the initial conditions corresponding to the steady state of
+         * the step response:
+         *  zi[i] = \sum_{j=i+1}^{nz} (b[j] - a[j] K), K = sum(b) / sum(a).
+         */
+        const computeSteadyStateConditions = (c: FilterCoefficients): [DataBlock, DataBlock] => {
+            let nz = c.reB.length - 1;
+            let reZ = DataHelper.allocateFloat64Array(nz);
+            let imZ = DataHelper.allocateFloat64Array(nz);
+            let reSumB = 0, imSumB = 0, reSumA = 0, imSumA = 0;
+            for (let i = 0;i <= nz;i++) {
+                reSumB += c.reB[i];
+                imSumB += c.imB[i];
+                reSumA += c.reA[i];
+                imSumA += c.imA[i];
+            }
+            if (reSumA === 0 && imSumA === 0) {
+                // The filter has a pole at z = 1 and the step response does
+                // not have a steady state.
+                return [reZ, imZ];
+            }
+            let [reK, imK] = CMath.cdivCC(reSumB, imSumB, reSumA, imSumA);
+            let reAcc = 0, imAcc = 0;
+            for (let i = nz - 1;i >= 0;i--) {
+                reAcc += c.reB[i + 1] - (c.reA[i + 1] * reK - c.imA[i + 1] * imK);
+                imAcc += c.imB[i + 1] - (c.reA[i + 1] * imK + c.imA[i + 1] * reK);
+                reZ[i] = reAcc;
+                imZ[i] = imAcc;
+            }
+            return [reZ, imZ];
+        };
+
+        const reverseInPlace = (x: DataBlock): void => {
+            let t: number;
+            for (let i = 0, j = x.length - 1;i < j;i++, j--) {
+                t = x[i];
+                x[i] = x[j];
+                x[j] = t;
+            }
+        };
+
+        const opFiltfilt = (b: OpInput, a: OpInput, x: OpInput, axis: number = -1): Tensor => {
+            let coeffs = normalizeFilterCoefficients(b, a);
+            let nz = coeffs.reB.length - 1;
+            let nEdge = 3 * nz;
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            let shapeX = X.shape;
+            let [n, nOuter, nInner] = getAxisLayout(shapeX, axis);
+            if (n <= nEdge) {
+                throw new Error(`The length of the input must be greater than ${nEdge}.`);
+            }
+            let isComplex = coeffs.isComplex || X.hasNonZeroComplexStorage();
+            let [reZI, imZI] = computeSteadyStateConditions(coeffs);
+            let Y = Tensor.zeros(shapeX);
+            if (isComplex) {
+                Y.ensureComplexStorage();
+            }
+            let reX = X.realData;
+            let imX = X.hasComplexStorage() ? X.imagData : undefined;
+            let reY = Y.realData;
+            let imY = isComplex ? Y.imagData : reY;
+            let ne = n + 2 * nEdge;
+            let reE = DataHelper.allocateFloat64Array(ne);
+            let imE = DataHelper.allocateFloat64Array(ne);
+            let reZ = DataHelper.allocateFloat64Array(nz);
+            let imZ = DataHelper.allocateFloat64Array(nz);
+            let i: number, j: number, k: number;
+            let offsetX: number;
+            // z = zi * e[0]
+            let initStates = (): void => {
+                for (k = 0;k < nz;k++) {
+                    reZ[k] = reZI[k] * reE[0] - imZI[k] * imE[0];
+                    imZ[k] = reZI[k] * imE[0] + imZI[k] * reE[0];
+                }
+            };
+            for (i = 0;i < nOuter;i++) {
+                for (j = 0;j < nInner;j++) {
+                    offsetX = i * n * nInner + j;
+                    // extend the input with odd reflections at both ends
+                    for (k = 0;k < n;k++) {
+                        reE[nEdge + k] = reX[offsetX + k * nInner];
+                        imE[nEdge + k] = imX ? imX[offsetX + k * nInner] : 0;
+                    }
+                    for (k = 0;k < nEdge;k++) {
+                        reE[k] = 2 * reE[nEdge] - reE[2 * nEdge - k];
+                        imE[k] = 2 * imE[nEdge] - imE[2 * nEdge - k];
+                        reE[nEdge + n + k] = 2 * reE[nEdge + n - 1] - reE[nEdge + n - 2 - k];
+                        imE[nEdge + n + k] = 2 * imE[nEdge + n - 1] - imE[nEdge + n - 2 - k];
+                    }
+                    // forward pass
+                    initStates();
+                    runFilter(coeffs, isComplex, reE, imE, reZ, imZ, reE, imE);
+                    // backward pass
+                    reverseInPlace(reE);
+                    reverseInPlace(imE);
+                    initStates();
+                    runFilter(coeffs, isComplex, reE, imE, reZ, imZ, reE, imE);
+                    reverseInPlace(reE);
+                    reverseInPlace(imE);
+                    for (k = 0;k < n;k++) {
+                        reY[offsetX + k * nInner] = reE[nEdge + k];
+                    }
+                    if (isComplex) {
+                        for (k = 0;k < n;k++) {
+                            imY[offsetX + k * nInner] = imE[nEdge + k];
+                        }
+                    }
+                }
+            }
+            return Y;
+        };
+
+        const checkConvShape = (shape: string): void => {
+            if (shape !== 'full' && shape !== 'same' && shape !== 'valid') {
+                throw new Error(`Invalid shape '${shape}'.`);
+            }
+        };
+
+        /**
+         * Computes the full convolution of two nonempty complex vectors.
+         */
+        const convFull = (reU: ArrayLike<number>, imU: ArrayLike<number>,
+                          reV: ArrayLike<number>, imV: ArrayLike<number>): [DataBlock, DataBlock] => {
+            let m = reU.length, n = reV.length;
+            let reW = DataHelper.allocateFloat64Array(m + n - 1);
+            let imW = DataHelper.allocateFloat64Array(m + n - 1);
+            if (SignalFunction.shouldUseFFT(m, n)) {
+                SignalFunction.convFFT(reU, imU, reV, imV, reW, imW);
+            } else {
+                SignalFunction.convDirect(reU, imU, reV, imV, reW, imW);
+            }
+            return [reW, imW];
+        };
+
+        /**
+         * Determines the starting index and the length of the part of the full
+         * convolution to return along one dimension.
+         * @param m Length of the first input.
+         * @param n Length of the second input.
+         */
+        const getConvRange = (m: number, n: number, shape: string): [number, number] => {
+            switch (shape) {
+                case 'same':
+                    return [Math.floor(n / 2), m];
+                case 'valid':
+                    return [n - 1, Math.max(m - n + 1, 0)];
+                default:
+                    return [0, m + n - 1];
+            }
+        };
+
+        const opConv = (u: OpInput, v: OpInput, shape: 'full' | 'same' | 'valid' = 'full'): Tensor => {
+            checkConvShape(shape);
+            let [reU, imU, isUComplex] = getVectorData(u);
+            let [reV, imV, isVComplex] = getVectorData(v);
+            if (reU.length === 0 || reV.length === 0) {
+                return Tensor.zeros([shape === 'same' ? reU.length : 0]);
+            }
+            let [reW, imW] = convFull(reU, imU, reV, imV);
+            let [start, l] = getConvRange(reU.length, reV.length, shape);
+            return createTensor([l], reW, imW, isUComplex || isVComplex, start);
+        };
+
+        const getMatrixData = (x: OpInput): [number, number, DataBlock, DataBlock, boolean] => {
+            let X = x instanceof Tensor ? x : Tensor.toTensor(x);
+            let m: number, n: number;
+            if (X.ndim === 1) {
+                [m, n] = [1, X.size];
+            } else if (X.ndim === 2) {
+                [m, n] = X.shape;
+            } else {
+                throw new Error('Matrix expected.');
+            }
+            let re = DataHelper.allocateFloat64Array(m * n);
+            let im = DataHelper.allocateFloat64Array(m * n);
+            DataHelper.copy(X.realData, re);
+            let isComplex = X.hasNonZeroComplexStorage();
+            if (isComplex) {
+                DataHelper.copy(X.imagData, im);
+            }
+            return [m, n, re, im, isComplex];
+        };
+
+        const opConv2 = (a: OpInput, b: OpInput, shape: 'full' | 'same' | 'valid' = 'full'): Tensor => {
+            checkConvShape(shape);
+            let [ma, na, reA, imA, isAComplex] = getMatrixData(a);
+            let [mb, nb, reB, imB, isBComplex] = getMatrixData(b);
+            if (ma === 0 || na === 0 || mb === 0 || nb === 0) {
+                return shape === 'same' ? Tensor.zeros([ma, na]) : Tensor.zeros([0, 0]);
+            }
+            let [startRow, nRows] = getConvRange(ma, mb, shape);
+            let [startCol, nCols] = getConvRange(na, nb, shape);
+            let isComplex = isAComplex || isBComplex;
+            let Y = Tensor.zeros([nRows, nCols]);
+            if (isComplex) {
+                Y.ensureComplexStorage();
+            }
+            let mc = ma + mb - 1, nc = na + nb - 1;
+            let reC = DataHelper.allocateFloat64Array(mc * nc);
+            let imC = DataHelper.allocateFloat64Array(mc * nc);
+            if (SignalFunction.shouldUseFFT2(ma, na, mb, nb)) {
+                SignalFunction.conv2FFT(ma, na, reA, imA, mb, nb, reB, imB, reC, imC);
+            } else {
+                SignalFunction.conv2Direct(ma, na, reA, imA, mb, nb, reB, imB, reC, imC);
+            }
+            let reY = Y.realData;
+            let imY = isComplex ? Y.imagData : reY;
+            for (let i = 0;i < nRows;i++) {
+                DataHelper.copy(reC, reY, (startRow + i) * nc + startCol, i * nCols, nCols);
+                if (isComplex) {
+                    DataHelper.copy(imC, imY, (startRow + i) * nc + startCol, i * nCols, nCols);
+                }
+            }
+            return Y;
+        };
+
+        const opDeconv = (y: OpInput, b: OpInput): [Tensor, Tensor] => {
+            let [reY, imY, isYComplex] = getVectorData(y);
+            let [reB, imB, isBComplex] = getVectorData(b);
+            let isComplex = isYComplex || isBComplex;
+            let m = reY.length, n = reB.length;
+            if (n === 0 || (reB[0] === 0 && imB[0] === 0)) {
+                throw new Error('The first element of b must be nonzero.');
+            }
+            if (m < n) {
+                return [Tensor.zeros([1]), createTensor([m], reY, imY, isYComplex)];
+            }
+            let nq = m - n + 1;
+            let reQ = DataHelper.allocateFloat64Array(nq);
+            let imQ = DataHelper.allocateFloat64Array(nq);
+            // long division with the remainder stored in (reY, imY)
+            let i: number, j: number;
+            for (i = 0;i < nq;i++) {
+                [reQ[i], imQ[i]] = CMath.cdivCC(reY[i], imY[i], reB[0], imB[0]);
+                for (j = 0;j < n;j++) {
+                    reY[i + j] -= reQ[i] * reB[j] - imQ[i] * imB[j];
+                    imY[i + j] -= reQ[i] * imB[j] + imQ[i] * reB[j];
+                }
+                reY[i] = 0;
+                imY[i] = 0;
+            }
+            return [createTensor([nq], reQ, imQ, isComplex), createTensor([m], reY, imY, isComplex)];
+        };
+
+        const opXcorr = (x: OpInput, y?: OpInput, maxLag?: number,
+                         scale: 'none' | 'biased' | 'unbiased' | 'coeff' = 'none'): Tensor => {
+            let [reX, imX, isXComplex] = getVectorData(x);
+            let reY: DataBlock, imY: DataBlock, isYComplex: boolean;
+            if (y === undefined) {
+                [reY, imY, isYComplex] = [reX, imX, isXComplex];
+            } else {
+                [reY, imY, isYComplex] = getVectorData(y);
+            }
+            if (scale !== 'none' && scale !== 'biased' && scale !== 'unbiased' && scale !== 'coeff') {
+                throw new Error(`Invalid scale option '${scale}'.`);
+            }
+            if (scale === 'coeff' && reX.length !== reY.length) {
+                throw new Error('x and y must have the same length when scale is \'coeff\'.');
+            }
+            let nx = reX.length, ny = reY.length;
+            let n = Math.max(nx, ny);
+            if (maxLag === undefined) {
+                maxLag = Math.max(n - 1, 0);
+            }
+            if (maxLag < 0 || Math.floor(maxLag) !== maxLag) {
+                throw new Error('Maximum lag must be a nonnegative integer.');
+            }
+            // r = conv(x, conj(y[::-1])) with both padded to length n
+            let reXX = DataHelper.allocateFloat64Array(n);
+            let imXX = DataHelper.allocateFloat64Array(n);
+            let reYY = DataHelper.allocateFloat64Array(n);
+            let imYY = DataHelper.allocateFloat64Array(n);
+            DataHelper.copy(reX, reXX);
+            DataHelper.copy(imX, imXX);
+            for (let i = 0;i < ny;i++) {
+                reYY[n - 1 - i] = reY[i];
+                imYY[n - 1 - i] = -imY[i];
+            }
+            let [reC, imC] = convFull(reXX, imXX, reYY, imYY);
+            let l = 2 * maxLag + 1;
+            let reR = DataHelper.allocateFloat64Array(l);
+            let imR = DataHelper.allocateFloat64Array(l);
+            let coeffScale = 1;
+            if (scale === 'coeff') {
+                let ex = 0, ey = 0;
+                for (let i = 0;i < n;i++) {
+                    ex += reX[i] * reX[i] + imX[i] * imX[i];
+                    ey += reY[i] * reY[i] + imY[i] * imY[i];
+                }
+                coeffScale = 1 / Math.sqrt(ex * ey);
+            }
+            for (let k = -maxLag;k <= maxLag;k++) {
+                if (Math.abs(k) >= n) {
+                    continue;
+                }
+                let s: number;
+                switch (scale) {
+                    case 'biased':
+                        s = 1 / n;
+                        break;
+                    case 'unbiased':
+                        s = 1 / (n - Math.abs(k));
+                        break;
+                    case 'coeff':
+                        s = coeffScale;
+                        break;
+                    default:
+                        s = 1;
+                }
+                reR[k + maxLag] = reC[k + n - 1] * s;
+                imR[k + maxLag] = imC[k + n - 1] * s;
+            }
+            return createTensor([l], reR, imR, isXComplex || isYComplex);
+        };
+
+        const checkWindowLength = (n: number): void => {
+            if (n < 0 || Math.floor(n) !== n) {
+                throw new Error('Window length must be a nonnegative integer.');
+            }
+        };
+
+        const createCosineWindow = (n: number, c: number[], sflag: 'symmetric' | 'periodic'): Tensor => {
+            checkWindowLength(n);
+            if (sflag !== 'symmetric' && sflag !== 'periodic') {
+                throw new Error(`Invalid sampling flag '${sflag}'.`);
+            }
+            let W = Tensor.zeros([n]);
+            if (n > 0) {
+                SignalFunction.generalizedCosineWindow(n, c, sflag === 'periodic', W.realData);
+            }
+            return W;
+        };
+
+        const opHamming = (n: number, sflag: 'symmetric' | 'periodic' = 'symmetric'): Tensor => {
+            return createCosineWindow(n, [0.54, 0.46], sflag);
+        };
+
+        const opHann = (n: number, sflag: 'symmetric' | 'periodic' = 'symmetric'): Tensor => {
+            return createCosineWindow(n, [0.5, 0.5], sflag);
+        };
+
+        const opBlackman = (n: number, sflag: 'symmetric' | 'periodic' = 'symmetric'): Tensor => {
+            return createCosineWindow(n, [0.42, 0.5, 0.08], sflag);
+        };
+
+        const opKaiser = (n: number, beta: number = 0.5): Tensor => {
+            checkWindowLength(n);
+            let W = Tensor.zeros([n]);
+            let w = W.realData;
+            if (n === 1) {
+                w[0] = 1;
+            } else {
+                let c = 1 / SignalFunction.besselI0(beta);
+                let h = (n - 1) / 2;
+                for (let k = 0;k < n;k++) {
+                    let t = (k - h) / h;
+                    w[k] = SignalFunction.besselI0(beta * Math.sqrt(Math.max(1 - t * t, 0))) * c;
+                }
+            }
+            return W;
+        };
+
+        return {
+            filter: opFilter,
+            filtfilt: opFiltfilt,
+            conv: opConv,
+            conv2: opConv2,
+            deconv: opDeconv,
+            xcorr: opXcorr,
+            hamming: opHamming,
+            hann: opHann,
+            blackman: opBlackman,
+            kaiser: opKaiser
+        };
+
+    }
+
+}
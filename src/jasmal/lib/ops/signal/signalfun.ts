@@ -0,0 +1,313 @@
+import { DataBlock } from '../../commonTypes';
+import { DataHelper } from '../../helper/dataHelper';
+import { SpecialFunction } from '../../math/special';
+import { FFT } from '../data/fft';
+
+export class SignalFunction {
+
+    /**
+     * Filters a real sequence using the direct form II transposed structure:
+     *  y[n] = b[0] x[n] + z[0]
+     *  z[i] = b[i+1] x[n] + z[i+1] - a[i+1] y[n]
+     * @param b Numerator coefficients.
+     * @param a Denominator coefficients. Must have the same length as b and
+     *          be normalized such that a[0] = 1.
+     * @param x Input sequence.
+     * @param z (Input/Output) Filter states of length b.length - 1. Will be
+     *          overwritten by the final states.
+     * @param y (Output) Output sequence. Must have the same length as x.
+     */
+    public static filterReal(b: ArrayLike<number>, a: ArrayLike<number>, x: ArrayLike<number>,
+                             z: DataBlock, y: DataBlock): void {
+        let nz = b.length - 1;
+        let i: number, k: number;
+        let yk: number;
+        for (k = 0;k < x.length;k++) {
+            yk = b[0] * x[k] + (nz > 0 ? z[0] : 0);
+            for (i = 0;i < nz - 1;i++) {
+                z[i] = b[i + 1] * x[k] + z[i + 1] - a[i + 1] * yk;
+            }
+            if (nz > 0) {
+                z[nz - 1] = b[nz] * x[k] - a[nz] * yk;
+            }
+            y[k] = yk;
+        }
+    }
+
+    /**
+     * Complex version of filterReal().
+     */
+    public static filterComplex(reB: ArrayLike<number>, imB: ArrayLike<number>,
+                                reA: ArrayLike<number>, imA: ArrayLike<number>,
+                                reX: ArrayLike<number>, imX: ArrayLike<number>,
+                                reZ: DataBlock, imZ: DataBlock, reY: DataBlock, imY: DataBlock): void {
+        let nz = reB.length - 1;
+        let i: number, k: number;
+        let reYk: number, imYk: number;
+        let xr: number, xi: number;
+        for (k = 0;k < reX.length;k++) {
+            xr = reX[k];
+            xi = imX[k];
+            reYk = reB[0] * xr - imB[0] * xi;
+            imYk = reB[0] * xi + imB[0] * xr;
+            if (nz > 0) {
+                reYk += reZ[0];
+                imYk += imZ[0];
+            }
+            for (i = 0;i < nz;i++) {
+                let reNext = i < nz - 1 ? reZ[i + 1] : 0;
+                let imNext = i < nz - 1 ? imZ[i + 1] : 0;
+                reZ[i] = reB[i + 1] * xr - imB[i + 1] * xi + reNext
+                    - (reA[i + 1] * reYk - imA[i + 1] * imYk);
+                imZ[i] = reB[i + 1] * xi + imB[i + 1] * xr + imNext
+                    - (reA[i + 1] * imYk + imA[i + 1] * reYk);
+            }
+            reY[k] = reYk;
+            imY[k] = imYk;
+        }
+    }
+
+    /**
+     * Computes the full convolution of two complex sequences directly.
+     * @param reX Real part of the first sequence (length m).
+     * @param imX Imaginary part of the first sequence (length m).
+     * @param reY Real part of the second sequence (length n).
+     * @param imY Imaginary part of the second sequence (length n).
+     * @param reZ (Output) Real part of the result (length m + n - 1).
+     * @param imZ (Output) Imaginary part of the result (length m + n - 1).
+     */
+    public static convDirect(reX: ArrayLike<number>, imX: ArrayLike<number>,
+                             reY: ArrayLike<number>, imY: ArrayLike<number>,
+                             reZ: DataBlock, imZ: DataBlock): void {
+        let m = reX.length, n = reY.length;
+        let i: number, j: number;
+        for (i = 0;i < m + n - 1;i++) {
+            reZ[i] = 0;
+            imZ[i] = 0;
+        }
+        for (i = 0;i < m;i++) {
+            for (j = 0;j < n;j++) {
+                reZ[i + j] += reX[i] * reY[j] - imX[i] * imY[j];
+                imZ[i + j] += reX[i] * imY[j] + imX[i] * reY[j];
+            }
+        }
+    }
+
+    /**
+     * Computes the full convolution of two complex sequences using FFT.
+     * See convDirect() for the definitions of the arguments.
+     */
+    public static convFFT(reX: ArrayLike<number>, imX: ArrayLike<number>,
+                          reY: ArrayLike<number>, imY: ArrayLike<number>,
+                          reZ: DataBlock, imZ: DataBlock): void {
+        let m = reX.length, n = reY.length;
+        let l = m + n - 1;
+        let n2 = SpecialFunction.nextPowerOfTwo(l);
+        let reXX = DataHelper.allocateFloat64Array(n2);
+        let imXX = DataHelper.allocateFloat64Array(n2);
+        let reYY = DataHelper.allocateFloat64Array(n2);
+        let imYY = DataHelper.allocateFloat64Array(n2);
+        DataHelper.copy(reX, reXX);
+        DataHelper.copy(imX, imXX);
+        DataHelper.copy(reY, reYY);
+        DataHelper.copy(imY, imYY);
+        FFT.FFTPT(reXX, imXX, true);
+        FFT.FFTPT(reYY, imYY, true);
+        let t: number;
+        for (let i = 0;i < n2;i++) {
+            t = reXX[i];
+            reXX[i] = t * reYY[i] - imXX[i] * imYY[i];
+            imXX[i] = t * imYY[i] + imXX[i] * reYY[i];
+        }
+        FFT.FFTPT(reXX, imXX, false);
+        DataHelper.copy(reXX, reZ, 0, 0, l);
+        DataHelper.copy(imXX, imZ, 0, 0, l);
+    }
+
+    /**
+     * Determines whether FFT-based convolution should be used for two
+     * sequences of lengths m and n by comparing the approximate numbers of
+     * operations.
+     */
+    public static shouldUseFFT(m: number, n: number): boolean {
+        if (Math.min(m, n) <= 32) {
+            return false;
+        }
+        let n2 = SpecialFunction.nextPowerOfTwo(m + n - 1);
+        return m * n > 6 * n2 * Math.log(n2) / Math.LN2;
+    }
+
+    /**
+     * 2D version of shouldUseFFT() for a mx x nx matrix and a my x ny matrix.
+     */
+    public static shouldUseFFT2(mx: number, nx: number, my: number, ny: number): boolean {
+        let sx = mx * nx, sy = my * ny;
+        if (Math.min(sx, sy) <= 32) {
+            return false;
+        }
+        let s2 = SpecialFunction.nextPowerOfTwo(mx + my - 1) * SpecialFunction.nextPowerOfTwo(nx + ny - 1);
+        return sx * sy > 6 * s2 * Math.log(s2) / Math.LN2;
+    }
+
+    /**
+     * Computes the full 2D convolution of two complex matrices stored in
+     * row-major order directly.
+     * @param reX Real part of the first matrix (mx x nx).
+     * @param imX Imaginary part of the first matrix (mx x nx).
+     * @param reY Real part of the second matrix (my x ny).
+     * @param imY Imaginary part of the second matrix (my x ny).
+     * @param reZ (Output) Real part of the result
+     *            ((mx + my - 1) x (nx + ny - 1)).
+     * @param imZ (Output) Imaginary part of the result
+     *            ((mx + my - 1) x (nx + ny - 1)).
+     */
+    public static conv2Direct(mx: number, nx: number, reX: ArrayLike<number>, imX: ArrayLike<number>,
+                              my: number, ny: number, reY: ArrayLike<number>, imY: ArrayLike<number>,
+                              reZ: DataBlock, imZ: DataBlock): void {
+        let nz = nx + ny - 1;
+        let i: number, j: number, k: number, l: number;
+        let offsetZ: number;
+        let reXij: number, imXij: number;
+        for (i = 0;i < (mx + my - 1) * nz;i++) {
+            reZ[i] = 0;
+            imZ[i] = 0;
+        }
+        for (i = 0;i < mx;i++) {
+            for (j = 0;j < nx;j++) {
+                reXij = reX[i * nx + j];
+                imXij = imX[i * nx + j];
+                for (k = 0;k < my;k++) {
+                    offsetZ = (i + k) * nz + j;
+                    for (l = 0;l < ny;l++) {
+                        reZ[offsetZ + l] += reXij * reY[k * ny + l] - imXij * imY[k * ny + l];
+                        imZ[offsetZ + l] += reXij * imY[k * ny + l] + imXij * reY[k * ny + l];
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Computes the full 2D convolution of two complex matrices using FFT.
+     * See conv2Direct() for the definitions of the arguments.
+     */
+    public static conv2FFT(mx: number, nx: number, reX: ArrayLike<number>, imX: ArrayLike<number>,
+                           my: number, ny: number, reY: ArrayLike<number>, imY: ArrayLike<number>,
+                           reZ: DataBlock, imZ: DataBlock): void {
+        let mz = mx + my - 1, nz = nx + ny - 1;
+        let m2 = SpecialFunction.nextPowerOfTwo(mz);
+        let n2 = SpecialFunction.nextPowerOfTwo(nz);
+        let reXX = DataHelper.allocateFloat64Array(m2 * n2);
+        let imXX = DataHelper.allocateFloat64Array(m2 * n2);
+        let reYY = DataHelper.allocateFloat64Array(m2 * n2);
+        let imYY = DataHelper.allocateFloat64Array(m2 * n2);
+        let i: number, j: number;
+        for (i = 0;i < mx;i++) {
+            DataHelper.copy(reX, reXX, i * nx, i * n2, nx);
+            DataHelper.copy(imX, imXX, i * nx, i * n2, nx);
+        }
+        for (i = 0;i < my;i++) {
+            DataHelper.copy(reY, reYY, i * ny, i * n2, ny);
+            DataHelper.copy(imY, imYY, i * ny, i * n2, ny);
+        }
+        SignalFunction._fft2(m2, n2, reXX, imXX, true);
+        SignalFunction._fft2(m2, n2, reYY, imYY, true);
+        let t: number;
+        for (i = 0;i < m2 * n2;i++) {
+            t = reXX[i];
+            reXX[i] = t * reYY[i] - imXX[i] * imYY[i];
+            imXX[i] = t * imYY[i] + imXX[i] * reYY[i];
+        }
+        SignalFunction._fft2(m2, n2, reXX, imXX, false);
+        for (i = 0;i < mz;i++) {
+            for (j = 0;j < nz;j++) {
+                reZ[i * nz + j] = reXX[i * n2 + j];
+                imZ[i * nz + j] = imXX[i * n2 + j];
+            }
+        }
+    }
+
+    /**
+     * In-place 2D FFT of a m x n matrix stored in row-major order, where both
+     * m and n are powers of two.
+     */
+    private static _fft2(m: number, n: number, re: DataBlock, im: DataBlock, forward: boolean): void {
+        let i: number, j: number;
+        let rowRe = DataHelper.allocateFloat64Array(n);
+        let rowIm = DataHelper.allocateFloat64Array(n);
+        for (i = 0;i < m;i++) {
+            DataHelper.copy(re, rowRe, i * n, 0, n);
+            DataHelper.copy(im, rowIm, i * n, 0, n);
+            FFT.FFTPT(rowRe, rowIm, forward);
+            DataHelper.copy(rowRe, re, 0, i * n, n);
+            DataHelper.copy(rowIm, im, 0, i * n, n);
+        }
+        let colRe = DataHelper.allocateFloat64Array(m);
+        let colIm = DataHelper.allocateFloat64Array(m);
+        for (j = 0;j < n;j++) {
+            for (i = 0;i < m;i++) {
+                colRe[i] = re[i * n + j];
+                colIm[i] = im[i * n + j];
+            }
+            FFT.FFTPT(colRe, colIm, forward);
+            for (i = 0;i < m;i++) {
+                re[i * n + j] = colRe[i];
+                im[i * n + j] = colIm[i];
+            }
+        }
+    }
+
+    /**
+     * Generates a generalized cosine window:
+     *  w[k] = \sum_i (-1)^i c[i] cos(2 pi i k / (N - 1)), k = 0, ..., N - 1,
+     * where N = n for symmetric windows and N = n + 1 for periodic windows.
+     * @param n Length of the window.
+     * @param c Coefficients.
+     * @param periodic Whether the window is periodic.
+     * @param w (Output) Window of length n.
+     */
+    public static generalizedCosineWindow(n: number, c: number[], periodic: boolean, w: DataBlock): void {
+        if (n === 1) {
+            w[0] = 1;
+            return;
+        }
+        let d = periodic ? n : n - 1;
+        for (let k = 0;k < n;k++) {
+            let s = 0;
+            let sign = 1;
+            for (let i = 0;i < c.length;i++) {
+                s += sign * c[i] * Math.cos(2 * Math.PI * i * k / d);
+                sign = -sign;
+            }
+            w[k] = s;
+        }
+        if (!periodic) {
+            // enforce symmetry
+            for (let k = 0;k < (n >> 1);k++) {
+                w[n - 1 - k] = w[k];
+            }
+        }
+    }
+
+    /**
+     * Computes the modified Bessel function of the first kind of order zero
+     * using its power series:
+     *  I_0(x) = \sum_{k=0}^\infty ((x/2)^k / k!)^2
+     * All the terms are positive so the series converges without
+     * cancellation.
+     */
+    public static besselI0(x: number): number {
+        let h = 0.25 * x * x;
+        let term = 1;
+        let s = 1;
+        for (let k = 1;k < 1000;k++) {
+            term *= h / (k * k);
+            s += term;
+            if (term < s * 1e-17) {
+                break;
+            }
+        }
+        return s;
+    }
+
+}
@@ -0,0 +1,144 @@
+import { RealOpInput, RealOpOutput } from '../../commonTypes';
+
+/**
+ * A (possibly tensor-valued) probability distribution.
+ * Note:
+ *  1. The parameters of the distribution are broadcast against the inputs
+ *     of the following methods. If the inputs and all parameters are numbers,
+ *     a number is returned. Otherwise a tensor is returned.
+ *  2. Outputs corresponding to invalid parameters are set to NaN.
+ *  3. For discrete distributions, pdf() and logpdf() compute the
+ *     probability mass function, which is zero for non-integer inputs.
+ */
+export interface IDistribution {
+
+    /**
+     * Name of the distribution.
+     */
+    readonly name: string;
+
+    /**
+     * Parameters of the distribution.
+     */
+    readonly params: { [name: string]: RealOpInput };
+
+    /**
+     * Evaluates the probability density function.
+     */
+    pdf(x: RealOpInput): RealOpOutput;
+
+    /**
+     * Evaluates the logarithm of the probability density function.
+     */
+    logpdf(x: RealOpInput): RealOpOutput;
+
+    /**
+     * Evaluates the cumulative distribution function P(X <= x).
+     */
+    cdf(x: RealOpInput): RealOpOutput;
+
+    /**
+     * Evaluates the inverse cumulative distribution function. For discrete
+     * distributions, the smallest x such that cdf(x) >= p is returned.
+     * @param p Probabilities within [0, 1].
+     */
+    icdf(p: RealOpInput): RealOpOutput;
+
+    /**
+     * Computes the mean of the distribution.
+     */
+    mean(): RealOpOutput;
+
+    /**
+     * Computes the variance of the distribution.
+     */
+    var(): RealOpOutput;
+
+    /**
+     * Samples from the distribution using the RNG engine of the JASMAL
+     * instance.
+     * @param shape (Optional) Shape of the output. If not specified, one
+     *              sample is generated for each element of the broadcast
+     *              parameters. Otherwise the shape of the broadcast parameters
+     *              must be compatible with the specified shape.
+     */
+    sample(shape?: ArrayLike<number>): RealOpOutput;
+
+}
+
+export interface IStatsOpProvider {
+
+    /**
+     * Creates a normal distribution.
+     * @param mu (Optional) Mean. Default value is 0.
+     * @param sigma (Optional) Standard deviation. Must be positive. Default
+     *              value is 1.
+     * @example
+     *  // 95% two-sided threshold
+     *  let t = T.normdist().icdf(0.975);
+     */
+    normdist(mu?: RealOpInput, sigma?: RealOpInput): IDistribution;
+
+    /**
+     * Creates a Student's t distribution.
+     * @param nu Degrees of freedom. Must be positive.
+     */
+    tdist(nu: RealOpInput): IDistribution;
+
+    /**
+     * Creates a chi-square distribution.
+     * @param nu Degrees of freedom. Must be positive.
+     */
+    chi2dist(nu: RealOpInput): IDistribution;
+
+    /**
+     * Creates an F distribution.
+     * @param d1 Numerator degrees of freedom. Must be positive.
+     * @param d2 Denominator degrees of freedom. Must be positive.
+     */
+    fdist(d1: RealOpInput, d2: RealOpInput): IDistribution;
+
+    /**
+     * Creates a gamma distribution whose pdf is given by
+     *  f(x) = x^(a-1) exp(-x/b) / (Gamma(a) b^a).
+     * @param a Shape parameter. Must be positive.
+     * @param b (Optional) Scale parameter. Must be positive. Default value is
+     *          1.
+     */
+    gamdist(a: RealOpInput, b?: RealOpInput): IDistribution;
+
+    /**
+     * Creates a beta distribution.
+     * @param a Must be positive.
+     * @param b Must be positive.
+     */
+    betadist(a: RealOpInput, b: RealOpInput): IDistribution;
+
+    /**
+     * Creates an exponential distribution.
+     * @param mu (Optional) Mean. Must be positive. Default value is 1.
+     */
+    expdist(mu?: RealOpInput): IDistribution;
+
+    /**
+     * Creates a Poisson distribution.
+     * @param lambda Mean. Must be nonnegative.
+     */
+    poissdist(lambda: RealOpInput): IDistribution;
+
+    /**
+     * Creates a binomial distribution.
+     * @param n Number of trials. Must be a nonnegative integer.
+     * @param p Success probability within [0, 1].
+     */
+    binodist(n: RealOpInput, p: RealOpInput): IDistribution;
+
+    /**
+     * Creates a continuous uniform distribution over [a, b].
+     * @param a (Optional) Lower bound. Default value is 0.
+     * @param b (Optional) Upper bound. Must be greater than a. Default value
+     *          is 1.
+     */
+    unifdist(a?: RealOpInput, b?: RealOpInput): IDistribution;
+
+}
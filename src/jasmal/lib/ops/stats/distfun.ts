@@ -0,0 +1,563 @@
+import { SpecialFunction } from '../../math/special';
+import { EPSILON } from '../../constant';
+
+const LOG_SQRT_2PI = 0.91893853320467274178;
+
+/**
+ * Scalar kernels of the probability distributions. Unless otherwise
+ * specified, NaN is returned for invalid parameters.
+ */
+export class DistributionFunction {
+
+    /**
+     * Computes x log(y) with the convention 0 log(0) = 0.
+     */
+    private static _xlogy(x: number, y: number): number {
+        return x === 0 && !isNaN(y) ? 0 : x * Math.log(y);
+    }
+
+    /**
+     * Computes x log(1 + y) with the convention 0 log(0) = 0.
+     */
+    private static _xlog1py(x: number, y: number): number {
+        return x === 0 && !isNaN(y) ? 0 : x * SpecialFunction.log1p(y);
+    }
+
+    private static _isProbability(p: number): boolean {
+        return p >= 0 && p <= 1;
+    }
+
+    private static _isNonnegativeInteger(n: number): boolean {
+        return n >= 0 && Math.floor(n) === n && n !== Infinity;
+    }
+
+    /**
+     * Inverts a discrete cdf supported on {0, 1, ..., kMax}, i.e., finds the
+     * smallest integer k such that cdf(k) >= p.
+     * @param p Probability within (0, 1).
+     * @param guess Initial guess.
+     * @param kMax Upper bound of the support.
+     * @param cdf The cdf.
+     */
+    private static _discreteInv(p: number, guess: number, kMax: number, cdf: (k: number) => number): number {
+        let k = Math.max(0, Math.min(kMax, Math.floor(guess)));
+        if (isNaN(k)) {
+            k = 0;
+        }
+        while (k < kMax && cdf(k) < p) {
+            k++;
+        }
+        while (k > 0 && cdf(k - 1) >= p) {
+            k--;
+        }
+        return k;
+    }
+
+    public static normLogPdf(x: number, mu: number, sigma: number): number {
+        if (!(sigma > 0)) {
+            return NaN;
+        }
+        let z = (x - mu) / sigma;
+        return -0.5 * z * z - Math.log(sigma) - LOG_SQRT_2PI;
+    }
+
+    public static normCdf(x: number, mu: number, sigma: number): number {
+        if (!(sigma > 0)) {
+            return NaN;
+        }
+        return 0.5 * SpecialFunction.erfc((mu - x) / (sigma * Math.SQRT2));
+    }
+
+    public static normInv(p: number, mu: number, sigma: number): number {
+        if (!(sigma > 0) || !DistributionFunction._isProbability(p)) {
+            return NaN;
+        }
+        return mu - sigma * Math.SQRT2 * SpecialFunction.erfcinv(2 * p);
+    }
+
+    public static tLogPdf(x: number, nu: number): number {
+        if (!(nu > 0)) {
+            return NaN;
+        }
+        if (nu === Infinity) {
+            return DistributionFunction.normLogPdf(x, 0, 1);
+        }
+        return -0.5 * Math.log(nu) - SpecialFunction.betaln(0.5 * nu, 0.5)
+            - 0.5 * (nu + 1) * SpecialFunction.log1p(x * x / nu);
+    }
+
+    public static tCdf(x: number, nu: number): number {
+        if (!(nu > 0) || isNaN(x)) {
+            return NaN;
+        }
+        if (nu === Infinity) {
+            return DistributionFunction.normCdf(x, 0, 1);
+        }
+        let x2 = x * x;
+        // tail probability P(|T| > |x|) = I(nu / (nu + x^2), nu/2, 1/2)
+        let tail = nu < x2
+            ? SpecialFunction.betainc(nu / (nu + x2), 0.5 * nu, 0.5)
+            : SpecialFunction.betainc(x2 / (nu + x2), 0.5, 0.5 * nu, true);
+        return x < 0 ? 0.5 * tail : 1 - 0.5 * tail;
+    }
+
+    public static tInv(p: number, nu: number): number {
+        if (!(nu > 0) || !DistributionFunction._isProbability(p)) {
+            return NaN;
+        }
+        if (nu === Infinity) {
+            return DistributionFunction.normInv(p, 0, 1);
+        }
+        if (p === 0.5) {
+            return 0;
+        }
+        let q = 2 * Math.min(p, 1 - p);
+        // I(y, nu/2, 1/2) = q where y = nu / (nu + x^2)
+        let y = SpecialFunction.betaincinv(q, 0.5 * nu, 0.5);
+        let x: number;
+        if (y > 0.5) {
+            // solves for 1 - y directly to avoid cancellation
+            let w = SpecialFunction.betaincinv(q, 0.5, 0.5 * nu, true);
+            x = Math.sqrt(nu * w / (1 - w));
+        } else {
+            x = Math.sqrt(nu * (1 - y) / y);
+        }
+        return p < 0.5 ? -x : x;
+    }
+
+    public static tMean(nu: number): number {
+        return nu > 1 ? 0 : NaN;
+    }
+
+    public static tVar(nu: number): number {
+        if (!(nu > 1)) {
+            return NaN;
+        }
+        return nu > 2 ? nu / (nu - 2) : Infinity;
+    }
+
+    public static gamLogPdf(x: number, a: number, b: number): number {
+        if (!(a > 0) || !(b > 0) || isNaN(x)) {
+            return NaN;
+        }
+        if (x < 0 || x === Infinity) {
+            return -Infinity;
+        }
+        return DistributionFunction._xlogy(a - 1, x) - x / b - SpecialFunction.gammaln(a) - a * Math.log(b);
+    }
+
+    public static gamCdf(x: number, a: number, b: number): number {
+        if (!(a > 0) || !(b > 0) || isNaN(x)) {
+            return NaN;
+        }
+        return x <= 0 ? 0 : SpecialFunction.gammainc(x / b, a);
+    }
+
+    public static gamInv(p: number, a: number, b: number): number {
+        if (!(a > 0) || !(b > 0) || !DistributionFunction._isProbability(p)) {
+            return NaN;
+        }
+        return b * SpecialFunction.gammaincinv(p, a);
+    }
+
+    public static betaLogPdf(x: number, a: number, b: number): number {
+        if (!(a > 0) || !(b > 0) || isNaN(x)) {
+            return NaN;
+        }
+        if (x < 0 || x > 1) {
+            return -Infinity;
+        }
+        return DistributionFunction._xlogy(a - 1, x) + DistributionFunction._xlog1py(b - 1, -x)
+            - SpecialFunction.betaln(a, b);
+    }
+
+    public static betaCdf(x: number, a: number, b: number): number {
+        if (!(a > 0) || !(b > 0) || isNaN(x)) {
+            return NaN;
+        }
+        if (x <= 0) {
+            return 0;
+        }
+        return x >= 1 ? 1 : SpecialFunction.betainc(x, a, b);
+    }
+
+    public static betaInv(p: number, a: number, b: number): number {
+        if (!(a > 0) || !(b > 0) || !DistributionFunction._isProbability(p)) {
+            return NaN;
+        }
+        return SpecialFunction.betaincinv(p, a, b);
+    }
+
+    public static fLogPdf(x: number, d1: number, d2: number): number {
+        if (!(d1 > 0) || !(d2 > 0) || isNaN(x)) {
+            return NaN;
+        }
+        if (x < 0 || x === Infinity) {
+            return -Infinity;
+        }
+        if (x === 0) {
+            return d1 < 2 ? Infinity : (d1 === 2 ? 0 : -Infinity);
+        }
+        return 0.5 * (d1 * Math.log(d1 * x / (d1 * x + d2)) + d2 * Math.log(d2 / (d1 * x + d2)))
+            - Math.log(x) - SpecialFunction.betaln(0.5 * d1, 0.5 * d2);
+    }
+
+    public static fCdf(x: number, d1: number, d2: number): number {
+        if (!(d1 > 0) || !(d2 > 0) || isNaN(x)) {
+            return NaN;
+        }
+        if (x <= 0) {
+            return 0;
+        }
+        if (x === Infinity) {
+            return 1;
+        }
+        let u = d1 * x;
+        return u > d2
+            ? SpecialFunction.betainc(d2 / (u + d2), 0.5 * d2, 0.5 * d1, true)
+            : SpecialFunction.betainc(u / (u + d2), 0.5 * d1, 0.5 * d2);
+    }
+
+    public static fInv(p: number, d1: number, d2: number): number {
+        if (!(d1 > 0) || !(d2 > 0) || !DistributionFunction._isProbability(p)) {
+            return NaN;
+        }
+        // I(y, d1/2, d2/2) = p where y = d1 x / (d1 x + d2)
+        let y = SpecialFunction.betaincinv(p, 0.5 * d1, 0.5 * d2);
+        if (y > 0.5) {
+            // solves for 1 - y directly to avoid cancellation
+            let z = SpecialFunction.betaincinv(p, 0.5 * d2, 0.5 * d1, true);
+            return d2 * (1 - z) / (d1 * z);
+        }
+        return d2 * y / (d1 * (1 - y));
+    }
+
+    public static fMean(d1: number, d2: number): number {
+        if (!(d1 > 0) || !(d2 > 2)) {
+            return NaN;
+        }
+        return d2 / (d2 - 2);
+    }
+
+    public static fVar(d1: number, d2: number): number {
+        if (!(d1 > 0) || !(d2 > 2)) {
+            return NaN;
+        }
+        if (d2 <= 4) {
+            return Infinity;
+        }
+        return 2 * d2 * d2 * (d1 + d2 - 2) / (d1 * (d2 - 2) * (d2 - 2) * (d2 - 4));
+    }
+
+    public static expLogPdf(x: number, mu: number): number {
+        if (!(mu > 0) || isNaN(x)) {
+            return NaN;
+        }
+        return x < 0 ? -Infinity : -x / mu - Math.log(mu);
+    }
+
+    public static expCdf(x: number, mu: number): number {
+        if (!(mu > 0) || isNaN(x)) {
+            return NaN;
+        }
+        return x <= 0 ? 0 : -SpecialFunction.expm1(-x / mu);
+    }
+
+    public static expInv(p: number, mu: number): number {
+        if (!(mu > 0) || !DistributionFunction._isProbability(p)) {
+            return NaN;
+        }
+        return -mu * SpecialFunction.log1p(-p);
+    }
+
+    /**
+     * Logarithm of the probability mass function of the Poisson
+     * distribution. Non-integer x has zero probability.
+     */
+    public static poissLogPdf(x: number, lambda: number): number {
+        if (!(lambda >= 0) || lambda === Infinity || isNaN(x)) {
+            return NaN;
+        }
+        if (!DistributionFunction._isNonnegativeInteger(x)) {
+            return -Infinity;
+        }
+        return DistributionFunction._xlogy(x, lambda) - lambda - SpecialFunction.gammaln(x + 1);
+    }
+
+    public static poissCdf(x: number, lambda: number): number {
+        if (!(lambda >= 0) || lambda === Infinity || isNaN(x)) {
+            return NaN;
+        }
+        if (x < 0) {
+            return 0;
+        }
+        if (x === Infinity || lambda === 0) {
+            return 1;
+        }
+        return SpecialFunction.gammainc(lambda, Math.floor(x) + 1, true);
+    }
+
+    public static poissInv(p: number, lambda: number): number {
+        if (!(lambda >= 0) || lambda === Infinity || !DistributionFunction._isProbability(p)) {
+            return NaN;
+        }
+        if (p === 0 || lambda === 0) {
+            return 0;
+        }
+        if (p === 1) {
+            return Infinity;
+        }
+        // starts from the normal approximation
+        let guess = lambda + Math.sqrt(lambda) * DistributionFunction.normInv(p, 0, 1);
+        return DistributionFunction._discreteInv(p, guess, Infinity,
+            k => DistributionFunction.poissCdf(k, lambda));
+    }
+
+    private static _isValidBinomial(n: number, p: number): boolean {
+        return DistributionFunction._isNonnegativeInteger(n) && DistributionFunction._isProbability(p);
+    }
+
+    /**
+     * Logarithm of the probability mass function of the binomial
+     * distribution. Non-integer x has zero probability.
+     */
+    public static binoLogPdf(x: number, n: number, p: number): number {
+        if (!DistributionFunction._isValidBinomial(n, p) || isNaN(x)) {
+            return NaN;
+        }
+        if (!DistributionFunction._isNonnegativeInteger(x) || x > n) {
+            return -Infinity;
+        }
+        // C(n, x) = 1 / ((n + 1) B(n - x + 1, x + 1))
+        return -Math.log(n + 1) - SpecialFunction.betaln(n - x + 1, x + 1)
+            + DistributionFunction._xlogy(x, p) + DistributionFunction._xlog1py(n - x, -p);
+    }
+
+    public static binoCdf(x: number, n: number, p: number): number {
+        if (!DistributionFunction._isValidBinomial(n, p) || isNaN(x)) {
+            return NaN;
+        }
+        if (x < 0) {
+            return 0;
+        }
+        if (x >= n) {
+            return 1;
+        }
+        let k = Math.floor(x);
+        if (p === 0 || p === 1) {
+            return p === 0 ? 1 : 0;
+        }
+        return SpecialFunction.betainc(p, k + 1, n - k, true);
+    }
+
+    public static binoInv(y: number, n: number, p: number): number {
+        if (!DistributionFunction._isValidBinomial(n, p) || !DistributionFunction._isProbability(y)) {
+            return NaN;
+        }
+        if (y === 0) {
+            return 0;
+        }
+        if (y === 1) {
+            return n;
+        }
+        // starts from the normal approximation
+        let guess = n * p + Math.sqrt(n * p * (1 - p)) * DistributionFunction.normInv(y, 0, 1);
+        return DistributionFunction._discreteInv(y, guess, n,
+            k => DistributionFunction.binoCdf(k, n, p));
+    }
+
+    public static unifLogPdf(x: number, a: number, b: number): number {
+        if (!(a < b) || !isFinite(a) || !isFinite(b) || isNaN(x)) {
+            return NaN;
+        }
+        return x < a || x > b ? -Infinity : -Math.log(b - a);
+    }
+
+    public static unifCdf(x: number, a: number, b: number): number {
+        if (!(a < b) || !isFinite(a) || !isFinite(b) || isNaN(x)) {
+            return NaN;
+        }
+        if (x <= a) {
+            return 0;
+        }
+        return x >= b ? 1 : (x - a) / (b - a);
+    }
+
+    public static unifInv(p: number, a: number, b: number): number {
+        if (!(a < b) || !isFinite(a) || !isFinite(b) || !DistributionFunction._isProbability(p)) {
+            return NaN;
+        }
+        return a + p * (b - a);
+    }
+
+    /**
+     * Computes the p-value P(D_n >= d) of the two-sided one-sample
+     * Kolmogorov-Smirnov statistic D_n. If n d < 100 (always true for
+     * n <= 2500 unless the p-value is tiny), the exact distribution is
+     * computed using the method by Marsaglia, Tsang and Wang. In the far upper
+     * tail, the p-value is computed from the one-sided p-value. Otherwise the
+     * asymptotic Kolmogorov distribution with Stephens' correction is used.
+     * Reference: G. Marsaglia, W. W. Tsang and J. Wang, "Evaluating
+     * Kolmogorov's distribution," J. Stat. Softw., 2003.
+     * @param n Sample size.
+     * @param d Value of the statistic.
+     */
+    public static ksPValue(n: number, d: number): number {
+        if (isNaN(d) || !(n > 0)) {
+            return NaN;
+        }
+        if (d <= 0) {
+            return 1;
+        }
+        if (d >= 1) {
+            return 0;
+        }
+        let s = d * d * n;
+        if (s > 7.24 || (s > 3.76 && n > 99)) {
+            // In the upper tail, P(D_n >= d) ~ 2 P(D+_n >= d) with an error
+            // of order P(D+_n >= d)^2. The approximation becomes exact when
+            // d >= 0.5.
+            return Math.min(1, 2 * DistributionFunction.ksOneSidedPValue(n, d));
+        }
+        if (n * d >= 100) {
+            // the order of the matrix in the exact method is 2 floor(n d) + 1
+            let sn = Math.sqrt(n);
+            return DistributionFunction._kolmogorovQ((sn + 0.12 + 0.11 / sn) * d);
+        }
+        let k = Math.floor(n * d) + 1;
+        let m = 2 * k - 1;
+        let h = k - n * d;
+        let H = new Array<number>(m * m);
+        let i: number, j: number, g: number;
+        for (i = 0;i < m;i++) {
+            for (j = 0;j < m;j++) {
+                H[i * m + j] = i - j + 1 < 0 ? 0 : 1;
+            }
+        }
+        for (i = 0;i < m;i++) {
+            H[i * m] -= Math.pow(h, i + 1);
+            H[(m - 1) * m + i] -= Math.pow(h, m - i);
+        }
+        H[(m - 1) * m] += 2 * h - 1 > 0 ? Math.pow(2 * h - 1, m) : 0;
+        for (i = 0;i < m;i++) {
+            for (j = 0;j < m;j++) {
+                if (i - j + 1 > 0) {
+                    for (g = 1;g <= i - j + 1;g++) {
+                        H[i * m + j] /= g;
+                    }
+                }
+            }
+        }
+        let [Q, eQ] = DistributionFunction._scaledMatrixPower(H, m, n);
+        s = Q[(k - 1) * m + k - 1];
+        for (i = 1;i <= n;i++) {
+            s = s * i / n;
+            if (s < 1e-140) {
+                s *= 1e140;
+                eQ -= 140;
+            }
+        }
+        s *= Math.pow(10, eQ);
+        return Math.max(0, Math.min(1, 1 - s));
+    }
+
+    /**
+     * Computes A^n for an m x m matrix A. To avoid overflows, the result is
+     * represented by V 10^e.
+     * @returns [V, e]
+     */
+    private static _scaledMatrixPower(A: number[], m: number, n: number): [number[], number] {
+        if (n === 1) {
+            return [A.slice(), 0];
+        }
+        let [V, eV] = DistributionFunction._scaledMatrixPower(A, m, Math.floor(n / 2));
+        let B = DistributionFunction._matrixMultiply(V, V, m);
+        let eB = 2 * eV;
+        if (n % 2 === 0) {
+            V = B;
+            eV = eB;
+        } else {
+            V = DistributionFunction._matrixMultiply(A, B, m);
+            eV = eB;
+        }
+        let c = Math.floor(m / 2);
+        if (V[c * m + c] > 1e140) {
+            for (let i = 0;i < m * m;i++) {
+                V[i] *= 1e-140;
+            }
+            eV += 140;
+        }
+        return [V, eV];
+    }
+
+    private static _matrixMultiply(A: number[], B: number[], m: number): number[] {
+        let C = new Array<number>(m * m);
+        for (let i = 0;i < m;i++) {
+            for (let j = 0;j < m;j++) {
+                let s = 0;
+                for (let k = 0;k < m;k++) {
+                    s += A[i * m + k] * B[k * m + j];
+                }
+                C[i * m + j] = s;
+            }
+        }
+        return C;
+    }
+
+    /**
+     * Complementary cdf of the Kolmogorov distribution.
+     */
+    private static _kolmogorovQ(z: number): number {
+        if (z <= 0) {
+            return 1;
+        }
+        if (z < 1.18) {
+            // Q(z) = 1 - sqrt(2 pi) / z sum_j exp(-(2j-1)^2 pi^2 / (8 z^2))
+            let y = Math.exp(-1.23370055013616983 / (z * z));
+            return 1 - 2.25675833419102515 * Math.sqrt(-Math.log(y))
+                * (y + Math.pow(y, 9) + Math.pow(y, 25) + Math.pow(y, 49));
+        }
+        let x = Math.exp(-2 * z * z);
+        let s = 0;
+        for (let j = 1;j <= 100;j++) {
+            let term = (j % 2 === 1 ? 2 : -2) * Math.pow(x, j * j);
+            s += term;
+            if (Math.abs(term) <= EPSILON * s) {
+                break;
+            }
+        }
+        return s;
+    }
+
+    /**
+     * Computes the p-value P(D+_n >= d) of the one-sided one-sample
+     * Kolmogorov-Smirnov statistic D+_n = max(F_n(x) - F(x)) using the
+     * exact formula by Birnbaum and Tingey. D-_n has the same distribution.
+     * @param n Sample size.
+     * @param d Value of the statistic.
+     */
+    public static ksOneSidedPValue(n: number, d: number): number {
+        if (isNaN(d) || !(n > 0)) {
+            return NaN;
+        }
+        if (d <= 0) {
+            return 1;
+        }
+        if (d >= 1) {
+            return 0;
+        }
+        let jMax = Math.floor(n * (1 - d));
+        let s = 0;
+        for (let j = 0;j <= jMax;j++) {
+            let a = 1 - d - j / n;
+            if (a <= 0) {
+                continue;
+            }
+            // C(n, j) = 1 / ((n + 1) B(n - j + 1, j + 1))
+            s += Math.exp(-Math.log(n + 1) - SpecialFunction.betaln(n - j + 1, j + 1)
+                + (n - j) * Math.log(a) + (j - 1) * Math.log(d + j / n));
+        }
+        return Math.min(1, d * s);
+    }
+
+}
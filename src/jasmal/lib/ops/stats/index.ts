@@ -0,0 +1,223 @@
+import { IStatsOpProvider, IDistribution } from './definition';
+import { Tensor } from '../../core/tensor';
+import { RealOpInput, RealOpOutput } from '../../commonTypes';
+import { IRandomOpProvider } from '../random/definition';
+import { BroadcastEvaluator } from '../generator/broadcast';
+import { DistributionFunction } from './distfun';
+import { IJasmalModuleFactory, JasmalOptions } from '../../jasmal';
+
+/**
+ * Scalar kernels of a distribution. The parameter values are passed in the
+ * same order as the parameter names.
+ */
+interface DistributionKernels {
+    logpdf(x: number, p: number[]): number;
+    cdf(x: number, p: number[]): number;
+    icdf(y: number, p: number[]): number;
+    mean(p: number[]): number;
+    var(p: number[]): number;
+    sample(p: RealOpInput[], shape: ArrayLike<number> | undefined): RealOpOutput;
+}
+
+export class StatsOpProviderFactory implements IJasmalModuleFactory<IStatsOpProvider> {
+
+    constructor(private _randomOp: IRandomOpProvider) {
+    }
+
+    public create(_options: JasmalOptions): IStatsOpProvider {
+
+        const randomOp = this._randomOp;
+
+        const evaluate = (inputs: RealOpInput[], shape: ArrayLike<number> | undefined,
+                          f: (v: number[]) => number): RealOpOutput => {
+            return BroadcastEvaluator.evaluate(inputs, shape, f, 'Distribution parameters and inputs must be real.');
+        };
+
+        /**
+         * Creates a distribution object from its kernels.
+         * @param name Name of the distribution.
+         * @param paramNames Names of the parameters.
+         * @param paramValues Values of the parameters.
+         * @param kernels Scalar kernels.
+         */
+        const makeDistribution = (name: string, paramNames: string[], paramValues: RealOpInput[],
+                                  kernels: DistributionKernels): IDistribution => {
+            // converts the parameters to tensors only once
+            let params: RealOpInput[] = paramValues.map(p => {
+                if (typeof p === 'number' || p instanceof Tensor) {
+                    return p;
+                }
+                return Tensor.toTensor(p);
+            });
+            let paramObj: { [name: string]: RealOpInput } = {};
+            for (let i = 0;i < paramNames.length;i++) {
+                paramObj[paramNames[i]] = params[i];
+            }
+            let nParams = params.length;
+            // evaluates f(x, p) element-wise with the parameters broadcast
+            // against x
+            const evalWithX = (x: RealOpInput, f: (x: number, p: number[]) => number): RealOpOutput => {
+                let p: number[] = new Array(nParams);
+                return evaluate([x].concat(params), undefined, v => {
+                    for (let i = 0;i < nParams;i++) {
+                        p[i] = v[i + 1];
+                    }
+                    return f(v[0], p);
+                });
+            };
+            return {
+                name: name,
+                params: paramObj,
+                pdf: x => evalWithX(x, (xi, p) => Math.exp(kernels.logpdf(xi, p))),
+                logpdf: x => evalWithX(x, kernels.logpdf),
+                cdf: x => evalWithX(x, kernels.cdf),
+                icdf: y => evalWithX(y, kernels.icdf),
+                mean: () => evaluate(params, undefined, kernels.mean),
+                var: () => evaluate(params, undefined, kernels.var),
+                sample: shape => kernels.sample(params, shape)
+            };
+        };
+
+        const opNormdist = (mu: RealOpInput = 0, sigma: RealOpInput = 1): IDistribution => {
+            return makeDistribution('normal', ['mu', 'sigma'], [mu, sigma], {
+                logpdf: (x, p) => DistributionFunction.normLogPdf(x, p[0], p[1]),
+                cdf: (x, p) => DistributionFunction.normCdf(x, p[0], p[1]),
+                icdf: (y, p) => DistributionFunction.normInv(y, p[0], p[1]),
+                mean: p => p[1] > 0 ? p[0] : NaN,
+                var: p => p[1] > 0 ? p[1] * p[1] : NaN,
+                sample: (p, shape) => evaluate(p, shape, v => {
+                    return v[1] > 0 ? v[0] + v[1] * randomOp.randn() : NaN;
+                })
+            });
+        };
+
+        const opTdist = (nu: RealOpInput): IDistribution => {
+            return makeDistribution('t', ['nu'], [nu], {
+                logpdf: (x, p) => DistributionFunction.tLogPdf(x, p[0]),
+                cdf: (x, p) => DistributionFunction.tCdf(x, p[0]),
+                icdf: (y, p) => DistributionFunction.tInv(y, p[0]),
+                mean: p => DistributionFunction.tMean(p[0]),
+                var: p => DistributionFunction.tVar(p[0]),
+                sample: (p, shape) => randomOp.trnd(p[0], shape)
+            });
+        };
+
+        const opChi2dist = (nu: RealOpInput): IDistribution => {
+            return makeDistribution('chi2', ['nu'], [nu], {
+                logpdf: (x, p) => DistributionFunction.gamLogPdf(x, 0.5 * p[0], 2),
+                cdf: (x, p) => DistributionFunction.gamCdf(x, 0.5 * p[0], 2),
+                icdf: (y, p) => DistributionFunction.gamInv(y, 0.5 * p[0], 2),
+                mean: p => p[0] > 0 ? p[0] : NaN,
+                var: p => p[0] > 0 ? 2 * p[0] : NaN,
+                sample: (p, shape) => randomOp.chi2rnd(p[0], shape)
+            });
+        };
+
+        const opFdist = (d1: RealOpInput, d2: RealOpInput): IDistribution => {
+            return makeDistribution('f', ['d1', 'd2'], [d1, d2], {
+                logpdf: (x, p) => DistributionFunction.fLogPdf(x, p[0], p[1]),
+                cdf: (x, p) => DistributionFunction.fCdf(x, p[0], p[1]),
+                icdf: (y, p) => DistributionFunction.fInv(y, p[0], p[1]),
+                mean: p => DistributionFunction.fMean(p[0], p[1]),
+                var: p => DistributionFunction.fVar(p[0], p[1]),
+                sample: (p, shape) => evaluate(p, shape, v => {
+                    if (!(v[0] > 0) || !(v[1] > 0)) {
+                        return NaN;
+                    }
+                    return (randomOp.chi2rnd(v[0]) / v[0]) / (randomOp.chi2rnd(v[1]) / v[1]);
+                })
+            });
+        };
+
+        const opGamdist = (a: RealOpInput, b: RealOpInput = 1): IDistribution => {
+            return makeDistribution('gamma', ['a', 'b'], [a, b], {
+                logpdf: (x, p) => DistributionFunction.gamLogPdf(x, p[0], p[1]),
+                cdf: (x, p) => DistributionFunction.gamCdf(x, p[0], p[1]),
+                icdf: (y, p) => DistributionFunction.gamInv(y, p[0], p[1]),
+                mean: p => p[0] > 0 && p[1] > 0 ? p[0] * p[1] : NaN,
+                var: p => p[0] > 0 && p[1] > 0 ? p[0] * p[1] * p[1] : NaN,
+                sample: (p, shape) => randomOp.gamrnd(p[0], p[1], shape)
+            });
+        };
+
+        const opBetadist = (a: RealOpInput, b: RealOpInput): IDistribution => {
+            return makeDistribution('beta', ['a', 'b'], [a, b], {
+                logpdf: (x, p) => DistributionFunction.betaLogPdf(x, p[0], p[1]),
+                cdf: (x, p) => DistributionFunction.betaCdf(x, p[0], p[1]),
+                icdf: (y, p) => DistributionFunction.betaInv(y, p[0], p[1]),
+                mean: p => p[0] > 0 && p[1] > 0 ? p[0] / (p[0] + p[1]) : NaN,
+                var: p => {
+                    if (!(p[0] > 0) || !(p[1] > 0)) {
+                        return NaN;
+                    }
+                    let s = p[0] + p[1];
+                    return p[0] * p[1] / (s * s * (s + 1));
+                },
+                sample: (p, shape) => randomOp.betarnd(p[0], p[1], shape)
+            });
+        };
+
+        const opExpdist = (mu: RealOpInput = 1): IDistribution => {
+            return makeDistribution('exponential', ['mu'], [mu], {
+                logpdf: (x, p) => DistributionFunction.expLogPdf(x, p[0]),
+                cdf: (x, p) => DistributionFunction.expCdf(x, p[0]),
+                icdf: (y, p) => DistributionFunction.expInv(y, p[0]),
+                mean: p => p[0] > 0 ? p[0] : NaN,
+                var: p => p[0] > 0 ? p[0] * p[0] : NaN,
+                sample: (p, shape) => randomOp.exprnd(p[0], shape)
+            });
+        };
+
+        const opPoissdist = (lambda: RealOpInput): IDistribution => {
+            const isValid = (l: number) => l >= 0 && l !== Infinity;
+            return makeDistribution('poisson', ['lambda'], [lambda], {
+                logpdf: (x, p) => DistributionFunction.poissLogPdf(x, p[0]),
+                cdf: (x, p) => DistributionFunction.poissCdf(x, p[0]),
+                icdf: (y, p) => DistributionFunction.poissInv(y, p[0]),
+                mean: p => isValid(p[0]) ? p[0] : NaN,
+                var: p => isValid(p[0]) ? p[0] : NaN,
+                sample: (p, shape) => randomOp.poissrnd(p[0], shape)
+            });
+        };
+
+        const opBinodist = (n: RealOpInput, p: RealOpInput): IDistribution => {
+            const isValid = (q: number[]) => q[0] >= 0 && Math.floor(q[0]) === q[0] && q[0] !== Infinity
+                && q[1] >= 0 && q[1] <= 1;
+            return makeDistribution('binomial', ['n', 'p'], [n, p], {
+                logpdf: (x, q) => DistributionFunction.binoLogPdf(x, q[0], q[1]),
+                cdf: (x, q) => DistributionFunction.binoCdf(x, q[0], q[1]),
+                icdf: (y, q) => DistributionFunction.binoInv(y, q[0], q[1]),
+                mean: q => isValid(q) ? q[0] * q[1] : NaN,
+                var: q => isValid(q) ? q[0] * q[1] * (1 - q[1]) : NaN,
+                sample: (q, shape) => randomOp.binornd(q[0], q[1], shape)
+            });
+        };
+
+        const opUnifdist = (a: RealOpInput = 0, b: RealOpInput = 1): IDistribution => {
+            const isValid = (p: number[]) => p[0] < p[1] && isFinite(p[0]) && isFinite(p[1]);
+            return makeDistribution('uniform', ['a', 'b'], [a, b], {
+                logpdf: (x, p) => DistributionFunction.unifLogPdf(x, p[0], p[1]),
+                cdf: (x, p) => DistributionFunction.unifCdf(x, p[0], p[1]),
+                icdf: (y, p) => DistributionFunction.unifInv(y, p[0], p[1]),
+                mean: p => isValid(p) ? 0.5 * (p[0] + p[1]) : NaN,
+                var: p => isValid(p) ? (p[1] - p[0]) * (p[1] - p[0]) / 12 : NaN,
+                sample: (p, shape) => evaluate(p, shape, v => {
+                    return isValid(v) ? v[0] + (v[1] - v[0]) * randomOp.rand() : NaN;
+                })
+            });
+        };
+
+        return {
+            normdist: opNormdist,
+            tdist: opTdist,
+            chi2dist: opChi2dist,
+            fdist: opFdist,
+            gamdist: opGamdist,
+            betadist: opBetadist,
+            expdist: opExpdist,
+            poissdist: opPoissdist,
+            binodist: opBinodist,
+            unifdist: opUnifdist
+        };
+    }
+}
@@ -280,6 +280,20 @@ describe('add()', () => {
         let expected = T.fromArray([[0.1, 0.9], [Infinity, NaN]]);
         checkTensor(actual, expected, EPSILON);
     });
+    it('should promote the data types of tensors with narrow data types', () => {
+        let x = T.fromArray(new Uint8Array([1, 255]));
+        let y = T.fromArray(new Int8Array([-1, 1]));
+        checkTensor(T.add(x, y), T.fromArray([0, 256], [], T.INT16));
+        let z = T.fromArray(new Float32Array([0.5, 0.25]));
+        checkTensor(T.add(x, z), T.fromArray([1.5, 255.25], [], T.FLOAT32));
+    });
+    it('should not allow in-place operations that require downcasting', () => {
+        let x = T.fromArray(new Uint8Array([1, 2]));
+        let y = T.fromArray(new Int8Array([-1, 1]));
+        expect(() => T.add(x, y, true)).toThrow();
+        T.add(y, T.fromArray(new Int8Array([1, 1])), true);
+        checkTensor(y, T.fromArray([0, 2], [], T.INT8));
+    });
 });
 
 describe('mul()', () => {
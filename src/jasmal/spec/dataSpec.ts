@@ -1,6 +1,6 @@
 import { JasmalEngine } from '../index';
 import { Tensor } from '../lib/core/tensor';
-import { checkTensor, checkComplex } from './testHelper';
+import { checkTensor, checkComplex, checkNumber } from './testHelper';
 import { ComplexNumber } from '../lib/core/complexNumber';
 const T = JasmalEngine.createInstance();
 
@@ -88,6 +88,47 @@ describe('max()', () => {
     });
 });
 
+describe('min()/max() with complex inputs', () => {
+    let x = T.complex(T.fromArray([1, -1, 1, 0, 2]), T.fromArray([1, 0, -1, 0.5, 0]));
+    let A = T.complex(T.fromArray([[1, -2], [0, 3]]), T.fromArray([[1, 0], [0.5, -3]]));
+
+    it('should compare complex elements by their magnitudes by default', () => {
+        let [m, i] = T.min(x);
+        checkComplex(m, new ComplexNumber(0, 0.5));
+        expect(i).toBe(3);
+        let [M, I] = T.max(x);
+        expect(M).toBe(2);
+        expect(I).toBe(4);
+    });
+    it('should break ties using the phase angles', () => {
+        let [m, i] = T.min(T.complex(T.fromArray([1, 1, -1]), T.fromArray([1, -1, 1])));
+        checkComplex(m, new ComplexNumber(1, -1));
+        expect(i).toBe(1);
+        let [M, I] = T.max(T.complex(T.fromArray([1, -1, 0]), T.fromArray([0, 0, 0.5])));
+        expect(M).toBe(-1);
+        expect(I).toBe(1);
+    });
+    it('should find the minimums along the specified axis', () => {
+        let [m, i] = T.min(A, 0);
+        checkTensor(m, T.complex(T.fromArray([0, -2]), T.fromArray([0.5, 0])));
+        checkTensor(i, T.fromArray([1, 0], [], T.INT32));
+    });
+    it('should compare the real parts first when comparisonMethod = \'real\'', () => {
+        expect(T.min(x, -1, false, 'real')).toEqual([-1, 1]);
+        expect(T.max(x, -1, false, 'real')).toEqual([2, 4]);
+        let [M, I] = T.max(T.complex(T.fromArray([1, 1]), T.fromArray([-1, 2])), -1, false, 'real');
+        checkComplex(M, new ComplexNumber(1, 2));
+        expect(I).toBe(1);
+    });
+    it('should compare the magnitudes of real elements when comparisonMethod = \'abs\'', () => {
+        expect(T.min([-3, 2, 3, NaN], -1, false, 'abs')).toEqual([2, 1]);
+        expect(T.max([-3, 2, 3, NaN], -1, false, 'abs')).toEqual([-3, 0]);
+    });
+    it('should throw for an invalid comparison method', () => {
+        expect(() => T.min(x, -1, false, <any>'foo')).toThrow();
+    });
+});
+
 describe('sum()', () => {
     let A = T.fromArray([[1,2,3],[4,5,6]]);
     let C = T.fromArray([[1,2,3],[4,5,6]], [[-1,-2,-3],[-4,-5,-6]]);
@@ -133,6 +174,30 @@ describe('sum()', () => {
     });
 });
 
+describe('sum() with narrow data types', () => {
+    it('should widen narrow integer types to avoid overflows', () => {
+        let x = T.fromArray(new Uint8Array([200, 200, 200]));
+        let s = <Tensor>T.sum(x, 0, true);
+        expect(s.dtype).toBe(T.INT32);
+        checkTensor(s, T.fromArray([600], [], T.INT32));
+    });
+    it('should keep FLOAT32', () => {
+        let x = T.fromArray(new Float32Array([0.5, 1.5, 2, 3])).reshape([2, 2]);
+        let s = <Tensor>T.sum(x, 0);
+        expect(s.dtype).toBe(T.FLOAT32);
+        checkTensor(s, T.fromArray([2.5, 4.5], [], T.FLOAT32));
+    });
+    it('should convert LOGIC and UINT32 to FLOAT64', () => {
+        let b = T.fromArray([[1, 0], [1, 1]], [], T.LOGIC);
+        let s = <Tensor>T.sum(b, 0);
+        expect(s.dtype).toBe(T.FLOAT64);
+        checkTensor(s, T.fromArray([2, 1]));
+        let p = <Tensor>T.prod(T.fromArray(new Uint32Array([65536, 65536])), 0, true);
+        expect(p.dtype).toBe(T.FLOAT64);
+        checkTensor(p, T.fromArray([4294967296]));
+    });
+});
+
 describe('prod()', () => {
     it('should return the product of all the elements in a real vector', () => {
         expect(T.prod([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])).toBe(3628800);
@@ -397,6 +462,26 @@ describe('sort()', () => {
         checkTensor(actualX, expectedX);
         expect(actualIndices).toEqual(expectedIndices);
     });
+    it('should sort complex elements by their magnitudes and phase angles', () => {
+        let x = T.complex(T.fromArray([1, -1, 1, 0, 2]), T.fromArray([1, 0, -1, 0.5, 0]));
+        let [actualX, actualIndices] = T.sort(x, 'asc', true);
+        checkTensor(actualX, T.complex(T.fromArray([0, -1, 1, 1, 2]), T.fromArray([0.5, 0, -1, 1, 0])));
+        expect(actualIndices).toEqual([3, 1, 2, 0, 4]);
+        [actualX, actualIndices] = T.sort(x, 'desc', true);
+        checkTensor(actualX, T.complex(T.fromArray([2, 1, 1, -1, 0]), T.fromArray([0, 1, -1, 0, 0.5])));
+        expect(actualIndices).toEqual([4, 0, 2, 1, 3]);
+    });
+    it('should sort complex elements by their real parts when comparisonMethod = \'real\'', () => {
+        let x = T.complex(T.fromArray([1, -1, 1, 0, 2]), T.fromArray([1, 0, -1, 0.5, 0]));
+        let [actualX, actualIndices] = T.sort(x, 'asc', true, 'real');
+        checkTensor(actualX, T.complex(T.fromArray([-1, 0, 1, 1, 2]), T.fromArray([0, 0.5, -1, 1, 0])));
+        expect(actualIndices).toEqual([1, 3, 2, 0, 4]);
+    });
+    it('should sort real elements by their magnitudes when comparisonMethod = \'abs\'', () => {
+        let [actualX, actualIndices] = T.sort([3, -2, 1, -3], 'asc', true, 'abs');
+        checkTensor(actualX, T.fromArray([1, -2, 3, -3]));
+        expect(actualIndices).toEqual([2, 1, 0, 3]);
+    });
 });
 
 describe('sortRows()', () => {
@@ -439,6 +524,12 @@ describe('sortRows()', () => {
         // should not change A
         checkTensor(A, ACopy);
     });
+    it('should sort the rows of a complex matrix', () => {
+        let B = T.complex(T.fromArray([[1, 2], [-1, 0], [0, 5]]), T.fromArray([[1, 0], [0, 3], [1, 0]]));
+        let [actualY, actualI] = T.sortRows(B, 'asc', true);
+        checkTensor(actualY, T.complex(T.fromArray([[0, 5], [-1, 0], [1, 2]]), T.fromArray([[1, 0], [0, 3], [1, 0]])));
+        expect(actualI).toEqual([2, 1, 0]);
+    });
 });
 
 describe('hist()', () => {
@@ -504,7 +595,7 @@ describe('fft()/ifft()', () => {
         checkTensor(actual, expected, 1e-14);        
     });
     it('should compute the FFT along the columns of a complex matrix', () => {
-        let actual = T.fft(A, 0);
+        let actual = T.fft(A, undefined, 0);
         let expected = T.fromArray(
             [[7, 8],
              [0, 1],
@@ -520,7 +611,7 @@ describe('fft()/ifft()', () => {
         checkTensor(A, ACopy);
     });
     it('ifft(fft(A, 0), 0) should give back A', () => {
-        let actual = T.ifft(T.fft(A, 0), 0);
+        let actual = T.ifft(T.fft(A, undefined, 0), undefined, 0);
         checkTensor(actual, A, 1e-13);
         // should not change A
         checkTensor(A, ACopy);
@@ -529,7 +620,7 @@ describe('fft()/ifft()', () => {
         let shape = [3, 16, 7];
         let X = T.complex(T.rand(shape), T.rand(shape));
         let XCopy = X.copy(true);
-        let actual = T.ifft(T.fft(X, 1), 1);
+        let actual = T.ifft(T.fft(X, undefined, 1), undefined, 1);
         checkTensor(actual, X, 1e-13);
         // should not change X
         checkTensor(X, XCopy);
@@ -539,10 +630,532 @@ describe('fft()/ifft()', () => {
         let init = T.randn([1, 2]);
         let X = <Tensor>T.exp(T.mul(T.add(phase, init), T.J, true));
         let XCopy = X.copy(true);
-        let actual = T.ifft(T.fft(X, 0), 0);
+        let actual = T.ifft(T.fft(X, undefined, 0), undefined, 0);
         // not very accurate for long sequences?
         checkTensor(actual, X, 1e-7);
         // should not change X
         checkTensor(X, XCopy);
     });
 });
+
+describe('fft()/ifft() with a transform length', () => {
+    it('should pad the input with zeros', () => {
+        let actual = T.fft([1, 2, 3], 8);
+        let expected = T.fft([1, 2, 3, 0, 0, 0, 0, 0]);
+        checkTensor(actual, expected, 1e-15);
+    });
+    it('should truncate the input', () => {
+        let actual = T.fft([1, 2, 3, 4, 5], 3);
+        let expected = T.fft([1, 2, 3]);
+        checkTensor(actual, expected, 1e-15);
+    });
+    it('should pad the columns of a matrix with zeros', () => {
+        let A = T.fromArray([[1, 2], [3, 4]], [[0, 1], [-1, 0]]);
+        let actual = T.fft(A, 5, 0);
+        let expected = T.fft(T.concat([A, T.zeros([3, 2])], 0), undefined, 0);
+        checkTensor(actual, expected, 1e-14);
+    });
+    it('ifft(fft(x, n), n) should give back the zero-padded x', () => {
+        let x = T.rand([6]);
+        let actual = T.ifft(T.fft(x, 10), 10);
+        let expected = T.concat([x, T.zeros([4])]).ensureComplexStorage();
+        checkTensor(actual, expected, 1e-13);
+    });
+    it('should throw when the transform length is invalid', () => {
+        expect(() => T.fft([1, 2], 0)).toThrow();
+        expect(() => T.fft([1, 2], 1.5)).toThrow();
+    });
+});
+
+describe('rfft()/irfft()', () => {
+    let halfSpectrum = (x: Tensor, n: number, axis: number): Tensor => {
+        let args: any[] = [];
+        for (let i = 0;i < x.ndim;i++) {
+            args.push(i === axis ? ':' + (Math.floor(n / 2) + 1) : ':');
+        }
+        return <Tensor>x.get.apply(x, args);
+    };
+    it('should compute the half spectrum of a real vector of even length', () => {
+        let x = T.randn([16]);
+        let actual = T.rfft(x);
+        checkTensor(actual, halfSpectrum(T.fft(x), 16, 0), 1e-13);
+    });
+    it('should compute the half spectrum of a real vector of odd length', () => {
+        let x = T.randn([15]);
+        let actual = T.rfft(x);
+        checkTensor(actual, halfSpectrum(T.fft(x), 15, 0), 1e-13);
+    });
+    it('should compute the half spectrum with padding along the specified axis', () => {
+        let X = T.randn([3, 7, 2]);
+        let actual = T.rfft(X, 12, 1);
+        expect(actual.shape).toEqual([3, 7, 2]);
+        checkTensor(actual, halfSpectrum(T.fft(X, 12, 1), 12, 1), 1e-13);
+    });
+    it('should throw for complex inputs', () => {
+        expect(() => T.rfft(T.fromArray([1, 2], [1, 0]))).toThrow();
+    });
+    it('irfft(rfft(x)) should give back x for even and odd lengths', () => {
+        let x = T.randn([20]);
+        checkTensor(T.irfft(T.rfft(x)), x, 1e-13);
+        let y = T.randn([9]);
+        checkTensor(T.irfft(T.rfft(y), 9), y, 1e-13);
+    });
+    it('irfft(rfft(X, n, 0), n, 0) should give back X', () => {
+        let X = T.randn([10, 3]);
+        let actual = T.irfft(T.rfft(X, undefined, 0), 10, 0);
+        expect(actual.hasComplexStorage()).toBe(false);
+        checkTensor(actual, X, 1e-13);
+    });
+    it('should match the real part of the ifft of the full spectrum', () => {
+        let x = T.randn([8]);
+        let X = T.fft(x);
+        let actual = T.irfft(halfSpectrum(X, 8, 0), 8);
+        checkTensor(actual, T.real(T.ifft(X)), 1e-13);
+    });
+});
+
+describe('fft2()/ifft2()/fftn()/ifftn()', () => {
+    it('fft2() should be equivalent to fft() along the first two axes', () => {
+        let X = T.complex(T.randn([4, 6, 2]), T.randn([4, 6, 2]));
+        let actual = T.fft2(X);
+        let expected = T.fft(T.fft(X, undefined, 0), undefined, 1);
+        checkTensor(actual, expected, 1e-13);
+    });
+    it('fft2() should pad or truncate according to the specified shape', () => {
+        let X = T.randn([5, 3]);
+        let actual = T.fft2(X, [4, 8]);
+        let expected = T.fft(T.fft(X, 4, 0), 8, 1);
+        expect(actual.shape).toEqual([4, 8]);
+        checkTensor(actual, expected, 1e-13);
+    });
+    it('ifft2(fft2(X)) should give back X', () => {
+        let X = T.complex(T.randn([7, 4]), T.randn([7, 4]));
+        checkTensor(T.ifft2(T.fft2(X)), X, 1e-13);
+    });
+    it('fft2() should throw for 1D inputs', () => {
+        expect(() => T.fft2([1, 2, 3])).toThrow();
+    });
+    it('fftn() should compute the transform along all the axes', () => {
+        let X = T.randn([3, 4, 5]);
+        let actual = T.fftn(X);
+        let expected = T.fft(T.fft(T.fft(X, undefined, 0), undefined, 1), undefined, 2);
+        checkTensor(actual, expected, 1e-13);
+        // DC component
+        checkNumber((<ComplexNumber>actual.get(0, 0, 0)).re, <number>T.sum(X), 1e-12);
+    });
+    it('ifftn(fftn(X, shape)) should give back the zero-padded X', () => {
+        let X = T.randn([2, 3]);
+        let actual = T.ifftn(T.fftn(X, [4, 3]));
+        let expected = T.concat([X, T.zeros([2, 3])], 0).ensureComplexStorage();
+        checkTensor(actual, expected, 1e-13);
+    });
+});
+
+describe('fftshift()/ifftshift()/fftfreq()/rfftfreq()', () => {
+    it('should shift a vector of odd length', () => {
+        checkTensor(T.fftshift([0, 1, 2, -2, -1]), T.fromArray([-2, -1, 0, 1, 2]));
+        checkTensor(T.ifftshift([-2, -1, 0, 1, 2]), T.fromArray([0, 1, 2, -2, -1]));
+    });
+    it('should shift a vector of even length', () => {
+        checkTensor(T.fftshift([0, 1, 2, -3, -2, -1]), T.fromArray([-3, -2, -1, 0, 1, 2]));
+        checkTensor(T.ifftshift([-3, -2, -1, 0, 1, 2]), T.fromArray([0, 1, 2, -3, -2, -1]));
+    });
+    it('should shift all the axes by default', () => {
+        let A = T.fromArray([[0, 1, 2], [3, 4, 5]]);
+        checkTensor(T.fftshift(A), T.fromArray([[5, 3, 4], [2, 0, 1]]));
+        checkTensor(T.ifftshift(T.fftshift(A)), A);
+    });
+    it('should shift only the specified axis', () => {
+        let A = T.fromArray([[0, 1, 2], [3, 4, 5]]);
+        checkTensor(T.fftshift(A, 1), T.fromArray([[2, 0, 1], [5, 3, 4]]));
+    });
+    it('should align with fftfreq()', () => {
+        checkTensor(T.fftshift(T.fftfreq(7)), <Tensor>T.mul(T.fromArray([-3, -2, -1, 0, 1, 2, 3]), 1 / 7), 1e-15);
+    });
+    it('should return the sample frequencies', () => {
+        checkTensor(T.fftfreq(4, 0.5), T.fromArray([0, 0.5, -1, -0.5]));
+        checkTensor(T.fftfreq(5), T.fromArray([0, 0.2, 0.4, -0.4, -0.2]), 1e-15);
+        checkTensor(T.rfftfreq(4, 0.5), T.fromArray([0, 0.5, 1]));
+        checkTensor(T.rfftfreq(5), T.fromArray([0, 0.2, 0.4]), 1e-15);
+    });
+});
+
+describe('mean()/var()/std() with weights and ddof', () => {
+    let A = T.fromArray([[1, 5, 2], [4, 2, 8], [7, 3, 3], [0, 6, 1]]);
+    it('should compute the weighted mean along the specified axis', () => {
+        checkTensor(<Tensor>T.mean(A, 0, false, [1, 2, 3, 4]), T.fromArray([3, 4.2, 3.1]), 1e-15);
+        checkTensor(<Tensor>T.mean(A, 1, true, [1, 0, 1]), T.fromArray([[1.5], [6], [5], [0.5]]));
+        expect(T.mean([1, 2, 3], -1, false, [0, 1, 3])).toBe(2.75);
+    });
+    it('should compute the weighted mean of complex inputs', () => {
+        let actual = T.mean(T.complexNumber(1, 2), -1, false, 2);
+        checkComplex(<ComplexNumber>actual, T.complexNumber(1, 2));
+        let x = T.fromArray([1, 3], [2, -2]);
+        checkComplex(<ComplexNumber>T.mean(x, -1, false, [3, 1]), T.complexNumber(1.5, 1), 1e-15);
+    });
+    it('should throw when the shape of the weights is invalid', () => {
+        expect(() => T.mean(A, 0, false, [1, 2, 3])).toThrow();
+        expect(() => T.mean(A, -1, false, [1, 2])).toThrow();
+        expect(() => T.mean(A, 1, false, [[1, 2, 3]])).toThrow();
+    });
+    it('should throw when the weights are negative', () => {
+        expect(() => T.mean([1, 2], -1, false, [-1, 2])).toThrow(new Error('Weights must be nonnegative.'));
+        expect(() => T.var([1, 2, 3], -1, false, 1, [-1, 1, 1])).toThrow(new Error('Weights must be nonnegative.'));
+        expect(() => T.std(A, 0, false, 1, [1, NaN, 1, 1])).toThrow(new Error('Weights must be nonnegative.'));
+    });
+    it('should normalize the variance by N - ddof', () => {
+        let x = [2, 8, 0, 4, 1, 9, 9, 0];
+        checkNumber(<number>T.var(x, -1, false, 0), 13.859375, 1e-15);
+        checkNumber(<number>T.std(x, -1, false, 0), Math.sqrt(13.859375), 1e-15);
+        checkTensor(<Tensor>T.var(A, 1, true, 0), T.fromArray([[26 / 9], [56 / 9], [32 / 9], [62 / 9]]), 1e-14);
+        expect(T.var([1, 2], -1, false, 2)).toBeNaN();
+        expect(T.var(5, -1, false, 0)).toBe(0);
+    });
+    it('should compute the weighted variance along the specified axis', () => {
+        checkTensor(<Tensor>T.var(A, 0, false, 1, [1, 2, 3, 4]),
+            T.fromArray([10, 3.0666666666666667, 7.4333333333333333]), 14, false);
+        checkTensor(<Tensor>T.std(A, 0, true, 0, [1, 2, 3, 4]),
+            T.fromArray([[3, Math.sqrt(2.76), Math.sqrt(6.69)]]), 15, false);
+        // frequency weights
+        checkNumber(<number>T.var([1, 2, 5], -1, false, 1, [2, 1, 3]), <number>T.var([1, 1, 2, 5, 5, 5]), 1e-15);
+    });
+    it('should return NaN if sum(w) - ddof is not positive', () => {
+        expect(T.var([1, 2], -1, false, 1, [0.5, 0.3])).toBeNaN();
+        expect(T.std([1, 2], -1, false, 1, [0.5, 0.3])).toBeNaN();
+        expect(T.var([1, 2], -1, false, 1, [0.5, 0.5])).toBeNaN();
+        checkTensor(<Tensor>T.var(A, 1, false, 1, [[1, 1, 1], [0.2, 0.3, 0.4], [1, 0, 0], [0, 1, 1]]),
+            T.fromArray([13 / 3, NaN, NaN, 12.5]), 1e-14);
+        checkTensor(<Tensor>T.std(A, 0, false, 3, [1, 1, 0.5, 0.5]), T.fromArray([NaN, NaN, NaN]));
+        let W = T.fromArray([[1, 1, 1], [1, 1, 1], [1, 1, 1], [0, 0, 0]], [], T.INT32);
+        checkTensor(<Tensor>T.var(A, 0, false, 3, W), T.fromArray([NaN, NaN, NaN]));
+    });
+    it('should agree with the unweighted variance for unit weights', () => {
+        expect(T.var([1])).toBe(0);
+        expect(T.var([1], -1, false, 1, [1])).toBe(0);
+        expect(T.std([1], -1, false, 1, [1])).toBe(0);
+        expect(T.var([1], -1, false, 2, [1])).toEqual(T.var([1], -1, false, 2));
+        checkTensor(<Tensor>T.var(A, 1, true, 1, [1, 1, 1]), <Tensor>T.var(A, 1, true), 1e-14);
+        checkTensor(<Tensor>T.var(A, 0, false, 0, T.ones([4, 3])), <Tensor>T.var(A, 0, false, 0), 1e-14);
+        checkTensor(<Tensor>T.var([[1, 2, 3]], 0, false, 1, [[1, 1, 1]]), <Tensor>T.var([[1, 2, 3]], 0), 1e-14);
+    });
+});
+
+describe('quantile()/percentile()/iqr()', () => {
+    let x = [2, 8, 0, 4, 1, 9, 9, 0];
+    let p = [0, 0.1, 0.25, 0.5, 0.75, 1];
+    it('should support different interpolation methods', () => {
+        checkTensor(<Tensor>T.quantile(x, p), T.fromArray([0, 0, 0.75, 3, 8.25, 9]));
+        checkTensor(<Tensor>T.quantile(x, p, -1, false, 'lower'), T.fromArray([0, 0, 0, 2, 8, 9]));
+        checkTensor(<Tensor>T.quantile(x, p, -1, false, 'higher'), T.fromArray([0, 0, 1, 4, 9, 9]));
+        checkTensor(<Tensor>T.quantile(x, p, -1, false, 'nearest'), T.fromArray([0, 0, 1, 4, 8, 9]));
+        checkTensor(<Tensor>T.quantile(x, p, -1, false, 'midpoint'), T.fromArray([0, 0, 0.5, 3, 8.5, 9]));
+        checkTensor(<Tensor>T.quantile(x, p, -1, false, 'hazen'), T.fromArray([0, 0, 0.5, 3, 8.5, 9]));
+    });
+    it('should work along the specified axis', () => {
+        let A = T.fromArray([[1, 5, 2], [4, 2, 8], [7, 3, 3], [0, 6, 1]]);
+        checkTensor(<Tensor>T.quantile(A, 0.5, 0), <Tensor>T.median(A, 0));
+        checkTensor(<Tensor>T.quantile(A, 0.25, 1, true), T.fromArray([[1.5], [3], [3], [0.5]]));
+        checkTensor(<Tensor>T.quantile(A, [0, 1], 0), T.fromArray([[0, 2, 1], [7, 6, 8]]));
+        checkTensor(<Tensor>T.quantile(A, 1, -1, true), T.fromArray([[8]]));
+        checkTensor(<Tensor>T.percentile(A, [50], 1), T.fromArray([[2], [4], [3], [1]]));
+    });
+    it('should return NaN if the data contain NaNs', () => {
+        checkTensor(<Tensor>T.quantile([[1, NaN], [2, 3]], 0.5, 1), T.fromArray([NaN, 2.5]));
+    });
+    it('should compute the interquartile range', () => {
+        expect(T.iqr(x)).toBe(7.5);
+        expect(T.iqr(x, -1, false, 'hazen')).toBe(8);
+        checkTensor(<Tensor>T.iqr([[1, 2, 3, 4], [2, 2, 2, 2]], 1), T.fromArray([1.5, 0]));
+    });
+    it('should throw for invalid arguments', () => {
+        expect(() => T.quantile(x, 1.5)).toThrow();
+        expect(() => T.percentile(x, [50, -1])).toThrow();
+        expect(() => T.quantile(x, 0.5, -1, false, <any>'cubic')).toThrow();
+        expect(() => T.quantile(T.fromArray([1, 2], [0, 1]), 0.5)).toThrow();
+    });
+});
+
+describe('moment()/skewness()/kurtosis()', () => {
+    let x = [2, 8, 0, 4, 1, 9, 9, 0];
+    it('should compute the central moments', () => {
+        checkNumber(<number>T.moment(x, 2), 13.859375, 1e-15);
+        checkNumber(<number>T.moment(x, 3), 13.67578125, 1e-15);
+        checkTensor(<Tensor>T.moment([[1, 2, 6], [1, 1, 1]], 3, 1, true), T.fromArray([[6], [0]]), 1e-15);
+    });
+    it('should compute the skewness', () => {
+        checkNumber(<number>T.skewness(x), 0.26505541226985731, 14, false);
+        checkNumber(<number>T.skewness(x, -1, false, false), 0.33058218040797466, 14, false);
+        checkTensor(<Tensor>T.skewness([[1, 2, 6], [3, 2, 1]], 1), T.fromArray([0.59517006413949737, 0]), 14, false);
+    });
+    it('should compute the kurtosis', () => {
+        checkNumber(<number>T.kurtosis(x), 1.3339989247161492, 14, false);
+        checkNumber(<number>T.kurtosis(x, -1, false, false), 0.90139774190391335, 14, false);
+        expect(T.kurtosis([1, 2, 3], -1, false, false)).toBeNaN();
+    });
+});
+
+describe('zscore()', () => {
+    it('should standardize all the elements', () => {
+        checkTensor(T.zscore([1, 2, 3]), T.fromArray([-1, 0, 1]));
+        checkTensor(T.zscore([[1, 3], [2, 4]], -1, 0), <Tensor>T.div([[-3, 1], [-1, 3]], Math.sqrt(5)), 1e-15);
+    });
+    it('should standardize along the specified axis', () => {
+        let actual = T.zscore([[1, 5, 2], [3, 5, 4]], 0);
+        let s = Math.SQRT2;
+        checkTensor(actual, T.fromArray([[-1 / s, 0, -1 / s], [1 / s, 0, 1 / s]]), 1e-15);
+    });
+});
+
+describe('ttest()/ttest2()', () => {
+    let x = [2, 8, 0, 4, 1, 9, 9, 0];
+    let y = [3, 5, 7, 2, 4, 6];
+    it('should perform the one-sample t-test', () => {
+        let [t, p] = <[number, number]>T.ttest(x, 3);
+        checkNumber(t, 0.79952071324837515, 14, false);
+        checkNumber(p, 0.45026282465586555, 13, false);
+        checkNumber(<number>T.ttest(x, 3, -1, false, 'right')[1], 0.22513141232793278, 13, false);
+        checkNumber(<number>T.ttest(x, 3, -1, false, 'left')[1], 0.77486858767206722, 13, false);
+    });
+    it('should perform the one-sample t-test along the specified axis', () => {
+        let [t, p] = <[Tensor, Tensor]>T.ttest([x, y.concat([4, 4])], 4, 1, true);
+        expect(t.shape).toEqual([2, 1]);
+        expect(p.shape).toEqual([2, 1]);
+        checkNumber(<number>p.get(0, 0), <number>T.ttest(x, 4)[1], 1e-15);
+        checkNumber(<number>t.get(1, 0), 0.66374651830306467, 14, false);
+    });
+    it('should perform the two-sample t-test', () => {
+        let [t, p] = <[number, number]>T.ttest2(x, y);
+        checkNumber(t, -0.21229426557360770, 14, false);
+        checkNumber(p, 0.83544075316391555, 13, false);
+        [t, p] = <[number, number]>T.ttest2(x, y, -1, false, 'both', false);
+        checkNumber(t, -0.23422664027190077, 14, false);
+        checkNumber(p, 0.81932973299303412, 13, false);
+    });
+    it('should perform the two-sample t-test along the specified axis', () => {
+        let X = T.fromArray([x, x]);
+        let y1 = y.map(v => v + 1);
+        let Y = T.fromArray([y, y1]);
+        let [t, p] = <[Tensor, Tensor]>T.ttest2(T.transpose(X), T.transpose(Y), 0);
+        checkTensor(p, T.fromArray([<number>T.ttest2(x, y)[1], <number>T.ttest2(x, y1)[1]]), 1e-15);
+        expect(t.shape).toEqual([2]);
+        expect(() => T.ttest2(X, T.ones([3, 6]), 1)).toThrow();
+        expect(() => T.ttest2(x, y, -1, false, <any>'up')).toThrow();
+    });
+});
+
+describe('kstest()', () => {
+    let x = [-1.2, 0.3, 0.8, -0.5, 1.9, 0.1, -0.7];
+    it('should test against the standard normal distribution by default', () => {
+        let [d, p] = <[number, number]>T.kstest(x);
+        checkNumber(d, 0.12003388984544168, 14, false);
+        checkNumber(p, 0.99958654613692783, 13, false);
+    });
+    it('should accept distribution objects and cdfs', () => {
+        let u = [0.1, 0.5, 0.9, 0.3];
+        let [d, p] = <[number, number]>T.kstest(u, T.unifdist(), -1, false, 'larger');
+        checkNumber(d, 0.25, 1e-15);
+        // exact one-sided p-value: 0.25 * sum_j C(4, j) (0.75 - j/4)^(4-j) (0.25 + j/4)^(j-1)
+        checkNumber(p, 0.51171875, 1e-14);
+        [d, p] = <[number, number]>T.kstest(u, v => v, -1, false, 'smaller');
+        checkNumber(d, 0.15, 1e-15);
+        checkNumber(p, 0.77186875, 1e-14);
+        expect(() => T.kstest(u, T.unifdist([0, 1], 2))).toThrow();
+    });
+    it('should compute exact two-sided p-values', () => {
+        // P(D_10 < 0.274) = 0.6284796154565043 (Marsaglia et al., 2003)
+        let u = [0.274, 0.3, 0.35, 0.45, 0.55, 0.65, 0.75, 0.85, 0.95, 0.99];
+        let [d, p] = <[number, number]>T.kstest(u, v => v);
+        checkNumber(d, 0.274, 1e-15);
+        checkNumber(p, 1 - 0.6284796154565043, 13, false);
+    });
+    it('should work along the specified axis', () => {
+        let [d, p] = <[Tensor, Tensor]>T.kstest([x, x.map(v => v + 1)], undefined, 1, true);
+        expect(d.shape).toEqual([2, 1]);
+        checkNumber(<number>p.get(0, 0), <number>T.kstest(x)[1], 1e-15);
+        checkNumber(<number>d.get(1, 0), <number>T.kstest(x, T.normdist(-1))[0], 1e-15);
+    });
+});
+
+describe('chi2test()', () => {
+    let o = [16, 18, 16, 14, 12, 12];
+    it('should test against the uniform distribution by default', () => {
+        let [c, p] = <[number, number]>T.chi2test(o);
+        expect(c).toBe(2);
+        checkNumber(p, 0.84914503608460964, 14, false);
+    });
+    it('should test against the expected frequencies', () => {
+        let [c, p] = <[number, number]>T.chi2test(o, [16, 16, 16, 16, 16, 8]);
+        expect(c).toBe(3.5);
+        checkNumber(p, 0.62338762774958203, 14, false);
+        [c, p] = <[number, number]>T.chi2test(o, [16, 16, 16, 16, 16, 8], -1, false, 1);
+        checkNumber(p, 1 - <number>T.chi2dist(4).cdf(3.5), 1e-14);
+    });
+    it('should work along the specified axis', () => {
+        let [c, p] = <[Tensor, Tensor]>T.chi2test([o, o.map(v => v * 2)], undefined, 1);
+        checkTensor(c, T.fromArray([2, 4]));
+        checkNumber(<number>p.get(1), <number>T.chi2test(o.map(v => v * 2))[1], 1e-15);
+        expect(() => T.chi2test([o, o], [1, 2])).toThrow();
+    });
+});
+
+describe('nansum()/nanmean()', () => {
+    let A = T.fromArray([[NaN, 2, 3], [4, NaN, NaN], [NaN, NaN, NaN]]);
+    it('should ignore NaNs in real inputs', () => {
+        expect(T.nansum(A)).toBe(9);
+        expect(T.nanmean(A)).toBe(3);
+        checkTensor(<Tensor>T.nansum(A, 1), T.fromArray([5, 4, 0]));
+        checkTensor(<Tensor>T.nanmean(A, 1, true), T.fromArray([[2.5], [4], [NaN]]));
+        checkTensor(<Tensor>T.nanmean(A, 0), T.fromArray([4, 2, 3]));
+    });
+    it('should ignore NaNs in complex inputs', () => {
+        let Z = T.fromArray([[1, NaN, 3], [2, 2, NaN]], [[1, 0, 1], [NaN, 1, 0]]);
+        checkTensor(<Tensor>T.nansum(Z, 1), T.fromArray([4, 2], [2, 1]));
+        checkComplex(<ComplexNumber>T.nanmean(Z), T.complexNumber(2, 1));
+    });
+    it('should behave the same as sum()/mean() if there are no NaNs', () => {
+        let X = T.fromArray([[1, 2, 3], [4, 5, 6]], [], T.INT32);
+        checkTensor(<Tensor>T.nansum(X, 0, true), <Tensor>T.sum(X, 0, true));
+        checkTensor(<Tensor>T.nanmean(X, 1), <Tensor>T.mean(X, 1));
+    });
+});
+
+describe('nanmin()/nanmax()', () => {
+    it('should ignore NaNs in real inputs', () => {
+        let A = T.fromArray([[NaN, 2, 3], [4, NaN, -1], [NaN, NaN, NaN]]);
+        let [v, i] = <[Tensor, Tensor]>T.nanmax(A, 1);
+        checkTensor(v, T.fromArray([3, 4, NaN]));
+        checkTensor(i, T.fromArray([2, 0, 0], [], T.INT32));
+        [v, i] = <[Tensor, Tensor]>T.nanmin(A, 0, true);
+        checkTensor(v, T.fromArray([[4, 2, -1]]));
+        checkTensor(i, T.fromArray([[1, 0, 1]], [], T.INT32));
+        expect(T.nanmin([NaN, -3, 2])).toEqual([-3, 1]);
+        expect(T.nanmin([NaN, -3, 2], -1, false, 'abs')).toEqual([2, 2]);
+    });
+    it('should ignore NaNs in complex inputs', () => {
+        let Z = T.fromArray([[1, NaN, 3], [2, 2, NaN]], [[1, 0, 1], [NaN, 1, 0]]);
+        let [v, i] = <[Tensor, Tensor]>T.nanmax(Z, 1);
+        checkTensor(v, T.fromArray([3, 2], [1, 1]));
+        checkTensor(i, T.fromArray([2, 1], [], T.INT32));
+    });
+});
+
+describe('nanvar()/nanstd()/nanmedian()', () => {
+    let A = T.fromArray([[NaN, 2, 3], [4, NaN, NaN], [NaN, NaN, NaN]]);
+    it('should ignore NaNs when computing the variance', () => {
+        checkTensor(<Tensor>T.nanvar(A, 1), T.fromArray([0.5, 0, NaN]));
+        expect(T.nanstd([1, NaN, 3])).toBe(Math.SQRT2);
+        let Z = T.fromArray([1, NaN, 3, 5], [1, 0, 1, NaN]);
+        expect(T.nanvar(Z)).toBe(2);
+    });
+    it('should ignore NaNs when computing the median', () => {
+        checkTensor(<Tensor>T.nanmedian(A, 1), T.fromArray([2.5, 4, NaN]));
+        checkTensor(<Tensor>T.nanmedian(A, 0, true), T.fromArray([[4, 2, 3]]));
+        expect(T.nanmedian([NaN, 5, 1, NaN, 2])).toBe(2);
+    });
+});
+
+describe('reductions over multiple axes', () => {
+    let X = T.reshape(T.linspace(0, 23, 24), [2, 3, 4]);
+    it('should sum over the specified axes', () => {
+        checkTensor(<Tensor>T.sum(X, [0, 2]), T.fromArray([60, 92, 124]));
+        checkTensor(<Tensor>T.sum(X, [2, 0], true), T.fromArray([[[60], [92], [124]]]));
+        checkTensor(<Tensor>T.mean(X, [0, 2]), T.fromArray([7.5, 11.5, 15.5]));
+        expect(T.sum(X, [0, 1, 2])).toBe(276);
+        expect(T.sum(X, [1])).toEqual(T.sum(X, 1));
+    });
+    it('should reduce all the elements when axis is null', () => {
+        expect(T.sum(X, null)).toBe(276);
+        expect(T.prod([1, 2, 3, 4], null)).toBe(24);
+        checkTensor(<Tensor>T.mean(X, null, true), T.fromArray([[[11.5]]]));
+    });
+    it('should return the indices within the reduced elements', () => {
+        let [v, i] = <[Tensor, Tensor]>T.max(X, [0, 2]);
+        checkTensor(v, T.fromArray([15, 19, 23]));
+        checkTensor(i, T.fromArray([7, 7, 7], [], T.INT32));
+        [v, i] = <[Tensor, Tensor]>T.min(X, [1, 2], true);
+        checkTensor(v, T.fromArray([[[0]], [[12]]]));
+        checkTensor(i, T.fromArray([[[0]], [[0]]], [], T.INT32));
+    });
+    it('should compute the variance over the specified axes', () => {
+        checkTensor(<Tensor>T.var(X, [1, 2]), T.fromArray([13, 13]), 1e-14);
+        checkTensor(<Tensor>T.var(X, [1, 2], false, 0), T.fromArray([143 / 12, 143 / 12]), 1e-14);
+    });
+    it('should throw when the axes are invalid', () => {
+        expect(() => T.sum(X, [0, 3])).toThrow();
+        expect(() => T.sum(X, [1, 1])).toThrow();
+        expect(() => T.sum(X, [])).toThrow();
+    });
+});
+
+describe('cumprod()/cummax()/cummin()', () => {
+    it('should compute the cumulative product', () => {
+        checkTensor(T.cumprod([[1, 2], [3, 4]], 0), T.fromArray([[1, 2], [3, 8]]));
+        let z = T.fromArray([1, 2, 1], [1, 0, -1]);
+        checkTensor(T.cumprod(z), T.fromArray([1, 2, 4], [1, 2, 0]));
+    });
+    it('should compute the cumulative extrema ignoring NaNs', () => {
+        checkTensor(T.cummax([1, NaN, 3, 2, 5]), T.fromArray([1, 1, 3, 3, 5]));
+        checkTensor(T.cummin([1, NaN, 3, 0, 5]), T.fromArray([1, 1, 1, 0, 0]));
+        checkTensor(T.cummax([NaN, 2, 1]), T.fromArray([NaN, 2, 2]));
+        checkTensor(T.cummax([[1, 3, 2], [4, 0, 5]], 1), T.fromArray([[1, 3, 3], [4, 4, 5]]));
+    });
+    it('should compare complex numbers by their magnitudes', () => {
+        let z = T.fromArray([1, 0, -1, 3], [0, 2, 0, 0]);
+        checkTensor(T.cummax(z), T.fromArray([1, 0, 0, 3], [0, 2, 2, 0]));
+        checkTensor(T.cummin(z), T.fromArray([1, 1, 1, 1], [0, 0, 0, 0]));
+    });
+});
+
+describe('diff()', () => {
+    it('should compute the differences of a vector', () => {
+        checkTensor(T.diff([1, 4, 9, 16]), T.fromArray([3, 5, 7]));
+        checkTensor(T.diff([1, 4, 9, 16], 2), T.fromArray([2, 2]));
+        checkTensor(T.diff([1, 4, 9, 16], 0), T.fromArray([1, 4, 9, 16]));
+        expect(T.diff([1, 4, 9, 16], 5).shape).toEqual([0]);
+    });
+    it('should compute the differences along the specified axis', () => {
+        let A = T.fromArray([[1, 2, 4], [7, 11, 16]]);
+        checkTensor(T.diff(A, 1, 0), T.fromArray([[6, 9, 12]]));
+        checkTensor(T.diff(A, 1, 1), T.fromArray([[1, 2], [4, 5]]));
+    });
+    it('should compute the differences of a complex vector', () => {
+        checkTensor(T.diff(T.fromArray([1, 3], [1, -1])), T.fromArray([2], [-2]));
+    });
+    it('should throw for an invalid order', () => {
+        expect(() => T.diff([1, 2], -1)).toThrow();
+        expect(() => T.diff([1, 2], 1.5)).toThrow();
+    });
+});
+
+describe('gradient()', () => {
+    it('should compute the gradient with uniform spacing', () => {
+        checkTensor(T.gradient([1, 4, 9, 16, 25]), T.fromArray([3, 4, 6, 8, 9]));
+        checkTensor(T.gradient([1, 4, 9, 16, 25], 2), T.fromArray([1.5, 2, 3, 4, 4.5]));
+        checkTensor(T.gradient([[1, 2], [4, 8]], 1, 0), T.fromArray([[3, 6], [3, 6]]));
+    });
+    it('should compute the gradient with nonuniform coordinates', () => {
+        checkTensor(T.gradient([0, 1, 9], [0, 1, 3]), T.fromArray([1, 2, 4]), 1e-14);
+        expect(() => T.gradient([0, 1, 9], [0, 1])).toThrow();
+        expect(() => T.gradient([1])).toThrow();
+    });
+});
+
+describe('trapz()/cumtrapz()', () => {
+    it('should integrate using the trapezoidal rule', () => {
+        expect(T.trapz([1, 2, 3])).toBe(4);
+        expect(T.trapz([1, 2, 3], [0, 1, 3])).toBe(6.5);
+        checkComplex(<ComplexNumber>T.trapz(T.fromArray([1, 3], [1, 1])), new ComplexNumber(2, 1));
+    });
+    it('should integrate along the specified axis', () => {
+        let A = T.fromArray([[1, 2, 3], [4, 5, 6]]);
+        checkTensor(<Tensor>T.trapz(A, 1, 1), T.fromArray([4, 10]));
+        checkTensor(<Tensor>T.trapz(A, 1, 1, true), T.fromArray([[4], [10]]));
+        checkTensor(<Tensor>T.trapz(A, 1, 0), T.fromArray([2.5, 3.5, 4.5]));
+        expect(T.trapz(A)).toBe(17.5);
+    });
+    it('should compute the cumulative integral', () => {
+        checkTensor(T.cumtrapz([1, 2, 3]), T.fromArray([0, 1.5, 4]));
+        checkTensor(T.cumtrapz([1, 2, 3], 0.5), T.fromArray([0, 0.75, 2]));
+        checkTensor(T.cumtrapz([[1, 2], [3, 4]], 1, 0), T.fromArray([[0, 0], [2, 3]]));
+    });
+});
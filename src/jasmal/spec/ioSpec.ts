@@ -0,0 +1,211 @@
+import { JasmalEngine } from '../index';
+import { Tensor } from '../lib/core/tensor';
+import { DType } from '../lib/core/dtype';
+import { checkTensor } from './testHelper';
+const T = JasmalEngine.createInstance();
+
+function decodeBase64(s: string): Uint8Array {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+    s = s.replace(/=+$/, '');
+    let bytes = new Uint8Array(Math.floor(s.length * 3 / 4));
+    let buffer = 0, nBits = 0, p = 0;
+    for (let i = 0;i < s.length;i++) {
+        buffer = (buffer << 6) | chars.indexOf(s.charAt(i));
+        nBits += 6;
+        if (nBits >= 8) {
+            nBits -= 8;
+            bytes[p++] = (buffer >> nBits) & 0xff;
+        }
+    }
+    return bytes;
+}
+
+/**
+ * Creates a .npy file with the given header and data.
+ */
+function createNpy(header: string, data: number[]): Uint8Array {
+    while ((10 + header.length + 1) % 64 !== 0) {
+        header += ' ';
+    }
+    header += '\n';
+    let bytes = new Uint8Array(10 + header.length + data.length);
+    bytes[0] = 0x93;
+    let magic = 'NUMPY';
+    for (let i = 0;i < 5;i++) {
+        bytes[i + 1] = magic.charCodeAt(i);
+    }
+    bytes[6] = 1;
+    bytes[8] = header.length & 0xff;
+    bytes[9] = header.length >> 8;
+    for (let i = 0;i < header.length;i++) {
+        bytes[10 + i] = header.charCodeAt(i);
+    }
+    bytes.set(data, 10 + header.length);
+    return bytes;
+}
+
+describe('loadNpy()/saveNpy()', () => {
+    it('should load a C-ordered int32 array', () => {
+        let bytes = createNpy("{'descr': '<i4', 'fortran_order': False, 'shape': (2, 3), }",
+            [1, 0, 0, 0, 2, 0, 0, 0, 3, 0, 0, 0, 4, 0, 0, 0, 5, 0, 0, 0, 0xff, 0xff, 0xff, 0xff]);
+        let x = T.loadNpy(bytes);
+        expect(x.dtype).toBe(DType.INT32);
+        checkTensor(x, T.fromArray([[1, 2, 3], [4, 5, -1]], [], T.INT32));
+        checkTensor(T.loadNpy(bytes.buffer), x);
+    });
+    it('should load a Fortran-ordered big-endian array', () => {
+        let bytes = createNpy("{'descr': '>i2', 'fortran_order': True, 'shape': (2, 3), }",
+            [0, 1, 0, 4, 0, 2, 0, 5, 0, 3, 0, 6]);
+        checkTensor(T.loadNpy(bytes), T.fromArray([[1, 2, 3], [4, 5, 6]], [], T.INT16));
+    });
+    it('should load int64 and 0-d arrays as float64', () => {
+        let bytes = createNpy("{'descr': '<i8', 'fortran_order': False, 'shape': (2,), }",
+            [7, 0, 0, 0, 0, 0, 0, 0, 0xfe, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+        checkTensor(T.loadNpy(bytes), T.fromArray([7, -2]));
+        bytes = createNpy("{'descr': '<f8', 'fortran_order': False, 'shape': (), }",
+            [0, 0, 0, 0, 0, 0, 0xf8, 0x3f]);
+        checkTensor(T.loadNpy(bytes), T.fromArray([1.5]));
+    });
+    it('should save in the NumPy format', () => {
+        let bytes = T.saveNpy(T.fromArray([1, 2, 3], [], T.INT16));
+        let expected = createNpy("{'descr': '<i2', 'fortran_order': False, 'shape': (3,), }",
+            [1, 0, 2, 0, 3, 0]);
+        expect(Array.prototype.slice.call(bytes)).toEqual(Array.prototype.slice.call(expected));
+    });
+    it('should preserve the data types after a round trip', () => {
+        let dtypes = [DType.LOGIC, DType.INT8, DType.UINT8, DType.INT16, DType.UINT16,
+                      DType.INT32, DType.UINT32, DType.FLOAT32, DType.FLOAT64];
+        for (let dtype of dtypes) {
+            let x = T.fromArray([[1, 0], [1, 1], [0, 1]], [], dtype);
+            let y = T.loadNpy(T.saveNpy(x));
+            expect(y.dtype).toBe(dtype);
+            checkTensor(y, x);
+        }
+        let z = T.complex(T.reshape(T.linspace(-1, 1, 24), [2, 3, 4]), T.ones([2, 3, 4]));
+        checkTensor(T.loadNpy(T.saveNpy(z)), z);
+        let zf = z.asType(T.FLOAT32);
+        let y = T.loadNpy(T.saveNpy(zf));
+        expect(y.dtype).toBe(DType.FLOAT32);
+        checkTensor(y, zf);
+    });
+    it('should throw for invalid files', () => {
+        expect(() => T.loadNpy(new Uint8Array(20))).toThrow();
+        let bytes = createNpy("{'descr': '<f2', 'fortran_order': False, 'shape': (1,), }", [0, 0]);
+        expect(() => T.loadNpy(bytes)).toThrow();
+    });
+});
+
+describe('loadNpz()/saveNpz()', () => {
+    it('should load a compressed archive created by Python', () => {
+        // x = reshape(1:60, [3, 4, 5]) (float64), y = [true, false, true]
+        // compressed with force_zip64=True as in np.savez_compressed()
+        let npz = T.loadNpz(decodeBase64(
+            'UEsDBC0AAAAIAAAAIQAq7x9///////////8FABQAeC5ucHkBABAAYAIAAAAAAADHAAAAAAAAAJ3IuU4CUQCF4WNnqCgo' +
+            'LChujPGCuSEgoKwyrC4ssbGwMhMYQmGAzBgaQ8I78KI+AuD8T8BpvvxnP/kYv39eaKNfOwuiaWhrxjbmFeuMna/Cn9Bf' +
+            'fq3CWXD6B/53FBz/aOGvg2Nnis6UnClnndma85bQ//5asfJiLjGJKbzCNBq8xhu8xQzeocMc5rGA91jEEpbxAR+xglWs' +
+            'YR0b2MQnbKEXu0O1aVSHRnVpVI9G9WnUgEY906gXGvVKo95o1JBGjWjUmEZNvANQSwMELQAAAAgAAAAhABaTjLv/////' +
+            '/////wUAFAB5Lm5weQEAEACDAAAAAAAAAEcAAAAAAAAAm+wX6hsQychQxlCtnpJanFykbqWgXpNkqK6joJ6WX1RSlJgX' +
+            'n1+UkgoSd0vMKU4FihdnJBakAvkaxjqaOgq1ChQALkYGRgBQSwECLQMtAAAACAAAACEAKu8ff8cAAABgAgAABQAAAAAA' +
+            'AAAAAAAAgAEAAAAAeC5ucHlQSwECLQMtAAAACAAAACEAFpOMu0cAAACDAAAABQAAAAAAAAAAAAAAgAH+AAAAeS5ucHlQ' +
+            'SwUGAAAAAAIAAgBmAAAAfAEAAAAA'));
+        expect(Object.keys(npz).sort()).toEqual(['x', 'y']);
+        checkTensor(npz['x'], <Tensor>T.reshape(T.linspace(1, 60, 60), [3, 4, 5]));
+        checkTensor(npz['y'], T.fromArray([1, 0, 1], [], T.LOGIC));
+    });
+    it('should restore the arrays after a round trip', () => {
+        let a = T.rand([4, 5]);
+        let b = T.complex(T.fromArray([1, 2]), T.fromArray([3, 4]));
+        let npz = T.loadNpz(T.saveNpz({ a: a, b: b, c: [[1, 2]] }));
+        checkTensor(npz['a'], a);
+        checkTensor(npz['b'], b);
+        checkTensor(npz['c'], T.fromArray([[1, 2]]));
+    });
+    it('should detect corrupted archives', () => {
+        let bytes = T.saveNpz({ a: [1, 2, 3] });
+        bytes[100] ^= 0xff;
+        expect(() => T.loadNpz(bytes)).toThrow();
+    });
+});
+
+describe('loadMat()/saveMat()', () => {
+    it('should load compressed variables', () => {
+        // z = [1-1i 2 3+1i; 4 5 6+2i] stored in a miCOMPRESSED element
+        let header = T.saveMat({});
+        let body = decodeBase64(
+            'DwAAAE4AAAB42uNjYGBYwMDAwMbAwMABokEEAwMDK5TPxMDAwMzAwMAIxVUQaQZOBgYGAwYY+GAPoQUcoAJQWgRKc0BpCQc0' +
+            'ffsZ8AKYuQwOABzzB5w=');
+        let bytes = new Uint8Array(header.length + body.length);
+        bytes.set(header, 0);
+        bytes.set(body, header.length);
+        let vars = T.loadMat(bytes);
+        checkTensor(vars['z'], T.complex(T.fromArray([[1, 2, 3], [4, 5, 6]]), T.fromArray([[-1, 0, 1], [0, 0, 2]])));
+    });
+    it('should restore the variables after a round trip', () => {
+        let x = T.reshape(T.linspace(0, 1, 24), [2, 3, 4]);
+        let vars = T.loadMat(T.saveMat({
+            x: x,
+            c: T.complex(T.fromArray([[1, 2], [3, 4]]), T.fromArray([[0, -1], [1, 0]])),
+            b: T.fromArray([[1, 0, 1]], [], T.LOGIC),
+            i: T.fromArray([-3, 4], [], T.INT16),
+            v: [1, 2, 3]
+        }));
+        checkTensor(vars['x'], x);
+        checkTensor(vars['c'], T.complex(T.fromArray([[1, 2], [3, 4]]), T.fromArray([[0, -1], [1, 0]])));
+        checkTensor(vars['b'], T.fromArray([[1, 0, 1]], [], T.LOGIC));
+        checkTensor(vars['i'], T.fromArray([[-3, 4]], [], T.INT16));
+        // 1D tensors are saved as row vectors
+        checkTensor(vars['v'], T.fromArray([[1, 2, 3]]));
+    });
+    it('should write a valid header', () => {
+        let bytes = T.saveMat({ a: 1 });
+        let text = String.fromCharCode.apply(null, Array.prototype.slice.call(bytes.subarray(0, 10)));
+        expect(text).toBe('MATLAB 5.0');
+        expect(bytes[124]).toBe(0);
+        expect(bytes[125]).toBe(1);
+        expect(String.fromCharCode(bytes[126], bytes[127])).toBe('IM');
+        expect(bytes.length % 8).toBe(0);
+    });
+    it('should throw for invalid variable names', () => {
+        expect(() => T.saveMat({ '1a': 1 })).toThrow();
+        expect(() => T.saveMat({ 'a-b': 1 })).toThrow();
+    });
+});
+
+describe('loadCSV()/saveCSV()', () => {
+    it('should parse CSV with headers, quotes and NaN tokens', () => {
+        let text = 'x,"y, z"\n1, 2.5\n-3,NA\n\n"4",inf\n';
+        let content = T.loadCSV(text, { header: true });
+        expect(content.header).toEqual(['x', 'y, z']);
+        checkTensor(content.data, T.fromArray([[1, 2.5], [-3, NaN], [4, Infinity]]));
+    });
+    it('should parse TSV from bytes', () => {
+        let text = '1\t2\r\n3\t4\r\n';
+        let bytes = new Uint8Array(text.length);
+        for (let i = 0;i < text.length;i++) {
+            bytes[i] = text.charCodeAt(i);
+        }
+        let content = T.loadCSV(bytes, { delimiter: '\t' });
+        expect(content.header).toEqual([]);
+        checkTensor(content.data, T.fromArray([[1, 2], [3, 4]]));
+    });
+    it('should use custom NaN tokens', () => {
+        let content = T.loadCSV('1;-\n-;2', { delimiter: ';', nanTokens: ['-'] });
+        checkTensor(content.data, T.fromArray([[1, NaN], [NaN, 2]]));
+    });
+    it('should throw for malformed input', () => {
+        expect(() => T.loadCSV('1,2\n3')).toThrow();
+        expect(() => T.loadCSV('1,abc')).toThrow();
+        expect(() => T.loadCSV('1,"2')).toThrow();
+    });
+    it('should save vectors and matrices', () => {
+        expect(T.saveCSV([1, 2])).toBe('1\n2\n');
+        expect(T.saveCSV([[1 / 3, NaN], [-Infinity, 2]], { precision: 3, header: ['a', 'b'] }))
+            .toBe('a,b\n0.333,NaN\n-Inf,2\n');
+        expect(T.saveCSV([[1, NaN]], { delimiter: '\t', nanToken: '' })).toBe('1\t\n');
+        expect(() => T.saveCSV(T.zeros([2, 2, 2]))).toThrow();
+    });
+    it('should restore the data after a round trip', () => {
+        let x = T.rand([5, 3]);
+        checkTensor(T.loadCSV(T.saveCSV(x)).data, x);
+    });
+});
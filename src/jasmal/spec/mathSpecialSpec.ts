@@ -1,5 +1,6 @@
 import { JasmalEngine } from '../index';
-import { checkTensor } from './testHelper';
+import { checkTensor, checkNumber, checkComplex } from './testHelper';
+import { Tensor } from '../lib/core/tensor';
 const T = JasmalEngine.createInstance();
 
 describe('factorial()', () => {
@@ -202,3 +203,192 @@ describe('factor()', () => {
         checkTensor(T.factor(998877665544), T.fromArray([2, 2, 2, 3, 11, 569, 6649609]));
     });
 });
+
+describe('gamma() and gammaln() with complex inputs', () => {
+    it('should compute the complex gamma function', () => {
+        checkComplex(T.gamma(T.complexNumber(0, 1)),
+            T.complexNumber(-0.15494982830181069, -0.49801566811835604), 3, false);
+    });
+    it('should compute the principal branch of log(gamma(z))', () => {
+        checkComplex(T.gammaln(T.complexNumber(-2.5, 3)),
+            T.complexNumber(-7.478236042050315, -5.7261042719103868), 2, false);
+    });
+});
+
+describe('erfinv()', () => {
+    it('should compute the inverse error function', () => {
+        let actual = T.erfinv([0.5, -0.9, 0.999, 0, 1, -1]);
+        let expected = T.fromArray([
+            0.47693627620446987, -1.1630871536766742, 2.3267537655135245,
+            0, Infinity, -Infinity
+        ]);
+        checkTensor(actual, expected, 3, false);
+    });
+    it('should be the inverse of erf()', () => {
+        let x = T.linspace(-0.99, 0.99, 21);
+        checkTensor(T.erf(T.erfinv(x)), x, 1e-15);
+    });
+    it('should return NaN for inputs outside [-1, 1]', () => {
+        expect(T.erfinv(1.5)).toBeNaN();
+    });
+});
+
+describe('erfcinv()', () => {
+    it('should be the inverse of erfc()', () => {
+        let x = T.fromArray([1e-300, 1e-20, 1e-5, 0.3, 1, 1.7, 2 - 1e-10]);
+        let actual = T.erfc(T.erfcinv(x));
+        checkTensor(actual, x, 2, false);
+    });
+});
+
+describe('gammainc()', () => {
+    it('should compute the lower regularized incomplete gamma function', () => {
+        let actual = T.gammainc([1, 2, 10], [1, 3, 5.5]);
+        let expected = T.fromArray([0.63212055882855768, 0.32332358381693654, 0.95465932556593961]);
+        checkTensor(actual, expected, 2, false);
+    });
+    it('should compute the upper regularized incomplete gamma function', () => {
+        let actual = T.gammainc([1, 2, 10], [1, 3, 5.5], 'upper');
+        let expected = T.fromArray([0.36787944117144232, 0.67667641618306346, 0.045340674434060389]);
+        checkTensor(actual, expected, 2, false);
+    });
+    it('should throw for negative inputs or invalid tail options', () => {
+        expect(() => T.gammainc(-1, 2)).toThrow();
+        expect(() => T.gammainc(1, 2, <any>'both')).toThrow();
+    });
+});
+
+describe('gammaincinv()', () => {
+    it('should be the inverse of gammainc()', () => {
+        let a = T.fromArray([[0.1], [1], [4.5], [100]]);
+        let y = T.fromArray([1e-10, 0.2, 0.5, 0.9]);
+        checkTensor(T.gammainc(T.gammaincinv(y, a), a), T.tile(y, [4, 1]), 1e-12);
+        checkTensor(T.gammainc(T.gammaincinv(y, a, 'upper'), a, 'upper'), T.tile(y, [4, 1]), 1e-12);
+    });
+});
+
+describe('beta() and betaln()', () => {
+    it('should compute the beta function', () => {
+        let actual = T.beta([2, 0.5, 10], [3, 0.5, 1.5]);
+        let expected = T.fromArray([1 / 12, Math.PI, 0.027026018357287707]);
+        checkTensor(actual, expected, 3, false);
+    });
+    it('should compute the logarithm of the beta function', () => {
+        let actual = T.betaln([100, 0.5], [200, 30]);
+        let expected = T.fromArray([-192.13419227497895, -1.1240672740766992]);
+        checkTensor(actual, expected, 3, false);
+    });
+});
+
+describe('betainc()', () => {
+    it('should compute the regularized incomplete beta function', () => {
+        let actual = T.betainc([0.3, 0.7, 0.2], [2, 0.5, 10], [3, 0.5, 1.5]);
+        let expected = T.fromArray([0.3483, 0.63098988043445459, 3.4270527435093671e-7]);
+        checkTensor(actual, expected, 2, false);
+    });
+    it('should broadcast the inputs', () => {
+        let a = T.fromArray([[1], [2.5], [7]]);
+        let actual = T.betainc(0.5, a, a);
+        checkTensor(actual, T.fromArray([[0.5], [0.5], [0.5]]), 1e-14);
+        let x = T.fromArray([0.1, 0.5, 0.9]);
+        actual = T.betainc(x, a, 1);
+        checkTensor(actual, <Tensor>T.pow(x, a), 1e-14);
+        actual = T.betainc(x, a, 1, 'upper');
+        checkTensor(actual, <Tensor>T.sub(1, T.pow(x, a)), 1e-14);
+    });
+    it('should throw for invalid inputs', () => {
+        expect(() => T.betainc(1.5, 1, 1)).toThrow();
+        expect(() => T.betainc(0.5, -1, 1)).toThrow();
+    });
+});
+
+describe('betaincinv()', () => {
+    it('should be the inverse of betainc()', () => {
+        let a = T.fromArray([[0.2], [1], [3.5], [50]]);
+        let y = T.fromArray([1e-8, 0.3, 0.5, 0.95]);
+        checkTensor(T.betainc(T.betaincinv(y, a, 2), a, 2), T.tile(y, [4, 1]), 1e-12);
+        let b = T.fromArray([[1], [3.5], [50]]);
+        checkTensor(T.betainc(T.betaincinv(y, 0.7, b, 'upper'), 0.7, b, 'upper'), T.tile(y, [3, 1]), 1e-12);
+    });
+});
+
+describe('psi()', () => {
+    it('should compute the digamma function', () => {
+        let actual = T.psi([1, 0.5, 10, -0.5]);
+        let expected = T.fromArray([
+            -0.57721566490153286, -1.9635100260214235, 2.2517525890667211, 0.036489973978576521
+        ]);
+        checkTensor(actual, expected, 3, false);
+        expect(T.digamma(0)).toBe(-Infinity);
+        expect(T.digamma(-2)).toBeNaN();
+    });
+});
+
+describe('zeta()', () => {
+    it('should compute the Riemann zeta function', () => {
+        let actual = T.zeta([2, 3, 0.5, -1]);
+        let expected = T.fromArray([
+            1.6449340668482264, 1.2020569031595943, -1.4603545088095868, -1 / 12
+        ]);
+        checkTensor(actual, expected, 3, false);
+        expect(T.zeta(1)).toBe(Infinity);
+        expect(T.zeta(-2)).toBe(0);
+    });
+});
+
+describe('expint()', () => {
+    it('should compute the exponential integral for nonnegative inputs', () => {
+        let actual = T.expint([0.1, 1, 10]);
+        let expected = T.fromArray([1.8229239584193906, 0.21938393439552027, 4.1569689296853243e-6]);
+        checkTensor(actual, expected, 3, false);
+        expect(T.expint(0)).toBe(Infinity);
+    });
+    it('should produce complex outputs for negative inputs', () => {
+        checkComplex(T.expint(-1), T.complexNumber(-1.8951178163559368, -Math.PI), 3, false);
+    });
+});
+
+describe('airy()', () => {
+    it('should compute the Airy functions and their derivatives', () => {
+        let x = [0, 1, -2.5];
+        checkTensor(T.airy(x), T.fromArray([0.35502805388781724, 0.13529241631288142, -0.11232506769296609]), 2, false);
+        checkTensor(T.airy(x, 1), T.fromArray([-0.2588194037928068, -0.15914744129679321, 0.67885273426479436]), 2, false);
+        checkTensor(T.airy(x, 2), T.fromArray([0.61492662744600074, 1.2074235949528713, -0.43242247184070529]), 2, false);
+        checkTensor(T.airy(x, 3), T.fromArray([0.44828835735382636, 0.93243593339277563, -0.22042015487462959]), 2, false);
+    });
+    it('should accept complex inputs', () => {
+        checkComplex(T.airy(T.complexNumber(1, 1)), T.complexNumber(0.060458308371838149, -0.1518895658771814), 2, false);
+    });
+    it('should throw for invalid k', () => {
+        expect(() => T.airy(1, 4)).toThrow();
+    });
+});
+
+describe('Bessel functions', () => {
+    const nu = [0, 1, 2.5];
+    const z = [1, 2.5, 10];
+    it('should compute besselj()', () => {
+        let expected = T.fromArray([0.76519768655796655, 0.49709410246427404, 0.19665848358181841]);
+        checkTensor(T.besselj(nu, z), expected, 2, false);
+    });
+    it('should compute bessely()', () => {
+        let expected = T.fromArray([0.088256964215676958, 0.1459181379667858, -0.16417847961494106]);
+        checkTensor(T.bessely(nu, z), expected, 2, false);
+    });
+    it('should compute besseli()', () => {
+        let expected = T.fromArray([1.2660658777520083, 2.5167162452886984, 2028.5127573919357]);
+        checkTensor(T.besseli(nu, z), expected, 2, false);
+    });
+    it('should compute besselk()', () => {
+        let expected = T.fromArray([0.42102443824070833, 0.073890816347747064, 2.3931325864627889e-5]);
+        checkTensor(T.besselk(nu, z), expected, 2, false);
+    });
+    it('should handle negative and complex arguments', () => {
+        checkNumber(T.besselj(0, -2), 0.22389077914123567, 3, false);
+        checkComplex(T.bessely(0, -2), T.complexNumber(0.51037567264974512, 0.44778155828247134), 2, false);
+        checkComplex(T.besselj(1, T.complexNumber(1, 2)), T.complexNumber(1.2918475192394564, 1.0104883650794736), 2, false);
+    });
+    it('should throw for complex orders', () => {
+        expect(() => T.besselj(<any>T.complexNumber(1, 1), 1)).toThrow();
+    });
+});
@@ -2,6 +2,7 @@ import { JasmalEngine } from '../index';
 import { checkTensor, checkNumber, checkComplex } from './testHelper';
 import { EPSILON } from '../lib/constant';
 import { Tensor } from '../lib/core/tensor';
+import { EinsumFunction } from '../lib/ops/matrix/einsum';
 const T = JasmalEngine.createInstance();
 
 
@@ -579,7 +580,29 @@ describe('matmul()', () => {
         checkTensor(T.matmul(I, I, T.MM_TRANSPOSED), I);
         checkTensor(T.matmul(I, I, T.MM_HERMITIAN), I);
     });
-    
+    it('should perform batched matrix multiplication with broadcasting', () => {
+        let X = T.reshape(T.linspace(-3, 20, 24), [2, 3, 4]);
+        let Y = T.reshape(T.linspace(1, 12, 12), [4, 3]);
+        let Z = T.matmul(X, Y);
+        expect(Z.shape).toEqual([2, 3, 3]);
+        for (let k = 0;k < 2;k++) {
+            checkTensor(<Tensor>Z.get(k, ':', ':'), T.matmul(X.get(k, ':', ':'), Y), 1e-12);
+        }
+        let W = T.matmul(T.ones([3, 1, 2, 2]), T.reshape(T.linspace(1, 16, 16), [4, 2, 2]), T.MM_TRANSPOSED);
+        expect(W.shape).toEqual([3, 4, 2, 2]);
+        checkTensor(<Tensor>W.get(2, 1, ':', ':'), T.fromArray([[11, 15], [11, 15]]), 1e-12);
+    });
+    it('should perform batched complex matrix multiplication', () => {
+        let X = T.complex(T.reshape(T.linspace(-3, 20, 24), [2, 3, 4]), T.reshape(T.linspace(1, 2, 24), [2, 3, 4]));
+        let Y = T.reshape(T.linspace(1, 24, 24), [2, 3, 4]);
+        let Z = T.matmul(X, Y, T.MM_HERMITIAN);
+        for (let k = 0;k < 2;k++) {
+            checkTensor(<Tensor>Z.get(k, ':', ':'), T.matmul(X.get(k, ':', ':'), Y.get(k, ':', ':'), T.MM_HERMITIAN), 1e-12);
+        }
+    });
+    it('should throw if the batch dimensions cannot be broadcast', () => {
+        expect(() => T.matmul(T.ones([2, 3, 3]), T.ones([3, 3, 3]))).toThrow();
+    });
 
 });
 
@@ -603,6 +626,79 @@ describe('kron()', () => {
     });
 });
 
+describe('einsum()', () => {
+    it('should compute matrix products', () => {
+        let A = T.fromArray([[1, 2, 3], [4, 5, 6]]);
+        let B = T.fromArray([[1, -1], [0, 2], [3, 1]]);
+        checkTensor(T.einsum('ij,jk->ik', A, B), T.matmul(A, B));
+        checkTensor(T.einsum('ij,jk', A, B), T.matmul(A, B));
+        checkTensor(T.einsum('ij,kj->ik', A, T.transpose(B)), T.matmul(A, B));
+        checkTensor(T.einsum('ij,jk->ki', A, B), T.transpose(T.matmul(A, B)));
+    });
+    it('should compute batched matrix products', () => {
+        let X = T.reshape(T.linspace(1, 24, 24), [2, 3, 4]);
+        let Y = T.reshape(T.linspace(-5, 18, 24), [2, 4, 3]);
+        let Z = T.einsum('bij,bjk->bik', X, Y);
+        expect(Z.shape).toEqual([2, 3, 3]);
+        for (let b = 0;b < 2;b++) {
+            checkTensor(<Tensor>Z.get(b, ':', ':'), T.matmul(X.get(b, ':', ':'), Y.get(b, ':', ':')), 1e-12);
+        }
+    });
+    it('should extract diagonals and compute traces', () => {
+        let A = T.fromArray([[1, 2, 3], [4, 5, 6], [7, 8, 9]]);
+        checkTensor(T.einsum('ii->i', A), T.fromArray([1, 5, 9]));
+        checkTensor(T.einsum('ii', A), T.fromArray([15]));
+        checkTensor(T.einsum('ij->', A), T.fromArray([45]));
+        checkTensor(T.einsum('ij->j', A), T.fromArray([12, 15, 18]));
+    });
+    it('should compute inner, outer and element-wise products', () => {
+        checkTensor(T.einsum('i,i', [1, 2, 3], [4, 5, 6]), T.fromArray([32]));
+        checkTensor(T.einsum('i,j', [1, 2], [3, 4, 5]), T.fromArray([[3, 4, 5], [6, 8, 10]]));
+        checkTensor(T.einsum('ij,ij->ij', [[1, 2], [3, 4]], [[5, 6], [7, 8]]), T.fromArray([[5, 12], [21, 32]]));
+    });
+    it('should support complex operands', () => {
+        let A = T.complex(T.fromArray([[1, 2], [3, 4]]), T.fromArray([[0, 1], [-1, 2]]));
+        let B = T.complex(T.fromArray([[2, 0], [1, 1]]), T.fromArray([[1, 1], [0, -1]]));
+        checkTensor(T.einsum('ij,jk->ik', A, B), T.matmul(A, B), 1e-14);
+        checkTensor(T.einsum('ij,jk->ik', A, T.real(B)), T.matmul(A, T.real(B)), 1e-14);
+        checkTensor(T.einsum('ij,jk->ik', T.real(A), B), T.matmul(T.real(A), B), 1e-14);
+        checkTensor(T.einsum('ii', A), T.complex(T.fromArray([5]), T.fromArray([2])));
+    });
+    it('should evaluate chains of contractions', () => {
+        let A = T.reshape(T.linspace(0, 1, 12), [3, 4]);
+        let B = T.reshape(T.linspace(-1, 1, 20), [4, 5]);
+        let C = T.reshape(T.linspace(2, 3, 10), [5, 2]);
+        checkTensor(T.einsum('ij,jk,kl->il', A, B, C), T.matmul(T.matmul(A, B), C), 1e-12);
+        checkTensor(T.einsum('ij,jk,kl->', A, B, C), T.fromArray([<number>T.sum(T.matmul(T.matmul(A, B), C))]), 1e-12);
+    });
+    it('should optimize the contraction order', () => {
+        let sizes = { 105: 100, 106: 2, 107: 100, 108: 2 };
+        // (ij, jk) first costs 20000 multiplications while (jk, kl) first
+        // costs 400
+        expect(EinsumFunction.optimizeOrder([[105, 106], [106, 107], [107, 108]], [105, 108], sizes))
+            .toEqual([[1, 2], [0, 1]]);
+    });
+    it('should broadcast the dimensions covered by the ellipsis', () => {
+        let Z = T.einsum('...ij,...jk->...ik', T.ones([2, 1, 2, 3]), T.ones([5, 3, 2]));
+        checkTensor(Z, <Tensor>T.mul(T.ones([2, 5, 2, 2]), 3));
+        checkTensor(T.einsum('...ii->...i', T.reshape(T.linspace(1, 8, 8), [2, 2, 2])),
+                    T.fromArray([[1, 4], [5, 8]]));
+    });
+    it('should preserve integer data types', () => {
+        let Y = T.einsum('ij->j', T.fromArray([[1, 2], [3, 4]], [], T.INT32));
+        expect(Y.dtype).toBe(T.INT32);
+        checkTensor(Y, T.fromArray([4, 6], [], T.INT32));
+    });
+    it('should throw for invalid subscripts', () => {
+        expect(() => T.einsum('ij,jk->ik', [[1, 2]], [[1, 2]])).toThrow();
+        expect(() => T.einsum('ij->ii', [[1]])).toThrow();
+        expect(() => T.einsum('ij->k', [[1]])).toThrow();
+        expect(() => T.einsum('i', [[1]])).toThrow();
+        expect(() => T.einsum('i-j', [1])).toThrow();
+        expect(() => T.einsum('ij', [[1]], [[1]])).toThrow();
+    });
+});
+
 describe('transpose()', () => {
     it('should return the transpose of a real matrix', () => {
         let A = T.fromArray([[1, 2, 3], [4, 5, 6]]);
@@ -68,12 +68,13 @@ function validateEVD(A: Tensor, E: Tensor, V: Tensor, hermitian: boolean, eps: n
 }
 
 function validateQR(A: Tensor, Q: Tensor, R: Tensor, P: Tensor, eps: number = 1e-12): void {
-    let [m, ] = A.shape;
+    // Q can be m x m or m x min(m, n) (economy size)
+    let m = Q.shape[1];
     // Since A may contain large elements, we scale the tolerance factor
     // according to A.
     let tolA = eps * Math.max(maxAbs(A.realData), A.hasComplexStorage() ? maxAbs(A.imagData) : 0);
     // Q^H Q = I
-    let I = <Tensor>T.matmul(Q, Q, T.MM_HERMITIAN);
+    let I = <Tensor>T.matmul(T.hermitian(Q), Q);
     if (I.hasComplexStorage()) {
         checkTensor(I, T.eye(m).ensureComplexStorage(), eps);
     } else {
@@ -147,6 +148,24 @@ describe('inv()', () => {
         checkTensor(actual, expected, 1e-12);
         checkTensor(A, ACopy); // should not change anything
     });
+    it('should compute the inverse of each matrix in a batch', () => {
+        let A = T.fromArray([[[1, 2], [3, 4]], [[2, 0], [0, 4]], [[0, 1], [1, 0]]]);
+        let actual = T.inv(A);
+        expect(actual.shape).toEqual([3, 2, 2]);
+        checkTensor(actual, T.fromArray([[[-2, 1], [1.5, -0.5]], [[0.5, 0], [0, 0.25]], [[0, 1], [1, 0]]]), 1e-14);
+        // the matrices in B are nearly singular so the warnings are captured
+        let warnings: string[] = [];
+        let U = JasmalEngine.createInstance({
+            linalg: { onWarning: (message: string) => { warnings.push(message); } }
+        });
+        let B = T.complex(T.reshape(T.linspace(1, 18, 18), [2, 1, 3, 3]), T.reshape(T.linspace(-1, 1, 18), [2, 1, 3, 3]));
+        let Binv = U.inv(B);
+        for (let k = 0;k < 2;k++) {
+            checkTensor(<Tensor>Binv.get(k, 0, ':', ':'), U.inv(B.get(k, 0, ':', ':')), 1e-12);
+        }
+        expect(warnings.length).toBe(3);
+        warnings.forEach(message => expect(message).toMatch(/^Matrix is close to singular or badly scaled\./));
+    });
 });
 
 describe('det()', () => {
@@ -185,6 +204,14 @@ describe('det()', () => {
         );
         checkNumber(T.det(A), 4, 1e-16);
     });
+    it('should return the determinants of a batch of matrices', () => {
+        let A = T.fromArray([[[[1, 2], [3, 4]], [[2, 0], [0, 4]]], [[[0, 1], [1, 0]], [[1, 1], [1, 1]]]]);
+        let actual = <Tensor>T.det(A);
+        expect(actual.shape).toEqual([2, 2]);
+        checkTensor(actual, T.fromArray([[-2, 8], [-1, 0]]), 1e-14);
+        let B = T.complex(T.fromArray([[[1, 0], [0, 1]], [[2, 0], [0, 1]]]), T.fromArray([[[1, 0], [0, 0]], [[0, 0], [0, 1]]]));
+        checkTensor(<Tensor>T.det(B), T.complex(T.fromArray([1, 2]), T.fromArray([1, 2])), 1e-14);
+    });
 });
 
 
@@ -323,6 +350,11 @@ describe('eig()', () => {
         let v = T.eig(A, true);
         checkTensor(v, T.diag(V), 14, false);
     })
+    it('should not modify a real symmetric input when computing eigenvalues only', () => {
+        let A = T.fromArray([[4, -1, 0], [-1, 4, -1], [0, -1, 4]]);
+        T.eig(A, true);
+        checkTensor(A, T.fromArray([[4, -1, 0], [-1, 4, -1], [0, -1, 4]]), 0);
+    });
     it('should perform eigendecomposition for a real diagonal matrix', () => {
         let A = T.diag([100, 1, 50, -2, -10000]);
         let [E, V] = T.eig(A);
@@ -470,6 +502,77 @@ describe('eig()', () => {
     }
 });
 
+function validateGEVD(A: Tensor, B: Tensor, E: Tensor, V: Tensor, eps: number = 1e-12): void {
+    // A * E = B * E * V
+    let tol = eps * Math.max(maxAbs(A.realData), A.hasComplexStorage() ? maxAbs(A.imagData) : 0,
+        maxAbs(B.realData), B.hasComplexStorage() ? maxAbs(B.imagData) : 0);
+    let Q = <Tensor>T.sub(T.matmul(A, E), T.matmul(T.matmul(B, E), V));
+    let Z = T.zeros(Q.shape);
+    if (Q.hasComplexStorage()) {
+        Z.ensureComplexStorage();
+    }
+    checkTensor(Q, Z, tol);
+}
+
+describe('eig() for generalized eigenvalue problems', () => {
+    let shapes = [[1, 1], [5, 5], [10, 10], [20, 20]];
+    it('should match eig(a) when b is the identity matrix', () => {
+        let A = T.fromArray([[1, 2, 3], [4, 5, 6], [7, 8, 10]]);
+        let v = T.sort(T.eig(A, T.eye(3), true), 'asc', false);
+        checkTensor(v, T.sort(T.eig(A, true), 'asc', false), 12, false);
+    });
+    it('should solve a real nonsymmetric problem with complex eigenvalues', () => {
+        let A = T.fromArray([[0, 1], [-1, 0]]);
+        let B = T.fromArray([[2, 0], [0, 2]]);
+        let [E, V] = T.eig(A, B);
+        validateGEVD(A, B, E, V);
+        checkTensor(T.sort(T.diag(V), 'asc', false), T.fromArray([0, 0], [-0.5, 0.5]), 14, false);
+    });
+    it('should return infinite eigenvalues for a singular b', () => {
+        let A = T.fromArray([[1, 2], [3, 4]]);
+        let B = T.fromArray([[1, 0], [0, 0]]);
+        let v = T.sort(T.eig(A, B, true), 'asc', false);
+        checkTensor(v, T.fromArray([-0.5, Infinity]), 14, false);
+    });
+    it('should use the Cholesky decomposition for a symmetric-definite pencil', () => {
+        let A = T.fromArray([[1, 2, 0], [2, -3, 1], [0, 1, 5]]);
+        let B = T.fromArray([[4, 1, 0], [1, 3, 1], [0, 1, 2]]);
+        let [E, V] = T.eig(A, B);
+        expect(V.hasComplexStorage()).toBe(false);
+        validateGEVD(A, B, E, V);
+        // E^H B E = I
+        checkTensor(<Tensor>T.matmul(T.matmul(T.hermitian(E), B), E), T.eye(3), 1e-12);
+        let v = T.eig(A, B, true);
+        checkTensor(v, T.diag(V), 14, false);
+    });
+    for (let i = 0;i < shapes.length;i++) {
+        it(`should solve a ${shapes[i][0]} x ${shapes[i][0]} real symmetric-definite problem`, () => {
+            let A = T.rand(shapes[i]);
+            T.add(A, T.transpose(A), true);
+            let B = <Tensor>T.matmul(T.rand(shapes[i]), T.rand(shapes[i]), T.MM_TRANSPOSED);
+            T.add(B, T.eye(shapes[i][0]), true);
+            let [E, V] = T.eig(A, B);
+            validateGEVD(A, B, E, V, 1e-10);
+        });
+        it(`should solve a ${shapes[i][0]} x ${shapes[i][0]} general real problem`, () => {
+            let A = T.rand(shapes[i]);
+            let B = T.rand(shapes[i]);
+            let [E, V] = T.eig(A, B);
+            validateGEVD(A, B, E, V, 1e-10);
+            let v = T.eig(A, B, true);
+            checkTensor(v, T.diag(V), 10, false);
+        });
+        it(`should solve a ${shapes[i][0]} x ${shapes[i][0]} general complex problem`, () => {
+            let A = T.complex(T.rand(shapes[i]), T.rand(shapes[i]));
+            let B = T.complex(T.rand(shapes[i]), T.rand(shapes[i]));
+            let [E, V] = T.eig(A, B);
+            validateGEVD(A, B, E, V, 1e-10);
+            // unit 2-norm eigenvectors
+            checkTensor(T.sqrt(T.sum(T.square(T.abs(E)), 0)), T.ones([shapes[i][0]]), 1e-12);
+        });
+    }
+});
+
 describe('chol()', () => {
     it('should perform Cholesky decomposition for a simple real symmetric matrix', () => {
         let A = T.fromArray([[3, 1, 1], [1, 2, 1], [1, 1, 3]]);
@@ -559,6 +662,35 @@ describe('linsolve()', () => {
             checkTensor(lhs, rhs, 1e-13 * Math.max(shapes[i][0], shapes[i][1]));
         });
     }
+    it('should apply the row permutation for a single right-hand side', () => {
+        // pivoting is required for both systems
+        checkTensor(T.linsolve([[2, 1], [4, 3]], [3, 7]), T.fromArray([1, 1]), 1e-14);
+        let A = T.complex(T.fromArray([[1, 2], [3, 4]]), T.fromArray([[0, 1], [1, 0]]));
+        let b = T.complex(T.fromArray([[3], [7]]), T.fromArray([[1], [1]]));
+        checkTensor(T.linsolve(A, b), T.complex(T.fromArray([[1], [1]]), T.zeros([2, 1])), 1e-14);
+    });
+    it('should solve a batch of linear systems with broadcasting', () => {
+        let A = T.fromArray([[[2, 1], [1, 3]], [[4, 0], [1, 1]]]);
+        // a vector shared by all systems
+        checkTensor(T.linsolve(A, [3, 4]), T.fromArray([[1, 1], [0.75, 3.25]]), 1e-14);
+        // a matrix shared by all systems
+        let X = T.linsolve(A, [[3, 1], [4, 2]]);
+        expect(X.shape).toEqual([2, 2, 2]);
+        checkTensor(<Tensor>X.get(1, ':', ':'), T.fromArray([[0.75, 0.25], [3.25, 1.75]]), 1e-14);
+        // one matrix for a batch of right-hand sides
+        let B = T.complex(T.reshape(T.linspace(1, 8, 8), [2, 2, 2]), T.reshape(T.linspace(-1, 1, 8), [2, 2, 2]));
+        let Y = T.linsolve(A.get(0, ':', ':'), B);
+        for (let k = 0;k < 2;k++) {
+            checkTensor(<Tensor>T.matmul(A.get(0, ':', ':'), Y.get(k, ':', ':')), <Tensor>B.get(k, ':', ':'), 1e-13);
+        }
+        // overdetermined systems
+        let C = T.fromArray([[[1, 0], [0, 1], [1, 1]], [[1, 1], [1, 2], [1, 3]]]);
+        let Z = T.linsolve(C, T.fromArray([[[1], [2], [3]], [[6], [9], [12]]]));
+        checkTensor(Z, T.fromArray([[[1], [2]], [[3], [3]]]), 1e-12);
+    });
+    it('should throw if the batch dimensions cannot be broadcast', () => {
+        expect(() => T.linsolve(T.ones([2, 3, 3]), T.ones([3, 3, 1]))).toThrow();
+    });
 });
 
 describe('mrdivide()', () => {
@@ -637,3 +769,763 @@ describe('sqrtm()', () => {
         });
     }
 });
+
+function checkTensorAsComplex(actual: Tensor, expected: Tensor, tolerance: number = 0): void {
+    checkTensor(actual.copy().ensureComplexStorage(), expected.copy().ensureComplexStorage(), tolerance);
+}
+
+describe('sqrtm() for non-Hermitian matrices', () => {
+    let shapes = [[4, 4], [8, 8], [15, 15]];
+    it('should compute the square root of a real upper triangular matrix', () => {
+        let actual = T.sqrtm([[4, 1], [0, 9]]);
+        checkTensor(actual, T.fromArray([[2, 0.2], [0, 3]]), 1e-15);
+    });
+    it('should return a complex matrix for a real matrix with negative eigenvalues', () => {
+        let actual = T.sqrtm([[-1, 1], [0, -4]]);
+        let expected = T.fromArray([[0, 0], [0, 0]], [[1, -1/3], [0, 2]]);
+        checkTensor(actual, expected, 1e-15);
+    });
+    for (let i = 0;i < shapes.length;i++) {
+        it(`should compute the square root of a ${shapes[i][0]} x ${shapes[i][0]} real matrix`, () => {
+            let A = T.rand(shapes[i]);
+            let ACopy = A.copy(true);
+            let S = T.sqrtm(A);
+            checkTensorAsComplex(T.matmul(S, S), A, 1e-12);
+            // should not change A
+            checkTensor(A, ACopy);
+        });
+        it(`should compute the square root of a ${shapes[i][0]} x ${shapes[i][0]} complex matrix`, () => {
+            let A = T.complex(T.rand(shapes[i]), T.rand(shapes[i]));
+            let S = T.sqrtm(A);
+            checkTensor(T.matmul(S, S), A, 1e-12);
+        });
+    }
+    it('should throw for a singular matrix without a square root', () => {
+        expect(() => T.sqrtm([[0, 1], [0, 0]])).toThrow();
+    });
+});
+
+describe('schur()', () => {
+    let shapes = [[1, 1], [2, 2], [5, 5], [12, 12]];
+    for (let i = 0;i < shapes.length;i++) {
+        it(`should compute the real Schur decomposition of a ${shapes[i][0]} x ${shapes[i][0]} real matrix`, () => {
+            let n = shapes[i][0];
+            let A = T.randn(shapes[i]);
+            let ACopy = A.copy(true);
+            let [U, S] = T.schur(A);
+            expect(U.hasComplexStorage()).toBe(false);
+            expect(S.hasComplexStorage()).toBe(false);
+            checkTensor(T.matmul(U, U, T.MM_TRANSPOSED), T.eye(n), 1e-14 * n);
+            checkTensor(T.matmul(T.matmul(U, S), U, T.MM_TRANSPOSED), A, 1e-13 * n);
+            // S should be quasi-triangular with standardized 2x2 blocks
+            let s = S.realData;
+            for (let r = 1;r < n;r++) {
+                for (let c = 0;c < r - 1;c++) {
+                    expect(s[r * n + c]).toBe(0);
+                }
+                if (s[r * n + r - 1] !== 0) {
+                    expect(s[r * n + r - 1] * s[(r - 1) * n + r]).toBeLessThan(0);
+                    checkNumber(s[r * n + r], s[(r - 1) * n + r - 1], 1e-14 * n);
+                    if (r < n - 1) {
+                        expect(s[(r + 1) * n + r]).toBe(0);
+                    }
+                }
+            }
+            // should not change A
+            checkTensor(A, ACopy);
+        });
+        it(`should compute the complex Schur decomposition of a ${shapes[i][0]} x ${shapes[i][0]} real matrix`, () => {
+            let n = shapes[i][0];
+            let A = T.randn(shapes[i]);
+            let [U, S] = T.schur(A, 'complex');
+            checkTensorAsComplex(T.matmul(U, U, T.MM_HERMITIAN), T.eye(n), 1e-14 * n);
+            checkTensorAsComplex(T.matmul(T.matmul(U, S), U, T.MM_HERMITIAN), A, 1e-13 * n);
+            checkTensorAsComplex(T.tril(S, -1), T.zeros([n, n]));
+        });
+        it(`should compute the Schur decomposition of a ${shapes[i][0]} x ${shapes[i][0]} complex matrix`, () => {
+            let n = shapes[i][0];
+            let A = T.complex(T.randn(shapes[i]), T.randn(shapes[i]));
+            let ACopy = A.copy(true);
+            let [U, S] = T.schur(A);
+            checkTensorAsComplex(T.matmul(U, U, T.MM_HERMITIAN), T.eye(n), 1e-14 * n);
+            checkTensorAsComplex(T.matmul(T.matmul(U, S), U, T.MM_HERMITIAN), A, 1e-13 * n);
+            checkTensorAsComplex(T.tril(S, -1), T.zeros([n, n]));
+            // should not change A
+            checkTensor(A, ACopy);
+        });
+    }
+});
+
+describe('expm()', () => {
+    it('should compute the exponential of a zero matrix', () => {
+        checkTensor(T.expm(T.zeros([3, 3])), T.eye(3));
+    });
+    it('should compute the exponential of a rotation generator', () => {
+        let actual = T.expm([[0, 1], [-1, 0]]);
+        let c = Math.cos(1), s = Math.sin(1);
+        checkTensor(actual, T.fromArray([[c, s], [-s, c]]), 1e-15);
+    });
+    it('should compute the exponential of a nilpotent matrix with a large norm', () => {
+        let actual = T.expm([[1, 1000], [0, 1]]);
+        checkTensor(actual, T.fromArray([[Math.E, 1000 * Math.E], [0, Math.E]]), 1e-14, false);
+    });
+    it('should compute the exponential of a complex diagonal matrix', () => {
+        let actual = T.expm(T.diag(T.fromArray([1, 0], [Math.PI, 0.5])));
+        let expected = T.diag(T.fromArray([-Math.E, Math.cos(0.5)], [0, Math.sin(0.5)]));
+        checkTensor(actual, expected, 1e-14);
+    });
+    for (let scale of [0.01, 0.1, 1, 10]) {
+        it(`should agree with the eigendecomposition for a random matrix scaled by ${scale}`, () => {
+            let A = T.mul(T.randn([6, 6]), scale);
+            let [E, L] = T.eig(A);
+            let expected = T.matmul(T.matmul(E, T.diag(<Tensor>T.exp(T.diag(L)))), T.inv(E));
+            checkTensor(T.expm(A), T.real(expected), 1e-10, false);
+        });
+    }
+});
+
+describe('logm()', () => {
+    it('should compute the logarithm of an identity matrix', () => {
+        checkTensor(T.logm(T.eye(3)), T.zeros([3, 3]));
+    });
+    it('should compute the logarithm of a rotation matrix', () => {
+        let c = Math.cos(1), s = Math.sin(1);
+        let actual = T.logm([[c, s], [-s, c]]);
+        checkTensor(actual, T.fromArray([[0, 1], [-1, 0]]), 1e-14);
+    });
+    it('should return a complex matrix for a real matrix with negative eigenvalues', () => {
+        let actual = T.logm(T.diag([-1, Math.E]));
+        checkTensor(actual, T.diag(T.fromArray([0, 1], [Math.PI, 0])), 1e-14);
+    });
+    it('should be the inverse of expm() for real and complex matrices', () => {
+        let A = T.mul(T.randn([8, 8]), 0.2);
+        checkTensor(T.logm(T.expm(A)), <Tensor>A, 1e-12);
+        let B = <Tensor>T.mul(T.complex(T.randn([8, 8]), T.randn([8, 8])), 0.2);
+        checkTensor(T.logm(T.expm(B)), B, 1e-12);
+    });
+    it('should throw for a singular matrix', () => {
+        expect(() => T.logm([[1, 2], [2, 4]])).toThrow();
+    });
+});
+
+describe('funm()', () => {
+    it('should agree with expm()', () => {
+        let A = T.randn([7, 7]);
+        checkTensor(T.funm(A, T.exp), T.expm(A), 1e-10, false);
+    });
+    it('should compute the cosine of a Hermitian matrix with repeated eigenvalues', () => {
+        let actual = T.funm(T.eye(3), T.cos);
+        checkTensor(actual, <Tensor>T.mul(T.eye(3), Math.cos(1)), 1e-15);
+    });
+    it('should compute the sine of a complex matrix', () => {
+        let A = T.complex(T.randn([5, 5]), T.randn([5, 5]));
+        // sin(A) = (exp(iA) - exp(-iA)) / 2i
+        let iA = T.mul(A, T.complexNumber(0, 1));
+        let expected = T.div(T.sub(T.expm(iA), T.expm(T.neg(iA))), T.complexNumber(0, 2));
+        checkTensor(T.funm(A, T.sin), <Tensor>expected, 1e-10, false);
+    });
+    it('should throw for a defective matrix', () => {
+        expect(() => T.funm([[1, 1], [0, 1]], T.exp)).toThrow();
+    });
+});
+
+describe('qr() with options', () => {
+    let randMatrix = (m: number, n: number, isComplex: boolean): Tensor => {
+        return isComplex ? T.complex(T.randn([m, n]), T.randn([m, n])) : T.randn([m, n]);
+    };
+    for (let isComplex of [false, true]) {
+        let type = isComplex ? 'complex' : 'real';
+        it(`should compute the economy-size decomposition of a tall ${type} matrix`, () => {
+            let A = randMatrix(30, 5, isComplex);
+            let [Q, R, P] = T.qr(A, { economy: true });
+            expect(Q.shape).toEqual([30, 5]);
+            expect(R.shape).toEqual([5, 5]);
+            validateQR(A, Q, R, P);
+        });
+        it(`should compute the economy-size decomposition of a wide ${type} matrix`, () => {
+            let A = randMatrix(4, 9, isComplex);
+            let [Q, R, P] = T.qr(A, { economy: true });
+            expect(Q.shape).toEqual([4, 4]);
+            expect(R.shape).toEqual([4, 9]);
+            validateQR(A, Q, R, P);
+        });
+        it(`should compute the decomposition of a ${type} matrix without pivoting`, () => {
+            let A = randMatrix(12, 7, isComplex);
+            let [Q, R] = T.qr(A, { pivoting: false });
+            checkTensor(R, T.triu(R));
+            validateQR(A, Q, R, T.eye(7));
+            let [Qe, Re] = T.qr(A, { pivoting: false, economy: true });
+            checkTensor(Qe, <Tensor>Q.get(':', '0:7'), 1e-15);
+            checkTensor(Re, <Tensor>R.get('0:7', ':'), 1e-15);
+        });
+        it(`should compute only R for a ${type} matrix`, () => {
+            let A = randMatrix(10, 6, isComplex);
+            let [, R0, P0] = T.qr(A);
+            let [R1, P1] = T.qr(A, { rOnly: true });
+            checkTensor(R1, R0, 1e-15);
+            checkTensor(P1, P0);
+            let R2 = T.qr(A, { rOnly: true, pivoting: false, economy: true });
+            expect(R2.shape).toEqual([6, 6]);
+            // R^H R = A^H A
+            checkTensor(T.matmul(T.hermitian(R2), R2), T.matmul(T.hermitian(A), A), 1e-12);
+        });
+    }
+    it('should handle rank deficient matrices without pivoting', () => {
+        let A = T.fromArray([[1, 2, 3], [2, 4, 6], [0, 0, 0], [1, 2, 3]]);
+        let [Q, R] = T.qr(A, { pivoting: false });
+        validateQR(A, Q, R, T.eye(3));
+    });
+});
+
+describe('qrupdate(), qrinsert(), qrdelete()', () => {
+    let randMatrix = (m: number, n: number, isComplex: boolean): Tensor => {
+        return isComplex ? T.complex(T.randn([m, n]), T.randn([m, n])) : T.randn([m, n]);
+    };
+    let allExcept = (n: number, j: number): number[] => {
+        let indices: number[] = [];
+        for (let i = 0;i < n;i++) {
+            if (i !== j) {
+                indices.push(i);
+            }
+        }
+        return indices;
+    };
+    let shapes = [[8, 5], [5, 8], [6, 6]];
+    for (let isComplex of [false, true]) {
+        let type = isComplex ? 'complex' : 'real';
+        for (let [m, n] of shapes) {
+            it(`should update the QR decomposition of a ${m} x ${n} ${type} matrix with a rank-one matrix`, () => {
+                let A = randMatrix(m, n, isComplex);
+                let u = randMatrix(m, 1, isComplex);
+                let v = randMatrix(n, 1, isComplex);
+                let [Q, R] = T.qr(A, { pivoting: false });
+                let [Q1, R1] = T.qrupdate(Q, R, u, v);
+                checkTensor(R1, T.triu(R1));
+                validateQR(<Tensor>T.add(A, T.matmul(u, v, T.MM_HERMITIAN)), Q1, R1, T.eye(n));
+                expect(Q1.hasComplexStorage()).toBe(isComplex);
+            });
+            it(`should insert a column into the QR decomposition of a ${m} x ${n} ${type} matrix`, () => {
+                let A1 = randMatrix(m, n + 1, isComplex);
+                for (let j of [0, 2, n]) {
+                    let A = <Tensor>A1.get(':', allExcept(n + 1, j));
+                    let [Q, R] = T.qr(A, { pivoting: false });
+                    let [Q1, R1] = T.qrinsert(Q, R, j, A1.get(':', j));
+                    checkTensor(R1, T.triu(R1));
+                    validateQR(A1, Q1, R1, T.eye(n + 1));
+                }
+            });
+            it(`should insert a row into the QR decomposition of a ${m} x ${n} ${type} matrix`, () => {
+                let A1 = randMatrix(m + 1, n, isComplex);
+                for (let j of [0, 3, m]) {
+                    let A = <Tensor>A1.get(allExcept(m + 1, j), ':');
+                    let [Q, R] = T.qr(A, { pivoting: false });
+                    let [Q1, R1] = T.qrinsert(Q, R, j, A1.get(j, ':'), 'row');
+                    checkTensor(R1, T.triu(R1));
+                    validateQR(A1, Q1, R1, T.eye(n));
+                }
+            });
+            it(`should delete a column from the QR decomposition of a ${m} x ${n} ${type} matrix`, () => {
+                let A = randMatrix(m, n, isComplex);
+                let [Q, R] = T.qr(A, { pivoting: false });
+                for (let j of [0, 2, n - 1]) {
+                    let [Q1, R1] = T.qrdelete(Q, R, j);
+                    checkTensor(R1, T.triu(R1));
+                    validateQR(<Tensor>A.get(':', allExcept(n, j)), Q1, R1, T.eye(n - 1));
+                }
+            });
+            it(`should delete a row from the QR decomposition of a ${m} x ${n} ${type} matrix`, () => {
+                let A = randMatrix(m, n, isComplex);
+                let [Q, R] = T.qr(A, { pivoting: false });
+                for (let j of [0, 3, m - 1]) {
+                    let [Q1, R1] = T.qrdelete(Q, R, j, 'row');
+                    checkTensor(R1, T.triu(R1));
+                    validateQR(<Tensor>A.get(allExcept(m, j), ':'), Q1, R1, T.eye(n));
+                }
+            });
+        }
+    }
+    it('should track a growing least squares problem by inserting rows', () => {
+        let A = T.randn([3, 3]);
+        let [Q, R] = T.qr(A, { pivoting: false });
+        for (let i = 0;i < 5;i++) {
+            let x = T.randn([3]);
+            [Q, R] = T.qrinsert(Q, R, Q.shape[0], x, 'row');
+            A = T.concat([A, T.reshape(x, [1, 3])], 0);
+        }
+        validateQR(A, Q, R, T.eye(3));
+    });
+    it('should throw for invalid inputs', () => {
+        let [Q, R] = T.qr(T.randn([4, 3]), { pivoting: false });
+        expect(() => T.qrupdate(Q, R, [1, 2, 3], [1, 2, 3])).toThrow();
+        expect(() => T.qrinsert(Q, R, 4, [1, 2, 3, 4])).toThrow();
+        expect(() => T.qrdelete(Q, R, 4, 'row')).toThrow();
+        expect(() => T.qrupdate(<Tensor>Q.get(':', '0:3'), R, [1, 2, 3, 4], [1, 2, 3])).toThrow();
+    });
+});
+
+describe('lstsq()', () => {
+    it('should match linsolve() for a full rank tall real matrix', () => {
+        let A = T.randn([12, 4]);
+        let B = T.randn([12, 3]);
+        let [X, residuals, rank, s] = T.lstsq(A, B);
+        checkTensor(X, T.linsolve(A, B), 1e-12);
+        expect(rank).toBe(4);
+        checkTensor(s, T.svd(A, true), 1e-14);
+        let R = <Tensor>T.sub(B, T.matmul(A, X));
+        checkTensor(residuals, <Tensor>T.sum(T.mul(R, R), 0), 1e-12);
+    });
+    it('should return the minimum norm solution for a rank deficient matrix', () => {
+        let A = T.fromArray([[1, 2, 3], [2, 4, 6], [4, 6, 8], [1, 1, 1]]);
+        let b = T.ones([4]);
+        let [x, residuals, rank, s] = T.lstsq(A, b);
+        expect(rank).toBe(2);
+        expect(x.shape).toEqual([3]);
+        expect(residuals.shape).toEqual([1]);
+        expect(s.shape).toEqual([3]);
+        checkTensor(x, <Tensor>T.reshape(T.matmul(T.pinv(A), T.reshape(b, [4, 1])), [3]), 1e-13);
+    });
+    it('should respect rcond', () => {
+        let A = T.fromArray([[1, 0], [0, 1e-8], [0, 0]]);
+        let [x1, , rank1] = T.lstsq(A, [1, 1, 1]);
+        expect(rank1).toBe(2);
+        checkTensor(x1, T.fromArray([1, 1e8]), 1e-6);
+        let [x2, , rank2] = T.lstsq(A, [1, 1, 1], { rcond: 1e-6 });
+        expect(rank2).toBe(1);
+        checkTensor(x2, T.fromArray([1, 0]), 1e-15);
+    });
+    it('should solve complex least squares problems', () => {
+        let A = T.complex(T.randn([10, 4]), T.randn([10, 4]));
+        let B = T.complex(T.randn([10, 2]), T.randn([10, 2]));
+        let [X, , rank] = T.lstsq(A, B);
+        expect(rank).toBe(4);
+        checkTensor(T.matmul(T.matmul(T.hermitian(A), A), X), T.matmul(T.hermitian(A), B), 1e-12);
+    });
+    it('should solve weighted least squares problems', () => {
+        let A = T.randn([8, 3]);
+        let b = T.randn([8]);
+        let w = T.rand([8]);
+        let sw = T.reshape(T.sqrt(w), [8, 1]);
+        let [x, residuals] = T.lstsq(A, b, { weights: w });
+        let [expected, expectedResiduals] = T.lstsq(T.mul(A, sw), T.mul(b, T.reshape(sw, [8])));
+        checkTensor(x, expected, 1e-12);
+        checkTensor(residuals, expectedResiduals, 1e-12);
+        // zero weights remove the equations
+        let [x2] = T.lstsq(A, b, { weights: [1, 1, 1, 1, 1, 1, 0, 0] });
+        let [expected2] = T.lstsq(<Tensor>A.get('0:6', ':'), <Tensor>b.get('0:6'));
+        checkTensor(x2, expected2, 1e-12);
+        expect(() => T.lstsq(A, b, { weights: [1, 1, 1, 1, 1, 1, -1, 1] })).toThrow();
+    });
+});
+
+describe('lsqnonneg()', () => {
+    it('should solve a non-negative least squares problem', () => {
+        let C = T.fromArray([[0.0372, 0.2869], [0.6861, 0.7071], [0.6233, 0.6245], [0.6344, 0.6170]]);
+        let d = T.fromArray([0.8587, 0.1781, 0.0747, 0.8405]);
+        let [x, resnorm, residual, exitFlag] = T.lsqnonneg(C, d);
+        checkTensor(x, T.fromArray([0, 0.6929343971302935]), 1e-12);
+        checkNumber(resnorm, 0.8314559512633122, 1e-12);
+        checkTensor(residual, <Tensor>T.sub(d, T.reshape(T.matmul(C, T.reshape(x, [2, 1])), [4])), 1e-15);
+        expect(exitFlag).toBe(1);
+    });
+    it('should satisfy the KKT conditions for random problems', () => {
+        for (let k = 0;k < 5;k++) {
+            let C = T.randn([20, 8]);
+            let d = T.randn([20]);
+            let [x, , residual, exitFlag] = T.lsqnonneg(C, d);
+            expect(exitFlag).toBe(1);
+            let w = <Tensor>T.reshape(T.matmul(T.transpose(C), T.reshape(residual, [20, 1])), [8]);
+            for (let j = 0;j < 8;j++) {
+                let xj = <number>x.get(j), wj = <number>w.get(j);
+                expect(xj).not.toBeLessThan(0);
+                expect(wj).toBeLessThan(1e-10);
+                if (xj > 0) {
+                    expect(Math.abs(wj)).toBeLessThan(1e-10);
+                }
+            }
+        }
+    });
+    it('should match the unconstrained solution if it is non-negative', () => {
+        let C = T.randn([10, 3]);
+        let d = T.reshape(T.matmul(C, [[1], [2], [3]]), [10]);
+        let [x] = T.lsqnonneg(C, d);
+        checkTensor(x, T.fromArray([1, 2, 3]), 1e-12);
+    });
+    it('should stop at the maximum number of iterations', () => {
+        let C = T.randn([20, 8]);
+        let d = T.randn([20]);
+        let [, , , exitFlag] = T.lsqnonneg(C, d, { maxIter: 1 });
+        expect(exitFlag).toBe(0);
+    });
+    it('should throw for complex inputs', () => {
+        expect(() => T.lsqnonneg(T.complex(T.eye(2), T.eye(2)), [1, 1])).toThrow();
+    });
+});
+
+describe('ridge()', () => {
+    it('should match lstsq() when lambda is zero', () => {
+        let A = T.randn([10, 4]);
+        let b = T.randn([10]);
+        checkTensor(T.ridge(A, b, 0), T.lstsq(A, b)[0], 1e-12);
+    });
+    it('should solve the regularized normal equations for multiple lambdas', () => {
+        let A = T.randn([10, 4]);
+        let B = T.randn([10, 2]);
+        let lambdas = [0.1, 1, 10];
+        let X = T.ridge(A, B, lambdas);
+        expect(X.shape).toEqual([3, 4, 2]);
+        for (let k = 0;k < lambdas.length;k++) {
+            let expected = T.linsolve(T.add(T.matmul(T.transpose(A), A), T.mul(T.eye(4), lambdas[k])),
+                T.matmul(T.transpose(A), B));
+            checkTensor(<Tensor>X.get(k, ':', ':'), expected, 1e-12);
+        }
+    });
+    it('should solve complex and weighted ridge regression problems', () => {
+        let A = T.complex(T.randn([10, 4]), T.randn([10, 4]));
+        let b = T.complex(T.randn([10, 1]), T.randn([10, 1]));
+        let w = T.rand([10]);
+        let x = T.ridge(A, b, 0.5, { weights: w });
+        let AhW = T.mul(T.hermitian(A), T.reshape(w, [1, 10]));
+        let expected = T.linsolve(T.add(T.matmul(AhW, A), T.mul(T.eye(4), 0.5)), T.matmul(AhW, b));
+        checkTensor(x, expected, 1e-12);
+    });
+    it('should throw for negative lambdas', () => {
+        expect(() => T.ridge(T.eye(2), [1, 1], [1, -1])).toThrow();
+    });
+});
+
+describe('linsolve() with structured matrices', () => {
+    let n = 12;
+    const checkSolution = (A: Tensor, B: Tensor, X: Tensor, eps: number = 1e-12): void => {
+        // A and B are not necessarily both real or both complex
+        checkTensor(T.abs(T.sub(T.matmul(A, X), B)), T.zeros(B.shape), eps);
+    };
+    const tridiag = (dl: Tensor, d: Tensor, du: Tensor): Tensor => {
+        return <Tensor>T.add(T.diag(d), T.add(T.diag(dl, -1), T.diag(du, 1)));
+    };
+    it('should solve diagonal systems', () => {
+        let A = T.diag(T.add(T.rand([n]), 1));
+        let B = T.randn([n, 3]);
+        checkSolution(A, B, T.linsolve(A, B));
+        let C = T.complex(A, T.diag(T.randn([n])));
+        checkSolution(C, B, T.linsolve(C, B));
+    });
+    it('should solve real and complex triangular systems', () => {
+        let U = <Tensor>T.add(T.triu(T.randn([n, n])), T.mul(T.eye(n), 4));
+        let L = T.transpose(U);
+        let B = T.randn([n, 3]);
+        checkSolution(U, B, T.linsolve(U, B));
+        checkSolution(L, B, T.linsolve(L, B));
+        let CU = T.complex(U, T.triu(T.randn([n, n])));
+        let CL = T.hermitian(CU);
+        let CB = T.complex(T.randn([n, 3]), T.randn([n, 3]));
+        checkSolution(CU, CB, T.linsolve(CU, CB));
+        checkSolution(CL, CB, T.linsolve(CL, CB));
+        checkSolution(CL, B, T.linsolve(CL, B));
+    });
+    it('should solve diagonally dominant and general tridiagonal systems', () => {
+        let A = tridiag(T.randn([n - 1]), <Tensor>T.add(T.rand([n]), 2), T.randn([n - 1]));
+        let B = T.randn([n, 2]);
+        checkSolution(A, B, T.linsolve(A, B));
+        // zero diagonal requires pivoting
+        let P = tridiag(T.ones([n - 1]), T.zeros([n]), T.ones([n - 1]));
+        checkSolution(P, B, T.linsolve(P, B));
+        let C = T.complex(tridiag(T.randn([n - 1]), T.randn([n]), T.randn([n - 1])),
+            tridiag(T.randn([n - 1]), T.randn([n]), T.randn([n - 1])));
+        checkSolution(C, B, T.linsolve(C, B));
+    });
+    it('should solve real and complex banded systems', () => {
+        let A = <Tensor>T.add(T.add(T.diag(T.randn([n])), T.diag(T.randn([n - 2]), -2)),
+            T.add(T.diag(T.randn([n - 1]), 1), T.diag(T.randn([n - 3]), 3)));
+        let B = T.randn([n, 2]);
+        checkSolution(A, B, T.linsolve(A, B));
+        let C = T.complex(A, T.diag(T.randn([n - 2]), -2));
+        checkSolution(C, B, T.linsolve(C, B));
+    });
+    it('should solve Hermitian positive definite systems', () => {
+        let R = T.randn([n, n]);
+        let A = <Tensor>T.add(T.matmul(T.transpose(R), R), T.eye(n));
+        let B = T.randn([n, 2]);
+        checkSolution(A, B, T.linsolve(A, B));
+        let CR = T.complex(R, T.randn([n, n]));
+        let C = <Tensor>T.add(T.matmul(T.hermitian(CR), CR), T.eye(n));
+        checkSolution(C, B, T.linsolve(C, B));
+    });
+    it('should fall back to LUP decomposition for indefinite Hermitian matrices', () => {
+        let A = T.fromArray([[1, 2, 0, 1], [2, 1, 2, 0], [0, 2, 1, 2], [1, 0, 2, 1]]);
+        let b = T.fromArray([1, 2, 3, 4]);
+        checkTensor(T.matmul(A, T.reshape(T.linsolve(A, b), [4, 1])), T.reshape(b, [4, 1]), 1e-13);
+        checkTensor(T.linsolve(A, b, T.MT_HERMITIAN_POSITIVE_DEFINITE), T.linsolve(A, b, T.MT_FULL), 1e-13);
+    });
+    it('should only use the elements within the structure specified by the hint', () => {
+        let A = <Tensor>T.add(T.randn([n, n]), T.mul(T.eye(n), 8));
+        let B = T.randn([n, 2]);
+        checkSolution(T.triu(A), B, T.linsolve(A, B, T.MT_UPPER_TRIANGULAR));
+        checkSolution(T.tril(A), B, T.mldivide(A, B, T.MT_LOWER_TRIANGULAR));
+        checkSolution(T.diag(T.diag(A)), B, T.linsolve(A, B, T.MT_DIAGONAL));
+        checkSolution(T.tril(T.triu(A, -1), 1), B, T.linsolve(A, B, T.MT_TRIDIAGONAL));
+        checkSolution(A, B, T.linsolve(A, B, T.MT_FULL));
+    });
+    it('should solve non-square triangular systems with a hint', () => {
+        // extra rows are ignored
+        let A = T.fromArray([[2, 1], [0, 4], [0, 0]]);
+        checkTensor(T.linsolve(A, [3, 4, 5], T.MT_UPPER_TRIANGULAR), T.fromArray([1, 1]), 1e-14);
+        // free variables are set to zeros
+        let L = T.fromArray([[2, 0, 0], [1, 1, 0]]);
+        checkTensor(T.linsolve(L, [2, 3], T.MT_LOWER_TRIANGULAR), T.fromArray([1, 2, 0]), 1e-14);
+        expect(() => T.linsolve(A, [1, 2, 3], T.MT_DIAGONAL)).toThrow();
+    });
+    it('should detect the structure of each matrix in a batch', () => {
+        let A = T.fromArray([[[2, 0], [0, 4]], [[2, 1], [0, 4]], [[4, 1], [1, 3]], [[0, 1], [1, 0]]]);
+        let X = T.linsolve(A, [2, 4]);
+        checkTensor(X, T.fromArray([[1, 1], [0.5, 1], [2 / 11, 14 / 11], [4, 2]]), 1e-14);
+    });
+});
+
+describe('cond() with other norms', () => {
+    it('should compute the condition numbers with respect to the 1, Infinity and Frobenius norms', () => {
+        let A = T.fromArray([[1, 2], [3, 4]]);
+        checkNumber(T.cond(A, 1), 21, 1e-13);
+        checkNumber(T.cond(A, Infinity), 21, 1e-13);
+        checkNumber(T.cond(A, 'fro'), 15, 1e-13);
+        checkNumber(T.cond(A, 2), T.cond(A), 1e-13);
+        let C = T.complex(T.randn([5, 5]), T.randn([5, 5]));
+        checkNumber(T.cond(C, 1), T.norm(C, 1) * T.norm(T.inv(C), 1), 1e-10);
+    });
+    it('should return Infinity for singular matrices', () => {
+        expect(T.cond([[1, 2], [2, 4]], 1)).toBe(Infinity);
+    });
+    it('should throw for non-square matrices or invalid norms', () => {
+        expect(() => T.cond(T.ones([2, 3]), 1)).toThrow();
+        expect(() => T.cond(T.eye(2), 3)).toThrow();
+    });
+});
+
+describe('rcond() and condest()', () => {
+    it('should estimate the reciprocal 1-norm condition number', () => {
+        for (let i = 0;i < 5;i++) {
+            let A = T.randn([10, 10]);
+            let exact = 1 / T.cond(A, 1);
+            let rcond = T.rcond(A);
+            // the estimate of ||A^{-1}||_1 is a lower bound
+            expect(rcond).not.toBeLessThan(exact * (1 - 1e-12));
+            expect(rcond).toBeLessThan(3 * exact);
+            checkNumber(T.condest(A), 1 / rcond, 1e-12);
+        }
+        let C = T.complex(T.randn([8, 8]), T.randn([8, 8]));
+        let exactC = 1 / T.cond(C, 1);
+        expect(T.rcond(C)).not.toBeLessThan(exactC * (1 - 1e-12));
+        expect(T.rcond(C)).toBeLessThan(3 * exactC);
+    });
+    it('should be exact for diagonal, 1 x 1 and orthogonal permutation matrices', () => {
+        checkNumber(T.rcond(T.diag([1, 10, 100])), 0.01, 1e-15);
+        checkNumber(T.rcond([[4]]), 1, 1e-15);
+        checkNumber(T.rcond([[0, 1, 0], [0, 0, 1], [1, 0, 0]]), 1, 1e-15);
+        checkNumber(T.condest(T.sparse(T.diag([1, 10, 100]))), 100, 1e-12);
+    });
+    it('should match the dense estimate for sparse matrices', () => {
+        let A = <Tensor>T.add(T.randn([8, 8]), T.mul(T.eye(8), 4));
+        checkNumber(T.condest(T.sparse(A)), T.condest(A), 1e-10);
+        let C = T.complex(A, T.eye(8));
+        checkNumber(T.condest(T.sparse(C)), T.condest(C), 1e-10);
+        expect(() => T.condest(T.sparse([[1, 2], [2, 4]]))).toThrow();
+    });
+    it('should detect singular and nearly singular matrices', () => {
+        expect(T.rcond([[1, 2], [2, 4]])).toBe(0);
+        expect(T.rcond(T.zeros([3, 3]))).toBe(0);
+        expect(T.condest([[1, 2], [2, 4]])).toBe(Infinity);
+        expect(T.rcond(T.hilb(12))).toBeLessThan(1e-15);
+    });
+    it('should throw for non-square matrices', () => {
+        expect(() => T.rcond(T.ones([2, 3]))).toThrow();
+    });
+});
+
+describe('null() and orth()', () => {
+    it('should compute orthonormal bases of the null space and the range', () => {
+        let A = T.fromArray([[1, 2, 3], [2, 4, 6], [1, 0, 1]]);
+        let N = T.null(A);
+        let O = T.orth(A);
+        expect(N.shape).toEqual([3, 1]);
+        expect(O.shape).toEqual([3, 2]);
+        checkTensor(T.matmul(A, N), T.zeros([3, 1]), 1e-14);
+        checkTensor(T.matmul(N, N, T.MM_TRANSPOSED), <Tensor>T.sub(T.eye(3), T.matmul(T.pinv(A), A)), 1e-14);
+        checkTensor(T.matmul(T.transpose(O), O), T.eye(2), 1e-14);
+        // the projection onto the range leaves A unchanged
+        checkTensor(T.matmul(O, T.matmul(T.transpose(O), A)), A, 1e-14);
+    });
+    it('should handle wide, complex, full rank and zero matrices', () => {
+        let A = T.complex(T.randn([2, 4]), T.randn([2, 4]));
+        let N = T.null(A);
+        expect(N.shape).toEqual([4, 2]);
+        checkTensor(T.abs(T.matmul(A, N)), T.zeros([2, 2]), 1e-14);
+        checkTensor(T.matmul(T.hermitian(N), N), T.eye(2).ensureComplexStorage(), 1e-14);
+        expect(T.orth(A).shape).toEqual([2, 2]);
+        expect(T.null(T.eye(3)).shape).toEqual([3, 0]);
+        expect(T.orth(T.zeros([3, 2])).shape).toEqual([3, 0]);
+        checkTensor(T.null(T.zeros([2, 2])), T.eye(2), 0);
+    });
+    it('should use the specified tolerance', () => {
+        let A = T.diag([1, 1e-8]);
+        expect(T.null(A).shape).toEqual([2, 0]);
+        expect(T.null(A, 1e-6).shape).toEqual([2, 1]);
+        expect(T.orth(A, 1e-6).shape).toEqual([2, 1]);
+    });
+});
+
+describe('singular matrix warnings', () => {
+    let warnings: string[] = [];
+    const createInstance = (action?: 'warn' | 'error' | 'none') => {
+        return JasmalEngine.createInstance({
+            linalg: {
+                singularMatrix: action,
+                onWarning: (message: string) => { warnings.push(message); }
+            }
+        });
+    };
+    beforeEach(() => {
+        warnings = [];
+    });
+    it('should warn about singular and nearly singular matrices by default', () => {
+        let U = createInstance();
+        U.inv([[1, 2], [2, 4]]);
+        expect(warnings).toEqual(['Matrix is singular to working precision.']);
+        U.inv(T.hilb(14));
+        expect(warnings.length).toBe(2);
+        expect(warnings[1]).toMatch(/^Matrix is close to singular or badly scaled\. .* RCOND = .*\.$/);
+        // well conditioned matrices
+        U.inv(T.hilb(4));
+        U.linsolve(T.hilb(4), [1, 2, 3, 4]);
+        U.linsolve(T.triu(T.ones([4, 4])), [1, 2, 3, 4]);
+        expect(warnings.length).toBe(2);
+    });
+    it('should check each structure and each matrix in a batch', () => {
+        let U = createInstance();
+        let b = T.ones([3, 1]);
+        // diagonal, triangular, tridiagonal, HPD and full
+        U.linsolve(T.diag([1, 1, 1e-20]), b);
+        U.mldivide(T.fromArray([[1, 1, 1], [0, 1, 1], [0, 0, 0]]), b);
+        U.linsolve(T.fromArray([[1, 1, 0], [1, 1, 0], [0, 1, 1]]), b);
+        U.linsolve(T.fromArray([[1, 1, 1], [1, 1, 1], [1, 1, 1]]), b);
+        U.linsolve(T.fromArray([[1, 1e-20, 0], [1, 1, 1], [0, 0, 1e-20]]), b, U.MT_UPPER_TRIANGULAR);
+        U.linsolve(T.fromArray([[[1, 0], [0, 1]], [[1, 2], [2, 4]]]), [1, 1]);
+        expect(warnings.length).toBe(6);
+    });
+    it('should throw or skip the check according to the option', () => {
+        expect(() => createInstance('error').inv([[1, 2], [2, 4]])).toThrowError(/singular/);
+        expect(() => createInstance('error').linsolve(T.diag([1, 0]), [1, 1])).toThrowError(/singular/);
+        createInstance('none').inv([[1, 2], [2, 4]]);
+        expect(warnings.length).toBe(0);
+    });
+    it('should not report empty matrices', () => {
+        let U = createInstance('error');
+        expect(U.inv(T.zeros([0, 0])).shape).toEqual([0, 0]);
+        expect(U.expm(T.zeros([0, 0])).shape).toEqual([0, 0]);
+        expect(U.linsolve(T.zeros([0, 0]), T.zeros([0, 1])).shape).toEqual([0, 1]);
+        expect(U.linsolve(T.zeros([2, 0, 0]), T.zeros([2, 0, 1])).shape).toEqual([2, 0, 1]);
+        expect(createInstance().rcond(T.zeros([0, 0]))).toBe(Infinity);
+        expect(warnings.length).toBe(0);
+    });
+});
+
+describe('batched decompositions', () => {
+    // compares the k-th entry of a batched output with the output for a
+    // single matrix
+    const checkSlice = (batched: Tensor, k: number, expected: Tensor): void => {
+        let actual = batched.ndim === 2 ? <Tensor>batched.get(k, ':') : <Tensor>batched.get(k, ':', ':');
+        if (actual.hasComplexStorage() && !expected.hasComplexStorage()) {
+            // other entries in the batch may be complex
+            expected = T.complex(expected, T.zeros(expected.shape));
+        }
+        checkTensor(actual, expected, 1e-12);
+    };
+    // use a separate instance so that the random inputs of other specs are
+    // not affected
+    const R = JasmalEngine.createInstance();
+    R.seed(42);
+    let X = R.rand([5, 4, 4]);
+    let Z = T.complex(R.rand([2, 3, 4]), R.rand([2, 3, 4]));
+    it('lu() should decompose each matrix in a batch', () => {
+        let [L, U, P] = T.lu(X);
+        expect(L.shape).toEqual([5, 4, 4]);
+        for (let k = 0;k < 5;k++) {
+            let [Lk, Uk, Pk] = T.lu(X.get(k, ':', ':'));
+            checkSlice(L, k, Lk);
+            checkSlice(U, k, Uk);
+            checkSlice(P, k, Pk);
+        }
+        expect(() => T.lu(X, true)).toThrowError(/Batched input/);
+        expect(() => T.lu(T.zeros([2, 3, 4]))).toThrowError('Square matrix expected.');
+    });
+    it('chol() should decompose each matrix in a batch', () => {
+        let A = [[[4, 2], [2, 3]], [[9, 3], [3, 5]]];
+        let L = T.chol(A);
+        expect(L.shape).toEqual([2, 2, 2]);
+        checkSlice(L, 0, T.chol(A[0]));
+        checkSlice(L, 1, T.chol(A[1]));
+        expect(() => T.chol([[[1, 0], [0, 1]], [[1, 2], [2, 1]]])).toThrowError('Matrix is not positive definite.');
+    });
+    it('qr() should decompose each matrix in a batch', () => {
+        let [Q, R, P] = T.qr(Z);
+        expect(Q.shape).toEqual([2, 3, 3]);
+        expect(R.shape).toEqual([2, 3, 4]);
+        expect(P.shape).toEqual([2, 4, 4]);
+        let R1 = T.qr(Z, { pivoting: false, rOnly: true });
+        for (let k = 0;k < 2;k++) {
+            let [Qk, Rk, Pk] = T.qr(Z.get(k, ':', ':'));
+            checkSlice(Q, k, Qk);
+            checkSlice(R, k, Rk);
+            checkSlice(P, k, Pk);
+            checkSlice(R1, k, T.qr(Z.get(k, ':', ':'), { pivoting: false, rOnly: true }));
+        }
+    });
+    it('svd() should decompose each matrix in a batch', () => {
+        let [U, S, V] = T.svd(Z);
+        expect(U.shape).toEqual([2, 3, 3]);
+        expect(S.shape).toEqual([2, 3, 4]);
+        expect(V.shape).toEqual([2, 4, 4]);
+        let s = T.svd(Z, true);
+        expect(s.shape).toEqual([2, 3]);
+        for (let k = 0;k < 2;k++) {
+            let [Uk, Sk, Vk] = T.svd(Z.get(k, ':', ':'));
+            checkSlice(U, k, Uk);
+            checkSlice(S, k, Sk);
+            checkSlice(V, k, Vk);
+            checkSlice(s, k, T.svd(Z.get(k, ':', ':'), true));
+        }
+    });
+    it('eig() should decompose each matrix in a batch', () => {
+        // the first matrix has complex eigenvalues
+        let A = T.fromArray([[[0, -1], [1, 0]], [[2, 1], [0, 3]]]);
+        let [E, L] = T.eig(A);
+        let v = T.eig(A, true);
+        expect(v.shape).toEqual([2, 2]);
+        for (let k = 0;k < 2;k++) {
+            let [Ek, Lk] = T.eig(A.get(k, ':', ':'));
+            checkSlice(E, k, Ek);
+            checkSlice(L, k, Lk);
+            checkSlice(v, k, T.eig(A.get(k, ':', ':'), true));
+        }
+        // generalized eigenvalues with broadcast batch dimensions
+        let B = T.fromArray([[2, 0], [0, 1]]);
+        let w = T.eig(A, B, true);
+        expect(w.shape).toEqual([2, 2]);
+        checkSlice(w, 1, T.eig(A.get(1, ':', ':'), B, true));
+    });
+    it('schur() should decompose each matrix in a batch', () => {
+        let [U, S] = T.schur(X, 'complex');
+        expect(S.shape).toEqual([5, 4, 4]);
+        for (let k = 0;k < 5;k++) {
+            let [Uk, Sk] = T.schur(X.get(k, ':', ':'), 'complex');
+            checkSlice(U, k, Uk);
+            checkSlice(S, k, Sk);
+        }
+    });
+    it('should handle empty batches', () => {
+        let [U, S, V] = T.svd(T.zeros([0, 3, 2]));
+        expect(U.shape).toEqual([0, 3, 2]);
+        expect(S.shape).toEqual([0, 2, 2]);
+        expect(V.shape).toEqual([0, 2, 2]);
+        expect(T.eig(T.zeros([2, 0, 3, 3]), true).shape).toEqual([2, 0, 3]);
+        expect(T.chol(T.zeros([0, 2, 2])).shape).toEqual([0, 2, 2]);
+    });
+});
@@ -0,0 +1,213 @@
+import { JasmalEngine } from '../index';
+import { Tensor } from '../lib/core/tensor';
+import { checkTensor } from './testHelper';
+import { IRandomEngine, MT19937Engine, PCG32Engine, Xoshiro256StarStarEngine,
+         PhiloxEngine } from '../lib/ops/random/engine';
+
+function take(engine: IRandomEngine, n: number): number[] {
+    let x: number[] = [];
+    for (let i = 0;i < n;i++) {
+        x.push(engine.nextUint32());
+    }
+    return x;
+}
+
+describe('RNG engines', () => {
+    it('PCG32 should match the reference implementation', () => {
+        let engine = new PCG32Engine(42, 54);
+        expect(take(engine, 6)).toEqual([
+            0xa15c02b7, 0x7b47f409, 0xba1d3330, 0x83d2f293, 0xbfa4784b, 0xcbed606e
+        ]);
+    });
+    it('xoshiro256** should match the reference implementation', () => {
+        let engine = new Xoshiro256StarStarEngine();
+        engine.setState({ name: 'xoshiro256**', data: [0, 1, 0, 2, 0, 3, 0, 4, 0] });
+        // upper 32 bits of 11520, 0, 1509978240, 1215971899390074240
+        expect(take(engine, 4)).toEqual([0, 0, 0, 283115520]);
+    });
+    it('Philox4x32-10 should match the known answers', () => {
+        expect(PhiloxEngine.philox4x32([0, 0, 0, 0], [0, 0])).toEqual([
+            0x6627e8d5, 0xe169c58d, 0xbc57ac4c, 0x9b00dbd8
+        ]);
+        expect(PhiloxEngine.philox4x32([0x243f6a88, 0x85a308d3, 0x13198a2e, 0x03707344],
+                                       [0xa4093822, 0x299f31d0])).toEqual([
+            0xd16cfe09, 0x94fdcceb, 0x5001e420, 0x24126ea1
+        ]);
+        let engine = new PhiloxEngine(0);
+        expect(take(engine, 4)).toEqual([0x6627e8d5, 0xe169c58d, 0xbc57ac4c, 0x9b00dbd8]);
+    });
+    let engineTypes: Array<[string, () => IRandomEngine]> = [
+        ['twister', () => new MT19937Engine()],
+        ['pcg32', () => new PCG32Engine()],
+        ['xoshiro256**', () => new Xoshiro256StarStarEngine()],
+        ['philox', () => new PhiloxEngine()]
+    ];
+    for (let [name, create] of engineTypes) {
+        it(`${name} should restore the state after serialization`, () => {
+            let engine = create().setSeed(99);
+            take(engine, 3);
+            let state = JSON.parse(JSON.stringify(engine.getState()));
+            expect(state.name).toBe(name);
+            let expected = take(engine, 10).concat([engine.nextDouble()]);
+            let restored = create().setState(state);
+            expect(take(restored, 10).concat([restored.nextDouble()])).toEqual(expected);
+        });
+        it(`${name} should reproduce the sequence after reseeding`, () => {
+            let engine = create().setSeed(123);
+            let expected = take(engine, 5);
+            expect(take(engine.setSeed(123), 5)).toEqual(expected);
+            expect(engine.getSeed()).toBe(123);
+        });
+    }
+    it('should throw when restoring the state of a different engine', () => {
+        let state = new PCG32Engine().getState();
+        expect(() => new PhiloxEngine().setState(state)).toThrow();
+    });
+    it('split() should create a substream starting from the current state', () => {
+        for (let [, create] of engineTypes.slice(1)) {
+            let engine = create().setSeed(7);
+            let reference = create().setSeed(7);
+            let child = engine.split();
+            expect(take(child, 8)).toEqual(take(reference, 8));
+            // the parent should have jumped
+            expect(take(engine, 8)).toEqual(take(reference.setSeed(7).jump(), 8));
+            expect(take(engine, 8)).not.toEqual(take(child, 8));
+        }
+    });
+    it('should throw when jumping the Mersenne twister engine', () => {
+        expect(() => new MT19937Engine().jump()).toThrow();
+    });
+});
+
+describe('rngState()/rngEngine()', () => {
+    it('should restore the state across instances', () => {
+        let T1 = JasmalEngine.createInstance({ rngEngine: 'philox' });
+        T1.seed(2017);
+        T1.randn([3]);
+        let state = T1.rngState();
+        let T2 = JasmalEngine.createInstance({ rngEngine: state.name });
+        T2.rngState(state);
+        checkTensor(T2.rand([5]), T1.rand([5]));
+    });
+    it('should reproduce randn() after restoring the state', () => {
+        let T1 = JasmalEngine.createInstance({ rngEngine: 'xoshiro256**' });
+        let state = T1.rngState();
+        let x = T1.randn([7]);
+        T1.rngState(state);
+        checkTensor(T1.randn([7]), x);
+    });
+    it('should create independent streams via the engine', () => {
+        let T1 = JasmalEngine.createInstance({ rngEngine: 'pcg32' });
+        let s1 = T1.rngEngine().split().getState();
+        let s2 = T1.rngEngine().split().getState();
+        let T2 = JasmalEngine.createInstance({ rngEngine: 'pcg32' });
+        let T3 = JasmalEngine.createInstance({ rngEngine: 'pcg32' });
+        T2.rngState(s1);
+        T3.rngState(s2);
+        expect(T2.rand()).not.toEqual(T3.rand());
+    });
+});
+
+describe('Random sampling', () => {
+    let T = JasmalEngine.createInstance();
+    const N = 20000;
+
+    /**
+     * Checks the sample mean and variance against the expected values using
+     * relative tolerances.
+     */
+    function checkMoments(x: Tensor, mean: number, variance: number, tol: number = 0.05): void {
+        let m = <number>T.mean(x);
+        let v = <number>T.var(x);
+        expect(Math.abs(m - mean)).toBeLessThan(tol * Math.max(Math.abs(mean), Math.sqrt(variance)));
+        expect(Math.abs(v - variance)).toBeLessThan(tol * variance);
+    }
+
+    beforeEach(() => {
+        T.seed(42);
+    });
+
+    it('crandn() should generate circularly-symmetric complex normal samples', () => {
+        let z = T.crandn([N]);
+        checkMoments(T.real(z), 0, 0.5);
+        checkMoments(T.imag(z), 0, 0.5);
+        expect(T.isComplexNumber(T.crandn())).toBe(true);
+    });
+    it('should match the means and variances of continuous distributions', () => {
+        checkMoments(T.exprnd(2, [N]), 2, 4);
+        checkMoments(T.gamrnd(0.5, 2, [N]), 1, 2);
+        checkMoments(T.gamrnd(5, 3, [N]), 15, 45);
+        checkMoments(T.betarnd(2, 3, [N]), 0.4, 0.04);
+        checkMoments(T.chi2rnd(3, [N]), 3, 6);
+        checkMoments(T.trnd(6, [N]), 0, 1.5);
+        checkMoments(T.lognrnd(0, 0.5, [N]), Math.exp(0.125), (Math.exp(0.25) - 1) * Math.exp(0.25));
+    });
+    it('should match the means and variances of discrete distributions', () => {
+        checkMoments(T.poissrnd(3, [N]), 3, 3);
+        checkMoments(T.poissrnd(200, [N]), 200, 200);
+        checkMoments(T.binornd(20, 0.3, [N]), 6, 4.2);
+        checkMoments(T.binornd(1000, 0.7, [N]), 700, 210);
+        checkMoments(T.geornd(0.2, [N]), 4, 20);
+        let x = T.binornd(1000, 0.7, [100]);
+        checkTensor(T.round(x), x);
+    });
+    it('should broadcast the parameters', () => {
+        expect(T.exprnd([1, 2, 3]).shape).toEqual([3]);
+        expect(T.gamrnd([[1], [2]], [1, 2, 3]).shape).toEqual([2, 3]);
+        expect(T.lognrnd([[0], [10]], 0, [2, 4]).shape).toEqual([2, 4]);
+        checkTensor(T.lognrnd([[0], [1]], 0, [2, 2]), <Tensor>T.exp([[0, 0], [1, 1]]), 1e-15);
+        checkTensor(T.binornd([[5], [8]], [0, 1]), T.fromArray([[0, 5], [0, 8]]));
+        let x = T.poissrnd([[1, 100]], [N / 2, 2]);
+        checkMoments(<Tensor>x.get(':', 0), 1, 1);
+        checkMoments(<Tensor>x.get(':', 1), 100, 100);
+    });
+    it('should throw when the parameter shape is incompatible with the output shape', () => {
+        expect(() => T.exprnd([1, 2, 3], [2, 2])).toThrow();
+        expect(() => T.betarnd([1, 2], [1, 2, 3])).toThrow();
+        expect(() => T.exprnd(T.complex(T.ones([2]), T.ones([2])))).toThrow();
+    });
+    it('should return NaN for invalid parameters', () => {
+        expect(T.exprnd(-1)).toBeNaN();
+        expect(T.gamrnd(1, 0)).toBeNaN();
+        expect(T.binornd(2.5, 0.5)).toBeNaN();
+        expect(T.geornd(0)).toBeNaN();
+        let x = T.poissrnd([1, -1]);
+        expect(x.realData[1]).toBeNaN();
+    });
+    it('should be reproducible after reseeding', () => {
+        let x = T.gamrnd([0.3, 3], 1, [3, 2]);
+        let y = T.binornd(500, 0.2, [5]);
+        T.seed(42);
+        checkTensor(T.gamrnd([0.3, 3], 1, [3, 2]), x);
+        checkTensor(T.binornd(500, 0.2, [5]), y);
+    });
+    it('should discard the cached normal sample when reseeding', () => {
+        // an odd number of samples leaves one normal sample cached
+        T.seed(1);
+        let x = T.randn([3]);
+        T.seed(1);
+        checkTensor(T.randn([3]), x);
+        T.seed(1);
+        let y = T.gamrnd(2.5, 1, [3]);
+        T.randn([1]);
+        T.seed(1);
+        checkTensor(T.gamrnd(2.5, 1, [3]), y);
+    });
+    it('mvnrnd() should generate samples with the specified mean and covariance', () => {
+        let X = T.mvnrnd([1, 2], [[1, 0.5], [0.5, 2]], N);
+        expect(X.shape).toEqual([N, 2]);
+        checkMoments(<Tensor>X.get(':', 0), 1, 1);
+        checkMoments(<Tensor>X.get(':', 1), 2, 2);
+        let c = <number>T.mean(T.mul(T.sub(<Tensor>X.get(':', 0), 1), T.sub(<Tensor>X.get(':', 1), 2)));
+        expect(Math.abs(c - 0.5)).toBeLessThan(0.05);
+        let Y = T.mvnrnd([[0, 0], [10, 10], [-10, -10]], [[1e-12, 0], [0, 1e-12]]);
+        checkTensor(Y, T.fromArray([[0, 0], [10, 10], [-10, -10]]), 1e-4);
+        expect(() => T.mvnrnd([0, 0], [[1, 2], [2, 1]])).toThrow();
+    });
+    it('dirichletrnd() should generate samples on the simplex', () => {
+        let X = T.dirichletrnd([1, 2, 3], N);
+        expect(X.shape).toEqual([N, 3]);
+        checkTensor(T.sum(X, 1), T.ones([N]), 1e-12);
+        checkMoments(<Tensor>X.get(':', 2), 0.5, 0.25 / 7);
+    });
+});
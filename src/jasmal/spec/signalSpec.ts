@@ -0,0 +1,249 @@
+import { JasmalEngine } from '../index';
+import { Tensor } from '../lib/core/tensor';
+import { checkTensor } from './testHelper';
+const T = JasmalEngine.createInstance();
+T.seed(42);
+
+/**
+ * Reference implementation of the difference equation
+ *  a[0] y[n] = \sum_k b[k] x[n-k] - \sum_{k>0} a[k] y[n-k]
+ * for complex inputs.
+ */
+function differenceEquation(b: Tensor, a: Tensor, x: Tensor): Tensor {
+    let n = x.size;
+    let reY = new Array(n), imY = new Array(n);
+    let reB = b.realData, imB = b.ensureComplexStorage().imagData;
+    let reA = a.realData, imA = a.ensureComplexStorage().imagData;
+    let reX = x.realData, imX = x.ensureComplexStorage().imagData;
+    for (let i = 0;i < n;i++) {
+        let sr = 0, si = 0;
+        for (let k = 0;k < b.size && k <= i;k++) {
+            sr += reB[k] * reX[i - k] - imB[k] * imX[i - k];
+            si += reB[k] * imX[i - k] + imB[k] * reX[i - k];
+        }
+        for (let k = 1;k < a.size && k <= i;k++) {
+            sr -= reA[k] * reY[i - k] - imA[k] * imY[i - k];
+            si -= reA[k] * imY[i - k] + imA[k] * reY[i - k];
+        }
+        let d = reA[0] * reA[0] + imA[0] * imA[0];
+        reY[i] = (sr * reA[0] + si * imA[0]) / d;
+        imY[i] = (si * reA[0] - sr * imA[0]) / d;
+    }
+    return T.fromArray(reY, imY);
+}
+
+describe('filter()', () => {
+    it('should compute the impulse response of an IIR filter', () => {
+        let actual = T.filter([1], [1, -0.5], [1, 0, 0, 0, 0]);
+        checkTensor(actual, T.fromArray([1, 0.5, 0.25, 0.125, 0.0625]));
+    });
+    it('should compute a moving average', () => {
+        let actual = T.filter([1, 1, 1], [3], [3, 6, 9, 12, 15]);
+        checkTensor(actual, T.fromArray([1, 3, 6, 9, 12]), 1e-15);
+    });
+    it('should match the difference equation for complex coefficients and inputs', () => {
+        let b = T.fromArray([1, -2, 0.5], [0.5, 1, 0]);
+        let a = T.fromArray([2, 0.3, -0.1, 0.2], [1, 0, 0.2, 0]);
+        let x = T.complex(T.randn([30]), T.randn([30]));
+        let actual = T.filter(b, a, x);
+        checkTensor(actual, differenceEquation(b, a, x), 1e-12);
+    });
+    it('should continue filtering with the final conditions', () => {
+        let b = [1, 2, 3];
+        let a = [2, -0.5, 0.1];
+        let x = T.randn([50]);
+        let [y1, z1] = T.filter(b, a, x.get(':20'), -1, undefined, true);
+        let [y2, z2] = T.filter(b, a, x.get('20:'), -1, z1, true);
+        let [y, z] = T.filter(b, a, x, -1, undefined, true);
+        expect(z1.shape).toEqual([2]);
+        checkTensor(T.concat([y1, y2]), y, 1e-14);
+        checkTensor(z2, z, 1e-14);
+    });
+    it('should filter along the specified axis with initial conditions', () => {
+        let b = [1, -1];
+        let a = [1, 0.5];
+        let X = T.randn([6, 3]);
+        let ZI = T.fromArray([[1, -2, 0.5]]);
+        let [Y, ZF] = T.filter(b, a, X, 0, ZI, true);
+        expect(ZF.shape).toEqual([1, 3]);
+        for (let j = 0;j < 3;j++) {
+            let [y, zf] = T.filter(b, a, X.get(':', j), -1, ZI.get(':', j), true);
+            checkTensor(<Tensor>Y.get(':', j), y, 1e-15);
+            checkTensor(<Tensor>ZF.get(':', j), zf, 1e-15);
+        }
+    });
+    it('should throw for invalid coefficients or initial conditions', () => {
+        expect(() => T.filter([1], [0, 1], [1, 2])).toThrow();
+        expect(() => T.filter([1, 2], [1], [1, 2], -1, [1, 2], false)).toThrow();
+        expect(() => T.filter([1, 2], [1], T.ones([2, 2]), 0, [1, 2], false)).toThrow();
+    });
+});
+
+describe('filtfilt()', () => {
+    it('should not distort a linear signal with a symmetric FIR filter', () => {
+        let x = T.linspace(0, 1, 21);
+        let actual = T.filtfilt([0.25, 0.5, 0.25], [1], x);
+        checkTensor(actual, x, 1e-14);
+    });
+    it('should preserve a constant signal with an IIR filter', () => {
+        let actual = T.filtfilt([0.2], [1, -0.8], T.ones([12]));
+        checkTensor(actual, T.ones([12]), 1e-14);
+    });
+    it('should have zero phase', () => {
+        // For a sinusoid, the steady-state output should be the input scaled
+        // by |H(w)|^2 without any phase shift.
+        let b = [0.1, 0.2, 0.1];
+        let a = [1, -0.9, 0.3];
+        let w = 0.3;
+        let n = T.linspace(0, 199, 200);
+        let x = <Tensor>T.sin(T.mul(n, w));
+        let reB = 0, imB = 0, reA = 0, imA = 0;
+        for (let k = 0;k < 3;k++) {
+            reB += b[k] * Math.cos(w * k);
+            imB -= b[k] * Math.sin(w * k);
+            reA += a[k] * Math.cos(w * k);
+            imA -= a[k] * Math.sin(w * k);
+        }
+        let gain = (reB * reB + imB * imB) / (reA * reA + imA * imA);
+        let actual = <Tensor>T.filtfilt(b, a, x).get('50:150');
+        let expected = <Tensor>T.mul(x.get('50:150'), gain);
+        checkTensor(actual, expected, 1e-10);
+    });
+    it('should filter along the specified axis', () => {
+        let X = T.randn([20, 2]);
+        let Y = T.filtfilt([1, 1], [2], X, 0);
+        checkTensor(<Tensor>Y.get(':', 1), T.filtfilt([1, 1], [2], X.get(':', 1)), 1e-15);
+    });
+    it('should throw if the input is too short', () => {
+        expect(() => T.filtfilt([1, 1, 1], [1], [1, 2, 3, 4, 5, 6])).toThrow();
+    });
+});
+
+describe('conv()', () => {
+    it('should compute the full/same/valid convolutions', () => {
+        checkTensor(T.conv([1, 2, 3], [1, 1]), T.fromArray([1, 3, 5, 3]));
+        checkTensor(T.conv([1, 2, 3], [1, 1], 'same'), T.fromArray([3, 5, 3]));
+        checkTensor(T.conv([1, 2, 3], [1, 1], 'valid'), T.fromArray([3, 5]));
+        checkTensor(T.conv([1, 2], [1, 1, 1], 'valid'), T.zeros([0]));
+    });
+    it('should compute the convolution of complex vectors', () => {
+        let actual = T.conv(T.fromArray([1, 2], [1, 0]), T.fromArray([1, 0, -1], [0, 1, 0]));
+        let expected = T.fromArray([1, 1, -1, -2], [1, 1, 1, 0]);
+        checkTensor(actual, expected, 1e-15);
+    });
+    it('should compute the convolution of long vectors via FFT', () => {
+        let actual = T.conv(T.ones([1000]), T.ones([500]));
+        let expected = T.zeros([1499]);
+        for (let i = 0;i < 1499;i++) {
+            expected.set(i, Math.min(i + 1, 500, 1499 - i));
+        }
+        expect(actual.hasComplexStorage()).toBe(false);
+        checkTensor(actual, expected, 1e-8);
+    });
+    it('should give the same results for complex vectors with and without FFT', () => {
+        let u = T.complex(T.randn([300]), T.randn([300]));
+        let v = T.complex(T.randn([200]), T.randn([200]));
+        let actual = T.conv(u, v);
+        // sum of short convolutions computed directly
+        let expected = T.zeros([499]).ensureComplexStorage();
+        for (let k = 0;k < 200;k += 20) {
+            let range = `${k}:${k + 319}`;
+            expected.set(range, T.add(expected.get(range), T.conv(u, v.get(`${k}:${k + 20}`))));
+        }
+        checkTensor(actual, expected, 1e-10);
+    });
+});
+
+describe('conv2()', () => {
+    let A = T.fromArray([[1, 2, 3], [4, 5, 6], [7, 8, 9]]);
+    let B = T.fromArray([[1, 1], [1, -1]]);
+    it('should compute the full/same/valid 2D convolutions', () => {
+        checkTensor(T.conv2(A, B), T.fromArray(
+            [[1, 3, 5, 3], [5, 10, 12, 3], [11, 16, 18, 3], [7, 1, 1, -9]]));
+        checkTensor(T.conv2(A, B, 'same'), T.fromArray(
+            [[10, 12, 3], [16, 18, 3], [1, 1, -9]]));
+        checkTensor(T.conv2(A, B, 'valid'), T.fromArray([[10, 12], [16, 18]]));
+    });
+    it('should compute the 2D convolution of complex matrices', () => {
+        let C = T.complex(T.randn([4, 3]), T.randn([4, 3]));
+        let D = T.complex(T.randn([2, 2]), T.randn([2, 2]));
+        let actual = T.conv2(C, D);
+        // separate the real and imaginary parts
+        let rr = T.conv2(T.real(C), T.real(D)), ii = T.conv2(T.imag(C), T.imag(D));
+        let ri = T.conv2(T.real(C), T.imag(D)), ir = T.conv2(T.imag(C), T.real(D));
+        let expected = T.complex(<Tensor>T.sub(rr, ii), <Tensor>T.add(ri, ir));
+        checkTensor(actual, expected, 1e-14);
+    });
+    it('should compute the 2D convolution of large matrices via FFT', () => {
+        let actual = T.conv2(T.ones([60, 60]), T.ones([40, 30]));
+        let r = T.conv(T.ones([60]), T.ones([40]));
+        let c = T.conv(T.ones([60]), T.ones([30]));
+        let expected = T.matmul(T.reshape(r, [-1, 1]), T.reshape(c, [1, -1]));
+        checkTensor(actual, expected, 1e-9);
+    });
+});
+
+describe('deconv()', () => {
+    it('should perform polynomial division', () => {
+        let [q, r] = T.deconv([1, 5, 6, 7], [1, 2]);
+        checkTensor(q, T.fromArray([1, 3, 0]));
+        checkTensor(r, T.fromArray([0, 0, 0, 7]));
+    });
+    it('should undo conv() for complex inputs', () => {
+        let b = T.fromArray([2, 1, -1], [1, 0, 3]);
+        let x = T.fromArray([1, -1, 3, 0.5], [0, 2, 1, -1]);
+        let [q, r] = T.deconv(T.conv(b, x), b);
+        checkTensor(q, x, 1e-14);
+        checkTensor(r, T.zeros([6]).ensureComplexStorage(), 1e-14);
+    });
+    it('should return zero quotient if y is shorter than b', () => {
+        let [q, r] = T.deconv([1, 2], [1, 2, 3]);
+        checkTensor(q, T.fromArray([0]));
+        checkTensor(r, T.fromArray([1, 2]));
+    });
+});
+
+describe('xcorr()', () => {
+    it('should compute the auto-correlation', () => {
+        checkTensor(T.xcorr([1, 2, 3]), T.fromArray([3, 8, 14, 8, 3]));
+    });
+    it('should compute the cross-correlation with zero padding', () => {
+        checkTensor(T.xcorr([1, 2, 3], [1, 1]), T.fromArray([0, 1, 3, 5, 3]));
+    });
+    it('should conjugate the second input', () => {
+        let actual = T.xcorr(T.fromArray([1, 0], [0, 1]), T.fromArray([1, 1], [1, 0]));
+        // r[-1] = x[0] conj(y[1]), r[0] = x[0] conj(y[0]) + x[1] conj(y[1]),
+        // r[1] = x[1] conj(y[0])
+        let expected = T.fromArray([1, 1, 1], [0, 0, 1]);
+        checkTensor(actual, expected, 1e-15);
+    });
+    it('should support the maximum lag and normalization options', () => {
+        checkTensor(T.xcorr([1, 2, 3], undefined, 1, 'biased'), T.fromArray([8 / 3, 14 / 3, 8 / 3]), 1e-15);
+        checkTensor(T.xcorr([1, 2, 3], undefined, 3, 'unbiased'), T.fromArray([0, 3, 4, 14 / 3, 4, 3, 0]), 1e-15);
+        checkTensor(T.xcorr([1, 2, 3], undefined, 1, 'coeff'), T.fromArray([8 / 14, 1, 8 / 14]), 1e-15);
+        expect(() => T.xcorr([1, 2, 3], [1, 2], 1, 'coeff')).toThrow();
+    });
+});
+
+describe('Window functions', () => {
+    it('should generate symmetric windows', () => {
+        checkTensor(T.hamming(5), T.fromArray([0.08, 0.54, 1, 0.54, 0.08]), 1e-15);
+        checkTensor(T.hann(5), T.fromArray([0, 0.5, 1, 0.5, 0]), 1e-15);
+        checkTensor(T.blackman(3), T.fromArray([0, 1, 0]), 1e-15);
+    });
+    it('should generate periodic windows', () => {
+        checkTensor(T.hann(4, 'periodic'), T.fromArray([0, 0.5, 1, 0.5]), 1e-15);
+        checkTensor(T.hamming(4, 'periodic'), <Tensor>T.hamming(5).get(':4'), 1e-15);
+    });
+    it('should generate Kaiser windows', () => {
+        let c = 1 / 1.2660658777520082;
+        checkTensor(T.kaiser(3, 1), T.fromArray([c, 1, c]), 1e-15);
+        checkTensor(T.kaiser(4, 0), T.ones([4]));
+        checkTensor(T.kaiser(1), T.ones([1]));
+    });
+    it('should handle windows of length zero and one', () => {
+        expect(T.hann(0).size).toBe(0);
+        checkTensor(T.hann(1), T.ones([1]));
+        expect(() => T.hann(-1)).toThrow();
+    });
+});
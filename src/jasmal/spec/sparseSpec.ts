@@ -0,0 +1,480 @@
+import { JasmalEngine } from '../index';
+import { checkTensor, checkNumber, checkComplex } from './testHelper';
+import { Tensor } from '../lib/core/tensor';
+import { SparseMatrix } from '../lib/core/sparseMatrix';
+import { ComplexNumber } from '../lib/core/complexNumber';
+const T = JasmalEngine.createInstance();
+T.seed(42);
+
+/**
+ * Creates the 2D Laplacian on a n x n grid.
+ */
+function laplacian2d(n: number): SparseMatrix {
+    let rows: number[] = [], cols: number[] = [], values: number[] = [];
+    const add = (i: number, j: number, v: number) => {
+        rows.push(i);
+        cols.push(j);
+        values.push(v);
+    };
+    for (let i = 0;i < n;i++) {
+        for (let j = 0;j < n;j++) {
+            let k = i * n + j;
+            add(k, k, 4);
+            if (i > 0) add(k, k - n, -1);
+            if (i < n - 1) add(k, k + n, -1);
+            if (j > 0) add(k, k - 1, -1);
+            if (j < n - 1) add(k, k + 1, -1);
+        }
+    }
+    return T.sparse(rows, cols, values, [n * n, n * n]);
+}
+
+/**
+ * Creates a random sparse matrix with the specified density.
+ */
+function randSparseDense(shape: number[], density: number): Tensor {
+    return <Tensor>T.mul(T.rand(shape), T.lt(T.rand(shape), density));
+}
+
+describe('sparse()', () => {
+    let A = T.fromArray([[4, 0, 1], [0, 0, 2], [3, 0, 0], [0, 5, 0]]);
+    it('should convert a dense matrix into a CSR sparse matrix', () => {
+        let S = T.sparse(A);
+        expect(T.isSparse(S)).toBe(true);
+        expect(S.format).toBe('csr');
+        expect(S.shape).toEqual([4, 3]);
+        expect(S.nnz).toBe(5);
+        expect(Array.prototype.slice.call(S.indptr)).toEqual([0, 2, 3, 4, 5]);
+        expect(Array.prototype.slice.call(S.indices)).toEqual([0, 2, 2, 0, 1]);
+        checkTensor(T.full(S), A);
+    });
+    it('should convert a dense matrix into a CSC sparse matrix', () => {
+        let S = T.sparse(A, 'csc');
+        expect(S.format).toBe('csc');
+        expect(Array.prototype.slice.call(S.indptr)).toEqual([0, 2, 3, 5]);
+        expect(Array.prototype.slice.call(S.indices)).toEqual([0, 2, 3, 0, 1]);
+        checkTensor(T.full(S), A);
+        checkTensor(T.full(T.sparse(S, 'csr')), A);
+    });
+    it('should create a sparse matrix from triplets and sum up duplicates', () => {
+        let S = T.sparse([0, 2, 2, 1, 0], [1, 0, 0, 2, 1], [1, 2, 3, 4, -1], [3, 3]);
+        // (0, 1) cancels out
+        expect(S.nnz).toBe(2);
+        checkTensor(T.full(S), T.fromArray([[0, 0, 0], [0, 0, 4], [5, 0, 0]]));
+    });
+    it('should infer the shape from the indices and expand scalar values', () => {
+        let S = T.sparse([0, 4], [1, 1], 2);
+        expect(S.shape).toEqual([5, 2]);
+        checkNumber(S.get(4, 1), 2);
+        checkNumber(S.get(3, 1), 0);
+    });
+    it('should create a complex sparse matrix', () => {
+        let C = T.fromArray([[1, 0], [0, 2]], [[0, 0], [-1, 3]]);
+        let S = T.sparse(C);
+        expect(S.hasComplexStorage()).toBe(true);
+        checkComplex(S.get(1, 0), new ComplexNumber(0, -1));
+        checkTensor(T.full(S), C);
+    });
+    it('should throw when indices are out of bounds', () => {
+        expect(() => T.sparse([0, 3], [0, 1], [1, 1], [3, 3])).toThrow();
+    });
+});
+
+describe('speye()', () => {
+    it('should create a sparse identity matrix', () => {
+        checkTensor(T.full(T.speye(3)), T.eye(3));
+        checkTensor(T.full(T.speye(2, 4, 'csc')), T.eye(2, 4));
+    });
+});
+
+describe('Sparse matrix arithmetic', () => {
+    let A = randSparseDense([12, 10], 0.3);
+    let B = randSparseDense([12, 10], 0.3);
+    let C = T.complex(randSparseDense([12, 10], 0.3), randSparseDense([12, 10], 0.3));
+    it('should add and subtract sparse matrices', () => {
+        checkTensor(T.full(T.spadd(T.sparse(A), T.sparse(B, 'csc'))), <Tensor>T.add(A, B), 1e-15);
+        checkTensor(T.full(T.spsub(T.sparse(A, 'csc'), T.sparse(C))), <Tensor>T.sub(A, C), 1e-15);
+    });
+    it('should add a sparse matrix and a dense matrix', () => {
+        checkTensor(T.spadd(T.sparse(A), B), <Tensor>T.add(A, B), 1e-15);
+        checkTensor(T.spsub(B, T.sparse(A)), <Tensor>T.sub(B, A), 1e-15);
+    });
+    it('should perform element-wise multiplication', () => {
+        checkTensor(T.full(T.spmul(T.sparse(A), T.sparse(C, 'csc'))), <Tensor>T.mul(A, C), 1e-15);
+        checkTensor(T.full(T.spmul(T.sparse(A), B)), <Tensor>T.mul(A, B), 1e-15);
+        checkTensor(T.full(T.spmul(2, T.sparse(A, 'csc'))), <Tensor>T.mul(A, 2), 1e-15);
+        let v = T.rand([10]);
+        checkTensor(T.full(T.spmul(T.sparse(A), v)), <Tensor>T.mul(A, v), 1e-15);
+    });
+    it('should transpose a sparse matrix', () => {
+        let S = T.sparse(C);
+        let St = T.transpose(S);
+        expect(St.format).toBe('csc');
+        checkTensor(T.full(St), T.transpose(C));
+        checkTensor(T.full(T.hermitian(S)), T.hermitian(C));
+    });
+});
+
+describe('matmul() with sparse matrices', () => {
+    let A = randSparseDense([8, 12], 0.3);
+    let B = randSparseDense([12, 6], 0.3);
+    let C = T.complex(randSparseDense([12, 6], 0.3), randSparseDense([12, 6], 0.3));
+    let formats: Array<'csr' | 'csc'> = ['csr', 'csc'];
+    for (let fx of formats) {
+        for (let fy of formats) {
+            it(`should multiply a ${fx} matrix by a ${fy} matrix`, () => {
+                let Z = T.matmul(T.sparse(A, fx), T.sparse(B, fy));
+                expect(Z.format).toBe(fx);
+                checkTensor(T.full(Z), T.matmul(A, B), 1e-14);
+                checkTensor(T.full(T.matmul(T.sparse(A, fx), T.sparse(C, fy))), T.matmul(A, C), 1e-14);
+            });
+        }
+        it(`should multiply a ${fx} matrix by a dense matrix and vice versa`, () => {
+            checkTensor(T.matmul(T.sparse(A, fx), B), T.matmul(A, B), 1e-14);
+            checkTensor(T.matmul(A, T.sparse(B, fx)), T.matmul(A, B), 1e-14);
+            checkTensor(T.matmul(T.sparse(A, fx), C), T.matmul(A, C), 1e-14);
+        });
+        it(`should support the yModifier for a ${fx} matrix`, () => {
+            checkTensor(T.full(T.matmul(T.sparse(A, fx), T.sparse(T.hermitian(C), fx), T.MM_HERMITIAN)),
+                T.matmul(A, C), 1e-14);
+            checkTensor(T.matmul(T.sparse(A, fx), T.transpose(B), T.MM_TRANSPOSED), T.matmul(A, B), 1e-14);
+        });
+    }
+    it('should throw when the dimensions are not compatible', () => {
+        expect(() => T.matmul(T.sparse(A), T.sparse(A))).toThrow();
+    });
+});
+
+describe('splu()', () => {
+    it('should compute the sparse LU decomposition of a nonsymmetric matrix', () => {
+        let A = <Tensor>T.add(randSparseDense([30, 30], 0.1), T.eye(30));
+        for (let ordering of ['rcm', 'natural']) {
+            let [L, U, p, q] = T.splu(T.sparse(A), <'rcm' | 'natural'>ordering);
+            checkTensor(T.full(L), T.tril(T.full(L)));
+            checkTensor(T.diag(T.full(L)), T.ones([30]));
+            checkTensor(T.full(U), T.triu(T.full(U)));
+            checkTensor(T.matmul(L, T.full(U)), <Tensor>(<Tensor>A.get(p, ':')).get(':', q), 1e-14);
+        }
+    });
+    it('should throw for a singular matrix', () => {
+        expect(() => T.splu(T.sparse([[1, 2], [2, 4]]))).toThrow();
+    });
+    it('should reduce fill-in with the reverse Cuthill-McKee ordering', () => {
+        let A = laplacian2d(15);
+        let [L1, ] = T.splu(A, 'rcm');
+        let [L2, ] = T.splu(A, 'natural');
+        expect(L1.nnz).toBeLessThan(L2.nnz);
+    });
+});
+
+describe('spsolve()', () => {
+    it('should solve a sparse linear system with multiple right-hand sides', () => {
+        let A = <Tensor>T.add(randSparseDense([40, 40], 0.1), T.mul(T.eye(40), 2));
+        let B = T.rand([40, 3]);
+        let X = T.spsolve(T.sparse(A, 'csc'), B);
+        checkTensor(T.matmul(A, X), B, 1e-12);
+    });
+    it('should solve a sparse linear system with a complex vector', () => {
+        let A = <Tensor>T.add(randSparseDense([20, 20], 0.1), T.mul(T.eye(20), 2));
+        let b = T.complex(T.rand([20]), T.rand([20]));
+        let x = T.spsolve(T.sparse(A), b);
+        expect(x.shape).toEqual([20]);
+        checkTensor(T.matmul(A, T.reshape(x, [-1, 1])), T.reshape(b, [-1, 1]), 1e-12);
+    });
+});
+
+describe('Sparse matrices with general functions', () => {
+    let D = T.fromArray([[4, 0, 1], [0, 0, 2], [3, 0, 0]]);
+    let S = T.sparse(D);
+    it('add() and sub() should accept sparse matrices', () => {
+        let Z = T.add(S, S);
+        expect(Z instanceof SparseMatrix).toBe(true);
+        checkTensor(T.full(Z), <Tensor>T.mul(D, 2));
+        expect(T.sub(S, T.sparse(D, 'csc')).nnz).toBe(0);
+        let Y = T.add(S, 1);
+        expect(Y instanceof Tensor).toBe(true);
+        checkTensor(Y, <Tensor>T.add(D, 1));
+        checkTensor(T.sub([1, 2, 3], S), <Tensor>T.sub([1, 2, 3], D));
+    });
+    it('mul() should accept sparse matrices', () => {
+        let Z = T.mul(S, 2);
+        expect(Z instanceof SparseMatrix).toBe(true);
+        checkTensor(T.full(Z), <Tensor>T.mul(D, 2));
+        checkTensor(T.full(T.mul([1, 2, 3], S)), <Tensor>T.mul(D, [1, 2, 3]));
+        checkTensor(T.full(T.mul(S, S)), <Tensor>T.mul(D, D));
+    });
+    it('should throw for in-place operations on sparse matrices', () => {
+        expect(() => T.add(<any>S, 1, true)).toThrow();
+        expect(() => T.mul(D, <any>S, true)).toThrow();
+    });
+    it('linsolve() and mldivide() should accept sparse matrices', () => {
+        let A = laplacian2d(4);
+        let b = T.linspace(1, 16, 16);
+        let expected = T.linsolve(T.full(A), b);
+        checkTensor(T.linsolve(A, b), expected, 1e-12);
+        checkTensor(T.mldivide(A, b), expected, 1e-12);
+        checkTensor(T.mldivide(T.full(A), T.sparse(T.eye(16))), T.inv(T.full(A)), 1e-12);
+        // complex and non-square sparse matrices are converted into dense ones
+        let C = T.fromArray([[2, 0], [1, 1]], [[1, 0], [0, 1]]);
+        checkTensor(T.linsolve(T.sparse(C), [1, 2]), T.linsolve(C, [1, 2]), 1e-15);
+        let R = T.fromArray([[1, 0], [0, 1], [1, 1]]);
+        checkTensor(T.mldivide(T.sparse(R), [1, 2, 3]), T.mldivide(R, [1, 2, 3]), 1e-15);
+    });
+    it('toString() should print small sparse matrices as dense matrices', () => {
+        expect(S.toString()).toBe('3x3 sparse matrix (csr, nnz = 4)\n' + D.toString());
+        expect(T.format(T.sparse(D, 'csc'), { format: 'shortest' })).toBe(
+            '3x3 sparse matrix (csc, nnz = 4)\n' + D.toString({ format: 'shortest' }));
+    });
+    it('toString() should list the stored elements of large sparse matrices', () => {
+        let A = T.sparse([0, 2, 1], [1, 0, 3], [1, -2, 3], [100, 100], 'csc');
+        expect(A.toString({ format: 'shortest' })).toBe([
+            '100x100 sparse matrix (csc, nnz = 3)',
+            'rows: [ 2,  0,  1]',
+            'cols: [ 0,  1,  3]',
+            'values: [-2,  1,  3]'
+        ].join('\n'));
+    });
+});
+
+describe('cg()', () => {
+    it('should solve a sparse symmetric positive definite system', () => {
+        let A = laplacian2d(20);
+        let b = T.rand([400]);
+        let [x, flag, relres, iter] = T.cg(A, b, { tol: 1e-10 });
+        expect(flag).toBe(0);
+        expect(relres).toBeLessThanOrEqual(1e-10);
+        expect(iter).toBeGreaterThan(0);
+        checkTensor(x, T.spsolve(A, b), 1e-8);
+    });
+    it('should solve a dense symmetric positive definite system with an initial guess', () => {
+        let R = T.rand([10, 10]);
+        let A = <Tensor>T.add(T.matmul(R, R, T.MM_TRANSPOSED), T.eye(10));
+        let b = T.rand([10, 1]);
+        let x0 = T.rand([10, 1]);
+        let [x, flag] = T.cg(A, b, { tol: 1e-12, maxIter: 100, x0: x0 });
+        expect(flag).toBe(0);
+        expect(x.shape).toEqual([10, 1]);
+        checkTensor(T.matmul(A, x), b, 1e-10);
+    });
+    it('should report non-convergence', () => {
+        let [, flag, , iter] = T.cg(laplacian2d(20), T.ones([400]), { maxIter: 3 });
+        expect(flag).toBe(1);
+        expect(iter).toBe(3);
+    });
+    it('should return a zero vector for a zero right-hand side', () => {
+        let [x, flag] = T.cg(laplacian2d(3), T.zeros([9]));
+        expect(flag).toBe(0);
+        checkTensor(x, T.zeros([9]));
+    });
+});
+
+describe('gmres()', () => {
+    it('should solve a sparse nonsymmetric system', () => {
+        let A = <Tensor>T.add(randSparseDense([50, 50], 0.1), T.mul(T.eye(50), 3));
+        let b = T.rand([50]);
+        let [x, flag, relres] = T.gmres(T.sparse(A), b, { tol: 1e-12, restart: 10, maxIter: 500 });
+        expect(flag).toBe(0);
+        expect(relres).toBeLessThanOrEqual(1e-12);
+        checkTensor(T.matmul(A, T.reshape(x, [-1, 1])), T.reshape(b, [-1, 1]), 1e-10);
+    });
+    it('should solve a dense system without restarts', () => {
+        let A = <Tensor>T.add(T.rand([15, 15]), T.mul(T.eye(15), 2));
+        let b = T.rand([15, 1]);
+        let [x, flag, , iter] = T.gmres(A, b, { tol: 1e-12, restart: 15 });
+        expect(flag).toBe(0);
+        expect(iter).toBeLessThanOrEqual(15);
+        checkTensor(T.matmul(A, x), b, 1e-10);
+    });
+    it('should reject complex matrices', () => {
+        expect(() => T.gmres(T.sparse(T.fromArray([[1, 0], [0, 1]], [[1, 0], [0, 0]])), [1, 1])).toThrow();
+    });
+});
+
+describe('pcg()', () => {
+    it('should accept a matrix-vector product function and record the residual history', () => {
+        let A = laplacian2d(10);
+        let b = T.rand([100]);
+        let [x, flag, relres, iter, resvec] = T.pcg(
+            (v: Tensor) => T.matmul(A, T.reshape(v, [-1, 1])), b, { tol: 1e-10 });
+        expect(flag).toBe(0);
+        expect(resvec.shape).toEqual([iter + 1]);
+        checkNumber(resvec.realData[iter], relres);
+        checkTensor(x, T.spsolve(A, b), 1e-8);
+    });
+    it('should converge faster with a preconditioner', () => {
+        // badly scaled diagonal
+        let d = T.linspace(1, 1000, 50);
+        let A = <Tensor>T.add(T.diag(d), T.mul(T.ones([50, 50]), 0.1));
+        let b = T.ones([50]);
+        let [, flag1, , iter1] = T.pcg(A, b, { tol: 1e-10, maxIter: 200 });
+        let [x, flag2, , iter2] = T.pcg(A, b, { tol: 1e-10, maxIter: 200, M: 'jacobi' });
+        expect(flag1).toBe(0);
+        expect(flag2).toBe(0);
+        expect(iter2).toBeLessThan(iter1);
+        checkTensor(x, T.linsolve(A, b), 1e-8);
+        // exact preconditioner converges in one iteration
+        let [, , , iter3] = T.pcg(A, b, { tol: 1e-10, M: A });
+        expect(iter3).toBe(1);
+    });
+    it('should detect an indefinite preconditioner', () => {
+        let [, flag] = T.pcg(laplacian2d(5), T.ones([25]), { M: T.mul(T.eye(25), -1) });
+        expect(flag).toBe(2);
+    });
+});
+
+describe('bicgstab()', () => {
+    it('should solve a sparse nonsymmetric system', () => {
+        let A = <Tensor>T.add(randSparseDense([50, 50], 0.1), T.mul(T.eye(50), 3));
+        let b = T.rand([50]);
+        let [x, flag, relres, , resvec] = T.bicgstab(T.sparse(A), b, { tol: 1e-12, maxIter: 200 });
+        expect(flag).toBe(0);
+        expect(relres).toBeLessThanOrEqual(1e-12);
+        expect(resvec.realData[0]).toBe(1);
+        checkTensor(T.matmul(A, T.reshape(x, [-1, 1])), T.reshape(b, [-1, 1]), 1e-10);
+    });
+    it('should support preconditioners given as functions', () => {
+        let A = <Tensor>T.add(T.rand([20, 20]), T.diag(T.linspace(1, 100, 20)));
+        let b = T.rand([20]);
+        let d = T.diag(A);
+        let [x, flag] = T.bicgstab(A, b, {
+            tol: 1e-12,
+            M: (v: Tensor) => T.div(v, d)
+        });
+        expect(flag).toBe(0);
+        checkTensor(x, T.linsolve(A, b), 1e-9);
+    });
+});
+
+describe('gmres()', () => {
+    it('should report the true residual with a right preconditioner', () => {
+        let A = <Tensor>T.add(T.rand([30, 30]), T.diag(T.linspace(1, 50, 30)));
+        let b = T.rand([30]);
+        let [x, flag, relres, iter, resvec] = T.gmres(T.sparse(A), b, { tol: 1e-12, M: 'jacobi' });
+        expect(flag).toBe(0);
+        checkNumber(resvec.realData[resvec.size - 1], relres);
+        expect(iter).toBeLessThanOrEqual(30);
+        checkNumber(<number>T.norm(T.sub(T.matmul(A, T.reshape(x, [-1, 1])), T.reshape(b, [-1, 1])), 2) /
+            <number>T.norm(b, 2), relres, 1e-10);
+    });
+});
+
+describe('lsqr()', () => {
+    it('should solve an overdetermined least squares problem', () => {
+        let A = T.rand([40, 10]);
+        let b = T.rand([40]);
+        let [x, flag, relres] = T.lsqr(A, b, { tol: 1e-12, maxIter: 100 });
+        expect(flag).toBe(0);
+        expect(x.shape).toEqual([10]);
+        let xExpected = T.linsolve(A, b);
+        checkTensor(x, xExpected, 1e-8);
+        let r = T.sub(T.matmul(A, T.reshape(xExpected, [-1, 1])), T.reshape(b, [-1, 1]));
+        checkNumber(relres, <number>T.norm(r, 2) / <number>T.norm(b, 2), 1e-8);
+    });
+    it('should work with a function computing A x and A^T x', () => {
+        let A = T.sparse(randSparseDense([30, 15], 0.3));
+        let b = T.rand([30]);
+        let f = (v: Tensor, transpose: boolean) => transpose
+            ? T.matmul(T.transpose(A), T.reshape(v, [-1, 1]))
+            : T.matmul(A, T.reshape(v, [-1, 1]));
+        let [x1, flag1] = T.lsqr(f, b, { tol: 1e-12, maxIter: 100 });
+        let [x2, flag2] = T.lsqr(A, b, { tol: 1e-12, maxIter: 100, M: T.diag(T.linspace(1, 2, 15)) });
+        expect(flag1).toBe(0);
+        expect(flag2).toBe(0);
+        checkTensor(x1, x2, 1e-8);
+    });
+    it('should solve a consistent square system', () => {
+        let A = laplacian2d(5);
+        let b = T.rand([25]);
+        let [x, flag, relres] = T.lsqr(A, b, { tol: 1e-12, maxIter: 100 });
+        expect(flag).toBe(0);
+        expect(relres).toBeLessThanOrEqual(1e-12);
+        checkTensor(x, T.spsolve(A, b), 1e-9);
+    });
+});
+
+describe('eigs()', () => {
+    // The eigenvalues of the 2D Laplacian are
+    // 4 - 2 cos(i pi / (n + 1)) - 2 cos(j pi / (n + 1)).
+    const laplacianEigenvalues = (n: number): number[] => {
+        let ev: number[] = [];
+        for (let i = 1;i <= n;i++) {
+            for (let j = 1;j <= n;j++) {
+                ev.push(4 - 2 * Math.cos(i * Math.PI / (n + 1)) - 2 * Math.cos(j * Math.PI / (n + 1)));
+            }
+        }
+        return ev.sort((a, b) => a - b);
+    };
+
+    it('should compute the largest eigenvalues of a sparse symmetric matrix', () => {
+        let A = laplacian2d(12);
+        let [V, D, flag] = T.eigs(A, 3);
+        expect(flag).toBe(0);
+        expect(V.shape).toEqual([144, 3]);
+        let ev = laplacianEigenvalues(12).reverse();
+        checkTensor(T.diag(D), T.fromArray([ev[0], ev[1], ev[3]]), 1e-10);
+        checkTensor(T.matmul(A, V), T.matmul(V, D), 1e-8);
+    });
+    it('should compute the smallest eigenvalues using shift-invert', () => {
+        let A = laplacian2d(12);
+        let [V, D, flag] = T.eigs(A, 4, { sigma: 'smallestabs' });
+        expect(flag).toBe(0);
+        let ev = laplacianEigenvalues(12);
+        checkTensor(T.diag(D), T.fromArray(ev.slice(0, 4)), 1e-10);
+        checkTensor(T.matmul(T.transpose(V), V), T.eye(4), 1e-10);
+    });
+    it('should compute the eigenvalues closest to a shift', () => {
+        let d = T.linspace(1, 40, 40);
+        let [, D, flag] = T.eigs(T.diag(d), 2, { sigma: 10.2 });
+        expect(flag).toBe(0);
+        checkTensor(T.diag(D), T.fromArray([10, 11]), 1e-10);
+    });
+    it('should compute complex eigenvalues of a nonsymmetric matrix', () => {
+        let A = T.randn([40, 40]);
+        let [V, D, flag] = T.eigs(A, 4, { sigma: 'largestreal' });
+        expect(flag).toBe(0);
+        checkTensor(T.matmul(A, V), T.matmul(V, D), 1e-8);
+        let e = T.eig(A, true);
+        let maxReal = Math.max.apply(null, Array.prototype.slice.call(T.real(e).realData));
+        checkNumber(T.real(T.diag(D)).realData[0], maxReal, 1e-10);
+    });
+    it('should accept a function with the dimension specified', () => {
+        let A = laplacian2d(8);
+        let f = (v: Tensor) => T.matmul(A, T.reshape(v, [-1, 1]));
+        let [, D, flag] = T.eigs(f, 2, { n: 64, isSymmetric: true, sigma: 'smallestreal' });
+        expect(flag).toBe(0);
+        let ev = laplacianEigenvalues(8);
+        checkTensor(T.diag(D), T.fromArray([ev[0], ev[1]]), 1e-10);
+        expect(() => T.eigs(f, 2)).toThrow();
+    });
+});
+
+describe('svds()', () => {
+    it('should compute the largest singular values', () => {
+        let A = T.rand([60, 25]);
+        let [U, S, V, flag] = T.svds(A, 3);
+        expect(flag).toBe(0);
+        expect(U.shape).toEqual([60, 3]);
+        expect(V.shape).toEqual([25, 3]);
+        checkTensor(T.diag(S), <Tensor>T.svd(A, true).get(':3'), 1e-10);
+        checkTensor(T.matmul(A, V), T.matmul(U, S), 1e-10);
+        checkTensor(T.matmul(T.transpose(U), U), T.eye(3), 1e-10);
+    });
+    it('should compute the smallest singular values of a wide sparse matrix', () => {
+        let A = <Tensor>T.add(randSparseDense([15, 30], 0.2), T.concat([T.eye(15), T.zeros([15, 15])], 1));
+        let [U, S, V, flag] = T.svds(T.sparse(A), 2, { sigma: 'smallest' });
+        expect(flag).toBe(0);
+        let s = T.svd(A, true);
+        checkTensor(T.diag(S), T.fromArray([s.realData[14], s.realData[13]]), 1e-8);
+        checkTensor(T.matmul(T.transpose(A), U), T.matmul(V, S), 1e-8);
+    });
+    it('should accept a function with the shape specified', () => {
+        let A = T.rand([20, 30]);
+        let f = (v: Tensor, transpose: boolean) => transpose
+            ? T.matmul(T.transpose(A), T.reshape(v, [-1, 1]))
+            : T.matmul(A, T.reshape(v, [-1, 1]));
+        expect(() => T.svds(f, 2)).toThrow();
+        let [, S, , flag] = T.svds(f, 2, { shape: [20, 30] });
+        expect(flag).toBe(0);
+        checkTensor(T.diag(S), <Tensor>T.svd(A, true).get(':2'), 1e-10);
+    });
+});
@@ -0,0 +1,149 @@
+import { JasmalEngine } from '../index';
+import { Tensor } from '../lib/core/tensor';
+import { checkTensor, checkNumber } from './testHelper';
+const T = JasmalEngine.createInstance();
+
+describe('normdist()', () => {
+    let N = T.normdist();
+    it('should evaluate the pdf, cdf and inverse cdf', () => {
+        checkNumber(N.pdf(1), 0.24197072451914337, 14, false);
+        checkNumber(N.logpdf(0), -0.91893853320467274, 14, false);
+        checkTensor(N.cdf([-1.96, 0, 8]), T.fromArray([0.024997895148220436, 0.5, 0.99999999999999938]), 13, false);
+        checkTensor(N.icdf([0, 0.5, 0.975, 1]), T.fromArray([-Infinity, 0, 1.959963984540054, Infinity]), 14);
+    });
+    it('should broadcast the parameters against the inputs', () => {
+        let D = T.normdist([0, 1], [[1], [2]]);
+        let actual = D.cdf(1);
+        let expected = T.fromArray([[0.84134474606854293, 0.5], [0.69146246127401310, 0.5]]);
+        checkTensor(actual, expected, 14, false);
+        checkTensor(<Tensor>D.mean(), T.fromArray([[0, 1], [0, 1]]));
+        checkTensor(<Tensor>D.var(), T.fromArray([[1, 1], [4, 4]]));
+    });
+    it('should return NaN for invalid parameters', () => {
+        let D = T.normdist(0, -1);
+        expect(D.pdf(0)).toBeNaN();
+        expect(D.cdf(0)).toBeNaN();
+        expect(D.icdf(0.5)).toBeNaN();
+        expect(N.icdf(1.5)).toBeNaN();
+    });
+});
+
+describe('tdist()', () => {
+    let D = T.tdist([1, 5, 30]);
+    it('should evaluate the pdf, cdf and inverse cdf', () => {
+        checkTensor(D.pdf(0.3), T.fromArray([0.29202741851723913, 0.35982432834900974, 0.37768275260924334]), 13, false);
+        checkTensor(D.cdf(2), T.fromArray([0.85241638234956672, 0.94903026058507082, 0.97268747751850846]), 13, false);
+        checkTensor(D.icdf(0.975), T.fromArray([12.706204736174705, 2.5705818356363155, 2.0422724563012383]), 12, false);
+        checkTensor(D.cdf(D.icdf([[1e-10], [0.3], [0.5]])), T.fromArray([[1e-10, 1e-10, 1e-10], [0.3, 0.3, 0.3], [0.5, 0.5, 0.5]]), 12, false);
+    });
+    it('should compute the moments', () => {
+        checkTensor(D.mean(), T.fromArray([NaN, 0, 0]));
+        checkTensor(D.var(), T.fromArray([NaN, 5 / 3, 30 / 28]), 1e-15);
+    });
+});
+
+describe('chi2dist()', () => {
+    it('should evaluate the cdf and inverse cdf', () => {
+        let D = T.chi2dist([1, 3, 100]);
+        checkTensor(D.cdf(2.5), T.fromArray([0.88615370199334195, 0.52470891665697941, 6.7659612195100797e-61]), 13, false);
+        checkTensor(D.icdf(0.95), T.fromArray([3.841458820694126, 7.81472790325118, 124.34211340400408]), 13, false);
+        checkTensor(D.var(), T.fromArray([2, 6, 200]));
+    });
+});
+
+describe('fdist()', () => {
+    it('should evaluate the pdf, cdf and inverse cdf', () => {
+        let D = T.fdist([3, 10], [7, 2]);
+        checkTensor(D.cdf(1.5), T.fromArray([0.70419108070356232, 0.53482498589646696]), 13, false);
+        checkTensor(D.icdf(0.95), T.fromArray([4.3468313999078181, 19.395896723571754]), 13, false);
+        checkNumber(T.fdist(3, 7).icdf(1e-8), 3.5046571139783179e-6, 12, false);
+        checkNumber(T.fdist(2, 5).pdf(0), 1);
+        checkTensor(D.mean(), T.fromArray([1.4, NaN]), 1e-15);
+    });
+});
+
+describe('gamdist() and expdist()', () => {
+    it('should evaluate the gamma distribution', () => {
+        let D = T.gamdist(2.5, 3);
+        checkTensor(D.cdf([-1, 0, 1, 7.5, 50]),
+            T.fromArray([0, 0, 0.015252120981490969, 0.58411981300449208, 0.99999676877765453]), 13, false);
+        checkNumber(D.pdf(4), 0.10176333733433286, 13, false);
+        checkNumber(D.cdf(D.icdf(0.3)), 0.3, 1e-15);
+        expect(D.mean()).toBe(7.5);
+        expect(D.var()).toBe(22.5);
+    });
+    it('should evaluate the exponential distribution', () => {
+        let D = T.expdist(2);
+        checkTensor(D.cdf([-1, 1e-20, 1]), T.fromArray([0, 5e-21, 0.39346934028736658]), 14, false);
+        checkTensor(D.icdf([1e-20, 0.5]), T.fromArray([2e-20, 2 * Math.LN2]), 14, false);
+        expect(D.pdf(-1)).toBe(0);
+    });
+});
+
+describe('betadist()', () => {
+    it('should evaluate the beta distribution', () => {
+        let D = T.betadist(2, 5);
+        checkNumber(D.cdf(0.3), 0.579825, 14, false);
+        checkNumber(D.pdf(0.3), 2.1609, 14, false);
+        checkNumber(D.cdf(D.icdf(0.9)), 0.9, 1e-15);
+        checkNumber(D.var(), 10 / 392, 1e-15);
+        expect(T.betadist(0.5, 2).pdf(0)).toBe(Infinity);
+    });
+});
+
+describe('poissdist()', () => {
+    it('should evaluate the Poisson distribution', () => {
+        let D = T.poissdist([0.5, 10]);
+        checkTensor(D.pdf(3), T.fromArray([0.012636055410679863, 0.0075666549604141419]), 13, false);
+        checkTensor(D.pdf(2.5), T.fromArray([0, 0]));
+        checkTensor(D.cdf(9), T.fromArray([0.999999999829033, 0.45792971447185221]), 13, false);
+        checkTensor(D.icdf([[0], [0.9], [1]]), T.fromArray([[0, 0], [1, 14], [Infinity, Infinity]]));
+    });
+});
+
+describe('binodist()', () => {
+    it('should evaluate the binomial distribution', () => {
+        let D = T.binodist(20, 0.3);
+        checkTensor(D.pdf([6, 2.5, 21]), T.fromArray([0.19163898275344258, 0, 0]), 13, false);
+        checkTensor(D.cdf([-1, 6, 20]), T.fromArray([0, 0.60800981220092396, 1]), 13, false);
+        checkTensor(D.icdf([0, 0.5, 0.9, 1]), T.fromArray([0, 6, 9, 20]));
+        expect(D.mean()).toBe(6);
+        expect(T.binodist(2.5, 0.3).pdf(1)).toBeNaN();
+    });
+});
+
+describe('unifdist()', () => {
+    it('should evaluate the uniform distribution', () => {
+        let D = T.unifdist(-1, 3);
+        expect(D.pdf(0)).toBe(0.25);
+        expect(D.pdf(4)).toBe(0);
+        expect(D.cdf(0)).toBe(0.25);
+        expect(D.icdf(0.25)).toBe(0);
+        expect(D.mean()).toBe(1);
+        expect(D.var()).toBe(4 / 3);
+    });
+});
+
+describe('IDistribution.sample()', () => {
+    it('should use the RNG engine of the instance', () => {
+        // restoring the state also discards the cached normal sample
+        let state = T.rngState();
+        T.rngState(state);
+        let x = T.normdist(1, 2).sample([5]);
+        T.rngState(state);
+        let y = T.add(1, T.mul(2, T.randn([5])));
+        checkTensor(x, <Tensor>y, 1e-15);
+    });
+    it('should broadcast the parameters against the shape', () => {
+        T.seed(42);
+        let x = <Tensor>T.unifdist([0, 10], [1, 11]).sample([1000, 2]);
+        expect(x.shape).toEqual([1000, 2]);
+        let m = <Tensor>T.mean(x, 0);
+        checkTensor(m, T.fromArray([0.5, 10.5]), 0.05);
+        expect(() => T.unifdist([0, 10], [1, 11]).sample([3])).toThrow();
+    });
+    it('should return a number for scalar parameters', () => {
+        expect(typeof T.fdist(3, 5).sample()).toBe('number');
+        expect(T.tdist(-1).sample()).toBeNaN();
+    });
+});
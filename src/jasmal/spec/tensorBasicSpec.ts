@@ -2,7 +2,7 @@ import { JasmalEngine } from '../index';
 import { ComplexNumber } from '../lib/core/complexNumber';
 import { Tensor } from '../lib/core/tensor';
 import { checkArrayLike, checkTensor } from './testHelper';
-import { DType } from '../lib/core/dtype';
+import { DType, DTypeHelper } from '../lib/core/dtype';
 import { TensorStorage } from '../lib/core/storage';
 const T = JasmalEngine.createInstance();
 
@@ -11,6 +11,39 @@ describe('DType constants', () => {
         expect(T.LOGIC).toEqual(DType.LOGIC);
         expect(T.INT32).toEqual(DType.INT32);
         expect(T.FLOAT64).toEqual(DType.FLOAT64);
+        expect(T.INT8).toEqual(DType.INT8);
+        expect(T.INT16).toEqual(DType.INT16);
+        expect(T.UINT8).toEqual(DType.UINT8);
+        expect(T.UINT16).toEqual(DType.UINT16);
+        expect(T.UINT32).toEqual(DType.UINT32);
+        expect(T.FLOAT32).toEqual(DType.FLOAT32);
+    });
+});
+
+describe('DTypeHelper.getWiderType()', () => {
+    it('should treat LOGIC as the narrowest type', () => {
+        expect(DTypeHelper.getWiderType(DType.LOGIC, DType.UINT8)).toBe(DType.UINT8);
+        expect(DTypeHelper.getWiderType(DType.FLOAT32, DType.LOGIC)).toBe(DType.FLOAT32);
+    });
+    it('should promote integers of the same signedness to the larger one', () => {
+        expect(DTypeHelper.getWiderType(DType.INT8, DType.INT32)).toBe(DType.INT32);
+        expect(DTypeHelper.getWiderType(DType.UINT16, DType.UINT8)).toBe(DType.UINT16);
+    });
+    it('should promote mixed signed and unsigned integers', () => {
+        expect(DTypeHelper.getWiderType(DType.INT8, DType.UINT8)).toBe(DType.INT16);
+        expect(DTypeHelper.getWiderType(DType.UINT16, DType.INT16)).toBe(DType.INT32);
+        expect(DTypeHelper.getWiderType(DType.INT16, DType.UINT8)).toBe(DType.INT16);
+        expect(DTypeHelper.getWiderType(DType.INT32, DType.UINT32)).toBe(DType.FLOAT64);
+    });
+    it('should promote integers and floats', () => {
+        expect(DTypeHelper.getWiderType(DType.FLOAT32, DType.UINT16)).toBe(DType.FLOAT32);
+        expect(DTypeHelper.getWiderType(DType.INT32, DType.FLOAT32)).toBe(DType.FLOAT64);
+        expect(DTypeHelper.getWiderType(DType.FLOAT32, DType.FLOAT64)).toBe(DType.FLOAT64);
+    });
+    it('isWiderType() should be consistent with getWiderType()', () => {
+        expect(DTypeHelper.isWiderType(DType.INT16, DType.UINT8)).toBe(false);
+        expect(DTypeHelper.isWiderType(DType.UINT8, DType.INT8)).toBe(true);
+        expect(DTypeHelper.isWiderType(DType.FLOAT32, DType.INT32)).toBe(true);
     });
 });
 
@@ -81,6 +114,32 @@ describe('Tensor creation', () => {
             expect(arrRe[0]).toBe(1); 
             expect(arrIm[0]).toBe(-1); 
         });
+        it('should infer the data type from typed arrays', () => {
+            let A = T.fromArray(new Uint8Array([0, 128, 255]));
+            expect(A.dtype).toBe(DType.UINT8);
+            checkArrayLike(A.realData, [0, 128, 255]);
+            expect(T.fromArray(new Int8Array([-1])).dtype).toBe(DType.INT8);
+            expect(T.fromArray(new Int16Array([-1])).dtype).toBe(DType.INT16);
+            expect(T.fromArray(new Uint16Array([1])).dtype).toBe(DType.UINT16);
+            expect(T.fromArray(new Uint32Array([1])).dtype).toBe(DType.UINT32);
+            expect(T.fromArray(new Float32Array([1])).dtype).toBe(DType.FLOAT32);
+            expect(T.fromArray(new Uint8ClampedArray([1])).dtype).toBe(DType.UINT8);
+            // the wider type between the real part and the imaginary part
+            let B = T.fromArray(new Int8Array([1, 2]), new Uint8Array([3, 4]));
+            expect(B.dtype).toBe(DType.INT16);
+            // explicitly specified data type takes precedence
+            expect(T.fromArray(new Uint8Array([1, 0]), [], DType.LOGIC).dtype).toBe(DType.LOGIC);
+        });
+        it('should create tensors with narrow data types from JavaScript arrays', () => {
+            let A = T.fromArray([[1.5, -2], [300, 4]], [], DType.INT16);
+            expect(A.dtype).toBe(DType.INT16);
+            expect(A.realData instanceof Int16Array).toBeTruthy();
+            checkArrayLike(A.realData, [1, -2, 300, 4]);
+            let B = T.fromArray([0.1, 0.2], [0.3, 0.4], DType.FLOAT32);
+            expect(B.dtype).toBe(DType.FLOAT32);
+            expect(B.realData instanceof Float32Array).toBeTruthy();
+            expect(B.imagData instanceof Float32Array).toBeTruthy();
+        });
         it('should throw in invalid cases', () => {
             // inconsistent real and imaginary parts
             let case1 = () => { T.fromArray([1], [2,3]); };
@@ -328,6 +387,17 @@ describe('Tensor basic methods', () => {
             expect(y.dtype).toBe(T.FLOAT64);
             checkArrayLike(y.realData, x.realData);
         });
+        it('should convert between narrow data types', () => {
+            let x = T.fromArray([-1, 2.7, 256], [], T.FLOAT64);
+            let y = x.asType(T.UINT8);
+            expect(y.dtype).toBe(T.UINT8);
+            expect(y.realData instanceof Uint8Array).toBeTruthy();
+            // down casting is handled by typed arrays
+            checkArrayLike(y.realData, [255, 2, 0]);
+            let z = y.asType(T.FLOAT32);
+            expect(z.dtype).toBe(T.FLOAT32);
+            checkArrayLike(z.realData, [255, 2, 0]);
+        });
         it('should cast non logic data to logic data', () => {
             let x = T.fromArray([0, 1.2, -3, 0, 0]);
             let y = x.asType(T.LOGIC);
@@ -359,4 +429,152 @@ describe('Tensor basic methods', () => {
         });
     });
 
+    describe('toJSON()/fromJSON()', () => {
+        it('should encode the data in base64 by default', () => {
+            expect(T.fromArray([1, 2]).toJSON()).toEqual({
+                shape: [2], dtype: 'float64', encoding: 'base64', re: 'AAAAAAAA8D8AAAAAAAAAQA=='
+            });
+            expect(T.fromArray([[-1, 2, 300]], [], T.INT16).toJSON()).toEqual({
+                shape: [1, 3], dtype: 'int16', encoding: 'base64', re: '//8CACwB'
+            });
+        });
+        it('should preserve dtype, shape and complex parts after a round trip', () => {
+            let dtypes = [DType.LOGIC, DType.INT8, DType.UINT8, DType.INT16, DType.UINT16,
+                          DType.INT32, DType.UINT32, DType.FLOAT32, DType.FLOAT64];
+            for (let dtype of dtypes) {
+                let x = T.fromArray([[[1, 0, 1]], [[0, 1, 1]]], [], dtype);
+                for (let encoding of ['base64', 'array']) {
+                    let y = T.fromJSON(JSON.stringify(x.toJSON({ encoding: <any>encoding })));
+                    expect(y.dtype).toBe(dtype);
+                    expect(y.shape).toEqual([2, 1, 3]);
+                    checkTensor(y, x);
+                }
+            }
+            let z = T.fromArray([[0.1, NaN], [Infinity, -Infinity]], [[-1, 2], [1e-300, 0]]);
+            checkTensor(T.fromJSON(JSON.stringify(z)), z);
+            checkTensor(T.fromJSON(JSON.parse(JSON.stringify(z.toJSON({ encoding: 'array' })))), z);
+        });
+        it('should be used by JSON.stringify()', () => {
+            let s = JSON.stringify({ a: T.fromArray([1, 2]) });
+            expect(JSON.parse(s).a.dtype).toBe('float64');
+            expect(T.fromJSON(JSON.parse(s).a).toArray(true)).toEqual([1, 2]);
+        });
+        it('should serialize views', () => {
+            let x = T.fromArray([[1, 2, 3, 4], [5, 6, 7, 8], [9, 10, 11, 12]]);
+            let v = <Tensor>x.get(':', '1::2');
+            checkTensor(T.fromJSON(v.toJSON()), T.fromArray([[2, 4], [6, 8], [10, 12]]));
+        });
+        it('should throw for invalid input', () => {
+            expect(() => T.fromJSON({ shape: [2], dtype: 'float128', encoding: 'array', re: [1, 2] })).toThrow();
+            expect(() => T.fromJSON({ shape: [3], dtype: 'float64', encoding: 'array', re: [1, 2] })).toThrow();
+            expect(() => T.fromJSON({ shape: [1], dtype: 'float64', encoding: 'base64', re: 'AAAA' })).toThrow();
+            expect(() => T.fromJSON({ shape: [1], dtype: 'float64', encoding: 'array', re: ['x'] })).toThrow();
+            expect(() => T.fromJSON({ shape: [1], dtype: 'logic', encoding: 'array', re: [1], im: [0] })).toThrow();
+        });
+    });
+
+    describe('toTransferable()/fromTransferable()', () => {
+        it('should hand over the underlying buffers', () => {
+            let x = T.fromArray([[1, 2], [3, 4]], [[0, 1], [0, -1]]);
+            let re = x.realData;
+            let [t, buffers] = x.toTransferable();
+            expect(t.shape).toEqual([2, 2]);
+            expect(t.dtype).toBe('float64');
+            expect(t.re).toBe(re);
+            expect(buffers.length).toBe(2);
+            expect(buffers[0]).toBe((<Float64Array>re).buffer);
+            let y = T.fromTransferable(t);
+            expect(y.realData).toBe(re);
+            checkTensor(y, T.fromArray([[1, 2], [3, 4]], [[0, 1], [0, -1]]));
+        });
+        it('should not transfer storages shared with other tensors', () => {
+            let x = T.fromArray([1, 2, 3], [], T.INT32);
+            let y = x.copy();
+            let t = y.toTransferable()[0];
+            expect(t.re).not.toBe(x.realData);
+            expect(t.re instanceof Int32Array).toBe(true);
+            let v = <Tensor>T.fromArray([[1, 2], [3, 4]]).get(':', 1);
+            checkTensor(T.fromTransferable(v.toTransferable()[0]), T.fromArray([2, 4]));
+        });
+        it('should throw for mismatched data', () => {
+            expect(() => T.fromTransferable({ shape: [3], dtype: 'float64', re: new Float64Array(2) })).toThrow();
+            expect(() => T.fromTransferable({ shape: [2], dtype: 'int32', re: new Float64Array(2) })).toThrow();
+        });
+    });
+
+    describe('toString()', () => {
+        afterEach(() => {
+            JasmalEngine.setPrintOptions({ precision: 4, format: 'scientific', threshold: 1000,
+                                           edgeItems: 3, lineWidth: 75 });
+        });
+        it('should align the columns of a matrix', () => {
+            let x = T.fromArray([[1, -20], [300, 4]]);
+            expect(x.toString({ format: 'shortest' })).toBe(
+                '[[   1,  -20],\n' +
+                ' [ 300,    4]]');
+            expect(x.toString({ format: 'fixed', precision: 1 })).toBe(
+                '[[   1.0,  -20.0],\n' +
+                ' [ 300.0,    4.0]]');
+            expect(x.toString()).toBe(
+                '[[ 1.0000e+0, -2.0000e+1],\n' +
+                ' [ 3.0000e+2,  4.0000e+0]]');
+        });
+        it('should print N-d tensors slice by slice', () => {
+            let x = T.reshape(T.fromArray([1, 2, 3, 4, 5, 6, 7, 8], [], T.INT32), [2, 2, 2]);
+            expect(x.toString()).toBe(
+                '[[[ 1,  2],\n' +
+                '  [ 3,  4]],\n' +
+                '\n' +
+                ' [[ 5,  6],\n' +
+                '  [ 7,  8]]]');
+        });
+        it('should print complex and logic tensors', () => {
+            let x = T.complex(T.fromArray([1, -2.5]), T.fromArray([-10, 0.5]));
+            expect(x.toString({ format: 'shortest' })).toBe('[   1 -  10j, -2.5 + 0.5j]');
+            expect(T.fromArray([1, 0], [], T.LOGIC).toString()).toBe('[ true, false]');
+            expect(T.fromArray([NaN, Infinity, -1]).toString({ format: 'fixed', precision: 0 }))
+                .toBe('[ NaN,  Inf,   -1]');
+        });
+        it('should summarize large tensors', () => {
+            let x = T.reshape(T.linspace(0, 19, 20), [4, 5]);
+            expect(x.toString({ format: 'shortest', threshold: 10, edgeItems: 1 })).toBe(
+                '[[  0, ...,   4],\n' +
+                ' ...,\n' +
+                ' [ 15, ...,  19]]');
+        });
+        it('should wrap long rows', () => {
+            let x = T.fromArray([1, 2, 3, 4, 5], [], T.INT32);
+            expect(x.toString({ lineWidth: 10 })).toBe(
+                '[ 1,  2,\n' +
+                '  3,  4,\n' +
+                '  5]');
+        });
+        it('should use the global print options', () => {
+            JasmalEngine.setPrintOptions({ format: 'fixed', precision: 2 });
+            expect(JasmalEngine.getPrintOptions().format).toBe('fixed');
+            expect(T.fromArray([0.5, 1]).toString()).toBe('[ 0.50,  1.00]');
+            expect(T.format([0.5, 1])).toBe('[ 0.50,  1.00]');
+            expect(() => JasmalEngine.setPrintOptions({ precision: -1 })).toThrow();
+        });
+        it('should use the print options of each instance', () => {
+            let T1 = JasmalEngine.createInstance();
+            let T2 = JasmalEngine.createInstance({ printOptions: { format: 'shortest' } });
+            let x = T.fromArray([0.5, 1]);
+            T1.setPrintOptions({ format: 'fixed', precision: 2 });
+            expect(T1.format(x)).toBe('[ 0.50,  1.00]');
+            expect(T1.format(x, { precision: 1 })).toBe('[ 0.5,  1.0]');
+            expect(T2.format(x)).toBe('[ 0.5,    1]');
+            expect(T.format(x)).toBe('[ 5.0000e-1,  1.0000e+0]');
+            expect(x.toString()).toBe('[ 5.0000e-1,  1.0000e+0]');
+            expect(T1.getPrintOptions().format).toBe('fixed');
+            expect(T2.getPrintOptions().format).toBe('shortest');
+            expect(T.getPrintOptions().format).toBe('scientific');
+            // options not set for an instance fall back to the global ones
+            JasmalEngine.setPrintOptions({ lineWidth: 10 });
+            expect(T1.getPrintOptions().lineWidth).toBe(10);
+            expect(() => T1.setPrintOptions({ precision: -1 })).toThrow();
+            expect(T1.getPrintOptions().precision).toBe(2);
+        });
+    });
+
 });
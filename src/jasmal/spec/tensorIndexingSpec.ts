@@ -298,4 +298,122 @@ describe('Advanced indexing', () => {
             expect((<Tensor>X.get(':', [])).dtype).toEqual(T.INT32);
         });
     });
+    describe('views', () => {
+        // A = [[0, 1, 2, 3], [4, 5, 6, 7], [8, 9, 10, 11]]
+        let A = T.reshape(T.linspace(0, 11, 12), [3, 4]);
+        let ACopy = A.copy(true);
+
+        it('should create a view sharing the storage for ranged slicing', () => {
+            let V = <Tensor>A.get('1:3', '1:3');
+            expect(V.isView()).toBe(true);
+            expect(V.realStorageData).toBe(A.realStorageData);
+            expect(V.storageOffset).toBe(5);
+            expect(V.storageStrides).toEqual([4, 1]);
+            checkTensor(V, T.fromArray([[5, 6], [9, 10]]));
+        });
+        it('should handle steps and reversed ranges', () => {
+            let V = <Tensor>A.get('::-1', '1::2');
+            expect(V.isView()).toBe(true);
+            expect(V.storageStrides).toEqual([-4, 2]);
+            checkTensor(V, T.fromArray([[9, 11], [5, 7], [1, 3]]));
+            expect(V.getEl(0, 1)).toBe(11);
+            expect(V.getEl(4)).toBe(1);
+            expect(V.toArray(true)).toEqual([[9, 11], [5, 7], [1, 3]]);
+        });
+        it('should create views of views', () => {
+            let V = <Tensor>(<Tensor>A.get(':', '::-1')).get('1:', 0);
+            expect(V.isView()).toBe(true);
+            checkTensor(V, T.fromArray([7, 11]));
+        });
+        it('should create a view for flat slicing of contiguous tensors', () => {
+            let V = <Tensor>A.get('2:6');
+            expect(V.isView()).toBe(true);
+            checkTensor(V, T.fromArray([2, 3, 4, 5]));
+            checkTensor(<Tensor>V.get('::-2'), T.fromArray([5, 3]));
+        });
+        it('should not propagate changes made to the view back to the original tensor', () => {
+            let V = <Tensor>A.get(':', 1);
+            V.set(0, 100);
+            T.add(V, 1, true);
+            checkTensor(V, T.fromArray([101, 6, 10]));
+            expect(V.isView()).toBe(false);
+            checkTensor(A, ACopy);
+        });
+        it('should not propagate changes made to the original tensor to the view', () => {
+            let X = A.copy(true);
+            let V = <Tensor>X.get('1:', '::2');
+            X.set(':', 0);
+            checkTensor(V, T.fromArray([[4, 6], [8, 10]]));
+            checkTensor(X, T.zeros([3, 4]));
+        });
+        it('should retrieve the real and imaginary part of a complex view', () => {
+            let X = T.complex(A, <Tensor>T.neg(A));
+            let V = <Tensor>X.get('0:2', '2:');
+            checkTensor(V, T.fromArray([[2, 3], [6, 7]], [[-2, -3], [-6, -7]]));
+            checkTensor(V.real(), T.fromArray([[2, 3], [6, 7]]));
+            checkTensor(V.imag(), T.fromArray([[-2, -3], [-6, -7]]));
+            expect(V.getEl(1, 1)).toEqual(new ComplexNumber(7, -7));
+        });
+        it('should reshape views', () => {
+            checkTensor((<Tensor>A.get('1:', ':')).reshape([4, 2]),
+                T.fromArray([[4, 5], [6, 7], [8, 9], [10, 11]]));
+            checkTensor((<Tensor>A.get(':', '1:3')).getReshapedCopy([-1]),
+                T.fromArray([1, 2, 5, 6, 9, 10]));
+        });
+        it('should convert views to other data types', () => {
+            let V = <Tensor>A.get(':', 0);
+            checkTensor(V.asType(T.INT32), T.fromArray([0, 4, 8], [], T.INT32));
+            checkTensor(V.copy(true), T.fromArray([0, 4, 8]));
+            expect(V.copy(true).isView()).toBe(false);
+        });
+        it('should return views for transpose() and permuteAxis()', () => {
+            let At = T.transpose(A);
+            expect(At.isView()).toBe(true);
+            expect(At.realStorageData).toBe(A.realStorageData);
+            expect(T.transpose(At).isView()).toBe(false);
+            checkTensor(At, T.fromArray([[0, 4, 8], [1, 5, 9], [2, 6, 10], [3, 7, 11]]));
+            let B = T.reshape(T.linspace(0, 23, 24), [2, 3, 4]);
+            let P = T.permuteAxis(B, [2, 0, 1]);
+            expect(P.isView()).toBe(true);
+            expect(P.shape).toEqual([4, 2, 3]);
+            expect(P.getEl(3, 1, 2)).toBe(23);
+            expect(P.getEl(1, 0, 2)).toBe(9);
+        });
+        it('should perform element-wise operations on views', () => {
+            let V = <Tensor>A.get('::2', '1::2');
+            checkTensor(T.add(V, T.transpose(V)), T.fromArray([[2, 12], [12, 22]]));
+            checkTensor(T.mul(V, 2), T.fromArray([[2, 6], [18, 22]]));
+        });
+        it('should perform reductions on views', () => {
+            let V = <Tensor>A.get('::-1', '1:');
+            checkTensor(<Tensor>T.sum(V, 0), T.fromArray([15, 18, 21]));
+            checkTensor(<Tensor>T.sum(V, 1), T.fromArray([30, 18, 6]));
+            expect(T.sum(V)).toBe(54);
+            expect(T.sum(A.get(':', 2))).toBe(18);
+            let At = T.transpose(A);
+            let [m, i] = T.max(At, 0);
+            checkTensor(m, T.fromArray([3, 7, 11]));
+            checkTensor(i, T.fromArray([3, 3, 3], [], T.INT32));
+            // should not materialize the view
+            expect(At.isView()).toBe(true);
+        });
+        it('should perform matrix multiplications with views', () => {
+            let B = <Tensor>A.get(':', '0:2');
+            let expected = T.fromArray([[1, 5, 9], [5, 41, 77], [9, 77, 145]]);
+            checkTensor(T.matmul(B, T.transpose(B)), expected);
+            checkTensor(T.matmul(T.transpose(B), B), T.fromArray([[80, 92], [92, 107]]));
+            let At = T.transpose(A);
+            checkTensor(T.matmul(A, At), T.matmul(A, A, T.MM_TRANSPOSED));
+            expect(At.isView()).toBe(true);
+        });
+        it('should retrieve sub tensors with multiple trailing singleton dimensions', () => {
+            let B = T.reshape(T.linspace(0, 23, 24), [2, 3, 4]);
+            checkTensor(<Tensor>B.get([0, 1], 1, 2), T.fromArray([6, 18]));
+            checkTensor(<Tensor>B.get(':', 1, 2), T.fromArray([6, 18]));
+            B.set([0, 1], 2, 3, -1);
+            expect(B.getEl(0, 2, 3)).toBe(-1);
+            expect(B.getEl(1, 2, 3)).toBe(-1);
+            expect(B.strides).toEqual([12, 4, 1]);
+        });
+    });
 });